@@ -0,0 +1,230 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { KeyRound, Loader2, MoreHorizontal, Pencil, Power, ShieldOff } from "lucide-react";
+
+import {
+  resetAdminUserPassword,
+  resetAdminUserTwoFactor,
+  updateAdminUser,
+} from "@/lib/actions/admin-users";
+import { ADMIN_ROLES, adminRoleLabels, type AdminRole } from "@/lib/admin-permissions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+import { selectClassName } from "./create-admin-dialog";
+
+interface AdminUserActionsProps {
+  account: {
+    id: string;
+    username: string;
+    displayName: string | null;
+    role: AdminRole;
+    isActive: boolean;
+    totpEnabled: boolean;
+  };
+  isSelf: boolean;
+}
+
+export function AdminUserActions({ account, isSelf }: AdminUserActionsProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [editOpen, setEditOpen] = useState(false);
+  const [passwordOpen, setPasswordOpen] = useState(false);
+  const [displayName, setDisplayName] = useState(account.displayName ?? "");
+  const [role, setRole] = useState<AdminRole>(account.role);
+  const [password, setPassword] = useState("");
+
+  const run = (
+    action: () => Promise<{ success: boolean; message: string }>,
+    onSuccess?: () => void
+  ) => {
+    startTransition(async () => {
+      const result = await action();
+      if (result.success) {
+        toast.success(result.message);
+        onSuccess?.();
+        router.refresh();
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  const openEdit = () => {
+    setDisplayName(account.displayName ?? "");
+    setRole(account.role);
+    setEditOpen(true);
+  };
+
+  const openPassword = () => {
+    setPassword("");
+    setPasswordOpen(true);
+  };
+
+  const handleToggleActive = () => {
+    if (
+      account.isActive &&
+      !confirm(`确定要停用「${account.username}」吗？停用后该账号无法登录，已登录的会话将立即失效。`)
+    ) {
+      return;
+    }
+    run(() => updateAdminUser(account.id, { isActive: !account.isActive }));
+  };
+
+  const handleResetTwoFactor = () => {
+    if (!confirm(`确定要重置「${account.username}」的两步验证吗？重置后该账号登录只需要密码，可重新绑定。`)) {
+      return;
+    }
+    run(() => resetAdminUserTwoFactor(account.id));
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" disabled={isPending}>
+            {isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <MoreHorizontal className="h-4 w-4" />
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={openEdit}>
+            <Pencil className="mr-2 h-4 w-4" />
+            编辑
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={openPassword}>
+            <KeyRound className="mr-2 h-4 w-4" />
+            重置密码
+          </DropdownMenuItem>
+          {account.totpEnabled && (
+            <DropdownMenuItem onClick={handleResetTwoFactor}>
+              <ShieldOff className="mr-2 h-4 w-4" />
+              重置两步验证
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={handleToggleActive}
+            disabled={isSelf}
+            className={account.isActive ? "text-red-600" : undefined}
+          >
+            <Power className="mr-2 h-4 w-4" />
+            {account.isActive ? "停用" : "启用"}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={editOpen} onOpenChange={setEditOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>编辑管理员</DialogTitle>
+            <DialogDescription>{account.username}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={`admin-display-name-${account.id}`}>显示名称</Label>
+              <Input
+                id={`admin-display-name-${account.id}`}
+                value={displayName}
+                maxLength={50}
+                onChange={(e) => setDisplayName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`admin-role-${account.id}`}>角色</Label>
+              <select
+                id={`admin-role-${account.id}`}
+                className={selectClassName}
+                value={role}
+                disabled={isSelf}
+                onChange={(e) => setRole(e.target.value as AdminRole)}
+              >
+                {ADMIN_ROLES.map((item) => (
+                  <option key={item} value={item}>
+                    {adminRoleLabels[item]}
+                  </option>
+                ))}
+              </select>
+              {isSelf && <p className="text-xs text-muted-foreground">不能修改自己的角色</p>}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setEditOpen(false)}>
+              取消
+            </Button>
+            <Button
+              disabled={isPending}
+              onClick={() =>
+                run(
+                  () => updateAdminUser(account.id, { displayName, role }),
+                  () => setEditOpen(false)
+                )
+              }
+            >
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              保存
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={passwordOpen} onOpenChange={setPasswordOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>重置密码</DialogTitle>
+            <DialogDescription>为「{account.username}」设置新密码（至少 8 个字符）</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`admin-password-${account.id}`}>新密码</Label>
+            <Input
+              id={`admin-password-${account.id}`}
+              type="password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setPasswordOpen(false)}>
+              取消
+            </Button>
+            <Button
+              disabled={isPending || password.length === 0}
+              onClick={() =>
+                run(
+                  () => resetAdminUserPassword(account.id, password),
+                  () => setPasswordOpen(false)
+                )
+              }
+            >
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              重置
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,153 @@
+export const dynamic = "force-dynamic";
+
+import { ShieldCheck, UserCog } from "lucide-react";
+
+import { getAdminUsers } from "@/lib/actions/admin-users";
+import {
+  ADMIN_ROLES,
+  adminPermissionLabels,
+  adminRoleLabels,
+  getAdminPermissions,
+} from "@/lib/admin-permissions";
+import { LocalTime } from "@/components/time/local-time";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+import { AdminUserActions } from "./admin-user-actions";
+import { CreateAdminDialog } from "./create-admin-dialog";
+
+export default async function AdminUsersPage() {
+  const { items, bootstrapEnabled, currentAdminId } = await getAdminUsers();
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">管理员账号</h1>
+          <p className="text-zinc-600 dark:text-zinc-400">
+            为每位成员创建独立账号，按角色控制可访问的页面与操作
+          </p>
+        </div>
+        <CreateAdminDialog />
+      </div>
+
+      {bootstrapEnabled ? (
+        <Alert className="border-amber-200 bg-amber-50 text-amber-950 dark:border-amber-900/50 dark:bg-amber-950/40 dark:text-amber-100">
+          <ShieldCheck />
+          <AlertTitle>仍可使用 ADMIN_PASSWORD 登录</AlertTitle>
+          <AlertDescription className="text-amber-800 dark:text-amber-200">
+            还没有启用中的所有者账号。创建所有者账号后，<code>ADMIN_PASSWORD</code> 登录将自动停用。
+          </AlertDescription>
+        </Alert>
+      ) : null}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <UserCog className="h-5 w-5" />
+            账号列表
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {items.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>用户名</TableHead>
+                    <TableHead>显示名称</TableHead>
+                    <TableHead>角色</TableHead>
+                    <TableHead className="text-center">状态</TableHead>
+                    <TableHead className="text-center">两步验证</TableHead>
+                    <TableHead>最近登录</TableHead>
+                    <TableHead>创建时间</TableHead>
+                    <TableHead className="text-right">操作</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((account) => (
+                    <TableRow key={account.id}>
+                      <TableCell className="font-mono text-sm">
+                        {account.username}
+                        {account.id === currentAdminId && (
+                          <Badge variant="outline" className="ml-2">
+                            当前账号
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{account.displayName || "-"}</TableCell>
+                      <TableCell>
+                        <Badge variant={account.role === "owner" ? "default" : "secondary"}>
+                          {adminRoleLabels[account.role]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-center">
+                        {account.isActive ? (
+                          <Badge className="bg-emerald-100 text-emerald-700">启用</Badge>
+                        ) : (
+                          <Badge variant="secondary">已停用</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        {account.totpEnabled ? (
+                          <Badge className="bg-emerald-100 text-emerald-700">已启用</Badge>
+                        ) : (
+                          <span className="text-sm text-zinc-400">未启用</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-zinc-500">
+                        <LocalTime value={account.lastLoginAt} />
+                      </TableCell>
+                      <TableCell className="text-sm text-zinc-500">
+                        <LocalTime value={account.createdAt} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <AdminUserActions
+                          account={account}
+                          isSelf={account.id === currentAdminId}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="py-12 text-center text-sm text-zinc-500">暂无管理员账号</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <ShieldCheck className="h-5 w-5" />
+            角色权限
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          {ADMIN_ROLES.map((role) => (
+            <div key={role} className="rounded-lg border p-4">
+              <p className="font-medium">{adminRoleLabels[role]}</p>
+              <ul className="mt-2 list-disc space-y-1 pl-4 text-sm text-zinc-600 dark:text-zinc-400">
+                {getAdminPermissions(role).map((permission) => (
+                  <li key={permission}>{adminPermissionLabels[permission]}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,333 @@
+export const dynamic = "force-dynamic";
+
+import Link from "next/link";
+import { BarChart3, DollarSign, Percent, Search, ShoppingCart, Undo2, Wallet } from "lucide-react";
+
+import { getSalesAnalytics } from "@/lib/actions/analytics";
+import {
+  ANALYTICS_MAX_HOURLY_DAYS,
+  ANALYTICS_PRESETS,
+  analyticsBucketLabels,
+  formatRate,
+  getAnalyticsMetrics,
+  summarizeAnalyticsSeries,
+  type AnalyticsBreakdownRow,
+  type AnalyticsSeriesRow,
+} from "@/lib/analytics";
+import { cn } from "@/lib/utils";
+import { MiniBarChart } from "@/components/admin/mini-bar-chart";
+import { StatsCard } from "@/components/admin/stats-card";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+const tabClassName = "rounded-md border px-3 py-1 text-sm transition-colors hover:bg-muted";
+const tabActiveClassName = "border-primary bg-primary/5 font-medium";
+
+// 横轴最多显示的标签数
+const MAX_AXIS_LABELS = 12;
+
+interface AnalyticsPageProps {
+  searchParams: Promise<{
+    preset?: string;
+    from?: string;
+    to?: string;
+    bucket?: string;
+  }>;
+}
+
+function shortBucketLabel(bucket: string, singleDay: boolean): string {
+  // YYYY-MM-DD HH:00 / YYYY-MM-DD
+  if (bucket.length > 10) {
+    return singleDay ? bucket.slice(11) : `${bucket.slice(5, 10)} ${bucket.slice(11, 13)}时`;
+  }
+  return bucket.slice(5);
+}
+
+function SeriesChartCard({
+  title,
+  rows,
+  value,
+  formatValue,
+  singleDay,
+}: {
+  title: string;
+  rows: AnalyticsSeriesRow[];
+  value: (row: AnalyticsSeriesRow) => number;
+  formatValue: (value: number) => string;
+  singleDay: boolean;
+}) {
+  return (
+    <Card className="py-4">
+      <CardHeader className="px-4">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="px-4">
+        <MiniBarChart
+          ariaLabel={`${title}柱状图`}
+          rows={rows.map((row) => ({
+            label: shortBucketLabel(row.bucket, singleDay),
+            value: value(row),
+          }))}
+          formatValue={formatValue}
+          labelEvery={Math.max(1, Math.ceil(rows.length / MAX_AXIS_LABELS))}
+        />
+      </CardContent>
+    </Card>
+  );
+}
+
+function BreakdownCard({ title, rows }: { title: string; rows: AnalyticsBreakdownRow[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>名称</TableHead>
+                <TableHead className="text-right">订单数</TableHead>
+                <TableHead className="text-right">数量</TableHead>
+                <TableHead className="text-right">实收</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell className="max-w-[200px] truncate">{row.name}</TableCell>
+                  <TableCell className="text-right">{row.orders}</TableCell>
+                  <TableCell className="text-right">{row.units}</TableCell>
+                  <TableCell className="text-right">{row.revenue.toFixed(2)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="py-6 text-center text-sm text-zinc-500">暂无销售数据</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default async function AnalyticsPage({ searchParams }: AnalyticsPageProps) {
+  const params = await searchParams;
+  const result = await getSalesAnalytics(params);
+
+  if (!result.success) {
+    return (
+      <div className="py-12 text-center">
+        <BarChart3 className="mx-auto h-12 w-12 text-zinc-300" />
+        <p className="mt-4 text-zinc-500">{result.message}</p>
+      </div>
+    );
+  }
+
+  const { range, series, topProducts, topCategories, timeZone } = result.analytics;
+  const totals = summarizeAnalyticsSeries(series);
+  const metrics = getAnalyticsMetrics(totals);
+  const singleDay = range.days === 1;
+  const formatAmount = (value: number) => `${value.toFixed(2)} LDC`;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">销售分析</h1>
+        <p className="text-zinc-600 dark:text-zinc-400">
+          {range.from === range.to ? range.from : `${range.from} ~ ${range.to}`}
+          （统计口径：{timeZone}，{analyticsBucketLabels[range.bucket]}）
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex flex-wrap items-center gap-2">
+            {ANALYTICS_PRESETS.map((preset) => (
+              <Link
+                key={preset.key}
+                href={`/admin/analytics?preset=${preset.key}`}
+                className={cn(tabClassName, range.preset === preset.key && tabActiveClassName)}
+              >
+                {preset.label}
+              </Link>
+            ))}
+          </div>
+          <form className="flex flex-wrap items-center gap-2" action="/admin/analytics">
+            <Input
+              type="date"
+              name="from"
+              defaultValue={range.from}
+              aria-label="开始日期"
+              className="h-9 w-40"
+            />
+            <span className="text-sm text-zinc-500">至</span>
+            <Input
+              type="date"
+              name="to"
+              defaultValue={range.to}
+              aria-label="结束日期"
+              className="h-9 w-40"
+            />
+            <select
+              name="bucket"
+              defaultValue={range.bucket}
+              aria-label="时间粒度"
+              className="h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+            >
+              <option value="hour">{analyticsBucketLabels.hour}</option>
+              <option value="day">{analyticsBucketLabels.day}</option>
+            </select>
+            <Button type="submit" variant="outline" size="sm" className="h-9 gap-2">
+              <Search className="h-4 w-4" />
+              查询
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+      {range.days > ANALYTICS_MAX_HOURLY_DAYS ? (
+        <p className="-mt-4 text-xs text-muted-foreground">
+          超过 {ANALYTICS_MAX_HOURLY_DAYS} 天的范围仅支持按天统计
+        </p>
+      ) : null}
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+        <StatsCard
+          title="实收"
+          value={formatAmount(totals.revenue)}
+          description={`${totals.paidOrders} 笔支付订单`}
+          icon={DollarSign}
+        />
+        <StatsCard
+          title="支付订单"
+          value={totals.paidOrders}
+          description={`下单 ${totals.createdOrders} 笔`}
+          icon={ShoppingCart}
+        />
+        <StatsCard
+          title="客单价"
+          value={metrics.averageOrderValue === null ? "-" : formatAmount(metrics.averageOrderValue)}
+          icon={Wallet}
+        />
+        <StatsCard
+          title="下单转化率"
+          value={formatRate(metrics.conversionRate)}
+          description={`已支付 ${totals.convertedOrders} · 已过期 ${totals.expiredOrders}（${formatRate(metrics.expireRate)}）`}
+          icon={Percent}
+        />
+        <StatsCard
+          title="退款率"
+          value={formatRate(metrics.refundRate)}
+          description={`退款 ${totals.refundedAmount.toFixed(2)} LDC · ${totals.refundedOrders} 笔`}
+          icon={Undo2}
+        />
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <SeriesChartCard
+          title="实收（LDC）"
+          rows={series}
+          value={(row) => row.revenue}
+          formatValue={formatAmount}
+          singleDay={singleDay}
+        />
+        <SeriesChartCard
+          title="支付订单数"
+          rows={series}
+          value={(row) => row.paidOrders}
+          formatValue={(value) => `${value} 笔`}
+          singleDay={singleDay}
+        />
+        <SeriesChartCard
+          title="下单转化率"
+          rows={series}
+          value={(row) => getAnalyticsMetrics(row).conversionRate ?? 0}
+          formatValue={(value) => formatRate(value)}
+          singleDay={singleDay}
+        />
+        <SeriesChartCard
+          title="客单价（LDC）"
+          rows={series}
+          value={(row) => getAnalyticsMetrics(row).averageOrderValue ?? 0}
+          formatValue={formatAmount}
+          singleDay={singleDay}
+        />
+        <SeriesChartCard
+          title="退款率"
+          rows={series}
+          value={(row) => getAnalyticsMetrics(row).refundRate ?? 0}
+          formatValue={(value) => formatRate(value)}
+          singleDay={singleDay}
+        />
+        <SeriesChartCard
+          title="已过期订单"
+          rows={series}
+          value={(row) => row.expiredOrders}
+          formatValue={(value) => `${value} 笔`}
+          singleDay={singleDay}
+        />
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <BreakdownCard title="热销商品" rows={topProducts} />
+        <BreakdownCard title="热销分类" rows={topCategories} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">明细</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="max-h-96 overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>时段</TableHead>
+                  <TableHead className="text-right">下单</TableHead>
+                  <TableHead className="text-right">已支付</TableHead>
+                  <TableHead className="text-right">已过期</TableHead>
+                  <TableHead className="text-right">转化率</TableHead>
+                  <TableHead className="text-right">支付订单</TableHead>
+                  <TableHead className="text-right">实收</TableHead>
+                  <TableHead className="text-right">客单价</TableHead>
+                  <TableHead className="text-right">退款率</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {series.map((row) => {
+                  const rowMetrics = getAnalyticsMetrics(row);
+                  return (
+                    <TableRow key={row.bucket}>
+                      <TableCell className="whitespace-nowrap text-sm">{row.bucket}</TableCell>
+                      <TableCell className="text-right">{row.createdOrders}</TableCell>
+                      <TableCell className="text-right">{row.convertedOrders}</TableCell>
+                      <TableCell className="text-right">{row.expiredOrders}</TableCell>
+                      <TableCell className="text-right">{formatRate(rowMetrics.conversionRate)}</TableCell>
+                      <TableCell className="text-right">{row.paidOrders}</TableCell>
+                      <TableCell className="text-right">{row.revenue.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">
+                        {rowMetrics.averageOrderValue === null ? "-" : rowMetrics.averageOrderValue.toFixed(2)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatRate(rowMetrics.refundRate)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
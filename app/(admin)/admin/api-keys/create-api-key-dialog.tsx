@@ -0,0 +1,242 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { Check, Copy, KeyRound, Loader2, Plus } from "lucide-react";
+
+import { createApiKey } from "@/lib/actions/api-keys";
+import { API_KEY_SCOPES, apiKeyScopeLabels } from "@/lib/api/scopes";
+import { createApiKeySchema, type CreateApiKeyInput } from "@/lib/validations/api-key";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+export function CreateApiKeyDialog() {
+  const [open, setOpen] = useState(false);
+  // 创建成功后的明文密钥，只展示这一次
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const router = useRouter();
+
+  const form = useForm<CreateApiKeyInput>({
+    resolver: zodResolver(createApiKeySchema),
+    defaultValues: {
+      name: "",
+      userId: "",
+      username: "",
+      scopes: ["products:read", "orders:create", "orders:read", "cards:read"],
+      rateLimitPerMinute: 60,
+    },
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setCreatedKey(null);
+      setCopied(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdKey) return;
+    try {
+      await navigator.clipboard.writeText(createdKey);
+      setCopied(true);
+      toast.success("已复制到剪贴板");
+    } catch {
+      toast.error("复制失败，请手动选择复制");
+    }
+  };
+
+  const onSubmit = (values: CreateApiKeyInput) => {
+    startTransition(async () => {
+      const result = await createApiKey(values);
+
+      if (result.success && result.key) {
+        toast.success(result.message);
+        form.reset();
+        setCreatedKey(result.key);
+        router.refresh();
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button className="gap-2">
+          <Plus className="h-4 w-4" />
+          创建密钥
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            创建 API 密钥
+          </DialogTitle>
+          <DialogDescription>
+            {createdKey
+              ? "请立即复制并妥善保存，关闭后将无法再次查看明文"
+              : "密钥绑定一个 Linux DO 用户，通过它创建和查询的都是该用户的订单"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {createdKey ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Input readOnly value={createdKey} className="font-mono text-xs" />
+              <Button type="button" variant="outline" size="icon" onClick={handleCopy}>
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <DialogFooter>
+              <Button type="button" onClick={() => handleOpenChange(false)}>
+                我已保存
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>名称 *</FormLabel>
+                    <FormControl>
+                      <Input placeholder="如：Telegram 机器人" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="userId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Linux DO 用户 ID *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="数字 ID" autoComplete="off" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>用户名</FormLabel>
+                      <FormControl>
+                        <Input placeholder="可选" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="scopes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>权限范围</FormLabel>
+                    <div className="space-y-2">
+                      {API_KEY_SCOPES.map((scope) => (
+                        <label key={scope} className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={field.value.includes(scope)}
+                            onChange={(e) =>
+                              field.onChange(
+                                e.target.checked
+                                  ? [...field.value, scope]
+                                  : field.value.filter((value) => value !== scope)
+                              )
+                            }
+                            className="h-4 w-4 rounded border-input bg-background accent-primary"
+                          />
+                          <span>{apiKeyScopeLabels[scope]}</span>
+                          <code className="text-xs text-zinc-500">{scope}</code>
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="rateLimitPerMinute"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>每分钟请求上限</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={600}
+                        {...field}
+                        onChange={(e) => field.onChange(Number.parseInt(e.target.value, 10) || 0)}
+                      />
+                    </FormControl>
+                    <FormDescription>超出后返回 429，下一分钟恢复</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                  取消
+                </Button>
+                <Button type="submit" disabled={isPending}>
+                  {isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      创建中...
+                    </>
+                  ) : (
+                    "创建"
+                  )}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,116 @@
+export const dynamic = "force-dynamic";
+
+import Link from "next/link";
+import { KeyRound } from "lucide-react";
+
+import { getApiKeys } from "@/lib/actions/api-keys";
+import { apiKeyScopeLabels, type ApiKeyScope } from "@/lib/api/scopes";
+import { LocalTime } from "@/components/time/local-time";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+import { CreateApiKeyDialog } from "./create-api-key-dialog";
+import { RevokeApiKeyButton } from "./revoke-api-key-button";
+
+export default async function AdminApiKeysPage() {
+  const items = await getApiKeys();
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">API 密钥</h1>
+          <p className="text-zinc-600 dark:text-zinc-400">
+            供机器人、分销站等外部程序调用 /api/v1 开放接口，接口说明见{" "}
+            <Link href="/api/v1/openapi.json" target="_blank" className="underline">
+              OpenAPI 文档
+            </Link>
+          </p>
+        </div>
+        <CreateApiKeyDialog />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <KeyRound className="h-5 w-5" />
+            密钥列表 ({items.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {items.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>名称</TableHead>
+                    <TableHead>绑定用户</TableHead>
+                    <TableHead>权限范围</TableHead>
+                    <TableHead>限流</TableHead>
+                    <TableHead>最近使用</TableHead>
+                    <TableHead>创建时间</TableHead>
+                    <TableHead className="text-right">操作</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item) => (
+                    <TableRow key={item.id} className={item.revokedAt ? "opacity-60" : undefined}>
+                      <TableCell>
+                        <div className="flex items-center gap-2 text-sm">
+                          {item.name}
+                          {item.revokedAt ? (
+                            <Badge className="bg-zinc-100 text-zinc-600">已撤销</Badge>
+                          ) : null}
+                        </div>
+                        <div className="font-mono text-xs text-zinc-500">{item.keyPrefix}…</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">{item.username || "-"}</div>
+                        <div className="font-mono text-xs text-zinc-500">{item.userId}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {item.scopes.map((scope) => (
+                            <Badge key={scope} variant="outline" title={scope}>
+                              {apiKeyScopeLabels[scope as ApiKeyScope] ?? scope}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {item.rateLimitPerMinute} 次/分钟
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-sm text-zinc-500">
+                        {item.lastUsedAt ? <LocalTime value={item.lastUsedAt} mode="short" /> : "从未使用"}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-sm text-zinc-500">
+                        <LocalTime value={item.createdAt} mode="short" />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {item.revokedAt ? null : <RevokeApiKeyButton id={item.id} name={item.name} />}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="py-12 text-center">
+              <KeyRound className="mx-auto h-12 w-12 text-zinc-300" />
+              <p className="mt-4 text-zinc-500">暂无 API 密钥</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
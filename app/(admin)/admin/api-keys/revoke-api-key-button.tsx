@@ -0,0 +1,44 @@
+"use client";
+
+import { useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Ban, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { revokeApiKey } from "@/lib/actions/api-keys";
+
+/**
+ * 撤销密钥：立即失效，使用该密钥的请求将返回 401
+ */
+export function RevokeApiKeyButton({ id, name }: { id: string; name: string }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const handleRevoke = () => {
+    if (!confirm(`确定要撤销密钥「${name}」吗？撤销后不可恢复`)) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await revokeApiKey(id);
+      if (result.success) {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+      router.refresh();
+    });
+  };
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleRevoke} disabled={isPending}>
+      {isPending ? (
+        <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+      ) : (
+        <Ban className="mr-1 h-3 w-3" />
+      )}
+      撤销
+    </Button>
+  );
+}
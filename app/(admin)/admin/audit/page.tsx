@@ -0,0 +1,289 @@
+export const dynamic = "force-dynamic";
+
+import Link from "next/link";
+import { ArrowLeft, ArrowRight, ScrollText, Search } from "lucide-react";
+
+import { getAdminAuditLogs } from "@/lib/actions/admin-audit-logs";
+import {
+  adminAuditActionLabels,
+  adminAuditEntityLabels,
+  type AdminAuditEntityType,
+} from "@/lib/admin-audit";
+import { adminRoleLabels } from "@/lib/admin-permissions";
+import { LocalTime } from "@/components/time/local-time";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+const selectClassName =
+  "h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
+interface AuditFilters {
+  actorId: string;
+  entityType: string;
+  entityId: string;
+  from: string;
+  to: string;
+}
+
+interface AdminAuditPageProps {
+  searchParams: Promise<Partial<AuditFilters> & { page?: string }>;
+}
+
+function buildHref(filters: AuditFilters, page: number): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) query.set(key, value);
+  }
+  if (page > 1) query.set("page", String(page));
+  const search = query.toString();
+  return search ? `/admin/audit?${search}` : "/admin/audit";
+}
+
+function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined) return "-";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * 变更明细：按字段列出「变更前 → 变更后」；只有一侧时（删除 / 创建）直接列出快照
+ */
+function AuditChanges({
+  before,
+  after,
+}: {
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}) {
+  const keys = Array.from(new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]));
+  if (keys.length === 0) {
+    return <span className="text-zinc-400">-</span>;
+  }
+
+  return (
+    <dl className="space-y-1">
+      {keys.map((key) => (
+        <div key={key} className="break-all">
+          <dt className="inline font-mono text-zinc-500">{key}: </dt>
+          <dd className="inline font-mono">
+            {before && after ? (
+              <>
+                <span className="text-red-600 line-through">{formatAuditValue(before[key])}</span>
+                {" → "}
+                <span className="text-emerald-700">{formatAuditValue(after[key])}</span>
+              </>
+            ) : (
+              formatAuditValue((before ?? after)?.[key])
+            )}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+export default async function AdminAuditPage({ searchParams }: AdminAuditPageProps) {
+  const params = await searchParams;
+  const filters: AuditFilters = {
+    actorId: params.actorId?.trim() || "",
+    entityType:
+      params.entityType && params.entityType in adminAuditEntityLabels ? params.entityType : "",
+    entityId: params.entityId?.trim() || "",
+    from: params.from?.trim() || "",
+    to: params.to?.trim() || "",
+  };
+  const page = Math.max(1, Number.parseInt(params.page || "1", 10) || 1);
+
+  const result = await getAdminAuditLogs({ page, ...filters });
+  const totalPages = Math.max(1, Math.ceil(result.total / result.pageSize));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">操作日志</h1>
+        <p className="text-zinc-600 dark:text-zinc-400">
+          删除订单、释放卡密、退款审核、改价与系统配置等敏感操作的审计记录（只追加，不可修改或删除）
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="space-y-4">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <ScrollText className="h-5 w-5" />
+            审计记录 ({result.total})
+          </CardTitle>
+          <form className="flex flex-wrap items-center gap-2" action="/admin/audit">
+            <select
+              name="actorId"
+              defaultValue={filters.actorId}
+              aria-label="操作人"
+              className={selectClassName}
+            >
+              <option value="">全部操作人</option>
+              {result.actors.map((actor) => (
+                <option key={actor.id} value={actor.id}>
+                  {actor.name || actor.id}
+                </option>
+              ))}
+            </select>
+            <select
+              name="entityType"
+              defaultValue={filters.entityType}
+              aria-label="对象类型"
+              className={selectClassName}
+            >
+              <option value="">全部对象</option>
+              {Object.entries(adminAuditEntityLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <Input
+              name="entityId"
+              defaultValue={filters.entityId}
+              placeholder="对象 ID"
+              className="h-9 w-64"
+            />
+            <Input
+              type="date"
+              name="from"
+              defaultValue={filters.from}
+              aria-label="开始日期"
+              className="h-9 w-40"
+            />
+            <span className="text-sm text-zinc-500">至</span>
+            <Input
+              type="date"
+              name="to"
+              defaultValue={filters.to}
+              aria-label="结束日期"
+              className="h-9 w-40"
+            />
+            <Button type="submit" variant="outline" size="sm" className="h-9 gap-2">
+              <Search className="h-4 w-4" />
+              筛选
+            </Button>
+          </form>
+        </CardHeader>
+        <CardContent>
+          {result.items.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>时间</TableHead>
+                    <TableHead>操作人</TableHead>
+                    <TableHead>操作</TableHead>
+                    <TableHead>对象</TableHead>
+                    <TableHead>变更</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.items.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell className="whitespace-nowrap text-sm text-zinc-500">
+                        <LocalTime value={item.createdAt} mode="short" />
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">{item.actorName || item.actorId}</div>
+                        <div className="text-xs text-zinc-500">
+                          {item.actorRole ? adminRoleLabels[item.actorRole] : "-"}
+                          {item.ipAddress ? ` · ${item.ipAddress}` : ""}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">
+                          {adminAuditActionLabels[item.action] ?? item.action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">
+                          {adminAuditEntityLabels[item.entityType as AdminAuditEntityType] ??
+                            item.entityType}
+                        </div>
+                        {item.entityId ? (
+                          <Link
+                            href={buildHref(
+                              { ...filters, entityType: item.entityType, entityId: item.entityId },
+                              1
+                            )}
+                            className="font-mono text-xs text-zinc-500 hover:underline"
+                          >
+                            {item.entityId}
+                          </Link>
+                        ) : null}
+                      </TableCell>
+                      <TableCell className="max-w-md text-xs text-zinc-600 dark:text-zinc-400">
+                        <details>
+                          <summary className="cursor-pointer text-zinc-500">
+                            {Object.keys(item.after ?? item.before ?? {}).length} 个字段
+                          </summary>
+                          <div className="mt-1">
+                            <AuditChanges before={item.before} after={item.after} />
+                          </div>
+                          {item.requestId ? (
+                            <div className="mt-1 font-mono">requestId: {item.requestId}</div>
+                          ) : null}
+                        </details>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="py-12 text-center">
+              <ScrollText className="mx-auto h-12 w-12 text-zinc-300" />
+              <p className="mt-4 text-zinc-500">暂无操作记录</p>
+            </div>
+          )}
+
+          {totalPages > 1 ? (
+            <div className="flex items-center justify-between pt-4">
+              {page <= 1 ? (
+                <Button variant="outline" disabled className="gap-2">
+                  <ArrowLeft className="h-4 w-4" />
+                  上一页
+                </Button>
+              ) : (
+                <Button asChild variant="outline" className="gap-2">
+                  <Link href={buildHref(filters, page - 1)}>
+                    <ArrowLeft className="h-4 w-4" />
+                    上一页
+                  </Link>
+                </Button>
+              )}
+              <span className="text-sm text-zinc-500">
+                第 {page} / {totalPages} 页
+              </span>
+              {page >= totalPages ? (
+                <Button variant="outline" disabled className="gap-2">
+                  下一页
+                  <ArrowRight className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button asChild variant="outline" className="gap-2">
+                  <Link href={buildHref(filters, page + 1)}>
+                    下一页
+                    <ArrowRight className="h-4 w-4" />
+                  </Link>
+                </Button>
+              )}
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+export const dynamic = "force-dynamic";
+
+import Link from "next/link";
+import { asc, desc } from "drizzle-orm";
+import { ArrowLeft, ArrowRight, PackageOpen, Search } from "lucide-react";
+
+import { db, products } from "@/lib/db";
+import { getCardImportBatches } from "@/lib/actions/card-import-batches";
+import { LocalTime } from "@/components/time/local-time";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+import { buildAdminCardsHref } from "../cards-url";
+import { RevokeBatchButton } from "./revoke-batch-button";
+
+const formatLabels: Record<string, string> = {
+  text: "纯文本",
+  csv: "CSV",
+  json: "JSON",
+};
+
+interface CardImportBatchesPageProps {
+  searchParams: Promise<{
+    product?: string;
+    page?: string;
+  }>;
+}
+
+function buildHref(params: { productId?: string; page?: number }): string {
+  const query = new URLSearchParams();
+  if (params.productId) query.set("product", params.productId);
+  if (params.page && params.page > 1) query.set("page", String(params.page));
+  const search = query.toString();
+  return search ? `/admin/cards/batches?${search}` : "/admin/cards/batches";
+}
+
+export default async function CardImportBatchesPage({ searchParams }: CardImportBatchesPageProps) {
+  const params = await searchParams;
+  const page = Math.max(1, Number.parseInt(params.page || "1", 10) || 1);
+
+  const productList = await db.query.products.findMany({
+    columns: { id: true, name: true },
+    orderBy: [asc(products.sortOrder), desc(products.createdAt)],
+  });
+  const productId = productList.some((p) => p.id === params.product) ? params.product : "";
+
+  const result = await getCardImportBatches({ page, productId: productId || undefined });
+  const totalPages = Math.max(1, Math.ceil(result.total / result.pageSize));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">导入批次</h1>
+          <p className="text-zinc-600 dark:text-zinc-400">
+            每次导入卡密的来源、供应商与进货单价；导入有误时可撤回批次中未售出的卡密
+          </p>
+        </div>
+        <Button asChild variant="outline" className="gap-2">
+          <Link href={buildAdminCardsHref({ productId: productId || undefined })}>
+            <ArrowLeft className="h-4 w-4" />
+            返回卡密管理
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="space-y-4">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <PackageOpen className="h-5 w-5" />
+            批次记录 ({result.total})
+          </CardTitle>
+          <form className="flex flex-wrap items-center gap-2" action="/admin/cards/batches">
+            <select
+              name="product"
+              defaultValue={productId}
+              aria-label="商品"
+              className="h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+            >
+              <option value="">全部商品</option>
+              {productList.map((product) => (
+                <option key={product.id} value={product.id}>
+                  {product.name}
+                </option>
+              ))}
+            </select>
+            <Button type="submit" variant="outline" size="sm" className="h-9 gap-2">
+              <Search className="h-4 w-4" />
+              筛选
+            </Button>
+          </form>
+        </CardHeader>
+        <CardContent>
+          {result.items.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>导入时间</TableHead>
+                    <TableHead>商品</TableHead>
+                    <TableHead>供应商 / 来源</TableHead>
+                    <TableHead className="text-right">单价成本</TableHead>
+                    <TableHead className="text-right">导入</TableHead>
+                    <TableHead className="text-right">可用</TableHead>
+                    <TableHead className="text-right">锁定</TableHead>
+                    <TableHead className="text-right">已售</TableHead>
+                    <TableHead>其他</TableHead>
+                    <TableHead>操作人</TableHead>
+                    <TableHead className="text-right">操作</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.items.map((item) => {
+                    const { counts } = item;
+                    const revocable = counts.available + counts.expired;
+                    return (
+                      <TableRow key={item.id}>
+                        <TableCell className="whitespace-nowrap text-sm text-zinc-500">
+                          <LocalTime value={item.createdAt} mode="short" />
+                          <div className="text-xs">{formatLabels[item.format] ?? item.format}</div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm">{item.productName}</div>
+                          {item.variantName ? (
+                            <div className="text-xs text-zinc-500">{item.variantName}</div>
+                          ) : null}
+                        </TableCell>
+                        <TableCell className="max-w-xs">
+                          <div className="text-sm">{item.supplierName ?? "-"}</div>
+                          {item.sourceNote ? (
+                            <div className="break-all text-xs text-zinc-500">{item.sourceNote}</div>
+                          ) : null}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {item.unitCost ? `${item.unitCost} LDC` : "-"}
+                        </TableCell>
+                        <TableCell className="text-right">{item.importedCount}</TableCell>
+                        <TableCell className="text-right">{counts.available}</TableCell>
+                        <TableCell className="text-right">{counts.locked}</TableCell>
+                        <TableCell className="text-right">{counts.sold}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {counts.expired > 0 ? (
+                              <Badge variant="outline">已过期 {counts.expired}</Badge>
+                            ) : null}
+                            {counts.quarantined > 0 ? (
+                              <Badge variant="outline">已隔离 {counts.quarantined}</Badge>
+                            ) : null}
+                            {counts.void > 0 ? (
+                              <Badge variant="outline">已作废 {counts.void}</Badge>
+                            ) : null}
+                            {item.revokedCount > 0 ? (
+                              <Badge variant="outline">已撤回 {item.revokedCount}</Badge>
+                            ) : null}
+                          </div>
+                          {item.revokedAt ? (
+                            <div className="mt-1 text-xs text-zinc-500">
+                              {item.revokedBy ?? "-"} · <LocalTime value={item.revokedAt} mode="short" />
+                            </div>
+                          ) : null}
+                        </TableCell>
+                        <TableCell className="text-sm">{item.operatorName ?? "-"}</TableCell>
+                        <TableCell className="text-right">
+                          <RevokeBatchButton batchId={item.id} revocable={revocable} />
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="py-12 text-center">
+              <PackageOpen className="mx-auto h-12 w-12 text-zinc-300" />
+              <p className="mt-4 text-zinc-500">暂无导入批次</p>
+            </div>
+          )}
+
+          {totalPages > 1 ? (
+            <div className="flex items-center justify-between pt-4">
+              {page <= 1 ? (
+                <Button variant="outline" disabled className="gap-2">
+                  <ArrowLeft className="h-4 w-4" />
+                  上一页
+                </Button>
+              ) : (
+                <Button asChild variant="outline" className="gap-2">
+                  <Link href={buildHref({ productId, page: page - 1 })}>
+                    <ArrowLeft className="h-4 w-4" />
+                    上一页
+                  </Link>
+                </Button>
+              )}
+              <span className="text-sm text-zinc-500">
+                第 {page} / {totalPages} 页
+              </span>
+              {page >= totalPages ? (
+                <Button variant="outline" disabled className="gap-2">
+                  下一页
+                  <ArrowRight className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button asChild variant="outline" className="gap-2">
+                  <Link href={buildHref({ productId, page: page + 1 })}>
+                    下一页
+                    <ArrowRight className="h-4 w-4" />
+                  </Link>
+                </Button>
+              )}
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
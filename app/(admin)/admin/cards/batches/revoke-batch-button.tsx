@@ -0,0 +1,49 @@
+"use client";
+
+import { useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Loader2, Undo2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { revokeCardImportBatch } from "@/lib/actions/card-import-batches";
+
+/**
+ * 撤回导入批次中未售出的卡密（删除后不可恢复）
+ */
+export function RevokeBatchButton({ batchId, revocable }: { batchId: string; revocable: number }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const handleRevoke = () => {
+    if (!confirm(`确定要撤回该批次中 ${revocable} 个未售出的卡密吗？撤回后卡密将被删除，无法恢复。`)) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await revokeCardImportBatch(batchId);
+      if (result.success) {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+      router.refresh();
+    });
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={handleRevoke}
+      disabled={isPending || revocable === 0}
+    >
+      {isPending ? (
+        <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+      ) : (
+        <Undo2 className="mr-1 h-3 w-3" />
+      )}
+      撤回未售出
+    </Button>
+  );
+}
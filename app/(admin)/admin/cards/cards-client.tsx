@@ -12,6 +12,8 @@ import { buildAdminCardsHref } from "./cards-url";
 
 export function CardsClient({
   productId,
+  variantId,
+  showVariant,
   items,
   total,
   page,
@@ -22,6 +24,8 @@ export function CardsClient({
   orderNo,
 }: {
   productId: string;
+  variantId?: string;
+  showVariant?: boolean;
   items: AdminCardListItem[];
   total: number;
   page: number;
@@ -37,6 +41,7 @@ export function CardsClient({
     <div className="space-y-4">
       <CardsFilters
         productId={productId}
+        variantId={variantId}
         q={q}
         status={status}
         orderNo={orderNo}
@@ -53,16 +58,17 @@ export function CardsClient({
       {items.length > 0 ? (
         <CardsTable
           // 为什么这样做：分页/筛选切换后应清空“上一页的选中状态”，避免误操作到不在当前视图的数据。
-          key={`${productId}:${page}:${pageSize}:${q}:${status ?? ""}:${orderNo}`}
+          key={`${productId}:${variantId ?? ""}:${page}:${pageSize}:${q}:${status ?? ""}:${orderNo}`}
           items={items}
+          showVariant={showVariant}
         />
       ) : (
         <div className="rounded-lg border py-12 text-center text-sm text-muted-foreground">
-          <p>{hasActiveFilters ? "没有匹配的卡密" : "该商品暂无卡密"}</p>
+          <p>{hasActiveFilters ? "没有匹配的卡密" : variantId ? "该规格暂无卡密" : "该商品暂无卡密"}</p>
           {hasActiveFilters ? (
             <div className="mt-3">
               <Button asChild variant="outline">
-                <Link href={buildAdminCardsHref({ productId })}>清除筛选</Link>
+                <Link href={buildAdminCardsHref({ productId, variantId })}>清除筛选</Link>
               </Button>
             </div>
           ) : null}
@@ -71,6 +77,7 @@ export function CardsClient({
 
       <CardsPagination
         productId={productId}
+        variantId={variantId}
         q={q}
         status={status}
         orderNo={orderNo}
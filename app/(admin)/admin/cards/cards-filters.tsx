@@ -44,16 +44,21 @@ const cardStatusLabel: Record<CardStatus, string> = {
   available: "可用",
   locked: "锁定",
   sold: "已售",
+  quarantined: "隔离（退款待复核）",
+  void: "作废",
+  expired: "已过期",
 };
 
 export function CardsFilters({
   productId,
+  variantId,
   q,
   status,
   orderNo,
   pageSize,
 }: {
   productId: string;
+  variantId?: string;
   q: string;
   status?: CardStatus;
   orderNo: string;
@@ -78,6 +83,7 @@ export function CardsFilters({
 
     const nextHref = buildAdminCardsHref({
       productId,
+      variantId,
       q: nextQ || undefined,
       status: normalizedStatus,
       orderNo: nextOrderNo || undefined,
@@ -89,7 +95,7 @@ export function CardsFilters({
     });
   };
 
-  const resetHref = buildAdminCardsHref({ productId, pageSize });
+  const resetHref = buildAdminCardsHref({ productId, variantId, pageSize });
 
   return (
     <form
@@ -9,6 +9,7 @@ import { buildAdminCardsHref } from "./cards-url";
 
 export function CardsPagination({
   productId,
+  variantId,
   q,
   status,
   orderNo,
@@ -17,6 +18,7 @@ export function CardsPagination({
   pageSize,
 }: {
   productId: string;
+  variantId?: string;
   q: string;
   status?: CardStatus;
   orderNo: string;
@@ -36,6 +38,7 @@ export function CardsPagination({
           <Link
             href={buildAdminCardsHref({
               productId,
+              variantId,
               q: q || undefined,
               status,
               orderNo: orderNo || undefined,
@@ -59,6 +62,7 @@ export function CardsPagination({
           <Link
             href={buildAdminCardsHref({
               productId,
+              variantId,
               q: q || undefined,
               status,
               orderNo: orderNo || undefined,
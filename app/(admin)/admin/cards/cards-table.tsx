@@ -4,7 +4,7 @@ import type { RefObject } from "react";
 import { useEffect, useMemo, useRef, useState, useTransition } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { Ban, Loader2, PackageCheck, RotateCcw, Trash2 } from "lucide-react";
 import { toast } from "sonner";
 
 import { Badge } from "@/components/ui/badge";
@@ -28,7 +28,7 @@ import {
 import { LocalTime } from "@/components/time/local-time";
 
 import type { CardStatus } from "@/lib/db";
-import { deleteCards, resetLockedCards } from "@/lib/actions/cards";
+import { deleteCards, resetLockedCards, resolveQuarantinedCards } from "@/lib/actions/cards";
 
 import { EditCardDialog } from "./edit-card-dialog";
 
@@ -38,8 +38,10 @@ export interface AdminCardListItem {
   contentMasked: boolean;
   status: CardStatus;
   createdAt: Date;
+  expiresAt: Date | null;
   orderId: string | null;
   order?: { id: string; orderNo: string } | null;
+  variantName?: string | null;
 }
 
 const statusConfig: Record<CardStatus, { label: string; className: string }> = {
@@ -55,8 +57,27 @@ const statusConfig: Record<CardStatus, { label: string; className: string }> = {
     label: "已售",
     className: "bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-200",
   },
+  quarantined: {
+    label: "隔离",
+    className: "bg-sky-100 text-sky-700 dark:bg-sky-950/40 dark:text-sky-200",
+  },
+  void: {
+    label: "作废",
+    className: "bg-rose-100 text-rose-700 dark:bg-rose-950/40 dark:text-rose-200",
+  },
+  expired: {
+    label: "过期",
+    className: "bg-orange-100 text-orange-700 dark:bg-orange-950/40 dark:text-orange-200",
+  },
 };
 
+// 可勾选进行批量操作的状态（已售/作废/过期的卡密不允许再操作）
+function isSelectableStatus(status: CardStatus): boolean {
+  return status === "available" || status === "locked" || status === "quarantined";
+}
+
+type QuarantineAction = { ids: string[]; action: "recycle" | "void" };
+
 function Checkbox({
   checked,
   onChange,
@@ -87,7 +108,7 @@ function useCardsSelection(items: AdminCardListItem[]) {
   const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
 
   const selectableIds = useMemo(
-    () => items.filter((i) => i.status !== "sold").map((i) => i.id),
+    () => items.filter((i) => isSelectableStatus(i.status)).map((i) => i.id),
     [items]
   );
 
@@ -147,17 +168,23 @@ function CardsBulkActionBar({
   selectedCount,
   availableSelectedCount,
   lockedSelectedCount,
+  quarantinedSelectedCount,
   isPending,
   onDeleteSelected,
   onResetSelected,
+  onRecycleSelected,
+  onVoidSelected,
   onClearSelection,
 }: {
   selectedCount: number;
   availableSelectedCount: number;
   lockedSelectedCount: number;
+  quarantinedSelectedCount: number;
   isPending: boolean;
   onDeleteSelected: () => void;
   onResetSelected: () => void;
+  onRecycleSelected: () => void;
+  onVoidSelected: () => void;
   onClearSelection: () => void;
 }) {
   return (
@@ -166,13 +193,30 @@ function CardsBulkActionBar({
         {selectedCount > 0 ? (
           <span>
             已选择 <span className="font-medium text-foreground">{selectedCount}</span>{" "}
-            项（可用 {availableSelectedCount} · 锁定 {lockedSelectedCount}）
+            项（可用 {availableSelectedCount} · 锁定 {lockedSelectedCount}
+            {quarantinedSelectedCount > 0 ? ` · 隔离 ${quarantinedSelectedCount}` : ""}）
           </span>
         ) : (
-          <span>可勾选“可用/锁定”卡密进行批量操作</span>
+          <span>可勾选“可用/锁定/隔离”卡密进行批量操作</span>
         )}
       </div>
       <div className="flex items-center gap-2">
+        {quarantinedSelectedCount > 0 ? (
+          <>
+            <Button variant="outline" size="sm" disabled={isPending} onClick={onRecycleSelected}>
+              {isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <PackageCheck className="h-4 w-4" />
+              )}
+              放回库存
+            </Button>
+            <Button variant="outline" size="sm" disabled={isPending} onClick={onVoidSelected}>
+              {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Ban className="h-4 w-4" />}
+              作废
+            </Button>
+          </>
+        ) : null}
         <Button
           variant="outline"
           size="sm"
@@ -262,11 +306,18 @@ function ConfirmDialog({
   );
 }
 
-export function CardsTable({ items }: { items: AdminCardListItem[] }) {
+export function CardsTable({
+  items,
+  showVariant = false,
+}: {
+  items: AdminCardListItem[];
+  showVariant?: boolean;
+}) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
   const [deleteIds, setDeleteIds] = useState<string[] | null>(null);
   const [resetIds, setResetIds] = useState<string[] | null>(null);
+  const [quarantineAction, setQuarantineAction] = useState<QuarantineAction | null>(null);
 
   const {
     selectedIds,
@@ -292,6 +343,10 @@ export function CardsTable({ items }: { items: AdminCardListItem[] }) {
     () => selectedOnPage.filter((c) => c.status === "locked").map((c) => c.id),
     [selectedOnPage]
   );
+  const quarantinedSelectedIds = useMemo(
+    () => selectedOnPage.filter((c) => c.status === "quarantined").map((c) => c.id),
+    [selectedOnPage]
+  );
 
   const openDelete = (ids: string[]) => {
     if (ids.length === 0) return;
@@ -323,6 +378,30 @@ export function CardsTable({ items }: { items: AdminCardListItem[] }) {
     });
   };
 
+  const openQuarantineAction = (ids: string[], action: QuarantineAction["action"]) => {
+    if (ids.length === 0) return;
+    setQuarantineAction({ ids, action });
+  };
+
+  const confirmQuarantineAction = () => {
+    if (!quarantineAction || quarantineAction.ids.length === 0) {
+      setQuarantineAction(null);
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await resolveQuarantinedCards(quarantineAction.ids, quarantineAction.action);
+      if (!result.success) {
+        toast.error(result.message);
+        return;
+      }
+      toast.success(result.message);
+      setQuarantineAction(null);
+      clearSelection();
+      router.refresh();
+    });
+  };
+
   const confirmReset = () => {
     if (!resetIds || resetIds.length === 0) {
       setResetIds(null);
@@ -367,13 +446,31 @@ export function CardsTable({ items }: { items: AdminCardListItem[] }) {
         onConfirm={confirmReset}
       />
 
+      <ConfirmDialog
+        open={Boolean(quarantineAction)}
+        onOpenChange={(open) => setQuarantineAction(open ? quarantineAction : null)}
+        title={quarantineAction?.action === "void" ? "确认作废卡密" : "确认放回库存"}
+        description={
+          quarantineAction?.action === "void"
+            ? `将作废 ${quarantineAction.ids.length} 个隔离卡密，作废后不再销售。`
+            : `将 ${quarantineAction?.ids.length ?? 0} 个隔离卡密放回可用库存并解除原订单关联。卡密内容已对原买家可见，请确认已失效或已更换。`
+        }
+        confirmText={quarantineAction?.action === "void" ? "确认作废" : "确认放回"}
+        confirmVariant={quarantineAction?.action === "void" ? "destructive" : "default"}
+        pending={isPending}
+        onConfirm={confirmQuarantineAction}
+      />
+
       <CardsBulkActionBar
         selectedCount={selection.selectedOnPageCount}
         availableSelectedCount={availableSelectedIds.length}
         lockedSelectedCount={lockedSelectedIds.length}
+        quarantinedSelectedCount={quarantinedSelectedIds.length}
         isPending={isPending}
         onDeleteSelected={() => openDelete(availableSelectedIds)}
         onResetSelected={() => openReset(lockedSelectedIds)}
+        onRecycleSelected={() => openQuarantineAction(quarantinedSelectedIds, "recycle")}
+        onVoidSelected={() => openQuarantineAction(quarantinedSelectedIds, "void")}
         onClearSelection={clearSelection}
       />
 
@@ -391,16 +488,18 @@ export function CardsTable({ items }: { items: AdminCardListItem[] }) {
                 />
               </TableHead>
               <TableHead>卡密内容</TableHead>
+              {showVariant ? <TableHead>规格</TableHead> : null}
               <TableHead className="text-center">状态</TableHead>
               <TableHead>订单</TableHead>
               <TableHead>创建时间</TableHead>
+              <TableHead>有效期至</TableHead>
               <TableHead className="text-center w-28">操作</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {items.map((card) => {
               const status = statusConfig[card.status];
-              const selectable = card.status !== "sold";
+              const selectable = isSelectableStatus(card.status);
               const isSelected = selectedIds.has(card.id);
               return (
                 <TableRow key={card.id}>
@@ -419,6 +518,11 @@ export function CardsTable({ items }: { items: AdminCardListItem[] }) {
                       <span title={card.content}>{card.content}</span>
                     )}
                   </TableCell>
+                  {showVariant ? (
+                    <TableCell className="text-sm text-zinc-600 dark:text-zinc-400">
+                      {card.variantName ?? "未分配"}
+                    </TableCell>
+                  ) : null}
                   <TableCell className="text-center">
                     <Badge className={status.className}>{status.label}</Badge>
                   </TableCell>
@@ -444,6 +548,9 @@ export function CardsTable({ items }: { items: AdminCardListItem[] }) {
                   <TableCell className="text-sm text-zinc-500">
                     <LocalTime value={card.createdAt} mode="short" />
                   </TableCell>
+                  <TableCell className="text-sm text-zinc-500">
+                    {card.expiresAt ? <LocalTime value={card.expiresAt} mode="short" /> : "长期"}
+                  </TableCell>
                   <TableCell className="text-center">
                     <div className="flex items-center justify-center gap-1">
                       {card.status === "available" && !card.orderId && !card.contentMasked ? (
@@ -464,6 +571,30 @@ export function CardsTable({ items }: { items: AdminCardListItem[] }) {
                           <RotateCcw className="h-4 w-4" />
                         </Button>
                       ) : null}
+                      {card.status === "quarantined" ? (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                            title="放回库存"
+                            onClick={() => openQuarantineAction([card.id], "recycle")}
+                            disabled={isPending}
+                          >
+                            <PackageCheck className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 text-rose-600 hover:text-rose-600"
+                            title="作废"
+                            onClick={() => openQuarantineAction([card.id], "void")}
+                            disabled={isPending}
+                          >
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        </>
+                      ) : null}
                       {card.status === "available" && !card.orderId ? (
                         <Button
                           variant="ghost"
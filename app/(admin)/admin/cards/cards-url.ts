@@ -4,6 +4,7 @@ export const DEFAULT_ADMIN_CARDS_PAGE_SIZE = 50;
 
 export function buildAdminCardsHref(input: {
   productId?: string;
+  variantId?: string;
   q?: string;
   status?: CardStatus;
   orderNo?: string;
@@ -14,6 +15,7 @@ export function buildAdminCardsHref(input: {
 }): string {
   const params = new URLSearchParams();
   if (input.productId) params.set("product", input.productId);
+  if (input.variantId) params.set("variant", input.variantId);
   if (input.q) params.set("q", input.q);
   if (input.status) params.set("status", input.status);
   if (input.orderNo) params.set("orderNo", input.orderNo);
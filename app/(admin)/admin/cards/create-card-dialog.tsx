@@ -16,22 +16,31 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 
 import { createCard } from "@/lib/actions/cards";
 
+import { variantSelectClassName, type CardVariantOption } from "./import-cards-dialog";
+
 export function CreateCardDialog({
   productId,
+  variants = [],
+  defaultVariantId,
   children,
 }: {
   productId: string;
+  variants?: CardVariantOption[];
+  defaultVariantId?: string;
   children?: React.ReactNode;
 }) {
   const router = useRouter();
   const [open, setOpen] = useState(false);
   const [content, setContent] = useState("");
   const [deduplicate, setDeduplicate] = useState(true);
+  const [expiresAt, setExpiresAt] = useState("");
+  const [variantId, setVariantId] = useState(defaultVariantId ?? "");
   const [isPending, startTransition] = useTransition();
 
   const handleCreate = () => {
@@ -46,16 +55,24 @@ export function CreateCardDialog({
       return;
     }
 
+    if (variants.length > 0 && !variantId) {
+      toast.error("请选择卡密所属规格");
+      return;
+    }
+
     startTransition(async () => {
       const result = await createCard({
         productId,
+        variantId: variantId || null,
         content: trimmed,
+        expiresAt: expiresAt || undefined,
         deduplicate,
       });
 
       if (result.success) {
         toast.success(result.message);
         setContent("");
+        setExpiresAt("");
         setOpen(false);
         // 为什么这样做：新增会影响服务端列表与库存统计，refresh 确保页面立即同步。
         router.refresh();
@@ -87,6 +104,27 @@ export function CreateCardDialog({
         </DialogHeader>
 
         <div className="space-y-4">
+          {variants.length > 0 ? (
+            <div className="space-y-2">
+              <Label htmlFor="create-card-variant">所属规格</Label>
+              <select
+                id="create-card-variant"
+                className={variantSelectClassName}
+                value={variantId}
+                onChange={(e) => setVariantId(e.target.value)}
+                disabled={isPending}
+              >
+                <option value="">请选择规格</option>
+                {variants.map((variant) => (
+                  <option key={variant.id} value={variant.id}>
+                    {variant.name}
+                    {!variant.isActive ? "（已停用）" : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ) : null}
+
           <div className="flex items-center justify-between gap-4 rounded-md border border-zinc-200 p-3 dark:border-zinc-800">
             <div className="space-y-1">
               <Label htmlFor="create-card-deduplicate">去重</Label>
@@ -112,6 +150,17 @@ export function CreateCardDialog({
               className="font-mono text-sm"
             />
           </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="create-card-expires-at">有效期（可选）</Label>
+            <Input
+              id="create-card-expires-at"
+              type="date"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              disabled={isPending}
+            />
+          </div>
         </div>
 
         <DialogFooter>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useTransition } from "react";
+import { useMemo, useState, useTransition } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import {
@@ -12,6 +12,8 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
@@ -23,16 +25,39 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { importCards } from "@/lib/actions/cards";
+import {
+  defaultCardImportColumns,
+  readCardImportTable,
+  validateCardImportColumns,
+  type CardImportColumn,
+  type CardImportFormat,
+  type CardImportPreviewRow,
+} from "@/lib/card-import";
 import { toast } from "sonner";
-import { Loader2, Plus, Upload } from "lucide-react";
+import { Eye, Loader2, Plus, Upload } from "lucide-react";
+
+import { ColumnMappingTable, ImportPreviewTable } from "./structured-import";
+
+export interface CardVariantOption {
+  id: string;
+  name: string;
+  isActive: boolean;
+}
+
+export const variantSelectClassName =
+  "h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50";
 
 interface ImportCardsDialogProps {
   productId: string;
+  variants?: CardVariantOption[];
+  defaultVariantId?: string;
   children?: React.ReactNode;
 }
 
 export function ImportCardsDialog({
   productId,
+  variants = [],
+  defaultVariantId,
   children,
 }: ImportCardsDialogProps) {
   const router = useRouter();
@@ -40,20 +65,138 @@ export function ImportCardsDialog({
   const [content, setContent] = useState("");
   const [delimiter, setDelimiter] = useState<"newline" | "comma">("newline");
   const [deduplicate, setDeduplicate] = useState(true);
+  const [expiresAt, setExpiresAt] = useState("");
+  const [supplierName, setSupplierName] = useState("");
+  const [unitCost, setUnitCost] = useState("");
+  const [sourceNote, setSourceNote] = useState("");
+  const [variantId, setVariantId] = useState(defaultVariantId ?? "");
+  const [mode, setMode] = useState<"text" | "structured">("text");
+  const [structuredContent, setStructuredContent] = useState("");
+  const [format, setFormat] = useState<CardImportFormat>("csv");
+  const [mapping, setMapping] = useState<{ headerKey: string; columns: CardImportColumn[] } | null>(
+    null
+  );
+  const [preview, setPreview] = useState<{
+    requestKey: string;
+    message: string;
+    importable: number;
+    invalid: number;
+    rows: CardImportPreviewRow[];
+  } | null>(null);
   const [isPending, startTransition] = useTransition();
 
+  const table = useMemo(
+    () => (structuredContent.trim() ? readCardImportTable(structuredContent, format) : null),
+    [structuredContent, format]
+  );
+  const headerKey = table?.ok ? table.columns.join("\u0000") : "";
+  // 表头变化时回到自动映射，避免沿用上一个文件的列配置
+  const columns =
+    mapping && mapping.headerKey === headerKey
+      ? mapping.columns
+      : table?.ok
+        ? defaultCardImportColumns(table.columns)
+        : [];
+  const columnError = table?.ok ? validateCardImportColumns(columns) : null;
+  // 预览结果只对生成它的输入有效，任何输入变化都需要重新预览
+  const requestKey = JSON.stringify([structuredContent, format, columns, deduplicate, variantId]);
+  const currentPreview = preview?.requestKey === requestKey ? preview : null;
+
+  // 导入批次信息：纯文本与结构化导入共用
+  const batchInfo = {
+    supplierName: supplierName.trim() || undefined,
+    sourceNote: sourceNote.trim() || undefined,
+    unitCost: unitCost.trim() ? Number(unitCost) : null,
+  };
+
+  const resetBatchInfo = () => {
+    setSupplierName("");
+    setUnitCost("");
+    setSourceNote("");
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setFormat(file.name.toLowerCase().endsWith(".json") ? "json" : "csv");
+      setStructuredContent(await file.text());
+    } catch {
+      toast.error("读取文件失败");
+    }
+  };
+
+  const runStructuredImport = (dryRun: boolean) => {
+    if (variants.length > 0 && !variantId) {
+      toast.error("请选择卡密所属规格");
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await importCards({
+        productId,
+        variantId: variantId || null,
+        content: structuredContent,
+        format,
+        columns,
+        deduplicate,
+        dryRun,
+        ...batchInfo,
+      });
+
+      if ("preview" in result && result.preview && result.stats) {
+        const invalid = result.stats.invalid ?? 0;
+        setPreview({
+          requestKey,
+          message: result.message,
+          importable: result.stats.total - result.stats.skipped - invalid,
+          invalid,
+          rows: result.preview,
+        });
+      }
+
+      if (!result.success) {
+        toast.error(result.message);
+        return;
+      }
+
+      if (dryRun) {
+        toast.success(result.message);
+        return;
+      }
+
+      toast.success(result.message, {
+        description: result.stats
+          ? `总计: ${result.stats.total}, 跳过: ${result.stats.skipped}, 导入: ${result.stats.imported}`
+          : undefined,
+      });
+      setStructuredContent("");
+      setPreview(null);
+      resetBatchInfo();
+      setOpen(false);
+      router.refresh();
+    });
+  };
+
   const handleImport = () => {
     if (!content.trim()) {
       toast.error("请输入卡密内容");
       return;
     }
 
+    if (variants.length > 0 && !variantId) {
+      toast.error("请选择卡密所属规格");
+      return;
+    }
+
     startTransition(async () => {
       const result = await importCards({
         productId,
+        variantId: variantId || null,
         content,
         delimiter,
+        expiresAt: expiresAt || undefined,
         deduplicate,
+        ...batchInfo,
       });
 
       if (result.success) {
@@ -65,6 +208,8 @@ export function ImportCardsDialog({
             : undefined,
         });
         setContent("");
+        setExpiresAt("");
+        resetBatchInfo();
         setOpen(false);
         // 为什么这样做：导入会影响库存与列表，需要刷新以立刻看到最新卡密与统计。
         router.refresh();
@@ -89,18 +234,39 @@ export function ImportCardsDialog({
           </Button>
         )}
       </DialogTrigger>
-      <DialogContent className="sm:max-w-lg">
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Upload className="h-5 w-5" />
             批量导入卡密
           </DialogTitle>
           <DialogDescription>
-            将卡密粘贴到下方文本框，可选择去重或允许重复导入。
+            粘贴纯文本卡密，或上传 CSV / JSON 导入多字段卡密，可选择去重或允许重复导入。
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4">
+          {variants.length > 0 ? (
+            <div className="space-y-2">
+              <Label htmlFor="import-cards-variant">所属规格</Label>
+              <select
+                id="import-cards-variant"
+                className={variantSelectClassName}
+                value={variantId}
+                onChange={(e) => setVariantId(e.target.value)}
+                disabled={isPending}
+              >
+                <option value="">请选择规格</option>
+                {variants.map((variant) => (
+                  <option key={variant.id} value={variant.id}>
+                    {variant.name}
+                    {!variant.isActive ? "（已停用）" : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ) : null}
+
           <div className="flex items-center justify-between gap-4 rounded-md border border-zinc-200 p-3 dark:border-zinc-800">
             <div className="space-y-1">
               <Label htmlFor="import-cards-deduplicate">去重</Label>
@@ -118,60 +284,220 @@ export function ImportCardsDialog({
             />
           </div>
 
-          <div className="space-y-2">
-            <Label>分隔方式</Label>
-            <Select
-              value={delimiter}
-              onValueChange={(v) => setDelimiter(v as "newline" | "comma")}
-            >
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="newline">每行一个</SelectItem>
-                <SelectItem value="comma">逗号分隔</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-
-          <div className="space-y-2">
-            <div className="flex items-center justify-between">
-              <Label>卡密内容</Label>
-              <span className="text-xs text-zinc-500">
-                {cardCount > 0 ? `${cardCount} 个卡密` : ""}
-              </span>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="import-cards-supplier">供应商（可选）</Label>
+              <Input
+                id="import-cards-supplier"
+                value={supplierName}
+                maxLength={100}
+                onChange={(e) => setSupplierName(e.target.value)}
+                disabled={isPending}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-cards-unit-cost">单价成本（可选）</Label>
+              <Input
+                id="import-cards-unit-cost"
+                type="number"
+                min={0}
+                step="0.01"
+                value={unitCost}
+                onChange={(e) => setUnitCost(e.target.value)}
+                disabled={isPending}
+              />
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="import-cards-source-note">来源备注（可选）</Label>
+              <Input
+                id="import-cards-source-note"
+                value={sourceNote}
+                maxLength={500}
+                placeholder="如供应商订单号、文件名"
+                onChange={(e) => setSourceNote(e.target.value)}
+                disabled={isPending}
+              />
             </div>
-            <Textarea
-              placeholder={
-                delimiter === "newline"
-                  ? "每行一个卡密\ncard-001\ncard-002\ncard-003"
-                  : "逗号分隔: card-001, card-002, card-003"
-              }
-              rows={10}
-              value={content}
-              onChange={(e) => setContent(e.target.value)}
-              className="font-mono text-sm"
-            />
           </div>
+
+          <Tabs value={mode} onValueChange={(v) => setMode(v as "text" | "structured")}>
+            <TabsList className="w-full">
+              <TabsTrigger value="text">纯文本</TabsTrigger>
+              <TabsTrigger value="structured">CSV / JSON</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="text" className="space-y-4 pt-2">
+              <div className="space-y-2">
+                <Label>分隔方式</Label>
+                <Select
+                  value={delimiter}
+                  onValueChange={(v) => setDelimiter(v as "newline" | "comma")}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="newline">每行一个</SelectItem>
+                    <SelectItem value="comma">逗号分隔</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="import-cards-expires-at">有效期（可选）</Label>
+                <Input
+                  id="import-cards-expires-at"
+                  type="date"
+                  value={expiresAt}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                  disabled={isPending}
+                />
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                  本批卡密在该日结束后过期，不再出货；留空表示长期有效。
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>卡密内容</Label>
+                  <span className="text-xs text-zinc-500">
+                    {cardCount > 0 ? `${cardCount} 个卡密` : ""}
+                  </span>
+                </div>
+                <Textarea
+                  placeholder={
+                    delimiter === "newline"
+                      ? "每行一个卡密\ncard-001\ncard-002\ncard-003"
+                      : "逗号分隔: card-001, card-002, card-003"
+                  }
+                  rows={10}
+                  value={content}
+                  onChange={(e) => setContent(e.target.value)}
+                  className="font-mono text-sm"
+                />
+              </div>
+            </TabsContent>
+
+            <TabsContent value="structured" className="space-y-4 pt-2">
+              <div className="space-y-2">
+                <Label htmlFor="import-cards-file">上传文件</Label>
+                <Input
+                  id="import-cards-file"
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  onChange={(e) => handleFileChange(e.target.files?.[0])}
+                  disabled={isPending}
+                />
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                  CSV 首行为表头；JSON 为对象数组。每列可映射为卡密字段（如账号、密码、辅助邮箱）或有效期（如 2026-12-31）。
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="import-cards-structured">文件内容</Label>
+                  <select
+                    aria-label="文件格式"
+                    className="h-8 rounded-md border border-input bg-transparent px-2 text-xs"
+                    value={format}
+                    onChange={(e) => setFormat(e.target.value as CardImportFormat)}
+                    disabled={isPending}
+                  >
+                    <option value="csv">CSV</option>
+                    <option value="json">JSON</option>
+                  </select>
+                </div>
+                <Textarea
+                  id="import-cards-structured"
+                  placeholder={
+                    format === "csv"
+                      ? "账号,密码,辅助邮箱,有效期\nalice,p@ss,alice@example.com,2026-12-31"
+                      : '[{"账号":"alice","密码":"p@ss","有效期":"2026-12-31"}]'
+                  }
+                  rows={6}
+                  value={structuredContent}
+                  onChange={(e) => setStructuredContent(e.target.value)}
+                  className="font-mono text-sm"
+                />
+                {table && !table.ok ? (
+                  <p className="text-xs text-destructive">{table.message}</p>
+                ) : null}
+              </div>
+
+              {table?.ok ? (
+                <div className="space-y-2">
+                  <Label>列映射</Label>
+                  <ColumnMappingTable
+                    columns={columns}
+                    onChange={(next) => setMapping({ headerKey, columns: next })}
+                    disabled={isPending}
+                  />
+                  {columnError ? <p className="text-xs text-destructive">{columnError}</p> : null}
+                </div>
+              ) : null}
+
+              {currentPreview ? (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="font-medium">预览</span>
+                    <span className="text-zinc-500 dark:text-zinc-400">
+                      可导入 {currentPreview.importable}，错误 {currentPreview.invalid}，共{" "}
+                      {currentPreview.rows.length} 行
+                    </span>
+                  </div>
+                  <ImportPreviewTable rows={currentPreview.rows} />
+                </div>
+              ) : null}
+            </TabsContent>
+          </Tabs>
         </div>
 
         <DialogFooter>
           <Button variant="outline" onClick={() => setOpen(false)}>
             取消
           </Button>
-          <Button onClick={handleImport} disabled={isPending || !content.trim()}>
-            {isPending ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                导入中...
-              </>
-            ) : (
-              <>
-                <Upload className="mr-2 h-4 w-4" />
-                导入 {cardCount > 0 ? `(${cardCount})` : ""}
-              </>
-            )}
-          </Button>
+          {mode === "structured" ? (
+            <>
+              <Button
+                variant="secondary"
+                onClick={() => runStructuredImport(true)}
+                disabled={isPending || !table?.ok || Boolean(columnError)}
+              >
+                <Eye className="mr-2 h-4 w-4" />
+                预览
+              </Button>
+              <Button
+                onClick={() => runStructuredImport(false)}
+                disabled={
+                  isPending ||
+                  !currentPreview ||
+                  currentPreview.invalid > 0 ||
+                  currentPreview.importable === 0
+                }
+              >
+                {isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Upload className="mr-2 h-4 w-4" />
+                )}
+                导入 {currentPreview?.importable ? `(${currentPreview.importable})` : ""}
+              </Button>
+            </>
+          ) : (
+            <Button onClick={handleImport} disabled={isPending || !content.trim()}>
+              {isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  导入中...
+                </>
+              ) : (
+                <>
+                  <Upload className="mr-2 h-4 w-4" />
+                  导入 {cardCount > 0 ? `(${cardCount})` : ""}
+                </>
+              )}
+            </Button>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
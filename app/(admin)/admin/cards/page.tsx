@@ -2,15 +2,22 @@ export const dynamic = "force-dynamic";
 
 import { redirect } from "next/navigation";
 
-import { db, products, cards, orders, categories, cardStatusEnum, type CardStatus } from "@/lib/db";
+import { db, products, productVariants, cards, orders, categories, cardStatusEnum, type CardStatus } from "@/lib/db";
 import { eq, sql, desc, asc, and, ilike, inArray } from "drizzle-orm";
+import Link from "next/link";
 import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
 import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { CreditCard } from "lucide-react";
+import { CreditCard, PackageOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { ImportCardsDialog } from "./import-cards-dialog";
 import { CreateCardDialog } from "./create-card-dialog";
 import { CardsClient } from "./cards-client";
 import { ProductSelector } from "./product-selector";
+import { requireAdmin } from "@/lib/auth-utils";
+import { recordCardAccess } from "@/lib/card-access";
+import { decryptCardContentForDisplay, hashCardContent, isCardEncryptionEnabled } from "@/lib/card-crypto";
+import { logger } from "@/lib/logger";
 import { buildAdminCardsHref, DEFAULT_ADMIN_CARDS_PAGE_SIZE } from "./cards-url";
 import type { AdminCardListItem } from "./cards-table";
 
@@ -32,6 +39,12 @@ function normalizeEnumValue<T extends readonly string[]>(
   return allowed.includes(value) ? (value as T[number]) : undefined;
 }
 
+type StockStats = Record<CardStatus, number>;
+
+function emptyStockStats(): StockStats {
+  return { available: 0, locked: 0, sold: 0, void: 0, quarantined: 0, expired: 0 };
+}
+
 function escapeLikePattern(value: string): string {
   return value.replace(/\\/g, "\\\\").replace(/%/g, "\\%").replace(/_/g, "\\_");
 }
@@ -39,6 +52,7 @@ function escapeLikePattern(value: string): string {
 interface CardsPageProps {
   searchParams: Promise<{
     product?: string;
+    variant?: string;
     q?: string;
     status?: string;
     orderNo?: string;
@@ -70,22 +84,56 @@ async function getProductsWithStock() {
     .from(cards)
     .groupBy(cards.productId, cards.status);
 
-  const stockMap = new Map<string, { available: number; sold: number; locked: number }>();
+  const stockMap = new Map<string, StockStats>();
   for (const stat of stockStats) {
-    const existing = stockMap.get(stat.productId) || { available: 0, sold: 0, locked: 0 };
-    existing[stat.status as keyof typeof existing] = stat.count;
+    const existing = stockMap.get(stat.productId) || emptyStockStats();
+    existing[stat.status] = stat.count;
     stockMap.set(stat.productId, existing);
   }
 
   return productList.map((product) => ({
     ...product,
-    stockStats: stockMap.get(product.id) || { available: 0, sold: 0, locked: 0 },
+    stockStats: stockMap.get(product.id) || emptyStockStats(),
+  }));
+}
+
+async function getVariantsWithStock(productId: string) {
+  const variantList = await db.query.productVariants.findMany({
+    where: eq(productVariants.productId, productId),
+    columns: { id: true, name: true, isActive: true },
+    orderBy: [asc(productVariants.sortOrder), asc(productVariants.createdAt)],
+  });
+
+  if (variantList.length === 0) return [];
+
+  const stockStats = await db
+    .select({
+      variantId: cards.variantId,
+      status: cards.status,
+      count: sql<number>`count(*)::int`,
+    })
+    .from(cards)
+    .where(eq(cards.productId, productId))
+    .groupBy(cards.variantId, cards.status);
+
+  const stockMap = new Map<string, StockStats>();
+  for (const stat of stockStats) {
+    if (!stat.variantId) continue;
+    const existing = stockMap.get(stat.variantId) || emptyStockStats();
+    existing[stat.status] = stat.count;
+    stockMap.set(stat.variantId, existing);
+  }
+
+  return variantList.map((variant) => ({
+    ...variant,
+    stockStats: stockMap.get(variant.id) || emptyStockStats(),
   }));
 }
 
 async function getCardsPage(
   productId: string,
   options: {
+    variantId?: string;
     q?: string;
     status?: CardStatus;
     orderNo?: string;
@@ -95,13 +143,22 @@ async function getCardsPage(
 ): Promise<{ items: AdminCardListItem[]; total: number }> {
   const conditions = [eq(cards.productId, productId)];
 
+  if (options.variantId) {
+    conditions.push(eq(cards.variantId, options.variantId));
+  }
+
   if (options.status) {
     conditions.push(eq(cards.status, options.status));
   }
 
   if (options.q) {
-    const pattern = `%${escapeLikePattern(options.q)}%`;
-    conditions.push(ilike(cards.content, pattern));
+    // 卡密加密存储后无法模糊匹配，只能按完整内容的去重哈希精确查找
+    if (isCardEncryptionEnabled()) {
+      conditions.push(eq(cards.contentHash, hashCardContent(options.q)));
+    } else {
+      const pattern = `%${escapeLikePattern(options.q)}%`;
+      conditions.push(ilike(cards.content, pattern));
+    }
   }
 
   if (options.orderNo) {
@@ -131,6 +188,7 @@ async function getCardsPage(
         content: true,
         status: true,
         createdAt: true,
+        expiresAt: true,
         orderId: true,
       },
       with: {
@@ -140,6 +198,11 @@ async function getCardsPage(
             orderNo: true,
           },
         },
+        variant: {
+          columns: {
+            name: true,
+          },
+        },
       },
       orderBy: [asc(cards.status), desc(cards.createdAt)],
       limit: options.pageSize,
@@ -150,11 +213,22 @@ async function getCardsPage(
 
   const total = countRows[0]?.count ?? 0;
 
-  const items: AdminCardListItem[] = rows.map((card) => ({
-    ...card,
-    content: card.status === "sold" ? `${card.content.slice(0, 10)}***` : card.content,
-    contentMasked: card.status === "sold",
-  }));
+  // 已发放给买家的卡密（已售/退款后作废或隔离）仅展示前缀
+  const items: AdminCardListItem[] = rows.map(({ variant, ...card }) => {
+    let decryptFailed = false;
+    const content = decryptCardContentForDisplay(card.content, (error) => {
+      decryptFailed = true;
+      logger.error({ err: error, cardId: card.id }, "卡密解密失败");
+    });
+    // 解密失败时直接展示占位文本，无需再截断
+    const masked = !decryptFailed && card.status !== "available" && card.status !== "locked";
+    return {
+      ...card,
+      variantName: variant?.name ?? null,
+      content: masked ? `${content.slice(0, 10)}***` : content,
+      contentMasked: masked,
+    };
+  });
 
   return { items, total };
 }
@@ -172,8 +246,23 @@ const stockBadgeConfig: Record<CardStatus, { label: string; className: string }>
     label: "已售",
     className: "bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-200",
   },
+  quarantined: {
+    label: "隔离",
+    className: "bg-sky-100 text-sky-700 dark:bg-sky-950/40 dark:text-sky-200",
+  },
+  void: {
+    label: "作废",
+    className: "bg-rose-100 text-rose-700 dark:bg-rose-950/40 dark:text-rose-200",
+  },
+  expired: {
+    label: "过期",
+    className: "bg-orange-100 text-orange-700 dark:bg-orange-950/40 dark:text-orange-200",
+  },
 };
 
+const variantTabClassName = "rounded-md border px-3 py-1 text-sm transition-colors hover:bg-muted";
+const variantTabActiveClassName = "border-primary bg-primary/5 font-medium";
+
 export default async function CardsPage({ searchParams }: CardsPageProps) {
   const params = await searchParams;
   const selectedProductId = params.product;
@@ -201,8 +290,14 @@ export default async function CardsPage({ searchParams }: CardsPageProps) {
     ? productsWithStock.find((p) => p.id === selectedProductId)
     : null;
 
+  const variants = selectedProductId ? await getVariantsWithStock(selectedProductId) : [];
+  const selectedVariant = variants.find((v) => v.id === params.variant) ?? null;
+  const selectedVariantId = selectedVariant?.id;
+  const selectedStockStats = selectedVariant?.stockStats ?? selectedProduct?.stockStats;
+
   const cardsResult = selectedProductId
     ? await getCardsPage(selectedProductId, {
+        variantId: selectedVariantId,
         q: q || undefined,
         status,
         orderNo: orderNo || undefined,
@@ -211,11 +306,25 @@ export default async function CardsPage({ searchParams }: CardsPageProps) {
       })
     : { items: [], total: 0 };
 
+  // 列表中未打码展示的卡密计入查看记录
+  const revealedCards = cardsResult.items.filter((card) => !card.contentMasked);
+  if (revealedCards.length > 0) {
+    const admin = await requireAdmin("cards.view").catch(() => null);
+    if (admin) {
+      await recordCardAccess(
+        revealedCards,
+        { type: "admin", id: admin.user.id, name: admin.user.name },
+        "admin_cards"
+      );
+    }
+  }
+
   const totalPages = Math.max(1, Math.ceil(cardsResult.total / pageSize));
   if (selectedProductId && cardsResult.total > 0 && page > totalPages) {
     redirect(
       buildAdminCardsHref({
         productId: selectedProductId,
+        variantId: selectedVariantId,
         q: q || undefined,
         status,
         orderNo: orderNo || undefined,
@@ -237,6 +346,14 @@ export default async function CardsPage({ searchParams }: CardsPageProps) {
             管理商品库存和卡密
           </p>
         </div>
+        <Button asChild variant="outline" className="gap-2">
+          <Link
+            href={selectedProductId ? `/admin/cards/batches?product=${selectedProductId}` : "/admin/cards/batches"}
+          >
+            <PackageOpen className="h-4 w-4" />
+            导入批次
+          </Link>
+        </Button>
       </div>
 
       <div className="grid gap-6 lg:grid-cols-3">
@@ -259,32 +376,84 @@ export default async function CardsPage({ searchParams }: CardsPageProps) {
           <CardHeader>
             <CardTitle className="flex items-center gap-2 text-base">
               <CreditCard className="h-5 w-5" />
-              {selectedProduct ? `${selectedProduct.name} 的卡密` : "卡密列表"}
+              {selectedProduct
+                ? `${selectedProduct.name}${selectedVariant ? `（${selectedVariant.name}）` : ""} 的卡密`
+                : "卡密列表"}
             </CardTitle>
-            {selectedProduct ? (
+            {selectedStockStats ? (
               <CardDescription className="flex flex-wrap gap-2">
                 <Badge className={stockBadgeConfig.available.className}>
-                  {stockBadgeConfig.available.label} {selectedProduct.stockStats.available}
+                  {stockBadgeConfig.available.label} {selectedStockStats.available}
                 </Badge>
                 <Badge className={stockBadgeConfig.locked.className}>
-                  {stockBadgeConfig.locked.label} {selectedProduct.stockStats.locked}
+                  {stockBadgeConfig.locked.label} {selectedStockStats.locked}
                 </Badge>
                 <Badge className={stockBadgeConfig.sold.className}>
-                  {stockBadgeConfig.sold.label} {selectedProduct.stockStats.sold}
+                  {stockBadgeConfig.sold.label} {selectedStockStats.sold}
                 </Badge>
+                {selectedStockStats.quarantined > 0 ? (
+                  <Badge className={stockBadgeConfig.quarantined.className}>
+                    {stockBadgeConfig.quarantined.label} {selectedStockStats.quarantined}
+                  </Badge>
+                ) : null}
+                {selectedStockStats.void > 0 ? (
+                  <Badge className={stockBadgeConfig.void.className}>
+                    {stockBadgeConfig.void.label} {selectedStockStats.void}
+                  </Badge>
+                ) : null}
+                {selectedStockStats.expired > 0 ? (
+                  <Badge className={stockBadgeConfig.expired.className}>
+                    {stockBadgeConfig.expired.label} {selectedStockStats.expired}
+                  </Badge>
+                ) : null}
               </CardDescription>
             ) : null}
             {selectedProductId ? (
               <CardAction className="flex items-center gap-2">
-                <CreateCardDialog productId={selectedProductId} />
-                <ImportCardsDialog productId={selectedProductId} />
+                <CreateCardDialog
+                  key={`create:${selectedVariantId ?? ""}`}
+                  productId={selectedProductId}
+                  variants={variants}
+                  defaultVariantId={selectedVariantId}
+                />
+                <ImportCardsDialog
+                  key={`import:${selectedVariantId ?? ""}`}
+                  productId={selectedProductId}
+                  variants={variants}
+                  defaultVariantId={selectedVariantId}
+                />
               </CardAction>
             ) : null}
           </CardHeader>
           <CardContent>
+            {selectedProductId && variants.length > 0 ? (
+              <div className="mb-4 flex flex-wrap gap-2">
+                <Link
+                  href={buildAdminCardsHref({ productId: selectedProductId, pageSize })}
+                  className={cn(variantTabClassName, !selectedVariantId && variantTabActiveClassName)}
+                >
+                  全部规格
+                </Link>
+                {variants.map((variant) => (
+                  <Link
+                    key={variant.id}
+                    href={buildAdminCardsHref({ productId: selectedProductId, variantId: variant.id, pageSize })}
+                    className={cn(
+                      variantTabClassName,
+                      variant.id === selectedVariantId && variantTabActiveClassName
+                    )}
+                  >
+                    {variant.name} · {variant.stockStats.available}
+                    {!variant.isActive ? "（已停用）" : ""}
+                  </Link>
+                ))}
+              </div>
+            ) : null}
             {selectedProductId ? (
               <CardsClient
                 productId={selectedProductId}
+                variantId={selectedVariantId}
+                showVariant={variants.length > 0 && !selectedVariantId}
                 items={cardsResult.items}
                 total={cardsResult.total}
                 page={safePage}
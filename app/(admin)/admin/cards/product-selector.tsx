@@ -21,7 +21,7 @@ interface ProductWithStock {
   id: string;
   name: string;
   categoryId: string | null;
-  stockStats: { available: number; sold: number; locked: number };
+  stockStats: { available: number; sold: number; locked: number; quarantined: number };
 }
 
 interface Category {
@@ -112,6 +112,9 @@ export function ProductSelector({
               {product.stockStats.locked > 0 && (
                 <span>锁定 {product.stockStats.locked}</span>
               )}
+              {product.stockStats.quarantined > 0 && (
+                <span>隔离 {product.stockStats.quarantined}</span>
+              )}
             </div>
           </Link>
         ))}
@@ -0,0 +1,165 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatLocalTime } from "@/lib/time";
+import type {
+  CardImportColumn,
+  CardImportColumnTarget,
+  CardImportPreviewRow,
+} from "@/lib/card-import";
+
+// 预览表格最多展示的行数（校验失败的行优先展示）
+const PREVIEW_ROW_LIMIT = 200;
+
+const selectClassName =
+  "h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50";
+
+const columnTargetLabels: Record<CardImportColumnTarget, string> = {
+  field: "卡密字段",
+  expiresAt: "有效期",
+  ignore: "忽略",
+};
+
+const skipReasonLabels: Record<NonNullable<CardImportPreviewRow["skipReason"]>, string> = {
+  duplicate_in_input: "文件内重复",
+  existing: "已存在",
+};
+
+export function ColumnMappingTable({
+  columns,
+  onChange,
+  disabled,
+}: {
+  columns: CardImportColumn[];
+  onChange: (columns: CardImportColumn[]) => void;
+  disabled?: boolean;
+}) {
+  const updateColumn = (index: number, patch: Partial<CardImportColumn>) => {
+    onChange(columns.map((column, i) => (i === index ? { ...column, ...patch } : column)));
+  };
+
+  return (
+    <div className="max-h-56 overflow-auto rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>文件列</TableHead>
+            <TableHead className="w-[120px]">映射为</TableHead>
+            <TableHead>字段名称</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {columns.map((column, index) => (
+            <TableRow key={column.key}>
+              <TableCell className="font-mono text-xs">{column.key}</TableCell>
+              <TableCell>
+                <select
+                  aria-label={`${column.key} 映射为`}
+                  className={selectClassName}
+                  value={column.target}
+                  onChange={(e) =>
+                    updateColumn(index, { target: e.target.value as CardImportColumnTarget })
+                  }
+                  disabled={disabled}
+                >
+                  {(Object.keys(columnTargetLabels) as CardImportColumnTarget[]).map((target) => (
+                    <option key={target} value={target}>
+                      {columnTargetLabels[target]}
+                    </option>
+                  ))}
+                </select>
+              </TableCell>
+              <TableCell>
+                {column.target === "field" ? (
+                  <Input
+                    aria-label={`${column.key} 字段名称`}
+                    className="h-9"
+                    value={column.label}
+                    maxLength={50}
+                    onChange={(e) => updateColumn(index, { label: e.target.value })}
+                    disabled={disabled}
+                  />
+                ) : (
+                  <span className="text-xs text-muted-foreground">—</span>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export function ImportPreviewTable({ rows }: { rows: CardImportPreviewRow[] }) {
+  const sortedRows = [...rows].sort(
+    (a, b) => Number(b.errors.length > 0) - Number(a.errors.length > 0) || a.row - b.row
+  );
+  const visibleRows = sortedRows.slice(0, PREVIEW_ROW_LIMIT);
+
+  return (
+    <div className="space-y-1">
+      <div className="max-h-64 overflow-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[56px]">行</TableHead>
+              <TableHead>字段</TableHead>
+              <TableHead className="w-[130px]">有效期</TableHead>
+              <TableHead className="w-[140px]">结果</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleRows.map((row) => (
+              <TableRow key={row.row}>
+                <TableCell className="text-xs text-muted-foreground">{row.row}</TableCell>
+                <TableCell className="whitespace-normal">
+                  <div className="space-y-0.5 text-xs">
+                    {row.fields.map((field) => (
+                      <div key={field.label} className="break-all">
+                        <span className="text-muted-foreground">{field.label}：</span>
+                        <span className="font-mono">{field.value || "—"}</span>
+                      </div>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  {row.expiresAt ? formatLocalTime(row.expiresAt) : "长期有效"}
+                </TableCell>
+                <TableCell className="whitespace-normal">
+                  {row.errors.length > 0 ? (
+                    <div className="space-y-0.5 text-xs text-destructive">
+                      {row.errors.map((error) => (
+                        <div key={error}>{error}</div>
+                      ))}
+                    </div>
+                  ) : row.skipReason ? (
+                    <Badge variant="secondary">跳过：{skipReasonLabels[row.skipReason]}</Badge>
+                  ) : (
+                    <Badge className="bg-emerald-100 text-emerald-700 dark:bg-emerald-900 dark:text-emerald-300">
+                      可导入
+                    </Badge>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {rows.length > PREVIEW_ROW_LIMIT ? (
+        <p className="text-xs text-muted-foreground">
+          仅展示前 {PREVIEW_ROW_LIMIT} 行（共 {rows.length} 行，校验失败的行优先展示）
+        </p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { MoreHorizontal, Eye, EyeOff, Trash2 } from "lucide-react";
+import { toggleCouponActive, deleteCoupon } from "@/lib/actions/coupons";
+import { toast } from "sonner";
+
+interface CouponActionsProps {
+  couponId: string;
+  code: string;
+  isActive: boolean;
+}
+
+export function CouponActions({ couponId, code, isActive }: CouponActionsProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const handleToggleActive = () => {
+    startTransition(async () => {
+      const result = await toggleCouponActive(couponId);
+      if (result.success) {
+        toast.success(result.message);
+        router.refresh();
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`确定要删除优惠码 ${code} 吗？已使用的订单不受影响。`)) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await deleteCoupon(couponId);
+      if (result.success) {
+        toast.success(result.message);
+        router.refresh();
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" disabled={isPending}>
+          <MoreHorizontal className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={handleToggleActive} disabled={isPending}>
+          {isActive ? (
+            <>
+              <EyeOff className="mr-2 h-4 w-4" />
+              停用
+            </>
+          ) : (
+            <>
+              <Eye className="mr-2 h-4 w-4" />
+              启用
+            </>
+          )}
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem
+          onClick={handleDelete}
+          className="text-rose-600 focus:text-rose-600"
+          disabled={isPending}
+        >
+          <Trash2 className="mr-2 h-4 w-4" />
+          删除
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
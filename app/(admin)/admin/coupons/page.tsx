@@ -0,0 +1,181 @@
+export const dynamic = "force-dynamic";
+
+import { asc } from "drizzle-orm";
+import { db, products } from "@/lib/db";
+import { getAdminCoupons } from "@/lib/actions/coupons";
+import { getAdminCategories } from "@/lib/actions/categories";
+import { StatsCard } from "@/components/admin/stats-card";
+import { LocalTime } from "@/components/time/local-time";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TicketPercent, Receipt, Coins, BadgePercent } from "lucide-react";
+import { CouponActions } from "./coupon-actions";
+import { CreateCouponDialog } from "./create-coupon-dialog";
+
+export default async function CouponsPage() {
+  const [coupons, categories, productOptions] = await Promise.all([
+    getAdminCoupons(),
+    getAdminCategories(),
+    db.query.products.findMany({
+      columns: { id: true, name: true },
+      orderBy: [asc(products.sortOrder), asc(products.name)],
+    }),
+  ]);
+
+  const categoryOptions = categories.map((c) => ({ id: c.id, name: c.name }));
+
+  const totals = coupons.reduce(
+    (acc, coupon) => {
+      acc.redeemed += coupon.stats.redeemedCount;
+      acc.discount += Number(coupon.stats.totalDiscount);
+      acc.revenue += Number(coupon.stats.totalRevenue);
+      return acc;
+    },
+    { redeemed: 0, discount: 0, revenue: 0 }
+  );
+  const activeCount = coupons.filter((c) => c.isActive).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">
+            优惠码管理
+          </h1>
+          <p className="text-zinc-600 dark:text-zinc-400">
+            管理优惠码并查看核销情况
+          </p>
+        </div>
+        <CreateCouponDialog products={productOptions} categories={categoryOptions} />
+      </div>
+
+      {/* Stats */}
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <StatsCard
+          title="优惠码"
+          value={coupons.length}
+          description={`启用中 ${activeCount}`}
+          icon={TicketPercent}
+        />
+        <StatsCard title="核销订单" value={totals.redeemed} icon={Receipt} />
+        <StatsCard
+          title="累计优惠"
+          value={`${totals.discount.toFixed(2)} LDC`}
+          icon={BadgePercent}
+        />
+        <StatsCard
+          title="带来收入"
+          value={`${totals.revenue.toFixed(2)} LDC`}
+          description="使用优惠码订单的实付金额"
+          icon={Coins}
+        />
+      </div>
+
+      {/* Coupons Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <TicketPercent className="h-5 w-5" />
+            优惠码列表 ({coupons.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {coupons.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>优惠码</TableHead>
+                    <TableHead>优惠</TableHead>
+                    <TableHead>适用范围</TableHead>
+                    <TableHead className="text-center">使用次数</TableHead>
+                    <TableHead className="text-right">累计优惠</TableHead>
+                    <TableHead className="text-right">实付金额</TableHead>
+                    <TableHead>过期时间</TableHead>
+                    <TableHead className="text-center">状态</TableHead>
+                    <TableHead className="text-right">操作</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {coupons.map((coupon) => (
+                    <TableRow key={coupon.id}>
+                      <TableCell>
+                        <div className="font-mono font-medium">{coupon.code}</div>
+                        {coupon.description ? (
+                          <div className="text-xs text-zinc-500">{coupon.description}</div>
+                        ) : null}
+                      </TableCell>
+                      <TableCell>
+                        <div>
+                          {coupon.discountType === "percent"
+                            ? `立减 ${Number(coupon.discountValue)}%`
+                            : `立减 ${coupon.discountValue} LDC`}
+                        </div>
+                        {Number(coupon.minAmount) > 0 ? (
+                          <div className="text-xs text-zinc-500">满 {coupon.minAmount} LDC 可用</div>
+                        ) : null}
+                      </TableCell>
+                      <TableCell className="text-zinc-600 dark:text-zinc-400">
+                        {coupon.scopeLabel}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <div>
+                          {coupon.stats.redeemedCount}
+                          {coupon.maxUses !== null ? ` / ${coupon.maxUses}` : ""}
+                        </div>
+                        <div className="text-xs text-zinc-500">
+                          {coupon.stats.pendingCount > 0 ? `待支付 ${coupon.stats.pendingCount} · ` : ""}
+                          每人 {coupon.maxUsesPerUser ?? "不限"}
+                          {coupon.stats.refundedCount > 0 ? ` · 已退款 ${coupon.stats.refundedCount}` : ""}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{coupon.stats.totalDiscount}</TableCell>
+                      <TableCell className="text-right">{coupon.stats.totalRevenue}</TableCell>
+                      <TableCell className="text-sm text-zinc-500">
+                        {coupon.expiresAt ? <LocalTime value={coupon.expiresAt} mode="short" /> : "长期有效"}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        {!coupon.isActive ? (
+                          <Badge variant="secondary">已停用</Badge>
+                        ) : coupon.isExpired ? (
+                          <Badge variant="outline">已过期</Badge>
+                        ) : (
+                          <Badge className="bg-emerald-100 text-emerald-700">生效中</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <CouponActions
+                          couponId={coupon.id}
+                          code={coupon.code}
+                          isActive={coupon.isActive}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="py-12 text-center">
+              <TicketPercent className="mx-auto h-12 w-12 text-zinc-300" />
+              <p className="mt-4 text-zinc-500">暂无优惠码</p>
+              <CreateCouponDialog products={productOptions} categories={categoryOptions}>
+                <Button className="mt-4">创建第一个优惠码</Button>
+              </CreateCouponDialog>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -62,7 +62,7 @@ export default async function CustomersPage({ searchParams }: CustomersPageProps
             顾客管理
           </h1>
           <p className="text-zinc-600 dark:text-zinc-400">
-            基于已完成订单汇总顾客消费数据
+            基于已完成与部分退款的订单汇总顾客消费数据（扣除已退款金额）
           </p>
         </div>
       </div>
@@ -4,9 +4,11 @@ import {
   ArrowLeft,
   Coins,
   CreditCard,
+  Eye,
   ExternalLink,
   Hash,
   Package,
+  ShoppingCart,
   User,
   Users,
   WalletCards,
@@ -71,6 +73,28 @@ const cardStatusMeta: Record<CardStatus, { label: string; className: string }> =
     label: "已售出",
     className: "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300",
   },
+  quarantined: {
+    label: "已隔离",
+    className: "bg-sky-100 text-sky-700 dark:bg-sky-900 dark:text-sky-300",
+  },
+  void: {
+    label: "已作废",
+    className: "bg-rose-100 text-rose-700 dark:bg-rose-900 dark:text-rose-300",
+  },
+  expired: {
+    label: "已过期",
+    className: "bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-300",
+  },
+};
+
+const cardAccessSourceLabels: Record<string, string> = {
+  order_my: "我的订单",
+  order_result: "订单结果页",
+  admin_order_detail: "后台订单详情",
+  admin_refund: "退款审批",
+  admin_cards: "卡密管理",
+  admin_export: "卡密导出",
+  api: "开放 API",
 };
 
 function SummaryCard({
@@ -231,9 +255,15 @@ function OrderSummary({ order }: { order: OrderDetailData }) {
         title="订单金额"
         value={`${order.totalAmount} LDC`}
         description={
-          <span>
-            单价 {order.productPrice} · 数量 {order.quantity}
-          </span>
+          order.items.length > 1 ? (
+            <span>
+              {order.items.length} 件商品 · 共 {order.quantity} 份
+            </span>
+          ) : (
+            <span>
+              单价 {order.productPrice} · 数量 {order.quantity}
+            </span>
+          )
         }
       />
       <SummaryCard
@@ -363,8 +393,74 @@ function OrderInfoCard({ order }: { order: OrderDetailData }) {
         </Field>
         <Field label="商品">{order.productName}</Field>
         <Field label="数量">{order.quantity}</Field>
-        <Field label="单价">{order.productPrice} LDC</Field>
+        <Field label="单价">
+          {order.items.length > 1 ? "见商品明细" : `${order.productPrice} LDC`}
+        </Field>
         <Field label="金额">{order.totalAmount} LDC</Field>
+        {order.couponCode ? (
+          <Field label="优惠码">
+            <code className="font-mono text-xs">{order.couponCode}</code>
+            <span className="ml-2 text-emerald-600">-{order.discountAmount} LDC</span>
+          </Field>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * 合并结算订单的商品明细（单商品订单信息已在订单信息卡片中展示）
+ */
+function OrderItemsCard({ order }: { order: OrderDetailData }) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <ShoppingCart className="h-5 w-5" />
+          商品明细 ({order.items.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>商品</TableHead>
+                <TableHead className="w-[120px] text-right">单价</TableHead>
+                <TableHead className="w-[80px] text-right">数量</TableHead>
+                <TableHead className="w-[100px] text-right">卡密</TableHead>
+                <TableHead className="w-[120px] text-right">小计</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {order.items.map((item) => {
+                const cardCount = order.cards.filter(
+                  (card) => card.productId === item.productId
+                ).length;
+                return (
+                  <TableRow key={item.id}>
+                    <TableCell className="whitespace-normal">
+                      {item.productId ? (
+                        <Link
+                          href={`/admin/products/${item.productId}/edit`}
+                          className="hover:underline"
+                        >
+                          {item.productName}
+                        </Link>
+                      ) : (
+                        item.productName
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{item.productPrice} LDC</TableCell>
+                    <TableCell className="text-right">{item.quantity}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">{cardCount}</TableCell>
+                    <TableCell className="text-right font-medium">{item.subtotal} LDC</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
       </CardContent>
     </Card>
   );
@@ -384,6 +480,41 @@ function OrderNotesCard({ order }: { order: OrderDetailData }) {
           <NoteBlock title="用户备注" content={order.remark} />
           <NoteBlock title="管理员备注" content={order.adminRemark} />
         </div>
+        {order.refunds.length > 0 ? (
+          <div className="space-y-2">
+            <div className="text-xs text-muted-foreground">
+              退款记录（累计已退 {order.refundedAmount} LDC）
+            </div>
+            <div className="rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>时间</TableHead>
+                    <TableHead className="text-right">金额</TableHead>
+                    <TableHead className="text-right">卡密数</TableHead>
+                    <TableHead>操作人</TableHead>
+                    <TableHead>备注</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {order.refunds.map((refund) => (
+                    <TableRow key={refund.id}>
+                      <TableCell className="whitespace-nowrap text-xs">
+                        <LocalTime value={refund.createdAt} />
+                      </TableCell>
+                      <TableCell className="text-right">{refund.amount} LDC</TableCell>
+                      <TableCell className="text-right">{refund.cardCount}</TableCell>
+                      <TableCell className="text-xs">{refund.operator ?? "—"}</TableCell>
+                      <TableCell className="whitespace-normal text-xs text-muted-foreground">
+                        {refund.remark ?? "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        ) : null}
       </CardContent>
     </Card>
   );
@@ -410,6 +541,8 @@ function OrderCardsCard({
           {(
             [
               ["sold", "已售出"],
+              ["quarantined", "已隔离"],
+              ["void", "已作废"],
               ["locked", "已锁定"],
               ["available", "可用"],
             ] as const
@@ -531,6 +664,84 @@ function OrderCardsCard({
   );
 }
 
+function CardAccessCard({ order }: { order: OrderDetailData }) {
+  const cardIndex = new Map(order.cards.map((card, index) => [card.id, index + 1]));
+  const buyerEvents = order.accessEvents.filter((event) => event.actorType === "buyer");
+  // 记录按时间倒序，最后一条即买家首次查看
+  const firstBuyerView = buyerEvents[buyerEvents.length - 1];
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Eye className="h-5 w-5" />
+          卡密查看记录 ({order.accessEvents.length})
+        </CardTitle>
+        <CardAction>
+          {firstBuyerView ? (
+            <Badge className="bg-emerald-100 text-emerald-700 dark:bg-emerald-900 dark:text-emerald-300">
+              买家首次查看 <LocalTime value={firstBuyerView.createdAt} mode="short" />
+            </Badge>
+          ) : (
+            <Badge variant="secondary">买家未查看</Badge>
+          )}
+        </CardAction>
+      </CardHeader>
+      <CardContent>
+        {order.accessEvents.length > 0 ? (
+          <div className="rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>时间</TableHead>
+                  <TableHead>来源</TableHead>
+                  <TableHead>查看人</TableHead>
+                  <TableHead>卡密</TableHead>
+                  <TableHead>IP</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {order.accessEvents.map((event) => {
+                  const index = cardIndex.get(event.cardId);
+                  return (
+                    <TableRow key={event.id}>
+                      <TableCell className="whitespace-nowrap text-xs">
+                        <LocalTime value={event.createdAt} />
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {cardAccessSourceLabels[event.source] ?? event.source}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        <Badge variant={event.actorType === "buyer" ? "default" : "secondary"}>
+                          {event.actorType === "buyer" ? "买家" : "管理员"}
+                        </Badge>
+                        <span className="ml-2">{event.actorName ?? event.actorId ?? "—"}</span>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs" title={event.cardId}>
+                        {index ? `#${index}` : event.cardId.slice(0, 8)}
+                      </TableCell>
+                      <TableCell
+                        className="font-mono text-xs text-muted-foreground"
+                        title={event.userAgent ?? undefined}
+                      >
+                        {event.ipAddress ?? "—"}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="rounded-lg border py-8 text-center text-sm text-muted-foreground">
+            暂无查看记录
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function UserInfoCard({ order }: { order: OrderDetailData }) {
   const isGuestOrder = Boolean(order.email && !order.userId);
 
@@ -659,7 +870,7 @@ export function OrderDetailView({ result }: { result: AdminOrderDetailResult })
       acc[card.status] += 1;
       return acc;
     },
-    { available: 0, locked: 0, sold: 0 }
+    { available: 0, locked: 0, sold: 0, quarantined: 0, void: 0, expired: 0 }
   );
 
   return (
@@ -670,8 +881,10 @@ export function OrderDetailView({ result }: { result: AdminOrderDetailResult })
       <div className="grid gap-6 lg:grid-cols-3">
         <div className="space-y-6 lg:col-span-2">
           <OrderInfoCard order={order} />
+          {order.items.length > 1 ? <OrderItemsCard order={order} /> : null}
           <OrderNotesCard order={order} />
           <OrderCardsCard order={order} cardCounts={cardCounts} />
+          <CardAccessCard order={order} />
         </div>
 
         <div className="space-y-6 lg:sticky lg:top-6 lg:self-start">
@@ -22,10 +22,17 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { MoreHorizontal, CheckCircle2, Eye, Copy, RotateCcw, XCircle, Loader2, Globe, Trash2 } from "lucide-react";
-import { adminCompleteOrder, approveRefund, rejectRefund } from "@/lib/actions/orders";
+import {
+  adminCompleteOrder,
+  approveRefund,
+  getOrderRefundDetail,
+  rejectRefund,
+} from "@/lib/actions/orders";
 import { deleteAdminOrders } from "@/lib/actions/admin-orders";
 import { toast } from "sonner";
 import type { RefundMode } from "@/lib/payment/ldc";
+import type { RefundCardPolicy } from "@/lib/db";
+import { RefundCardPicker, RefundCardPolicySelect, type RefundDetail } from "./refund-card-picker";
 
 interface OrderActionsProps {
   orderId: string;
@@ -34,15 +41,44 @@ interface OrderActionsProps {
   refundReason?: string | null;
   refundEnabled?: boolean;
   refundMode?: RefundMode;
+  paymentMethod?: string;
 }
 
-export function OrderActions({ orderId, orderNo, status, refundReason, refundEnabled = false, refundMode = 'disabled' }: OrderActionsProps) {
+export function OrderActions({ orderId, orderNo, status, refundReason, refundEnabled = false, refundMode = 'disabled', paymentMethod = 'ldc' }: OrderActionsProps) {
+  // 客户端直连退款仅适用于 LDC 订单，其余支付通道由服务端调用退款接口
+  const isClientRefund = refundMode === 'client' && paymentMethod === 'ldc';
+  // refundEnabled 仅反映 LDC 的退款模式；EasyPay 订单由服务端按通道凭据退款，不受其限制
+  const canApproveRefund = paymentMethod === 'ldc' ? refundEnabled : true;
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
   const [refundDialogOpen, setRefundDialogOpen] = useState(false);
   const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [rejectReason, setRejectReason] = useState("");
+  const [refundDetail, setRefundDetail] = useState<RefundDetail | null>(null);
+  const [refundCardIds, setRefundCardIds] = useState<string[]>([]);
+  const [refundCardPolicy, setRefundCardPolicy] = useState<RefundCardPolicy | undefined>();
+  const [isLoadingRefund, setIsLoadingRefund] = useState(false);
+
+  // 打开退款确认框时加载订单上可退款的卡密，默认全选（即全额退款）
+  const openRefundDialog = async () => {
+    setRefundDialogOpen(true);
+    setRefundDetail(null);
+    setRefundCardPolicy(undefined);
+    setIsLoadingRefund(true);
+    const result = await getOrderRefundDetail(orderId);
+    setIsLoadingRefund(false);
+    if (!result.success || !result.data) {
+      toast.error(result.message);
+      return;
+    }
+    setRefundDetail(result.data);
+    setRefundCardIds(result.data.cards.map((card) => card.id));
+  };
+
+  // 全选时不传卡密，由服务端退还订单上剩余的全部卡密
+  const selectedRefundCardIds =
+    refundDetail && refundCardIds.length < refundDetail.cards.length ? refundCardIds : undefined;
 
   const handleComplete = () => {
     if (!confirm("确定要手动完成此订单吗？此操作将发放卡密。")) {
@@ -64,8 +100,13 @@ export function OrderActions({ orderId, orderNo, status, refundReason, refundEna
    */
   const handleClientRefund = (): void => {
     // 打开退款页面，该页面会通过表单提交到 LDC API
+    const params = new URLSearchParams();
+    if (selectedRefundCardIds) params.set("cards", selectedRefundCardIds.join(","));
+    if (refundCardPolicy) params.set("cardPolicy", refundCardPolicy);
+    const search = params.toString();
+    const query = search ? `?${search}` : "";
     const refundWindow = window.open(
-      `/admin/refund/${orderId}`,
+      `/admin/refund/${orderId}${query}`,
       "refund_window",
       "width=600,height=700,scrollbars=yes"
     );
@@ -96,15 +137,20 @@ export function OrderActions({ orderId, orderNo, status, refundReason, refundEna
   }, [orderId]);
 
   const handleApproveRefund = () => {
-    if (refundMode === 'client') {
+    if (isClientRefund) {
       // 客户端模式：打开新窗口处理退款
       handleClientRefund();
     } else {
       // 代理模式：服务端调用
       startTransition(async () => {
-        const result = await approveRefund(orderId);
+        const result = await approveRefund(
+          orderId,
+          undefined,
+          selectedRefundCardIds,
+          refundCardPolicy
+        );
         if (result.success) {
-          toast.success("退款成功");
+          toast.success(result.message);
           setRefundDialogOpen(false);
         } else {
           toast.error(result.message);
@@ -173,11 +219,11 @@ export function OrderActions({ orderId, orderNo, status, refundReason, refundEna
               </DropdownMenuItem>
             </>
           )}
-          {status === "refund_pending" && refundEnabled && (
+          {status === "refund_pending" && canApproveRefund && (
             <>
               <DropdownMenuSeparator />
               <DropdownMenuItem 
-                onClick={() => setRefundDialogOpen(true)}
+                onClick={openRefundDialog}
                 className="text-green-600"
               >
                 <CheckCircle2 className="mr-2 h-4 w-4" />
@@ -192,7 +238,7 @@ export function OrderActions({ orderId, orderNo, status, refundReason, refundEna
               </DropdownMenuItem>
             </>
           )}
-          {status === "refund_pending" && !refundEnabled && (
+          {status === "refund_pending" && !canApproveRefund && (
             <>
               <DropdownMenuSeparator />
               <DropdownMenuItem disabled className="text-muted-foreground">
@@ -218,7 +264,7 @@ export function OrderActions({ orderId, orderNo, status, refundReason, refundEna
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               确认通过退款
-              {refundMode === 'client' && (
+              {isClientRefund && (
                 <span className="inline-flex items-center gap-1 text-xs font-normal bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300 px-2 py-0.5 rounded-full">
                   <Globe className="h-3 w-3" />
                   客户端模式
@@ -226,7 +272,7 @@ export function OrderActions({ orderId, orderNo, status, refundReason, refundEna
               )}
             </DialogTitle>
             <DialogDescription>
-              {refundMode === 'client' 
+              {isClientRefund 
                 ? "将通过浏览器直接调用支付平台退款接口（可绕过 CF 验证）"
                 : "通过后将调用支付平台退款接口，退还用户积分"
               }
@@ -237,7 +283,28 @@ export function OrderActions({ orderId, orderNo, status, refundReason, refundEna
               <p className="font-medium mb-1">退款原因：</p>
               <p className="text-muted-foreground">{refundReason || "未填写"}</p>
             </div>
-            {refundMode === 'client' && (
+            {isLoadingRefund ? (
+              <div className="flex items-center justify-center py-4 text-sm text-muted-foreground">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                正在加载卡密...
+              </div>
+            ) : refundDetail ? (
+              <RefundCardPicker
+                detail={refundDetail}
+                selectedIds={refundCardIds}
+                onChange={setRefundCardIds}
+                disabled={isPending}
+              />
+            ) : null}
+            {refundDetail && refundDetail.cards.length > 0 ? (
+              <RefundCardPolicySelect
+                value={refundCardPolicy}
+                onChange={setRefundCardPolicy}
+                detail={refundDetail}
+                disabled={isPending}
+              />
+            ) : null}
+            {isClientRefund && (
               <div className="rounded-lg bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 p-3 text-sm text-amber-800 dark:text-amber-200">
                 <p className="font-medium mb-1">⚠️ 客户端模式说明：</p>
                 <ul className="list-disc list-inside space-y-1 text-xs">
@@ -257,7 +324,11 @@ export function OrderActions({ orderId, orderNo, status, refundReason, refundEna
             </Button>
             <Button
               onClick={handleApproveRefund}
-              disabled={isPending}
+              disabled={
+                isPending ||
+                !refundDetail ||
+                (refundDetail.cards.length > 0 && refundCardIds.length === 0)
+              }
               className="bg-green-600 hover:bg-green-700"
             >
               {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
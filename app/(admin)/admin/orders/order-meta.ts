@@ -32,6 +32,10 @@ export const orderStatusConfig: Record<
     label: "已退款",
     color: "bg-rose-100 text-rose-700 dark:bg-rose-900 dark:text-rose-300",
   },
+  partially_refunded: {
+    label: "部分退款",
+    color: "bg-pink-100 text-pink-700 dark:bg-pink-900 dark:text-pink-300",
+  },
 };
 
 export const paymentMethodLabels: Record<PaymentMethod, string> = {
@@ -313,6 +313,7 @@ function OrdersTableView({
                     refundReason={order.refundReason}
                     refundEnabled={refundEnabled}
                     refundMode={refundMode}
+                    paymentMethod={order.paymentMethod}
                   />
                 </TableCell>
               </TableRow>
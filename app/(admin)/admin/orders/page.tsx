@@ -18,6 +18,7 @@ import {
 } from "@/lib/db";
 
 import { OrdersClient } from "./orders-client";
+import { ReconcileButton } from "./reconcile-button";
 import {
   buildAdminOrdersHref,
   DEFAULT_ADMIN_ORDERS_PAGE_SIZE,
@@ -98,13 +99,16 @@ export default async function OrdersPage({ searchParams }: OrdersPageProps) {
     <div className="space-y-6">
       <div className="space-y-4">
         {/* Header */}
-        <div>
-          <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">
-            订单管理
-          </h1>
-          <p className="text-zinc-600 dark:text-zinc-400">
-            查看和管理所有订单
-          </p>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">
+              订单管理
+            </h1>
+            <p className="text-zinc-600 dark:text-zinc-400">
+              查看和管理所有订单
+            </p>
+          </div>
+          <ReconcileButton />
         </div>
 
         {/* Stats */}
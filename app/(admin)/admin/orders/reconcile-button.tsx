@@ -0,0 +1,140 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Loader2, Scale } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { runPaymentReconciliation } from "@/lib/actions/reconciliation";
+import type { ReconcileMismatchKind, ReconcileReport } from "@/lib/payment/reconcile";
+
+const mismatchKindLabels: Record<ReconcileMismatchKind, string> = {
+  amount_mismatch: "金额不一致",
+  stock_unavailable: "库存已释放",
+  complete_failed: "补单失败",
+};
+
+/**
+ * 支付对账：向支付通道查询待支付与近期过期订单，补发已支付订单并展示差异报告
+ */
+export function ReconcileButton() {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [report, setReport] = useState<ReconcileReport | null>(null);
+
+  const handleReconcile = () => {
+    startTransition(async () => {
+      const result = await runPaymentReconciliation();
+      if (!result.success || !result.report) {
+        toast.error(result.message);
+        return;
+      }
+
+      toast.success(result.message);
+      setReport(result.report);
+      if (result.report.completed.length > 0) {
+        router.refresh();
+      }
+    });
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={handleReconcile} disabled={isPending}>
+        {isPending ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <Scale className="mr-2 h-4 w-4" />
+        )}
+        支付对账
+      </Button>
+
+      <Dialog open={report !== null} onOpenChange={(open) => !open && setReport(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>对账结果</DialogTitle>
+            <DialogDescription>
+              已核对 {report?.checked ?? 0} 笔订单：补单 {report?.completed.length ?? 0} 笔，
+              未支付 {report?.unpaid ?? 0} 笔，查询失败 {report?.queryFailed.length ?? 0} 笔
+            </DialogDescription>
+          </DialogHeader>
+
+          {report && report.completed.length > 0 ? (
+            <div className="space-y-1 text-sm">
+              <p className="font-medium">已补单</p>
+              <p className="break-all font-mono text-xs text-muted-foreground">
+                {report.completed.join("、")}
+              </p>
+            </div>
+          ) : null}
+
+          {report && report.mismatches.length > 0 ? (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">差异报告（需人工处理）</p>
+              <div className="max-h-80 overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>订单号</TableHead>
+                      <TableHead>类型</TableHead>
+                      <TableHead className="text-right">订单金额</TableHead>
+                      <TableHead className="text-right">网关金额</TableHead>
+                      <TableHead>说明</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.mismatches.map((item) => (
+                      <TableRow key={item.orderNo}>
+                        <TableCell className="font-mono text-xs">{item.orderNo}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{mismatchKindLabels[item.kind]}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{item.localAmount}</TableCell>
+                        <TableCell className="text-right">{item.gatewayAmount || "-"}</TableCell>
+                        <TableCell className="text-xs text-muted-foreground">{item.message}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">未发现金额或状态差异</p>
+          )}
+
+          {report && report.queryFailed.length > 0 ? (
+            <details className="text-sm">
+              <summary className="cursor-pointer text-muted-foreground">
+                查询失败的订单（{report.queryFailed.length}）
+              </summary>
+              <ul className="mt-2 space-y-1 text-xs text-muted-foreground">
+                {report.queryFailed.map((item) => (
+                  <li key={item.orderNo}>
+                    <span className="font-mono">{item.orderNo}</span>：{item.message}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          ) : null}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import type { RefundCardPolicy } from "@/lib/db";
+import {
+  computeRefundAmount,
+  formatCents,
+  refundCardPolicyLabels,
+  type RefundOrderLine,
+} from "@/lib/refunds";
+
+export interface RefundDetail {
+  totalAmount: string;
+  refundedAmount: string;
+  cards: { id: string; content: string; productId: string | null; variantId: string | null }[];
+  lines: (RefundOrderLine & { productName: string; refundCardPolicy: RefundCardPolicy | null })[];
+}
+
+/**
+ * 退款卡密选择：勾选需要退款的卡密，按比例实时计算退款金额（与服务端使用同一计算函数）
+ */
+export function RefundCardPicker({
+  detail,
+  selectedIds,
+  onChange,
+  disabled,
+}: {
+  detail: RefundDetail;
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+  disabled?: boolean;
+}) {
+  const selected = new Set(selectedIds);
+  const { amountCents, isFull } = computeRefundAmount({
+    totalAmount: detail.totalAmount,
+    refundedAmount: detail.refundedAmount,
+    lines: detail.lines,
+    soldCards: detail.cards,
+    selectedCardIds: selectedIds,
+  });
+  const productNameOf = (card: RefundDetail["cards"][number]) =>
+    detail.lines.find(
+      (line) => line.productId === card.productId && line.variantId === card.variantId
+    )?.productName;
+  const showProductName = detail.lines.length > 1;
+
+  const toggle = (id: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    onChange(detail.cards.filter((card) => next.has(card.id)).map((card) => card.id));
+  };
+
+  if (detail.cards.length === 0) {
+    return (
+      <div className="rounded-lg bg-muted p-3 text-sm text-muted-foreground">
+        订单上没有可退款的卡密，将退还剩余金额 {formatCents(amountCents)} LDC
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">
+          退款卡密（{selectedIds.length}/{detail.cards.length}）
+        </span>
+        <button
+          type="button"
+          className="text-xs text-primary hover:underline disabled:opacity-50"
+          disabled={disabled}
+          onClick={() =>
+            onChange(
+              selectedIds.length === detail.cards.length ? [] : detail.cards.map((card) => card.id)
+            )
+          }
+        >
+          {selectedIds.length === detail.cards.length ? "全不选" : "全选"}
+        </button>
+      </div>
+      <div className="max-h-48 space-y-1 overflow-auto rounded-lg border p-2">
+        {detail.cards.map((card) => (
+          <label
+            key={card.id}
+            className="flex cursor-pointer items-center gap-2 rounded px-1 py-1 text-xs hover:bg-muted"
+          >
+            <input
+              type="checkbox"
+              checked={selected.has(card.id)}
+              onChange={(e) => toggle(card.id, e.target.checked)}
+              disabled={disabled}
+              className="h-4 w-4 rounded border-input bg-background accent-primary disabled:cursor-not-allowed disabled:opacity-50"
+            />
+            <code className="min-w-0 flex-1 truncate font-mono" title={card.content}>
+              {card.content}
+            </code>
+            {showProductName ? (
+              <span className="shrink-0 text-muted-foreground">{productNameOf(card) ?? "—"}</span>
+            ) : null}
+          </label>
+        ))}
+      </div>
+      <div className="flex items-center justify-between rounded-lg bg-muted p-3 text-sm">
+        <span className="text-muted-foreground">
+          {isFull ? "全额退款（剩余金额）" : "部分退款（按比例）"}
+          {Number(detail.refundedAmount) > 0 ? `，已退 ${detail.refundedAmount}` : ""}
+        </span>
+        <span className="font-semibold">{formatCents(amountCents)} LDC</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 退款卡密处理方式：默认按商品设置，管理员可为本次退款统一指定
+ */
+export function RefundCardPolicySelect({
+  value,
+  onChange,
+  detail,
+  disabled,
+}: {
+  value: RefundCardPolicy | undefined;
+  onChange: (value: RefundCardPolicy | undefined) => void;
+  detail?: RefundDetail | null;
+  disabled?: boolean;
+}) {
+  const productPolicies = [
+    ...new Set(
+      (detail?.lines ?? []).map((line) => line.refundCardPolicy).filter((policy) => policy !== null)
+    ),
+  ];
+  const productPolicyLabel =
+    productPolicies.length > 0
+      ? productPolicies.map((policy) => refundCardPolicyLabels[policy]).join(" / ")
+      : null;
+
+  return (
+    <div className="space-y-1">
+      <label htmlFor="refund-card-policy" className="text-sm font-medium">
+        退款卡密处理
+      </label>
+      <select
+        id="refund-card-policy"
+        value={value ?? ""}
+        disabled={disabled}
+        onChange={(e) => onChange((e.target.value || undefined) as RefundCardPolicy | undefined)}
+        className="h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+      >
+        <option value="">
+          按商品设置{productPolicyLabel ? `（${productPolicyLabel}）` : ""}
+        </option>
+        {Object.entries(refundCardPolicyLabels).map(([policy, label]) => (
+          <option key={policy} value={policy}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <p className="text-xs text-muted-foreground">
+        卡密内容已对买家可见，放回可用库存会被再次售出
+      </p>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 export const dynamic = "force-dynamic";
 
 import { db, orders, cards, products } from "@/lib/db";
-import { eq, sql, and } from "drizzle-orm";
+import { eq, sql, and, inArray } from "drizzle-orm";
 import {
   Card,
   CardAction,
@@ -24,15 +24,20 @@ import {
   CreditCard,
   Megaphone,
   Plus,
+  PieChart,
+  BarChart3,
 } from "lucide-react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { getStatsTimeZone, getTodayRangeSql } from "@/lib/time/stats";
 import { Table, TableBody, TableCell, TableRow } from "@/components/ui/table";
+import { MiniBarChart } from "@/components/admin/mini-bar-chart";
 import { getSystemSettings } from "@/lib/actions/system-settings";
+import { CARD_EXPIRING_SOON_DAYS, sellableCardCondition } from "@/lib/card-expiry";
 
-const LOW_STOCK_THRESHOLD = 10;
 const LAST_N_DAYS = 7;
+// 商品未设置预警阈值（0）时，仪表盘沿用的默认阈值
+const LOW_STOCK_THRESHOLD = 10;
 
 type TrendDirection = "up" | "down" | "flat";
 
@@ -74,45 +79,6 @@ function formatDateTimeInTimeZone(date: Date, timeZone: string): string {
   return dtf.format(date);
 }
 
-function MiniBarChart(props: {
-  rows: Array<{ label: string; value: number }>;
-  highlightIndex?: number;
-  ariaLabel?: string;
-}) {
-  const { rows, highlightIndex, ariaLabel } = props;
-  const max = rows.reduce((acc, row) => Math.max(acc, row.value), 0);
-
-  return (
-    <div className="w-full" aria-label={ariaLabel} role="img">
-      <div className="flex h-20 items-end gap-1.5">
-        {rows.map((row, index) => {
-          const percent = max > 0 ? (row.value / max) * 100 : 0;
-          const isHighlight = highlightIndex === index;
-          return (
-            <div key={row.label} className="flex min-w-0 flex-1 flex-col items-center gap-1">
-              <div className="relative h-16 w-full">
-                <div
-                  className="absolute bottom-0 w-full rounded-md bg-zinc-200/70 dark:bg-zinc-800/70"
-                  style={{ height: `${Math.max(6, percent)}%` }}
-                  title={`${row.label}: ${row.value.toFixed(2)}`}
-                />
-                {isHighlight ? (
-                  <div
-                    className="absolute bottom-0 w-full rounded-md bg-emerald-500/70"
-                    style={{ height: `${Math.max(6, percent)}%` }}
-                    aria-hidden="true"
-                  />
-                ) : null}
-              </div>
-              <span className="text-[10px] text-muted-foreground">{row.label}</span>
-            </div>
-          );
-        })}
-      </div>
-    </div>
-  );
-}
-
 async function getDashboardStats() {
   // 今日销售统计（统计口径由 STATS_TIMEZONE 控制，默认 Asia/Shanghai）
   const statsTimeZone = getStatsTimeZone();
@@ -127,18 +93,20 @@ async function getDashboardStats() {
     totalProducts,
     totalStock,
     lowStockProducts,
+    expiringCards,
     recentOrders,
     salesLastNDays,
   ] = await Promise.all([
+    // 今日销售：已完成与部分退款的订单，按实收（扣除已退款金额）统计，与利润报表口径一致
     db
       .select({
         count: sql<number>`count(*)::int`,
-        total: sql<string>`COALESCE(sum(total_amount::numeric), 0)::text`,
+        total: sql<string>`COALESCE(sum(total_amount::numeric - refunded_amount::numeric), 0)::text`,
       })
       .from(orders)
       .where(
         and(
-          eq(orders.status, "completed"),
+          inArray(orders.status, ["completed", "partially_refunded"]),
           sql`${orders.paidAt} >= ${todayStart} AND ${orders.paidAt} < ${tomorrowStart}`
         )
       ),
@@ -157,22 +125,37 @@ async function getDashboardStats() {
       .select({ count: sql<number>`count(*)::int` })
       .from(products)
       .where(eq(products.isActive, true)),
-    // 总可用库存
+    // 总可售库存（不含已过期卡密）
     db
       .select({ count: sql<number>`count(*)::int` })
       .from(cards)
-      .where(eq(cards.status, "available")),
-    // 库存预警（可用库存少于阈值的商品）
+      .where(sellableCardCondition()),
+    // 库存预警（可售库存低于商品预警阈值的商品；阈值为 0 只表示不发通知，面板按默认阈值展示）
     db.execute(sql`
-      SELECT p.id, p.name, COUNT(c.id)::int as stock
+      SELECT p.id, p.name,
+        COALESCE(NULLIF(p.low_stock_threshold, 0), ${LOW_STOCK_THRESHOLD})::int as threshold,
+        COUNT(c.id)::int as stock
       FROM products p
       LEFT JOIN cards c ON c.product_id = p.id AND c.status = 'available'
+        AND (c.expires_at IS NULL OR c.expires_at > NOW())
       WHERE p.is_active = true
-      GROUP BY p.id, p.name
-      HAVING COUNT(c.id) < ${LOW_STOCK_THRESHOLD}
+      GROUP BY p.id, p.name, p.low_stock_threshold
+      HAVING COUNT(c.id) < COALESCE(NULLIF(p.low_stock_threshold, 0), ${LOW_STOCK_THRESHOLD})
       ORDER BY COUNT(c.id) ASC
       LIMIT 6
     `),
+    // 即将过期的可售卡密（按商品汇总）
+    db.execute(sql`
+      SELECT p.id, p.name, COUNT(c.id)::int as count, MIN(c.expires_at) as earliest
+      FROM cards c
+      JOIN products p ON p.id = c.product_id
+      WHERE c.status = 'available'
+        AND c.expires_at > NOW()
+        AND c.expires_at <= NOW() + (${CARD_EXPIRING_SOON_DAYS} * interval '1 day')
+      GROUP BY p.id, p.name
+      ORDER BY MIN(c.expires_at) ASC
+      LIMIT 6
+    `),
     // 最近订单（用于运营快速回看）
     db.query.orders.findMany({
       columns: {
@@ -200,9 +183,9 @@ async function getDashboardStats() {
         SELECT
           date_trunc('day', ${orders.paidAt} AT TIME ZONE ${statsTimeZone}) AS local_day,
           count(*)::int AS count,
-          COALESCE(sum(${orders.totalAmount}::numeric), 0)::text AS total
+          COALESCE(sum(${orders.totalAmount}::numeric - ${orders.refundedAmount}::numeric), 0)::text AS total
         FROM ${orders}
-        WHERE ${orders.status} = 'completed'
+        WHERE ${orders.status} IN ('completed', 'partially_refunded')
           AND ${orders.paidAt} >= (
             date_trunc('day', NOW() AT TIME ZONE ${statsTimeZone}) - (${LAST_N_DAYS - 1} * interval '1 day')
           ) AT TIME ZONE ${statsTimeZone}
@@ -248,8 +231,16 @@ async function getDashboardStats() {
       (lowStockProducts as unknown as Array<{
         id: string;
         name: string;
+        threshold: number;
         stock: number;
       }>) || [],
+    expiringCards:
+      (expiringCards as unknown as Array<{
+        id: string;
+        name: string;
+        count: number;
+        earliest: string | Date;
+      }>) || [],
     recentOrders,
     totalProducts: totalProducts[0]?.count || 0,
     totalStock: totalStock[0]?.count || 0,
@@ -287,6 +278,10 @@ const statusConfig: Record<string, { label: string; variant: "default" | "second
     label: "已退款",
     variant: "destructive",
   },
+  partially_refunded: {
+    label: "部分退款",
+    variant: "outline",
+  },
 };
 
 export default async function AdminDashboard() {
@@ -314,7 +309,7 @@ export default async function AdminDashboard() {
               订单过期：{stats.orderExpireMinutes} 分钟
             </Badge>
             <Badge variant="secondary">
-              库存预警：&lt; {LOW_STOCK_THRESHOLD}
+              库存预警：按商品阈值（默认 &lt; {LOW_STOCK_THRESHOLD}）
             </Badge>
           </div>
         </div>
@@ -338,6 +333,18 @@ export default async function AdminDashboard() {
               订单
             </Link>
           </Button>
+          <Button asChild size="sm" variant="outline" className="gap-2">
+            <Link href="/admin/analytics">
+              <BarChart3 className="h-4 w-4" />
+              销售分析
+            </Link>
+          </Button>
+          <Button asChild size="sm" variant="outline" className="gap-2">
+            <Link href="/admin/reports">
+              <PieChart className="h-4 w-4" />
+              利润报表
+            </Link>
+          </Button>
           <Button asChild size="sm" variant="outline" className="gap-2">
             <Link href="/admin/announcements">
               <Megaphone className="h-4 w-4" />
@@ -624,7 +631,7 @@ export default async function AdminDashboard() {
             <div className="space-y-1">
               <CardTitle className="text-base">库存预警</CardTitle>
               <CardDescription>
-                可用库存少于 {LOW_STOCK_THRESHOLD} 的商品
+                可售库存低于商品预警阈值（未设置时为 {LOW_STOCK_THRESHOLD}）的商品
               </CardDescription>
             </div>
             <Button asChild size="sm" variant="ghost">
@@ -637,7 +644,7 @@ export default async function AdminDashboard() {
                 {stats.lowStockProducts.map((product) => {
                   const ratio = Math.min(
                     1,
-                    Math.max(0, product.stock / LOW_STOCK_THRESHOLD)
+                    Math.max(0, product.stock / product.threshold)
                   );
                   return (
                     <Link
@@ -651,7 +658,7 @@ export default async function AdminDashboard() {
                             {product.name}
                           </p>
                           <p className="mt-1 text-xs text-muted-foreground">
-                            可用库存：{product.stock}
+                            可售库存：{product.stock} / 预警阈值 {product.threshold}
                           </p>
                         </div>
                         <Badge
@@ -680,6 +687,27 @@ export default async function AdminDashboard() {
                 </p>
               </div>
             )}
+
+            {stats.expiringCards.length > 0 ? (
+              <div className="mt-4 space-y-2 border-t pt-4">
+                <p className="text-xs font-medium text-muted-foreground">
+                  {CARD_EXPIRING_SOON_DAYS} 天内过期的卡密
+                </p>
+                {stats.expiringCards.map((product) => (
+                  <Link
+                    key={product.id}
+                    href={`/admin/cards?product=${product.id}&status=available`}
+                    className="flex items-center justify-between gap-3 rounded-lg border px-3 py-2 text-sm transition-colors hover:bg-muted/35"
+                  >
+                    <span className="min-w-0 truncate">{product.name}</span>
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      {product.count} 张 · 最早{" "}
+                      {formatDateTimeInTimeZone(new Date(product.earliest), stats.statsTimeZone)}
+                    </span>
+                  </Link>
+                ))}
+              </div>
+            ) : null}
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,229 @@
+export const dynamic = "force-dynamic";
+
+import Link from "next/link";
+import { ArrowLeft, ArrowRight, Search, Webhook } from "lucide-react";
+
+import { getPaymentNotifyLogs } from "@/lib/actions/payment-notify-logs";
+import type { PaymentNotifyOutcome } from "@/lib/payment/notify-log";
+import { LocalTime } from "@/components/time/local-time";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+import { ReplayButton } from "./replay-button";
+
+const outcomeMeta: Record<PaymentNotifyOutcome, { label: string; className: string }> = {
+  processed: { label: "已发货", className: "bg-emerald-100 text-emerald-700" },
+  duplicate: { label: "重复投递", className: "bg-sky-100 text-sky-700" },
+  ignored: { label: "已忽略", className: "bg-zinc-100 text-zinc-600" },
+  rejected: { label: "已拒绝", className: "bg-amber-100 text-amber-700" },
+  failed: { label: "处理失败", className: "bg-red-100 text-red-700" },
+};
+
+interface PaymentCallbacksPageProps {
+  searchParams: Promise<{
+    orderNo?: string;
+    outcome?: string;
+    page?: string;
+  }>;
+}
+
+function buildHref(params: { orderNo?: string; outcome?: string; page?: number }): string {
+  const query = new URLSearchParams();
+  if (params.orderNo) query.set("orderNo", params.orderNo);
+  if (params.outcome) query.set("outcome", params.outcome);
+  if (params.page && params.page > 1) query.set("page", String(params.page));
+  const search = query.toString();
+  return search ? `/admin/payment-callbacks?${search}` : "/admin/payment-callbacks";
+}
+
+export default async function PaymentCallbacksPage({ searchParams }: PaymentCallbacksPageProps) {
+  const params = await searchParams;
+  const orderNo = params.orderNo?.trim() || "";
+  const outcome = params.outcome && params.outcome in outcomeMeta ? params.outcome : "";
+  const page = Math.max(1, Number.parseInt(params.page || "1", 10) || 1);
+
+  const result = await getPaymentNotifyLogs({ page, orderNo, outcome });
+  const totalPages = Math.max(1, Math.ceil(result.total / result.pageSize));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">支付回调</h1>
+        <p className="text-zinc-600 dark:text-zinc-400">
+          每次支付回调的验签、金额校验与订单处理结果（只读记录，sign 已脱敏）
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="space-y-4">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Webhook className="h-5 w-5" />
+            回调记录 ({result.total})
+          </CardTitle>
+          <form className="flex flex-wrap items-center gap-2" action="/admin/payment-callbacks">
+            <Input
+              name="orderNo"
+              defaultValue={orderNo}
+              placeholder="按订单号筛选"
+              className="h-9 w-64"
+            />
+            <select
+              name="outcome"
+              defaultValue={outcome}
+              aria-label="处理结果"
+              className="h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+            >
+              <option value="">全部结果</option>
+              {Object.entries(outcomeMeta).map(([value, meta]) => (
+                <option key={value} value={value}>
+                  {meta.label}
+                </option>
+              ))}
+            </select>
+            <Button type="submit" variant="outline" size="sm" className="h-9 gap-2">
+              <Search className="h-4 w-4" />
+              筛选
+            </Button>
+          </form>
+        </CardHeader>
+        <CardContent>
+          {result.items.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>时间</TableHead>
+                    <TableHead>订单号</TableHead>
+                    <TableHead>通道</TableHead>
+                    <TableHead className="text-center">验签</TableHead>
+                    <TableHead className="text-right">金额</TableHead>
+                    <TableHead className="text-center">金额校验</TableHead>
+                    <TableHead>订单状态</TableHead>
+                    <TableHead>结果</TableHead>
+                    <TableHead>说明</TableHead>
+                    <TableHead className="text-right">操作</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.items.map((item) => {
+                    const meta = outcomeMeta[item.outcome as PaymentNotifyOutcome];
+                    return (
+                      <TableRow key={item.id}>
+                        <TableCell className="whitespace-nowrap text-sm text-zinc-500">
+                          <LocalTime value={item.createdAt} mode="short" />
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-mono text-xs">{item.orderNo ?? "-"}</div>
+                          {item.tradeNo ? (
+                            <div className="font-mono text-xs text-zinc-500">{item.tradeNo}</div>
+                          ) : null}
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm">{item.paymentMethod}</div>
+                          <div className="text-xs text-zinc-500">
+                            {item.replayOfId ? `重放 · ${item.replayedBy ?? "-"}` : item.route}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-center">
+                          {item.verified ? (
+                            <Badge className="bg-emerald-100 text-emerald-700">通过</Badge>
+                          ) : (
+                            <Badge variant="outline">未通过</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{item.money ?? "-"}</TableCell>
+                        <TableCell className="text-center text-sm">
+                          {item.amountCheck === "passed"
+                            ? "一致"
+                            : item.amountCheck === "mismatch"
+                              ? "不一致"
+                              : "-"}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-sm">
+                          {item.orderStatusBefore
+                            ? `${item.orderStatusBefore} → ${item.orderStatusAfter ?? "-"}`
+                            : "-"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={meta?.className}>{meta?.label ?? item.outcome}</Badge>
+                          <div className="mt-1 text-xs text-zinc-500">HTTP {item.httpStatus}</div>
+                        </TableCell>
+                        <TableCell className="max-w-xs text-xs text-zinc-600 dark:text-zinc-400">
+                          <div>{item.message}</div>
+                          <details className="mt-1">
+                            <summary className="cursor-pointer text-zinc-500">回调参数</summary>
+                            <pre className="mt-1 whitespace-pre-wrap break-all font-mono">
+                              {JSON.stringify(item.params, null, 2)}
+                            </pre>
+                            {item.requestId ? (
+                              <div className="mt-1 font-mono">requestId: {item.requestId}</div>
+                            ) : null}
+                          </details>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {item.verified && item.outcome === "failed" ? (
+                            <ReplayButton logId={item.id} orderNo={item.orderNo} />
+                          ) : null}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="py-12 text-center">
+              <Webhook className="mx-auto h-12 w-12 text-zinc-300" />
+              <p className="mt-4 text-zinc-500">暂无回调记录</p>
+            </div>
+          )}
+
+          {totalPages > 1 ? (
+            <div className="flex items-center justify-between pt-4">
+              {page <= 1 ? (
+                <Button variant="outline" disabled className="gap-2">
+                  <ArrowLeft className="h-4 w-4" />
+                  上一页
+                </Button>
+              ) : (
+                <Button asChild variant="outline" className="gap-2">
+                  <Link href={buildHref({ orderNo, outcome, page: page - 1 })}>
+                    <ArrowLeft className="h-4 w-4" />
+                    上一页
+                  </Link>
+                </Button>
+              )}
+              <span className="text-sm text-zinc-500">
+                第 {page} / {totalPages} 页
+              </span>
+              {page >= totalPages ? (
+                <Button variant="outline" disabled className="gap-2">
+                  下一页
+                  <ArrowRight className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button asChild variant="outline" className="gap-2">
+                  <Link href={buildHref({ orderNo, outcome, page: page + 1 })}>
+                    下一页
+                    <ArrowRight className="h-4 w-4" />
+                  </Link>
+                </Button>
+              )}
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
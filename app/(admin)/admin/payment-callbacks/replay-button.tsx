@@ -0,0 +1,44 @@
+"use client";
+
+import { useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Loader2, RotateCw } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { replayPaymentNotifyLog } from "@/lib/actions/payment-notify-logs";
+
+/**
+ * 重放处理失败的支付回调（已验签的存储记录，重复执行不会重复发货）
+ */
+export function ReplayButton({ logId, orderNo }: { logId: string; orderNo: string | null }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const handleReplay = () => {
+    if (!confirm(`确定要重放订单 ${orderNo ?? "-"} 的支付回调吗？`)) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await replayPaymentNotifyLog(logId);
+      if (result.success) {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+      router.refresh();
+    });
+  };
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleReplay} disabled={isPending}>
+      {isPending ? (
+        <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+      ) : (
+        <RotateCw className="mr-1 h-3 w-3" />
+      )}
+      重放
+    </Button>
+  );
+}
@@ -33,6 +33,9 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
+import { PriceTiersField } from "@/components/admin/price-tiers-field";
+import { refundCardPolicyLabels } from "@/lib/refunds";
+import { ProductVariantsCard } from "./product-variants-card";
 import { toast } from "sonner";
 import { Loader2, ArrowLeft, Package, Save } from "lucide-react";
 import Link from "next/link";
@@ -66,6 +69,9 @@ export default function EditProductPage({ params }: EditProductPageProps) {
       sortOrder: 0,
       minQuantity: 1,
       maxQuantity: 10,
+      refundCardPolicy: "quarantine",
+      lowStockThreshold: 0,
+      priceTiers: [],
     },
   });
 
@@ -122,6 +128,12 @@ export default function EditProductPage({ params }: EditProductPageProps) {
           sortOrder: product.sortOrder,
           minQuantity: product.minQuantity,
           maxQuantity: product.maxQuantity,
+          refundCardPolicy: product.refundCardPolicy,
+          lowStockThreshold: product.lowStockThreshold,
+          priceTiers: product.priceTiers.map((tier) => ({
+            minQuantity: tier.minQuantity,
+            price: parseFloat(tier.price),
+          })),
         });
 
         setIsLoading(false);
@@ -420,6 +432,7 @@ export default function EditProductPage({ params }: EditProductPageProps) {
                     />
                   </div>
                   <FormDescription>原价留空则不显示折扣</FormDescription>
+                  <PriceTiersField control={form.control} />
                 </CardContent>
               </Card>
 
@@ -522,6 +535,58 @@ export default function EditProductPage({ params }: EditProductPageProps) {
                       </FormItem>
                     )}
                   />
+
+                  <FormField
+                    control={form.control}
+                    name="refundCardPolicy"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>退款卡密处理</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger className="w-full">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent align="start">
+                            {Object.entries(refundCardPolicyLabels).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          退款后卡密的去向；卡密已对买家可见，放回库存会被再次售出。审批退款时可单独指定
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="lowStockThreshold"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>库存预警阈值</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            {...field}
+                            onChange={(e) =>
+                              field.onChange(Math.max(0, parseInt(e.target.value, 10) || 0))
+                            }
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          可售库存低于该值时发送预警通知，补货后恢复；填 0 不发送通知
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </CardContent>
               </Card>
             </div>
@@ -549,6 +614,8 @@ export default function EditProductPage({ params }: EditProductPageProps) {
           </div>
         </form>
       </Form>
+
+      <ProductVariantsCard productId={id} />
     </div>
   );
 }
@@ -0,0 +1,395 @@
+"use client";
+
+import { useCallback, useEffect, useState, useTransition } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Layers, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  createProductVariant,
+  deleteProductVariant,
+  getProductVariants,
+  updateProductVariant,
+  type AdminProductVariant,
+} from "@/lib/actions/product-variants";
+import { productVariantSchema, type ProductVariantInput } from "@/lib/validations/product";
+import { buildAdminCardsHref } from "@/app/(admin)/admin/cards/cards-url";
+
+const emptyVariant: ProductVariantInput = {
+  name: "",
+  price: 0,
+  minQuantity: 1,
+  maxQuantity: 10,
+  sortOrder: 0,
+  isActive: true,
+};
+
+function VariantDialog({
+  open,
+  onOpenChange,
+  productId,
+  variant,
+  onSaved,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  productId: string;
+  variant: AdminProductVariant | null;
+  onSaved: () => void;
+}) {
+  const [isPending, startTransition] = useTransition();
+
+  const form = useForm<ProductVariantInput>({
+    resolver: zodResolver(productVariantSchema),
+    defaultValues: emptyVariant,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(
+      variant
+        ? {
+            name: variant.name,
+            price: parseFloat(variant.price),
+            minQuantity: variant.minQuantity,
+            maxQuantity: variant.maxQuantity,
+            sortOrder: variant.sortOrder,
+            isActive: variant.isActive,
+          }
+        : emptyVariant
+    );
+  }, [open, variant, form]);
+
+  const onSubmit = (values: ProductVariantInput) => {
+    startTransition(async () => {
+      const result = variant
+        ? await updateProductVariant(variant.id, values)
+        : await createProductVariant(productId, values);
+
+      if (result.success) {
+        toast.success(result.message);
+        onOpenChange(false);
+        onSaved();
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{variant ? "编辑规格" : "添加规格"}</DialogTitle>
+          <DialogDescription>
+            规格拥有独立的售价、限购与卡密库存
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>规格名称 *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="如：月卡 / 年卡" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>售价 *</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step={1}
+                        min={1}
+                        value={field.value}
+                        onChange={(e) => field.onChange(parseInt(e.target.value, 10) || 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="sortOrder"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>排序权重</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        value={field.value}
+                        onChange={(e) => field.onChange(parseInt(e.target.value, 10) || 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="minQuantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>最小购买数量</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={field.value}
+                        onChange={(e) => field.onChange(parseInt(e.target.value, 10) || 1)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="maxQuantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>最大购买数量</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={field.value}
+                        onChange={(e) => field.onChange(parseInt(e.target.value, 10) || 10)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <FormLabel>上架该规格</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                取消
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    保存中...
+                  </>
+                ) : (
+                  "保存"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * 商品规格管理（编辑商品页）
+ * 为什么独立于商品表单保存：规格各自挂载卡密库存，逐条增删改更安全，也避免误覆盖已售规格。
+ */
+export function ProductVariantsCard({ productId }: { productId: string }) {
+  const [variants, setVariants] = useState<AdminProductVariant[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingVariant, setEditingVariant] = useState<AdminProductVariant | null>(null);
+  const [isDeleting, startDelete] = useTransition();
+
+  const loadVariants = useCallback(async () => {
+    try {
+      setVariants(await getProductVariants(productId));
+    } catch (error) {
+      console.error("加载商品规格失败:", error);
+      toast.error("加载商品规格失败");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [productId]);
+
+  useEffect(() => {
+    loadVariants();
+  }, [loadVariants]);
+
+  const openDialog = (variant: AdminProductVariant | null) => {
+    setEditingVariant(variant);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = (variant: AdminProductVariant) => {
+    if (!confirm(`确定要删除规格「${variant.name}」吗？该规格下的可用卡密会一并删除。`)) {
+      return;
+    }
+
+    startDelete(async () => {
+      const result = await deleteProductVariant(variant.id);
+      if (result.success) {
+        toast.success(result.message);
+        await loadVariants();
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Layers className="h-5 w-5" />
+          商品规格
+        </CardTitle>
+        <CardDescription>
+          添加规格后，前台需选择规格下单，价格与限购以规格为准（不使用商品阶梯价），卡密需导入到具体规格
+        </CardDescription>
+        <CardAction>
+          <Button type="button" variant="outline" size="sm" onClick={() => openDialog(null)}>
+            <Plus className="mr-1 h-4 w-4" />
+            添加规格
+          </Button>
+        </CardAction>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : variants.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>规格</TableHead>
+                <TableHead className="text-right">售价</TableHead>
+                <TableHead className="text-center">限购</TableHead>
+                <TableHead className="text-center">库存（可用/锁定/已售）</TableHead>
+                <TableHead className="text-center">状态</TableHead>
+                <TableHead className="text-right">操作</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {variants.map((variant) => (
+                <TableRow key={variant.id}>
+                  <TableCell className="font-medium">{variant.name}</TableCell>
+                  <TableCell className="text-right">{variant.price} LDC</TableCell>
+                  <TableCell className="text-center">
+                    {variant.minQuantity}-{variant.maxQuantity}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <Link
+                      href={buildAdminCardsHref({ productId, variantId: variant.id })}
+                      className="hover:underline"
+                    >
+                      {variant.stock.available} / {variant.stock.locked} / {variant.stock.sold}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-center">
+                    {variant.isActive ? (
+                      <Badge className="bg-emerald-100 text-emerald-700">上架</Badge>
+                    ) : (
+                      <Badge variant="secondary">停用</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => openDialog(variant)}
+                      aria-label="编辑规格"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="text-muted-foreground hover:text-destructive"
+                      onClick={() => handleDelete(variant)}
+                      disabled={isDeleting}
+                      aria-label="删除规格"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            未设置规格，按商品本身的售价与库存销售
+          </p>
+        )}
+      </CardContent>
+
+      <VariantDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        productId={productId}
+        variant={editingVariant}
+        onSaved={loadVariants}
+      />
+    </Card>
+  );
+}
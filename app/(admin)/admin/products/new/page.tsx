@@ -32,6 +32,8 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
+import { PriceTiersField } from "@/components/admin/price-tiers-field";
+import { refundCardPolicyLabels } from "@/lib/refunds";
 import { toast } from "sonner";
 import { Loader2, ArrowLeft, Package } from "lucide-react";
 import Link from "next/link";
@@ -58,6 +60,9 @@ export default function NewProductPage() {
       sortOrder: 0,
       minQuantity: 1,
       maxQuantity: 10,
+      refundCardPolicy: "quarantine",
+      lowStockThreshold: 0,
+      priceTiers: [],
     },
   });
 
@@ -365,6 +370,7 @@ export default function NewProductPage() {
                     />
                   </div>
                   <FormDescription>原价留空则不显示折扣</FormDescription>
+                  <PriceTiersField control={form.control} />
                 </CardContent>
               </Card>
 
@@ -467,6 +473,58 @@ export default function NewProductPage() {
                       </FormItem>
                     )}
                   />
+
+                  <FormField
+                    control={form.control}
+                    name="refundCardPolicy"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>退款卡密处理</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger className="w-full">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent align="start">
+                            {Object.entries(refundCardPolicyLabels).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          退款后卡密的去向；卡密已对买家可见，放回库存会被再次售出。审批退款时可单独指定
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="lowStockThreshold"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>库存预警阈值</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            {...field}
+                            onChange={(e) =>
+                              field.onChange(Math.max(0, parseInt(e.target.value, 10) || 0))
+                            }
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          可售库存低于该值时发送预警通知，补货后恢复；填 0 不发送通知
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </CardContent>
               </Card>
             </div>
@@ -15,6 +15,7 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Plus, Pencil, Package, Eye, EyeOff } from "lucide-react";
 import { ProductActions } from "./product-actions";
+import { LocalTime } from "@/components/time/local-time";
 
 export default async function ProductsPage() {
   const products = await getAllProducts();
@@ -58,6 +59,7 @@ export default async function ProductsPage() {
                     <TableHead className="text-right">价格</TableHead>
                     <TableHead className="text-center">库存</TableHead>
                     <TableHead className="text-center">销量</TableHead>
+                    <TableHead className="text-center">催补货</TableHead>
                     <TableHead className="text-center">状态</TableHead>
                     <TableHead className="text-right">操作</TableHead>
                   </TableRow>
@@ -111,7 +113,7 @@ export default async function ProductsPage() {
                             variant={
                               product.stockStats.available === 0
                                 ? "destructive"
-                                : product.stockStats.available < 10
+                                : product.stockStats.available < (product.lowStockThreshold || 10)
                                 ? "secondary"
                                 : "default"
                             }
@@ -126,6 +128,30 @@ export default async function ProductsPage() {
                       <TableCell className="text-center">
                         {product.salesCount}
                       </TableCell>
+                      <TableCell className="text-center">
+                        <div className="flex flex-col items-center gap-1 text-xs">
+                          {product.restockStats.pending > 0 ? (
+                            <Badge variant="outline" className="border-amber-300 text-amber-700">
+                              {product.restockStats.pending} 人待通知
+                            </Badge>
+                          ) : (
+                            product.restockStats.notified === 0 && (
+                              <span className="text-zinc-400">-</span>
+                            )
+                          )}
+                          {product.restockStats.notified > 0 && (
+                            <span className="text-zinc-500">
+                              已通知 {product.restockStats.notified} 人
+                              {product.restockStats.lastNotifiedAt && (
+                                <>
+                                  {" · "}
+                                  <LocalTime value={product.restockStats.lastNotifiedAt} mode="short" />
+                                </>
+                              )}
+                            </span>
+                          )}
+                        </div>
+                      </TableCell>
                       <TableCell className="text-center">
                         {product.isActive ? (
                           <Badge className="bg-emerald-100 text-emerald-700">
@@ -2,6 +2,9 @@
 
 import { useEffect, useState, use } from "react";
 import { getClientRefundData, markOrderRefunded } from "@/lib/actions/orders";
+import type { RefundCardPolicy } from "@/lib/db";
+import { isRefundCardPolicy } from "@/lib/refunds";
+import { RefundCardPolicySelect } from "../../orders/refund-card-picker";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Loader2, CheckCircle2, XCircle, ArrowLeft } from "lucide-react";
@@ -9,12 +12,24 @@ import Link from "next/link";
 
 interface PageProps {
   params: Promise<{ orderId: string }>;
+  searchParams: Promise<{ cards?: string; cardPolicy?: string }>;
 }
 
-export default function RefundPage({ params }: PageProps) {
+function parseCardIds(value?: string): string[] | undefined {
+  // 未指定卡密时退还订单上剩余的全部卡密
+  const ids = value?.split(",").filter(Boolean);
+  return ids && ids.length > 0 ? ids : undefined;
+}
+
+export default function RefundPage({ params, searchParams }: PageProps) {
   const { orderId } = use(params);
+  const { cards, cardPolicy } = use(searchParams);
   const [status, setStatus] = useState<"loading" | "submitting" | "success" | "error">("loading");
   const [message, setMessage] = useState("");
+  // 默认沿用审批弹窗中选择的处理方式，确认退款成功前仍可调整
+  const [refundCardPolicy, setRefundCardPolicy] = useState<RefundCardPolicy | undefined>(
+    isRefundCardPolicy(cardPolicy) ? cardPolicy : undefined
+  );
   const [refundData, setRefundData] = useState<{
     apiUrl: string;
     pid: string;
@@ -25,7 +40,7 @@ export default function RefundPage({ params }: PageProps) {
 
   useEffect(() => {
     // 获取退款参数
-    getClientRefundData(orderId).then((result) => {
+    getClientRefundData(orderId, parseCardIds(cards)).then((result) => {
       if (result.success && result.data) {
         setRefundData(result.data);
         setStatus("submitting");
@@ -34,7 +49,7 @@ export default function RefundPage({ params }: PageProps) {
         setMessage(result.message);
       }
     });
-  }, [orderId]);
+  }, [orderId, cards]);
 
   useEffect(() => {
     // 自动提交表单
@@ -51,7 +66,12 @@ export default function RefundPage({ params }: PageProps) {
 
   const handleConfirmSuccess = async () => {
     setStatus("loading");
-    const result = await markOrderRefunded(orderId, "客户端表单提交退款成功");
+    const result = await markOrderRefunded(
+      orderId,
+      "客户端表单提交退款成功",
+      parseCardIds(cards),
+      refundCardPolicy
+    );
     if (result.success) {
       setStatus("success");
       setMessage("订单状态已更新为已退款");
@@ -172,6 +192,8 @@ export default function RefundPage({ params }: PageProps) {
 
           {/* 操作按钮 */}
           <div className="space-y-3">
+            <RefundCardPolicySelect value={refundCardPolicy} onChange={setRefundCardPolicy} />
+
             <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-200">
               <p className="font-medium">请根据上方响应结果选择操作：</p>
               <ul className="mt-1 list-inside list-disc text-xs">
@@ -0,0 +1,264 @@
+export const dynamic = "force-dynamic";
+
+import Link from "next/link";
+import { ArrowLeft, ArrowRight, Calendar, Download, PieChart } from "lucide-react";
+
+import { getProfitReport } from "@/lib/actions/reports";
+import {
+  formatMargin,
+  getProfitMetrics,
+  REPORT_DIMENSIONS,
+  REPORT_PERIODS,
+  reportDimensionLabels,
+  reportPeriodLabels,
+  type ReportDimension,
+  type ReportPeriod,
+} from "@/lib/reports";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+const tabClassName = "rounded-md border px-3 py-1 text-sm transition-colors hover:bg-muted";
+const tabActiveClassName = "border-primary bg-primary/5 font-medium";
+
+interface ReportsPageProps {
+  searchParams: Promise<{
+    period?: string;
+    date?: string;
+    dimension?: string;
+  }>;
+}
+
+function buildQuery(params: { period: ReportPeriod; date: string; dimension: ReportDimension }): string {
+  return new URLSearchParams(params).toString();
+}
+
+function buildHref(params: { period: ReportPeriod; date: string; dimension: ReportDimension }): string {
+  return `/admin/reports?${buildQuery(params)}`;
+}
+
+function formatAmount(value: number): string {
+  return value.toFixed(2);
+}
+
+export default async function ReportsPage({ searchParams }: ReportsPageProps) {
+  const params = await searchParams;
+  const result = await getProfitReport(params);
+
+  if (!result.success) {
+    return (
+      <div className="py-12 text-center">
+        <PieChart className="mx-auto h-12 w-12 text-zinc-300" />
+        <p className="mt-4 text-zinc-500">{result.message}</p>
+      </div>
+    );
+  }
+
+  const { report } = result;
+  const { window, dimension, totals } = report;
+  const current = { period: window.period, date: window.startDate, dimension };
+  const totalMetrics = getProfitMetrics(totals);
+
+  const kpis = [
+    { label: "实收", value: `${formatAmount(totals.revenue)} LDC` },
+    { label: "退款", value: `${formatAmount(totals.refunds)} LDC` },
+    { label: "成本", value: `${formatAmount(totals.cost)} LDC` },
+    {
+      label: "毛利",
+      value: `${formatAmount(totalMetrics.grossProfit)} LDC`,
+      hint: `毛利率 ${formatMargin(totalMetrics.margin)}`,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">利润报表</h1>
+          <p className="text-zinc-600 dark:text-zinc-400">
+            按订单支付时间统计实收、退款、进货成本与毛利（统计口径：{report.timeZone}）
+          </p>
+        </div>
+        <Button asChild variant="outline" className="gap-2">
+          <a href={`/api/admin/reports/export?${buildQuery(current)}`}>
+            <Download className="h-4 w-4" />
+            导出 CSV
+          </a>
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex flex-wrap items-center gap-2">
+            {REPORT_PERIODS.map((period) => (
+              <Link
+                key={period}
+                href={buildHref({ ...current, period })}
+                className={cn(tabClassName, period === window.period && tabActiveClassName)}
+              >
+                按{reportPeriodLabels[period]}
+              </Link>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button asChild variant="outline" size="sm" className="gap-1">
+              <Link href={buildHref({ ...current, date: window.prevDate })}>
+                <ArrowLeft className="h-4 w-4" />
+                上一{reportPeriodLabels[window.period]}
+              </Link>
+            </Button>
+            <span className="text-sm font-medium">{window.label}</span>
+            <Button asChild variant="outline" size="sm" className="gap-1">
+              <Link href={buildHref({ ...current, date: window.nextDate })}>
+                下一{reportPeriodLabels[window.period]}
+                <ArrowRight className="h-4 w-4" />
+              </Link>
+            </Button>
+            <form className="flex items-center gap-2" action="/admin/reports">
+              <input type="hidden" name="period" value={window.period} />
+              <input type="hidden" name="dimension" value={dimension} />
+              <Input
+                type="date"
+                name="date"
+                defaultValue={window.startDate}
+                aria-label="报表日期"
+                className="h-8 w-40"
+              />
+              <Button type="submit" variant="outline" size="sm" className="gap-1">
+                <Calendar className="h-4 w-4" />
+                跳转
+              </Button>
+            </form>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {kpis.map((kpi) => (
+          <Card key={kpi.label} className="py-4">
+            <CardContent className="px-4">
+              <p className="text-xs text-muted-foreground">{kpi.label}</p>
+              <p className="mt-1 text-xl font-semibold text-zinc-900 dark:text-zinc-50">{kpi.value}</p>
+              {kpi.hint ? <p className="mt-1 text-xs text-muted-foreground">{kpi.hint}</p> : null}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader className="space-y-4">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <PieChart className="h-5 w-5" />
+            按{reportDimensionLabels[dimension]}拆分
+          </CardTitle>
+          <div className="flex flex-wrap gap-2">
+            {REPORT_DIMENSIONS.map((item) => (
+              <Link
+                key={item}
+                href={buildHref({ ...current, dimension: item })}
+                className={cn(tabClassName, item === dimension && tabActiveClassName)}
+              >
+                {reportDimensionLabels[item]}
+              </Link>
+            ))}
+          </div>
+          {totals.uncostedUnits > 0 ? (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              {totals.uncostedUnits} 张已售卡密未填写进货单价（单条新增或导入时未填写），未计入成本，毛利可能偏高。
+            </p>
+          ) : null}
+          {dimension === "batch" ? (
+            <p className="text-xs text-muted-foreground">
+              批次维度按仍关联订单的卡密分摊实收与退款；退款后回收到库存的卡密不计入原批次。
+            </p>
+          ) : null}
+        </CardHeader>
+        <CardContent>
+          {report.rows.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{reportDimensionLabels[dimension]}</TableHead>
+                    <TableHead className="text-right">订单数</TableHead>
+                    <TableHead className="text-right">数量</TableHead>
+                    <TableHead className="text-right">实收</TableHead>
+                    <TableHead className="text-right">退款</TableHead>
+                    <TableHead className="text-right">成本</TableHead>
+                    <TableHead className="text-right">毛利</TableHead>
+                    <TableHead className="text-right">毛利率</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.rows.map((row) => {
+                    const metrics = getProfitMetrics(row);
+                    return (
+                      <TableRow key={row.key}>
+                        <TableCell>
+                          <div className="text-sm">{row.name}</div>
+                          {row.detail ? (
+                            <div className="text-xs text-zinc-500">{row.detail}</div>
+                          ) : null}
+                        </TableCell>
+                        <TableCell className="text-right">{row.orders}</TableCell>
+                        <TableCell className="text-right">{row.units}</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.revenue)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.refunds)}</TableCell>
+                        <TableCell className="text-right">
+                          {formatAmount(row.cost)}
+                          {row.uncostedUnits > 0 ? (
+                            <div className="text-xs text-amber-600 dark:text-amber-400">
+                              {row.uncostedUnits} 张未计成本
+                            </div>
+                          ) : null}
+                        </TableCell>
+                        <TableCell
+                          className={cn(
+                            "text-right font-medium",
+                            metrics.grossProfit < 0 && "text-rose-600 dark:text-rose-400"
+                          )}
+                        >
+                          {formatAmount(metrics.grossProfit)}
+                        </TableCell>
+                        <TableCell className="text-right">{formatMargin(metrics.margin)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>合计</TableCell>
+                    <TableCell className="text-right">{totals.orders}</TableCell>
+                    <TableCell className="text-right">{totals.units}</TableCell>
+                    <TableCell className="text-right">{formatAmount(totals.revenue)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(totals.refunds)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(totals.cost)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(totalMetrics.grossProfit)}</TableCell>
+                    <TableCell className="text-right">{formatMargin(totalMetrics.margin)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+          ) : (
+            <div className="py-12 text-center">
+              <PieChart className="mx-auto h-12 w-12 text-zinc-300" />
+              <p className="mt-4 text-zinc-500">该周期暂无已支付订单</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
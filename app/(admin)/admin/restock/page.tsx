@@ -0,0 +1,237 @@
+export const dynamic = "force-dynamic";
+
+import Link from "next/link";
+import { BellRing, Clock, Hourglass, PackageX, Upload } from "lucide-react";
+
+import { getRestockDemandBoard } from "@/lib/actions/restock-requests";
+import {
+  RESTOCK_DEMAND_WINDOWS,
+  getDaysOutOfStock,
+  getRestockVelocity,
+} from "@/lib/restock-demand";
+import { cn } from "@/lib/utils";
+import { MiniBarChart } from "@/components/admin/mini-bar-chart";
+import { StatsCard } from "@/components/admin/stats-card";
+import { LocalTime } from "@/components/time/local-time";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+import { buildAdminCardsHref } from "../cards/cards-url";
+import { RestockActions } from "./restock-actions";
+
+const tabClassName = "rounded-md border px-3 py-1 text-sm transition-colors hover:bg-muted";
+const tabActiveClassName = "border-primary bg-primary/5 font-medium";
+
+// 横轴最多显示的标签数
+const MAX_AXIS_LABELS = 10;
+
+interface RestockPageProps {
+  searchParams: Promise<{
+    days?: string;
+  }>;
+}
+
+export default async function RestockPage({ searchParams }: RestockPageProps) {
+  const params = await searchParams;
+  const result = await getRestockDemandBoard(params);
+
+  if (!result.success) {
+    return (
+      <div className="py-12 text-center">
+        <BellRing className="mx-auto h-12 w-12 text-zinc-300" />
+        <p className="mt-4 text-zinc-500">{result.message}</p>
+      </div>
+    );
+  }
+
+  const { days, dates, rows, timeZone } = result.board;
+  const now = new Date();
+  const totalPending = rows.reduce((sum, row) => sum + row.pending, 0);
+  const dailyTotals = dates.map((_, index) => rows.reduce((sum, row) => sum + row.daily[index], 0));
+  const windowTotal = dailyTotals.reduce((sum, count) => sum + count, 0);
+  const outOfStockRows = rows.filter((row) => row.pending > 0 && row.stock === 0);
+  const longestOutOfStock = outOfStockRows.reduce(
+    (max, row) => Math.max(max, getDaysOutOfStock(row.outOfStockSince, now) ?? 0),
+    0
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">催补货</h1>
+        <p className="text-zinc-600 dark:text-zinc-400">
+          按待通知人数排序的补货需求（统计口径：{timeZone}，近 {days} 天）
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="flex flex-wrap items-center gap-2">
+          {RESTOCK_DEMAND_WINDOWS.map((window) => (
+            <Link
+              key={window}
+              href={`/admin/restock?days=${window}`}
+              className={cn(tabClassName, days === window && tabActiveClassName)}
+            >
+              近 {window} 天
+            </Link>
+          ))}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <StatsCard
+          title="待通知人数"
+          value={totalPending}
+          description={`${rows.filter((row) => row.pending > 0).length} 个商品`}
+          icon={BellRing}
+        />
+        <StatsCard
+          title="缺货待补"
+          value={outOfStockRows.length}
+          description="有待通知请求且可售库存为 0"
+          icon={PackageX}
+        />
+        <StatsCard
+          title="最长缺货"
+          value={outOfStockRows.length > 0 ? `${longestOutOfStock} 天` : "-"}
+          icon={Hourglass}
+        />
+        <StatsCard
+          title={`近 ${days} 天请求`}
+          value={windowTotal}
+          description={`平均每天 ${getRestockVelocity(dailyTotals)} 次`}
+          icon={Clock}
+        />
+      </div>
+
+      <Card className="py-4">
+        <CardHeader className="px-4">
+          <CardTitle className="text-sm font-medium">每日催补货请求</CardTitle>
+        </CardHeader>
+        <CardContent className="px-4">
+          <MiniBarChart
+            ariaLabel="每日催补货请求柱状图"
+            rows={dates.map((date, index) => ({ label: date.slice(5), value: dailyTotals[index] }))}
+            formatValue={(value) => `${value} 次`}
+            labelEvery={Math.max(1, Math.ceil(dates.length / MAX_AXIS_LABELS))}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <BellRing className="h-5 w-5" />
+            商品需求
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {rows.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>商品</TableHead>
+                    <TableHead className="text-center">待通知</TableHead>
+                    <TableHead className="text-center">已通知</TableHead>
+                    <TableHead className="w-48">请求速度</TableHead>
+                    <TableHead className="text-center">库存</TableHead>
+                    <TableHead>最近催补货</TableHead>
+                    <TableHead className="text-right">操作</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => {
+                    const daysOutOfStock = getDaysOutOfStock(row.outOfStockSince, now);
+                    return (
+                      <TableRow key={row.productId}>
+                        <TableCell className="max-w-[220px]">
+                          <div className="flex items-center gap-2">
+                            <Link
+                              href={`/admin/products/${row.productId}/edit`}
+                              className="truncate font-medium hover:underline"
+                            >
+                              {row.productName}
+                            </Link>
+                            {!row.isActive && <Badge variant="secondary">下架</Badge>}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-center">
+                          {row.pending > 0 ? (
+                            <Badge variant="outline" className="border-amber-300 text-amber-700">
+                              {row.pending}
+                            </Badge>
+                          ) : (
+                            <span className="text-zinc-400">0</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-center text-zinc-500">{row.notified}</TableCell>
+                        <TableCell>
+                          <MiniBarChart
+                            ariaLabel={`${row.productName}每日催补货请求`}
+                            rows={dates.map((date, index) => ({
+                              label: date.slice(5),
+                              value: row.daily[index],
+                            }))}
+                            formatValue={(value) => `${value} 次`}
+                            labelEvery={dates.length}
+                          />
+                          <span className="text-xs text-zinc-500">
+                            {getRestockVelocity(row.daily)} 次/天
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-center">
+                          {daysOutOfStock === null ? (
+                            <Badge>{row.stock}</Badge>
+                          ) : (
+                            <div className="flex flex-col items-center gap-1">
+                              <Badge variant="destructive">缺货</Badge>
+                              <span className="text-xs text-zinc-500">
+                                {daysOutOfStock > 0 ? `${daysOutOfStock} 天` : "不足 1 天"}
+                              </span>
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm text-zinc-500">
+                          <LocalTime value={row.lastRequestedAt} mode="short" />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex items-center justify-end gap-1">
+                            <Button asChild variant="outline" size="sm" className="gap-1">
+                              <Link href={buildAdminCardsHref({ productId: row.productId })}>
+                                <Upload className="h-3 w-3" />
+                                导入卡密
+                              </Link>
+                            </Button>
+                            <RestockActions
+                              productId={row.productId}
+                              productName={row.productName}
+                              pending={row.pending}
+                              notified={row.notified}
+                            />
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="py-12 text-center text-sm text-zinc-500">暂无催补货请求</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Loader2, MoreHorizontal, RotateCcw, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { purgeRestockRequests, resetRestockRequests } from "@/lib/actions/restock-requests";
+
+interface RestockActionsProps {
+  productId: string;
+  productName: string;
+  pending: number;
+  notified: number;
+}
+
+/**
+ * 单个商品的催补货请求维护：重置已通知请求、清空全部请求
+ */
+export function RestockActions({ productId, productName, pending, notified }: RestockActionsProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const run = (action: () => Promise<{ success: boolean; message: string }>) => {
+    startTransition(async () => {
+      const result = await action();
+      if (result.success) {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+      router.refresh();
+    });
+  };
+
+  const handleReset = () => {
+    if (!confirm(`确定要把「${productName}」的 ${notified} 条已通知请求重置为待通知吗？下次补货时会再次通知这些用户。`)) {
+      return;
+    }
+    run(() => resetRestockRequests(productId));
+  };
+
+  const handlePurge = () => {
+    if (!confirm(`确定要清空「${productName}」的全部 ${pending + notified} 条催补货请求吗？此操作不可恢复。`)) {
+      return;
+    }
+    run(() => purgeRestockRequests(productId));
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" disabled={isPending}>
+          {isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <MoreHorizontal className="h-4 w-4" />
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={handleReset} disabled={notified === 0}>
+          <RotateCcw className="mr-2 h-4 w-4" />
+          重置为待通知
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={handlePurge} className="text-red-600">
+          <Trash2 className="mr-2 h-4 w-4" />
+          清空请求
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
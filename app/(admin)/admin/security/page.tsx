@@ -0,0 +1,23 @@
+export const dynamic = "force-dynamic";
+
+import { getTwoFactorStatus } from "@/lib/actions/admin-two-factor";
+
+import { TwoFactorCard } from "./two-factor-card";
+
+export default async function AccountSecurityPage() {
+  const status = await getTwoFactorStatus();
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">账号安全</h1>
+        <p className="text-zinc-600 dark:text-zinc-400">
+          为当前管理员账号启用两步验证，登录时除密码外还需输入验证器 App 生成的验证码
+        </p>
+      </div>
+
+      <TwoFactorCard status={status} />
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Copy, KeyRound, Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+
+import {
+  confirmTwoFactorSetup,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup,
+  type TwoFactorStatus,
+} from "@/lib/actions/admin-two-factor";
+import { LocalTime } from "@/components/time/local-time";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface TwoFactorCardProps {
+  status: TwoFactorStatus;
+}
+
+type VerifyMode = "disable" | "regenerate";
+
+export function TwoFactorCard({ status }: TwoFactorCardProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  // 绑定中：二维码与密钥
+  const [setup, setSetup] = useState<{ secret: string; qrSvg: string } | null>(null);
+  const [setupCode, setSetupCode] = useState("");
+  // 刚生成的恢复码，仅展示一次
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [verifyMode, setVerifyMode] = useState<VerifyMode | null>(null);
+  const [verifyCode, setVerifyCode] = useState("");
+
+  const handleStart = () => {
+    startTransition(async () => {
+      const result = await startTwoFactorSetup();
+      if (result.success && result.secret && result.qrSvg) {
+        setSetup({ secret: result.secret, qrSvg: result.qrSvg });
+        setSetupCode("");
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  const handleConfirm = () => {
+    startTransition(async () => {
+      const result = await confirmTwoFactorSetup(setupCode);
+      if (result.success) {
+        toast.success(result.message);
+        setSetup(null);
+        setRecoveryCodes(result.recoveryCodes ?? null);
+        router.refresh();
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  const handleVerify = () => {
+    if (!verifyMode) return;
+    startTransition(async () => {
+      if (verifyMode === "disable") {
+        const result = await disableTwoFactor(verifyCode);
+        if (!result.success) {
+          toast.error(result.message);
+          return;
+        }
+        toast.success(result.message);
+        setRecoveryCodes(null);
+      } else {
+        const result = await regenerateRecoveryCodes(verifyCode);
+        if (!result.success) {
+          toast.error(result.message);
+          return;
+        }
+        toast.success(result.message);
+        setRecoveryCodes(result.recoveryCodes ?? null);
+      }
+      setVerifyMode(null);
+      router.refresh();
+    });
+  };
+
+  const openVerify = (mode: VerifyMode) => {
+    setVerifyCode("");
+    setVerifyMode(mode);
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      toast.success("已复制");
+    } catch {
+      toast.error("复制失败");
+    }
+  };
+
+  if (!status.available) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <ShieldCheck className="h-5 w-5" />
+            两步验证
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">
+            当前会话通过 ADMIN_PASSWORD 或 Linux DO 登录，没有对应的管理员账号，无法绑定两步验证。
+            请在「管理员账号」中创建账号并使用用户名登录后再启用。
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <ShieldCheck className="h-5 w-5" />
+            两步验证
+            {status.enabled ? (
+              <Badge className="bg-emerald-100 text-emerald-700">已启用</Badge>
+            ) : (
+              <Badge variant="secondary">未启用</Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            支持 Google Authenticator、Microsoft Authenticator、1Password 等 TOTP 验证器
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {recoveryCodes && (
+            <Alert className="border-amber-200 bg-amber-50 text-amber-950 dark:border-amber-900/50 dark:bg-amber-950/40 dark:text-amber-100">
+              <KeyRound />
+              <AlertTitle>请立即保存恢复码</AlertTitle>
+              <AlertDescription className="space-y-3 text-amber-800 dark:text-amber-200">
+                <p>手机丢失时可用恢复码代替验证码登录，每个恢复码只能使用一次。关闭此页面后将无法再次查看。</p>
+                <div className="grid grid-cols-2 gap-2 font-mono text-sm sm:grid-cols-5">
+                  {recoveryCodes.map((code) => (
+                    <span key={code}>{code}</span>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" className="gap-2" onClick={copyRecoveryCodes}>
+                    <Copy className="h-4 w-4" />
+                    复制
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setRecoveryCodes(null)}>
+                    我已保存
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {status.enabled ? (
+            <>
+              <div className="grid gap-3 text-sm sm:grid-cols-2">
+                <div className="rounded-lg border bg-muted/50 p-4">
+                  <p className="text-muted-foreground">启用时间</p>
+                  <p className="mt-1 font-medium">
+                    <LocalTime value={status.enabledAt} mode="full" />
+                  </p>
+                </div>
+                <div className="rounded-lg border bg-muted/50 p-4">
+                  <p className="text-muted-foreground">剩余恢复码</p>
+                  <p
+                    className={
+                      status.recoveryCodesRemaining <= 2
+                        ? "mt-1 font-medium text-red-600"
+                        : "mt-1 font-medium"
+                    }
+                  >
+                    {status.recoveryCodesRemaining} 个
+                  </p>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  className="gap-2"
+                  disabled={isPending}
+                  onClick={() => openVerify("regenerate")}
+                >
+                  <KeyRound className="h-4 w-4" />
+                  重新生成恢复码
+                </Button>
+                <Button
+                  variant="outline"
+                  className="gap-2 text-red-600"
+                  disabled={isPending}
+                  onClick={() => openVerify("disable")}
+                >
+                  <ShieldOff className="h-4 w-4" />
+                  关闭两步验证
+                </Button>
+              </div>
+            </>
+          ) : setup ? (
+            <div className="grid gap-6 md:grid-cols-[auto_1fr]">
+              <div
+                className="h-[200px] w-[200px] rounded-lg border bg-white p-1"
+                // 服务端 qrcode 生成的 SVG，不含用户输入
+                dangerouslySetInnerHTML={{ __html: setup.qrSvg }}
+              />
+              <div className="space-y-4">
+                <div className="space-y-1 text-sm">
+                  <p>1. 使用验证器 App 扫描左侧二维码</p>
+                  <p className="text-muted-foreground">无法扫码时可手动输入密钥：</p>
+                  <p className="break-all font-mono text-sm">{setup.secret}</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="totp-setup-code">2. 输入 App 中显示的 6 位验证码</Label>
+                  <Input
+                    id="totp-setup-code"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={6}
+                    className="max-w-40 font-mono tracking-widest"
+                    value={setupCode}
+                    onChange={(e) => setSetupCode(e.target.value)}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button disabled={isPending || setupCode.length === 0} onClick={handleConfirm}>
+                    {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    确认启用
+                  </Button>
+                  <Button variant="ghost" disabled={isPending} onClick={() => setSetup(null)}>
+                    取消
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <Button className="gap-2" disabled={isPending} onClick={handleStart}>
+              {isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <ShieldCheck className="h-4 w-4" />
+              )}
+              启用两步验证
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={verifyMode !== null} onOpenChange={(open) => !open && setVerifyMode(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {verifyMode === "disable" ? "关闭两步验证" : "重新生成恢复码"}
+            </DialogTitle>
+            <DialogDescription>
+              {verifyMode === "disable"
+                ? "关闭后登录只需要密码。请输入当前验证码或一个恢复码确认。"
+                : "旧恢复码将全部作废。请输入当前验证码或一个恢复码确认。"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="totp-verify-code">验证码</Label>
+            <Input
+              id="totp-verify-code"
+              autoComplete="one-time-code"
+              placeholder="6 位验证码或恢复码"
+              className="font-mono tracking-widest"
+              value={verifyCode}
+              onChange={(e) => setVerifyCode(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setVerifyMode(null)}>
+              取消
+            </Button>
+            <Button
+              variant={verifyMode === "disable" ? "destructive" : "default"}
+              disabled={isPending || verifyCode.trim().length === 0}
+              onClick={handleVerify}
+            >
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              确认
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
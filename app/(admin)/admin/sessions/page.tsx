@@ -0,0 +1,112 @@
+export const dynamic = "force-dynamic";
+
+import { MonitorSmartphone } from "lucide-react";
+
+import { getAdminSessions } from "@/lib/actions/admin-sessions";
+import { LocalTime } from "@/components/time/local-time";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+import { RevokeOtherSessionsButton, RevokeSessionButton } from "./session-actions";
+
+const providerLabels: Record<string, string> = {
+  credentials: "账号密码",
+  "linux-do": "Linux DO",
+};
+
+export default async function AdminSessionsPage() {
+  const { items, currentSessionId, canManageAll } = await getAdminSessions();
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">登录会话</h1>
+        <p className="text-zinc-600 dark:text-zinc-400">
+          {canManageAll ? "所有管理员" : "当前账号"}
+          的有效登录会话。下线后对方下一次访问后台即需重新登录；更换 ADMIN_PASSWORD 或怀疑凭证泄露时，可一键下线其他全部会话
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <MonitorSmartphone className="h-5 w-5" />
+            有效会话 ({items.length})
+          </CardTitle>
+          {items.length > 1 ? <RevokeOtherSessionsButton canManageAll={canManageAll} /> : null}
+        </CardHeader>
+        <CardContent>
+          {items.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>管理员</TableHead>
+                    <TableHead>登录方式</TableHead>
+                    <TableHead>登录时间</TableHead>
+                    <TableHead>最近访问</TableHead>
+                    <TableHead>IP</TableHead>
+                    <TableHead>设备</TableHead>
+                    <TableHead className="text-right">操作</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item) => {
+                    const label = item.actorName || item.actorId;
+                    const isCurrent = item.id === currentSessionId;
+                    return (
+                      <TableRow key={item.id}>
+                        <TableCell>
+                          <div className="flex items-center gap-2 text-sm">
+                            {label}
+                            {isCurrent ? (
+                              <Badge className="bg-emerald-100 text-emerald-700">当前会话</Badge>
+                            ) : null}
+                          </div>
+                          <div className="font-mono text-xs text-zinc-500">{item.actorId}</div>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {providerLabels[item.provider] ?? item.provider}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-sm text-zinc-500">
+                          <LocalTime value={item.createdAt} mode="short" />
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-sm text-zinc-500">
+                          <LocalTime value={item.lastSeenAt} mode="short" />
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{item.ipAddress ?? "-"}</TableCell>
+                        <TableCell
+                          className="max-w-xs truncate text-xs text-zinc-500"
+                          title={item.userAgent ?? undefined}
+                        >
+                          {item.userAgent ?? "-"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {isCurrent ? null : <RevokeSessionButton sessionId={item.id} label={label} />}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="py-12 text-center">
+              <MonitorSmartphone className="mx-auto h-12 w-12 text-zinc-300" />
+              <p className="mt-4 text-zinc-500">暂无有效会话</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Loader2, LogOut } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { revokeAdminSession, revokeOtherAdminSessions } from "@/lib/actions/admin-sessions";
+
+/**
+ * 下线单个会话：对方下一次请求即跳转到登录页
+ */
+export function RevokeSessionButton({ sessionId, label }: { sessionId: string; label: string }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const handleRevoke = () => {
+    if (!confirm(`确定要下线 ${label} 的这个会话吗？`)) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await revokeAdminSession(sessionId);
+      if (result.success) {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+      router.refresh();
+    });
+  };
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleRevoke} disabled={isPending}>
+      {isPending ? (
+        <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+      ) : (
+        <LogOut className="mr-1 h-3 w-3" />
+      )}
+      下线
+    </Button>
+  );
+}
+
+/**
+ * 下线除当前会话外的全部会话
+ */
+export function RevokeOtherSessionsButton({ canManageAll }: { canManageAll: boolean }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const handleRevoke = () => {
+    const scope = canManageAll ? "所有管理员" : "你";
+    if (!confirm(`确定要下线${scope}除当前会话外的全部会话吗？`)) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await revokeOtherAdminSessions();
+      if (result.success) {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+      router.refresh();
+    });
+  };
+
+  return (
+    <Button variant="destructive" size="sm" onClick={handleRevoke} disabled={isPending}>
+      {isPending ? (
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+      ) : (
+        <LogOut className="mr-2 h-4 w-4" />
+      )}
+      下线其他全部会话
+    </Button>
+  );
+}
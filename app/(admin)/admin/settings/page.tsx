@@ -65,7 +65,7 @@ export default async function SystemStatusPage() {
       title: "管理员密码",
       env: "ADMIN_PASSWORD",
       ok: isAdminPasswordConfigured,
-      hint: "后台密码登录凭证",
+      hint: "初始化登录凭证，创建所有者账号后停用",
     },
     {
       title: "Linux DO OAuth2",
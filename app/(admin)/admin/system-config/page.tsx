@@ -1,10 +1,15 @@
 export const dynamic = "force-dynamic";
 
 import { getSystemSettings } from "@/lib/actions/system-settings";
+import { getPaymentSettings } from "@/lib/actions/payment-settings";
 import { SystemConfigForm } from "./system-config-form";
+import { PaymentSettingsForm } from "./payment-settings-form";
 
 export default async function SystemConfigPage() {
-  const settings = await getSystemSettings();
+  const [settings, paymentSettings] = await Promise.all([
+    getSystemSettings(),
+    getPaymentSettings(),
+  ]);
 
   return (
     <div className="space-y-6">
@@ -18,6 +23,8 @@ export default async function SystemConfigPage() {
       </div>
 
       <SystemConfigForm initialValues={settings} />
+
+      {paymentSettings && <PaymentSettingsForm initialValues={paymentSettings} />}
     </div>
   );
 }
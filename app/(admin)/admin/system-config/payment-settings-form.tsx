@@ -0,0 +1,187 @@
+"use client";
+
+import { useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { CreditCard, Loader2 } from "lucide-react";
+
+import {
+  updatePaymentSettings,
+  type AdminPaymentSettings,
+} from "@/lib/actions/payment-settings";
+import {
+  EASYPAY_METHODS,
+  paymentSettingsSchema,
+  type EasyPayMethod,
+  type PaymentSettingsInput,
+} from "@/lib/validations/payment-settings";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+const CHANNEL_META: Record<EasyPayMethod, { label: string; description: string }> = {
+  alipay: { label: "支付宝", description: "通过易支付网关收款，网关支付类型为 alipay" },
+  wechat: { label: "微信支付", description: "通过易支付网关收款，网关支付类型为 wxpay" },
+};
+
+function toFormValues(settings: AdminPaymentSettings): PaymentSettingsInput {
+  return Object.fromEntries(
+    EASYPAY_METHODS.map((method) => [
+      method,
+      {
+        enabled: settings[method].enabled,
+        gateway: settings[method].gateway,
+        pid: settings[method].pid,
+        key: "",
+      },
+    ])
+  ) as PaymentSettingsInput;
+}
+
+interface PaymentSettingsFormProps {
+  initialValues: AdminPaymentSettings;
+}
+
+/**
+ * 支付通道配置
+ * LDC 仍通过环境变量配置；这里维护易支付兼容的支付宝/微信通道，可与 LDC 同时启用
+ */
+export function PaymentSettingsForm({ initialValues }: PaymentSettingsFormProps) {
+  const [isPending, startTransition] = useTransition();
+  const router = useRouter();
+
+  const form = useForm<PaymentSettingsInput>({
+    resolver: zodResolver(paymentSettingsSchema),
+    defaultValues: toFormValues(initialValues),
+  });
+
+  const onSubmit = (values: PaymentSettingsInput) => {
+    startTransition(async () => {
+      const result = await updatePaymentSettings(values);
+      if (result.success) {
+        toast.success(result.message);
+        router.refresh();
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <CreditCard className="h-5 w-5" />
+          支付通道
+        </CardTitle>
+        <CardDescription>
+          LDC 积分支付通过环境变量配置且始终可用；以下通道启用后会出现在前台的支付方式中
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            {EASYPAY_METHODS.map((method) => (
+              <div key={method} className="space-y-4 rounded-lg border p-4">
+                <FormField
+                  control={form.control}
+                  name={`${method}.enabled`}
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between">
+                      <div className="space-y-1">
+                        <FormLabel className="text-sm">{CHANNEL_META[method].label}</FormLabel>
+                        <FormDescription>
+                          {CHANNEL_META[method].description}，回调地址为{" "}
+                          <code>/api/payment/{method}/notify</code>
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name={`${method}.gateway`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>网关地址</FormLabel>
+                      <FormControl>
+                        <Input placeholder="例如：https://pay.example.com" {...field} />
+                      </FormControl>
+                      <FormDescription>submit.php 与 api.php 所在目录</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name={`${method}.pid`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>商户 ID</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name={`${method}.key`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>商户密钥</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            autoComplete="new-password"
+                            placeholder={
+                              initialValues[method].hasKey ? "已保存，留空则不修改" : "请输入商户密钥"
+                            }
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </div>
+            ))}
+
+            <Button type="submit" disabled={isPending}>
+              {isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  保存中...
+                </>
+              ) : (
+                "保存支付通道"
+              )}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
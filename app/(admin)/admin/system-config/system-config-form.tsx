@@ -330,7 +330,7 @@ export function SystemConfigForm({ initialValues }: SystemConfigFormProps) {
                     <span className="mt-0.5 inline-flex size-5 items-center justify-center rounded-md bg-zinc-500/10 text-zinc-700 dark:text-zinc-300">
                       <Shield className="h-3.5 w-3.5" />
                     </span>
-                    <span>敏感配置（OAuth/支付密钥等）：仍需通过环境变量设置。</span>
+                    <span>OAuth、LDC 支付密钥等敏感配置：仍需通过环境变量设置；易支付通道见下方「支付通道」。</span>
                   </li>
                 </ul>
 
@@ -21,6 +21,10 @@ function LoginFormFallback() {
                 <div className="h-5 w-16 animate-pulse rounded bg-muted" />
                 <div className="h-11 animate-pulse rounded-md bg-muted" />
               </div>
+              <div className="flex flex-col gap-3">
+                <div className="h-5 w-16 animate-pulse rounded bg-muted" />
+                <div className="h-11 animate-pulse rounded-md bg-muted" />
+              </div>
               <div className="h-11 animate-pulse rounded-md bg-muted" />
               <div className="h-11 animate-pulse rounded-md bg-muted" />
             </div>
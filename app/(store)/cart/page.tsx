@@ -0,0 +1,256 @@
+"use client";
+
+import { useEffect, useState, useCallback, useTransition } from "react";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { getCart, updateCartItem, removeCartItem, type CartData } from "@/lib/actions/cart";
+import { checkoutCart } from "@/lib/actions/orders";
+import { getAvailablePaymentMethods } from "@/lib/actions/payment-settings";
+import type { PaymentMethod } from "@/lib/db";
+import { PaymentMethodPicker } from "@/components/store/payment-method-picker";
+import { submitPaymentForm } from "@/lib/payment/submit-form";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { Loader2, Minus, Plus, ShoppingCart, Trash2 } from "lucide-react";
+
+export default function CartPage() {
+  const { data: session, status: sessionStatus } = useSession();
+  const router = useRouter();
+  const [cart, setCart] = useState<CartData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, startUpdate] = useTransition();
+  const [isCheckingOut, startCheckout] = useTransition();
+  const [couponCode, setCouponCode] = useState("");
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>(["ldc"]);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("ldc");
+
+  const user = session?.user as { provider?: string } | undefined;
+  const isLoggedIn = user?.provider === "linux-do";
+
+  const loadCart = useCallback(async () => {
+    try {
+      const result = await getCart();
+      if (result.success && result.data) {
+        setCart(result.data);
+      } else {
+        toast.error(result.message || "获取购物车失败");
+      }
+    } catch {
+      toast.error("获取购物车失败");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (sessionStatus === "loading") return;
+
+    if (!isLoggedIn) {
+      router.push("/");
+      return;
+    }
+
+    loadCart();
+    getAvailablePaymentMethods()
+      .then(setPaymentMethods)
+      .catch(() => undefined);
+  }, [sessionStatus, isLoggedIn, router, loadCart]);
+
+  const handleQuantityChange = (productId: string, variantId: string | null, quantity: number) => {
+    startUpdate(async () => {
+      const result = await updateCartItem({ productId, variantId, quantity });
+      if (!result.success) {
+        toast.error(result.message);
+      }
+      await loadCart();
+    });
+  };
+
+  const handleRemove = (productId: string, variantId: string | null) => {
+    startUpdate(async () => {
+      const result = await removeCartItem(productId, variantId);
+      if (!result.success) {
+        toast.error(result.message);
+      }
+      await loadCart();
+    });
+  };
+
+  const handleCheckout = () => {
+    startCheckout(async () => {
+      const result = await checkoutCart({
+        paymentMethod,
+        couponCode: couponCode.trim() || undefined,
+      });
+
+      if (!result.success) {
+        toast.error("结算失败", { description: result.message });
+        await loadCart();
+        return;
+      }
+
+      toast.success("订单创建成功", {
+        description: `订单号: ${result.orderNo}`,
+      });
+
+      // 保存订单号到 localStorage，用于支付完成后回调页面读取
+      localStorage.setItem("ldc_last_order_no", result.orderNo!);
+
+      if (result.paymentForm) {
+        submitPaymentForm(result.paymentForm);
+      } else {
+        router.push(`/order/result?out_trade_no=${result.orderNo}`);
+      }
+    });
+  };
+
+  if (sessionStatus === "loading" || isLoading) {
+    return (
+      <div className="container mx-auto max-w-2xl px-4 py-12">
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!isLoggedIn) {
+    return null;
+  }
+
+  const items = cart?.items ?? [];
+  // 库存不足或已下架时禁止结算，避免进入事务后整单失败
+  const hasBlockingItem = items.some((item) => !item.isActive || item.stock < item.quantity);
+
+  return (
+    <div className="container mx-auto max-w-2xl px-4 py-8">
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-xl font-semibold">购物车</h1>
+        {isUpdating ? <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" /> : null}
+      </div>
+
+      {items.length > 0 ? (
+        <div className="space-y-4">
+          <div className="divide-y rounded-lg border bg-card">
+            {items.map((item) => {
+              const effectiveMax = Math.min(item.maxQuantity, Math.max(item.stock, item.minQuantity));
+              const subtotal = (parseFloat(item.price) * item.quantity).toFixed(2);
+
+              return (
+                <div key={`${item.productId}:${item.variantId ?? ""}`} className="flex items-center gap-3 px-4 py-3">
+                  <div className="min-w-0 flex-1">
+                    <Link
+                      href={`/product/${item.productSlug}`}
+                      className="block truncate font-medium hover:underline"
+                    >
+                      {item.productName}
+                    </Link>
+                    <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <span>{item.price} LDC</span>
+                      <span>库存 {item.stock}</span>
+                      {!item.isActive ? (
+                        <Badge variant="destructive" className="text-xs">已下架</Badge>
+                      ) : item.stock < item.quantity ? (
+                        <Badge variant="outline" className="border-amber-500 text-xs text-amber-600">
+                          库存不足
+                        </Badge>
+                      ) : null}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center rounded-md border">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 rounded-r-none"
+                      onClick={() => handleQuantityChange(item.productId, item.variantId, item.quantity - 1)}
+                      disabled={isUpdating || item.quantity <= item.minQuantity}
+                      aria-label="减少数量"
+                    >
+                      <Minus className="h-4 w-4" />
+                    </Button>
+                    <span className="w-10 text-center text-sm">{item.quantity}</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 rounded-l-none"
+                      onClick={() => handleQuantityChange(item.productId, item.variantId, item.quantity + 1)}
+                      disabled={isUpdating || item.quantity >= effectiveMax}
+                      aria-label="增加数量"
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <div className="w-24 text-right text-sm font-medium">{subtotal} LDC</div>
+
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleRemove(item.productId, item.variantId)}
+                    disabled={isUpdating}
+                    aria-label="移除商品"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="优惠码（可选，结算时校验）"
+              className="h-9 uppercase"
+              value={couponCode}
+              onChange={(e) => setCouponCode(e.target.value)}
+              aria-label="优惠码"
+            />
+          </div>
+
+          <PaymentMethodPicker
+            methods={paymentMethods}
+            value={paymentMethod}
+            onChange={setPaymentMethod}
+            disabled={isCheckingOut}
+          />
+
+          <div className="flex items-center justify-between rounded-lg border bg-card px-4 py-3">
+            <div>
+              <span className="text-sm text-muted-foreground">共 {cart?.totalQuantity ?? 0} 件</span>
+              <div className="text-xl font-bold">{cart?.totalAmount ?? "0.00"} LDC</div>
+            </div>
+            <Button
+              onClick={handleCheckout}
+              disabled={isCheckingOut || isUpdating || hasBlockingItem}
+            >
+              {isCheckingOut ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  处理中
+                </>
+              ) : (
+                "合并结算"
+              )}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="rounded-lg border bg-card py-16 text-center">
+          <ShoppingCart className="mx-auto h-8 w-8 text-muted-foreground" />
+          <p className="mt-3 text-sm text-muted-foreground">购物车是空的</p>
+          <Button asChild variant="outline" size="sm" className="mt-4">
+            <Link href="/">去逛逛</Link>
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
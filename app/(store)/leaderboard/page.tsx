@@ -29,7 +29,7 @@ export default async function CustomersLeaderboardPage() {
           顾客消费榜
         </h1>
         <p className="text-sm text-zinc-600 dark:text-zinc-400">
-          统计口径：仅统计已完成订单
+          统计口径：已完成与部分退款的订单，扣除已退款金额
         </p>
       </div>
 
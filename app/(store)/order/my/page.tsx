@@ -3,7 +3,12 @@
 import { useEffect, useState, useCallback, useTransition } from "react";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
-import { getUserOrders, requestRefund, getRefundEnabled } from "@/lib/actions/orders";
+import {
+  getUserOrders,
+  requestRefund,
+  type DeliveredCard,
+} from "@/lib/actions/orders";
+import { DeliveredCardFields } from "@/components/store/delivered-card-fields";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
@@ -39,11 +44,14 @@ interface OrderData {
   productName: string;
   quantity: number;
   totalAmount: string;
+  refundedAmount: string;
   status: string;
   paymentMethod: string;
+  /** 订单所属支付通道是否支持退款 */
+  refundEnabled: boolean;
   createdAt: Date;
   paidAt: Date | null;
-  cards: string[];
+  cards: DeliveredCard[];
 }
 
 const statusConfig: Record<
@@ -87,6 +95,12 @@ const statusConfig: Record<
     variant: "destructive",
     icon: <AlertCircle className="h-3 w-3" />,
   },
+  partially_refunded: {
+    label: "部分退款",
+    variant: "outline",
+    icon: <RotateCcw className="h-3 w-3" />,
+    className: "border-rose-400 text-rose-600",
+  },
 };
 
 export default function MyOrdersPage() {
@@ -103,7 +117,6 @@ export default function MyOrdersPage() {
   const [refundOrderNo, setRefundOrderNo] = useState<string | null>(null);
   const [refundReason, setRefundReason] = useState("");
   const [isPending, startTransition] = useTransition();
-  const [refundEnabled, setRefundEnabled] = useState(false);
 
   const user = session?.user as { provider?: string } | undefined;
   const isLoggedIn = user?.provider === "linux-do";
@@ -116,14 +129,8 @@ export default function MyOrdersPage() {
     }
 
     try {
-      // 并行获取订单和退款功能状态
-      const [result, isRefundEnabled] = await Promise.all([
-        getUserOrders(),
-        getRefundEnabled(),
-      ]);
-      
-      setRefundEnabled(isRefundEnabled);
-      
+      const result = await getUserOrders();
+
       if (result.success) {
         setOrders(result.data as OrderData[]);
       } else {
@@ -159,9 +166,9 @@ export default function MyOrdersPage() {
     }
   };
 
-  const copyAllCards = async (cards: string[]) => {
+  const copyAllCards = async (cards: DeliveredCard[]) => {
     try {
-      await navigator.clipboard.writeText(cards.join("\n"));
+      await navigator.clipboard.writeText(cards.map((card) => card.content).join("\n"));
       toast.success(`已复制 ${cards.length} 张卡密`);
     } catch {
       toast.error("复制失败");
@@ -279,7 +286,9 @@ export default function MyOrdersPage() {
                       )}
                     </div>
 
-                    {(order.status === "paid" || order.status === "completed") && (
+                    {(order.status === "paid" ||
+                      order.status === "completed" ||
+                      order.status === "partially_refunded") && (
                       <div className="mt-2 flex justify-end">
                         <Button asChild variant="outline" size="sm" className="h-7 text-xs">
                           <Link
@@ -322,16 +331,20 @@ export default function MyOrdersPage() {
                                 key={idx}
                                 className="flex items-center gap-2 p-2 rounded bg-background border text-sm group"
                               >
-                                <code className="flex-1 font-mono text-xs break-all select-all">
-                                  {card}
-                                </code>
+                                {card.fields ? (
+                                  <DeliveredCardFields fields={card.fields} expiresAt={card.expiresAt} />
+                                ) : (
+                                  <code className="flex-1 font-mono text-xs break-all select-all">
+                                    {card.content}
+                                  </code>
+                                )}
                                 <Button
                                   variant="ghost"
                                   size="icon"
                                   className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity"
                                   onClick={(e) => {
                                     e.stopPropagation();
-                                    copyToClipboard(card, cardId);
+                                    copyToClipboard(card.content, cardId);
                                   }}
                                 >
                                   {copiedCard === cardId ? (
@@ -354,8 +367,9 @@ export default function MyOrdersPage() {
                       </div>
                     )}
 
-                    {/* Refund Button - 仅当退款功能启用时显示 */}
-                    {refundEnabled && order.status === "completed" && (
+                    {/* Refund Button - 仅当订单所属支付通道支持退款时显示 */}
+                    {order.refundEnabled &&
+                      (order.status === "completed" || order.status === "partially_refunded") && (
                       <div className="mt-3 flex justify-end">
                         <Button
                           variant="outline"
@@ -379,6 +393,13 @@ export default function MyOrdersPage() {
                       </div>
                     )}
 
+                    {/* Partially Refunded Notice */}
+                    {order.status === "partially_refunded" && (
+                      <div className="mt-3 p-2 rounded bg-rose-50 dark:bg-rose-950/50 text-rose-700 dark:text-rose-300 text-xs">
+                        已退款 {order.refundedAmount}，上方为未退款的卡密
+                      </div>
+                    )}
+
                     {/* Refund Rejected Notice */}
                     {order.status === "refund_rejected" && (
                       <div className="mt-3 p-2 rounded bg-red-50 dark:bg-red-950/50 text-red-700 dark:text-red-300 text-xs">
@@ -6,7 +6,9 @@ import { useSession } from "next-auth/react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { getOrderByNo } from "@/lib/actions/orders";
+import { DeliveredCardFields } from "@/components/store/delivered-card-fields";
+import { getOrderByNo, type DeliveredCard } from "@/lib/actions/orders";
+import { checkOrderPayment } from "@/lib/actions/reconciliation";
 import { toast } from "sonner";
 import {
   CheckCircle2,
@@ -17,6 +19,7 @@ import {
   Package,
   ReceiptText,
   RefreshCw,
+  SearchCheck,
   XCircle,
   ShoppingBag,
 } from "lucide-react";
@@ -37,7 +40,7 @@ interface OrderData {
   status: string;
   createdAt: Date;
   paidAt: Date | null;
-  cards: string[];
+  cards: DeliveredCard[];
 }
 
 // 轮询配置
@@ -117,6 +120,7 @@ export default function OrderResultPage({ searchParams }: OrderResultPageProps)
   const [isLoading, setIsLoading] = useState(true);
   const [isPolling, setIsPolling] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isCheckingPayment, setIsCheckingPayment] = useState(false);
   
   // 轮询计数器
   const pollCountRef = useRef(0);
@@ -323,7 +327,7 @@ export default function OrderResultPage({ searchParams }: OrderResultPageProps)
           title: isPolling ? "正在确认支付状态" : "等待支付完成",
           description: isPolling
             ? "通常会在 30 秒内自动更新，请稍候…"
-            : "如果你已完成支付，可点击刷新或稍后查看“我的订单”。",
+            : "如果你已完成支付，可点击下方“我已支付”向支付平台查询结果。",
           icon: isPolling ? (
             <Loader2 className="h-5 w-5 animate-spin" />
           ) : (
@@ -363,6 +367,15 @@ export default function OrderResultPage({ searchParams }: OrderResultPageProps)
           iconClassName: "bg-muted text-muted-foreground",
           badgeClassName: "bg-muted text-muted-foreground hover:bg-muted",
         };
+      case "partially_refunded":
+        return {
+          label: "部分退款",
+          title: "订单已部分退款",
+          description: "部分卡密已退款，其余卡密可在“我的订单”中查看。",
+          icon: <RefreshCw className="h-5 w-5" />,
+          iconClassName: "bg-rose-500/10 text-rose-700 dark:text-rose-300",
+          badgeClassName: "bg-rose-500 text-white hover:bg-rose-500/90",
+        };
       case "refunded":
         return {
           label: "已退款",
@@ -398,7 +411,7 @@ export default function OrderResultPage({ searchParams }: OrderResultPageProps)
   const copyAllCards = async () => {
     if (!hasCards) return;
     try {
-      await navigator.clipboard.writeText(order.cards.join("\n"));
+      await navigator.clipboard.writeText(order.cards.map((card) => card.content).join("\n"));
       toast.success(`已复制 ${order.cards.length} 个卡密`);
     } catch {
       toast.error("复制失败");
@@ -418,6 +431,33 @@ export default function OrderResultPage({ searchParams }: OrderResultPageProps)
     setIsRefreshing(false);
   };
 
+  // 回调延迟或丢失时，由用户主动触发向支付平台查单；服务端限流并复用补单流程
+  const checkPayment = async () => {
+    setIsCheckingPayment(true);
+    try {
+      const result = await checkOrderPayment(order.orderNo);
+      if (!result.success) {
+        toast.error(result.message);
+        return;
+      }
+      if (!result.paid) {
+        toast.info(result.message);
+        return;
+      }
+
+      toast.success(result.message);
+      if (pollTimerRef.current) {
+        clearTimeout(pollTimerRef.current);
+      }
+      pollCountRef.current = 0;
+      await loadOrder();
+    } catch {
+      toast.error("查询失败，请稍后重试");
+    } finally {
+      setIsCheckingPayment(false);
+    }
+  };
+
   return (
     <div className="mx-auto max-w-lg px-4 py-10 sm:py-12">
       <Card className="overflow-hidden">
@@ -547,14 +587,18 @@ export default function OrderResultPage({ searchParams }: OrderResultPageProps)
                       key={index}
                       className="flex items-center justify-between gap-2 rounded-lg bg-white p-3 shadow-sm ring-1 ring-black/5 dark:bg-zinc-900"
                     >
-                      <code className="text-xs font-mono break-all flex-1 select-all">
-                        {card}
-                      </code>
+                      {card.fields ? (
+                        <DeliveredCardFields fields={card.fields} expiresAt={card.expiresAt} />
+                      ) : (
+                        <code className="text-xs font-mono break-all flex-1 select-all">
+                          {card.content}
+                        </code>
+                      )}
                       <Button
                         variant="ghost"
                         size="icon"
                         className="h-8 w-8 shrink-0"
-                        onClick={() => copyToClipboard(card, index)}
+                        onClick={() => copyToClipboard(card.content, index)}
                         aria-label="复制卡密"
                         title="复制卡密"
                       >
@@ -575,6 +619,30 @@ export default function OrderResultPage({ searchParams }: OrderResultPageProps)
             )
           ) : null}
 
+          {/* Payment Check */}
+          {order.status === "pending" && !isPolling ? (
+            <div className="rounded-2xl border border-amber-200 bg-amber-50/60 p-4 dark:border-amber-900/60 dark:bg-amber-950/30">
+              <div className="text-sm font-medium text-amber-800 dark:text-amber-200">
+                已完成支付但订单仍未更新？
+              </div>
+              <div className="mt-1 text-xs text-muted-foreground">
+                支付通知可能存在延迟，点击下方按钮向支付平台查询，确认收款后将立即发放卡密。
+              </div>
+              <Button
+                className="mt-3 w-full"
+                onClick={checkPayment}
+                disabled={isCheckingPayment}
+              >
+                {isCheckingPayment ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <SearchCheck className="mr-2 h-4 w-4" />
+                )}
+                我已支付，检查支付状态
+              </Button>
+            </div>
+          ) : null}
+
           {/* Actions */}
           <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
             {canShowReceipt ? (
@@ -1,17 +1,26 @@
 "use client";
 
-import { useTransition } from "react";
+import { useState, useTransition } from "react";
 import { useRouter } from "next/navigation";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useSession, signIn } from "next-auth/react";
 import { createOrder } from "@/lib/actions/orders";
+import { addToCart } from "@/lib/actions/cart";
+import { previewCoupon } from "@/lib/actions/coupons";
+import { submitPaymentForm } from "@/lib/payment/submit-form";
+import { PaymentMethodPicker } from "@/components/store/payment-method-picker";
+import { buildPriceTierRanges, resolveUnitPrice } from "@/lib/pricing";
+import { formatVariantProductName } from "@/lib/product-variants";
+import type { PaymentMethod, PriceTier } from "@/lib/db";
+import type { StoreProductVariant } from "@/lib/actions/products";
+import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
-import { Loader2, Minus, Plus, CheckCircle2 } from "lucide-react";
+import { Loader2, Minus, Plus, CheckCircle2, ShoppingCart, TicketPercent, X } from "lucide-react";
 import { LinuxDoLogo } from "@/components/icons/linuxdo-logo";
 
 const orderFormSchema = z.object({
@@ -24,23 +33,50 @@ interface OrderFormProps {
   productId: string;
   productName: string;
   price: number;
+  priceTiers?: PriceTier[];
+  variants?: StoreProductVariant[];
   stock: number;
   minQuantity: number;
   maxQuantity: number;
+  paymentMethods?: PaymentMethod[];
 }
 
 export function OrderForm({
   productId,
   productName,
   price,
+  priceTiers = [],
+  variants = [],
   stock,
   minQuantity,
   maxQuantity,
+  paymentMethods = ["ldc"],
 }: OrderFormProps) {
+  // 默认选中第一个有库存的规格
+  const [selectedVariantId, setSelectedVariantId] = useState<string | null>(
+    () => (variants.find((v) => v.stock > 0) ?? variants[0])?.id ?? null
+  );
+  const selectedVariant = variants.find((v) => v.id === selectedVariantId) ?? null;
+  // 启用规格时价格、限购与库存均以所选规格为准（规格不叠加阶梯价）
+  const unitBasePrice = selectedVariant ? parseFloat(selectedVariant.price) : price;
+  const activeTiers = selectedVariant ? [] : priceTiers;
+  const activeMinQuantity = selectedVariant?.minQuantity ?? minQuantity;
+  const activeMaxQuantity = selectedVariant?.maxQuantity ?? maxQuantity;
+  const activeStock = selectedVariant?.stock ?? stock;
+
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>(paymentMethods[0] ?? "ldc");
   const [isPending, startTransition] = useTransition();
+  const [isAddingToCart, startAddToCart] = useTransition();
+  const [isCheckingCoupon, startCheckCoupon] = useTransition();
+  const [couponInput, setCouponInput] = useState("");
+  const [appliedCoupon, setAppliedCoupon] = useState<{
+    code: string;
+    discountAmount: string;
+    totalAmount: string;
+  } | null>(null);
   const router = useRouter();
   const { data: session, status } = useSession();
-  const effectiveMax = Math.min(maxQuantity, stock);
+  const effectiveMax = Math.min(activeMaxQuantity, activeStock);
 
   // 检查是否是 Linux DO 登录用户
   const user = session?.user as { username?: string; provider?: string } | undefined;
@@ -49,20 +85,69 @@ export function OrderForm({
   const form = useForm<OrderFormValues>({
     resolver: zodResolver(orderFormSchema),
     defaultValues: {
-      quantity: minQuantity,
+      quantity: activeMinQuantity,
     },
   });
 
   const quantity = form.watch("quantity");
-  const totalPrice = (price * quantity).toFixed(2);
+  const tierRanges = buildPriceTierRanges(unitBasePrice.toFixed(2), activeTiers);
+  const unitPrice = resolveUnitPrice(unitBasePrice.toFixed(2), activeTiers, quantity);
+  // 与下单事务一致：以分计算，避免浮点误差
+  const originalTotal = ((Math.round(parseFloat(unitPrice) * 100) * quantity) / 100).toFixed(2);
+  const totalPrice = appliedCoupon ? appliedCoupon.totalAmount : originalTotal;
+
+  const applyCoupon = (code: string, nextQuantity: number, variantId = selectedVariantId) => {
+    startCheckCoupon(async () => {
+      const result = await previewCoupon({
+        code,
+        productId,
+        variantId,
+        quantity: nextQuantity,
+      });
+      if (result.success && result.data) {
+        setAppliedCoupon(result.data);
+      } else {
+        setAppliedCoupon(null);
+        toast.error("优惠码不可用", { description: result.message });
+      }
+    });
+  };
+
+  const setQuantity = (newValue: number) => {
+    form.setValue("quantity", newValue);
+    // 优惠金额与数量相关（百分比/最低消费），数量变化后需要重新计算
+    if (appliedCoupon) {
+      applyCoupon(appliedCoupon.code, newValue);
+    }
+  };
 
   const updateQuantity = (delta: number) => {
     const newValue = quantity + delta;
-    if (newValue >= minQuantity && newValue <= effectiveMax) {
-      form.setValue("quantity", newValue);
+    if (newValue >= activeMinQuantity && newValue <= effectiveMax) {
+      setQuantity(newValue);
+    }
+  };
+
+  const selectVariant = (variant: StoreProductVariant) => {
+    setSelectedVariantId(variant.id);
+    // 切换规格后数量需落在新规格的限购范围内
+    const nextMax = Math.min(variant.maxQuantity, variant.stock);
+    const nextQuantity = Math.max(variant.minQuantity, Math.min(quantity, nextMax));
+    form.setValue("quantity", nextQuantity);
+    if (appliedCoupon) {
+      applyCoupon(appliedCoupon.code, nextQuantity, variant.id);
     }
   };
 
+  const handleApplyCoupon = () => {
+    const code = couponInput.trim();
+    if (!code) {
+      toast.error("请输入优惠码");
+      return;
+    }
+    applyCoupon(code, quantity);
+  };
+
   const handleLogin = () => {
     signIn("linux-do");
   };
@@ -76,8 +161,10 @@ export function OrderForm({
     startTransition(async () => {
       const result = await createOrder({
         productId,
+        variantId: selectedVariantId,
         quantity: values.quantity,
-        paymentMethod: "ldc",
+        paymentMethod,
+        couponCode: appliedCoupon?.code,
       });
 
       if (result.success) {
@@ -89,21 +176,7 @@ export function OrderForm({
         localStorage.setItem("ldc_last_order_no", result.orderNo!);
 
         if (result.paymentForm) {
-          const form = document.createElement("form");
-          form.method = "POST";
-          form.action = result.paymentForm.actionUrl;
-          form.style.display = "none";
-
-          Object.entries(result.paymentForm.params).forEach(([key, value]) => {
-            const input = document.createElement("input");
-            input.type = "hidden";
-            input.name = key;
-            input.value = value;
-            form.appendChild(input);
-          });
-
-          document.body.appendChild(form);
-          form.submit();
+          submitPaymentForm(result.paymentForm);
         } else {
           router.push(`/order/result?out_trade_no=${result.orderNo}`);
         }
@@ -115,6 +188,29 @@ export function OrderForm({
     });
   };
 
+  const handleAddToCart = () => {
+    if (!isLoggedIn) {
+      toast.error("请先登录");
+      return;
+    }
+
+    startAddToCart(async () => {
+      const result = await addToCart({ productId, variantId: selectedVariantId, quantity });
+      if (result.success) {
+        toast.success(result.message, {
+          action: {
+            label: "去结算",
+            onClick: () => router.push("/cart"),
+          },
+        });
+      } else {
+        toast.error("加入购物车失败", {
+          description: result.message,
+        });
+      }
+    });
+  };
+
   // 加载中
   if (status === "loading") {
     return (
@@ -151,6 +247,35 @@ export function OrderForm({
         </span>
       </div>
 
+      {/* Variants */}
+      {variants.length > 0 ? (
+        <div className="space-y-2">
+          <Label>规格</Label>
+          <div className="flex flex-wrap gap-2">
+            {variants.map((variant) => (
+              <Button
+                key={variant.id}
+                type="button"
+                variant="outline"
+                size="sm"
+                className={cn(
+                  "h-auto flex-col items-start gap-0 px-3 py-1.5",
+                  variant.id === selectedVariantId && "border-primary bg-primary/5"
+                )}
+                onClick={() => selectVariant(variant)}
+                disabled={variant.stock === 0}
+                aria-pressed={variant.id === selectedVariantId}
+              >
+                <span className="font-medium">{variant.name}</span>
+                <span className="text-xs text-muted-foreground">
+                  {variant.stock > 0 ? `${variant.price} LDC · 库存 ${variant.stock}` : "暂无库存"}
+                </span>
+              </Button>
+            ))}
+          </div>
+        </div>
+      ) : null}
+
       {/* Quantity */}
       <div className="space-y-2">
         <Label>数量</Label>
@@ -162,7 +287,7 @@ export function OrderForm({
               size="icon"
               className="h-9 w-9 rounded-r-none"
               onClick={() => updateQuantity(-1)}
-              disabled={quantity <= minQuantity}
+              disabled={quantity <= activeMinQuantity}
             >
               <Minus className="h-4 w-4" />
             </Button>
@@ -172,8 +297,8 @@ export function OrderForm({
               value={quantity}
               onChange={(e) => {
                 const val = parseInt(e.target.value);
-                if (!isNaN(val) && val >= minQuantity && val <= effectiveMax) {
-                  form.setValue("quantity", val);
+                if (!isNaN(val) && val >= activeMinQuantity && val <= effectiveMax) {
+                  setQuantity(val);
                 }
               }}
             />
@@ -189,27 +314,141 @@ export function OrderForm({
             </Button>
           </div>
           <span className="text-sm text-muted-foreground">
-            限购 {minQuantity}-{effectiveMax} 件
+            限购 {activeMinQuantity}-{effectiveMax} 件
           </span>
         </div>
       </div>
 
+      {/* Price Tiers */}
+      {tierRanges.length > 0 ? (
+        <div className="space-y-2">
+          <Label>批量优惠</Label>
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+            {tierRanges.map((range) => {
+              const isCurrent =
+                quantity >= range.minQuantity &&
+                (range.maxQuantity === null || quantity <= range.maxQuantity);
+              return (
+                <div
+                  key={range.minQuantity}
+                  className={cn(
+                    "rounded-md border px-3 py-2 text-sm",
+                    isCurrent && "border-primary bg-primary/5"
+                  )}
+                >
+                  <div className="text-xs text-muted-foreground">
+                    {range.maxQuantity === null
+                      ? `${range.minQuantity} 件及以上`
+                      : `${range.minQuantity}-${range.maxQuantity} 件`}
+                  </div>
+                  <div className="font-medium">{range.price} LDC/件</div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : null}
+
+      {/* Coupon */}
+      <div className="space-y-2">
+        <Label htmlFor="coupon-code">优惠码</Label>
+        {appliedCoupon ? (
+          <div className="flex items-center justify-between rounded-md border border-dashed px-3 py-2 text-sm">
+            <span className="flex items-center gap-2">
+              <TicketPercent className="h-4 w-4 text-emerald-600" />
+              <code className="font-mono">{appliedCoupon.code}</code>
+              <span className="text-emerald-600">-{appliedCoupon.discountAmount} LDC</span>
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => {
+                setAppliedCoupon(null);
+                setCouponInput("");
+              }}
+              aria-label="移除优惠码"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <Input
+              id="coupon-code"
+              placeholder="输入优惠码（可选）"
+              className="h-9 uppercase"
+              value={couponInput}
+              onChange={(e) => setCouponInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleApplyCoupon();
+                }
+              }}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              className="h-9"
+              onClick={handleApplyCoupon}
+              disabled={isCheckingCoupon}
+            >
+              {isCheckingCoupon ? <Loader2 className="h-4 w-4 animate-spin" /> : "使用"}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <PaymentMethodPicker
+        methods={paymentMethods}
+        value={paymentMethod}
+        onChange={setPaymentMethod}
+        disabled={isPending}
+      />
+
       {/* Total & Submit */}
       <div className="flex items-center justify-between pt-2">
         <div>
-          <span className="text-sm text-muted-foreground">{productName} × {quantity}</span>
-          <div className="text-xl font-bold">{totalPrice} LDC</div>
+          <span className="text-sm text-muted-foreground">
+            {formatVariantProductName(productName, selectedVariant?.name)} × {quantity}
+            {tierRanges.length > 0 || selectedVariant ? ` · 单价 ${unitPrice} LDC` : ""}
+          </span>
+          <div className="flex items-baseline gap-2">
+            <span className="text-xl font-bold">{totalPrice} LDC</span>
+            {appliedCoupon ? (
+              <span className="text-sm text-muted-foreground line-through">{originalTotal}</span>
+            ) : null}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            onClick={handleAddToCart}
+            disabled={isAddingToCart || isPending}
+            aria-label="加入购物车"
+            title="加入购物车"
+          >
+            {isAddingToCart ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <ShoppingCart className="h-4 w-4" />
+            )}
+          </Button>
+          <Button type="submit" disabled={isPending || isCheckingCoupon}>
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                处理中
+              </>
+            ) : (
+              "立即购买"
+            )}
+          </Button>
         </div>
-        <Button type="submit" disabled={isPending}>
-          {isPending ? (
-            <>
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              处理中
-            </>
-          ) : (
-            "立即购买"
-          )}
-        </Button>
       </div>
     </form>
   );
@@ -2,6 +2,7 @@ import { notFound } from "next/navigation";
 import Link from "next/link";
 import { cache } from "react";
 import { getProductBySlug } from "@/lib/actions/products";
+import { getAvailablePaymentMethods } from "@/lib/actions/payment-settings";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { ChevronLeft } from "lucide-react";
@@ -45,6 +46,15 @@ export default async function ProductPage({ params }: ProductPageProps) {
   }
 
   const isOutOfStock = product.stock === 0;
+  const paymentMethods = await getAvailablePaymentMethods();
+  // 启用规格时展示价格区间，具体单价在下单区选择规格后确定
+  const variantPrices = product.variants.map((variant) => parseFloat(variant.price));
+  const priceLabel =
+    variantPrices.length > 0
+      ? Math.min(...variantPrices) === Math.max(...variantPrices)
+        ? `${Math.min(...variantPrices).toFixed(2)} LDC`
+        : `${Math.min(...variantPrices).toFixed(2)} - ${Math.max(...variantPrices).toFixed(2)} LDC`
+      : `${product.price} LDC`;
   const hasDiscount =
     product.originalPrice &&
     parseFloat(product.originalPrice) > parseFloat(product.price);
@@ -91,8 +101,8 @@ export default async function ProductPage({ params }: ProductPageProps) {
       {/* Price & Stock */}
       <div className="mb-6 flex items-baseline justify-between rounded-lg border bg-muted/30 p-4">
         <div className="flex items-baseline gap-2">
-          <span className="text-2xl font-bold">{product.price} LDC</span>
-          {hasDiscount && (
+          <span className="text-2xl font-bold">{priceLabel}</span>
+          {hasDiscount && variantPrices.length === 0 && (
             <span className="text-sm text-muted-foreground line-through">
               {product.originalPrice} LDC
             </span>
@@ -134,9 +144,12 @@ export default async function ProductPage({ params }: ProductPageProps) {
             productId={product.id}
             productName={product.name}
             price={parseFloat(product.price)}
+            priceTiers={product.priceTiers}
+            variants={product.variants}
             stock={product.stock}
             minQuantity={product.minQuantity}
             maxQuantity={product.maxQuantity}
+            paymentMethods={paymentMethods}
           />
         </div>
       )}
@@ -68,7 +68,7 @@ function buildWhere(filters: {
 
 export async function GET(request: Request) {
   try {
-    await requireAdmin();
+    await requireAdmin("orders.view");
   } catch {
     return new Response("Unauthorized", { status: 401 });
   }
@@ -0,0 +1,34 @@
+import { requireAdmin } from "@/lib/auth-utils";
+import { getProfitReport } from "@/lib/actions/reports";
+import { buildProfitReportCsv } from "@/lib/reports";
+
+export async function GET(request: Request) {
+  try {
+    await requireAdmin("reports.view");
+  } catch {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const result = await getProfitReport({
+    period: url.searchParams.get("period") ?? undefined,
+    date: url.searchParams.get("date") ?? undefined,
+    dimension: url.searchParams.get("dimension") ?? undefined,
+  });
+
+  if (!result.success) {
+    return new Response(result.message, { status: 500 });
+  }
+
+  const { report } = result;
+  const body = buildProfitReportCsv(report);
+  const filename = `profit_${report.dimension}_${report.window.period}_${report.window.startDate}.csv`;
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename=\"${filename}\"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,35 @@
+/**
+ * 卡密过期定时任务入口：把超过有效期的可用卡密标记为 expired
+ * 鉴权方式与 /api/cron/reconcile 相同
+ */
+
+import crypto from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { revalidateCardCache } from "@/lib/cache";
+import { expireStaleCards } from "@/lib/card-expiry";
+import { isCronAuthorized } from "@/lib/cron";
+import { logger } from "@/lib/logger";
+import { checkStockAlerts } from "@/lib/stock-alerts";
+
+export async function GET(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") || crypto.randomUUID();
+  const log = logger.child({ requestId, route: "/api/cron/expire-cards" });
+
+  if (!isCronAuthorized(request)) {
+    log.warn("卡密过期任务鉴权失败");
+    return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await expireStaleCards();
+    if (result.expired > 0) {
+      log.info(result, "已标记过期卡密");
+      await revalidateCardCache();
+      await checkStockAlerts(result.productIds);
+    }
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    log.error({ err: error }, "卡密过期任务执行失败");
+    return NextResponse.json({ success: false, message: "卡密过期处理失败" }, { status: 500 });
+  }
+}
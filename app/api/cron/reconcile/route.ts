@@ -0,0 +1,36 @@
+/**
+ * 支付对账定时任务入口
+ * 使用 Authorization: Bearer ${CRON_SECRET} 鉴权（与 Vercel Cron 约定一致），未配置 CRON_SECRET 时拒绝访问
+ */
+
+import crypto from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { isCronAuthorized } from "@/lib/cron";
+import { reconcilePayments } from "@/lib/payment/reconcile";
+import { logger } from "@/lib/logger";
+
+function parsePositiveInt(value: string | null): number | undefined {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+export async function GET(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") || crypto.randomUUID();
+  const log = logger.child({ requestId, route: "/api/cron/reconcile" });
+
+  if (!isCronAuthorized(request)) {
+    log.warn("对账任务鉴权失败");
+    return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const report = await reconcilePayments({
+      expiredWithinHours: parsePositiveInt(request.nextUrl.searchParams.get("expiredWithinHours")),
+      limit: parsePositiveInt(request.nextUrl.searchParams.get("limit")),
+    });
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    log.error({ err: error }, "对账任务执行失败");
+    return NextResponse.json({ success: false, message: "对账失败" }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * 各支付通道的回调入口：/api/payment/{ldc|alipay|wechat}/notify
+ * 部分易支付网关以 POST 表单回调，GET/POST 均按同一逻辑处理
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { PaymentMethod } from "@/lib/db";
+import { handlePaymentNotify } from "@/lib/payment/notify-handler";
+import { isRegisteredPaymentMethod } from "@/lib/payment/registry";
+
+type RouteContext = { params: Promise<{ provider: string }> };
+
+// 只接受已接入通道的支付方式，未知或预留的支付方式直接 404，不写入回调日志
+function resolveMethod(provider: string): PaymentMethod | null {
+  return isRegisteredPaymentMethod(provider) ? provider : null;
+}
+
+async function handle(
+  request: NextRequest,
+  context: RouteContext,
+  params: Record<string, string>
+) {
+  const { provider } = await context.params;
+  const method = resolveMethod(provider);
+  if (!method) {
+    return new NextResponse("fail", { status: 404 });
+  }
+
+  return handlePaymentNotify({
+    method,
+    params,
+    requestId: request.headers.get("x-request-id") || crypto.randomUUID(),
+    route: `/api/payment/${method}/notify`,
+  });
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  return handle(request, context, Object.fromEntries(request.nextUrl.searchParams.entries()));
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  const formData = await request.formData().catch(() => null);
+  const params: Record<string, string> = Object.fromEntries(
+    request.nextUrl.searchParams.entries()
+  );
+  formData?.forEach((value, key) => {
+    if (typeof value === "string") params[key] = value;
+  });
+  return handle(request, context, params);
+}
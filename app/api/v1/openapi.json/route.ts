@@ -0,0 +1,12 @@
+/**
+ * 开放 API 的 OpenAPI 文档（公开访问，不需要密钥）
+ */
+
+import { NextResponse } from "next/server";
+
+import { buildOpenApiDocument } from "@/lib/api/openapi";
+import { getSiteUrl } from "@/lib/order-placement";
+
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument(await getSiteUrl()));
+}
@@ -0,0 +1,41 @@
+/**
+ * 开放 API：获取订单已发货的卡密
+ * 权限范围：cards:read；未支付或已全额退款的订单返回空列表，每次读取都会写入卡密查看记录
+ */
+
+import crypto from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+
+import { apiError, authorizeApiRequest } from "@/lib/api/keys";
+import { getApiOrderCards } from "@/lib/api/resources";
+import { logger } from "@/lib/logger";
+import { apiOrderNoSchema } from "@/lib/validations/api";
+
+type RouteContext = { params: Promise<{ orderNo: string }> };
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const requestId = request.headers.get("x-request-id") || crypto.randomUUID();
+  const log = logger.child({ requestId, route: "/api/v1/orders/[orderNo]/cards" });
+
+  try {
+    const auth = await authorizeApiRequest(request, "cards:read");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const orderNo = apiOrderNoSchema.safeParse((await context.params).orderNo);
+    if (!orderNo.success) {
+      return apiError(400, orderNo.error.issues[0].message, auth.headers);
+    }
+
+    const data = await getApiOrderCards(auth.apiKey, orderNo.data);
+    if (!data) {
+      return apiError(404, "订单不存在", auth.headers);
+    }
+
+    return NextResponse.json({ success: true, data }, { headers: auth.headers });
+  } catch (error) {
+    log.error({ err: error }, "开放 API 获取卡密失败");
+    return apiError(500, "获取卡密失败");
+  }
+}
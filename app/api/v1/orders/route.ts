@@ -0,0 +1,81 @@
+/**
+ * 开放 API：下单
+ * 权限范围：orders:create；订单归属于密钥绑定的 Linux DO 用户
+ *
+ * 返回的 payment 需要以表单 POST 方式提交到支付网关（与商店下单页一致），
+ * 调用方可自行渲染自动提交的表单，或交给用户浏览器完成支付
+ *
+ * 订单已创建（卡密已锁定）但支付表单生成失败时返回 202 与订单号、payment 为 null：
+ * 不能当作失败重试下单，否则每次重试都会多锁一份库存；未支付的订单到期后自动释放卡密
+ */
+
+import crypto from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+
+import { apiError, authorizeApiRequest } from "@/lib/api/keys";
+import { logger } from "@/lib/logger";
+import { placeProductOrder } from "@/lib/order-placement";
+import { createOrderSchema } from "@/lib/validations/order";
+
+export async function POST(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") || crypto.randomUUID();
+  const log = logger.child({ requestId, route: "/api/v1/orders" });
+
+  try {
+    const auth = await authorizeApiRequest(request, "orders:create");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return apiError(400, "请求体必须是 JSON", auth.headers);
+    }
+
+    const input = createOrderSchema.safeParse(body);
+    if (!input.success) {
+      return apiError(400, input.error.issues[0].message, auth.headers);
+    }
+
+    const { apiKey } = auth;
+    const result = await placeProductOrder(
+      { id: apiKey.userId, username: apiKey.username ?? undefined },
+      input.data,
+      log.child({ apiKeyId: apiKey.id })
+    );
+    if (!result.success || !result.orderNo) {
+      return apiError(400, result.message, auth.headers);
+    }
+
+    if (!result.paymentForm) {
+      return NextResponse.json(
+        {
+          success: true,
+          message: result.message,
+          data: { orderNo: result.orderNo, payment: null },
+        },
+        { status: 202, headers: auth.headers }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          orderNo: result.orderNo,
+          payment: {
+            url: result.paymentForm.actionUrl,
+            method: "POST",
+            params: result.paymentForm.params,
+          },
+        },
+      },
+      { status: 201, headers: auth.headers }
+    );
+  } catch (error) {
+    log.error({ err: error }, "开放 API 创建订单失败");
+    return apiError(500, "创建订单失败");
+  }
+}
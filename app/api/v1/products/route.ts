@@ -0,0 +1,37 @@
+/**
+ * 开放 API：上架商品列表（含可售库存）
+ * 权限范围：products:read
+ */
+
+import crypto from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+
+import { apiError, authorizeApiRequest } from "@/lib/api/keys";
+import { listApiProducts } from "@/lib/api/resources";
+import { logger } from "@/lib/logger";
+import { apiProductListQuerySchema } from "@/lib/validations/api";
+
+export async function GET(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") || crypto.randomUUID();
+  const log = logger.child({ requestId, route: "/api/v1/products" });
+
+  try {
+    const auth = await authorizeApiRequest(request, "products:read");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const query = apiProductListQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!query.success) {
+      return apiError(400, query.error.issues[0].message, auth.headers);
+    }
+
+    const data = await listApiProducts(query.data);
+    return NextResponse.json({ success: true, data }, { headers: auth.headers });
+  } catch (error) {
+    log.error({ err: error }, "开放 API 获取商品列表失败");
+    return apiError(500, "获取商品列表失败");
+  }
+}
@@ -17,9 +17,26 @@ import {
   Command,
   User,
   Megaphone,
+  TicketPercent,
+  Webhook,
+  PieChart,
+  BarChart3,
+  BellRing,
+  UserCog,
+  ShieldCheck,
+  ScrollText,
+  MonitorSmartphone,
+  KeyRound,
 } from "lucide-react";
 import { signOut, useSession } from "next-auth/react";
 
+import {
+  adminRoleLabels,
+  getAdminRoutePermission,
+  getSessionAdminRole,
+  hasAdminPermission,
+} from "@/lib/admin-permissions";
+
 import {
   Sidebar,
   SidebarContent,
@@ -66,11 +83,36 @@ const mainNavItems = [
     href: "/admin/cards",
     icon: CreditCard,
   },
+  {
+    title: "催补货",
+    href: "/admin/restock",
+    icon: BellRing,
+  },
   {
     title: "订单管理",
     href: "/admin/orders",
     icon: ShoppingCart,
   },
+  {
+    title: "销售分析",
+    href: "/admin/analytics",
+    icon: BarChart3,
+  },
+  {
+    title: "利润报表",
+    href: "/admin/reports",
+    icon: PieChart,
+  },
+  {
+    title: "支付回调",
+    href: "/admin/payment-callbacks",
+    icon: Webhook,
+  },
+  {
+    title: "优惠码",
+    href: "/admin/coupons",
+    icon: TicketPercent,
+  },
   {
     title: "顾客管理",
     href: "/admin/customers",
@@ -94,6 +136,31 @@ const settingsNavItems = [
     href: "/admin/system-config",
     icon: Settings,
   },
+  {
+    title: "管理员账号",
+    href: "/admin/admins",
+    icon: UserCog,
+  },
+  {
+    title: "操作日志",
+    href: "/admin/audit",
+    icon: ScrollText,
+  },
+  {
+    title: "账号安全",
+    href: "/admin/security",
+    icon: ShieldCheck,
+  },
+  {
+    title: "登录会话",
+    href: "/admin/sessions",
+    icon: MonitorSmartphone,
+  },
+  {
+    title: "API 密钥",
+    href: "/admin/api-keys",
+    icon: KeyRound,
+  },
 ];
 
 export function AppSidebar() {
@@ -101,6 +168,17 @@ export function AppSidebar() {
   // 为什么这样做：后台路由多为动态 Server Component，主动 prefetch 能把等待从“点击后”前移到“悬停时”，降低体感延迟。
   const router = useRouter();
   const { data: session } = useSession();
+  const adminRole = getSessionAdminRole(
+    session?.user as { role?: string; adminRole?: string } | undefined
+  );
+
+  // 按角色隐藏没有权限的入口（服务端仍会校验）
+  const canView = (href: string) => {
+    const permission = getAdminRoutePermission(href);
+    return !permission || (adminRole !== null && hasAdminPermission(adminRole, permission));
+  };
+  const visibleMainNavItems = mainNavItems.filter((item) => canView(item.href));
+  const visibleSettingsNavItems = settingsNavItems.filter((item) => canView(item.href));
 
   const isActive = (href: string) => {
     if (href === "/admin") {
@@ -136,7 +214,7 @@ export function AppSidebar() {
           <SidebarGroupLabel>主要功能</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {mainNavItems.map((item) => (
+              {visibleMainNavItems.map((item) => (
                 <SidebarMenuItem key={item.href}>
                   <SidebarMenuButton
                     asChild
@@ -158,31 +236,33 @@ export function AppSidebar() {
           </SidebarGroupContent>
         </SidebarGroup>
 
-        <SidebarGroup>
-          <SidebarGroupLabel>系统</SidebarGroupLabel>
-          <SidebarGroupContent>
-            <SidebarMenu>
-              {settingsNavItems.map((item) => (
-                <SidebarMenuItem key={item.href}>
-                  <SidebarMenuButton
-                    asChild
-                    isActive={isActive(item.href)}
-                    tooltip={item.title}
-                  >
-                    <Link
-                      href={item.href}
-                      onMouseEnter={() => router.prefetch(item.href)}
-                      onFocus={() => router.prefetch(item.href)}
+        {visibleSettingsNavItems.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>系统</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {visibleSettingsNavItems.map((item) => (
+                  <SidebarMenuItem key={item.href}>
+                    <SidebarMenuButton
+                      asChild
+                      isActive={isActive(item.href)}
+                      tooltip={item.title}
                     >
-                      <item.icon />
-                      <span>{item.title}</span>
-                    </Link>
-                  </SidebarMenuButton>
-                </SidebarMenuItem>
-              ))}
-            </SidebarMenu>
-          </SidebarGroupContent>
-        </SidebarGroup>
+                      <Link
+                        href={item.href}
+                        onMouseEnter={() => router.prefetch(item.href)}
+                        onFocus={() => router.prefetch(item.href)}
+                      >
+                        <item.icon />
+                        <span>{item.title}</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
       </SidebarContent>
 
       <SidebarFooter>
@@ -243,7 +323,7 @@ export function AppSidebar() {
                           {session?.user?.name || "管理员"}
                         </span>
                         <Badge variant="secondary" className="h-5 text-[10px] font-medium">
-                          管理员
+                          {adminRole ? adminRoleLabels[adminRole] : "管理员"}
                         </Badge>
                       </div>
                       <span className="text-xs text-muted-foreground">
@@ -264,16 +344,26 @@ export function AppSidebar() {
                       <span>访问前台</span>
                     </Link>
                   </DropdownMenuItem>
+                  {canView("/admin/settings") && (
+                    <DropdownMenuItem asChild className="cursor-pointer rounded-lg">
+                      <Link href="/admin/settings" className="flex items-center gap-2">
+                        <Activity className="size-4" />
+                        <span>系统状态</span>
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
+                  {canView("/admin/system-config") && (
+                    <DropdownMenuItem asChild className="cursor-pointer rounded-lg">
+                      <Link href="/admin/system-config" className="flex items-center gap-2">
+                        <Settings className="size-4" />
+                        <span>系统配置</span>
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem asChild className="cursor-pointer rounded-lg">
-                    <Link href="/admin/settings" className="flex items-center gap-2">
-                      <Activity className="size-4" />
-                      <span>系统状态</span>
-                    </Link>
-                  </DropdownMenuItem>
-                  <DropdownMenuItem asChild className="cursor-pointer rounded-lg">
-                    <Link href="/admin/system-config" className="flex items-center gap-2">
-                      <Settings className="size-4" />
-                      <span>系统配置</span>
+                    <Link href="/admin/security" className="flex items-center gap-2">
+                      <ShieldCheck className="size-4" />
+                      <span>账号安全</span>
                     </Link>
                   </DropdownMenuItem>
                 </DropdownMenuGroup>
@@ -0,0 +1,55 @@
+import { cn } from "@/lib/utils";
+
+interface MiniBarChartProps {
+  rows: Array<{ label: string; value: number }>;
+  highlightIndex?: number;
+  ariaLabel?: string;
+  /** 悬停提示中的数值格式，默认保留两位小数 */
+  formatValue?: (value: number) => string;
+  /** 每隔多少根柱子显示一个横轴标签（数据点较多时避免标签重叠），默认全部显示 */
+  labelEvery?: number;
+  className?: string;
+}
+
+export function MiniBarChart({
+  rows,
+  highlightIndex,
+  ariaLabel,
+  formatValue = (value) => value.toFixed(2),
+  labelEvery = 1,
+  className,
+}: MiniBarChartProps) {
+  const max = rows.reduce((acc, row) => Math.max(acc, row.value), 0);
+
+  return (
+    <div className={cn("w-full", className)} aria-label={ariaLabel} role="img">
+      <div className={cn("flex h-20 items-end", rows.length > 31 ? "gap-px" : "gap-1.5")}>
+        {rows.map((row, index) => {
+          const percent = max > 0 ? (row.value / max) * 100 : 0;
+          const isHighlight = highlightIndex === index;
+          return (
+            <div key={row.label} className="flex min-w-0 flex-1 flex-col items-center gap-1">
+              <div className="relative h-16 w-full">
+                <div
+                  className="absolute bottom-0 w-full rounded-md bg-zinc-200/70 dark:bg-zinc-800/70"
+                  style={{ height: `${Math.max(6, percent)}%` }}
+                  title={`${row.label}: ${formatValue(row.value)}`}
+                />
+                {isHighlight ? (
+                  <div
+                    className="absolute bottom-0 w-full rounded-md bg-emerald-500/70"
+                    style={{ height: `${Math.max(6, percent)}%` }}
+                    aria-hidden="true"
+                  />
+                ) : null}
+              </div>
+              <span className="h-3 whitespace-nowrap text-[10px] text-muted-foreground">
+                {index % labelEvery === 0 ? row.label : ""}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
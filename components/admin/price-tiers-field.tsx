@@ -0,0 +1,121 @@
+"use client";
+
+import { useFieldArray, type Control } from "react-hook-form";
+import { Plus, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import type { ProductInput } from "@/lib/validations/product";
+
+const MAX_TIERS = 10;
+
+/**
+ * 商品阶梯价编辑（新建/编辑商品页共用）
+ */
+export function PriceTiersField({ control }: { control: Control<ProductInput> }) {
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: "priceTiers",
+  });
+
+  const handleAppend = () => {
+    const last = fields[fields.length - 1];
+    append({
+      minQuantity: last ? last.minQuantity + 5 : 5,
+      price: last ? last.price : 0,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <FormLabel>阶梯价</FormLabel>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleAppend}
+          disabled={fields.length >= MAX_TIERS}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          添加档位
+        </Button>
+      </div>
+
+      {fields.map((item, index) => (
+        <div key={item.id} className="flex items-start gap-2">
+          <FormField
+            control={control}
+            name={`priceTiers.${index}.minQuantity`}
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={2}
+                    placeholder="起始数量"
+                    value={field.value}
+                    onChange={(e) => field.onChange(parseInt(e.target.value, 10) || 0)}
+                    aria-label="起始数量"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`priceTiers.${index}.price`}
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormControl>
+                  <Input
+                    type="number"
+                    step={1}
+                    min={1}
+                    placeholder="单价"
+                    value={field.value}
+                    onChange={(e) => field.onChange(parseInt(e.target.value, 10) || 0)}
+                    aria-label="单价"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="text-muted-foreground hover:text-destructive"
+            onClick={() => remove(index)}
+            aria-label="删除档位"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <FormField
+        control={control}
+        name="priceTiers"
+        render={() => (
+          <FormItem>
+            <FormDescription>
+              购买数量达到起始数量即按该档单价计算，未达到第一档时使用售价
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
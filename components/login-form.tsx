@@ -6,7 +6,7 @@ import { signIn } from "next-auth/react"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { z } from "zod"
-import { Loader2, Lock, AlertTriangle } from "lucide-react"
+import { Loader2, Lock, AlertTriangle, ShieldCheck } from "lucide-react"
 import { toast } from "sonner"
 
 import { cn } from "@/lib/utils"
@@ -25,7 +25,9 @@ import { LinuxDoLogo } from "@/components/icons/linuxdo-logo"
 import { adminLogin } from "@/lib/actions/auth"
 
 const loginSchema = z.object({
+  username: z.string().trim().max(32, "用户名最多32字符"),
   password: z.string().min(1, "请输入密码"),
+  totpCode: z.string().trim().max(32, "验证码格式错误"),
 })
 
 type LoginFormValues = z.infer<typeof loginSchema>
@@ -38,6 +40,8 @@ export function LoginForm({
   const [isOAuthLoading, setIsOAuthLoading] = useState(false)
   const [loginError, setLoginError] = useState<string | null>(null)
   const [isBlocked, setIsBlocked] = useState(false)
+  // 第二步：账号启用了两步验证，密码校验通过后输入验证码
+  const [requiresTotp, setRequiresTotp] = useState(false)
   const router = useRouter()
   const searchParams = useSearchParams()
   const callbackUrl = searchParams.get("callbackUrl") || "/admin"
@@ -45,16 +49,32 @@ export function LoginForm({
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
     defaultValues: {
+      username: "",
       password: "",
+      totpCode: "",
     },
   })
 
   const onSubmit = async (values: LoginFormValues) => {
+    if (requiresTotp && !values.totpCode) {
+      setLoginError("请输入验证码")
+      return
+    }
+
     setIsLoading(true)
     setLoginError(null)
 
     try {
-      const result = await adminLogin(values.password)
+      const result = await adminLogin({
+        username: values.username || undefined,
+        password: values.password,
+        totpCode: requiresTotp ? values.totpCode : undefined,
+      })
+
+      if (result.requiresTotp && !requiresTotp) {
+        setRequiresTotp(true)
+        return
+      }
 
       if (!result.success) {
         setLoginError(result.message)
@@ -76,6 +96,13 @@ export function LoginForm({
     }
   }
 
+  const handleBackToPassword = () => {
+    setRequiresTotp(false)
+    setLoginError(null)
+    form.setValue("totpCode", "")
+    form.setValue("password", "")
+  }
+
   const handleLinuxDoLogin = async () => {
     setIsOAuthLoading(true)
     try {
@@ -109,7 +136,7 @@ export function LoginForm({
                 </div>
                 <h1 className="text-2xl font-bold">管理员登录</h1>
                 <p className="text-muted-foreground text-balance">
-                  请使用管理密码或 Linux DO 账号登录
+                  请使用管理员账号或 Linux DO 账号登录
                 </p>
               </div>
               {/* 锁定警告 */}
@@ -123,40 +150,104 @@ export function LoginForm({
                 </div>
               )}
 
-              <Field>
-                <FieldLabel htmlFor="password">管理密码</FieldLabel>
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder="输入管理密码"
-                  className={cn(
-                    "h-11",
-                    loginError && !isBlocked && "border-red-500 focus-visible:ring-red-500"
+              {requiresTotp ? (
+                <Field>
+                  <FieldLabel htmlFor="totpCode" className="flex items-center gap-2">
+                    <ShieldCheck className="h-4 w-4" />
+                    两步验证码
+                  </FieldLabel>
+                  <Input
+                    id="totpCode"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    placeholder="6 位验证码或恢复码"
+                    className={cn(
+                      "h-11 font-mono tracking-widest",
+                      loginError && !isBlocked && "border-red-500 focus-visible:ring-red-500"
+                    )}
+                    autoFocus
+                    disabled={isDisabled}
+                    {...form.register("totpCode", {
+                      onChange: () => {
+                        if (loginError && !isBlocked) setLoginError(null)
+                      }
+                    })}
+                  />
+                  <FieldDescription>
+                    打开验证器 App 查看验证码；手机不在身边时可输入一个恢复码（每个仅能使用一次）
+                  </FieldDescription>
+                  {loginError && !isBlocked && (
+                    <FieldError>{loginError}</FieldError>
                   )}
-                  autoFocus
-                  disabled={isDisabled}
-                  {...form.register("password", {
-                    onChange: () => {
-                      if (loginError && !isBlocked) setLoginError(null)
-                    }
-                  })}
-                />
-                {form.formState.errors.password && (
-                  <FieldError>
-                    {form.formState.errors.password.message}
-                  </FieldError>
-                )}
-                {loginError && !isBlocked && (
-                  <FieldError>{loginError}</FieldError>
-                )}
-              </Field>
+                  <Button
+                    type="button"
+                    variant="link"
+                    className="h-auto self-start p-0 text-sm"
+                    disabled={isLoading}
+                    onClick={handleBackToPassword}
+                  >
+                    返回重新输入密码
+                  </Button>
+                </Field>
+              ) : (
+                <>
+                  <Field>
+                    <FieldLabel htmlFor="username">用户名</FieldLabel>
+                    <Input
+                      id="username"
+                      autoComplete="username"
+                      placeholder="输入用户名"
+                      className="h-11"
+                      autoFocus
+                      disabled={isDisabled}
+                      {...form.register("username", {
+                        onChange: () => {
+                          if (loginError && !isBlocked) setLoginError(null)
+                        }
+                      })}
+                    />
+                    <FieldDescription>
+                      首次部署尚未创建账号时留空，使用 ADMIN_PASSWORD 登录
+                    </FieldDescription>
+                  </Field>
+                  <Field>
+                    <FieldLabel htmlFor="password">密码</FieldLabel>
+                    <Input
+                      id="password"
+                      type="password"
+                      autoComplete="current-password"
+                      placeholder="输入密码"
+                      className={cn(
+                        "h-11",
+                        loginError && !isBlocked && "border-red-500 focus-visible:ring-red-500"
+                      )}
+                      disabled={isDisabled}
+                      {...form.register("password", {
+                        onChange: () => {
+                          if (loginError && !isBlocked) setLoginError(null)
+                        }
+                      })}
+                    />
+                    {form.formState.errors.password && (
+                      <FieldError>
+                        {form.formState.errors.password.message}
+                      </FieldError>
+                    )}
+                    {loginError && !isBlocked && (
+                      <FieldError>{loginError}</FieldError>
+                    )}
+                  </Field>
+                </>
+              )}
               <Field>
                 <Button type="submit" className="h-11" disabled={isDisabled}>
                   {isLoading ? (
                     <>
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      登录中...
+                      {requiresTotp ? "验证中..." : "登录中..."}
                     </>
+                  ) : requiresTotp ? (
+                    "验证"
                   ) : (
                     "登录"
                   )}
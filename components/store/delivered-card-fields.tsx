@@ -0,0 +1,67 @@
+"use client";
+
+import { useState } from "react";
+import { CheckCircle2, Copy } from "lucide-react";
+import { toast } from "sonner";
+
+import { cn } from "@/lib/utils";
+import { formatLocalTime } from "@/lib/time";
+import type { CardField } from "@/lib/card-import";
+import { Button } from "@/components/ui/button";
+
+interface DeliveredCardFieldsProps {
+  fields: CardField[];
+  expiresAt?: Date | string | null;
+  className?: string;
+}
+
+/**
+ * 结构化卡密（账号 / 密码 / 辅助邮箱等）按字段逐行展示，每个字段可单独复制
+ */
+export function DeliveredCardFields({ fields, expiresAt, className }: DeliveredCardFieldsProps) {
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+
+  const copyField = async (field: CardField, index: number) => {
+    try {
+      await navigator.clipboard.writeText(field.value);
+      setCopiedIndex(index);
+      toast.success(`已复制${field.label}`);
+      setTimeout(() => setCopiedIndex(null), 1500);
+    } catch {
+      toast.error("复制失败");
+    }
+  };
+
+  return (
+    <div className={cn("min-w-0 flex-1 space-y-1", className)}>
+      {fields.map((field, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <span className="w-20 shrink-0 truncate text-xs text-muted-foreground" title={field.label}>
+            {field.label}
+          </span>
+          <code className="min-w-0 flex-1 break-all font-mono text-xs select-all">{field.value}</code>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 shrink-0"
+            onClick={(e) => {
+              e.stopPropagation();
+              copyField(field, index);
+            }}
+            aria-label={`复制${field.label}`}
+            title={`复制${field.label}`}
+          >
+            {copiedIndex === index ? (
+              <CheckCircle2 className="h-3 w-3 text-emerald-600" />
+            ) : (
+              <Copy className="h-3 w-3" />
+            )}
+          </Button>
+        </div>
+      ))}
+      {expiresAt ? (
+        <div className="text-[11px] text-muted-foreground">有效期至 {formatLocalTime(expiresAt)}</div>
+      ) : null}
+    </div>
+  );
+}
@@ -213,6 +213,14 @@ export function Header({ siteName = "LDC Store", siteIcon }: HeaderProps) {
               <TrendingUp className="h-4 w-4" />
             </Link>
           </Button>
+
+          {isLoggedIn ? (
+            <Button asChild variant="ghost" size="icon-sm" aria-label="购物车">
+              <Link href="/cart">
+                <ShoppingCart className="h-4 w-4" />
+              </Link>
+            </Button>
+          ) : null}
           
           {/* 用户状态 */}
           {status === "loading" ? (
@@ -241,6 +249,7 @@ export function Header({ siteName = "LDC Store", siteIcon }: HeaderProps) {
                     我的订单
                   </Link>
                 </DropdownMenuItem>
+
                 {isAdmin && (
                   <DropdownMenuItem asChild>
                     <Link href="/admin" className="cursor-pointer">
@@ -0,0 +1,50 @@
+"use client";
+
+import type { PaymentMethod } from "@/lib/db";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  ldc: "LDC 积分",
+  alipay: "支付宝",
+  wechat: "微信支付",
+  usdt: "USDT",
+};
+
+interface PaymentMethodPickerProps {
+  methods: PaymentMethod[];
+  value: PaymentMethod;
+  onChange: (method: PaymentMethod) => void;
+  disabled?: boolean;
+}
+
+/**
+ * 支付方式选择（商品下单与购物车结算共用）
+ * 仅有一种支付方式时不渲染，保持原有下单流程
+ */
+export function PaymentMethodPicker({ methods, value, onChange, disabled }: PaymentMethodPickerProps) {
+  if (methods.length <= 1) return null;
+
+  return (
+    <div className="space-y-2">
+      <Label>支付方式</Label>
+      <div className="flex flex-wrap gap-2">
+        {methods.map((method) => (
+          <Button
+            key={method}
+            type="button"
+            variant="outline"
+            size="sm"
+            className={cn(method === value && "border-primary bg-primary/5")}
+            onClick={() => onChange(method)}
+            disabled={disabled}
+            aria-pressed={method === value}
+          >
+            {PAYMENT_METHOD_LABELS[method]}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+"use server";
+
+import { and, desc, eq, gte, lt, sql, type SQL } from "drizzle-orm";
+import { db, adminAuditLogs, type AdminAuditLog } from "@/lib/db";
+import { requireAdmin } from "@/lib/auth-utils";
+import { ADMIN_AUDIT_ENTITY_TYPES, type AdminAuditEntityType } from "@/lib/admin-audit";
+import {
+  addLocalDays,
+  formatLocalDate,
+  getLocalDateRangeSql,
+  getStatsTimeZone,
+  parseLocalDate,
+} from "@/lib/time/stats";
+
+const PAGE_SIZE = 50;
+
+export interface AdminAuditLogPage {
+  items: AdminAuditLog[];
+  total: number;
+  page: number;
+  pageSize: number;
+  // 筛选下拉用：出现过的操作人
+  actors: Array<{ id: string; name: string | null }>;
+}
+
+/**
+ * 获取后台操作审计日志（按时间倒序分页）
+ * from / to 为业务时区下的日期（YYYY-MM-DD，包含 to 当天）
+ */
+export async function getAdminAuditLogs(options: {
+  page?: number;
+  actorId?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: string;
+  to?: string;
+} = {}): Promise<AdminAuditLogPage> {
+  const page = Math.max(1, Math.floor(options.page ?? 1));
+  const empty = { items: [], total: 0, page, pageSize: PAGE_SIZE, actors: [] };
+
+  try {
+    await requireAdmin("audit.view");
+  } catch {
+    return empty;
+  }
+
+  const conditions: SQL[] = [];
+  const actorId = options.actorId?.trim();
+  if (actorId) {
+    conditions.push(eq(adminAuditLogs.actorId, actorId));
+  }
+  if (
+    options.entityType &&
+    ADMIN_AUDIT_ENTITY_TYPES.includes(options.entityType as AdminAuditEntityType)
+  ) {
+    conditions.push(eq(adminAuditLogs.entityType, options.entityType));
+  }
+  const entityId = options.entityId?.trim();
+  if (entityId) {
+    conditions.push(eq(adminAuditLogs.entityId, entityId));
+  }
+
+  const timeZone = getStatsTimeZone();
+  const fromDate = options.from ? parseLocalDate(options.from) : null;
+  const toDate = options.to ? parseLocalDate(options.to) : null;
+  if (fromDate || toDate) {
+    // 只填一端时另一端不限制，这里的占位日期不会进入查询条件
+    const startDate = formatLocalDate(fromDate ?? new Date(0));
+    const endDate = formatLocalDate(addLocalDays(toDate ?? new Date(0), 1));
+    const { start, end } = getLocalDateRangeSql(timeZone, startDate, endDate);
+    if (fromDate) conditions.push(gte(adminAuditLogs.createdAt, start));
+    if (toDate) conditions.push(lt(adminAuditLogs.createdAt, end));
+  }
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+  const [items, [{ total }], actors] = await Promise.all([
+    db.query.adminAuditLogs.findMany({
+      where,
+      orderBy: [desc(adminAuditLogs.createdAt)],
+      limit: PAGE_SIZE,
+      offset: (page - 1) * PAGE_SIZE,
+    }),
+    db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(adminAuditLogs)
+      .where(where),
+    db
+      .select({
+        id: adminAuditLogs.actorId,
+        name: sql<string | null>`max(${adminAuditLogs.actorName})`,
+      })
+      .from(adminAuditLogs)
+      .groupBy(adminAuditLogs.actorId)
+      .orderBy(adminAuditLogs.actorId),
+  ]);
+
+  return { items, total, page, pageSize: PAGE_SIZE, actors };
+}
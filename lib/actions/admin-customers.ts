@@ -47,7 +47,7 @@ export async function getAdminCustomersPage(input: {
   pageSize: number;
   filters?: AdminCustomersFilters;
 }): Promise<AdminCustomersPageResult> {
-  await requireAdmin();
+  await requireAdmin("customers.view");
 
   const page = normalizePage(input.page, 1);
   const pageSize = normalizePageSize(input.pageSize, 20);
@@ -66,11 +66,11 @@ export async function getAdminCustomersPage(input: {
           user_id,
           (ARRAY_AGG(username ORDER BY created_at DESC))[1] AS username,
           COUNT(*)::int AS order_count,
-          COALESCE(SUM(total_amount::numeric), 0)::text AS total_spent,
+          COALESCE(SUM(total_amount::numeric - refunded_amount::numeric), 0)::text AS total_spent,
           MIN(paid_at) AS first_paid_at,
           MAX(paid_at) AS last_paid_at
         FROM orders
-        WHERE status = 'completed' AND user_id IS NOT NULL
+        WHERE status IN ('completed', 'partially_refunded') AND user_id IS NOT NULL
         GROUP BY user_id
       )
       SELECT user_id, username, order_count, total_spent, first_paid_at, last_paid_at
@@ -85,7 +85,7 @@ export async function getAdminCustomersPage(input: {
           user_id,
           (ARRAY_AGG(username ORDER BY created_at DESC))[1] AS username
         FROM orders
-        WHERE status = 'completed' AND user_id IS NOT NULL
+        WHERE status IN ('completed', 'partially_refunded') AND user_id IS NOT NULL
         GROUP BY user_id
       )
       SELECT COUNT(*)::int AS count
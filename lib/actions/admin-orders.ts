@@ -2,6 +2,7 @@
 
 import {
   db,
+  cardAccessEvents,
   cards,
   orders,
   type Order,
@@ -10,8 +11,11 @@ import {
   type PaymentMethod,
 } from "@/lib/db";
 import { requireAdmin } from "@/lib/auth-utils";
+import { pickAuditFields, recordAdminAudit } from "@/lib/admin-audit";
+import { recordCardAccess } from "@/lib/card-access";
+import { decryptCardContent } from "@/lib/card-crypto";
 import { revalidatePath } from "next/cache";
-import { and, eq, ilike, inArray, or, sql, type SQL } from "drizzle-orm";
+import { and, desc, eq, ilike, inArray, or, sql, type SQL } from "drizzle-orm";
 
 export interface AdminOrdersFilters {
   status?: OrderStatus;
@@ -48,6 +52,7 @@ export interface AdminOrdersPageResult {
 
 export interface AdminOrderDetailCardItem {
   id: string;
+  productId: string;
   content: string;
   status: CardStatus;
   lockedAt: string | null;
@@ -55,6 +60,38 @@ export interface AdminOrderDetailCardItem {
   createdAt: string;
 }
 
+export interface AdminOrderDetailLineItem {
+  id: string;
+  productId: string | null;
+  productName: string;
+  productPrice: string;
+  quantity: number;
+  subtotal: string;
+}
+
+export interface AdminOrderDetailRefundItem {
+  id: string;
+  amount: string;
+  cardIds: string[];
+  cardCount: number;
+  reason: string | null;
+  remark: string | null;
+  operator: string | null;
+  createdAt: string;
+}
+
+export interface AdminOrderDetailAccessEvent {
+  id: string;
+  cardId: string;
+  source: string;
+  actorType: string;
+  actorId: string | null;
+  actorName: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
 export interface AdminOrderDetail {
   id: string;
   orderNo: string;
@@ -63,6 +100,9 @@ export interface AdminOrderDetail {
   productPrice: string;
   quantity: number;
   totalAmount: string;
+  couponCode: string | null;
+  discountAmount: string;
+  refundedAmount: string;
   paymentMethod: PaymentMethod;
   status: OrderStatus;
   tradeNo: string | null;
@@ -78,7 +118,11 @@ export interface AdminOrderDetail {
   updatedAt: string;
   refundRequestedAt: string | null;
   refundedAt: string | null;
+  items: AdminOrderDetailLineItem[];
   cards: AdminOrderDetailCardItem[];
+  refunds: AdminOrderDetailRefundItem[];
+  // 卡密查看记录（最近在前，本次查看不计入）
+  accessEvents: AdminOrderDetailAccessEvent[];
   product?: {
     id: string;
     name: string;
@@ -193,7 +237,7 @@ export async function getAdminOrdersPage(input: {
   pageSize: number;
   filters?: AdminOrdersFilters;
 }): Promise<AdminOrdersPageResult> {
-  await requireAdmin();
+  await requireAdmin("orders.view");
 
   const page = Math.max(1, Math.floor(input.page || 1));
   const pageSize = Math.min(200, Math.max(1, Math.floor(input.pageSize || 20)));
@@ -247,9 +291,21 @@ export async function getAdminOrdersPage(input: {
   };
 }
 
+// 删除订单时写入审计日志的字段
+const ORDER_DELETE_AUDIT_FIELDS = [
+  "orderNo",
+  "status",
+  "productName",
+  "totalAmount",
+  "username",
+  "tradeNo",
+  "createdAt",
+] as const;
+
 export async function deleteAdminOrders(orderIds: string[]): Promise<DeleteAdminOrdersResult> {
+  let admin;
   try {
-    await requireAdmin();
+    admin = await requireAdmin("orders.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -266,7 +322,16 @@ export async function deleteAdminOrders(orderIds: string[]): Promise<DeleteAdmin
   try {
     const result = await db.transaction(async (tx) => {
       const found = await tx
-        .select({ id: orders.id })
+        .select({
+          id: orders.id,
+          orderNo: orders.orderNo,
+          status: orders.status,
+          productName: orders.productName,
+          totalAmount: orders.totalAmount,
+          username: orders.username,
+          tradeNo: orders.tradeNo,
+          createdAt: orders.createdAt,
+        })
         .from(orders)
         .where(inArray(orders.id, uniqueIds));
 
@@ -277,6 +342,7 @@ export async function deleteAdminOrders(orderIds: string[]): Promise<DeleteAdmin
       if (foundIds.length === 0) {
         return {
           deletedCount: 0,
+          deletedOrders: [],
           notFoundIds,
         };
       }
@@ -296,12 +362,24 @@ export async function deleteAdminOrders(orderIds: string[]): Promise<DeleteAdmin
         .where(inArray(orders.id, foundIds))
         .returning({ id: orders.id });
 
+      const deletedIdSet = new Set(deleted.map((row) => row.id));
       return {
         deletedCount: deleted.length,
+        deletedOrders: found.filter((row) => deletedIdSet.has(row.id)),
         notFoundIds,
       };
     });
 
+    await recordAdminAudit(
+      admin.user,
+      result.deletedOrders.map((order) => ({
+        action: "order.delete",
+        entityType: "order" as const,
+        entityId: order.id,
+        before: pickAuditFields(order, ORDER_DELETE_AUDIT_FIELDS),
+      }))
+    );
+
     // 动态页通常无需 revalidate，但保留可兼容未来改为缓存页面的场景
     revalidatePath("/admin/orders");
 
@@ -338,6 +416,7 @@ export async function deleteAdminOrders(orderIds: string[]): Promise<DeleteAdmin
 
 function serializeAdminOrderDetailCard(row: {
   id: string;
+  productId: string;
   content: string;
   status: CardStatus;
   lockedAt: unknown;
@@ -346,7 +425,8 @@ function serializeAdminOrderDetailCard(row: {
 }): AdminOrderDetailCardItem {
   return {
     id: row.id,
-    content: row.content,
+    productId: row.productId,
+    content: decryptCardContent(row.content),
     status: row.status,
     lockedAt: toIsoString(row.lockedAt),
     soldAt: toIsoString(row.soldAt),
@@ -354,9 +434,12 @@ function serializeAdminOrderDetailCard(row: {
   };
 }
 
+const ACCESS_EVENTS_LIMIT = 200;
+
 export async function getAdminOrderDetail(orderId: string): Promise<AdminOrderDetailResult> {
+  let admin;
   try {
-    await requireAdmin();
+    admin = await requireAdmin("orders.view");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -377,9 +460,21 @@ export async function getAdminOrderDetail(orderId: string): Promise<AdminOrderDe
             slug: true,
           },
         },
+        items: {
+          columns: {
+            id: true,
+            productId: true,
+            productName: true,
+            productPrice: true,
+            quantity: true,
+            subtotal: true,
+          },
+          orderBy: (i, { asc }) => [asc(i.createdAt)],
+        },
         cards: {
           columns: {
             id: true,
+            productId: true,
             content: true,
             status: true,
             lockedAt: true,
@@ -388,6 +483,9 @@ export async function getAdminOrderDetail(orderId: string): Promise<AdminOrderDe
           },
           orderBy: (c, { asc }) => [asc(c.createdAt)],
         },
+        refunds: {
+          orderBy: (r, { asc }) => [asc(r.createdAt)],
+        },
       },
     });
 
@@ -395,6 +493,18 @@ export async function getAdminOrderDetail(orderId: string): Promise<AdminOrderDe
       return { success: false, message: "订单不存在或已删除" };
     }
 
+    const accessEvents = await db.query.cardAccessEvents.findMany({
+      where: eq(cardAccessEvents.orderId, order.id),
+      orderBy: [desc(cardAccessEvents.createdAt)],
+      limit: ACCESS_EVENTS_LIMIT,
+    });
+
+    await recordCardAccess(
+      order.cards.map((card) => ({ id: card.id, orderId: order.id })),
+      { type: "admin", id: admin.user.id, name: admin.user.name },
+      "admin_order_detail"
+    );
+
     return {
       success: true,
       message: "ok",
@@ -406,6 +516,9 @@ export async function getAdminOrderDetail(orderId: string): Promise<AdminOrderDe
         productPrice: order.productPrice,
         quantity: order.quantity,
         totalAmount: order.totalAmount,
+        couponCode: order.couponCode ?? null,
+        discountAmount: order.discountAmount,
+        refundedAmount: order.refundedAmount,
         paymentMethod: order.paymentMethod,
         status: order.status,
         tradeNo: order.tradeNo ?? null,
@@ -421,7 +534,36 @@ export async function getAdminOrderDetail(orderId: string): Promise<AdminOrderDe
         updatedAt: toIsoString(order.updatedAt) ?? "",
         refundRequestedAt: toIsoString(order.refundRequestedAt),
         refundedAt: toIsoString(order.refundedAt),
+        items: order.items.map((item) => ({
+          id: item.id,
+          productId: item.productId ?? null,
+          productName: item.productName,
+          productPrice: item.productPrice,
+          quantity: item.quantity,
+          subtotal: item.subtotal,
+        })),
         cards: order.cards.map(serializeAdminOrderDetailCard),
+        refunds: order.refunds.map((refund) => ({
+          id: refund.id,
+          amount: refund.amount,
+          cardIds: refund.cardIds,
+          cardCount: refund.cardCount,
+          reason: refund.reason ?? null,
+          remark: refund.remark ?? null,
+          operator: refund.operator ?? null,
+          createdAt: toIsoString(refund.createdAt) ?? "",
+        })),
+        accessEvents: accessEvents.map((event) => ({
+          id: event.id,
+          cardId: event.cardId,
+          source: event.source,
+          actorType: event.actorType,
+          actorId: event.actorId ?? null,
+          actorName: event.actorName ?? null,
+          ipAddress: event.ipAddress ?? null,
+          userAgent: event.userAgent ?? null,
+          createdAt: toIsoString(event.createdAt) ?? "",
+        })),
         product: order.product
           ? {
               id: order.product.id,
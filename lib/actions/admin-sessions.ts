@@ -0,0 +1,133 @@
+"use server";
+
+import { and, desc, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+
+import { db, adminSessions, type AdminSession } from "@/lib/db";
+import { requireAdmin } from "@/lib/auth-utils";
+import { hasAdminPermission } from "@/lib/admin-permissions";
+import { recordAdminAudit } from "@/lib/admin-audit";
+import { activeAdminSessionCondition, revokeAdminSessions } from "@/lib/admin-sessions";
+
+export interface AdminSessionList {
+  items: AdminSession[];
+  currentSessionId: string | null;
+  // 所有者可查看、下线全部管理员的会话；其他角色只能管理自己的会话
+  canManageAll: boolean;
+}
+
+/**
+ * 获取有效的管理员登录会话（按最近访问时间倒序）
+ */
+export async function getAdminSessions(): Promise<AdminSessionList> {
+  const empty = { items: [], currentSessionId: null, canManageAll: false };
+
+  let admin;
+  try {
+    admin = await requireAdmin();
+  } catch {
+    return empty;
+  }
+
+  const canManageAll = hasAdminPermission(admin.user.adminRole, "admins.manage");
+  const items = await db.query.adminSessions.findMany({
+    where: canManageAll
+      ? activeAdminSessionCondition()
+      : and(activeAdminSessionCondition(), eq(adminSessions.actorId, admin.user.id)),
+    orderBy: [desc(adminSessions.lastSeenAt)],
+  });
+
+  return { items, currentSessionId: admin.user.adminSessionId ?? null, canManageAll };
+}
+
+/**
+ * 下线指定会话
+ */
+export async function revokeAdminSession(sessionId: string): Promise<{
+  success: boolean;
+  message: string;
+}> {
+  let admin;
+  try {
+    admin = await requireAdmin();
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  if (sessionId === admin.user.adminSessionId) {
+    return { success: false, message: "不能下线当前会话，请使用退出登录" };
+  }
+
+  const canManageAll = hasAdminPermission(admin.user.adminRole, "admins.manage");
+
+  try {
+    const revoked = await revokeAdminSessions(
+      { sessionId, actorId: canManageAll ? undefined : admin.user.id },
+      admin.user.id
+    );
+    if (revoked.length === 0) {
+      return { success: false, message: "会话不存在或已失效" };
+    }
+
+    await recordAdminAudit(admin.user, {
+      action: "admin_session.revoke",
+      entityType: "admin_session",
+      entityId: sessionId,
+      before: { actorId: revoked[0].actorId, actorName: revoked[0].actorName },
+    });
+
+    revalidatePath("/admin/sessions");
+    return { success: true, message: "会话已下线" };
+  } catch (error) {
+    console.error("下线会话失败:", error);
+    return { success: false, message: "下线会话失败" };
+  }
+}
+
+/**
+ * 下线除当前会话外的全部会话（所有者为全部管理员的会话，其他角色为自己的会话）
+ */
+export async function revokeOtherAdminSessions(): Promise<{
+  success: boolean;
+  message: string;
+  revokedCount?: number;
+}> {
+  let admin;
+  try {
+    admin = await requireAdmin();
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  const canManageAll = hasAdminPermission(admin.user.adminRole, "admins.manage");
+
+  try {
+    const revoked = await revokeAdminSessions(
+      {
+        actorId: canManageAll ? undefined : admin.user.id,
+        exceptSessionId: admin.user.adminSessionId,
+      },
+      admin.user.id
+    );
+
+    await recordAdminAudit(
+      admin.user,
+      revoked.map((session) => ({
+        action: "admin_session.revoke",
+        entityType: "admin_session" as const,
+        entityId: session.id,
+        before: { actorId: session.actorId, actorName: session.actorName },
+      }))
+    );
+
+    revalidatePath("/admin/sessions");
+    return {
+      success: true,
+      message: revoked.length > 0 ? `已下线 ${revoked.length} 个会话` : "没有其他会话",
+      revokedCount: revoked.length,
+    };
+  } catch (error) {
+    console.error("下线其他会话失败:", error);
+    return { success: false, message: "下线其他会话失败" };
+  }
+}
@@ -0,0 +1,278 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import QRCode from "qrcode";
+
+import { db, adminUsers } from "@/lib/db";
+import { requireAdmin } from "@/lib/auth-utils";
+import { verifyAdminSecondFactor } from "@/lib/admin-users";
+import { getSystemSettings } from "@/lib/actions/system-settings";
+import { checkRateLimit, clearRateLimit, recordFailedAttempt } from "@/lib/rate-limit";
+import {
+  buildTotpUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotpCode,
+} from "@/lib/totp";
+
+export interface TwoFactorStatus {
+  // 只有数据库管理员账号可以绑定（ADMIN_PASSWORD 初始化登录与 Linux DO 白名单管理员不支持）
+  available: boolean;
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * 当前登录账号的管理员 ID；不是数据库账号时返回 null
+ */
+async function getCurrentAdminUserId(): Promise<string | null> {
+  const admin = await requireAdmin();
+  return admin.user.adminUserId ?? null;
+}
+
+/**
+ * 已登录状态下提交验证码（关闭两步验证、重新生成恢复码）同样走登录失败限流，避免会话被盗后暴力尝试
+ */
+async function verifyCurrentSecondFactor(
+  adminUserId: string,
+  code: string
+): Promise<{ success: true } | { success: false; message: string }> {
+  const identifier = `2fa:${adminUserId}`;
+  const rateLimit = await checkRateLimit(identifier);
+  if (!rateLimit.success) {
+    return { success: false, message: rateLimit.message || "尝试次数过多，请稍后再试" };
+  }
+
+  if (!(await verifyAdminSecondFactor(adminUserId, code.trim()))) {
+    const failResult = await recordFailedAttempt(identifier);
+    return {
+      success: false,
+      message: failResult.blocked
+        ? failResult.message || "尝试次数过多，请稍后再试"
+        : "验证码错误",
+    };
+  }
+
+  await clearRateLimit(identifier);
+  return { success: true };
+}
+
+export async function getTwoFactorStatus(): Promise<TwoFactorStatus> {
+  const empty: TwoFactorStatus = {
+    available: false,
+    enabled: false,
+    enabledAt: null,
+    recoveryCodesRemaining: 0,
+  };
+
+  let adminUserId;
+  try {
+    adminUserId = await getCurrentAdminUserId();
+  } catch {
+    return empty;
+  }
+  if (!adminUserId) return empty;
+
+  const account = await db.query.adminUsers.findFirst({
+    columns: { totpEnabledAt: true, totpRecoveryCodes: true },
+    where: eq(adminUsers.id, adminUserId),
+  });
+  if (!account) return empty;
+
+  return {
+    available: true,
+    enabled: !!account.totpEnabledAt,
+    enabledAt: account.totpEnabledAt,
+    recoveryCodesRemaining: account.totpEnabledAt ? account.totpRecoveryCodes.length : 0,
+  };
+}
+
+/**
+ * 开始绑定：生成新密钥（尚未启用），返回二维码与手动输入用的密钥
+ */
+export async function startTwoFactorSetup(): Promise<{
+  success: boolean;
+  message: string;
+  secret?: string;
+  qrSvg?: string;
+}> {
+  let adminUserId;
+  try {
+    adminUserId = await getCurrentAdminUserId();
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+  if (!adminUserId) {
+    return { success: false, message: "请使用管理员账号登录后再绑定两步验证" };
+  }
+
+  try {
+    const account = await db.query.adminUsers.findFirst({
+      columns: { username: true, totpEnabledAt: true },
+      where: eq(adminUsers.id, adminUserId),
+    });
+    if (!account) {
+      return { success: false, message: "管理员账号不存在" };
+    }
+    if (account.totpEnabledAt) {
+      return { success: false, message: "已启用两步验证" };
+    }
+
+    const secret = generateTotpSecret();
+    await db
+      .update(adminUsers)
+      .set({ totpSecret: secret, totpLastUsedStep: null, updatedAt: new Date() })
+      .where(eq(adminUsers.id, adminUserId));
+
+    const { siteName } = await getSystemSettings();
+    const qrSvg = await QRCode.toString(
+      buildTotpUri({ issuer: siteName, account: account.username, secret }),
+      { type: "svg", margin: 1, width: 200 }
+    );
+
+    return { success: true, message: "请使用验证器 App 扫描二维码", secret, qrSvg };
+  } catch (error) {
+    console.error("生成两步验证密钥失败:", error);
+    return { success: false, message: "生成两步验证密钥失败" };
+  }
+}
+
+/**
+ * 确认绑定：校验验证器 App 生成的验证码后启用，并返回一次性展示的恢复码
+ */
+export async function confirmTwoFactorSetup(code: string): Promise<{
+  success: boolean;
+  message: string;
+  recoveryCodes?: string[];
+}> {
+  let adminUserId;
+  try {
+    adminUserId = await getCurrentAdminUserId();
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+  if (!adminUserId) {
+    return { success: false, message: "请使用管理员账号登录后再绑定两步验证" };
+  }
+
+  try {
+    const account = await db.query.adminUsers.findFirst({
+      columns: { totpSecret: true, totpEnabledAt: true },
+      where: eq(adminUsers.id, adminUserId),
+    });
+    if (!account) {
+      return { success: false, message: "管理员账号不存在" };
+    }
+    if (account.totpEnabledAt) {
+      return { success: false, message: "已启用两步验证" };
+    }
+    if (!account.totpSecret) {
+      return { success: false, message: "请先生成二维码" };
+    }
+
+    const step = verifyTotpCode(account.totpSecret, code);
+    if (step === null) {
+      return { success: false, message: "验证码错误，请确认手机时间准确后重试" };
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await db
+      .update(adminUsers)
+      .set({
+        totpEnabledAt: new Date(),
+        totpLastUsedStep: step,
+        totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+        updatedAt: new Date(),
+      })
+      .where(eq(adminUsers.id, adminUserId));
+
+    revalidatePath("/admin/security");
+    return { success: true, message: "两步验证已启用", recoveryCodes };
+  } catch (error) {
+    console.error("启用两步验证失败:", error);
+    return { success: false, message: "启用两步验证失败" };
+  }
+}
+
+/**
+ * 重新生成恢复码（旧恢复码全部作废），需要提交当前验证码或恢复码
+ */
+export async function regenerateRecoveryCodes(code: string): Promise<{
+  success: boolean;
+  message: string;
+  recoveryCodes?: string[];
+}> {
+  let adminUserId;
+  try {
+    adminUserId = await getCurrentAdminUserId();
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+  if (!adminUserId) {
+    return { success: false, message: "请使用管理员账号登录" };
+  }
+
+  try {
+    const verified = await verifyCurrentSecondFactor(adminUserId, code);
+    if (!verified.success) {
+      return verified;
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await db
+      .update(adminUsers)
+      .set({ totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode), updatedAt: new Date() })
+      .where(eq(adminUsers.id, adminUserId));
+
+    revalidatePath("/admin/security");
+    return { success: true, message: "恢复码已重新生成", recoveryCodes };
+  } catch (error) {
+    console.error("重新生成恢复码失败:", error);
+    return { success: false, message: "重新生成恢复码失败" };
+  }
+}
+
+/**
+ * 关闭两步验证，需要提交当前验证码或恢复码
+ */
+export async function disableTwoFactor(code: string): Promise<{
+  success: boolean;
+  message: string;
+}> {
+  let adminUserId;
+  try {
+    adminUserId = await getCurrentAdminUserId();
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+  if (!adminUserId) {
+    return { success: false, message: "请使用管理员账号登录" };
+  }
+
+  try {
+    const verified = await verifyCurrentSecondFactor(adminUserId, code);
+    if (!verified.success) {
+      return verified;
+    }
+
+    await db
+      .update(adminUsers)
+      .set({
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+        totpRecoveryCodes: [],
+        updatedAt: new Date(),
+      })
+      .where(eq(adminUsers.id, adminUserId));
+
+    revalidatePath("/admin/security");
+    return { success: true, message: "两步验证已关闭" };
+  } catch (error) {
+    console.error("关闭两步验证失败:", error);
+    return { success: false, message: "关闭两步验证失败" };
+  }
+}
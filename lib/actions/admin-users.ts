@@ -0,0 +1,300 @@
+"use server";
+
+import { and, asc, eq, ne } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+
+import { db, adminUsers, type AdminRole } from "@/lib/db";
+import { requireAdmin } from "@/lib/auth-utils";
+import { diffAuditFields, recordAdminAudit } from "@/lib/admin-audit";
+import { revokeAdminSessions } from "@/lib/admin-sessions";
+import { hasActiveOwner, hashAdminPassword } from "@/lib/admin-users";
+import {
+  createAdminUserSchema,
+  resetAdminPasswordSchema,
+  updateAdminUserSchema,
+  type CreateAdminUserInput,
+  type UpdateAdminUserInput,
+} from "@/lib/validations/admin-user";
+
+export interface AdminUserListItem {
+  id: string;
+  username: string;
+  displayName: string | null;
+  role: AdminRole;
+  isActive: boolean;
+  totpEnabled: boolean;
+  lastLoginAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * 获取管理员账号列表；bootstrapEnabled 表示 ADMIN_PASSWORD 初始化登录当前是否可用
+ */
+export async function getAdminUsers(): Promise<{
+  items: AdminUserListItem[];
+  bootstrapEnabled: boolean;
+  currentAdminId: string | null;
+}> {
+  let admin;
+  try {
+    admin = await requireAdmin("admins.manage");
+  } catch {
+    return { items: [], bootstrapEnabled: false, currentAdminId: null };
+  }
+
+  const [items, ownerExists] = await Promise.all([
+    db
+      .select({
+        id: adminUsers.id,
+        username: adminUsers.username,
+        displayName: adminUsers.displayName,
+        role: adminUsers.role,
+        isActive: adminUsers.isActive,
+        totpEnabledAt: adminUsers.totpEnabledAt,
+        lastLoginAt: adminUsers.lastLoginAt,
+        createdAt: adminUsers.createdAt,
+      })
+      .from(adminUsers)
+      .orderBy(asc(adminUsers.createdAt)),
+    hasActiveOwner(),
+  ]);
+
+  return {
+    items: items.map(({ totpEnabledAt, ...item }) => ({
+      ...item,
+      totpEnabled: !!totpEnabledAt,
+    })),
+    bootstrapEnabled: !ownerExists && !!process.env.ADMIN_PASSWORD,
+    currentAdminId: admin.user.id,
+  };
+}
+
+export async function createAdminUser(input: CreateAdminUserInput) {
+  let admin;
+  try {
+    admin = await requireAdmin("admins.manage");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  const validationResult = createAdminUserSchema.safeParse(input);
+  if (!validationResult.success) {
+    return { success: false, message: validationResult.error.issues[0].message };
+  }
+
+  const data = validationResult.data;
+
+  try {
+    const existing = await db.query.adminUsers.findFirst({
+      columns: { id: true },
+      where: eq(adminUsers.username, data.username),
+    });
+    if (existing) {
+      return { success: false, message: "用户名已存在" };
+    }
+
+    const [created] = await db
+      .insert(adminUsers)
+      .values({
+        username: data.username,
+        displayName: data.displayName || null,
+        passwordHash: await hashAdminPassword(data.password),
+        role: data.role,
+      })
+      .returning({ id: adminUsers.id });
+
+    await recordAdminAudit(admin.user, {
+      action: "admin_user.create",
+      entityType: "admin_user",
+      entityId: created.id,
+      after: { username: data.username, displayName: data.displayName || null, role: data.role },
+    });
+
+    revalidatePath("/admin/admins");
+    return { success: true, message: "管理员账号已创建" };
+  } catch (error) {
+    console.error("创建管理员账号失败:", error);
+    if (error instanceof Error && error.message.includes("unique")) {
+      return { success: false, message: "用户名已存在" };
+    }
+    return { success: false, message: "创建管理员账号失败" };
+  }
+}
+
+/**
+ * 修改显示名称、角色或启用状态；不能停用自己或降级最后一个启用中的 owner
+ */
+export async function updateAdminUser(id: string, input: UpdateAdminUserInput) {
+  let admin;
+  try {
+    admin = await requireAdmin("admins.manage");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  const validationResult = updateAdminUserSchema.safeParse(input);
+  if (!validationResult.success) {
+    return { success: false, message: validationResult.error.issues[0].message };
+  }
+
+  const data = validationResult.data;
+
+  try {
+    const account = await db.query.adminUsers.findFirst({
+      where: eq(adminUsers.id, id),
+    });
+    if (!account) {
+      return { success: false, message: "管理员账号不存在" };
+    }
+
+    const nextRole = data.role ?? account.role;
+    const nextActive = data.isActive ?? account.isActive;
+
+    if (account.id === admin.user.id && (nextRole !== account.role || !nextActive)) {
+      return { success: false, message: "不能修改自己的角色或停用自己" };
+    }
+
+    if (account.role === "owner" && account.isActive && (nextRole !== "owner" || !nextActive)) {
+      const otherOwner = await db.query.adminUsers.findFirst({
+        columns: { id: true },
+        where: and(
+          eq(adminUsers.role, "owner"),
+          eq(adminUsers.isActive, true),
+          ne(adminUsers.id, account.id)
+        ),
+      });
+      if (!otherOwner) {
+        return { success: false, message: "至少需要保留一个启用中的所有者账号" };
+      }
+    }
+
+    const nextDisplayName =
+      data.displayName === undefined ? account.displayName : data.displayName || null;
+
+    await db
+      .update(adminUsers)
+      .set({
+        displayName: nextDisplayName,
+        role: nextRole,
+        isActive: nextActive,
+        updatedAt: new Date(),
+      })
+      .where(eq(adminUsers.id, id));
+
+    // 停用账号时一并下线其全部登录会话
+    if (!nextActive) {
+      await revokeAdminSessions({ adminUserId: id }, admin.user.id);
+    }
+
+    const changes = diffAuditFields(
+      { displayName: account.displayName, role: account.role, isActive: account.isActive },
+      { displayName: nextDisplayName, role: nextRole, isActive: nextActive }
+    );
+    if (changes) {
+      await recordAdminAudit(admin.user, {
+        action: "admin_user.update",
+        entityType: "admin_user",
+        entityId: account.id,
+        before: { username: account.username, ...changes.before },
+        after: { username: account.username, ...changes.after },
+      });
+    }
+
+    revalidatePath("/admin/admins");
+    return { success: true, message: "管理员账号已更新" };
+  } catch (error) {
+    console.error("更新管理员账号失败:", error);
+    return { success: false, message: "更新管理员账号失败" };
+  }
+}
+
+export async function resetAdminUserPassword(id: string, password: string) {
+  let admin;
+  try {
+    admin = await requireAdmin("admins.manage");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  const validationResult = resetAdminPasswordSchema.safeParse({ password });
+  if (!validationResult.success) {
+    return { success: false, message: validationResult.error.issues[0].message };
+  }
+
+  try {
+    const updated = await db
+      .update(adminUsers)
+      .set({
+        passwordHash: await hashAdminPassword(validationResult.data.password),
+        updatedAt: new Date(),
+      })
+      .where(eq(adminUsers.id, id))
+      .returning({ id: adminUsers.id, username: adminUsers.username });
+
+    if (updated.length === 0) {
+      return { success: false, message: "管理员账号不存在" };
+    }
+
+    // 密码重置后旧会话全部失效（重置自己的密码时保留当前会话）
+    await revokeAdminSessions(
+      { adminUserId: id, exceptSessionId: admin.user.adminSessionId },
+      admin.user.id
+    );
+
+    await recordAdminAudit(admin.user, {
+      action: "admin_user.reset_password",
+      entityType: "admin_user",
+      entityId: id,
+      after: { username: updated[0].username },
+    });
+
+    revalidatePath("/admin/admins");
+    return { success: true, message: "密码已重置" };
+  } catch (error) {
+    console.error("重置管理员密码失败:", error);
+    return { success: false, message: "重置密码失败" };
+  }
+}
+
+/**
+ * 清除两步验证（成员丢失手机与恢复码时由管理员处理），该账号下次登录只需密码
+ */
+export async function resetAdminUserTwoFactor(id: string) {
+  let admin;
+  try {
+    admin = await requireAdmin("admins.manage");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  try {
+    const updated = await db
+      .update(adminUsers)
+      .set({
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+        totpRecoveryCodes: [],
+        updatedAt: new Date(),
+      })
+      .where(eq(adminUsers.id, id))
+      .returning({ id: adminUsers.id, username: adminUsers.username });
+
+    if (updated.length === 0) {
+      return { success: false, message: "管理员账号不存在" };
+    }
+
+    await recordAdminAudit(admin.user, {
+      action: "admin_user.reset_two_factor",
+      entityType: "admin_user",
+      entityId: id,
+      after: { username: updated[0].username },
+    });
+
+    revalidatePath("/admin/admins");
+    return { success: true, message: "两步验证已重置" };
+  } catch (error) {
+    console.error("重置两步验证失败:", error);
+    return { success: false, message: "重置两步验证失败" };
+  }
+}
@@ -0,0 +1,174 @@
+"use server";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { requireAdmin } from "@/lib/auth-utils";
+import {
+  resolveAnalyticsRange,
+  type AnalyticsBreakdownRow,
+  type AnalyticsRange,
+  type AnalyticsSeriesRow,
+} from "@/lib/analytics";
+import { orderProductsCteSql, paidOrderStatusCondition } from "@/lib/sales-stats";
+import {
+  getLocalBucketSeriesSql,
+  getLocalBucketSql,
+  getLocalDateRangeSql,
+  getStatsLocalDate,
+  getStatsTimeZone,
+} from "@/lib/time/stats";
+
+const TOP_LIMIT = 10;
+
+export interface SalesAnalytics {
+  range: AnalyticsRange;
+  timeZone: string;
+  series: AnalyticsSeriesRow[];
+  topProducts: AnalyticsBreakdownRow[];
+  topCategories: AnalyticsBreakdownRow[];
+}
+
+interface SeriesSqlRow {
+  bucket: string;
+  createdOrders: number;
+  convertedOrders: number;
+  expiredOrders: number;
+  paidOrders: number;
+  revenue: string;
+  refundedAmount: string;
+  refundedOrders: number;
+}
+
+interface BreakdownSqlRow {
+  key: string | null;
+  name: string;
+  orders: number;
+  units: number;
+  revenue: string;
+}
+
+function toBreakdownRow(row: BreakdownSqlRow): AnalyticsBreakdownRow {
+  return {
+    key: row.key ?? "none",
+    name: row.name,
+    orders: row.orders,
+    units: row.units,
+    revenue: Number(row.revenue),
+  };
+}
+
+/**
+ * 获取销售分析：订单 / 实收 / 转化 / 退款的时间序列，以及热销商品与分类
+ */
+export async function getSalesAnalytics(options: {
+  preset?: string;
+  from?: string;
+  to?: string;
+  bucket?: string;
+} = {}): Promise<{ success: true; analytics: SalesAnalytics } | { success: false; message: string }> {
+  try {
+    await requireAdmin("reports.view");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  const timeZone = getStatsTimeZone();
+  const range = resolveAnalyticsRange(options, getStatsLocalDate(timeZone));
+  const { start, end } = getLocalDateRangeSql(timeZone, range.from, range.endDate);
+  const labelFormat = range.bucket === "hour" ? "YYYY-MM-DD HH24:00" : "YYYY-MM-DD";
+
+  try {
+    const [seriesRows, productRows, categoryRows] = await Promise.all([
+      // 转化按下单时间统计，实收与退款按支付时间统计；缺失的时段补 0
+      db.execute(sql`
+        WITH buckets AS (
+          SELECT ${getLocalBucketSeriesSql(range.from, range.endDate, range.bucket)} AS bucket
+        ),
+        created AS (
+          SELECT
+            ${getLocalBucketSql(sql`o.created_at`, timeZone, range.bucket)} AS bucket,
+            count(*)::int AS created_orders,
+            (count(*) FILTER (WHERE o.paid_at IS NOT NULL))::int AS converted_orders,
+            (count(*) FILTER (WHERE o.status = 'expired'))::int AS expired_orders
+          FROM orders o
+          WHERE o.created_at >= ${start} AND o.created_at < ${end}
+          GROUP BY 1
+        ),
+        paid AS (
+          SELECT
+            ${getLocalBucketSql(sql`o.paid_at`, timeZone, range.bucket)} AS bucket,
+            count(*)::int AS paid_orders,
+            COALESCE(sum(o.total_amount::numeric), 0) AS revenue,
+            COALESCE(sum(o.refunded_amount::numeric), 0) AS refunded_amount,
+            (count(*) FILTER (WHERE o.refunded_amount::numeric > 0))::int AS refunded_orders
+          FROM orders o
+          WHERE o.paid_at >= ${start} AND o.paid_at < ${end}
+            AND ${paidOrderStatusCondition(sql`o.status`)}
+          GROUP BY 1
+        )
+        SELECT
+          to_char(b.bucket, ${labelFormat}) AS "bucket",
+          COALESCE(c.created_orders, 0)::int AS "createdOrders",
+          COALESCE(c.converted_orders, 0)::int AS "convertedOrders",
+          COALESCE(c.expired_orders, 0)::int AS "expiredOrders",
+          COALESCE(p.paid_orders, 0)::int AS "paidOrders",
+          COALESCE(p.revenue, 0)::text AS "revenue",
+          COALESCE(p.refunded_amount, 0)::text AS "refundedAmount",
+          COALESCE(p.refunded_orders, 0)::int AS "refundedOrders"
+        FROM buckets b
+        LEFT JOIN created c ON c.bucket = b.bucket
+        LEFT JOIN paid p ON p.bucket = b.bucket
+        ORDER BY b.bucket ASC
+      `),
+      db.execute(sql`
+        WITH ${orderProductsCteSql(start, end)}
+        SELECT
+          op.product_id::text AS "key",
+          COALESCE(p.name, '已删除商品') AS "name",
+          COUNT(DISTINCT op.order_id)::int AS "orders",
+          SUM(op.units)::int AS "units",
+          ROUND(SUM(op.revenue), 2)::text AS "revenue"
+        FROM order_products op
+        LEFT JOIN products p ON p.id = op.product_id
+        GROUP BY op.product_id, p.name
+        ORDER BY SUM(op.revenue) DESC
+        LIMIT ${TOP_LIMIT}
+      `),
+      db.execute(sql`
+        WITH ${orderProductsCteSql(start, end)}
+        SELECT
+          p.category_id::text AS "key",
+          COALESCE(c.name, '未分类') AS "name",
+          COUNT(DISTINCT op.order_id)::int AS "orders",
+          SUM(op.units)::int AS "units",
+          ROUND(SUM(op.revenue), 2)::text AS "revenue"
+        FROM order_products op
+        LEFT JOIN products p ON p.id = op.product_id
+        LEFT JOIN categories c ON c.id = p.category_id
+        GROUP BY p.category_id, c.name
+        ORDER BY SUM(op.revenue) DESC
+        LIMIT ${TOP_LIMIT}
+      `),
+    ]);
+
+    const series = (seriesRows as unknown as SeriesSqlRow[]).map((row) => ({
+      ...row,
+      revenue: Number(row.revenue),
+      refundedAmount: Number(row.refundedAmount),
+    }));
+
+    return {
+      success: true,
+      analytics: {
+        range,
+        timeZone,
+        series,
+        topProducts: (productRows as unknown as BreakdownSqlRow[]).map(toBreakdownRow),
+        topCategories: (categoryRows as unknown as BreakdownSqlRow[]).map(toBreakdownRow),
+      },
+    };
+  } catch (error) {
+    console.error("获取销售分析失败:", error);
+    return { success: false, message: "获取销售分析失败" };
+  }
+}
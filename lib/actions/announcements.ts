@@ -140,7 +140,7 @@ export async function getAllAnnouncements(options?: {
   siteKey?: "all" | SiteKey;
 }) {
   try {
-    await requireAdmin();
+    await requireAdmin("marketing.manage");
   } catch {
     return { items: [], total: 0 };
   }
@@ -177,7 +177,7 @@ export async function getAllAnnouncements(options?: {
  */
 export async function getAnnouncementById(id: string) {
   try {
-    await requireAdmin();
+    await requireAdmin("marketing.manage");
   } catch {
     return null;
   }
@@ -192,7 +192,7 @@ export async function getAnnouncementById(id: string) {
  */
 export async function createAnnouncement(input: CreateAnnouncementInput) {
   try {
-    await requireAdmin();
+    await requireAdmin("marketing.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -237,7 +237,7 @@ export async function createAnnouncement(input: CreateAnnouncementInput) {
  */
 export async function updateAnnouncement(id: string, input: UpdateAnnouncementInput) {
   try {
-    await requireAdmin();
+    await requireAdmin("marketing.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -288,7 +288,7 @@ export async function updateAnnouncement(id: string, input: UpdateAnnouncementIn
  */
 export async function deleteAnnouncement(id: string) {
   try {
-    await requireAdmin();
+    await requireAdmin("marketing.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -308,7 +308,7 @@ export async function deleteAnnouncement(id: string) {
  */
 export async function toggleAnnouncementStatus(id: string) {
   try {
-    await requireAdmin();
+    await requireAdmin("marketing.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
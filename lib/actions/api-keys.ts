@@ -0,0 +1,129 @@
+"use server";
+
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+
+import { db, apiKeys } from "@/lib/db";
+import { requireAdmin } from "@/lib/auth-utils";
+import { recordAdminAudit } from "@/lib/admin-audit";
+import { generateApiKey } from "@/lib/api/keys";
+import { createApiKeySchema, type CreateApiKeyInput } from "@/lib/validations/api-key";
+
+/**
+ * 获取全部 API 密钥（不含哈希），已撤销的也保留展示
+ */
+export async function getApiKeys() {
+  try {
+    await requireAdmin("api_keys.manage");
+  } catch {
+    return [];
+  }
+
+  return db
+    .select({
+      id: apiKeys.id,
+      name: apiKeys.name,
+      keyPrefix: apiKeys.keyPrefix,
+      scopes: apiKeys.scopes,
+      userId: apiKeys.userId,
+      username: apiKeys.username,
+      rateLimitPerMinute: apiKeys.rateLimitPerMinute,
+      lastUsedAt: apiKeys.lastUsedAt,
+      revokedAt: apiKeys.revokedAt,
+      createdAt: apiKeys.createdAt,
+    })
+    .from(apiKeys)
+    .orderBy(desc(apiKeys.createdAt));
+}
+
+/**
+ * 创建 API 密钥；明文只在这里返回一次，数据库只保存哈希
+ */
+export async function createApiKey(input: CreateApiKeyInput): Promise<{
+  success: boolean;
+  message: string;
+  key?: string;
+}> {
+  let admin;
+  try {
+    admin = await requireAdmin("api_keys.manage");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  const validationResult = createApiKeySchema.safeParse(input);
+  if (!validationResult.success) {
+    return { success: false, message: validationResult.error.issues[0].message };
+  }
+
+  const { name, userId, username, scopes, rateLimitPerMinute } = validationResult.data;
+  const { key, prefix, hash } = generateApiKey();
+
+  try {
+    const [created] = await db
+      .insert(apiKeys)
+      .values({
+        name,
+        keyPrefix: prefix,
+        keyHash: hash,
+        scopes,
+        userId,
+        username: username || null,
+        rateLimitPerMinute,
+        createdBy: admin.user.id,
+      })
+      .returning({ id: apiKeys.id });
+
+    await recordAdminAudit(admin.user, {
+      action: "api_key.create",
+      entityType: "api_key",
+      entityId: created.id,
+      after: { name, keyPrefix: prefix, userId, scopes, rateLimitPerMinute },
+    });
+
+    revalidatePath("/admin/api-keys");
+    return { success: true, message: "API 密钥已创建", key };
+  } catch (error) {
+    console.error("创建 API 密钥失败:", error);
+    return { success: false, message: "创建 API 密钥失败" };
+  }
+}
+
+/**
+ * 撤销 API 密钥：立即失效，不可恢复
+ */
+export async function revokeApiKey(id: string): Promise<{
+  success: boolean;
+  message: string;
+}> {
+  let admin;
+  try {
+    admin = await requireAdmin("api_keys.manage");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  try {
+    const [revoked] = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), isNull(apiKeys.revokedAt)))
+      .returning({ name: apiKeys.name, keyPrefix: apiKeys.keyPrefix, userId: apiKeys.userId });
+    if (!revoked) {
+      return { success: false, message: "密钥不存在或已撤销" };
+    }
+
+    await recordAdminAudit(admin.user, {
+      action: "api_key.revoke",
+      entityType: "api_key",
+      entityId: id,
+      before: revoked,
+    });
+
+    revalidatePath("/admin/api-keys");
+    return { success: true, message: "API 密钥已撤销" };
+  } catch (error) {
+    console.error("撤销 API 密钥失败:", error);
+    return { success: false, message: "撤销 API 密钥失败" };
+  }
+}
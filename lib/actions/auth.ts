@@ -1,6 +1,6 @@
 "use server";
 
-import { signIn } from "@/lib/auth";
+import { signIn, TotpInvalidError, TotpRequiredError } from "@/lib/auth";
 import { headers } from "next/headers";
 import { z } from "zod";
 import {
@@ -11,7 +11,9 @@ import {
 } from "@/lib/rate-limit";
 
 const loginSchema = z.object({
+  username: z.string().trim().max(32, "用户名最多32字符").optional(),
   password: z.string().min(1, "请输入密码"),
+  totpCode: z.string().trim().max(32, "验证码格式错误").optional(),
 });
 
 export interface LoginResult {
@@ -19,12 +21,40 @@ export interface LoginResult {
   message: string;
   remaining?: number;
   blocked?: boolean;
+  // 密码正确但账号启用了两步验证，需要再提交验证码
+  requiresTotp?: boolean;
 }
 
 /**
- * 管理员密码登录（带速率限制）
+ * 记录一次失败尝试，并在剩余次数不多或已锁定时改写提示
  */
-export async function adminLogin(password: string): Promise<LoginResult> {
+async function recordLoginFailure(clientIP: string, message: string): Promise<LoginResult> {
+  const failResult = await recordFailedAttempt(clientIP);
+
+  if (failResult.blocked) {
+    message = failResult.message || "登录尝试次数过多，请稍后再试";
+  } else if (failResult.remaining !== undefined && failResult.remaining <= 2) {
+    message = `${message}，还剩 ${failResult.remaining} 次尝试机会`;
+  }
+
+  return {
+    success: false,
+    message,
+    remaining: failResult.remaining,
+    blocked: failResult.blocked,
+  };
+}
+
+/**
+ * 管理员登录（带速率限制）
+ * 填写用户名时使用管理员账号登录；不填时使用 ADMIN_PASSWORD 初始化登录
+ * 启用两步验证的账号需两步提交：第一次返回 requiresTotp，第二次带上 TOTP 验证码或恢复码
+ */
+export async function adminLogin(input: {
+  username?: string;
+  password: string;
+  totpCode?: string;
+}): Promise<LoginResult> {
   // 获取客户端 IP
   const headersList = await headers();
   const clientIP = getClientIP(headersList);
@@ -41,7 +71,7 @@ export async function adminLogin(password: string): Promise<LoginResult> {
   }
 
   // 验证输入
-  const parsed = loginSchema.safeParse({ password });
+  const parsed = loginSchema.safeParse(input);
   if (!parsed.success) {
     return {
       success: false,
@@ -49,31 +79,21 @@ export async function adminLogin(password: string): Promise<LoginResult> {
     };
   }
 
+  const credentialsMessage = parsed.data.username ? "用户名或密码错误" : "密码错误";
+
   try {
     // 尝试登录
     const result = await signIn("credentials", {
+      username: parsed.data.username ?? "",
       password: parsed.data.password,
+      totpCode: parsed.data.totpCode ?? "",
       redirect: false,
     });
 
     // signIn 成功时不会返回 error
     if (result?.error) {
       // 登录失败，记录失败尝试
-      const failResult = await recordFailedAttempt(clientIP);
-      
-      let message = "密码错误";
-      if (failResult.blocked) {
-        message = failResult.message || "登录尝试次数过多，请稍后再试";
-      } else if (failResult.remaining !== undefined && failResult.remaining <= 2) {
-        message = `密码错误，还剩 ${failResult.remaining} 次尝试机会`;
-      }
-
-      return {
-        success: false,
-        message,
-        remaining: failResult.remaining,
-        blocked: failResult.blocked,
-      };
+      return recordLoginFailure(clientIP, credentialsMessage);
     }
 
     // 登录成功，清除速率限制记录
@@ -84,24 +104,29 @@ export async function adminLogin(password: string): Promise<LoginResult> {
       message: "登录成功",
     };
   } catch (error) {
-    // NextAuth 登录失败会抛出错误
-    const failResult = await recordFailedAttempt(clientIP);
+    // 密码正确，等待输入验证码（不计入失败次数）
+    if (error instanceof TotpRequiredError) {
+      return {
+        success: false,
+        message: "请输入两步验证码",
+        requiresTotp: true,
+      };
+    }
 
-    let message = "密码错误";
-    if (failResult.blocked) {
-      message = failResult.message || "登录尝试次数过多，请稍后再试";
-    } else if (failResult.remaining !== undefined && failResult.remaining <= 2) {
-      message = `密码错误，还剩 ${failResult.remaining} 次尝试机会`;
+    // 两步验证失败与密码错误共用同一个限流
+    if (error instanceof TotpInvalidError) {
+      return {
+        ...(await recordLoginFailure(clientIP, "验证码错误")),
+        requiresTotp: true,
+      };
     }
 
+    // NextAuth 登录失败会抛出错误
+    const failure = await recordLoginFailure(clientIP, credentialsMessage);
+
     // 检查是否是凭证错误
     if (error instanceof Error && error.message.includes("CredentialsSignin")) {
-      return {
-        success: false,
-        message,
-        remaining: failResult.remaining,
-        blocked: failResult.blocked,
-      };
+      return failure;
     }
 
     console.error("登录错误:", error);
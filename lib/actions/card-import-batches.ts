@@ -0,0 +1,195 @@
+"use server";
+
+import { and, desc, eq, inArray, isNull, sql } from "drizzle-orm";
+import { db, cards, cardImportBatches, type CardImportBatch, type CardStatus } from "@/lib/db";
+import { requireAdmin } from "@/lib/auth-utils";
+import { recordAdminAudit } from "@/lib/admin-audit";
+import { revalidateCardCache } from "@/lib/cache";
+import { logger } from "@/lib/logger";
+import { scheduleStockAlerts } from "@/lib/stock-alerts";
+
+const PAGE_SIZE = 50;
+
+// 可撤回的卡密：从未售出过（不含已锁定、已售出及退款后隔离/作废的卡密）
+const REVOCABLE_CARD_STATUSES: CardStatus[] = ["available", "expired"];
+
+export type CardImportBatchCounts = Record<CardStatus, number>;
+
+export interface CardImportBatchListItem extends CardImportBatch {
+  productName: string;
+  variantName: string | null;
+  counts: CardImportBatchCounts;
+}
+
+export interface CardImportBatchPage {
+  items: CardImportBatchListItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+function emptyBatchCounts(): CardImportBatchCounts {
+  return { available: 0, locked: 0, sold: 0, void: 0, quarantined: 0, expired: 0 };
+}
+
+/**
+ * 获取卡密导入批次（管理后台，按时间倒序分页），附带批次内各状态的卡密数量
+ */
+export async function getCardImportBatches(options: {
+  page?: number;
+  productId?: string;
+} = {}): Promise<CardImportBatchPage> {
+  const page = Math.max(1, Math.floor(options.page ?? 1));
+  const empty = { items: [], total: 0, page, pageSize: PAGE_SIZE };
+
+  try {
+    await requireAdmin("cards.view");
+  } catch {
+    return empty;
+  }
+
+  const where = options.productId ? eq(cardImportBatches.productId, options.productId) : undefined;
+
+  const [batches, [{ total }]] = await Promise.all([
+    db.query.cardImportBatches.findMany({
+      where,
+      with: {
+        product: { columns: { name: true } },
+        variant: { columns: { name: true } },
+      },
+      orderBy: [desc(cardImportBatches.createdAt)],
+      limit: PAGE_SIZE,
+      offset: (page - 1) * PAGE_SIZE,
+    }),
+    db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(cardImportBatches)
+      .where(where),
+  ]);
+
+  const countsByBatch = new Map<string, CardImportBatchCounts>();
+  if (batches.length > 0) {
+    const rows = await db
+      .select({
+        batchId: cards.batchId,
+        status: cards.status,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(cards)
+      .where(inArray(cards.batchId, batches.map((batch) => batch.id)))
+      .groupBy(cards.batchId, cards.status);
+
+    for (const row of rows) {
+      if (!row.batchId) continue;
+      const counts = countsByBatch.get(row.batchId) ?? emptyBatchCounts();
+      counts[row.status] = row.count;
+      countsByBatch.set(row.batchId, counts);
+    }
+  }
+
+  const items = batches.map(({ product, variant, ...batch }) => ({
+    ...batch,
+    productName: product.name,
+    variantName: variant?.name ?? null,
+    counts: countsByBatch.get(batch.id) ?? emptyBatchCounts(),
+  }));
+
+  return { items, total, page, pageSize: PAGE_SIZE };
+}
+
+/**
+ * 撤回批次内未售出的卡密（直接删除）；已锁定、已售出的卡密保持不变
+ */
+export async function revokeCardImportBatch(batchId: string): Promise<{
+  success: boolean;
+  message: string;
+  revoked?: number;
+}> {
+  let admin;
+  try {
+    admin = await requireAdmin("cards.manage");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  const log = logger.child({ action: "revokeCardImportBatch", batchId });
+
+  try {
+    const result = await db.transaction(async (tx) => {
+      const [batch] = await tx
+        .select({ id: cardImportBatches.id, productId: cardImportBatches.productId })
+        .from(cardImportBatches)
+        .where(eq(cardImportBatches.id, batchId))
+        .for("update");
+
+      if (!batch) {
+        return null;
+      }
+
+      const deleted = await tx
+        .delete(cards)
+        .where(
+          and(
+            eq(cards.batchId, batchId),
+            inArray(cards.status, REVOCABLE_CARD_STATUSES),
+            isNull(cards.orderId)
+          )
+        )
+        .returning({ id: cards.id });
+
+      if (deleted.length > 0) {
+        await tx
+          .update(cardImportBatches)
+          .set({
+            revokedCount: sql`${cardImportBatches.revokedCount} + ${deleted.length}`,
+            revokedAt: new Date(),
+            revokedBy: admin.user.name || admin.user.id,
+          })
+          .where(eq(cardImportBatches.id, batchId));
+      }
+
+      const [{ locked }] = await tx
+        .select({ locked: sql<number>`count(*)::int` })
+        .from(cards)
+        .where(and(eq(cards.batchId, batchId), eq(cards.status, "locked")));
+
+      return { revoked: deleted.length, locked, productId: batch.productId };
+    });
+
+    if (!result) {
+      return { success: false, message: "导入批次不存在" };
+    }
+
+    if (result.revoked === 0) {
+      return {
+        success: false,
+        message: result.locked > 0
+          ? `该批次没有可撤回的卡密（${result.locked} 个卡密锁定中，订单处理完成后再试）`
+          : "该批次没有可撤回的卡密",
+      };
+    }
+
+    await recordAdminAudit(admin.user, {
+      action: "card_batch.revoke",
+      entityType: "card_batch",
+      entityId: batchId,
+      before: { productId: result.productId },
+      after: { revokedCount: result.revoked, lockedCount: result.locked },
+    });
+
+    await revalidateCardCache();
+    scheduleStockAlerts([result.productId]);
+    log.info({ revoked: result.revoked, operator: admin.user.id }, "撤回导入批次未售出卡密");
+
+    return {
+      success: true,
+      message: result.locked > 0
+        ? `已撤回 ${result.revoked} 个未售出卡密，${result.locked} 个锁定中的卡密未处理`
+        : `已撤回 ${result.revoked} 个未售出卡密`,
+      revoked: result.revoked,
+    };
+  } catch (error) {
+    log.error({ err: error }, "撤回导入批次失败");
+    return { success: false, message: "撤回失败，请稍后重试" };
+  }
+}
@@ -1,6 +1,15 @@
 "use server";
 
-import { db, cards, products } from "@/lib/db";
+import {
+  db,
+  cards,
+  cardImportBatches,
+  products,
+  productVariants,
+  type CardStatus,
+  type NewCard,
+  type NewCardImportBatch,
+} from "@/lib/db";
 import { eq, and, sql, inArray, desc, asc, isNull } from "drizzle-orm";
 import {
   importCardsSchema,
@@ -11,14 +20,105 @@ import {
   type UpdateCardInput,
 } from "@/lib/validations/card";
 import { requireAdmin } from "@/lib/auth-utils";
+import { recordAdminAudit, type AdminAuditActor } from "@/lib/admin-audit";
 import { revalidateCardCache } from "@/lib/cache";
+import { recordCardAccess } from "@/lib/card-access";
+import {
+  buildCardImportRows,
+  CARD_IMPORT_MAX_ROWS,
+  defaultCardImportColumns,
+  readCardImportTable,
+  validateCardImportColumns,
+  type CardImportColumn,
+  type CardImportFormat,
+  type CardImportPreviewRow,
+} from "@/lib/card-import";
+import {
+  decryptCardContentForDisplay,
+  encryptCardFields,
+  hashCardContent,
+  sealCardContent,
+} from "@/lib/card-crypto";
+import { logger } from "@/lib/logger";
+import { scheduleRestockNotifications } from "@/lib/restock-notifications";
+import { scheduleStockAlerts } from "@/lib/stock-alerts";
+
+/**
+ * 校验卡密归属的规格：商品启用规格后卡密必须落到具体规格，否则归属商品本身
+ */
+async function resolveCardVariantId(
+  productId: string,
+  variantId: string | null | undefined
+): Promise<{ ok: true; variantId: string | null } | { ok: false; message: string }> {
+  const variants = await db.query.productVariants.findMany({
+    where: eq(productVariants.productId, productId),
+    columns: { id: true },
+  });
+
+  if (variants.length === 0) {
+    return variantId
+      ? { ok: false, message: "该商品未设置规格" }
+      : { ok: true, variantId: null };
+  }
+
+  if (!variantId) {
+    return { ok: false, message: "请选择卡密所属规格" };
+  }
+
+  if (!variants.some((v) => v.id === variantId)) {
+    return { ok: false, message: "规格不存在" };
+  }
+
+  return { ok: true, variantId };
+}
+
+type ImportBatchInfo = Omit<NewCardImportBatch, "importedCount">;
+
+/**
+ * 在同一事务内写入导入批次与卡密，卡密通过 batchId 关联批次
+ */
+async function insertImportedCards(
+  actor: AdminAuditActor,
+  batch: ImportBatchInfo,
+  values: Omit<NewCard, "batchId">[]
+): Promise<string> {
+  const batchId = await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(cardImportBatches)
+      .values({ ...batch, importedCount: values.length })
+      .returning({ id: cardImportBatches.id });
+
+    await tx.insert(cards).values(values.map((value) => ({ ...value, batchId: created.id })));
+    return created.id;
+  });
+
+  await recordAdminAudit(actor, {
+    action: "card_batch.import",
+    entityType: "card_batch",
+    entityId: batchId,
+    after: {
+      productId: batch.productId,
+      variantId: batch.variantId ?? null,
+      format: batch.format,
+      supplierName: batch.supplierName ?? null,
+      unitCost: batch.unitCost ?? null,
+      importedCount: values.length,
+    },
+  });
+
+  // 补货后库存回到预警阈值以上时发送“已补货”通知，并通知催补货的用户
+  scheduleStockAlerts([batch.productId], { notifyRestock: true });
+  scheduleRestockNotifications(batch.productId);
+  return batchId;
+}
 
 /**
  * 批量导入卡密
  */
 export async function importCards(input: ImportCardsInput) {
+  let admin;
   try {
-    await requireAdmin();
+    admin = await requireAdmin("cards.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -31,7 +131,7 @@ export async function importCards(input: ImportCardsInput) {
     };
   }
 
-  const { productId, content, delimiter, deduplicate } = validationResult.data;
+  const { productId, content, format, delimiter, expiresAt, deduplicate } = validationResult.data;
 
   // 检查商品是否存在
   const product = await db.query.products.findFirst({
@@ -42,6 +142,34 @@ export async function importCards(input: ImportCardsInput) {
     return { success: false, message: "商品不存在" };
   }
 
+  const variantResolution = await resolveCardVariantId(productId, validationResult.data.variantId);
+  if (!variantResolution.ok) {
+    return { success: false, message: variantResolution.message };
+  }
+  const { variantId } = variantResolution;
+
+  const { supplierName, sourceNote, unitCost } = validationResult.data;
+  const batch: ImportBatchInfo = {
+    productId,
+    variantId,
+    format,
+    supplierName: supplierName || null,
+    sourceNote: sourceNote || null,
+    unitCost: unitCost != null ? unitCost.toFixed(2) : null,
+    operatorId: admin.user.id,
+    operatorName: admin.user.name || admin.user.id,
+  };
+
+  if (format !== "text") {
+    return importStructuredCards({
+      ...validationResult.data,
+      format,
+      variantId,
+      batch,
+      actor: admin.user,
+    });
+  }
+
   // 解析卡密内容
   const cardContents = content
     .split(delimiter === "newline" ? /\r?\n/ : ",")
@@ -58,18 +186,22 @@ export async function importCards(input: ImportCardsInput) {
   try {
     if (deduplicate) {
       // 为什么这样做：默认强制去重，避免同一商品出现重复卡密导致“重复发货”风险。
+      // 卡密内容加密存储，按去重哈希比较
+      const hashedContents = uniqueContents.map((c) => ({ content: c, hash: hashCardContent(c) }));
       const existingCards = await db
-        .select({ content: cards.content })
+        .select({ contentHash: cards.contentHash })
         .from(cards)
         .where(
           and(
             eq(cards.productId, productId),
-            inArray(cards.content, uniqueContents)
+            inArray(cards.contentHash, hashedContents.map((c) => c.hash))
           )
         );
 
-      const existingSet = new Set(existingCards.map((c) => c.content));
-      const newContents = uniqueContents.filter((c) => !existingSet.has(c));
+      const existingSet = new Set(existingCards.map((c) => c.contentHash));
+      const newContents = hashedContents
+        .filter((c) => !existingSet.has(c.hash))
+        .map((c) => c.content);
 
       if (newContents.length === 0) {
         return {
@@ -86,10 +218,14 @@ export async function importCards(input: ImportCardsInput) {
         };
       }
 
-      await db.insert(cards).values(
+      const batchId = await insertImportedCards(
+        admin.user,
+        batch,
         newContents.map((content) => ({
           productId,
-          content,
+          variantId,
+          ...sealCardContent(content),
+          expiresAt,
           status: "available" as const,
         }))
       );
@@ -99,6 +235,7 @@ export async function importCards(input: ImportCardsInput) {
       return {
         success: true,
         message: `成功导入 ${newContents.length} 个卡密`,
+        batchId,
         stats: {
           total: cardContents.length,
           duplicateInInput: duplicateCount,
@@ -110,10 +247,14 @@ export async function importCards(input: ImportCardsInput) {
       };
     }
 
-    await db.insert(cards).values(
+    const batchId = await insertImportedCards(
+      admin.user,
+      batch,
       cardContents.map((content) => ({
         productId,
-        content,
+        variantId,
+        ...sealCardContent(content),
+        expiresAt,
         status: "available" as const,
       }))
     );
@@ -123,6 +264,7 @@ export async function importCards(input: ImportCardsInput) {
     return {
       success: true,
       message: `成功导入 ${cardContents.length} 个卡密（未去重）`,
+      batchId,
       stats: {
         total: cardContents.length,
         duplicateInInput: duplicateCount,
@@ -138,12 +280,149 @@ export async function importCards(input: ImportCardsInput) {
   }
 }
 
+/**
+ * 结构化导入（CSV / JSON）：逐行校验，存在错误时整批不导入；dryRun 时只返回预览
+ */
+async function importStructuredCards(input: {
+  productId: string;
+  variantId: string | null;
+  content: string;
+  format: CardImportFormat;
+  columns?: CardImportColumn[];
+  deduplicate: boolean;
+  dryRun: boolean;
+  batch: ImportBatchInfo;
+  actor: AdminAuditActor;
+}) {
+  const { productId, variantId, content, format, deduplicate, dryRun, batch, actor } = input;
+
+  const table = readCardImportTable(content, format);
+  if (!table.ok) {
+    return { success: false, message: table.message };
+  }
+  if (table.records.length === 0) {
+    return { success: false, message: "未找到有效的卡密" };
+  }
+  if (table.records.length > CARD_IMPORT_MAX_ROWS) {
+    return { success: false, message: `单次最多导入 ${CARD_IMPORT_MAX_ROWS} 行` };
+  }
+
+  const columns = input.columns ?? defaultCardImportColumns(table.columns);
+  if (columns.some((column) => !table.columns.includes(column.key))) {
+    return { success: false, message: "列映射与文件表头不一致，请重新选择文件" };
+  }
+  const columnError = validateCardImportColumns(columns);
+  if (columnError) {
+    return { success: false, message: columnError };
+  }
+
+  const rows = buildCardImportRows(table.records, columns).map((row) => ({
+    ...row,
+    contentHash: hashCardContent(row.content),
+  }));
+
+  try {
+    const existingSet = new Set<string>();
+    if (deduplicate) {
+      const hashes = [...new Set(rows.filter((row) => row.errors.length === 0).map((row) => row.contentHash))];
+      if (hashes.length > 0) {
+        const existingCards = await db
+          .select({ contentHash: cards.contentHash })
+          .from(cards)
+          .where(and(eq(cards.productId, productId), inArray(cards.contentHash, hashes)));
+        for (const card of existingCards) {
+          existingSet.add(card.contentHash);
+        }
+      }
+    }
+
+    const seen = new Set<string>();
+    const preview: CardImportPreviewRow[] = rows.map((row) => {
+      let skipReason: CardImportPreviewRow["skipReason"] = null;
+      if (deduplicate && row.errors.length === 0) {
+        if (existingSet.has(row.contentHash)) {
+          skipReason = "existing";
+        } else if (seen.has(row.contentHash)) {
+          skipReason = "duplicate_in_input";
+        }
+        seen.add(row.contentHash);
+      }
+      return {
+        row: row.row,
+        fields: row.fields,
+        expiresAt: row.expiresAt?.toISOString() ?? null,
+        errors: row.errors,
+        skipReason,
+      };
+    });
+
+    const invalidCount = preview.filter((row) => row.errors.length > 0).length;
+    const toImport = rows.filter((_, index) => preview[index].errors.length === 0 && !preview[index].skipReason);
+    const stats = {
+      total: rows.length,
+      duplicateInInput: preview.filter((row) => row.skipReason === "duplicate_in_input").length,
+      existingInDb: preview.filter((row) => row.skipReason === "existing").length,
+      invalid: invalidCount,
+      imported: dryRun || invalidCount > 0 ? 0 : toImport.length,
+      skipped: rows.length - toImport.length - invalidCount,
+      deduplicate,
+    };
+
+    if (invalidCount > 0) {
+      return {
+        success: false,
+        message: `${invalidCount} 行校验未通过，请修正后再导入`,
+        stats,
+        preview,
+      };
+    }
+
+    if (dryRun) {
+      return {
+        success: true,
+        message: `预览完成：可导入 ${toImport.length} 个卡密`,
+        stats,
+        preview,
+      };
+    }
+
+    if (toImport.length === 0) {
+      return { success: false, message: "所有卡密都已存在", stats, preview };
+    }
+
+    const batchId = await insertImportedCards(
+      actor,
+      batch,
+      toImport.map((row) => ({
+        productId,
+        variantId,
+        ...sealCardContent(row.content),
+        fields: encryptCardFields(row.fields),
+        expiresAt: row.expiresAt,
+        status: "available" as const,
+      }))
+    );
+
+    await revalidateCardCache();
+
+    return {
+      success: true,
+      message: `成功导入 ${toImport.length} 个卡密`,
+      batchId,
+      stats,
+    };
+  } catch (error) {
+    console.error("导入卡密失败:", error);
+    return { success: false, message: "导入卡密失败" };
+  }
+}
+
 /**
  * 新增单条卡密
  */
 export async function createCard(input: CreateCardInput) {
   try {
-    await requireAdmin();
+    await requireAdmin("cards.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -156,7 +435,7 @@ export async function createCard(input: CreateCardInput) {
     };
   }
 
-  const { productId, content, deduplicate } = validationResult.data;
+  const { productId, content, expiresAt, deduplicate } = validationResult.data;
 
   // 检查商品是否存在
   const product = await db.query.products.findFirst({
@@ -168,11 +447,16 @@ export async function createCard(input: CreateCardInput) {
     return { success: false, message: "商品不存在" };
   }
 
+  const variantResolution = await resolveCardVariantId(productId, validationResult.data.variantId);
+  if (!variantResolution.ok) {
+    return { success: false, message: variantResolution.message };
+  }
+
   try {
     if (deduplicate) {
       // 为什么这样做：默认强制去重，避免同一商品出现重复卡密导致“重复发货”风险。
       const duplicateCard = await db.query.cards.findFirst({
-        where: and(eq(cards.productId, productId), eq(cards.content, content)),
+        where: and(eq(cards.productId, productId), eq(cards.contentHash, hashCardContent(content))),
         columns: { id: true },
       });
 
@@ -185,12 +469,15 @@ export async function createCard(input: CreateCardInput) {
       .insert(cards)
       .values({
         productId,
-        content,
+        variantId: variantResolution.variantId,
+        ...sealCardContent(content),
+        expiresAt,
         status: "available",
       })
       .returning({ id: cards.id });
 
     await revalidateCardCache();
+    scheduleRestockNotifications(productId);
 
     return {
       success: true,
@@ -208,7 +495,7 @@ export async function createCard(input: CreateCardInput) {
  */
 export async function updateCard(input: UpdateCardInput) {
   try {
-    await requireAdmin();
+    await requireAdmin("cards.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -242,7 +529,7 @@ export async function updateCard(input: UpdateCardInput) {
     const duplicateCard = await db.query.cards.findFirst({
       where: and(
         eq(cards.productId, card.productId),
-        eq(cards.content, content),
+        eq(cards.contentHash, hashCardContent(content)),
       ),
     });
 
@@ -250,10 +537,10 @@ export async function updateCard(input: UpdateCardInput) {
       return { success: false, message: "该卡密内容已存在" };
     }
 
-    // 更新卡密
+    // 更新卡密（手动编辑后按纯文本卡密处理，清空导入时的结构化字段）
     await db
       .update(cards)
-      .set({ content })
+      .set({ ...sealCardContent(content), fields: null })
       .where(eq(cards.id, cardId));
 
     await revalidateCardCache();
@@ -266,19 +553,25 @@ export async function updateCard(input: UpdateCardInput) {
 }
 
 /**
- * 获取商品的卡密列表
+ * 获取商品的卡密列表（传入 variantId 时仅返回该规格的卡密）
  */
 export async function getCardsByProduct(
   productId: string,
   options?: {
-    status?: "available" | "locked" | "sold";
+    variantId?: string;
+    status?: CardStatus;
     limit?: number;
     offset?: number;
   }
 ) {
-  const { status, limit = 100, offset = 0 } = options || {};
+  await requireAdmin("cards.view");
+
+  const { variantId, status, limit = 100, offset = 0 } = options || {};
 
   const conditions = [eq(cards.productId, productId)];
+  if (variantId) {
+    conditions.push(eq(cards.variantId, variantId));
+  }
   if (status) {
     conditions.push(eq(cards.status, status));
   }
@@ -292,22 +585,32 @@ export async function getCardsByProduct(
 }
 
 /**
- * 获取商品库存统计
+ * 获取商品库存统计（传入 variantId 时仅统计该规格）
  */
-export async function getCardStats(productId: string) {
+export async function getCardStats(productId: string, variantId?: string) {
+  await requireAdmin("cards.view");
+
+  const conditions = [eq(cards.productId, productId)];
+  if (variantId) {
+    conditions.push(eq(cards.variantId, variantId));
+  }
+
   const stats = await db
     .select({
       status: cards.status,
       count: sql<number>`count(*)::int`,
     })
     .from(cards)
-    .where(eq(cards.productId, productId))
+    .where(and(...conditions))
     .groupBy(cards.status);
 
   return {
     available: stats.find((s) => s.status === "available")?.count || 0,
     locked: stats.find((s) => s.status === "locked")?.count || 0,
     sold: stats.find((s) => s.status === "sold")?.count || 0,
+    quarantined: stats.find((s) => s.status === "quarantined")?.count || 0,
+    void: stats.find((s) => s.status === "void")?.count || 0,
+    expired: stats.find((s) => s.status === "expired")?.count || 0,
     total: stats.reduce((sum, s) => sum + s.count, 0),
   };
 }
@@ -316,8 +619,9 @@ export async function getCardStats(productId: string) {
  * 删除卡密
  */
 export async function deleteCards(cardIds: string[]) {
+  let admin;
   try {
-    await requireAdmin();
+    admin = await requireAdmin("cards.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -337,9 +641,20 @@ export async function deleteCards(cardIds: string[]) {
           isNull(cards.orderId)
         )
       )
-      .returning({ id: cards.id });
+      .returning({ id: cards.id, productId: cards.productId, variantId: cards.variantId });
+
+    await recordAdminAudit(
+      admin.user,
+      result.map((card) => ({
+        action: "card.delete",
+        entityType: "card" as const,
+        entityId: card.id,
+        before: { status: "available", productId: card.productId, variantId: card.variantId },
+      }))
+    );
 
     await revalidateCardCache();
+    scheduleStockAlerts(result.map((card) => card.productId));
 
     return {
       success: true,
@@ -356,8 +671,9 @@ export async function deleteCards(cardIds: string[]) {
  * 重置锁定的卡密（释放锁定状态）
  */
 export async function resetLockedCards(cardIds: string[]) {
+  let admin;
   try {
-    await requireAdmin();
+    admin = await requireAdmin("cards.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -367,6 +683,13 @@ export async function resetLockedCards(cardIds: string[]) {
   }
 
   try {
+    // 先取出锁定时关联的订单，供审计日志记录变更前状态
+    const lockedCards = await db
+      .select({ id: cards.id, orderId: cards.orderId, lockedAt: cards.lockedAt })
+      .from(cards)
+      .where(and(inArray(cards.id, cardIds), eq(cards.status, "locked")));
+    const lockedById = new Map(lockedCards.map((card) => [card.id, card]));
+
     const result = await db
       .update(cards)
       .set({
@@ -382,6 +705,24 @@ export async function resetLockedCards(cardIds: string[]) {
       )
       .returning({ id: cards.id });
 
+    await recordAdminAudit(
+      admin.user,
+      result.map((card) => {
+        const locked = lockedById.get(card.id);
+        return {
+          action: "card.reset_locked",
+          entityType: "card" as const,
+          entityId: card.id,
+          before: {
+            status: "locked",
+            orderId: locked?.orderId ?? null,
+            lockedAt: locked?.lockedAt?.toISOString() ?? null,
+          },
+          after: { status: "available", orderId: null, lockedAt: null },
+        };
+      })
+    );
+
     await revalidateCardCache();
 
     return {
@@ -395,20 +736,100 @@ export async function resetLockedCards(cardIds: string[]) {
   }
 }
 
+/**
+ * 处理隔离中的卡密（退款后待复核）：放回可用库存或作废
+ * 放回库存时解除与原订单的关联；作废保留关联，便于追溯
+ */
+export async function resolveQuarantinedCards(cardIds: string[], action: "recycle" | "void") {
+  let admin;
+  try {
+    admin = await requireAdmin("cards.manage");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  if (cardIds.length === 0) {
+    return { success: false, message: "请选择要处理的卡密" };
+  }
+
+  if (action !== "recycle" && action !== "void") {
+    return { success: false, message: "无效的操作" };
+  }
+
+  try {
+    // 放回库存会清空 orderId，先取出原关联订单供审计日志记录
+    const quarantinedCards = await db
+      .select({ id: cards.id, orderId: cards.orderId })
+      .from(cards)
+      .where(and(inArray(cards.id, cardIds), eq(cards.status, "quarantined")));
+    const orderIdByCard = new Map(quarantinedCards.map((card) => [card.id, card.orderId]));
+
+    const result = await db
+      .update(cards)
+      .set(
+        action === "recycle"
+          ? { status: "available", orderId: null, soldAt: null }
+          : { status: "void" }
+      )
+      .where(
+        and(
+          inArray(cards.id, cardIds),
+          eq(cards.status, "quarantined")
+        )
+      )
+      .returning({ id: cards.id });
+
+    await recordAdminAudit(
+      admin.user,
+      result.map((card) => {
+        const orderId = orderIdByCard.get(card.id) ?? null;
+        return {
+          action: action === "recycle" ? "card.recycle" : "card.void",
+          entityType: "card" as const,
+          entityId: card.id,
+          before: { status: "quarantined", orderId },
+          after: action === "recycle"
+            ? { status: "available", orderId: null }
+            : { status: "void", orderId },
+        };
+      })
+    );
+
+    await revalidateCardCache();
+
+    return {
+      success: true,
+      message:
+        action === "recycle"
+          ? `已将 ${result.length} 个卡密放回可用库存`
+          : `已作废 ${result.length} 个卡密`,
+      updatedCount: result.length,
+    };
+  } catch (error) {
+    console.error("处理隔离卡密失败:", error);
+    return { success: false, message: "处理隔离卡密失败" };
+  }
+}
+
 /**
  * 导出卡密
  */
 export async function exportCards(
   productId: string,
-  status?: "available" | "sold" | "locked"
+  status?: CardStatus,
+  variantId?: string
 ) {
+  let admin;
   try {
-    await requireAdmin();
+    admin = await requireAdmin("cards.manage");
   } catch {
     return [];
   }
 
   const conditions = [eq(cards.productId, productId)];
+  if (variantId) {
+    conditions.push(eq(cards.variantId, variantId));
+  }
   if (status) {
     conditions.push(eq(cards.status, status));
   }
@@ -416,6 +837,8 @@ export async function exportCards(
   const cardList = await db.query.cards.findMany({
     where: and(...conditions),
     columns: {
+      id: true,
+      orderId: true,
       content: true,
       status: true,
       createdAt: true,
@@ -424,7 +847,18 @@ export async function exportCards(
     orderBy: [desc(cards.createdAt)],
   });
 
-  return cardList;
+  await recordCardAccess(
+    cardList,
+    { type: "admin", id: admin.user.id, name: admin.user.name },
+    "admin_export"
+  );
+
+  return cardList.map((card) => ({
+    ...card,
+    content: decryptCardContentForDisplay(card.content, (error) =>
+      logger.error({ err: error, cardId: card.id }, "导出卡密时解密失败")
+    ),
+  }));
 }
 
 /**
@@ -433,7 +867,7 @@ export async function exportCards(
  */
 export async function cleanDuplicateCards(productId: string) {
   try {
-    await requireAdmin();
+    await requireAdmin("cards.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -442,8 +876,8 @@ export async function cleanDuplicateCards(productId: string) {
     // 找出重复的卡密
     const duplicates = await db.execute(sql`
       WITH duplicates AS (
-        SELECT id, content, 
-               ROW_NUMBER() OVER (PARTITION BY content ORDER BY created_at ASC) as rn
+        SELECT id,
+               ROW_NUMBER() OVER (PARTITION BY content_hash ORDER BY created_at ASC) as rn
         FROM cards 
         WHERE product_id = ${productId} AND status = 'available'
       )
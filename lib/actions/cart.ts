@@ -0,0 +1,320 @@
+"use server";
+
+/**
+ * 购物车相关 Server Actions
+ *
+ * 设计说明：
+ * - 购物车按 Linux DO 用户维度存储在数据库，跨设备可见
+ * - 加购时只做基础校验（商品存在/上架、限购），真正的库存锁定在结算事务中完成
+ * - 结算逻辑见 lib/actions/orders.ts 的 checkoutCart
+ */
+
+import { db, cartItems, products, cards } from "@/lib/db";
+import { and, eq, inArray, isNull, sql } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { auth } from "@/lib/auth";
+import { sellableCardCondition } from "@/lib/card-expiry";
+import { cartItemSchema, type CartItemInput } from "@/lib/validations/order";
+import { logger, getRequestIdFromHeaders } from "@/lib/logger";
+import { resolveUnitPrice } from "@/lib/pricing";
+import { resolvePurchaseTarget, formatVariantProductName } from "@/lib/product-variants";
+
+export interface CartLineItem {
+  productId: string;
+  variantId: string | null;
+  productName: string; // 含规格名
+  productSlug: string;
+  coverImage: string | null;
+  price: string; // 按当前数量命中的阶梯单价
+  quantity: number;
+  minQuantity: number;
+  maxQuantity: number;
+  stock: number;
+  isActive: boolean; // 商品已下架或所选规格已停用时为 false
+}
+
+export interface CartData {
+  items: CartLineItem[];
+  totalQuantity: number;
+  totalAmount: string;
+}
+
+async function getLinuxDoUserId(): Promise<string | null> {
+  const session = await auth();
+  const user = session?.user as { id?: string; provider?: string } | undefined;
+  if (!user?.id || user.provider !== "linux-do") {
+    return null;
+  }
+  return user.id;
+}
+
+// 购物车行以「商品 + 规格」定位；未启用规格的商品 variantId 为空
+function cartLineWhere(userId: string, productId: string, variantId: string | null | undefined) {
+  return and(
+    eq(cartItems.userId, userId),
+    eq(cartItems.productId, productId),
+    variantId ? eq(cartItems.variantId, variantId) : isNull(cartItems.variantId)
+  );
+}
+
+function stockKey(productId: string, variantId: string | null): string {
+  return `${productId}:${variantId ?? ""}`;
+}
+
+/**
+ * 获取当前用户购物车（附带实时库存，用于结算前提示）
+ */
+export async function getCart(): Promise<{ success: boolean; message?: string; data?: CartData }> {
+  try {
+    const userId = await getLinuxDoUserId();
+    if (!userId) {
+      return { success: false, message: "请先登录" };
+    }
+
+    const rows = await db.query.cartItems.findMany({
+      where: eq(cartItems.userId, userId),
+      with: {
+        product: {
+          columns: {
+            id: true,
+            name: true,
+            slug: true,
+            coverImage: true,
+            price: true,
+            priceTiers: true,
+            minQuantity: true,
+            maxQuantity: true,
+            isActive: true,
+          },
+          with: { variants: true },
+        },
+        variant: { columns: { name: true } },
+      },
+      orderBy: (c, { asc }) => [asc(c.createdAt)],
+    });
+
+    const productIds = rows.map((r) => r.productId);
+    const stockMap = new Map<string, number>();
+    if (productIds.length > 0) {
+      const stockRows = await db
+        .select({
+          productId: cards.productId,
+          variantId: cards.variantId,
+          count: sql<number>`count(*)::int`,
+        })
+        .from(cards)
+        .where(and(inArray(cards.productId, productIds), sellableCardCondition()))
+        .groupBy(cards.productId, cards.variantId);
+      for (const row of stockRows) {
+        stockMap.set(stockKey(row.productId, row.variantId), row.count);
+      }
+    }
+
+    let totalCents = 0;
+    let totalQuantity = 0;
+    const items: CartLineItem[] = rows.map((row) => {
+      const target = resolvePurchaseTarget(row.product, row.variantId);
+      // 规格被停用/删除时仍展示该行，但禁止结算
+      const pricing = target.ok
+        ? target
+        : {
+            displayName: formatVariantProductName(row.product.name, row.variant?.name),
+            basePrice: row.product.price,
+            priceTiers: row.product.priceTiers,
+            minQuantity: row.product.minQuantity,
+            maxQuantity: row.product.maxQuantity,
+          };
+      const unitPrice = resolveUnitPrice(pricing.basePrice, pricing.priceTiers, row.quantity);
+      totalCents += Math.round(parseFloat(unitPrice) * 100) * row.quantity;
+      totalQuantity += row.quantity;
+      return {
+        productId: row.product.id,
+        variantId: row.variantId,
+        productName: pricing.displayName,
+        productSlug: row.product.slug,
+        coverImage: row.product.coverImage,
+        price: unitPrice,
+        quantity: row.quantity,
+        minQuantity: pricing.minQuantity,
+        maxQuantity: pricing.maxQuantity,
+        stock: stockMap.get(stockKey(row.productId, row.variantId)) ?? 0,
+        isActive: row.product.isActive && target.ok,
+      };
+    });
+
+    return {
+      success: true,
+      data: {
+        items,
+        totalQuantity,
+        totalAmount: (totalCents / 100).toFixed(2),
+      },
+    };
+  } catch (error) {
+    logger.error({ err: error, action: "getCart" }, "获取购物车失败");
+    return { success: false, message: "获取购物车失败，请稍后重试" };
+  }
+}
+
+/**
+ * 加入购物车
+ * 已存在时累加数量（不超过商品限购上限）
+ */
+export async function addToCart(
+  input: CartItemInput
+): Promise<{ success: boolean; message: string }> {
+  const requestId = await getRequestIdFromHeaders();
+  const log = logger.child({ requestId, action: "addToCart" });
+
+  const userId = await getLinuxDoUserId();
+  if (!userId) {
+    return { success: false, message: "请先登录" };
+  }
+
+  const validationResult = cartItemSchema.safeParse(input);
+  if (!validationResult.success) {
+    return { success: false, message: validationResult.error.issues[0].message };
+  }
+
+  const { productId, quantity } = validationResult.data;
+
+  try {
+    const product = await db.query.products.findFirst({
+      where: and(eq(products.id, productId), eq(products.isActive, true)),
+      columns: { id: true, name: true, price: true, minQuantity: true, maxQuantity: true },
+      with: { variants: true },
+    });
+
+    if (!product) {
+      return { success: false, message: "商品不存在或已下架" };
+    }
+
+    const target = resolvePurchaseTarget(product, validationResult.data.variantId);
+    if (!target.ok) {
+      return { success: false, message: target.message };
+    }
+    const { variantId } = target;
+
+    const existing = await db.query.cartItems.findFirst({
+      where: cartLineWhere(userId, productId, variantId),
+      columns: { quantity: true },
+    });
+
+    const nextQuantity = (existing?.quantity ?? 0) + quantity;
+    if (nextQuantity < target.minQuantity || nextQuantity > target.maxQuantity) {
+      return {
+        success: false,
+        message: `购买数量需在 ${target.minQuantity} - ${target.maxQuantity} 之间`,
+      };
+    }
+
+    // variant_id 可为空，两种情况分别命中不同的部分唯一索引
+    await db
+      .insert(cartItems)
+      .values({ userId, productId, variantId, quantity: nextQuantity })
+      .onConflictDoUpdate(
+        variantId
+          ? {
+              target: [cartItems.userId, cartItems.productId, cartItems.variantId],
+              targetWhere: sql`${cartItems.variantId} IS NOT NULL`,
+              set: { quantity: nextQuantity, updatedAt: new Date() },
+            }
+          : {
+              target: [cartItems.userId, cartItems.productId],
+              targetWhere: sql`${cartItems.variantId} IS NULL`,
+              set: { quantity: nextQuantity, updatedAt: new Date() },
+            }
+      );
+
+    revalidatePath("/cart");
+    log.info({ userId, productId, variantId, quantity: nextQuantity }, "已加入购物车");
+    return { success: true, message: "已加入购物车" };
+  } catch (error) {
+    log.error({ err: error, userId, productId }, "加入购物车失败");
+    return { success: false, message: "加入购物车失败，请稍后重试" };
+  }
+}
+
+/**
+ * 修改购物车商品数量
+ */
+export async function updateCartItem(
+  input: CartItemInput
+): Promise<{ success: boolean; message: string }> {
+  const userId = await getLinuxDoUserId();
+  if (!userId) {
+    return { success: false, message: "请先登录" };
+  }
+
+  const validationResult = cartItemSchema.safeParse(input);
+  if (!validationResult.success) {
+    return { success: false, message: validationResult.error.issues[0].message };
+  }
+
+  const { productId, variantId, quantity } = validationResult.data;
+
+  try {
+    const product = await db.query.products.findFirst({
+      where: eq(products.id, productId),
+      columns: { name: true, price: true, minQuantity: true, maxQuantity: true },
+      with: { variants: true },
+    });
+
+    if (!product) {
+      return { success: false, message: "商品不存在或已下架" };
+    }
+
+    const target = resolvePurchaseTarget(product, variantId);
+    if (!target.ok) {
+      return { success: false, message: target.message };
+    }
+
+    if (quantity < target.minQuantity || quantity > target.maxQuantity) {
+      return {
+        success: false,
+        message: `购买数量需在 ${target.minQuantity} - ${target.maxQuantity} 之间`,
+      };
+    }
+
+    const updated = await db
+      .update(cartItems)
+      .set({ quantity, updatedAt: new Date() })
+      .where(cartLineWhere(userId, productId, variantId))
+      .returning({ id: cartItems.id });
+
+    if (updated.length === 0) {
+      return { success: false, message: "购物车中没有该商品" };
+    }
+
+    revalidatePath("/cart");
+    return { success: true, message: "已更新数量" };
+  } catch (error) {
+    logger.error({ err: error, action: "updateCartItem", userId, productId }, "更新购物车失败");
+    return { success: false, message: "更新购物车失败，请稍后重试" };
+  }
+}
+
+/**
+ * 从购物车移除商品
+ */
+export async function removeCartItem(
+  productId: string,
+  variantId?: string | null
+): Promise<{ success: boolean; message: string }> {
+  const userId = await getLinuxDoUserId();
+  if (!userId) {
+    return { success: false, message: "请先登录" };
+  }
+
+  try {
+    await db
+      .delete(cartItems)
+      .where(cartLineWhere(userId, productId, variantId));
+
+    revalidatePath("/cart");
+    return { success: true, message: "已移除" };
+  } catch (error) {
+    logger.error({ err: error, action: "removeCartItem", userId, productId }, "移除购物车商品失败");
+    return { success: false, message: "移除失败，请稍后重试" };
+  }
+}
@@ -33,7 +33,7 @@ export interface AdminCategoryOption {
  */
 export async function getAdminCategories(): Promise<AdminCategoryOption[]> {
   try {
-    await requireAdmin();
+    await requireAdmin("products.manage");
   } catch {
     return [];
   }
@@ -93,7 +93,7 @@ export async function getCategoryBySlug(slug: string) {
  */
 export async function createCategory(input: CreateCategoryInput) {
   try {
-    await requireAdmin();
+    await requireAdmin("products.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -129,7 +129,7 @@ export async function createCategory(input: CreateCategoryInput) {
  */
 export async function updateCategory(id: string, input: UpdateCategoryInput) {
   try {
-    await requireAdmin();
+    await requireAdmin("products.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -173,7 +173,7 @@ export async function updateCategory(id: string, input: UpdateCategoryInput) {
  */
 export async function deleteCategory(id: string) {
   try {
-    await requireAdmin();
+    await requireAdmin("products.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -214,7 +214,7 @@ export async function deleteCategory(id: string) {
  */
 export async function toggleCategoryActive(id: string) {
   try {
-    await requireAdmin();
+    await requireAdmin("products.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
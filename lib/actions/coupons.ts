@@ -0,0 +1,357 @@
+"use server";
+
+import { db, coupons, orders, products } from "@/lib/db";
+import { and, desc, eq, sql } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { auth } from "@/lib/auth";
+import { requireAdmin } from "@/lib/auth-utils";
+import { pickAuditFields, recordAdminAudit } from "@/lib/admin-audit";
+import { createCouponSchema, type CreateCouponInput } from "@/lib/validations/coupon";
+import { resolveCouponForOrder } from "@/lib/coupon-usage";
+import { toCents } from "@/lib/coupon";
+import { resolveUnitPrice } from "@/lib/pricing";
+import { resolvePurchaseTarget } from "@/lib/product-variants";
+import { getStatsTimeZone } from "@/lib/time/stats";
+import { parseDateTimeLocalInTimezone } from "@/lib/time/zoned";
+import { logger, getRequestIdFromHeaders } from "@/lib/logger";
+
+// 核销口径：已支付的订单均计入，退款中/退款被拒仍视为已核销（已退款单独统计）
+const REDEEMED_STATUSES_SQL = sql`('paid', 'completed', 'refund_pending', 'refund_rejected', 'partially_refunded')`;
+
+const COUPON_AUDIT_FIELDS = [
+  "code",
+  "discountType",
+  "discountValue",
+  "productId",
+  "categoryId",
+  "minAmount",
+  "maxUses",
+  "maxUsesPerUser",
+  "expiresAt",
+  "isActive",
+] as const;
+
+export interface AdminCouponListItem {
+  id: string;
+  code: string;
+  description: string | null;
+  discountType: "percent" | "fixed";
+  discountValue: string;
+  scopeLabel: string;
+  minAmount: string;
+  maxUses: number | null;
+  maxUsesPerUser: number | null;
+  expiresAt: Date | null;
+  isExpired: boolean;
+  isActive: boolean;
+  createdAt: Date;
+  stats: {
+    redeemedCount: number;
+    pendingCount: number;
+    refundedCount: number;
+    totalDiscount: string;
+    totalRevenue: string;
+  };
+}
+
+/**
+ * 获取优惠码列表及核销统计（管理后台）
+ */
+export async function getAdminCoupons(): Promise<AdminCouponListItem[]> {
+  try {
+    await requireAdmin("marketing.manage");
+  } catch {
+    return [];
+  }
+
+  const couponList = await db.query.coupons.findMany({
+    with: {
+      product: { columns: { name: true } },
+      category: { columns: { name: true } },
+    },
+    orderBy: [desc(coupons.createdAt)],
+  });
+
+  const statRows = await db
+    .select({
+      couponId: orders.couponId,
+      redeemedCount: sql<number>`count(*) FILTER (WHERE ${orders.status} IN ${REDEEMED_STATUSES_SQL})::int`,
+      pendingCount: sql<number>`count(*) FILTER (WHERE ${orders.status} = 'pending')::int`,
+      refundedCount: sql<number>`count(*) FILTER (WHERE ${orders.status} = 'refunded')::int`,
+      totalDiscount: sql<string>`COALESCE(SUM(${orders.discountAmount}) FILTER (WHERE ${orders.status} IN ${REDEEMED_STATUSES_SQL}), 0)::text`,
+      totalRevenue: sql<string>`COALESCE(SUM(${orders.totalAmount}) FILTER (WHERE ${orders.status} IN ${REDEEMED_STATUSES_SQL}), 0)::text`,
+    })
+    .from(orders)
+    .where(sql`${orders.couponId} IS NOT NULL`)
+    .groupBy(orders.couponId);
+
+  const statMap = new Map(statRows.map((row) => [row.couponId, row]));
+  const now = Date.now();
+
+  return couponList.map((coupon) => {
+    const stat = statMap.get(coupon.id);
+    const scopeLabel = coupon.product
+      ? `商品：${coupon.product.name}`
+      : coupon.category
+        ? `分类：${coupon.category.name}`
+        : "全场通用";
+
+    return {
+      id: coupon.id,
+      code: coupon.code,
+      description: coupon.description,
+      discountType: coupon.discountType,
+      discountValue: coupon.discountValue,
+      scopeLabel,
+      minAmount: coupon.minAmount,
+      maxUses: coupon.maxUses,
+      maxUsesPerUser: coupon.maxUsesPerUser,
+      expiresAt: coupon.expiresAt,
+      isExpired: coupon.expiresAt !== null && coupon.expiresAt.getTime() <= now,
+      isActive: coupon.isActive,
+      createdAt: coupon.createdAt,
+      stats: {
+        redeemedCount: stat?.redeemedCount ?? 0,
+        pendingCount: stat?.pendingCount ?? 0,
+        refundedCount: stat?.refundedCount ?? 0,
+        totalDiscount: Number(stat?.totalDiscount ?? 0).toFixed(2),
+        totalRevenue: Number(stat?.totalRevenue ?? 0).toFixed(2),
+      },
+    };
+  });
+}
+
+/**
+ * 创建优惠码
+ */
+export async function createCoupon(input: CreateCouponInput) {
+  let admin;
+  try {
+    admin = await requireAdmin("marketing.manage");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  const validationResult = createCouponSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      message: validationResult.error.issues[0].message,
+    };
+  }
+
+  const data = validationResult.data;
+  const expiresAt = data.expiresAt
+    ? parseDateTimeLocalInTimezone(data.expiresAt, getStatsTimeZone())
+    : null;
+
+  try {
+    const [coupon] = await db
+      .insert(coupons)
+      .values({
+        code: data.code,
+        description: data.description || null,
+        discountType: data.discountType,
+        discountValue: data.discountValue.toFixed(2),
+        productId: data.productId || null,
+        categoryId: data.categoryId || null,
+        minAmount: data.minAmount.toFixed(2),
+        maxUses: data.maxUses ?? null,
+        maxUsesPerUser: data.maxUsesPerUser ?? null,
+        expiresAt,
+        isActive: data.isActive,
+      })
+      .returning();
+
+    await recordAdminAudit(admin.user, {
+      action: "coupon.create",
+      entityType: "coupon",
+      entityId: coupon.id,
+      after: pickAuditFields(coupon, COUPON_AUDIT_FIELDS),
+    });
+
+    revalidatePath("/admin/coupons");
+
+    return { success: true, data: coupon };
+  } catch (error) {
+    console.error("创建优惠码失败:", error);
+    if (error instanceof Error && error.message.includes("unique")) {
+      return { success: false, message: "优惠码已存在" };
+    }
+    return { success: false, message: "创建优惠码失败" };
+  }
+}
+
+/**
+ * 切换优惠码启用状态
+ */
+export async function toggleCouponActive(id: string) {
+  let admin;
+  try {
+    admin = await requireAdmin("marketing.manage");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  try {
+    const coupon = await db.query.coupons.findFirst({
+      where: eq(coupons.id, id),
+    });
+
+    if (!coupon) {
+      return { success: false, message: "优惠码不存在" };
+    }
+
+    await db
+      .update(coupons)
+      .set({
+        isActive: !coupon.isActive,
+        updatedAt: new Date(),
+      })
+      .where(eq(coupons.id, id));
+
+    await recordAdminAudit(admin.user, {
+      action: "coupon.update",
+      entityType: "coupon",
+      entityId: id,
+      before: { isActive: coupon.isActive },
+      after: { isActive: !coupon.isActive },
+    });
+
+    revalidatePath("/admin/coupons");
+
+    return {
+      success: true,
+      message: coupon.isActive ? "优惠码已停用" : "优惠码已启用",
+    };
+  } catch (error) {
+    console.error("切换优惠码状态失败:", error);
+    return { success: false, message: "操作失败" };
+  }
+}
+
+/**
+ * 删除优惠码
+ * 历史订单保留 couponCode / discountAmount 快照，不受影响
+ */
+export async function deleteCoupon(id: string) {
+  let admin;
+  try {
+    admin = await requireAdmin("marketing.manage");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  try {
+    const pendingOrder = await db.query.orders.findFirst({
+      where: and(eq(orders.couponId, id), eq(orders.status, "pending")),
+      columns: { id: true },
+    });
+
+    if (pendingOrder) {
+      return { success: false, message: "该优惠码有待支付订单，请稍后再删除" };
+    }
+
+    const [deleted] = await db.delete(coupons).where(eq(coupons.id, id)).returning();
+
+    if (deleted) {
+      await recordAdminAudit(admin.user, {
+        action: "coupon.delete",
+        entityType: "coupon",
+        entityId: id,
+        before: pickAuditFields(deleted, COUPON_AUDIT_FIELDS),
+      });
+    }
+
+    revalidatePath("/admin/coupons");
+
+    return { success: true, message: "优惠码已删除" };
+  } catch (error) {
+    console.error("删除优惠码失败:", error);
+    return { success: false, message: "删除优惠码失败" };
+  }
+}
+
+export interface CouponPreviewResult {
+  success: boolean;
+  message: string;
+  data?: {
+    code: string;
+    discountAmount: string;
+    totalAmount: string;
+  };
+}
+
+/**
+ * 下单前预览优惠码（仅用于展示，最终以下单事务内的校验结果为准）
+ */
+export async function previewCoupon(input: {
+  code: string;
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}): Promise<CouponPreviewResult> {
+  const requestId = await getRequestIdFromHeaders();
+  const log = logger.child({ requestId, action: "previewCoupon" });
+
+  const session = await auth();
+  const user = session?.user as { id?: string; provider?: string } | undefined;
+
+  if (!user?.id || user.provider !== "linux-do") {
+    return { success: false, message: "请先登录" };
+  }
+
+  if (!Number.isInteger(input.quantity) || input.quantity < 1) {
+    return { success: false, message: "数量至少为1" };
+  }
+
+  try {
+    const product = await db.query.products.findFirst({
+      where: and(eq(products.id, input.productId), eq(products.isActive, true)),
+      columns: {
+        id: true,
+        name: true,
+        categoryId: true,
+        price: true,
+        priceTiers: true,
+        minQuantity: true,
+        maxQuantity: true,
+      },
+      with: { variants: true },
+    });
+
+    if (!product) {
+      return { success: false, message: "商品不存在或已下架" };
+    }
+
+    const target = resolvePurchaseTarget(product, input.variantId);
+    if (!target.ok) {
+      return { success: false, message: target.message };
+    }
+
+    const unitPrice = resolveUnitPrice(target.basePrice, target.priceTiers, input.quantity);
+    const subtotalCents = toCents(unitPrice) * input.quantity;
+    const resolution = await resolveCouponForOrder(db, {
+      code: input.code,
+      userId: user.id,
+      lines: [{ productId: product.id, categoryId: product.categoryId, subtotalCents }],
+    });
+
+    if (!resolution.ok) {
+      return { success: false, message: resolution.message };
+    }
+
+    return {
+      success: true,
+      message: "优惠码可用",
+      data: {
+        code: resolution.code,
+        discountAmount: (resolution.discountCents / 100).toFixed(2),
+        totalAmount: ((subtotalCents - resolution.discountCents) / 100).toFixed(2),
+      },
+    };
+  } catch (error) {
+    log.error({ err: error, productId: input.productId }, "预览优惠码失败");
+    return { success: false, message: "校验优惠码失败，请稍后重试" };
+  }
+}
@@ -27,9 +27,9 @@ export async function getCustomersSpendLeaderboard(input?: {
         user_id,
         (ARRAY_AGG(username ORDER BY created_at DESC))[1] AS username,
         COUNT(*)::int AS order_count,
-        COALESCE(SUM(total_amount::numeric), 0)::text AS total_spent
+        COALESCE(SUM(total_amount::numeric - refunded_amount::numeric), 0)::text AS total_spent
       FROM orders
-      WHERE status = 'completed' AND user_id IS NOT NULL
+      WHERE status IN ('completed', 'partially_refunded') AND user_id IS NOT NULL
       GROUP BY user_id
     )
     SELECT user_id, username, order_count, total_spent
@@ -10,50 +10,64 @@
  * - 前端显示时浏览器自动转换为用户本地时区
  */
 
-import { db, orders, cards, products } from "@/lib/db";
+import {
+  db,
+  orders,
+  orderItems,
+  orderRefunds,
+  cartItems,
+  cards,
+  products,
+  type Order,
+  type PaymentMethod,
+  type RefundCardPolicy,
+} from "@/lib/db";
 import { eq, and, sql, desc, inArray } from "drizzle-orm";
-import { nanoid } from "nanoid";
-import { headers } from "next/headers";
-import { createOrderSchema, type CreateOrderInput } from "@/lib/validations/order";
-import { createPayment, refundOrder, isRefundEnabled, getRefundMode, getClientRefundParams, type PaymentFormData, type RefundMode, type ClientRefundParams } from "@/lib/payment/ldc";
+import {
+  createOrderSchema,
+  checkoutCartSchema,
+  type CreateOrderInput,
+  type CheckoutCartInput,
+} from "@/lib/validations/order";
+import { getRefundMode, getClientRefundParams, type RefundMode, type ClientRefundParams } from "@/lib/payment/ldc";
+import { getCheckoutPaymentProvider, getPaymentProvider } from "@/lib/payment/registry";
+import type { PaymentFormData } from "@/lib/payment/types";
 import { revalidatePath } from "next/cache";
 import { auth } from "@/lib/auth";
 import { requireAdmin } from "@/lib/auth-utils";
+import { recordAdminAudit, type AdminAuditEntry } from "@/lib/admin-audit";
 import { getExpireTime } from "@/lib/time";
+import {
+  getSiteUrl,
+  incrementSalesForOrder,
+  insertOrderWithLockedCards,
+  placeProductOrder,
+  releaseExpiredOrders,
+  type CreateOrderResult,
+  type OrderLineInput,
+} from "@/lib/order-placement";
 import { getSystemSettings } from "@/lib/actions/system-settings";
 import { logger, getRequestIdFromHeaders } from "@/lib/logger";
-
-/**
- * 从请求头自动获取网站 URL
- */
-async function getSiteUrl(): Promise<string> {
-  const headersList = await headers();
-  const host = headersList.get("host") || "localhost:3000";
-  const protocol = headersList.get("x-forwarded-proto") || "http";
-  return `${protocol}://${host}`;
-}
-
-// 生成订单号: 时间戳 + 随机字符
-function generateOrderNo(): string {
-  const timestamp = Date.now().toString(36).toUpperCase();
-  const random = nanoid(6).toUpperCase();
-  return `LD${timestamp}${random}`;
-}
-
-export interface CreateOrderResult {
-  success: boolean;
-  message: string;
-  orderNo?: string;
-  paymentForm?: PaymentFormData;
-}
+import { recordCardAccess } from "@/lib/card-access";
+import { decryptCardContent, decryptCardFields } from "@/lib/card-crypto";
+import type { CardField } from "@/lib/card-import";
+import { resolveUnitPrice } from "@/lib/pricing";
+import { resolvePurchaseTarget } from "@/lib/product-variants";
+import { scheduleStockAlerts } from "@/lib/stock-alerts";
+import {
+  cardStatusAfterRefund,
+  computeRefundAmount,
+  formatCents,
+  groupRefundCardsByPolicy,
+  isRefundCardPolicy,
+  type RefundOrderLine,
+} from "@/lib/refunds";
 
 /**
  * 创建订单
  * 1. 验证登录状态
  * 2. 验证输入
- * 3. 检查库存
- * 4. 创建订单并锁定卡密（使用事务）
- * 5. 调用支付接口获取支付链接
+ * 3. 检查库存、创建订单并获取支付链接（placeProductOrder）
  * 
  * 仅登录用户可下单
  */
@@ -83,128 +97,156 @@ export async function createOrder(input: CreateOrderInput): Promise<CreateOrderR
     };
   }
 
-  const { productId, quantity, paymentMethod } = validationResult.data;
+  return placeProductOrder(
+    { id: user.id, username: user.username },
+    validationResult.data,
+    log
+  );
+}
+
+/**
+ * 购物车合并结算
+ * 1. 验证登录状态
+ * 2. 读取当前用户购物车并逐项校验（上架状态、限购）
+ * 3. 单个事务内为所有商品锁定卡密，创建一笔订单及其明细，并清空已结算的购物车
+ * 4. 只调用一次支付接口，整单支付
+ */
+export async function checkoutCart(input: CheckoutCartInput = {}): Promise<CreateOrderResult> {
+  const requestId = await getRequestIdFromHeaders();
+  const log = logger.child({ requestId, action: "checkoutCart" });
+
+  const session = await auth();
+  const user = session?.user as { id?: string; username?: string; provider?: string } | undefined;
+
+  if (!user?.id || user.provider !== "linux-do") {
+    log.warn("未登录用户尝试结算购物车");
+    return {
+      success: false,
+      message: "请先登录后再下单",
+    };
+  }
+
+  const validationResult = checkoutCartSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      message: validationResult.error.issues[0].message,
+    };
+  }
+
+  const { paymentMethod, couponCode } = validationResult.data;
 
   try {
-    log.info({ userId: user.id, productId, quantity, paymentMethod }, "开始创建订单");
+    const paymentProvider = await getCheckoutPaymentProvider(paymentMethod);
+    if (!paymentProvider) {
+      return { success: false, message: "该支付方式暂未开放" };
+    }
 
-    // 2.1 释放过期订单，确保库存准确（懒加载策略）
     await releaseExpiredOrders();
-    
-    // 2.2 获取商品信息
-    const product = await db.query.products.findFirst({
-      where: and(eq(products.id, productId), eq(products.isActive, true)),
+
+    const cartRows = await db.query.cartItems.findMany({
+      where: eq(cartItems.userId, user.id),
+      with: { product: { with: { variants: true } } },
+      orderBy: (c, { asc }) => [asc(c.createdAt)],
     });
 
-    if (!product) {
-      return { success: false, message: "商品不存在或已下架" };
+    if (cartRows.length === 0) {
+      return { success: false, message: "购物车为空" };
     }
 
-    // 验证购买数量限制
-    if (quantity < product.minQuantity || quantity > product.maxQuantity) {
-      return {
-        success: false,
-        message: `购买数量需在 ${product.minQuantity} - ${product.maxQuantity} 之间`,
-      };
+    const lines: OrderLineInput[] = [];
+    for (const row of cartRows) {
+      if (!row.product.isActive) {
+        return { success: false, message: `「${row.product.name}」已下架，请先移出购物车` };
+      }
+      const target = resolvePurchaseTarget(row.product, row.variantId);
+      if (!target.ok) {
+        return { success: false, message: `「${row.product.name}」${target.message}，请先移出购物车` };
+      }
+      if (row.quantity < target.minQuantity || row.quantity > target.maxQuantity) {
+        return {
+          success: false,
+          message: `「${target.displayName}」购买数量需在 ${target.minQuantity} - ${target.maxQuantity} 之间`,
+        };
+      }
+      lines.push({
+        productId: row.productId,
+        variantId: target.variantId,
+        categoryId: row.product.categoryId,
+        productName: target.displayName,
+        productPrice: resolveUnitPrice(target.basePrice, target.priceTiers, row.quantity),
+        quantity: row.quantity,
+      });
     }
 
+    log.info(
+      { userId: user.id, lines: cartRows.length, paymentMethod },
+      "开始结算购物车"
+    );
+
     const { orderExpireMinutes } = await getSystemSettings();
 
-    // 3. 使用事务处理订单创建和卡密锁定
     const result = await db.transaction(async (tx) => {
-      // 3.1 查询可用库存（使用 FOR UPDATE 锁定行）
-      const availableCards = await tx
-        .select({ id: cards.id })
-        .from(cards)
-        .where(and(eq(cards.productId, productId), eq(cards.status, "available")))
-        .limit(quantity)
-        .for("update");
-
-      if (availableCards.length < quantity) {
-        throw new Error(`库存不足，当前仅剩 ${availableCards.length} 件`);
-      }
-
-      const cardIds = availableCards.map((c) => c.id);
-      const orderNo = generateOrderNo();
-      const totalAmount = parseFloat(product.price) * quantity;
-      // 计算订单过期时间（UTC 时间戳，存入数据库时自动转换）
-      const expiredAt = getExpireTime(orderExpireMinutes);
-
-      // 3.2 创建订单
-      const [newOrder] = await tx
-        .insert(orders)
-        .values({
-          orderNo,
-          productId,
-          productName: product.name,
-          productPrice: product.price,
-          quantity,
-          totalAmount: totalAmount.toFixed(2),
-          paymentMethod,
-          userId: user.id,
-          username: user.username,
-          expiredAt,
-        })
-        .returning();
-
-      // 3.3 锁定卡密
-      await tx
-        .update(cards)
-        .set({
-          status: "locked",
-          orderId: newOrder.id,
-          lockedAt: new Date(),
-        })
-        .where(
-          and(
-            eq(cards.productId, productId),
-            eq(cards.status, "available"),
-            inArray(cards.id, cardIds)
+      const created = await insertOrderWithLockedCards(tx, {
+        lines,
+        paymentMethod,
+        couponCode: couponCode || undefined,
+        userId: user.id!,
+        username: user.username,
+        expiredAt: getExpireTime(orderExpireMinutes),
+      });
+
+      // 只清理本次已结算的行，避免并发加购的商品被误删
+      await tx.delete(cartItems).where(
+        and(
+          eq(cartItems.userId, user.id!),
+          inArray(
+            cartItems.id,
+            cartRows.map((row) => row.id)
           )
-        );
+        )
+      );
 
-      return { order: newOrder, totalAmount };
+      return created;
     });
 
-    // 4. 刷新页面缓存，确保库存显示准确
     revalidatePath("/");
-    revalidatePath(`/product/${product.slug}`);
-
-    // 5. 调用支付接口（如果是 LDC 支付）
-    let paymentForm: PaymentFormData | undefined;
-    if (paymentMethod === "ldc") {
-      try {
-        const siteUrl = await getSiteUrl();
-        paymentForm = createPayment(
-          result.order.orderNo,
-          result.totalAmount,
-          product.name,
-          siteUrl
-        );
-      } catch (error) {
-        // 支付接口调用失败，但订单已创建
-        log.error(
-          { err: error, orderNo: result.order.orderNo, userId: user.id },
-          "创建支付链接失败（订单已创建）"
-        );
-        return {
-          success: true,
-          message: "订单创建成功，但支付链接生成失败，请稍后重试支付",
-          orderNo: result.order.orderNo,
-        };
-      }
+    revalidatePath("/cart");
+    for (const row of cartRows) {
+      revalidatePath(`/product/${row.product.slug}`);
+    }
+    scheduleStockAlerts(cartRows.map((row) => row.productId));
+
+    let paymentForm: PaymentFormData;
+    try {
+      const siteUrl = await getSiteUrl();
+      paymentForm = paymentProvider.createPayment({
+        orderNo: result.order.orderNo,
+        amount: result.totalAmount,
+        productName: result.order.productName,
+        siteUrl,
+      });
+    } catch (error) {
+      log.error(
+        { err: error, orderNo: result.order.orderNo, userId: user.id },
+        "创建支付链接失败（订单已创建）"
+      );
+      return {
+        success: true,
+        message: "订单创建成功，但支付链接生成失败，请稍后重试支付",
+        orderNo: result.order.orderNo,
+      };
     }
 
     log.info(
       {
         orderNo: result.order.orderNo,
         userId: user.id,
-        productId,
-        quantity,
+        lines: cartRows.length,
         totalAmount: result.totalAmount,
         paymentMethod,
       },
-      "订单创建成功"
+      "购物车结算成功"
     );
 
     return {
@@ -214,156 +256,14 @@ export async function createOrder(input: CreateOrderInput): Promise<CreateOrderR
       paymentForm,
     };
   } catch (error) {
-    log.error(
-      { err: error, userId: user.id, productId, quantity, paymentMethod },
-      "创建订单失败"
-    );
+    log.error({ err: error, userId: user.id, paymentMethod }, "结算购物车失败");
     return {
       success: false,
-      message: error instanceof Error ? error.message : "创建订单失败，请稍后重试",
+      message: error instanceof Error ? error.message : "结算失败，请稍后重试",
     };
   }
 }
 
-/**
- * 处理支付成功回调
- * 1. 更新订单状态
- * 2. 更新卡密状态为已售出
- * 3. 更新商品销量
- */
-export async function handlePaymentSuccess(
-  orderNo: string,
-  tradeNo: string
-): Promise<boolean> {
-  try {
-    const log = logger.child({ action: "handlePaymentSuccess", orderNo, tradeNo });
-    let productSlug: string | null = null;
-
-    await db.transaction(async (tx) => {
-      // 1. 获取并更新订单
-      const [order] = await tx
-        .update(orders)
-        .set({
-          status: "completed",
-          tradeNo,
-          paidAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(and(eq(orders.orderNo, orderNo), eq(orders.status, "pending")))
-        .returning();
-
-      if (!order) {
-        throw new Error("订单不存在或已处理");
-      }
-
-      // 2. 更新卡密状态为已售出
-      await tx
-        .update(cards)
-        .set({
-          status: "sold",
-          soldAt: new Date(),
-        })
-        .where(eq(cards.orderId, order.id));
-
-      // 3. 更新商品销量
-      if (order.productId) {
-        await tx
-          .update(products)
-          .set({
-            salesCount: sql`${products.salesCount} + ${order.quantity}`,
-            updatedAt: new Date(),
-          })
-          .where(eq(products.id, order.productId));
-
-        // 获取商品 slug 用于刷新缓存
-        const product = await tx.query.products.findFirst({
-          where: eq(products.id, order.productId),
-          columns: { slug: true },
-        });
-        productSlug = product?.slug || null;
-      }
-    });
-
-    // 刷新页面缓存
-    revalidatePath("/admin/orders");
-    revalidatePath("/admin");
-    revalidatePath("/");
-    if (productSlug) {
-      revalidatePath(`/product/${productSlug}`);
-    }
-    log.info("支付成功回调处理完成");
-    return true;
-  } catch (error) {
-    logger.error({ err: error, action: "handlePaymentSuccess", orderNo, tradeNo }, "处理支付成功回调失败");
-    return false;
-  }
-}
-
-/**
- * 释放过期订单的锁定卡密
- * 采用懒加载策略：在关键操作时自动调用
- *
- * 时区一致性说明：
- * - 订单创建时 expiredAt 使用 JavaScript Date（UTC 时间戳）
- * - PostgreSQL 存储为 timestamp with time zone（内部 UTC）
- * - 过期检查使用数据库 NOW() 函数（与存储时区一致）
- * - 这确保了无论服务器部署在哪个时区，过期判断都是准确的
- */
-export async function releaseExpiredOrders(): Promise<number> {
-  try {
-    const result = await db.transaction(async (tx) => {
-      // 1. 找出所有过期的待支付订单
-      // 使用数据库 NOW() 确保与 expiredAt 时区一致
-      const expiredOrders = await tx
-        .update(orders)
-        .set({
-          status: "expired",
-          updatedAt: new Date(),
-        })
-        .where(
-          and(
-            eq(orders.status, "pending"),
-            sql`${orders.expiredAt} < NOW()`
-          )
-        )
-        .returning({ id: orders.id });
-
-      if (expiredOrders.length === 0) {
-        return 0;
-      }
-
-      // 2. 释放这些订单锁定的卡密
-      const orderIds = expiredOrders.map((o) => o.id);
-      await tx
-        .update(cards)
-        .set({
-          status: "available",
-          orderId: null,
-          lockedAt: null,
-        })
-        .where(
-          and(
-            eq(cards.status, "locked"),
-            inArray(cards.orderId, orderIds)
-          )
-        );
-
-      return expiredOrders.length;
-    });
-
-    // 刷新页面缓存
-    if (result > 0) {
-      revalidatePath("/admin/orders");
-      revalidatePath("/");
-      logger.info({ action: "releaseExpiredOrders", expiredOrders: result }, "释放过期订单完成");
-    }
-    return result;
-  } catch (error) {
-    logger.error({ err: error, action: "releaseExpiredOrders" }, "释放过期订单失败");
-    return 0;
-  }
-}
-
 /**
  * 管理员手动完成订单
  */
@@ -371,16 +271,33 @@ export async function adminCompleteOrder(
   orderId: string,
   adminRemark?: string
 ): Promise<{ success: boolean; message: string }> {
+  let admin;
   try {
-    await requireAdmin();
+    admin = await requireAdmin("orders.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
 
   try {
-    let productSlug: string | null = null;
+    let soldProducts: Array<{ id: string; slug: string }> = [];
+    let audit: AdminAuditEntry | null = null;
 
     await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select({ status: orders.status, paidAt: orders.paidAt, adminRemark: orders.adminRemark })
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .for("update");
+
+      if (!current) {
+        throw new Error("订单不存在");
+      }
+
+      // 退款后的订单仍关联作废/隔离的卡密，只允许完成待支付或已支付的订单
+      if (current.status !== "pending" && current.status !== "paid") {
+        throw new Error("该订单状态不允许手动完成");
+      }
+
       // 1. 更新订单状态
       const [order] = await tx
         .update(orders)
@@ -397,40 +314,47 @@ export async function adminCompleteOrder(
         throw new Error("订单不存在");
       }
 
-      // 2. 更新卡密状态
+      // 2. 更新卡密状态（仅锁定中的卡密）
       await tx
         .update(cards)
         .set({
           status: "sold",
           soldAt: new Date(),
         })
-        .where(eq(cards.orderId, order.id));
-
-      // 3. 更新销量
-      if (order.productId) {
-        await tx
-          .update(products)
-          .set({
-            salesCount: sql`${products.salesCount} + ${order.quantity}`,
-            updatedAt: new Date(),
-          })
-          .where(eq(products.id, order.productId));
-
-        // 获取商品 slug 用于刷新缓存
-        const product = await tx.query.products.findFirst({
-          where: eq(products.id, order.productId),
-          columns: { slug: true },
-        });
-        productSlug = product?.slug || null;
-      }
+        .where(and(eq(cards.orderId, order.id), eq(cards.status, "locked")));
+
+      // 3. 按订单明细更新商品销量（合并订单会涉及多个商品）
+      soldProducts = await incrementSalesForOrder(tx, order);
+
+      audit = {
+        action: "order.complete",
+        entityType: "order",
+        entityId: order.id,
+        before: {
+          orderNo: order.orderNo,
+          status: current.status,
+          paidAt: current.paidAt?.toISOString() ?? null,
+          adminRemark: current.adminRemark ?? null,
+        },
+        after: {
+          orderNo: order.orderNo,
+          status: order.status,
+          paidAt: order.paidAt?.toISOString() ?? null,
+          adminRemark: order.adminRemark,
+        },
+      };
     });
 
+    if (audit) {
+      await recordAdminAudit(admin.user, audit);
+    }
+
     // 刷新页面缓存
     revalidatePath("/admin/orders");
     revalidatePath("/admin");
     revalidatePath("/");
-    if (productSlug) {
-      revalidatePath(`/product/${productSlug}`);
+    for (const product of soldProducts) {
+      revalidatePath(`/product/${product.slug}`);
     }
     return { success: true, message: "订单已完成" };
   } catch (error) {
@@ -442,6 +366,21 @@ export async function adminCompleteOrder(
   }
 }
 
+/** 发给买家的卡密：结构化卡密附带字段，前端按字段逐行展示 */
+export interface DeliveredCard {
+  content: string;
+  fields: CardField[] | null;
+  expiresAt: Date | null;
+}
+
+function toDeliveredCard(card: { content: string; fields: string | null; expiresAt: Date | null }): DeliveredCard {
+  return {
+    content: decryptCardContent(card.content),
+    fields: decryptCardFields(card.fields),
+    expiresAt: card.expiresAt,
+  };
+}
+
 /**
  * 获取当前登录用户的历史订单
  */
@@ -461,6 +400,8 @@ export async function getUserOrders() {
           columns: {
             id: true,
             content: true,
+            fields: true,
+            expiresAt: true,
             status: true,
           },
         },
@@ -468,26 +409,37 @@ export async function getUserOrders() {
       orderBy: [desc(orders.createdAt)],
     });
 
+    const refundEnabledByMethod = new Map<PaymentMethod, boolean>();
+    for (const method of new Set(userOrders.map((order) => order.paymentMethod))) {
+      refundEnabledByMethod.set(method, await isPaymentMethodRefundEnabled(method));
+    }
+
+    const revealedCards: { id: string; orderId: string }[] = [];
     const ordersWithCards = userOrders.map((order) => {
-      // 仅当订单已完成时才显示卡密
+      // 仅当订单已完成时才显示卡密（部分退款订单显示未退款的卡密）
       const cardsToShow =
-        order.status === "completed" || order.status === "paid"
+        order.status === "completed" || order.status === "paid" || order.status === "partially_refunded"
           ? order.cards.filter((c) => c.status === "sold")
           : [];
+      revealedCards.push(...cardsToShow.map((c) => ({ id: c.id, orderId: order.id })));
 
       return {
         orderNo: order.orderNo,
         productName: order.productName,
         quantity: order.quantity,
         totalAmount: order.totalAmount,
+        refundedAmount: order.refundedAmount,
         status: order.status,
         paymentMethod: order.paymentMethod,
+        refundEnabled: refundEnabledByMethod.get(order.paymentMethod) ?? false,
         createdAt: order.createdAt,
         paidAt: order.paidAt,
-        cards: cardsToShow.map((c) => c.content),
+        cards: cardsToShow.map(toDeliveredCard),
       };
     });
 
+    await recordCardAccess(revealedCards, { type: "buyer", id: user.id, name: user.username }, "order_my");
+
     return {
       success: true,
       data: ordersWithCards,
@@ -508,7 +460,7 @@ export async function getUserOrders() {
 export async function getOrderByNo(orderNo: string) {
   try {
     const session = await auth();
-    const user = session?.user as { id?: string; provider?: string } | undefined;
+    const user = session?.user as { id?: string; username?: string; provider?: string } | undefined;
 
     if (!user?.id || user.provider !== "linux-do") {
       return { success: false, message: "请先登录" };
@@ -524,6 +476,8 @@ export async function getOrderByNo(orderNo: string) {
           columns: {
             id: true,
             content: true,
+            fields: true,
+            expiresAt: true,
             status: true,
           },
         },
@@ -534,12 +488,18 @@ export async function getOrderByNo(orderNo: string) {
       return { success: false, message: "订单不存在或无权访问" };
     }
 
-    // 仅当订单已完成时才显示卡密
+    // 仅当订单已完成时才显示卡密（部分退款订单显示未退款的卡密）
     const cardsToShow =
-      order.status === "completed" || order.status === "paid"
+      order.status === "completed" || order.status === "paid" || order.status === "partially_refunded"
         ? order.cards.filter((c) => c.status === "sold")
         : [];
 
+    await recordCardAccess(
+      cardsToShow.map((c) => ({ id: c.id, orderId: order.id })),
+      { type: "buyer", id: user.id, name: user.username },
+      "order_result"
+    );
+
     return {
       success: true,
       data: {
@@ -551,7 +511,7 @@ export async function getOrderByNo(orderNo: string) {
         paymentMethod: order.paymentMethod,
         createdAt: order.createdAt,
         paidAt: order.paidAt,
-        cards: cardsToShow.map((c) => c.content),
+        cards: cardsToShow.map(toDeliveredCard),
       },
     };
   } catch (error) {
@@ -604,7 +564,7 @@ export async function getOrderReceiptByNo(
       where: and(
         eq(orders.orderNo, normalizedOrderNo),
         eq(orders.userId, user.id),
-        inArray(orders.status, ["paid", "completed"])
+        inArray(orders.status, ["paid", "completed", "partially_refunded"])
       ),
       columns: {
         orderNo: true,
@@ -639,10 +599,17 @@ export async function getOrderReceiptByNo(
   }
 }
 
+/**
+ * 订单所属支付通道当前是否支持退款（LDC 受 LDC_REFUND_MODE 控制，EasyPay 需通道凭据齐全）
+ */
+async function isPaymentMethodRefundEnabled(method: PaymentMethod): Promise<boolean> {
+  const provider = await getPaymentProvider(method);
+  return provider?.isRefundEnabled() ?? false;
+}
+
 /**
  * 用户申请退款
- * 仅已完成的订单可以申请退款
- * 需要配置 LDC_PROXY_URL 才能使用退款功能
+ * 仅已完成的订单可以申请退款，且订单所属支付通道需支持退款
  */
 export async function requestRefund(
   orderNo: string,
@@ -651,11 +618,6 @@ export async function requestRefund(
   const requestId = await getRequestIdFromHeaders();
   const log = logger.child({ requestId, action: "requestRefund", orderNo });
 
-  // 检查退款功能是否启用
-  if (!isRefundEnabled()) {
-    return { success: false, message: "退款功能未启用" };
-  }
-
   try {
     const session = await auth();
     const user = session?.user as { id?: string; provider?: string } | undefined;
@@ -683,8 +645,13 @@ export async function requestRefund(
       return { success: false, message: "订单不存在或无权访问" };
     }
 
-    // 检查订单状态
-    if (order.status !== "completed") {
+    if (!(await isPaymentMethodRefundEnabled(order.paymentMethod))) {
+      log.warn({ userId: user.id, paymentMethod: order.paymentMethod }, "订单所属支付通道未启用退款");
+      return { success: false, message: "退款功能未启用" };
+    }
+
+    // 检查订单状态（部分退款的订单可再次申请退还剩余卡密）
+    if (order.status !== "completed" && order.status !== "partially_refunded") {
       log.warn({ userId: user.id, status: order.status }, "订单状态不允许申请退款");
       return { success: false, message: "仅已完成的订单可以申请退款" };
     }
@@ -714,22 +681,277 @@ export async function requestRefund(
   }
 }
 
+interface RefundPlan {
+  cardIds: string[];
+  amount: string;
+  isFull: boolean;
+}
+
+function buildRefundAuditEntry(
+  action: "order.refund_approve" | "order.refund_mark",
+  order: Order,
+  plan: RefundPlan,
+  cardPolicy?: RefundCardPolicy
+): AdminAuditEntry {
+  return {
+    action,
+    entityType: "order",
+    entityId: order.id,
+    before: {
+      orderNo: order.orderNo,
+      status: order.status,
+      refundedAmount: order.refundedAmount,
+    },
+    after: {
+      orderNo: order.orderNo,
+      status: plan.isFull ? "refunded" : "partially_refunded",
+      refundAmount: plan.amount,
+      cardIds: plan.cardIds,
+      cardPolicy: cardPolicy ?? "product",
+    },
+  };
+}
+
+async function loadRefundContext(order: Order) {
+  const [soldCards, items] = await Promise.all([
+    db
+      .select({
+        id: cards.id,
+        content: cards.content,
+        productId: cards.productId,
+        variantId: cards.variantId,
+      })
+      .from(cards)
+      .where(and(eq(cards.orderId, order.id), eq(cards.status, "sold"))),
+    db
+      .select({
+        productId: orderItems.productId,
+        variantId: orderItems.variantId,
+        productName: orderItems.productName,
+        productPrice: orderItems.productPrice,
+        quantity: orderItems.quantity,
+      })
+      .from(orderItems)
+      .where(eq(orderItems.orderId, order.id)),
+  ]);
+
+  // 早期订单没有明细，按订单上的单商品字段构造
+  const lines: (RefundOrderLine & { productName: string })[] =
+    items.length > 0
+      ? items
+      : [
+          {
+            productId: order.productId,
+            variantId: order.variantId,
+            productName: order.productName,
+            productPrice: order.productPrice,
+            quantity: order.quantity,
+          },
+        ];
+
+  return { soldCards, lines };
+}
+
+/**
+ * 计算本次退款的卡密与金额；未指定卡密时退还订单上剩余的全部卡密
+ */
+async function buildRefundPlan(
+  order: Order,
+  cardIds?: string[]
+): Promise<{ success: true; plan: RefundPlan } | { success: false; message: string }> {
+  const { soldCards, lines } = await loadRefundContext(order);
+
+  const selectedIds = cardIds === undefined ? soldCards.map((card) => card.id) : [...new Set(cardIds)];
+  if (cardIds !== undefined) {
+    if (selectedIds.length === 0) {
+      return { success: false, message: "请选择需要退款的卡密" };
+    }
+    const soldIds = new Set(soldCards.map((card) => card.id));
+    if (selectedIds.some((id) => !soldIds.has(id))) {
+      return { success: false, message: "所选卡密不属于该订单或已退款" };
+    }
+  }
+
+  const { amountCents, isFull } = computeRefundAmount({
+    totalAmount: order.totalAmount,
+    refundedAmount: order.refundedAmount,
+    lines,
+    soldCards,
+    selectedCardIds: selectedIds,
+  });
+
+  if (amountCents <= 0) {
+    return { success: false, message: "可退款金额为 0，无法退款" };
+  }
+
+  return { success: true, plan: { cardIds: selectedIds, amount: formatCents(amountCents), isFull } };
+}
+
+/**
+ * 记录退款并更新订单与卡密：退还全部剩余卡密时订单为 refunded，否则为 partially_refunded
+ * 卡密按所属商品的退款策略处理，cardPolicy 为管理员本次指定的策略（覆盖商品策略）
+ * 事务内先锁定订单行并确认仍处于退款审核中、已退金额未变；settle（调用支付通道退款）在锁内最后执行，
+ * 并发审批时后到的请求等待锁释放后看到状态已变更并中止，不会重复退款
+ */
+async function applyRefund(
+  order: Order,
+  plan: RefundPlan,
+  remark: string,
+  operator: string,
+  cardPolicy?: RefundCardPolicy,
+  settle?: () => Promise<void>
+): Promise<void> {
+  await db.transaction(async (tx) => {
+    const [current] = await tx
+      .select({ status: orders.status, refundedAmount: orders.refundedAmount })
+      .from(orders)
+      .where(eq(orders.id, order.id))
+      .for("update");
+
+    if (
+      current?.status !== "refund_pending" ||
+      Number(current.refundedAmount) !== Number(order.refundedAmount)
+    ) {
+      throw new Error("退款状态已变更");
+    }
+
+    await tx.insert(orderRefunds).values({
+      orderId: order.id,
+      amount: plan.amount,
+      cardIds: plan.cardIds,
+      cardCount: plan.cardIds.length,
+      reason: order.refundReason,
+      remark,
+      operator,
+    });
+
+    await tx
+      .update(orders)
+      .set({
+        status: plan.isFull ? "refunded" : "partially_refunded",
+        refundedAmount: sql`${orders.refundedAmount} + ${plan.amount}::numeric`,
+        adminRemark: remark,
+        refundedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(orders.id, order.id));
+
+    if (plan.cardIds.length > 0) {
+      // 仅处理本次退款的卡密
+      const refundCards = await tx
+        .select({ id: cards.id, productId: cards.productId })
+        .from(cards)
+        .where(and(eq(cards.orderId, order.id), inArray(cards.id, plan.cardIds)));
+
+      const productIds = [...new Set(refundCards.map((card) => card.productId))];
+      const productPolicies = new Map<string, RefundCardPolicy>();
+      if (!cardPolicy && productIds.length > 0) {
+        const rows = await tx
+          .select({ id: products.id, refundCardPolicy: products.refundCardPolicy })
+          .from(products)
+          .where(inArray(products.id, productIds));
+        for (const row of rows) {
+          productPolicies.set(row.id, row.refundCardPolicy);
+        }
+      }
+
+      for (const [policy, ids] of groupRefundCardsByPolicy(refundCards, productPolicies, cardPolicy)) {
+        // recycle 解除订单关联以便重新销售；作废/隔离的卡密保留订单关联，便于追溯
+        await tx
+          .update(cards)
+          .set(
+            policy === "recycle"
+              ? { status: "available", orderId: null, soldAt: null }
+              : { status: cardStatusAfterRefund(policy) }
+          )
+          .where(and(eq(cards.orderId, order.id), inArray(cards.id, ids)));
+      }
+    }
+
+    // 支付通道退款放在最后：前面的写入失败时不会发生资金变动，通道退款失败则回滚全部写入
+    await settle?.();
+  });
+}
+
+/**
+ * 获取退款审批所需信息（管理员）：订单上可退款的卡密、明细单价与已退款记录
+ */
+export async function getOrderRefundDetail(orderId: string) {
+  let admin;
+  try {
+    admin = await requireAdmin("orders.view");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  try {
+    const order = await db.query.orders.findFirst({
+      where: eq(orders.id, orderId),
+      with: {
+        refunds: { orderBy: [desc(orderRefunds.createdAt)] },
+      },
+    });
+
+    if (!order) {
+      return { success: false, message: "订单不存在" };
+    }
+
+    const { soldCards, lines } = await loadRefundContext(order);
+
+    const productIds = [
+      ...new Set(lines.map((line) => line.productId).filter((id): id is string => Boolean(id))),
+    ];
+    const policyRows =
+      productIds.length > 0
+        ? await db
+            .select({ id: products.id, refundCardPolicy: products.refundCardPolicy })
+            .from(products)
+            .where(inArray(products.id, productIds))
+        : [];
+    const policyMap = new Map(policyRows.map((row) => [row.id, row.refundCardPolicy]));
+
+    await recordCardAccess(
+      soldCards.map((card) => ({ id: card.id, orderId: order.id })),
+      { type: "admin", id: admin.user.id, name: admin.user.name },
+      "admin_refund"
+    );
+
+    return {
+      success: true,
+      message: "获取成功",
+      data: {
+        orderNo: order.orderNo,
+        status: order.status,
+        totalAmount: order.totalAmount,
+        refundedAmount: order.refundedAmount,
+        cards: soldCards.map((card) => ({ ...card, content: decryptCardContent(card.content) })),
+        lines: lines.map((line) => ({
+          ...line,
+          refundCardPolicy: (line.productId && policyMap.get(line.productId)) || null,
+        })),
+        refunds: order.refunds,
+      },
+    };
+  } catch (error) {
+    logger.error({ err: error, action: "getOrderRefundDetail", orderId }, "获取退款信息失败");
+    return { success: false, message: "获取退款信息失败" };
+  }
+}
+
 /**
  * 管理员审批退款 - 通过
- * 调用 LDC 退款接口完成退款
- * 需要配置 LDC_PROXY_URL 才能使用退款功能
+ * 调用订单所属支付通道的退款接口完成退款
+ * 是否可退款由该通道决定：LDC 订单受 LDC_REFUND_MODE 控制，EasyPay 订单只需通道凭据齐全
  */
 export async function approveRefund(
   orderId: string,
-  adminRemark?: string
+  adminRemark?: string,
+  cardIds?: string[],
+  cardPolicy?: RefundCardPolicy
 ): Promise<{ success: boolean; message: string }> {
-  // 检查退款功能是否启用
-  if (!isRefundEnabled()) {
-    return { success: false, message: "退款功能未启用，请配置 LDC_PROXY_URL" };
-  }
-
+  let admin;
   try {
-    await requireAdmin();
+    admin = await requireAdmin("refunds.approve");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -758,48 +980,72 @@ export async function approveRefund(
       return { success: false, message: "订单缺少支付流水号，无法退款" };
     }
 
-    // 调用 LDC 退款接口
-    const refundResult = await refundOrder(order.tradeNo, order.totalAmount);
+    if (cardPolicy !== undefined && !isRefundCardPolicy(cardPolicy)) {
+      return { success: false, message: "无效的卡密处理方式" };
+    }
 
-    if (refundResult.code !== 1) {
-      log.error(
-        { refundCode: refundResult.code, refundMsg: refundResult.msg, orderNo: order.orderNo },
-        "LDC 退款接口返回错误"
-      );
-      return { 
-        success: false, 
-        message: `退款失败: ${refundResult.msg || "支付平台返回错误"}` 
-      };
+    // 调用订单所属支付通道的退款接口
+    const provider = await getPaymentProvider(order.paymentMethod);
+    if (!provider) {
+      log.error({ orderNo: order.orderNo, paymentMethod: order.paymentMethod }, "审批退款：支付通道未配置");
+      return { success: false, message: "订单所属支付通道未配置，无法退款" };
+    }
+    if (!provider.isRefundEnabled()) {
+      log.warn({ orderNo: order.orderNo, paymentMethod: order.paymentMethod }, "审批退款：支付通道未启用退款");
+      return { success: false, message: "订单所属支付通道未启用退款功能" };
     }
 
-    // 更新订单状态
-    await db
-      .update(orders)
-      .set({
-        status: "refunded",
-        adminRemark: adminRemark || "退款已通过",
-        refundedAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(orders.id, orderId));
+    const planResult = await buildRefundPlan(order, cardIds);
+    if (!planResult.success) {
+      return planResult;
+    }
+    const { plan } = planResult;
+
+    const tradeNo = order.tradeNo;
+    await applyRefund(
+      order,
+      plan,
+      adminRemark || (plan.isFull ? "退款已通过" : "部分退款已通过"),
+      admin.user.name || admin.user.id,
+      cardPolicy,
+      async () => {
+        const refundResult = await provider.refund({
+          orderNo: order.orderNo,
+          tradeNo,
+          money: plan.amount,
+        });
 
-    // 将卡密状态改回可用（如果需要回收卡密）
-    // 注意：根据业务需求，退款后卡密可能需要标记为已使用或回收
-    // 这里我们将其改回 available 以便重新销售
-    await db
-      .update(cards)
-      .set({
-        status: "available",
-        orderId: null,
-        soldAt: null,
-      })
-      .where(eq(cards.orderId, orderId));
+        if (!refundResult.success) {
+          log.error(
+            { refundMsg: refundResult.message, orderNo: order.orderNo, paymentMethod: order.paymentMethod },
+            "支付通道退款接口返回错误"
+          );
+          throw new Error(`退款失败: ${refundResult.message}`);
+        }
+      }
+    );
+    await recordAdminAudit(
+      admin.user,
+      buildRefundAuditEntry("order.refund_approve", order, plan, cardPolicy)
+    );
 
     revalidatePath("/admin/orders");
     revalidatePath("/order/my");
 
-    log.info({ orderNo: order.orderNo, tradeNo: order.tradeNo }, "退款成功");
-    return { success: true, message: "退款成功" };
+    log.info(
+      {
+        orderNo: order.orderNo,
+        tradeNo: order.tradeNo,
+        amount: plan.amount,
+        cardCount: plan.cardIds.length,
+        cardPolicy: cardPolicy ?? "product",
+      },
+      plan.isFull ? "退款成功" : "部分退款成功"
+    );
+    return {
+      success: true,
+      message: plan.isFull ? `退款成功，退款 ${plan.amount}` : `部分退款成功，退款 ${plan.amount}`,
+    };
   } catch (error) {
     logger.error({ err: error, action: "approveRefund", orderId }, "审批退款失败");
     return {
@@ -816,8 +1062,9 @@ export async function rejectRefund(
   orderId: string,
   adminRemark?: string
 ): Promise<{ success: boolean; message: string }> {
+  let admin;
   try {
-    await requireAdmin();
+    admin = await requireAdmin("refunds.reject");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -828,6 +1075,9 @@ export async function rejectRefund(
 
     const order = await db.query.orders.findFirst({
       where: eq(orders.id, orderId),
+      with: {
+        refunds: { columns: { id: true }, limit: 1 },
+      },
     });
 
     if (!order) {
@@ -840,16 +1090,27 @@ export async function rejectRefund(
       return { success: false, message: "该订单不在退款审核中" };
     }
 
-    // 更新订单状态为已拒绝，并恢复为已完成状态
+    // 已部分退款的订单再次申请被拒时恢复为部分退款，买家仍可查看剩余卡密
+    const status =
+      Number(order.refundedAmount) > 0 || order.refunds.length > 0 ? "partially_refunded" : "refund_rejected";
+    const remark = adminRemark || "退款申请已拒绝";
     await db
       .update(orders)
       .set({
-        status: "refund_rejected",
-        adminRemark: adminRemark || "退款申请已拒绝",
+        status,
+        adminRemark: remark,
         updatedAt: new Date(),
       })
       .where(eq(orders.id, orderId));
 
+    await recordAdminAudit(admin.user, {
+      action: "order.refund_reject",
+      entityType: "order",
+      entityId: order.id,
+      before: { orderNo: order.orderNo, status: order.status, adminRemark: order.adminRemark },
+      after: { orderNo: order.orderNo, status, adminRemark: remark },
+    });
+
     revalidatePath("/admin/orders");
     revalidatePath("/order/my");
 
@@ -869,7 +1130,7 @@ export async function rejectRefund(
  */
 export async function getRefundOrders() {
   try {
-    await requireAdmin();
+    await requireAdmin("orders.view");
   } catch {
     return { success: false, message: "需要管理员权限", data: [] };
   }
@@ -894,14 +1155,6 @@ export async function getRefundOrders() {
   }
 }
 
-/**
- * 获取退款功能是否启用
- * 前端根据此状态决定是否显示退款相关按钮
- */
-export async function getRefundEnabled(): Promise<boolean> {
-  return isRefundEnabled();
-}
-
 /**
  * 获取退款模式
  */
@@ -914,14 +1167,15 @@ export async function getOrderRefundMode(): Promise<RefundMode> {
  * 用于客户端模式下，前端直接调用 LDC API
  */
 export async function getClientRefundData(
-  orderId: string
+  orderId: string,
+  cardIds?: string[]
 ): Promise<{ 
   success: boolean; 
   message: string; 
   data?: ClientRefundParams;
 }> {
   try {
-    await requireAdmin();
+    await requireAdmin("refunds.approve");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -949,12 +1203,22 @@ export async function getClientRefundData(
       return { success: false, message: "该订单不在退款审核中" };
     }
 
+    // 客户端直连退款仅适用于 LDC（浏览器绕过 CF 访问 LDC 接口）
+    if (order.paymentMethod !== "ldc") {
+      return { success: false, message: "该订单的支付方式不支持客户端退款" };
+    }
+
     if (!order.tradeNo) {
       log.error({ orderNo: order.orderNo }, "获取客户端退款参数：缺少 tradeNo");
       return { success: false, message: "订单缺少支付流水号，无法退款" };
     }
 
-    const params = getClientRefundParams(order.tradeNo, order.totalAmount);
+    const planResult = await buildRefundPlan(order, cardIds);
+    if (!planResult.success) {
+      return planResult;
+    }
+
+    const params = getClientRefundParams(order.tradeNo, planResult.plan.amount);
     log.info({ orderNo: order.orderNo }, "获取客户端退款参数成功");
     return { success: true, message: "获取成功", data: params };
   } catch (error) {
@@ -972,10 +1236,13 @@ export async function getClientRefundData(
  */
 export async function markOrderRefunded(
   orderId: string,
-  adminRemark?: string
+  adminRemark?: string,
+  cardIds?: string[],
+  cardPolicy?: RefundCardPolicy
 ): Promise<{ success: boolean; message: string }> {
+  let admin;
   try {
-    await requireAdmin();
+    admin = await requireAdmin("refunds.approve");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -998,32 +1265,46 @@ export async function markOrderRefunded(
       return { success: false, message: "该订单不在退款审核中" };
     }
 
-    // 更新订单状态
-    await db
-      .update(orders)
-      .set({
-        status: "refunded",
-        adminRemark: adminRemark || "退款已通过（客户端模式）",
-        refundedAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(orders.id, orderId));
+    if (cardPolicy !== undefined && !isRefundCardPolicy(cardPolicy)) {
+      return { success: false, message: "无效的卡密处理方式" };
+    }
 
-    // 将卡密状态改回可用
-    await db
-      .update(cards)
-      .set({
-        status: "available",
-        orderId: null,
-        soldAt: null,
-      })
-      .where(eq(cards.orderId, orderId));
+    // 与 getClientRefundData 使用相同的卡密重新计算金额，保证与浏览器提交的退款金额一致
+    const planResult = await buildRefundPlan(order, cardIds);
+    if (!planResult.success) {
+      return planResult;
+    }
+    const { plan } = planResult;
+
+    await applyRefund(
+      order,
+      plan,
+      adminRemark || "退款已通过（客户端模式）",
+      admin.user.name || admin.user.id,
+      cardPolicy
+    );
+    await recordAdminAudit(
+      admin.user,
+      buildRefundAuditEntry("order.refund_mark", order, plan, cardPolicy)
+    );
 
     revalidatePath("/admin/orders");
     revalidatePath("/order/my");
 
-    log.info({ orderNo: order.orderNo, tradeNo: order.tradeNo }, "订单已标记为已退款");
-    return { success: true, message: "订单状态已更新为已退款" };
+    log.info(
+      {
+        orderNo: order.orderNo,
+        tradeNo: order.tradeNo,
+        amount: plan.amount,
+        cardCount: plan.cardIds.length,
+        cardPolicy: cardPolicy ?? "product",
+      },
+      "订单已标记为已退款"
+    );
+    return {
+      success: true,
+      message: plan.isFull ? "订单状态已更新为已退款" : "订单状态已更新为部分退款",
+    };
   } catch (error) {
     logger.error({ err: error, action: "markOrderRefunded", orderId }, "标记订单已退款失败");
     return {
@@ -0,0 +1,111 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { and, desc, eq, sql, type SQL } from "drizzle-orm";
+import { db, paymentNotifyLogs, type PaymentNotifyLog } from "@/lib/db";
+import { requireAdmin } from "@/lib/auth-utils";
+import { recordAdminAudit } from "@/lib/admin-audit";
+import { getRequestIdFromHeaders, logger } from "@/lib/logger";
+import { replayPaymentNotify } from "@/lib/payment/notify-handler";
+import { PAYMENT_NOTIFY_OUTCOMES, type PaymentNotifyOutcome } from "@/lib/payment/notify-log";
+
+const PAGE_SIZE = 50;
+
+export interface PaymentNotifyLogPage {
+  items: PaymentNotifyLog[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * 获取支付回调日志（管理后台，按时间倒序分页）
+ */
+export async function getPaymentNotifyLogs(options: {
+  page?: number;
+  orderNo?: string;
+  outcome?: string;
+} = {}): Promise<PaymentNotifyLogPage> {
+  const page = Math.max(1, Math.floor(options.page ?? 1));
+  const empty = { items: [], total: 0, page, pageSize: PAGE_SIZE };
+
+  try {
+    await requireAdmin("payments.view");
+  } catch {
+    return empty;
+  }
+
+  const conditions: SQL[] = [];
+  const orderNo = options.orderNo?.trim();
+  if (orderNo) {
+    conditions.push(eq(paymentNotifyLogs.orderNo, orderNo));
+  }
+  if (options.outcome && PAYMENT_NOTIFY_OUTCOMES.includes(options.outcome as PaymentNotifyOutcome)) {
+    conditions.push(eq(paymentNotifyLogs.outcome, options.outcome));
+  }
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+  const [items, [{ total }]] = await Promise.all([
+    db.query.paymentNotifyLogs.findMany({
+      where,
+      orderBy: [desc(paymentNotifyLogs.createdAt)],
+      limit: PAGE_SIZE,
+      offset: (page - 1) * PAGE_SIZE,
+    }),
+    db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(paymentNotifyLogs)
+      .where(where),
+  ]);
+
+  return { items, total, page, pageSize: PAGE_SIZE };
+}
+
+/**
+ * 重放验签通过但处理失败的支付回调（幂等，订单已处理时不会重复发货）
+ */
+export async function replayPaymentNotifyLog(logId: string): Promise<{
+  success: boolean;
+  message: string;
+}> {
+  let admin;
+  try {
+    admin = await requireAdmin("payments.replay");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  const requestId = await getRequestIdFromHeaders();
+  const log = logger.child({ requestId, action: "replayPaymentNotifyLog", logId });
+
+  try {
+    const result = await replayPaymentNotify({
+      logId,
+      requestId,
+      operator: admin.user.name || admin.user.id,
+    });
+
+    if (result.outcome) {
+      await recordAdminAudit(admin.user, {
+        action: "payment_notify.replay",
+        entityType: "payment_notify",
+        entityId: logId,
+        after: { outcome: result.outcome, message: result.message },
+      });
+    }
+
+    revalidatePath("/admin/payment-callbacks");
+    if (result.outcome) {
+      revalidatePath("/admin/orders");
+      log.info({ outcome: result.outcome }, "管理员重放支付回调");
+    }
+
+    return {
+      success: result.success,
+      message: result.success ? `重放完成：${result.message}` : result.message,
+    };
+  } catch (error) {
+    log.error({ err: error }, "重放支付回调失败");
+    return { success: false, message: "重放失败，请稍后重试" };
+  }
+}
@@ -0,0 +1,200 @@
+"use server";
+
+import { db, settings, type PaymentMethod } from "@/lib/db";
+import { requireAdmin } from "@/lib/auth-utils";
+import { diffAuditFields, recordAdminAudit } from "@/lib/admin-audit";
+import { revalidateAllStoreCache } from "@/lib/cache";
+import {
+  getEnabledPaymentMethods,
+  getPaymentSettingKey,
+  loadEasyPayChannelConfigs,
+} from "@/lib/payment/registry";
+import {
+  EASYPAY_METHODS,
+  paymentSettingsSchema,
+  type EasyPayMethod,
+  type PaymentSettingsInput,
+} from "@/lib/validations/payment-settings";
+import { sql } from "drizzle-orm";
+
+export interface AdminEasyPayChannel {
+  enabled: boolean;
+  gateway: string;
+  pid: string;
+  /** 是否已保存密钥（密钥本身不回传前端） */
+  hasKey: boolean;
+}
+
+export type AdminPaymentSettings = Record<EasyPayMethod, AdminEasyPayChannel>;
+
+const CHANNEL_LABELS: Record<EasyPayMethod, string> = {
+  alipay: "支付宝",
+  wechat: "微信支付",
+};
+
+type EasyPayChannelSnapshot = Record<
+  EasyPayMethod,
+  { enabled: boolean; gateway: string; pid: string; key: string }
+>;
+
+/**
+ * 审计快照：密钥只记录是否已设置、是否被更换，不写入明文
+ */
+function toPaymentSettingsAuditFields(
+  channels: EasyPayChannelSnapshot,
+  previous?: EasyPayChannelSnapshot
+): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const method of EASYPAY_METHODS) {
+    const { enabled, gateway, pid, key } = channels[method];
+    const keyChanged = Boolean(previous) && key !== previous?.[method].key;
+    fields[`${method}.enabled`] = enabled;
+    fields[`${method}.gateway`] = gateway;
+    fields[`${method}.pid`] = pid;
+    fields[`${method}.key`] = key ? (keyChanged ? "[REDACTED:changed]" : "[REDACTED]") : null;
+  }
+  return fields;
+}
+
+/**
+ * 获取支付通道配置（管理后台）
+ */
+export async function getPaymentSettings(): Promise<AdminPaymentSettings | null> {
+  try {
+    await requireAdmin("settings.manage");
+  } catch {
+    return null;
+  }
+
+  const configs = await loadEasyPayChannelConfigs();
+  return Object.fromEntries(
+    EASYPAY_METHODS.map((method) => [
+      method,
+      {
+        enabled: configs[method].enabled,
+        gateway: configs[method].gateway,
+        pid: configs[method].pid,
+        hasKey: Boolean(configs[method].key),
+      },
+    ])
+  ) as AdminPaymentSettings;
+}
+
+/**
+ * 获取前台可选的支付方式
+ */
+export async function getAvailablePaymentMethods(): Promise<PaymentMethod[]> {
+  try {
+    return await getEnabledPaymentMethods();
+  } catch (error) {
+    console.error("获取支付方式失败:", error);
+    return ["ldc"];
+  }
+}
+
+/**
+ * 更新支付通道配置
+ * 密钥留空表示沿用已保存的值
+ */
+export async function updatePaymentSettings(input: PaymentSettingsInput): Promise<{
+  success: boolean;
+  message: string;
+}> {
+  let admin;
+  try {
+    admin = await requireAdmin("settings.manage");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  const validationResult = paymentSettingsSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      message: validationResult.error.issues[0]?.message || "参数错误",
+    };
+  }
+
+  const data = validationResult.data;
+  const now = new Date();
+
+  try {
+    const existing = await loadEasyPayChannelConfigs();
+
+    for (const method of EASYPAY_METHODS) {
+      if (data[method].enabled && !data[method].key && !existing[method].key) {
+        return { success: false, message: `启用${CHANNEL_LABELS[method]}前请填写商户密钥` };
+      }
+    }
+
+    const rows = EASYPAY_METHODS.flatMap((method) => {
+      const channel = data[method];
+      const label = CHANNEL_LABELS[method];
+      return [
+        {
+          key: getPaymentSettingKey(method, "enabled"),
+          value: String(channel.enabled),
+          description: `${label}通道是否启用`,
+          updatedAt: now,
+        },
+        {
+          key: getPaymentSettingKey(method, "gateway"),
+          value: channel.gateway,
+          description: `${label}易支付网关地址`,
+          updatedAt: now,
+        },
+        {
+          key: getPaymentSettingKey(method, "pid"),
+          value: channel.pid,
+          description: `${label}商户 ID`,
+          updatedAt: now,
+        },
+        {
+          key: getPaymentSettingKey(method, "key"),
+          value: channel.key || existing[method].key,
+          description: `${label}商户密钥`,
+          updatedAt: now,
+        },
+      ];
+    });
+
+    await db
+      .insert(settings)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: settings.key,
+        set: {
+          value: sql`excluded.value`,
+          description: sql`excluded.description`,
+          updatedAt: now,
+        },
+      });
+
+    const next = Object.fromEntries(
+      EASYPAY_METHODS.map((method) => [
+        method,
+        { ...data[method], key: data[method].key || existing[method].key },
+      ])
+    ) as EasyPayChannelSnapshot;
+    const changes = diffAuditFields(
+      toPaymentSettingsAuditFields(existing),
+      toPaymentSettingsAuditFields(next, existing)
+    );
+    if (changes) {
+      await recordAdminAudit(admin.user, {
+        action: "payment_settings.update",
+        entityType: "settings",
+        entityId: "payment",
+        ...changes,
+      });
+    }
+
+    // 前台商品页会展示可选支付方式，需要刷新缓存
+    await revalidateAllStoreCache();
+
+    return { success: true, message: "支付通道配置已更新" };
+  } catch (error) {
+    console.error("更新支付通道配置失败:", error);
+    return { success: false, message: "更新失败，请稍后重试" };
+  }
+}
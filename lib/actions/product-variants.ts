@@ -0,0 +1,294 @@
+"use server";
+
+import { db, products, productVariants, cards } from "@/lib/db";
+import { and, asc, eq, inArray, isNotNull, or, sql } from "drizzle-orm";
+import { requireAdmin } from "@/lib/auth-utils";
+import { diffAuditFields, pickAuditFields, recordAdminAudit } from "@/lib/admin-audit";
+import { revalidateProductAndRelatedCache } from "@/lib/cache";
+import {
+  productVariantSchema,
+  type ProductVariantInput,
+} from "@/lib/validations/product";
+
+export interface AdminProductVariant {
+  id: string;
+  productId: string;
+  name: string;
+  price: string;
+  minQuantity: number;
+  maxQuantity: number;
+  sortOrder: number;
+  isActive: boolean;
+  stock: { available: number; locked: number; sold: number };
+}
+
+/**
+ * 按规格统计卡密库存（返回 variantId -> 各状态数量）
+ */
+async function getVariantStockMap(variantIds: string[]) {
+  const stockMap = new Map<string, { available: number; locked: number; sold: number }>();
+  if (variantIds.length === 0) return stockMap;
+
+  const rows = await db
+    .select({
+      variantId: cards.variantId,
+      status: cards.status,
+      count: sql<number>`count(*)::int`,
+    })
+    .from(cards)
+    .where(inArray(cards.variantId, variantIds))
+    .groupBy(cards.variantId, cards.status);
+
+  for (const row of rows) {
+    if (!row.variantId) continue;
+    const existing = stockMap.get(row.variantId) || { available: 0, locked: 0, sold: 0 };
+    existing[row.status as keyof typeof existing] = row.count;
+    stockMap.set(row.variantId, existing);
+  }
+
+  return stockMap;
+}
+
+async function revalidateVariantProduct(productId: string) {
+  const product = await db.query.products.findFirst({
+    where: eq(products.id, productId),
+    columns: { slug: true },
+    with: { category: { columns: { slug: true } } },
+  });
+  if (product) {
+    await revalidateProductAndRelatedCache(product.slug, product.category?.slug);
+  }
+}
+
+/**
+ * 获取商品规格列表（管理后台，含各规格库存）
+ */
+export async function getProductVariants(productId: string): Promise<AdminProductVariant[]> {
+  try {
+    await requireAdmin("products.manage");
+  } catch {
+    return [];
+  }
+
+  const variants = await db.query.productVariants.findMany({
+    where: eq(productVariants.productId, productId),
+    orderBy: [asc(productVariants.sortOrder), asc(productVariants.createdAt)],
+  });
+
+  const stockMap = await getVariantStockMap(variants.map((v) => v.id));
+
+  return variants.map((variant) => ({
+    id: variant.id,
+    productId: variant.productId,
+    name: variant.name,
+    price: variant.price,
+    minQuantity: variant.minQuantity,
+    maxQuantity: variant.maxQuantity,
+    sortOrder: variant.sortOrder,
+    isActive: variant.isActive,
+    stock: stockMap.get(variant.id) || { available: 0, locked: 0, sold: 0 },
+  }));
+}
+
+// 创建 / 修改 / 删除规格时写入审计日志的字段
+const VARIANT_AUDIT_FIELDS = [
+  "name",
+  "price",
+  "minQuantity",
+  "maxQuantity",
+  "isActive",
+] as const;
+
+/**
+ * 创建商品规格
+ */
+export async function createProductVariant(productId: string, input: ProductVariantInput) {
+  let admin;
+  try {
+    admin = await requireAdmin("products.manage");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  const validationResult = productVariantSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      message: validationResult.error.issues[0].message,
+    };
+  }
+
+  const data = validationResult.data;
+
+  try {
+    const product = await db.query.products.findFirst({
+      where: eq(products.id, productId),
+      columns: { id: true },
+    });
+
+    if (!product) {
+      return { success: false, message: "商品不存在" };
+    }
+
+    const [variant] = await db
+      .insert(productVariants)
+      .values({
+        productId,
+        name: data.name,
+        price: data.price.toFixed(2),
+        minQuantity: data.minQuantity,
+        maxQuantity: data.maxQuantity,
+        sortOrder: data.sortOrder,
+        isActive: data.isActive,
+      })
+      .returning();
+
+    await recordAdminAudit(admin.user, {
+      action: "product_variant.create",
+      entityType: "product_variant",
+      entityId: variant.id,
+      after: { productId, ...pickAuditFields(variant, VARIANT_AUDIT_FIELDS) },
+    });
+
+    await revalidateVariantProduct(productId);
+
+    return { success: true, message: "规格创建成功", data: variant };
+  } catch (error) {
+    console.error("创建商品规格失败:", error);
+    return { success: false, message: "创建商品规格失败" };
+  }
+}
+
+/**
+ * 更新商品规格
+ */
+export async function updateProductVariant(id: string, input: ProductVariantInput) {
+  let admin;
+  try {
+    admin = await requireAdmin("products.manage");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  const validationResult = productVariantSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      message: validationResult.error.issues[0].message,
+    };
+  }
+
+  const data = validationResult.data;
+
+  try {
+    const previous = await db.query.productVariants.findFirst({
+      where: eq(productVariants.id, id),
+    });
+
+    const [variant] = await db
+      .update(productVariants)
+      .set({
+        name: data.name,
+        price: data.price.toFixed(2),
+        minQuantity: data.minQuantity,
+        maxQuantity: data.maxQuantity,
+        sortOrder: data.sortOrder,
+        isActive: data.isActive,
+        updatedAt: new Date(),
+      })
+      .where(eq(productVariants.id, id))
+      .returning();
+
+    if (!variant) {
+      return { success: false, message: "规格不存在" };
+    }
+
+    const changes = previous
+      ? diffAuditFields(
+          pickAuditFields(previous, VARIANT_AUDIT_FIELDS),
+          pickAuditFields(variant, VARIANT_AUDIT_FIELDS)
+        )
+      : null;
+    if (changes) {
+      // 附带 productId，便于按商品追溯
+      await recordAdminAudit(admin.user, {
+        action: "product_variant.update",
+        entityType: "product_variant",
+        entityId: variant.id,
+        before: { productId: variant.productId, ...changes.before },
+        after: { productId: variant.productId, ...changes.after },
+      });
+    }
+
+    await revalidateVariantProduct(variant.productId);
+
+    return { success: true, message: "规格更新成功", data: variant };
+  } catch (error) {
+    console.error("更新商品规格失败:", error);
+    return { success: false, message: "更新商品规格失败" };
+  }
+}
+
+/**
+ * 删除商品规格
+ * 规格下的可用卡密会一并删除（cards.variant_id 为级联删除）；
+ * 已锁定/已售出/隔离/作废的卡密仍关联订单与退款记录，存在时禁止删除（可改为停用）
+ */
+export async function deleteProductVariant(id: string) {
+  let admin;
+  try {
+    admin = await requireAdmin("products.manage");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  try {
+    const variant = await db.query.productVariants.findFirst({
+      where: eq(productVariants.id, id),
+      columns: {
+        id: true,
+        productId: true,
+        name: true,
+        price: true,
+        minQuantity: true,
+        maxQuantity: true,
+        isActive: true,
+      },
+    });
+
+    if (!variant) {
+      return { success: false, message: "规格不存在" };
+    }
+
+    const boundCard = await db.query.cards.findFirst({
+      where: and(
+        eq(cards.variantId, id),
+        or(
+          isNotNull(cards.orderId),
+          inArray(cards.status, ["locked", "sold", "quarantined", "void"])
+        )
+      ),
+      columns: { id: true },
+    });
+
+    if (boundCard) {
+      return { success: false, message: "该规格下有关联订单的卡密（锁定、售出或退款后保留），无法删除，请改为停用" };
+    }
+
+    await db.delete(productVariants).where(eq(productVariants.id, id));
+
+    await recordAdminAudit(admin.user, {
+      action: "product_variant.delete",
+      entityType: "product_variant",
+      entityId: id,
+      before: { productId: variant.productId, ...pickAuditFields(variant, VARIANT_AUDIT_FIELDS) },
+    });
+
+    await revalidateVariantProduct(variant.productId);
+
+    return { success: true, message: "规格已删除" };
+  } catch (error) {
+    console.error("删除商品规格失败:", error);
+    return { success: false, message: "删除商品规格失败" };
+  }
+}
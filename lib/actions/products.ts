@@ -1,6 +1,15 @@
 "use server";
 
-import { db, products, cards, categories, orders } from "@/lib/db";
+import {
+  db,
+  products,
+  productVariants,
+  cards,
+  categories,
+  orders,
+  orderItems,
+  restockRequests,
+} from "@/lib/db";
 import { eq, and, desc, asc, sql, ilike, or, inArray } from "drizzle-orm";
 import {
   createProductSchema,
@@ -9,7 +18,10 @@ import {
   type UpdateProductInput,
 } from "@/lib/validations/product";
 import { requireAdmin } from "@/lib/auth-utils";
+import { diffAuditFields, pickAuditFields, recordAdminAudit } from "@/lib/admin-audit";
+import { sellableCardCondition } from "@/lib/card-expiry";
 import { revalidateProductAndRelatedCache } from "@/lib/cache";
+import { normalizePriceTiers } from "@/lib/pricing";
 import {
   getRestockSummaryForProducts,
   type RestockSummary,
@@ -130,7 +142,7 @@ export async function getActiveProducts(options?: {
     .where(
       and(
         inArray(cards.productId, productIds),
-        eq(cards.status, "available")
+        sellableCardCondition()
       )
     )
     .groupBy(cards.productId);
@@ -157,6 +169,15 @@ export async function getActiveProducts(options?: {
   }));
 }
 
+export interface StoreProductVariant {
+  id: string;
+  name: string;
+  price: string;
+  minQuantity: number;
+  maxQuantity: number;
+  stock: number;
+}
+
 /**
  * 获取商品详情
  */
@@ -181,12 +202,24 @@ export async function getProductBySlug(slug: string) {
       isFeatured: true,
       minQuantity: true,
       maxQuantity: true,
+      priceTiers: true,
       salesCount: true,
       createdAt: true,
       updatedAt: true,
     },
     with: {
       category: true,
+      variants: {
+        where: eq(productVariants.isActive, true),
+        columns: {
+          id: true,
+          name: true,
+          price: true,
+          minQuantity: true,
+          maxQuantity: true,
+        },
+        orderBy: [asc(productVariants.sortOrder), asc(productVariants.createdAt)],
+      },
     },
   });
 
@@ -194,15 +227,25 @@ export async function getProductBySlug(slug: string) {
     return null;
   }
 
-  // 获取库存数量
-  const [stockCount] = await db
+  // 获取库存数量（按规格分组；未启用规格的商品只统计 variant_id 为空的卡密）
+  const stockRows = await db
     .select({
+      variantId: cards.variantId,
       count: sql<number>`count(*)::int`,
     })
     .from(cards)
-    .where(and(eq(cards.productId, product.id), eq(cards.status, "available")));
+    .where(and(eq(cards.productId, product.id), sellableCardCondition()))
+    .groupBy(cards.variantId);
 
-  const stock = stockCount?.count || 0;
+  const variantStockMap = new Map(stockRows.map((row) => [row.variantId, row.count]));
+  const variants: StoreProductVariant[] = product.variants.map((variant) => ({
+    ...variant,
+    stock: variantStockMap.get(variant.id) ?? 0,
+  }));
+  const stock =
+    variants.length > 0
+      ? variants.reduce((sum, variant) => sum + variant.stock, 0)
+      : variantStockMap.get(null) ?? 0;
 
   // 为什么这样做：详情页只有在售罄时才展示“催补货”，因此对有库存商品不必额外查询统计信息。
   const restockSummary: Record<string, RestockSummary> =
@@ -215,6 +258,7 @@ export async function getProductBySlug(slug: string) {
 
   return {
     ...product,
+    variants,
     stock,
     restockRequestCount: restockSummary[product.id]?.count ?? 0,
     restockRequesters: restockSummary[product.id]?.requesters ?? [],
@@ -226,7 +270,7 @@ export async function getProductBySlug(slug: string) {
  */
 export async function getProductById(id: string) {
   try {
-    await requireAdmin();
+    await requireAdmin("products.manage");
   } catch {
     return null;
   }
@@ -248,7 +292,7 @@ export async function getProductById(id: string) {
       count: sql<number>`count(*)::int`,
     })
     .from(cards)
-    .where(and(eq(cards.productId, product.id), eq(cards.status, "available")));
+    .where(and(eq(cards.productId, product.id), sellableCardCondition()));
 
   return {
     ...product,
@@ -264,6 +308,8 @@ export async function getAllProducts(options?: {
   offset?: number;
   search?: string;
 }) {
+  await requireAdmin("products.manage");
+
   const { limit = 50, offset = 0, search } = options || {};
 
   const conditions = [];
@@ -290,6 +336,7 @@ export async function getAllProducts(options?: {
       isActive: true,
       salesCount: true,
       sortOrder: true,
+      lowStockThreshold: true,
       createdAt: true,
     },
     with: {
@@ -329,10 +376,32 @@ export async function getAllProducts(options?: {
     stockMap.set(stat.productId, existing);
   }
 
-  return productList.map((product) => ({
-    ...product,
-    stockStats: stockMap.get(product.id) || { available: 0, sold: 0, locked: 0 },
-  }));
+  // 催补货统计：待通知人数、已发送到货通知人数与最近通知时间
+  const restockStats = await db
+    .select({
+      productId: restockRequests.productId,
+      pending: sql<number>`(count(*) filter (where ${restockRequests.notifiedAt} is null))::int`,
+      notified: sql<number>`(count(*) filter (where ${restockRequests.notifiedAt} is not null))::int`,
+      lastNotifiedAt: sql<string | null>`max(${restockRequests.notifiedAt})`,
+    })
+    .from(restockRequests)
+    .where(inArray(restockRequests.productId, productIds))
+    .groupBy(restockRequests.productId);
+
+  const restockMap = new Map(restockStats.map((stat) => [stat.productId, stat]));
+
+  return productList.map((product) => {
+    const restock = restockMap.get(product.id);
+    return {
+      ...product,
+      stockStats: stockMap.get(product.id) || { available: 0, sold: 0, locked: 0 },
+      restockStats: {
+        pending: restock?.pending ?? 0,
+        notified: restock?.notified ?? 0,
+        lastNotifiedAt: restock?.lastNotifiedAt ?? null,
+      },
+    };
+  });
 }
 
 /**
@@ -433,7 +502,7 @@ export async function searchProducts(
       count: sql<number>`count(*)::int`,
     })
     .from(cards)
-    .where(and(inArray(cards.productId, productIds), eq(cards.status, "available")))
+    .where(and(inArray(cards.productId, productIds), sellableCardCondition()))
     .groupBy(cards.productId);
 
   const stockMap = new Map(stockCounts.map((s) => [s.productId, s.count]));
@@ -454,12 +523,22 @@ export async function searchProducts(
   };
 }
 
+// 创建 / 修改 / 删除商品时写入审计日志的字段（价格相关与上下架）
+const PRODUCT_AUDIT_FIELDS = [
+  "name",
+  "price",
+  "originalPrice",
+  "priceTiers",
+  "isActive",
+] as const;
+
 /**
  * 创建商品
  */
 export async function createProduct(input: CreateProductInput) {
+  let admin;
   try {
-    await requireAdmin();
+    admin = await requireAdmin("products.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -480,9 +559,17 @@ export async function createProduct(input: CreateProductInput) {
         price: validationResult.data.price.toFixed(2),
         originalPrice: validationResult.data.originalPrice?.toFixed(2),
         coverImage: validationResult.data.coverImage || null,
+        priceTiers: normalizePriceTiers(validationResult.data.priceTiers),
       })
       .returning();
 
+    await recordAdminAudit(admin.user, {
+      action: "product.create",
+      entityType: "product",
+      entityId: product.id,
+      after: pickAuditFields(product, PRODUCT_AUDIT_FIELDS),
+    });
+
     // 获取分类 slug 用于清理分类页缓存
     let categorySlug: string | undefined;
     if (product.categoryId) {
@@ -510,8 +597,9 @@ export async function createProduct(input: CreateProductInput) {
  * 更新商品
  */
 export async function updateProduct(id: string, input: UpdateProductInput) {
+  let admin;
   try {
-    await requireAdmin();
+    admin = await requireAdmin("products.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -539,6 +627,14 @@ export async function updateProduct(id: string, input: UpdateProductInput) {
     if (validationResult.data.coverImage !== undefined) {
       updateData.coverImage = validationResult.data.coverImage || null;
     }
+    if (validationResult.data.priceTiers !== undefined) {
+      updateData.priceTiers = normalizePriceTiers(validationResult.data.priceTiers);
+    }
+
+    const previous = await db.query.products.findFirst({
+      where: eq(products.id, id),
+      columns: { name: true, price: true, originalPrice: true, priceTiers: true, isActive: true },
+    });
 
     const [product] = await db
       .update(products)
@@ -550,6 +646,21 @@ export async function updateProduct(id: string, input: UpdateProductInput) {
       return { success: false, message: "商品不存在" };
     }
 
+    const changes = previous
+      ? diffAuditFields(
+          pickAuditFields(previous, PRODUCT_AUDIT_FIELDS),
+          pickAuditFields(product, PRODUCT_AUDIT_FIELDS)
+        )
+      : null;
+    if (changes) {
+      await recordAdminAudit(admin.user, {
+        action: "product.update",
+        entityType: "product",
+        entityId: product.id,
+        ...changes,
+      });
+    }
+
     // 获取分类 slug 用于清理分类页缓存
     let categorySlug: string | undefined;
     if (product.categoryId) {
@@ -576,17 +687,21 @@ export async function updateProduct(id: string, input: UpdateProductInput) {
  * 删除商品
  */
 export async function deleteProduct(id: string) {
+  let admin;
   try {
-    await requireAdmin();
+    admin = await requireAdmin("products.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
 
   try {
-    // 检查是否有未完成的订单
+    // 检查是否有未完成的订单（合并订单的 productId 为空，需要通过明细判断）
     const hasActiveOrders = await db.query.orders.findFirst({
       where: and(
-        eq(orders.productId, id),
+        or(
+          eq(orders.productId, id),
+          sql`EXISTS (SELECT 1 FROM ${orderItems} WHERE ${orderItems.orderId} = ${orders.id} AND ${orderItems.productId} = ${id})`
+        ),
         or(
           eq(orders.status, "pending"),
           eq(orders.status, "paid")
@@ -601,7 +716,15 @@ export async function deleteProduct(id: string) {
     // 获取商品信息用于清理缓存
     const product = await db.query.products.findFirst({
       where: eq(products.id, id),
-      columns: { slug: true, categoryId: true },
+      columns: {
+        slug: true,
+        categoryId: true,
+        name: true,
+        price: true,
+        originalPrice: true,
+        priceTiers: true,
+        isActive: true,
+      },
     });
 
     let categorySlug: string | undefined;
@@ -615,6 +738,15 @@ export async function deleteProduct(id: string) {
 
     await db.delete(products).where(eq(products.id, id));
 
+    if (product) {
+      await recordAdminAudit(admin.user, {
+        action: "product.delete",
+        entityType: "product",
+        entityId: id,
+        before: pickAuditFields(product, PRODUCT_AUDIT_FIELDS),
+      });
+    }
+
     await revalidateProductAndRelatedCache(product?.slug, categorySlug);
 
     return { success: true, message: "商品已删除" };
@@ -628,8 +760,9 @@ export async function deleteProduct(id: string) {
  * 切换商品上架状态
  */
 export async function toggleProductActive(id: string) {
+  let admin;
   try {
-    await requireAdmin();
+    admin = await requireAdmin("products.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -651,6 +784,14 @@ export async function toggleProductActive(id: string) {
       })
       .where(eq(products.id, id));
 
+    await recordAdminAudit(admin.user, {
+      action: "product.update",
+      entityType: "product",
+      entityId: id,
+      before: { isActive: product.isActive },
+      after: { isActive: !product.isActive },
+    });
+
     // 获取分类 slug 用于清理分类页缓存
     let categorySlug: string | undefined;
     if (product.categoryId) {
@@ -0,0 +1,127 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { and, eq } from "drizzle-orm";
+import { db, orders } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { requireAdmin } from "@/lib/auth-utils";
+import { getRequestIdFromHeaders, logger } from "@/lib/logger";
+import { consumeRateLimit } from "@/lib/rate-limit";
+import { getPaymentProvider } from "@/lib/payment/registry";
+import {
+  reconcilePayments,
+  settleGatewayPaidOrder,
+  type ReconcileReport,
+} from "@/lib/payment/reconcile";
+
+// 用户主动查单限流：每分钟最多 5 次，避免刷支付平台查询接口
+const PAYMENT_CHECK_RATE_LIMIT = { windowMs: 60 * 1000, maxAttempts: 5 };
+
+/**
+ * 管理员手动触发支付对账
+ */
+export async function runPaymentReconciliation(): Promise<{
+  success: boolean;
+  message: string;
+  report?: ReconcileReport;
+}> {
+  try {
+    await requireAdmin("orders.manage");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  const requestId = await getRequestIdFromHeaders();
+  const log = logger.child({ requestId, action: "runPaymentReconciliation" });
+
+  try {
+    const report = await reconcilePayments();
+    revalidatePath("/admin/orders");
+
+    return {
+      success: true,
+      message: `已核对 ${report.checked} 笔订单，补单 ${report.completed.length} 笔，差异 ${report.mismatches.length} 笔`,
+      report,
+    };
+  } catch (error) {
+    log.error({ err: error }, "支付对账失败");
+    return { success: false, message: "对账失败，请稍后重试" };
+  }
+}
+
+/**
+ * 用户「我已支付」：主动向支付平台查询自己的待支付订单，已支付则走 handlePaymentSuccess 完成发货
+ * 用于支付回调延迟或丢失的场景
+ */
+export async function checkOrderPayment(orderNo: string): Promise<{
+  success: boolean;
+  message: string;
+  paid?: boolean;
+}> {
+  const session = await auth();
+  const user = session?.user as { id?: string; provider?: string } | undefined;
+
+  if (!user?.id || user.provider !== "linux-do") {
+    return { success: false, message: "请先登录" };
+  }
+
+  const requestId = await getRequestIdFromHeaders();
+  const log = logger.child({ requestId, action: "checkOrderPayment", orderNo, userId: user.id });
+
+  try {
+    const order = await db.query.orders.findFirst({
+      where: and(eq(orders.orderNo, orderNo), eq(orders.userId, user.id)),
+    });
+
+    if (!order) {
+      return { success: false, message: "订单不存在或无权访问" };
+    }
+
+    if (order.status === "completed" || order.status === "paid") {
+      return { success: true, message: "订单已支付", paid: true };
+    }
+
+    if (order.status !== "pending") {
+      return { success: false, message: "订单状态不支持查询支付结果" };
+    }
+
+    const limit = await consumeRateLimit(`payment-check:${user.id}`, PAYMENT_CHECK_RATE_LIMIT);
+    if (!limit.success) {
+      return { success: false, message: limit.message || "操作过于频繁，请稍后再试" };
+    }
+
+    const provider = await getPaymentProvider(order.paymentMethod);
+    if (!provider) {
+      log.error({ paymentMethod: order.paymentMethod }, "支付通道未配置");
+      return { success: false, message: "支付通道暂不可用，请稍后再试" };
+    }
+
+    let gateway;
+    try {
+      gateway = await provider.queryOrder({ orderNo: order.orderNo, tradeNo: order.tradeNo });
+    } catch (error) {
+      log.warn({ err: error }, "查询支付平台订单失败");
+      return { success: false, message: "支付平台暂未确认收款，请稍后再试" };
+    }
+
+    if (!gateway.paid) {
+      return { success: true, message: "支付平台暂未确认收款，请稍后再试", paid: false };
+    }
+
+    const settled = await settleGatewayPaidOrder(order, gateway);
+    if (!settled.ok) {
+      log.error(
+        { kind: settled.kind, localAmount: order.totalAmount, gatewayAmount: gateway.money },
+        settled.message
+      );
+      return { success: false, message: "支付已确认但订单处理异常，请联系客服处理" };
+    }
+
+    log.info({ completed: settled.completed }, "用户主动查单确认支付");
+    revalidatePath("/order/my");
+    return { success: true, message: "支付成功，订单已完成", paid: true };
+  } catch (error) {
+    log.error({ err: error }, "查询支付状态失败");
+    return { success: false, message: "查询失败，请稍后重试" };
+  }
+}
@@ -0,0 +1,207 @@
+"use server";
+
+import { sql, type SQL } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { requireAdmin } from "@/lib/auth-utils";
+import {
+  normalizeReportDate,
+  normalizeReportDimension,
+  normalizeReportPeriod,
+  resolveReportWindow,
+  type ProfitReportRow,
+  type ReportDimension,
+  type ReportWindow,
+} from "@/lib/reports";
+import { orderProductsCteSql } from "@/lib/sales-stats";
+import { getLocalDateRangeSql, getStatsLocalDate, getStatsTimeZone } from "@/lib/time/stats";
+
+export interface ProfitReport {
+  dimension: ReportDimension;
+  window: ReportWindow;
+  timeZone: string;
+  rows: ProfitReportRow[];
+  totals: ProfitReportRow;
+}
+
+interface ProfitReportSqlRow {
+  isTotal: boolean;
+  key: string | null;
+  name: string | null;
+  detail: string | null;
+  orders: number;
+  units: number;
+  revenue: string;
+  refunds: string;
+  cost: string;
+  uncostedUnits: number;
+}
+
+// GROUPING SETS 额外产出一行合计（isTotal），订单数按去重计算
+function productReportSql(ctes: SQL): SQL {
+  return sql`
+    WITH ${ctes}
+    SELECT
+      GROUPING(op.product_id) = 1 AS "isTotal",
+      op.product_id::text AS "key",
+      COALESCE(p.name, '已删除商品') AS "name",
+      c.name AS "detail",
+      COUNT(DISTINCT op.order_id)::int AS "orders",
+      COALESCE(SUM(op.units), 0)::int AS "units",
+      ROUND(COALESCE(SUM(op.revenue), 0), 2)::text AS "revenue",
+      ROUND(COALESCE(SUM(op.refunds), 0), 2)::text AS "refunds",
+      ROUND(COALESCE(SUM(opc.cost), 0), 2)::text AS "cost",
+      COALESCE(SUM(opc.uncosted), 0)::int AS "uncostedUnits"
+    FROM order_products op
+    LEFT JOIN order_product_costs opc
+      ON opc.order_id = op.order_id AND opc.product_id IS NOT DISTINCT FROM op.product_id
+    LEFT JOIN products p ON p.id = op.product_id
+    LEFT JOIN categories c ON c.id = p.category_id
+    GROUP BY GROUPING SETS ((op.product_id, p.name, c.name), ())
+    ORDER BY SUM(op.revenue) DESC
+  `;
+}
+
+function categoryReportSql(ctes: SQL): SQL {
+  return sql`
+    WITH ${ctes}
+    SELECT
+      GROUPING(p.category_id) = 1 AS "isTotal",
+      p.category_id::text AS "key",
+      COALESCE(c.name, '未分类') AS "name",
+      NULL AS "detail",
+      COUNT(DISTINCT op.order_id)::int AS "orders",
+      COALESCE(SUM(op.units), 0)::int AS "units",
+      ROUND(COALESCE(SUM(op.revenue), 0), 2)::text AS "revenue",
+      ROUND(COALESCE(SUM(op.refunds), 0), 2)::text AS "refunds",
+      ROUND(COALESCE(SUM(opc.cost), 0), 2)::text AS "cost",
+      COALESCE(SUM(opc.uncosted), 0)::int AS "uncostedUnits"
+    FROM order_products op
+    LEFT JOIN order_product_costs opc
+      ON opc.order_id = op.order_id AND opc.product_id IS NOT DISTINCT FROM op.product_id
+    LEFT JOIN products p ON p.id = op.product_id
+    LEFT JOIN categories c ON c.id = p.category_id
+    GROUP BY GROUPING SETS ((p.category_id, c.name), ())
+    ORDER BY SUM(op.revenue) DESC
+  `;
+}
+
+/**
+ * 批次维度按卡密统计：每张卡密分摊所在「订单 + 商品」的实收，退款按退款记录中的卡密分摊。
+ * 退款回收的卡密已不关联原订单，其实收与退款均不计入批次（相互抵消，不影响毛利）
+ */
+function batchReportSql(ctes: SQL): SQL {
+  return sql`
+    WITH ${ctes},
+    batch_cards AS (
+      SELECT c.id, c.order_id, c.batch_id, b.unit_cost,
+        CASE WHEN op.units > 0 THEN op.revenue / op.units ELSE 0 END AS revenue,
+        COALESCE((
+          SELECT SUM(r.amount::numeric / NULLIF(r.card_count, 0))
+          FROM order_refunds r
+          WHERE r.order_id = c.order_id AND r.card_ids @> jsonb_build_array(c.id::text)
+        ), 0) AS refunds
+      FROM cards c
+      JOIN order_products op ON op.order_id = c.order_id AND op.product_id = c.product_id
+      LEFT JOIN card_import_batches b ON b.id = c.batch_id
+    )
+    SELECT
+      GROUPING(bc.batch_id) = 1 AS "isTotal",
+      bc.batch_id::text AS "key",
+      CASE
+        WHEN bc.batch_id IS NULL THEN '未关联批次'
+        ELSE COALESCE(b.supplier_name, '未填写供应商')
+      END AS "name",
+      CASE
+        WHEN bc.batch_id IS NULL THEN NULL
+        ELSE COALESCE(p.name, '已删除商品') || ' · ' || to_char(b.created_at, 'YYYY-MM-DD')
+      END AS "detail",
+      COUNT(DISTINCT bc.order_id)::int AS "orders",
+      COUNT(bc.id)::int AS "units",
+      ROUND(COALESCE(SUM(bc.revenue), 0), 2)::text AS "revenue",
+      ROUND(COALESCE(SUM(bc.refunds), 0), 2)::text AS "refunds",
+      ROUND(COALESCE(SUM(bc.unit_cost), 0), 2)::text AS "cost",
+      (COUNT(bc.id) FILTER (WHERE bc.unit_cost IS NULL))::int AS "uncostedUnits"
+    FROM batch_cards bc
+    LEFT JOIN card_import_batches b ON b.id = bc.batch_id
+    LEFT JOIN products p ON p.id = b.product_id
+    GROUP BY GROUPING SETS ((bc.batch_id, b.supplier_name, b.created_at, p.name), ())
+    ORDER BY SUM(bc.revenue) DESC
+  `;
+}
+
+function toProfitReportRow(row: ProfitReportSqlRow): ProfitReportRow {
+  return {
+    key: row.isTotal ? "total" : (row.key ?? "none"),
+    name: row.isTotal ? "合计" : (row.name ?? "-"),
+    detail: row.isTotal ? null : row.detail,
+    orders: row.orders,
+    units: row.units,
+    revenue: Number(row.revenue),
+    refunds: Number(row.refunds),
+    cost: Number(row.cost),
+    uncostedUnits: row.uncostedUnits,
+  };
+}
+
+function emptyTotals(): ProfitReportRow {
+  return {
+    key: "total",
+    name: "合计",
+    detail: null,
+    orders: 0,
+    units: 0,
+    revenue: 0,
+    refunds: 0,
+    cost: 0,
+    uncostedUnits: 0,
+  };
+}
+
+/**
+ * 获取利润报表：实收、退款、成本与毛利，按商品 / 分类 / 导入批次拆分
+ */
+export async function getProfitReport(options: {
+  period?: string;
+  date?: string;
+  dimension?: string;
+} = {}): Promise<{ success: true; report: ProfitReport } | { success: false; message: string }> {
+  try {
+    await requireAdmin("reports.view");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  const timeZone = getStatsTimeZone();
+  const period = normalizeReportPeriod(options.period);
+  const dimension = normalizeReportDimension(options.dimension);
+  const date = normalizeReportDate(options.date, getStatsLocalDate(timeZone));
+  const window = resolveReportWindow(period, date);
+
+  const { start, end } = getLocalDateRangeSql(timeZone, window.startDate, window.endDate);
+  const ctes = orderProductsCteSql(start, end);
+  const query =
+    dimension === "category"
+      ? categoryReportSql(ctes)
+      : dimension === "batch"
+        ? batchReportSql(ctes)
+        : productReportSql(ctes);
+
+  try {
+    const result = (await db.execute(query)) as unknown as ProfitReportSqlRow[];
+    const totalRow = result.find((row) => row.isTotal);
+
+    return {
+      success: true,
+      report: {
+        dimension,
+        window,
+        timeZone,
+        rows: result.filter((row) => !row.isTotal).map(toProfitReportRow),
+        totals: totalRow ? toProfitReportRow(totalRow) : emptyTotals(),
+      },
+    };
+  } catch (error) {
+    console.error("获取利润报表失败:", error);
+    return { success: false, message: "获取利润报表失败" };
+  }
+}
@@ -1,9 +1,25 @@
 "use server";
 
 import { auth } from "@/lib/auth";
+import { requireAdmin } from "@/lib/auth-utils";
+import { recordAdminAudit } from "@/lib/admin-audit";
 import { revalidateAllStoreCache } from "@/lib/cache";
-import { db, restockRequests } from "@/lib/db";
-import { desc, inArray, lte, sql } from "drizzle-orm";
+import { sellableCardCondition } from "@/lib/card-expiry";
+import { db, cards, restockRequests } from "@/lib/db";
+import {
+  getRestockDemandRange,
+  resolveRestockDemandWindow,
+  sortRestockDemand,
+  type RestockDemandRow,
+  type RestockDemandWindow,
+} from "@/lib/restock-demand";
+import {
+  getLocalBucketSql,
+  getLocalDateRangeSql,
+  getStatsLocalDate,
+  getStatsTimeZone,
+} from "@/lib/time/stats";
+import { and, desc, eq, inArray, isNotNull, isNull, lte, sql } from "drizzle-orm";
 
 export interface RestockRequester {
   userId: string;
@@ -24,6 +40,7 @@ function normalizeIds(ids: string[]): string[] {
 
 /**
  * 获取商品的「催补货」聚合信息（计数 + 最近 N 个头像）
+ * - 只统计待通知的请求；已发送到货通知的请求视为归档
  * - 仅返回与用户无关的数据，确保可用于 ISR 页面而不会导致缓存穿透/泄露
  */
 export async function getRestockSummaryForProducts(input: {
@@ -44,7 +61,7 @@ export async function getRestockSummaryForProducts(input: {
         count: sql<number>`count(*)::int`,
       })
       .from(restockRequests)
-      .where(inArray(restockRequests.productId, productIds))
+      .where(and(inArray(restockRequests.productId, productIds), isNull(restockRequests.notifiedAt)))
       .groupBy(restockRequests.productId);
 
     const countMap = new Map(counts.map((row) => [row.productId, row.count]));
@@ -65,7 +82,7 @@ export async function getRestockSummaryForProducts(input: {
         `.as("rn"),
       })
       .from(restockRequests)
-      .where(inArray(restockRequests.productId, productIds))
+      .where(and(inArray(restockRequests.productId, productIds), isNull(restockRequests.notifiedAt)))
       .as("ranked_restock_requests");
 
     const requesterRows = await db
@@ -173,7 +190,10 @@ export async function requestRestock(productId: string): Promise<RequestRestockR
       WITH updated AS (
         UPDATE restock_requests
         SET username = ${username},
-            user_image = ${userImage}
+            user_image = ${userImage},
+            -- 已收到过到货通知的用户再次催补货：重新登记为待通知
+            created_at = CASE WHEN notified_at IS NULL THEN created_at ELSE NOW() END,
+            notified_at = NULL
         WHERE product_id = ${safeProductId}
           AND user_id = ${user.id}
         RETURNING 1
@@ -211,3 +231,217 @@ export async function requestRestock(productId: string): Promise<RequestRestockR
     };
   }
 }
+
+export interface RestockDemandBoard {
+  days: RestockDemandWindow;
+  timeZone: string;
+  /** 统计窗口内的业务日期（YYYY-MM-DD） */
+  dates: string[];
+  rows: RestockDemandRow[];
+}
+
+interface DemandSqlRow {
+  productId: string;
+  productName: string;
+  productSlug: string;
+  isActive: boolean;
+  stock: number;
+  pending: number;
+  notified: number;
+  lastRequestedAt: unknown;
+  outOfStockSince: unknown;
+}
+
+function toIsoString(value: unknown): string | null {
+  if (!value) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "string") return value;
+  const date = new Date(value as string);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * 获取催补货需求看板（管理后台）：有催补货记录的商品，附带库存、缺货时长与窗口内每日请求数
+ */
+export async function getRestockDemandBoard(options: {
+  days?: string;
+} = {}): Promise<{ success: true; board: RestockDemandBoard } | { success: false; message: string }> {
+  try {
+    await requireAdmin("restock.manage");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  const days = resolveRestockDemandWindow(options.days);
+  const timeZone = getStatsTimeZone();
+  const { dates, from, endDate } = getRestockDemandRange(getStatsLocalDate(timeZone), days);
+  const { start, end } = getLocalDateRangeSql(timeZone, from, endDate);
+
+  try {
+    const [demandRows, dailyRows] = await Promise.all([
+      // 缺货时长：取最后一张卡密离开可售状态（售出 / 锁定 / 过期）的时间，没有卡密时按上架时间
+      db.execute(sql`
+        WITH demand AS (
+          SELECT
+            product_id,
+            (count(*) FILTER (WHERE notified_at IS NULL))::int AS pending,
+            (count(*) FILTER (WHERE notified_at IS NOT NULL))::int AS notified,
+            max(created_at) AS last_requested_at
+          FROM restock_requests
+          GROUP BY product_id
+        ),
+        stock AS (
+          SELECT
+            ${cards.productId} AS product_id,
+            (count(*) FILTER (WHERE ${sellableCardCondition()}))::int AS stock,
+            GREATEST(
+              max(${cards.soldAt}),
+              max(${cards.lockedAt}) FILTER (WHERE ${cards.status} = 'locked'),
+              max(${cards.expiresAt}) FILTER (WHERE ${cards.expiresAt} <= now())
+            ) AS last_out_at
+          FROM ${cards}
+          WHERE ${cards.productId} IN (SELECT product_id FROM demand)
+          GROUP BY ${cards.productId}
+        )
+        SELECT
+          p.id AS "productId",
+          p.name AS "productName",
+          p.slug AS "productSlug",
+          p.is_active AS "isActive",
+          COALESCE(s.stock, 0)::int AS "stock",
+          d.pending AS "pending",
+          d.notified AS "notified",
+          d.last_requested_at AS "lastRequestedAt",
+          CASE WHEN COALESCE(s.stock, 0) = 0 THEN COALESCE(s.last_out_at, p.created_at) END
+            AS "outOfStockSince"
+        FROM demand d
+        JOIN products p ON p.id = d.product_id
+        LEFT JOIN stock s ON s.product_id = d.product_id
+      `),
+      db
+        .select({
+          productId: restockRequests.productId,
+          date: sql<string>`to_char(${getLocalBucketSql(
+            sql`${restockRequests.createdAt}`,
+            timeZone,
+            "day"
+          )}, 'YYYY-MM-DD')`,
+          count: sql<number>`count(*)::int`,
+        })
+        .from(restockRequests)
+        .where(
+          and(
+            sql`${restockRequests.createdAt} >= ${start}`,
+            sql`${restockRequests.createdAt} < ${end}`
+          )
+        )
+        .groupBy(sql`1`, sql`2`),
+    ]);
+
+    const dateIndex = new Map(dates.map((date, index) => [date, index]));
+    const dailyMap = new Map<string, number[]>();
+    for (const row of dailyRows) {
+      const index = dateIndex.get(row.date);
+      if (index === undefined) continue;
+      const daily = dailyMap.get(row.productId) ?? dates.map(() => 0);
+      daily[index] = row.count;
+      dailyMap.set(row.productId, daily);
+    }
+
+    const rows = (demandRows as unknown as DemandSqlRow[]).map((row) => ({
+      productId: row.productId,
+      productName: row.productName,
+      productSlug: row.productSlug,
+      isActive: row.isActive,
+      stock: row.stock,
+      pending: row.pending,
+      notified: row.notified,
+      lastRequestedAt: toIsoString(row.lastRequestedAt),
+      outOfStockSince: toIsoString(row.outOfStockSince),
+      daily: dailyMap.get(row.productId) ?? dates.map(() => 0),
+    }));
+
+    return { success: true, board: { days, timeZone, dates, rows: sortRestockDemand(rows) } };
+  } catch (error) {
+    logDbError("[getRestockDemandBoard] 查询催补货看板失败", error);
+    return { success: false, message: "查询催补货数据失败" };
+  }
+}
+
+/**
+ * 清空商品的全部催补货请求（含已通知的记录）
+ */
+export async function purgeRestockRequests(
+  productId: string
+): Promise<{ success: boolean; message: string }> {
+  let admin;
+  try {
+    admin = await requireAdmin("restock.manage");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  if (!isUuid(productId)) {
+    return { success: false, message: "商品信息无效" };
+  }
+
+  try {
+    const deleted = await db
+      .delete(restockRequests)
+      .where(eq(restockRequests.productId, productId))
+      .returning({ id: restockRequests.id });
+
+    await recordAdminAudit(admin.user, {
+      action: "product.restock_purge",
+      entityType: "product",
+      entityId: productId,
+      before: { restockRequestCount: deleted.length },
+      after: { restockRequestCount: 0 },
+    });
+
+    await revalidateAllStoreCache();
+    return { success: true, message: `已清空 ${deleted.length} 条催补货请求` };
+  } catch (error) {
+    logDbError("[purgeRestockRequests] 清空催补货请求失败", error);
+    return { success: false, message: "清空催补货请求失败" };
+  }
+}
+
+/**
+ * 把商品已通知的催补货请求重置为待通知，下次补货时重新通知这些用户
+ */
+export async function resetRestockRequests(
+  productId: string
+): Promise<{ success: boolean; message: string }> {
+  let admin;
+  try {
+    admin = await requireAdmin("restock.manage");
+  } catch {
+    return { success: false, message: "需要管理员权限" };
+  }
+
+  if (!isUuid(productId)) {
+    return { success: false, message: "商品信息无效" };
+  }
+
+  try {
+    const reset = await db
+      .update(restockRequests)
+      .set({ notifiedAt: null })
+      .where(and(eq(restockRequests.productId, productId), isNotNull(restockRequests.notifiedAt)))
+      .returning({ id: restockRequests.id });
+
+    await recordAdminAudit(admin.user, {
+      action: "product.restock_reset",
+      entityType: "product",
+      entityId: productId,
+      after: { resetCount: reset.length },
+    });
+
+    await revalidateAllStoreCache();
+    return { success: true, message: `已将 ${reset.length} 条已通知请求重置为待通知` };
+  } catch (error) {
+    logDbError("[resetRestockRequests] 重置催补货请求失败", error);
+    return { success: false, message: "重置催补货请求失败" };
+  }
+}
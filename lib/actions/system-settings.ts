@@ -2,6 +2,7 @@
 
 import { db, settings } from "@/lib/db";
 import { requireAdmin } from "@/lib/auth-utils";
+import { diffAuditFields, recordAdminAudit } from "@/lib/admin-audit";
 import { revalidateAllStoreCache } from "@/lib/cache";
 import { DEFAULT_ORDER_EXPIRE_MINUTES } from "@/lib/order-config";
 import { systemSettingsSchema, type SystemSettings, type SystemSettingsInput } from "@/lib/validations/system-settings";
@@ -88,8 +89,9 @@ export async function updateSystemSettings(input: SystemSettingsInput): Promise<
   success: boolean;
   message: string;
 }> {
+  let admin;
   try {
-    await requireAdmin();
+    admin = await requireAdmin("settings.manage");
   } catch {
     return { success: false, message: "需要管理员权限" };
   }
@@ -107,6 +109,13 @@ export async function updateSystemSettings(input: SystemSettingsInput): Promise<
     validationResult.data;
 
   try {
+    // 审计日志记录数据库中原有的值（未写入过的键为 null）
+    const previousRows = await db
+      .select({ key: settings.key, value: settings.value })
+      .from(settings)
+      .where(inArray(settings.key, Object.values(SYSTEM_SETTING_KEYS)));
+    const previous = Object.fromEntries(previousRows.map((row) => [row.key, row.value]));
+
     // 为什么这样做：系统配置需要“可覆盖 + 可回滚”；用 key-value 做幂等 upsert，避免多次保存产生重复记录。
     await db
       .insert(settings)
@@ -151,6 +160,22 @@ export async function updateSystemSettings(input: SystemSettingsInput): Promise<
         },
       });
 
+    const changes = diffAuditFields(previous, {
+      [SYSTEM_SETTING_KEYS.configPriority]: configPriority,
+      [SYSTEM_SETTING_KEYS.siteName]: siteName,
+      [SYSTEM_SETTING_KEYS.siteDescription]: siteDescription,
+      [SYSTEM_SETTING_KEYS.siteIcon]: siteIcon,
+      [SYSTEM_SETTING_KEYS.orderExpireMinutes]: String(orderExpireMinutes),
+    });
+    if (changes) {
+      await recordAdminAudit(admin.user, {
+        action: "settings.update",
+        entityType: "settings",
+        entityId: "system",
+        ...changes,
+      });
+    }
+
     // 为什么这样做：前台页面包含 ISR 缓存；配置更新后需要主动清理，确保用户“马上看到”新配置。
     await revalidateAllStoreCache();
 
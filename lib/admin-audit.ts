@@ -0,0 +1,170 @@
+/**
+ * 后台操作审计（只追加）
+ * 敏感操作成功后调用 recordAdminAudit；写入失败只记 pino 日志，不影响操作本身的结果
+ */
+
+import { headers } from "next/headers";
+
+import { db, adminAuditLogs, type AdminRole } from "@/lib/db";
+import { getRequestIdFromHeaders, logger } from "@/lib/logger";
+import { getClientIP } from "@/lib/rate-limit";
+
+export const ADMIN_AUDIT_ENTITY_TYPES = [
+  "order",
+  "card",
+  "card_batch",
+  "product",
+  "product_variant",
+  "coupon",
+  "payment_notify",
+  "settings",
+  "admin_user",
+  "admin_session",
+  "api_key",
+] as const;
+
+export type AdminAuditEntityType = (typeof ADMIN_AUDIT_ENTITY_TYPES)[number];
+
+export const adminAuditEntityLabels: Record<AdminAuditEntityType, string> = {
+  order: "订单",
+  card: "卡密",
+  card_batch: "卡密导入批次",
+  product: "商品",
+  product_variant: "商品规格",
+  coupon: "优惠码",
+  payment_notify: "支付回调",
+  settings: "系统配置",
+  admin_user: "管理员账号",
+  admin_session: "登录会话",
+  api_key: "API 密钥",
+};
+
+export const adminAuditActionLabels: Record<string, string> = {
+  "order.delete": "删除订单",
+  "order.complete": "手动完成订单",
+  "order.refund_approve": "同意退款",
+  "order.refund_mark": "标记已退款",
+  "order.refund_reject": "驳回退款",
+  "card.delete": "删除卡密",
+  "card.reset_locked": "释放锁定卡密",
+  "card.recycle": "隔离卡密放回库存",
+  "card.void": "作废隔离卡密",
+  "card_batch.import": "导入卡密",
+  "card_batch.revoke": "撤回导入批次",
+  "product.create": "创建商品",
+  "product.update": "修改商品",
+  "product.delete": "删除商品",
+  "product.restock_purge": "清空催补货请求",
+  "product.restock_reset": "重置催补货请求",
+  "product_variant.create": "创建规格",
+  "product_variant.update": "修改规格",
+  "product_variant.delete": "删除规格",
+  "coupon.create": "创建优惠码",
+  "coupon.update": "修改优惠码",
+  "coupon.delete": "删除优惠码",
+  "payment_notify.replay": "重放支付回调",
+  "settings.update": "修改系统配置",
+  "payment_settings.update": "修改支付通道配置",
+  "admin_user.create": "创建管理员",
+  "admin_user.update": "修改管理员",
+  "admin_user.reset_password": "重置管理员密码",
+  "admin_user.reset_two_factor": "重置两步验证",
+  "admin_session.revoke": "下线登录会话",
+  "api_key.create": "创建 API 密钥",
+  "api_key.revoke": "撤销 API 密钥",
+};
+
+export interface AdminAuditActor {
+  id: string;
+  name?: string | null;
+  adminRole?: AdminRole;
+}
+
+export interface AdminAuditEntry {
+  action: string;
+  entityType: AdminAuditEntityType;
+  entityId?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+/**
+ * 从记录中取出需要审计的字段（Date 转为 ISO 字符串，便于 jsonb 存储与比较）
+ */
+export function pickAuditFields<T extends Record<string, unknown>, K extends keyof T & string>(
+  row: T,
+  fields: readonly K[]
+): Record<K, unknown> {
+  const picked = {} as Record<K, unknown>;
+  for (const field of fields) {
+    const value = row[field];
+    picked[field] = value instanceof Date ? value.toISOString() : (value ?? null);
+  }
+  return picked;
+}
+
+/**
+ * 对比变更前后，只保留有变化的字段；没有任何变化时返回 null
+ */
+export function diffAuditFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): { before: Record<string, unknown>; after: Record<string, unknown> } | null {
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const from = before[key] ?? null;
+    const to = after[key] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changedBefore[key] = from;
+      changedAfter[key] = to;
+    }
+  }
+
+  return Object.keys(changedAfter).length > 0
+    ? { before: changedBefore, after: changedAfter }
+    : null;
+}
+
+export async function recordAdminAudit(
+  actor: AdminAuditActor,
+  entries: AdminAuditEntry | AdminAuditEntry[]
+): Promise<void> {
+  const list = Array.isArray(entries) ? entries : [entries];
+  if (list.length === 0) {
+    return;
+  }
+
+  const requestId = await getRequestIdFromHeaders();
+
+  try {
+    let ipAddress: string | null = null;
+    try {
+      const ip = getClientIP(await headers());
+      ipAddress = ip === "unknown" ? null : ip;
+    } catch {
+      // 无请求上下文（脚本/测试）时不记录 IP
+    }
+
+    await db.insert(adminAuditLogs).values(
+      list.map((entry) => ({
+        actorId: actor.id,
+        actorName: actor.name ?? null,
+        actorRole: actor.adminRole ?? null,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId ?? null,
+        before: entry.before ?? null,
+        after: entry.after ?? null,
+        requestId: requestId ?? null,
+        ipAddress,
+      }))
+    );
+  } catch (error) {
+    logger.error(
+      { err: error, requestId, actorId: actor.id, actions: list.map((entry) => entry.action) },
+      "写入操作审计日志失败"
+    );
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * 后台角色与权限
+ *
+ * - 纯函数模块：middleware、侧边栏（客户端组件）与 Server Actions 共用；会被打包进客户端，因此不访问数据库
+ * - 服务端以 requireAdmin(permission) 为准；middleware 与侧边栏只是基于会话中的角色提前拦截 / 隐藏入口
+ */
+
+import type { AdminRole } from "@/lib/db";
+
+export type { AdminRole } from "@/lib/db";
+
+export const ADMIN_ROLES = [
+  "owner",
+  "operator",
+  "support",
+  "finance",
+] as const satisfies readonly AdminRole[];
+
+export const adminRoleLabels: Record<AdminRole, string> = {
+  owner: "所有者",
+  operator: "运营",
+  support: "客服",
+  finance: "财务",
+};
+
+export const ADMIN_PERMISSIONS = [
+  "products.manage",
+  "cards.view",
+  "cards.manage",
+  "orders.view",
+  "orders.manage",
+  "refunds.approve",
+  "refunds.reject",
+  "customers.view",
+  "reports.view",
+  "marketing.manage",
+  "restock.manage",
+  "payments.view",
+  "payments.replay",
+  "settings.manage",
+  "admins.manage",
+  "audit.view",
+  "api_keys.manage",
+] as const;
+
+export type AdminPermission = (typeof ADMIN_PERMISSIONS)[number];
+
+export const adminPermissionLabels: Record<AdminPermission, string> = {
+  "products.manage": "管理商品、规格与分类",
+  "cards.view": "查看卡密库存与导入批次",
+  "cards.manage": "导入、编辑、删除、导出卡密",
+  "orders.view": "查看订单与退款申请",
+  "orders.manage": "手动完成、删除订单与支付对账",
+  "refunds.approve": "同意退款",
+  "refunds.reject": "驳回退款",
+  "customers.view": "查看顾客",
+  "reports.view": "查看销售分析与利润报表",
+  "marketing.manage": "管理优惠码与公告",
+  "restock.manage": "管理催补货请求",
+  "payments.view": "查看支付回调",
+  "payments.replay": "重放支付回调",
+  "settings.manage": "系统状态与系统配置",
+  "admins.manage": "管理管理员账号",
+  "audit.view": "查看操作审计日志",
+  "api_keys.manage": "管理开放 API 密钥",
+};
+
+const rolePermissions: Record<AdminRole, readonly AdminPermission[]> = {
+  owner: ADMIN_PERMISSIONS,
+  operator: [
+    "products.manage",
+    "cards.view",
+    "cards.manage",
+    "orders.view",
+    "orders.manage",
+    "customers.view",
+    "reports.view",
+    "marketing.manage",
+    "restock.manage",
+    "payments.view",
+  ],
+  support: ["orders.view", "refunds.reject", "customers.view"],
+  finance: [
+    "cards.view",
+    "orders.view",
+    "refunds.approve",
+    "refunds.reject",
+    "customers.view",
+    "reports.view",
+    "payments.view",
+    "payments.replay",
+  ],
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === "string" && (ADMIN_ROLES as readonly string[]).includes(value);
+}
+
+export function getAdminPermissions(role: AdminRole): readonly AdminPermission[] {
+  return rolePermissions[role];
+}
+
+export function hasAdminPermission(role: AdminRole, permission: AdminPermission): boolean {
+  return rolePermissions[role].includes(permission);
+}
+
+/**
+ * 会话中的后台角色；升级前签发的管理员会话没有角色字段，按 owner 处理
+ */
+export function getSessionAdminRole(
+  user: { role?: string; adminRole?: string } | undefined
+): AdminRole | null {
+  if (user?.role !== "admin") return null;
+  return isAdminRole(user.adminRole) ? user.adminRole : "owner";
+}
+
+// 页面路由所需权限（按前缀匹配，未列出的页面如仪表盘对所有管理员开放）
+const routePermissions: Array<[prefix: string, permission: AdminPermission]> = [
+  ["/admin/products", "products.manage"],
+  ["/admin/categories", "products.manage"],
+  ["/admin/cards", "cards.view"],
+  ["/admin/restock", "restock.manage"],
+  ["/admin/orders", "orders.view"],
+  ["/admin/refund", "refunds.approve"],
+  ["/admin/customers", "customers.view"],
+  ["/admin/analytics", "reports.view"],
+  ["/admin/reports", "reports.view"],
+  ["/admin/payment-callbacks", "payments.view"],
+  ["/admin/coupons", "marketing.manage"],
+  ["/admin/announcements", "marketing.manage"],
+  ["/admin/settings", "settings.manage"],
+  ["/admin/system-config", "settings.manage"],
+  ["/admin/admins", "admins.manage"],
+  ["/admin/audit", "audit.view"],
+  ["/admin/api-keys", "api_keys.manage"],
+];
+
+export function getAdminRoutePermission(pathname: string): AdminPermission | null {
+  const match = routePermissions.find(
+    ([prefix]) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+  );
+  return match ? match[1] : null;
+}
+
+/**
+ * 解析 ADMIN_USERNAMES（逗号分隔，可用「用户名:角色」指定角色，未指定时为 owner）
+ * 例如：ADMIN_USERNAMES="kong,alice:operator,bob:support"
+ */
+export function parseAdminUsernames(value: string | undefined): Map<string, AdminRole> {
+  const result = new Map<string, AdminRole>();
+  for (const entry of (value ?? "").split(",")) {
+    const [name, role] = entry.split(":").map((part) => part.trim());
+    if (!name) continue;
+    if (role === undefined) {
+      result.set(name, "owner");
+    } else if (isAdminRole(role)) {
+      result.set(name, role);
+    }
+  }
+  return result;
+}
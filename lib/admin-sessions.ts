@@ -0,0 +1,119 @@
+/**
+ * 管理员登录会话
+ *
+ * - NextAuth 使用无状态 JWT，单靠 JWT 无法让已签发的会话失效；管理员登录时额外创建一条会话记录，会话 ID 写入 JWT
+ * - middleware 与 requireAdmin 每次校验会话记录：已撤销、超过有效期或 JWT 中没有会话 ID（升级前签发）时视为未登录
+ */
+
+import { headers } from "next/headers";
+import { and, eq, gt, isNull, ne, type SQL } from "drizzle-orm";
+
+import { db, adminSessions } from "@/lib/db";
+import { getClientIP } from "@/lib/rate-limit";
+
+// 与 NextAuth 默认的 session.maxAge（30 天）一致：超过该时长没有访问后台的会话视为过期
+export const ADMIN_SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+// 最近访问时间的刷新间隔，避免每个请求都写库
+const LAST_SEEN_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export interface AdminSessionOwner {
+  actorId: string;
+  adminUserId?: string;
+  actorName?: string | null;
+  provider: "credentials" | "linux-do";
+}
+
+/**
+ * 创建会话记录（登录成功时调用），返回写入 JWT 的会话 ID
+ */
+export async function createAdminSession(owner: AdminSessionOwner): Promise<string> {
+  let ipAddress: string | null = null;
+  let userAgent: string | null = null;
+  try {
+    const headersList = await headers();
+    const ip = getClientIP(headersList);
+    ipAddress = ip === "unknown" ? null : ip;
+    userAgent = headersList.get("user-agent")?.slice(0, 512) || null;
+  } catch {
+    // 无请求上下文（脚本/测试）时不记录 IP 与 UA
+  }
+
+  const [session] = await db
+    .insert(adminSessions)
+    .values({
+      actorId: owner.actorId,
+      adminUserId: owner.adminUserId ?? null,
+      actorName: owner.actorName ?? null,
+      provider: owner.provider,
+      ipAddress,
+      userAgent,
+    })
+    .returning({ id: adminSessions.id });
+
+  return session.id;
+}
+
+/**
+ * 未撤销且未过期的会话
+ */
+export function activeAdminSessionCondition(now: Date = new Date()): SQL {
+  return and(
+    isNull(adminSessions.revokedAt),
+    gt(adminSessions.lastSeenAt, new Date(now.getTime() - ADMIN_SESSION_MAX_AGE_SECONDS * 1000))
+  )!;
+}
+
+/**
+ * 校验会话是否仍然有效，有效时顺带刷新最近访问时间
+ */
+export async function validateAdminSession(sessionId: string | undefined): Promise<boolean> {
+  if (!sessionId) {
+    return false;
+  }
+
+  const now = new Date();
+  const session = await db.query.adminSessions.findFirst({
+    columns: { id: true, lastSeenAt: true },
+    where: and(eq(adminSessions.id, sessionId), activeAdminSessionCondition(now)),
+  });
+  if (!session) {
+    return false;
+  }
+
+  if (now.getTime() - session.lastSeenAt.getTime() >= LAST_SEEN_UPDATE_INTERVAL_MS) {
+    await db
+      .update(adminSessions)
+      .set({ lastSeenAt: now })
+      .where(eq(adminSessions.id, sessionId));
+  }
+
+  return true;
+}
+
+/**
+ * 撤销会话；返回被撤销的会话
+ * - sessionId：撤销指定会话
+ * - actorId：撤销该管理员的全部会话
+ * - exceptSessionId：保留当前会话（「下线其他会话」）
+ */
+export async function revokeAdminSessions(
+  filter: { sessionId?: string; actorId?: string; adminUserId?: string; exceptSessionId?: string },
+  revokedBy: string
+): Promise<Array<{ id: string; actorId: string; actorName: string | null }>> {
+  const conditions: SQL[] = [activeAdminSessionCondition()];
+  if (filter.sessionId) conditions.push(eq(adminSessions.id, filter.sessionId));
+  if (filter.actorId) conditions.push(eq(adminSessions.actorId, filter.actorId));
+  if (filter.adminUserId) conditions.push(eq(adminSessions.adminUserId, filter.adminUserId));
+  if (filter.exceptSessionId) conditions.push(ne(adminSessions.id, filter.exceptSessionId));
+
+  return db
+    .update(adminSessions)
+    .set({ revokedAt: new Date(), revokedBy })
+    .where(and(...conditions))
+    .returning({
+      id: adminSessions.id,
+      actorId: adminSessions.actorId,
+      actorName: adminSessions.actorName,
+    });
+}
@@ -0,0 +1,159 @@
+/**
+ * 后台管理员账号
+ *
+ * - 密码使用 bcrypt 哈希存储，用户名统一小写
+ * - ADMIN_PASSWORD 仅用于初始化：没有启用中的 owner 账号时，可不填用户名以 owner 身份登录并创建账号
+ */
+
+import crypto from "node:crypto";
+import bcrypt from "bcryptjs";
+import { and, eq, isNull, lt, or, sql } from "drizzle-orm";
+
+import { db, adminUsers, type AdminRole } from "@/lib/db";
+import { hashRecoveryCode, isTotpCodeFormat, verifyTotpCode } from "@/lib/totp";
+
+export const ADMIN_PASSWORD_HASH_ROUNDS = 12;
+
+export interface AdminAccount {
+  id: string;
+  username: string;
+  displayName: string | null;
+  role: AdminRole;
+  totpEnabled: boolean;
+}
+
+let dummyHash: Promise<string> | null = null;
+
+export function normalizeAdminUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+export async function hashAdminPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, ADMIN_PASSWORD_HASH_ROUNDS);
+}
+
+/**
+ * 校验用户名与密码；用户不存在时同样执行一次哈希比较，避免通过耗时探测用户名
+ * 登录时间在两步验证通过后由 recordAdminLogin 记录
+ */
+export async function verifyAdminCredentials(
+  username: string,
+  password: string
+): Promise<AdminAccount | null> {
+  const account = await db.query.adminUsers.findFirst({
+    where: and(
+      eq(adminUsers.username, normalizeAdminUsername(username)),
+      eq(adminUsers.isActive, true)
+    ),
+  });
+
+  if (!account) {
+    dummyHash ??= bcrypt.hash(crypto.randomUUID(), ADMIN_PASSWORD_HASH_ROUNDS);
+    await bcrypt.compare(password, await dummyHash);
+    return null;
+  }
+
+  if (!(await bcrypt.compare(password, account.passwordHash))) {
+    return null;
+  }
+
+  return {
+    id: account.id,
+    username: account.username,
+    displayName: account.displayName,
+    role: account.role,
+    totpEnabled: !!account.totpEnabledAt,
+  };
+}
+
+export async function recordAdminLogin(id: string): Promise<void> {
+  await db.update(adminUsers).set({ lastLoginAt: new Date() }).where(eq(adminUsers.id, id));
+}
+
+/**
+ * 校验两步验证：6 位数字按 TOTP 校验（同一验证码只能使用一次），其余按恢复码校验（使用后作废）
+ */
+export async function verifyAdminSecondFactor(id: string, code: string): Promise<boolean> {
+  const account = await db.query.adminUsers.findFirst({
+    columns: {
+      totpSecret: true,
+      totpEnabledAt: true,
+      totpLastUsedStep: true,
+      totpRecoveryCodes: true,
+    },
+    where: eq(adminUsers.id, id),
+  });
+
+  if (!account?.totpSecret || !account.totpEnabledAt) {
+    return false;
+  }
+
+  if (isTotpCodeFormat(code)) {
+    const step = verifyTotpCode(account.totpSecret, code, {
+      afterStep: account.totpLastUsedStep,
+    });
+    if (step === null) return false;
+
+    // 条件更新：并发提交同一验证码时只有一个请求能推进时间步
+    const updated = await db
+      .update(adminUsers)
+      .set({ totpLastUsedStep: step })
+      .where(
+        and(
+          eq(adminUsers.id, id),
+          or(isNull(adminUsers.totpLastUsedStep), lt(adminUsers.totpLastUsedStep, step))
+        )
+      )
+      .returning({ id: adminUsers.id });
+    return updated.length > 0;
+  }
+
+  const hash = hashRecoveryCode(code);
+  if (!account.totpRecoveryCodes.includes(hash)) {
+    return false;
+  }
+
+  const updated = await db
+    .update(adminUsers)
+    .set({ totpRecoveryCodes: sql`${adminUsers.totpRecoveryCodes} - ${hash}::text` })
+    .where(
+      and(
+        eq(adminUsers.id, id),
+        sql`${adminUsers.totpRecoveryCodes} @> jsonb_build_array(${hash}::text)`
+      )
+    )
+    .returning({ id: adminUsers.id });
+  return updated.length > 0;
+}
+
+/**
+ * 是否存在启用中的 owner 账号（存在时 ADMIN_PASSWORD 不再可用）
+ */
+export async function hasActiveOwner(): Promise<boolean> {
+  const owner = await db.query.adminUsers.findFirst({
+    columns: { id: true },
+    where: and(eq(adminUsers.role, "owner"), eq(adminUsers.isActive, true)),
+  });
+  return !!owner;
+}
+
+/**
+ * 常量时间比较 ADMIN_PASSWORD（先做 SHA-256，避免长度差异提前返回）
+ */
+export function verifyBootstrapPassword(password: string, adminPassword: string): boolean {
+  const digest = (value: string) => crypto.createHash("sha256").update(value).digest();
+  return crypto.timingSafeEqual(digest(password), digest(adminPassword));
+}
+
+/**
+ * 读取账号当前的角色与启用状态，用于让角色变更、停用对已登录会话立即生效
+ */
+export async function getAdminUserAccess(
+  id: string
+): Promise<{ role: AdminRole; isActive: boolean } | null> {
+  const account = await db.query.adminUsers.findFirst({
+    columns: { role: true, isActive: true },
+    where: eq(adminUsers.id, id),
+  });
+  return account ?? null;
+}
@@ -0,0 +1,160 @@
+/**
+ * 销售分析（纯函数）
+ *
+ * 时间范围按业务时区（STATS_TIMEZONE）的自然日选择，按小时或按天分桶；
+ * 转化率按下单时间统计（下单后是否支付 / 过期），实收、客单价与退款率按支付时间统计。
+ */
+
+import {
+  addLocalDays,
+  formatLocalDate,
+  parseLocalDate,
+  type StatsBucket,
+} from "@/lib/time/stats";
+
+export const ANALYTICS_PRESETS = [
+  { key: "today", label: "今日", days: 1 },
+  { key: "7d", label: "近 7 天", days: 7 },
+  { key: "30d", label: "近 30 天", days: 30 },
+  { key: "90d", label: "近 90 天", days: 90 },
+] as const;
+
+export type AnalyticsPreset = (typeof ANALYTICS_PRESETS)[number]["key"];
+
+export const ANALYTICS_MAX_DAYS = 366;
+// 按小时分桶最多 7 天（168 个点），更长的范围只能按天
+export const ANALYTICS_MAX_HOURLY_DAYS = 7;
+
+export const analyticsBucketLabels: Record<StatsBucket, string> = {
+  hour: "按小时",
+  day: "按天",
+};
+
+export interface AnalyticsRange {
+  from: string; // 起始日期（含）
+  to: string; // 结束日期（含）
+  endDate: string; // to 的次日，用于半开区间查询
+  days: number;
+  bucket: StatsBucket;
+  preset: AnalyticsPreset | null;
+}
+
+export interface AnalyticsSeriesRow {
+  bucket: string; // 桶起点（业务时区本地时间，YYYY-MM-DD 或 YYYY-MM-DD HH:00）
+  createdOrders: number;
+  convertedOrders: number; // 该时段创建且已支付的订单
+  expiredOrders: number; // 该时段创建且已过期的订单
+  paidOrders: number; // 该时段支付的订单
+  revenue: number;
+  refundedAmount: number;
+  refundedOrders: number;
+}
+
+export interface AnalyticsMetrics {
+  conversionRate: number | null;
+  expireRate: number | null;
+  averageOrderValue: number | null;
+  refundRate: number | null; // 退款金额 / 实收
+}
+
+export interface AnalyticsBreakdownRow {
+  key: string;
+  name: string;
+  orders: number;
+  units: number;
+  revenue: number;
+}
+
+/**
+ * 解析时间范围：优先使用自定义起止日期，否则按预设（默认近 7 天）
+ */
+export function resolveAnalyticsRange(
+  input: { preset?: string; from?: string; to?: string; bucket?: string },
+  today: string
+): AnalyticsRange {
+  const todayDate = parseLocalDate(today);
+  if (!todayDate) {
+    throw new Error(`无效的日期：${today}`);
+  }
+
+  let fromDate = input.from ? parseLocalDate(input.from) : null;
+  let toDate = input.to ? parseLocalDate(input.to) : null;
+  let preset: AnalyticsPreset | null = null;
+
+  if (fromDate && toDate) {
+    if (fromDate > toDate) {
+      [fromDate, toDate] = [toDate, fromDate];
+    }
+    const earliest = addLocalDays(toDate, -(ANALYTICS_MAX_DAYS - 1));
+    if (fromDate < earliest) {
+      fromDate = earliest;
+    }
+  } else {
+    const matched =
+      ANALYTICS_PRESETS.find((item) => item.key === input.preset) ?? ANALYTICS_PRESETS[1];
+    preset = matched.key;
+    toDate = todayDate;
+    fromDate = addLocalDays(todayDate, -(matched.days - 1));
+  }
+
+  const days = Math.round((toDate.getTime() - fromDate.getTime()) / 86_400_000) + 1;
+  // 默认：单日按小时，多日按天
+  const requested: StatsBucket =
+    input.bucket === "hour" || input.bucket === "day" ? input.bucket : days === 1 ? "hour" : "day";
+  const bucket: StatsBucket =
+    requested === "hour" && days > ANALYTICS_MAX_HOURLY_DAYS ? "day" : requested;
+
+  return {
+    from: formatLocalDate(fromDate),
+    to: formatLocalDate(toDate),
+    endDate: formatLocalDate(addLocalDays(toDate, 1)),
+    days,
+    bucket,
+    preset,
+  };
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+export function getAnalyticsMetrics(
+  row: Pick<
+    AnalyticsSeriesRow,
+    "createdOrders" | "convertedOrders" | "expiredOrders" | "paidOrders" | "revenue" | "refundedAmount"
+  >
+): AnalyticsMetrics {
+  return {
+    conversionRate: ratio(row.convertedOrders, row.createdOrders),
+    expireRate: ratio(row.expiredOrders, row.createdOrders),
+    averageOrderValue: ratio(row.revenue, row.paidOrders),
+    refundRate: ratio(row.refundedAmount, row.revenue),
+  };
+}
+
+export function summarizeAnalyticsSeries(rows: AnalyticsSeriesRow[]): Omit<AnalyticsSeriesRow, "bucket"> {
+  return rows.reduce(
+    (sum, row) => ({
+      createdOrders: sum.createdOrders + row.createdOrders,
+      convertedOrders: sum.convertedOrders + row.convertedOrders,
+      expiredOrders: sum.expiredOrders + row.expiredOrders,
+      paidOrders: sum.paidOrders + row.paidOrders,
+      revenue: Math.round((sum.revenue + row.revenue) * 100) / 100,
+      refundedAmount: Math.round((sum.refundedAmount + row.refundedAmount) * 100) / 100,
+      refundedOrders: sum.refundedOrders + row.refundedOrders,
+    }),
+    {
+      createdOrders: 0,
+      convertedOrders: 0,
+      expiredOrders: 0,
+      paidOrders: 0,
+      revenue: 0,
+      refundedAmount: 0,
+      refundedOrders: 0,
+    }
+  );
+}
+
+export function formatRate(value: number | null): string {
+  return value === null ? "-" : `${(value * 100).toFixed(1)}%`;
+}
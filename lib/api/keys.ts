@@ -0,0 +1,120 @@
+/**
+ * 开放 API 密钥与请求鉴权
+ *
+ * - 明文格式为 ldc_ + 32 位随机字符，只在创建时展示一次；数据库只保存 SHA-256 哈希
+ * - 密钥熵足够高，不需要 bcrypt 这类慢哈希，按哈希直接查表即可
+ * - 每个密钥按 rateLimitPerMinute 做固定窗口限流（复用 login_rate_limits 表）
+ */
+
+import crypto from "node:crypto";
+import { and, eq, isNull } from "drizzle-orm";
+import { NextResponse } from "next/server";
+
+import { db, apiKeys, type ApiKey } from "@/lib/db";
+import { consumeRateLimit } from "@/lib/rate-limit";
+import { hasApiKeyScope, type ApiKeyScope } from "@/lib/api/scopes";
+
+const API_KEY_PREFIX = "ldc_";
+// 后台展示的明文前缀长度（含 ldc_）
+const API_KEY_DISPLAY_PREFIX_LENGTH = 12;
+// 最近使用时间的刷新间隔，避免每个请求都写库
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString("base64url")}`;
+  return { key, prefix: key.slice(0, API_KEY_DISPLAY_PREFIX_LENGTH), hash: hashApiKey(key) };
+}
+
+/**
+ * 从 Authorization: Bearer <key> 或 X-API-Key 请求头读取密钥
+ */
+export function readApiKeyFromHeaders(headers: Headers): string | null {
+  const authorization = headers.get("authorization");
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice(7).trim() || null;
+  }
+  return headers.get("x-api-key")?.trim() || null;
+}
+
+/**
+ * 按明文查找未撤销的密钥；找到时顺带刷新最近使用时间
+ */
+export async function findActiveApiKey(key: string): Promise<ApiKey | null> {
+  if (!key.startsWith(API_KEY_PREFIX)) {
+    return null;
+  }
+
+  const apiKey = await db.query.apiKeys.findFirst({
+    where: and(eq(apiKeys.keyHash, hashApiKey(key)), isNull(apiKeys.revokedAt)),
+  });
+  if (!apiKey) {
+    return null;
+  }
+
+  const now = new Date();
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_UPDATE_INTERVAL_MS) {
+    await db.update(apiKeys).set({ lastUsedAt: now }).where(eq(apiKeys.id, apiKey.id));
+  }
+
+  return apiKey;
+}
+
+/**
+ * 统一的错误响应：{ success: false, message }
+ */
+export function apiError(status: number, message: string, headers?: HeadersInit): NextResponse {
+  return NextResponse.json({ success: false, message }, { status, headers });
+}
+
+export type ApiAuthResult =
+  | { ok: true; apiKey: ApiKey; headers: Record<string, string> }
+  | { ok: false; response: NextResponse };
+
+/**
+ * 校验请求的 API 密钥、权限范围与限流
+ * 成功时返回的 headers（X-RateLimit-*）应附加到响应上
+ */
+export async function authorizeApiRequest(
+  request: Request,
+  scope: ApiKeyScope
+): Promise<ApiAuthResult> {
+  const key = readApiKeyFromHeaders(request.headers);
+  if (!key) {
+    return { ok: false, response: apiError(401, "缺少 API 密钥") };
+  }
+
+  const apiKey = await findActiveApiKey(key);
+  if (!apiKey) {
+    return { ok: false, response: apiError(401, "API 密钥无效或已撤销") };
+  }
+
+  if (!hasApiKeyScope(apiKey, scope)) {
+    return { ok: false, response: apiError(403, `该密钥没有 ${scope} 权限`) };
+  }
+
+  const rateLimit = await consumeRateLimit(`api-key:${apiKey.id}`, {
+    windowMs: RATE_LIMIT_WINDOW_MS,
+    maxAttempts: apiKey.rateLimitPerMinute,
+  });
+  const headers = {
+    "X-RateLimit-Limit": String(apiKey.rateLimitPerMinute),
+    "X-RateLimit-Remaining": String(Math.max(0, rateLimit.remaining)),
+    "X-RateLimit-Reset": String(rateLimit.resetIn),
+  };
+  if (!rateLimit.success) {
+    return {
+      ok: false,
+      response: apiError(429, rateLimit.message || "请求过于频繁，请稍后再试", {
+        ...headers,
+        "Retry-After": String(rateLimit.resetIn),
+      }),
+    };
+  }
+
+  return { ok: true, apiKey, headers };
+}
@@ -0,0 +1,239 @@
+/**
+ * 开放 API 的 OpenAPI 3.0 文档
+ *
+ * 请求参数直接由 lib/validations 中的 zod schema 生成，与 Route Handler 的校验保持一致；
+ * 响应结构只用于文档，在这里单独声明（日期字段以 ISO 8601 字符串返回）
+ */
+
+import { z } from "zod";
+
+import { API_KEY_SCOPES, apiKeyScopeLabels, type ApiKeyScope } from "@/lib/api/scopes";
+import { apiOrderNoSchema, apiProductListQuerySchema } from "@/lib/validations/api";
+import { createOrderSchema } from "@/lib/validations/order";
+
+type JsonSchema = Record<string, unknown>;
+
+function toJsonSchema(schema: z.ZodType): JsonSchema {
+  const jsonSchema = z.toJSONSchema(schema, {
+    target: "openapi-3.0",
+    io: "input",
+    unrepresentable: "any",
+  }) as JsonSchema;
+  // OpenAPI 内嵌的 schema 不需要 $schema 声明
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+const nullableString = z.string().nullable();
+const dateTime = z.string().describe("ISO 8601 时间");
+
+const apiProductSchema = z.object({
+  id: z.string(),
+  categoryId: nullableString,
+  name: z.string(),
+  slug: z.string(),
+  description: nullableString,
+  price: z.string().describe("单价（字符串形式的两位小数）"),
+  originalPrice: nullableString,
+  minQuantity: z.number().int(),
+  maxQuantity: z.number().int(),
+  priceTiers: z
+    .array(z.object({ minQuantity: z.number().int(), price: z.string() }))
+    .describe("阶梯价：购买数量达到 minQuantity 时的单价"),
+  stock: z.number().int().describe("可售库存，启用规格时为各规格之和"),
+  variants: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      price: z.string(),
+      minQuantity: z.number().int(),
+      maxQuantity: z.number().int(),
+      stock: z.number().int(),
+    })
+  ),
+});
+
+const apiCreatedOrderSchema = z.object({
+  orderNo: z.string(),
+  payment: z
+    .object({
+      url: z.string(),
+      method: z.literal("POST"),
+      params: z.record(z.string(), z.string()),
+    })
+    .describe("以表单 POST 方式把 params 提交到 url 完成支付"),
+});
+
+const apiOrderSchema = z.object({
+  orderNo: z.string(),
+  status: z.enum([
+    "pending",
+    "paid",
+    "completed",
+    "expired",
+    "refund_pending",
+    "refund_rejected",
+    "refunded",
+    "partially_refunded",
+  ]),
+  productName: z.string(),
+  quantity: z.number().int(),
+  totalAmount: z.string(),
+  discountAmount: z.string(),
+  couponCode: nullableString,
+  refundedAmount: z.string(),
+  paymentMethod: z.string(),
+  createdAt: dateTime,
+  paidAt: dateTime.nullable(),
+  expiredAt: dateTime.nullable(),
+  items: z.array(
+    z.object({
+      productId: nullableString,
+      variantId: nullableString,
+      productName: z.string(),
+      productPrice: z.string(),
+      quantity: z.number().int(),
+      subtotal: z.string(),
+    })
+  ),
+});
+
+const apiCardSchema = z.object({
+  content: z.string(),
+  fields: z.array(z.object({ label: z.string(), value: z.string() })).nullable(),
+  expiresAt: dateTime.nullable(),
+});
+
+function successResponse(description: string, data: z.ZodType) {
+  return {
+    description,
+    headers: {
+      "X-RateLimit-Limit": { description: "每分钟请求上限", schema: { type: "integer" } },
+      "X-RateLimit-Remaining": { description: "当前窗口剩余次数", schema: { type: "integer" } },
+      "X-RateLimit-Reset": { description: "距窗口重置的秒数", schema: { type: "integer" } },
+    },
+    content: {
+      "application/json": {
+        schema: toJsonSchema(z.object({ success: z.literal(true), data })),
+      },
+    },
+  };
+}
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+});
+
+const commonErrors = {
+  "401": errorResponse("缺少 API 密钥，或密钥无效、已撤销"),
+  "403": errorResponse("密钥没有该接口需要的权限范围"),
+  "429": errorResponse("超过密钥的每分钟请求上限，等待 Retry-After 秒后重试"),
+};
+
+function operation<T extends { responses: object }>(scope: ApiKeyScope, spec: T) {
+  return {
+    security: [{ apiKey: [scope] }],
+    "x-required-scope": scope,
+    ...spec,
+    responses: { ...spec.responses, ...commonErrors },
+  };
+}
+
+const orderNoParameter = {
+  name: "orderNo",
+  in: "path",
+  required: true,
+  schema: toJsonSchema(apiOrderNoSchema),
+};
+
+// 查询参数逐个展开：OpenAPI 的 parameters 不能直接引用整个 object schema
+function queryParameters(schema: z.ZodObject) {
+  const jsonSchema = toJsonSchema(schema) as {
+    properties: Record<string, JsonSchema>;
+    required?: string[];
+  };
+  return Object.entries(jsonSchema.properties).map(([name, property]) => ({
+    name,
+    in: "query",
+    required: jsonSchema.required?.includes(name) ?? false,
+    schema: property,
+  }));
+}
+
+export function buildOpenApiDocument(serverUrl: string) {
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "LDC Store API",
+      version: "1.0.0",
+      description:
+        "使用后台「API 密钥」页面创建的密钥访问，每个密钥绑定一个 Linux DO 用户，只能查询该用户自己的订单。",
+    },
+    servers: [{ url: `${serverUrl}/api/v1` }],
+    components: {
+      securitySchemes: {
+        apiKey: {
+          type: "http",
+          scheme: "bearer",
+          description: `Authorization: Bearer ldc_xxx（也支持 X-API-Key 请求头）。权限范围：${API_KEY_SCOPES.map(
+            (scope) => `${scope}（${apiKeyScopeLabels[scope]}）`
+          ).join("、")}`,
+        },
+      },
+      schemas: {
+        Error: toJsonSchema(z.object({ success: z.literal(false), message: z.string() })),
+      },
+    },
+    paths: {
+      "/products": {
+        get: operation("products:read", {
+          summary: "上架商品列表（含可售库存）",
+          parameters: queryParameters(apiProductListQuerySchema),
+          responses: {
+            "200": successResponse("商品列表", z.array(apiProductSchema)),
+            "400": errorResponse("查询参数无效"),
+          },
+        }),
+      },
+      "/orders": {
+        post: operation("orders:create", {
+          summary: "创建订单并获取支付表单",
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: toJsonSchema(createOrderSchema) } },
+          },
+          responses: {
+            "201": successResponse("订单已创建", apiCreatedOrderSchema),
+            "202": successResponse(
+              "订单已创建但支付表单生成失败（payment 为 null）：不要重试下单，可查询订单状态，未支付订单到期后自动释放库存",
+              apiCreatedOrderSchema.extend({ payment: z.null() })
+            ),
+            "400": errorResponse("参数无效、库存不足或优惠码不可用"),
+          },
+        }),
+      },
+      "/orders/{orderNo}": {
+        get: operation("orders:read", {
+          summary: "查询订单",
+          parameters: [orderNoParameter],
+          responses: {
+            "200": successResponse("订单详情", apiOrderSchema),
+            "404": errorResponse("订单不存在或不属于该密钥绑定的用户"),
+          },
+        }),
+      },
+      "/orders/{orderNo}/cards": {
+        get: operation("cards:read", {
+          summary: "获取订单已发货的卡密",
+          description: "订单未支付时返回空列表；每次读取都会写入卡密查看记录",
+          parameters: [orderNoParameter],
+          responses: {
+            "200": successResponse("卡密列表", z.array(apiCardSchema)),
+            "404": errorResponse("订单不存在或不属于该密钥绑定的用户"),
+          },
+        }),
+      },
+    },
+  };
+}
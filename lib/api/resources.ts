@@ -0,0 +1,180 @@
+/**
+ * 开放 API 的数据查询
+ * 订单与卡密只返回 API 密钥绑定用户自己的订单；字段与 OpenAPI 文档（lib/api/openapi.ts）保持一致
+ */
+
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+
+import { db, cards, orders, products, productVariants, type ApiKey } from "@/lib/db";
+import { recordCardAccess } from "@/lib/card-access";
+import { decryptCardContent, decryptCardFields } from "@/lib/card-crypto";
+import { sellableCardCondition } from "@/lib/card-expiry";
+import { releaseExpiredOrders } from "@/lib/order-placement";
+import type { ApiProductListQuery } from "@/lib/validations/api";
+
+// 已支付且已发货的订单才返回卡密（部分退款订单返回未退款的卡密）
+const CARD_VISIBLE_ORDER_STATUSES = ["paid", "completed", "partially_refunded"];
+
+/**
+ * 上架商品及可售库存（启用规格的商品按规格分别统计）
+ */
+export async function listApiProducts(query: ApiProductListQuery) {
+  await releaseExpiredOrders();
+
+  const conditions = [eq(products.isActive, true)];
+  if (query.categoryId) {
+    conditions.push(eq(products.categoryId, query.categoryId));
+  }
+
+  const productList = await db.query.products.findMany({
+    where: and(...conditions),
+    columns: {
+      id: true,
+      categoryId: true,
+      name: true,
+      slug: true,
+      description: true,
+      price: true,
+      originalPrice: true,
+      minQuantity: true,
+      maxQuantity: true,
+      priceTiers: true,
+    },
+    with: {
+      variants: {
+        where: eq(productVariants.isActive, true),
+        columns: {
+          id: true,
+          name: true,
+          price: true,
+          minQuantity: true,
+          maxQuantity: true,
+        },
+        orderBy: [asc(productVariants.sortOrder), asc(productVariants.createdAt)],
+      },
+    },
+    orderBy: [desc(products.isFeatured), asc(products.sortOrder), desc(products.createdAt)],
+    limit: query.limit,
+    offset: query.offset,
+  });
+
+  if (productList.length === 0) {
+    return [];
+  }
+
+  const stockRows = await db
+    .select({
+      productId: cards.productId,
+      variantId: cards.variantId,
+      count: sql<number>`count(*)::int`,
+    })
+    .from(cards)
+    .where(
+      and(
+        inArray(
+          cards.productId,
+          productList.map((product) => product.id)
+        ),
+        sellableCardCondition()
+      )
+    )
+    .groupBy(cards.productId, cards.variantId);
+
+  const stockMap = new Map(
+    stockRows.map((row) => [`${row.productId}:${row.variantId ?? ""}`, row.count])
+  );
+
+  return productList.map((product) => {
+    const variants = product.variants.map((variant) => ({
+      ...variant,
+      stock: stockMap.get(`${product.id}:${variant.id}`) ?? 0,
+    }));
+    return {
+      ...product,
+      variants,
+      stock:
+        variants.length > 0
+          ? variants.reduce((sum, variant) => sum + variant.stock, 0)
+          : stockMap.get(`${product.id}:`) ?? 0,
+    };
+  });
+}
+
+/**
+ * 查询密钥绑定用户的订单；不存在或不属于该用户时返回 null
+ */
+export async function getApiOrder(apiKey: ApiKey, orderNo: string) {
+  const order = await db.query.orders.findFirst({
+    where: and(eq(orders.orderNo, orderNo), eq(orders.userId, apiKey.userId)),
+    columns: {
+      orderNo: true,
+      status: true,
+      productName: true,
+      quantity: true,
+      totalAmount: true,
+      discountAmount: true,
+      couponCode: true,
+      refundedAmount: true,
+      paymentMethod: true,
+      createdAt: true,
+      paidAt: true,
+      expiredAt: true,
+    },
+    with: {
+      items: {
+        columns: {
+          productId: true,
+          variantId: true,
+          productName: true,
+          productPrice: true,
+          quantity: true,
+          subtotal: true,
+        },
+      },
+    },
+  });
+
+  return order ?? null;
+}
+
+/**
+ * 获取密钥绑定用户订单中已发货的卡密，并写入卡密查看记录
+ * 订单不存在或不属于该用户时返回 null；尚未发货时返回空数组
+ */
+export async function getApiOrderCards(apiKey: ApiKey, orderNo: string) {
+  const order = await db.query.orders.findFirst({
+    where: and(eq(orders.orderNo, orderNo), eq(orders.userId, apiKey.userId)),
+    columns: { id: true, status: true },
+    with: {
+      cards: {
+        columns: {
+          id: true,
+          content: true,
+          fields: true,
+          expiresAt: true,
+          status: true,
+        },
+      },
+    },
+  });
+
+  if (!order) {
+    return null;
+  }
+
+  const delivered = CARD_VISIBLE_ORDER_STATUSES.includes(order.status)
+    ? order.cards.filter((card) => card.status === "sold")
+    : [];
+
+  await recordCardAccess(
+    delivered.map((card) => ({ id: card.id, orderId: order.id })),
+    { type: "buyer", id: apiKey.userId, name: apiKey.username },
+    "api"
+  );
+
+  return delivered.map((card) => ({
+    content: decryptCardContent(card.content),
+    fields: decryptCardFields(card.fields),
+    expiresAt: card.expiresAt,
+  }));
+}
@@ -0,0 +1,25 @@
+/**
+ * 开放 API 密钥的权限范围
+ *
+ * 纯函数模块：后台表单（客户端）、参数校验与 Route Handler 共用
+ */
+
+export const API_KEY_SCOPES = [
+  "products:read",
+  "orders:create",
+  "orders:read",
+  "cards:read",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const apiKeyScopeLabels: Record<ApiKeyScope, string> = {
+  "products:read": "查询商品与库存",
+  "orders:create": "创建订单",
+  "orders:read": "查询订单",
+  "cards:read": "获取已发货卡密",
+};
+
+export function hasApiKeyScope(apiKey: { scopes: readonly string[] }, scope: ApiKeyScope): boolean {
+  return apiKey.scopes.includes(scope);
+}
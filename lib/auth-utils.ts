@@ -1,38 +1,83 @@
 "use server";
 
 import { auth } from "@/lib/auth";
+import {
+  getSessionAdminRole,
+  hasAdminPermission,
+  type AdminPermission,
+  type AdminRole,
+} from "@/lib/admin-permissions";
+import { getAdminUserAccess } from "@/lib/admin-users";
+import { validateAdminSession } from "@/lib/admin-sessions";
 
 export interface AdminSession {
   user: {
     id: string;
     role: "admin";
+    adminRole: AdminRole;
+    // 数据库管理员账号 ID；ADMIN_PASSWORD 初始化登录与 Linux DO 白名单管理员没有
+    adminUserId?: string;
+    // 当前登录会话 ID（admin_sessions）
+    adminSessionId?: string;
     name?: string;
     email?: string;
   };
 }
 
 /**
- * 验证当前用户是否为管理员
- * 如果不是管理员，抛出错误
+ * 验证当前用户是否为管理员，并检查角色是否拥有指定权限
+ * 如果不是管理员或没有权限，抛出错误
  * 
  * 用于保护所有管理员操作的 Server Actions
  */
-export async function requireAdmin(): Promise<AdminSession> {
+export async function requireAdmin(permission?: AdminPermission): Promise<AdminSession> {
   const session = await auth();
-  const user = session?.user as { id?: string; role?: string; name?: string; email?: string } | undefined;
+  const user = session?.user as
+    | {
+        id?: string;
+        role?: string;
+        adminRole?: string;
+        adminUserId?: string;
+        adminSessionId?: string;
+        name?: string;
+        email?: string;
+      }
+    | undefined;
 
   if (!user?.id) {
     throw new Error("未登录");
   }
 
-  if (user.role !== "admin") {
+  let adminRole = getSessionAdminRole(user);
+  if (!adminRole) {
     throw new Error("需要管理员权限");
   }
 
+  // 会话被撤销、过期或是升级前签发（没有会话 ID）时需要重新登录
+  if (!(await validateAdminSession(user.adminSessionId))) {
+    throw new Error("登录会话已失效");
+  }
+
+  // 数据库账号以当前角色为准：角色变更、停用无需等待会话过期
+  if (user.adminUserId) {
+    const access = await getAdminUserAccess(user.adminUserId);
+    if (!access?.isActive) {
+      throw new Error("管理员账号已停用");
+    }
+    adminRole = access.role;
+  }
+
+  if (permission && !hasAdminPermission(adminRole, permission)) {
+    throw new Error("没有权限执行此操作");
+  }
+
   return {
     user: {
       id: user.id,
       role: "admin",
+      adminRole,
+      adminUserId: user.adminUserId,
+      adminSessionId: user.adminSessionId,
       name: user.name,
       email: user.email,
     },
@@ -1,22 +1,103 @@
-import NextAuth from "next-auth";
+import NextAuth, { CredentialsSignin } from "next-auth";
 import Credentials from "next-auth/providers/credentials";
 import { z } from "zod";
+import { parseAdminUsernames, type AdminRole } from "@/lib/admin-permissions";
 
 const loginSchema = z.object({
+  username: z.string().trim().optional(),
   password: z.string().min(1),
+  totpCode: z.string().trim().optional(),
 });
 
 /**
- * 获取管理员用户名白名单
- * 从环境变量 ADMIN_USERNAMES 读取，逗号分隔
- * 例如: ADMIN_USERNAMES="admin1,admin2,kong"
+ * 账号已启用两步验证但未提交验证码（密码已校验通过）
  */
-function getAdminUsernames(): string[] {
-  const adminUsernames = process.env.ADMIN_USERNAMES;
-  if (!adminUsernames) {
-    return [];
+export class TotpRequiredError extends CredentialsSignin {
+  code = "totp_required";
+}
+
+/**
+ * 两步验证码或恢复码错误
+ */
+export class TotpInvalidError extends CredentialsSignin {
+  code = "totp_invalid";
+}
+
+interface AdminLoginUser {
+  id: string;
+  email?: string;
+  name: string;
+  role: "admin";
+  adminRole: AdminRole;
+  adminUserId?: string;
+}
+
+/**
+ * 管理员账号密码校验
+ * - 填写用户名：校验 admin_users 中启用的账号（bcrypt），启用两步验证的账号还需校验 TOTP 或恢复码
+ * - 不填用户名：使用 ADMIN_PASSWORD 初始化登录，仅在没有启用中的 owner 账号时可用
+ *
+ * 账号校验模块（数据库、bcrypt、TOTP）只在登录时按需加载，middleware 等每个请求都会引入 auth 的入口不必加载它们
+ */
+async function authorizeAdmin(
+  username: string | undefined,
+  password: string,
+  totpCode: string | undefined
+): Promise<AdminLoginUser | null> {
+  const {
+    hasActiveOwner,
+    recordAdminLogin,
+    verifyAdminCredentials,
+    verifyAdminSecondFactor,
+    verifyBootstrapPassword,
+  } = await import("@/lib/admin-users");
+
+  if (username) {
+    const account = await verifyAdminCredentials(username, password);
+    if (!account) {
+      return null;
+    }
+    if (account.totpEnabled) {
+      if (!totpCode) {
+        throw new TotpRequiredError();
+      }
+      if (!(await verifyAdminSecondFactor(account.id, totpCode))) {
+        throw new TotpInvalidError();
+      }
+    }
+    await recordAdminLogin(account.id);
+    return {
+      id: account.id,
+      name: account.displayName || account.username,
+      role: "admin",
+      adminRole: account.role,
+      adminUserId: account.id,
+    };
+  }
+
+  const adminPassword = process.env.ADMIN_PASSWORD;
+  if (!adminPassword) {
+    console.error("ADMIN_PASSWORD 环境变量未设置");
+    return null;
   }
-  return adminUsernames.split(",").map((name) => name.trim()).filter(Boolean);
+
+  if (!verifyBootstrapPassword(password, adminPassword)) {
+    return null;
+  }
+
+  if (await hasActiveOwner()) {
+    console.warn("已存在 owner 账号，ADMIN_PASSWORD 登录已停用，请使用管理员账号登录");
+    return null;
+  }
+
+  // 初始化用的固定管理员
+  return {
+    id: "admin",
+    email: "admin@localhost",
+    name: "管理员",
+    role: "admin",
+    adminRole: "owner",
+  };
 }
 
 // Linux DO OAuth2 Provider 配置
@@ -85,11 +166,13 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
     ...(process.env.LINUXDO_CLIENT_ID && process.env.LINUXDO_CLIENT_SECRET
       ? [LinuxDoProvider]
       : []),
-    // 管理员密码登录
+    // 管理员账号登录
     Credentials({
       name: "credentials",
       credentials: {
+        username: { label: "用户名", type: "text" },
         password: { label: "密码", type: "password" },
+        totpCode: { label: "两步验证码", type: "text" },
       },
       async authorize(credentials) {
         const parsed = loginSchema.safeParse(credentials);
@@ -97,26 +180,11 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
           return null;
         }
 
-        const { password } = parsed.data;
-        const adminPassword = process.env.ADMIN_PASSWORD;
-
-        if (!adminPassword) {
-          console.error("ADMIN_PASSWORD 环境变量未设置");
-          return null;
-        }
-
-        // 直接比较密码（明文）
-        if (password !== adminPassword) {
-          return null;
-        }
-
-        // 返回固定的管理员用户
-        return {
-          id: "admin",
-          email: "admin@localhost",
-          name: "管理员",
-          role: "admin",
-        };
+        return authorizeAdmin(
+          parsed.data.username || undefined,
+          parsed.data.password,
+          parsed.data.totpCode || undefined
+        );
       },
     }),
   ],
@@ -134,6 +202,8 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
         token.id = stableUserId;
         token.sub = stableUserId;
         token.role = (user as { role?: string }).role;
+        token.adminRole = (user as { adminRole?: AdminRole }).adminRole;
+        token.adminUserId = (user as { adminUserId?: string }).adminUserId;
         
         // 保存 OAuth 用户的额外信息
         if (account?.provider === "linux-do") {
@@ -144,12 +214,26 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
           token.silenced = (user as { silenced?: boolean }).silenced;
           token.provider = "linux-do";
           
-          // 检查用户名是否在管理员白名单中
-          const adminUsernames = getAdminUsernames();
-          if (username && adminUsernames.includes(username)) {
+          // 检查用户名是否在管理员白名单中（可指定角色）
+          const adminRole = username
+            ? parseAdminUsernames(process.env.ADMIN_USERNAMES).get(username)
+            : undefined;
+          if (adminRole) {
             token.role = "admin";
+            token.adminRole = adminRole;
           }
         }
+
+        // 管理员登录时创建服务端会话记录，撤销后该 JWT 立即失效
+        if (token.role === "admin") {
+          const { createAdminSession } = await import("@/lib/admin-sessions");
+          token.adminSessionId = await createAdminSession({
+            actorId: String(stableUserId),
+            adminUserId: token.adminUserId as string | undefined,
+            actorName: user.name,
+            provider: account?.provider === "linux-do" ? "linux-do" : "credentials",
+          });
+        }
       }
       return token;
     },
@@ -158,6 +242,10 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
         // 使用 token.id 或 token.sub 作为用户 ID（确保兼容性）
         session.user.id = (token.id || token.sub) as string;
         (session.user as { role?: string }).role = token.role as string;
+        (session.user as { adminRole?: string }).adminRole = token.adminRole as string | undefined;
+        (session.user as { adminUserId?: string }).adminUserId = token.adminUserId as string | undefined;
+        (session.user as { adminSessionId?: string }).adminSessionId =
+          token.adminSessionId as string | undefined;
         // 传递 OAuth 用户信息到 session
         (session.user as { username?: string }).username = token.username as string;
         (session.user as { trustLevel?: number }).trustLevel = token.trustLevel as number;
@@ -168,6 +256,17 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
       return session;
     },
   },
+  events: {
+    // 退出登录时撤销管理员会话记录
+    async signOut(message) {
+      const token = "token" in message ? message.token : null;
+      const sessionId = token?.adminSessionId as string | undefined;
+      if (sessionId) {
+        const { revokeAdminSessions } = await import("@/lib/admin-sessions");
+        await revokeAdminSessions({ sessionId }, String(token?.id ?? token?.sub ?? ""));
+      }
+    },
+  },
   pages: {
     signIn: "/admin/login",
   },
@@ -0,0 +1,24 @@
+/**
+ * 响应后执行的后台任务
+ *
+ * 通知类副作用（库存预警、到货私信等）走外部网络，单个渠道可能等待数秒，
+ * 不能阻塞下单、支付回调与导入卡密的响应：在请求上下文中交给 next/server 的 after()，
+ * 响应发出后再执行；不在请求上下文时（脚本、单元测试）直接异步执行，不等待结果。
+ */
+
+import { after } from "next/server";
+
+import { logger } from "@/lib/logger";
+
+export function runAfterResponse(name: string, task: () => Promise<unknown>): void {
+  const run = () =>
+    task().catch((error) => {
+      logger.error({ err: error, task: name }, "后台任务执行失败");
+    });
+
+  try {
+    after(run);
+  } catch {
+    void run();
+  }
+}
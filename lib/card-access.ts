@@ -0,0 +1,66 @@
+/**
+ * 卡密查看记录（只追加）
+ * 展示卡密明文的位置调用 recordCardAccess；写入失败只记 pino 日志，不影响页面展示
+ */
+
+import { headers } from "next/headers";
+
+import { db, cardAccessEvents } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { getClientIP } from "@/lib/rate-limit";
+
+export const CARD_ACCESS_SOURCES = [
+  "order_my",
+  "order_result",
+  "admin_order_detail",
+  "admin_refund",
+  "admin_cards",
+  "admin_export",
+  "api",
+] as const;
+
+export type CardAccessSource = (typeof CARD_ACCESS_SOURCES)[number];
+
+export type CardAccessActorType = "buyer" | "admin";
+
+export interface CardAccessActor {
+  type: CardAccessActorType;
+  id: string;
+  name?: string | null;
+}
+
+const USER_AGENT_MAX_LENGTH = 500;
+
+export async function recordCardAccess(
+  revealed: { id: string; orderId: string | null }[],
+  actor: CardAccessActor,
+  source: CardAccessSource
+): Promise<void> {
+  if (revealed.length === 0) {
+    return;
+  }
+
+  try {
+    const requestHeaders = await headers();
+    const ipAddress = getClientIP(requestHeaders);
+    const userAgent = requestHeaders.get("user-agent")?.slice(0, USER_AGENT_MAX_LENGTH) ?? null;
+
+    await db.insert(cardAccessEvents).values(
+      revealed.map((card) => ({
+        cardId: card.id,
+        orderId: card.orderId,
+        source,
+        actorType: actor.type,
+        actorId: actor.id,
+        actorName: actor.name ?? null,
+        ipAddress: ipAddress === "unknown" ? null : ipAddress,
+        userAgent,
+      }))
+    );
+  } catch (error) {
+    logger.error(
+      { err: error, action: "recordCardAccess", source, actorId: actor.id, cardCount: revealed.length },
+      "写入卡密查看记录失败"
+    );
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * 卡密内容加密（信封加密）
+ *
+ * - 每条卡密生成独立的数据密钥（DEK），用 AES-256-GCM 加密卡密内容
+ * - DEK 再用环境变量中的主密钥（KEK）加密后与密文一起存入 cards.content
+ * - 密文格式：enc:v1:<主密钥指纹>:<加密后的 DEK>:<加密后的内容>（base64，均含 iv 与 tag）
+ * - 去重依赖 cards.content_hash（CARD_HASH_KEY 的 HMAC-SHA256），不随主密钥轮换而变化
+ *
+ * 未配置 CARD_ENCRYPTION_KEY 时按明文存储（兼容旧部署），历史明文可通过 pnpm db:rotate-card-key 加密
+ */
+
+import crypto from "node:crypto";
+
+import type { CardField } from "./card-import";
+
+const ENCRYPTED_PREFIX = "enc:v1:";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface CardKey {
+  id: string;
+  key: Buffer;
+}
+
+interface CardKeyring {
+  current: CardKey | null;
+  keys: Map<string, CardKey>;
+  hashKey: Buffer | null;
+}
+
+let cachedKeyring: { source: string; keyring: CardKeyring } | null = null;
+
+/** 支持 base64（openssl rand -base64 32）或 64 位 hex */
+function parseKey(value: string, name: string): Buffer {
+  const trimmed = value.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed)
+    ? Buffer.from(trimmed, "hex")
+    : Buffer.from(trimmed, "base64");
+  if (key.length !== 32) {
+    throw new Error(`${name} 必须是 32 字节的密钥（base64 或 hex）`);
+  }
+  return key;
+}
+
+function toCardKey(key: Buffer): CardKey {
+  const id = crypto.createHash("sha256").update(key).digest("hex").slice(0, 8);
+  return { id, key };
+}
+
+function getKeyring(): CardKeyring {
+  const currentValue = process.env.CARD_ENCRYPTION_KEY?.trim() || "";
+  const previousValue = process.env.CARD_ENCRYPTION_PREVIOUS_KEYS?.trim() || "";
+  const hashValue = process.env.CARD_HASH_KEY?.trim() || "";
+  const source = `${currentValue}|${previousValue}|${hashValue}`;
+  if (cachedKeyring?.source === source) {
+    return cachedKeyring.keyring;
+  }
+
+  const current = currentValue ? toCardKey(parseKey(currentValue, "CARD_ENCRYPTION_KEY")) : null;
+  const keys = new Map<string, CardKey>();
+  for (const value of previousValue.split(",").filter((item) => item.trim())) {
+    const key = toCardKey(parseKey(value, "CARD_ENCRYPTION_PREVIOUS_KEYS"));
+    keys.set(key.id, key);
+  }
+  if (current) {
+    keys.set(current.id, current);
+  }
+
+  // 启用加密后去重哈希必须带密钥，否则低熵卡密可被离线穷举
+  if (current && !hashValue) {
+    throw new Error("启用 CARD_ENCRYPTION_KEY 时必须同时配置 CARD_HASH_KEY");
+  }
+  const hashKey = hashValue ? parseKey(hashValue, "CARD_HASH_KEY") : null;
+
+  const keyring = { current, keys, hashKey };
+  cachedKeyring = { source, keyring };
+  return keyring;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]).toString("base64");
+}
+
+function unseal(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, "base64");
+  const iv = data.subarray(0, IV_LENGTH);
+  const tag = data.subarray(data.length - TAG_LENGTH);
+  const ciphertext = data.subarray(IV_LENGTH, data.length - TAG_LENGTH);
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+export function isCardEncryptionEnabled(): boolean {
+  return getKeyring().current !== null;
+}
+
+export function isEncryptedCardContent(stored: string): boolean {
+  return stored.startsWith(ENCRYPTED_PREFIX);
+}
+
+/** 是否已使用当前主密钥加密（密钥轮换脚本据此跳过无需处理的行） */
+export function isEncryptedWithCurrentKey(stored: string): boolean {
+  const { current } = getKeyring();
+  return current !== null && stored.startsWith(`${ENCRYPTED_PREFIX}${current.id}:`);
+}
+
+/**
+ * 加密卡密内容用于入库；未配置主密钥时原样返回
+ */
+export function encryptCardContent(plaintext: string): string {
+  const { current } = getKeyring();
+  if (!current) {
+    return plaintext;
+  }
+
+  const dataKey = crypto.randomBytes(32);
+  const wrappedKey = seal(current.key, dataKey);
+  const sealedContent = seal(dataKey, Buffer.from(plaintext, "utf8"));
+  return `${ENCRYPTED_PREFIX}${current.id}:${wrappedKey}:${sealedContent}`;
+}
+
+/** 密文使用的主密钥不在当前密钥环中（已从环境变量移除） */
+export class CardKeyMissingError extends Error {
+  constructor(readonly keyId: string) {
+    super(`缺少卡密主密钥 ${keyId}，请检查 CARD_ENCRYPTION_KEY / CARD_ENCRYPTION_PREVIOUS_KEYS`);
+    this.name = "CardKeyMissingError";
+  }
+}
+
+/**
+ * 解密卡密内容：仅用于发货后买家查看自己的订单与管理员视图
+ * 历史明文原样返回；找不到对应主密钥或密文被篡改时抛错
+ */
+export function decryptCardContent(stored: string): string {
+  if (!isEncryptedCardContent(stored)) {
+    return stored;
+  }
+
+  const [keyId, wrappedKey, sealedContent] = stored.slice(ENCRYPTED_PREFIX.length).split(":");
+  if (!keyId || !wrappedKey || !sealedContent) {
+    throw new Error("卡密密文格式无效");
+  }
+
+  const cardKey = getKeyring().keys.get(keyId);
+  if (!cardKey) {
+    throw new CardKeyMissingError(keyId);
+  }
+
+  const dataKey = unseal(cardKey.key, wrappedKey);
+  return unseal(dataKey, sealedContent).toString("utf8");
+}
+
+/**
+ * 管理员列表展示用的解密：单条卡密无法解密（主密钥已移除、轮换脚本处理失败的行）时返回占位文本，
+ * 由 onError 记录日志，不影响整个列表加载
+ */
+export function decryptCardContentForDisplay(
+  stored: string,
+  onError?: (error: unknown) => void
+): string {
+  try {
+    return decryptCardContent(stored);
+  } catch (error) {
+    onError?.(error);
+    return error instanceof CardKeyMissingError
+      ? `无法解密（缺少主密钥 ${error.keyId}）`
+      : "无法解密（密文无效）";
+  }
+}
+
+/**
+ * 卡密内容的去重哈希：配置 CARD_HASH_KEY 时为 HMAC-SHA256，否则为 SHA-256（与迁移回填口径一致）
+ */
+export function hashCardContent(plaintext: string): string {
+  const { hashKey } = getKeyring();
+  return hashKey
+    ? crypto.createHmac("sha256", hashKey).update(plaintext, "utf8").digest("hex")
+    : crypto.createHash("sha256").update(plaintext, "utf8").digest("hex");
+}
+
+/** 入库所需的卡密字段（密文 + 去重哈希） */
+export function sealCardContent(plaintext: string): { content: string; contentHash: string } {
+  return { content: encryptCardContent(plaintext), contentHash: hashCardContent(plaintext) };
+}
+
+/** 结构化字段与卡密内容同样加密入库 */
+export function encryptCardFields(fields: CardField[]): string {
+  return encryptCardContent(JSON.stringify(fields));
+}
+
+/** 解密结构化字段；纯文本卡密（fields 为空）返回 null */
+export function decryptCardFields(stored: string | null): CardField[] | null {
+  if (!stored) {
+    return null;
+  }
+  return JSON.parse(decryptCardContent(stored)) as CardField[];
+}
@@ -0,0 +1,40 @@
+/**
+ * 卡密有效期
+ *
+ * - 可售卡密 = 状态为 available 且未过期；出货与库存统计统一使用 sellableCardCondition，
+ *   这样定时任务标记之前，已过期的可用卡密也不会被锁定或计入库存
+ * - expireStaleCards 由 /api/cron/expire-cards 定时调用，把已过期的可用卡密标记为 expired
+ */
+
+import { and, eq, gt, isNull, lte, or, sql } from "drizzle-orm";
+
+import { db, cards } from "@/lib/db";
+
+// 仪表盘“即将过期”提醒的默认天数
+export const CARD_EXPIRING_SOON_DAYS = 7;
+
+export function sellableCardCondition() {
+  return and(
+    eq(cards.status, "available"),
+    or(isNull(cards.expiresAt), gt(cards.expiresAt, sql`now()`))
+  );
+}
+
+/** 出货顺序：先出最早过期的卡密，长期有效的排在最后 */
+export const sellableCardOrder = sql`${cards.expiresAt} ASC NULLS LAST, ${cards.createdAt} ASC`;
+
+/**
+ * 将已过期的可用卡密标记为 expired（已锁定/已售出的卡密不受影响）
+ */
+export async function expireStaleCards(): Promise<{ expired: number; productIds: string[] }> {
+  const rows = await db
+    .update(cards)
+    .set({ status: "expired" })
+    .where(and(eq(cards.status, "available"), lte(cards.expiresAt, sql`now()`)))
+    .returning({ productId: cards.productId });
+
+  return {
+    expired: rows.length,
+    productIds: [...new Set(rows.map((row) => row.productId))],
+  };
+}
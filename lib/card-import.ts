@@ -0,0 +1,267 @@
+/**
+ * 结构化卡密导入（CSV / JSON）
+ *
+ * 纯函数，导入弹窗的预览与服务端 importCards 共用同一套解析与校验，保证预览结果与实际导入一致。
+ * 每行按列映射拆成若干带标签的字段（如 账号 / 密码 / 辅助邮箱），可选一列作为卡密有效期。
+ */
+
+export interface CardField {
+  label: string;
+  value: string;
+}
+
+export type CardImportFormat = "csv" | "json";
+
+export type CardImportColumnTarget = "field" | "expiresAt" | "ignore";
+
+export interface CardImportColumn {
+  key: string;
+  target: CardImportColumnTarget;
+  label: string;
+}
+
+export interface CardImportRow {
+  row: number; // 数据行号（从 1 开始，不含表头）
+  fields: CardField[];
+  content: string; // 字段值拼接后的卡密内容，用于去重与“复制全部”
+  expiresAt: Date | null;
+  errors: string[];
+}
+
+/** 导入预览中单行的结果（服务端去重后返回给导入弹窗） */
+export interface CardImportPreviewRow {
+  row: number;
+  fields: CardField[];
+  expiresAt: string | null;
+  errors: string[];
+  skipReason: "duplicate_in_input" | "existing" | null;
+}
+
+export const CARD_FIELD_SEPARATOR = "----";
+export const CARD_CONTENT_MAX_LENGTH = 1000;
+export const CARD_IMPORT_MAX_ROWS = 5000;
+
+const EXPIRES_AT_COLUMN_NAMES = new Set([
+  "expiresat",
+  "expires_at",
+  "expires",
+  "expiry",
+  "expire",
+  "有效期",
+  "过期时间",
+  "到期时间",
+]);
+
+/**
+ * 解析 CSV（RFC 4180：双引号包裹、"" 转义、字段内可换行）
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // 忽略空行
+  return rows.filter((r) => r.some((value) => value.trim().length > 0));
+}
+
+/**
+ * 把上传内容读成“列名 + 记录”：CSV 首行为表头；JSON 为对象数组
+ */
+export function readCardImportTable(
+  text: string,
+  format: CardImportFormat
+): { ok: true; columns: string[]; records: Record<string, string>[] } | { ok: false; message: string } {
+  if (format === "csv") {
+    const [header, ...body] = parseCsv(text);
+    if (!header) {
+      return { ok: false, message: "CSV 内容为空" };
+    }
+
+    const columns = header.map((name) => name.trim());
+    if (columns.some((name) => !name)) {
+      return { ok: false, message: "CSV 表头存在空列名" };
+    }
+    if (new Set(columns).size !== columns.length) {
+      return { ok: false, message: "CSV 表头存在重复列名" };
+    }
+
+    const records = body.map((values) =>
+      Object.fromEntries(columns.map((name, index) => [name, values[index] ?? ""]))
+    );
+    return { ok: true, columns, records };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.replace(/^\uFEFF/, ""));
+  } catch {
+    return { ok: false, message: "JSON 格式错误" };
+  }
+
+  if (!Array.isArray(parsed)) {
+    return { ok: false, message: "JSON 必须是对象数组" };
+  }
+
+  const columns: string[] = [];
+  const records: Record<string, string>[] = [];
+  for (const [index, item] of parsed.entries()) {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      return { ok: false, message: `JSON 第 ${index + 1} 项不是对象` };
+    }
+
+    const record: Record<string, string> = {};
+    for (const [key, value] of Object.entries(item as Record<string, unknown>)) {
+      if (value !== null && typeof value === "object") {
+        return { ok: false, message: `JSON 第 ${index + 1} 项的 ${key} 不能是嵌套对象` };
+      }
+      if (!columns.includes(key)) {
+        columns.push(key);
+      }
+      record[key] = value === null || value === undefined ? "" : String(value);
+    }
+    records.push(record);
+  }
+
+  return { ok: true, columns, records };
+}
+
+/**
+ * 默认列映射：名为 有效期/expiresAt 等的列识别为有效期，其余列作为字段，标签沿用列名
+ */
+export function defaultCardImportColumns(columns: string[]): CardImportColumn[] {
+  let hasExpiresAt = false;
+  return columns.map((key) => {
+    if (!hasExpiresAt && EXPIRES_AT_COLUMN_NAMES.has(key.trim().toLowerCase())) {
+      hasExpiresAt = true;
+      return { key, target: "expiresAt", label: key };
+    }
+    return { key, target: "field", label: key };
+  });
+}
+
+/**
+ * 解析有效期：支持 YYYY-MM-DD（当天 23:59:59 UTC）、YYYY-MM-DD HH:mm[:ss]（UTC）与带时区的 ISO 时间
+ */
+export function parseCardExpiresAt(value: string): Date | null {
+  const trimmed = value.trim();
+
+  const dateOnly = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(trimmed);
+  if (dateOnly) {
+    const [, year, month, day] = dateOnly.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day, 23, 59, 59, 999));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+  }
+
+  const withoutZone = /^\d{4}-\d{1,2}-\d{1,2}[ T]\d{1,2}:\d{2}(:\d{2})?$/.test(trimmed);
+  const date = new Date(withoutZone ? `${trimmed.replace(" ", "T")}Z` : trimmed);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function joinCardFieldValues(fields: CardField[]): string {
+  return fields.map((field) => field.value).join(CARD_FIELD_SEPARATOR);
+}
+
+/**
+ * 按列映射生成待导入的卡密，并逐行校验
+ */
+export function buildCardImportRows(
+  records: Record<string, string>[],
+  columns: CardImportColumn[],
+  now: Date = new Date()
+): CardImportRow[] {
+  const fieldColumns = columns.filter((column) => column.target === "field");
+  const expiresAtColumn = columns.find((column) => column.target === "expiresAt");
+
+  return records.map((record, index) => {
+    const errors: string[] = [];
+    const fields = fieldColumns.map((column) => ({
+      label: column.label.trim() || column.key,
+      value: (record[column.key] ?? "").trim(),
+    }));
+
+    for (const field of fields) {
+      if (!field.value) {
+        errors.push(`${field.label} 为空`);
+      }
+    }
+
+    let expiresAt: Date | null = null;
+    const rawExpiresAt = expiresAtColumn ? (record[expiresAtColumn.key] ?? "").trim() : "";
+    if (rawExpiresAt) {
+      expiresAt = parseCardExpiresAt(rawExpiresAt);
+      if (!expiresAt) {
+        errors.push(`有效期格式无效：${rawExpiresAt}`);
+      } else if (expiresAt.getTime() <= now.getTime()) {
+        errors.push("卡密已过期");
+      }
+    }
+
+    const content = joinCardFieldValues(fields);
+    if (content.length > CARD_CONTENT_MAX_LENGTH) {
+      errors.push("卡密内容过长");
+    }
+
+    return { row: index + 1, fields, content, expiresAt, errors };
+  });
+}
+
+/**
+ * 校验列映射本身（与具体行无关的错误）
+ */
+export function validateCardImportColumns(columns: CardImportColumn[]): string | null {
+  const fieldColumns = columns.filter((column) => column.target === "field");
+  if (fieldColumns.length === 0) {
+    return "请至少映射一列卡密字段";
+  }
+  if (columns.filter((column) => column.target === "expiresAt").length > 1) {
+    return "有效期只能映射一列";
+  }
+
+  const labels = fieldColumns.map((column) => column.label.trim() || column.key);
+  if (new Set(labels).size !== labels.length) {
+    return "字段名称不能重复";
+  }
+  return null;
+}
@@ -0,0 +1,67 @@
+/**
+ * 优惠码数据库侧校验（查询优惠码 + 统计已使用次数）
+ * 计算规则见 lib/coupon.ts
+ */
+
+import { db, coupons, orders } from "@/lib/db";
+import { and, eq, ne, sql } from "drizzle-orm";
+import { evaluateCoupon, normalizeCouponCode, type CouponLine } from "@/lib/coupon";
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type CouponResolution =
+  | { ok: true; couponId: string; code: string; discountCents: number }
+  | { ok: false; message: string };
+
+/**
+ * 根据优惠码计算本次下单的优惠金额
+ *
+ * @param options.forUpdate 在下单事务中传 true：锁定优惠码行，
+ *   使同一优惠码的并发下单串行化，保证总次数/单用户次数上限不会被超卖
+ */
+export async function resolveCouponForOrder(
+  executor: DbExecutor,
+  input: { code: string; userId: string; lines: CouponLine[] },
+  options: { forUpdate?: boolean } = {}
+): Promise<CouponResolution> {
+  const code = normalizeCouponCode(input.code);
+  if (!code) {
+    return { ok: false, message: "请输入优惠码" };
+  }
+
+  const query = executor
+    .select()
+    .from(coupons)
+    .where(eq(coupons.code, code))
+    .limit(1);
+  const [coupon] = options.forUpdate ? await query.for("update") : await query;
+
+  if (!coupon) {
+    return { ok: false, message: "优惠码不存在" };
+  }
+
+  // 过期未支付的订单不占用次数，其余状态（含已退款）均计入
+  const [usage] = await executor
+    .select({
+      totalUses: sql<number>`count(*)::int`,
+      userUses: sql<number>`count(*) FILTER (WHERE ${orders.userId} = ${input.userId})::int`,
+    })
+    .from(orders)
+    .where(and(eq(orders.couponId, coupon.id), ne(orders.status, "expired")));
+
+  const evaluation = evaluateCoupon(coupon, input.lines, {
+    totalUses: usage?.totalUses ?? 0,
+    userUses: usage?.userUses ?? 0,
+  });
+
+  if (!evaluation.ok) {
+    return evaluation;
+  }
+
+  return {
+    ok: true,
+    couponId: coupon.id,
+    code: coupon.code,
+    discountCents: evaluation.discountCents,
+  };
+}
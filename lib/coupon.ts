@@ -0,0 +1,99 @@
+import type { CouponDiscountType } from "@/lib/db";
+
+/**
+ * 优惠码计算（纯函数，不依赖数据库，便于在下单事务与预览中复用）
+ *
+ * 金额统一以"分"为单位计算，避免浮点误差。
+ */
+
+export interface CouponRule {
+  discountType: CouponDiscountType;
+  discountValue: string;
+  productId: string | null;
+  categoryId: string | null;
+  minAmount: string;
+  maxUses: number | null;
+  maxUsesPerUser: number | null;
+  expiresAt: Date | null;
+  isActive: boolean;
+}
+
+export interface CouponLine {
+  productId: string;
+  categoryId: string | null;
+  subtotalCents: number;
+}
+
+export interface CouponUsage {
+  totalUses: number;
+  userUses: number;
+}
+
+export type CouponEvaluation =
+  | { ok: true; discountCents: number }
+  | { ok: false; message: string };
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function toCents(amount: string | number): number {
+  return Math.round(Number(amount) * 100);
+}
+
+function isLineEligible(coupon: CouponRule, line: CouponLine): boolean {
+  if (coupon.productId) return line.productId === coupon.productId;
+  if (coupon.categoryId) return line.categoryId === coupon.categoryId;
+  return true;
+}
+
+/**
+ * 校验优惠码并计算优惠金额
+ * - 最低消费按"适用商品"的小计判断，而不是整单金额，避免用其他商品凑单
+ * - 支付平台不支持 0 元订单，优惠后至少保留 0.01
+ */
+export function evaluateCoupon(
+  coupon: CouponRule,
+  lines: CouponLine[],
+  usage: CouponUsage,
+  now: Date = new Date()
+): CouponEvaluation {
+  if (!coupon.isActive) {
+    return { ok: false, message: "优惠码已停用" };
+  }
+
+  if (coupon.expiresAt && coupon.expiresAt.getTime() <= now.getTime()) {
+    return { ok: false, message: "优惠码已过期" };
+  }
+
+  if (coupon.maxUses !== null && usage.totalUses >= coupon.maxUses) {
+    return { ok: false, message: "优惠码已被领完" };
+  }
+
+  if (coupon.maxUsesPerUser !== null && usage.userUses >= coupon.maxUsesPerUser) {
+    return { ok: false, message: "您已达到该优惠码的使用次数上限" };
+  }
+
+  const eligibleCents = lines
+    .filter((line) => isLineEligible(coupon, line))
+    .reduce((sum, line) => sum + line.subtotalCents, 0);
+
+  if (eligibleCents <= 0) {
+    return { ok: false, message: "优惠码不适用于所选商品" };
+  }
+
+  const minCents = toCents(coupon.minAmount);
+  if (eligibleCents < minCents) {
+    return { ok: false, message: `未达到优惠码最低消费 ${coupon.minAmount} LDC` };
+  }
+
+  const rawDiscount =
+    coupon.discountType === "percent"
+      ? Math.floor((eligibleCents * Number(coupon.discountValue)) / 100)
+      : Math.min(toCents(coupon.discountValue), eligibleCents);
+
+  const totalCents = lines.reduce((sum, line) => sum + line.subtotalCents, 0);
+  const discountCents = Math.max(0, Math.min(rawDiscount, totalCents - 1));
+
+  return { ok: true, discountCents };
+}
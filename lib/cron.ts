@@ -0,0 +1,15 @@
+/**
+ * 定时任务鉴权：Authorization: Bearer ${CRON_SECRET}（与 Vercel Cron 约定一致），未配置 CRON_SECRET 时拒绝访问
+ */
+
+import crypto from "node:crypto";
+import type { NextRequest } from "next/server";
+
+export function isCronAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(request.headers.get("authorization") || "");
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
@@ -0,0 +1,55 @@
+-- 购物车 + 订单明细：支持多个商品合并结算
+-- order_items 记录订单内每个商品的单价/数量/小计；历史单商品订单按原字段回填一行明细
+
+CREATE TABLE IF NOT EXISTS "order_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" uuid NOT NULL,
+	"product_id" uuid,
+	"product_name" text NOT NULL,
+	"product_price" numeric(10, 2) NOT NULL,
+	"quantity" integer NOT NULL,
+	"subtotal" numeric(10, 2) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "order_items"
+	ADD CONSTRAINT "order_items_order_id_orders_id_fk"
+	FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id")
+	ON DELETE cascade ON UPDATE no action;
+
+ALTER TABLE "order_items"
+	ADD CONSTRAINT "order_items_product_id_products_id_fk"
+	FOREIGN KEY ("product_id") REFERENCES "public"."products"("id")
+	ON DELETE set null ON UPDATE no action;
+
+CREATE INDEX IF NOT EXISTS "order_items_order_id_idx"
+	ON "order_items" USING btree ("order_id");
+
+CREATE INDEX IF NOT EXISTS "order_items_product_id_idx"
+	ON "order_items" USING btree ("product_id");
+
+-- 回填历史订单明细（每笔旧订单对应一行）
+INSERT INTO "order_items" ("order_id", "product_id", "product_name", "product_price", "quantity", "subtotal", "created_at")
+SELECT o."id", o."product_id", o."product_name", o."product_price", o."quantity", o."total_amount", o."created_at"
+FROM "orders" o
+WHERE NOT EXISTS (SELECT 1 FROM "order_items" oi WHERE oi."order_id" = o."id");
+
+CREATE TABLE IF NOT EXISTS "cart_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"product_id" uuid NOT NULL,
+	"quantity" integer NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "cart_items"
+	ADD CONSTRAINT "cart_items_product_id_products_id_fk"
+	FOREIGN KEY ("product_id") REFERENCES "public"."products"("id")
+	ON DELETE cascade ON UPDATE no action;
+
+CREATE INDEX IF NOT EXISTS "cart_items_user_id_idx"
+	ON "cart_items" USING btree ("user_id");
+
+CREATE UNIQUE INDEX IF NOT EXISTS "cart_items_user_product_idx"
+	ON "cart_items" USING btree ("user_id","product_id");
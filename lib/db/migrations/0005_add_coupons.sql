@@ -0,0 +1,51 @@
+-- 优惠码：支持百分比/固定金额、按商品或分类限定范围、最低消费、有效期、总次数与单用户次数限制
+-- 订单上记录所用优惠码与优惠金额快照（total_amount 为优惠后实付金额）
+
+DO $$ BEGIN
+	CREATE TYPE "public"."coupon_discount_type" AS ENUM('percent', 'fixed');
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "coupons" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"code" text NOT NULL,
+	"description" text,
+	"discount_type" "coupon_discount_type" NOT NULL,
+	"discount_value" numeric(10, 2) NOT NULL,
+	"product_id" uuid,
+	"category_id" uuid,
+	"min_amount" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"max_uses" integer,
+	"max_uses_per_user" integer,
+	"expires_at" timestamp with time zone,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "coupons_code_unique" UNIQUE("code")
+);
+
+ALTER TABLE "coupons"
+	ADD CONSTRAINT "coupons_product_id_products_id_fk"
+	FOREIGN KEY ("product_id") REFERENCES "public"."products"("id")
+	ON DELETE cascade ON UPDATE no action;
+
+ALTER TABLE "coupons"
+	ADD CONSTRAINT "coupons_category_id_categories_id_fk"
+	FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id")
+	ON DELETE cascade ON UPDATE no action;
+
+CREATE INDEX IF NOT EXISTS "coupons_is_active_idx"
+	ON "coupons" USING btree ("is_active");
+
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "coupon_id" uuid;
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "coupon_code" text;
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "discount_amount" numeric(10, 2) DEFAULT '0' NOT NULL;
+
+ALTER TABLE "orders"
+	ADD CONSTRAINT "orders_coupon_id_coupons_id_fk"
+	FOREIGN KEY ("coupon_id") REFERENCES "public"."coupons"("id")
+	ON DELETE set null ON UPDATE no action;
+
+CREATE INDEX IF NOT EXISTS "orders_coupon_id_idx"
+	ON "orders" USING btree ("coupon_id");
@@ -0,0 +1,4 @@
+-- 商品阶梯价：[{ "minQuantity": 5, "price": "9.00" }, ...]，按 minQuantity 升序存储
+-- 下单时按购买数量选中的档位单价写入 orders.product_price / order_items.product_price
+
+ALTER TABLE "products" ADD COLUMN IF NOT EXISTS "price_tiers" jsonb DEFAULT '[]'::jsonb NOT NULL;
@@ -0,0 +1,57 @@
+-- 商品规格：同一商品下的不同版本（如月卡/年卡）各自定价、限购，并拥有独立的卡密库存
+-- cards / cart_items / orders / order_items 增加 variant_id；为空表示商品未启用规格（兼容历史数据）
+
+CREATE TABLE IF NOT EXISTS "product_variants" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"price" numeric(10, 2) NOT NULL,
+	"min_quantity" integer DEFAULT 1 NOT NULL,
+	"max_quantity" integer DEFAULT 10 NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "product_variants"
+	ADD CONSTRAINT "product_variants_product_id_products_id_fk"
+	FOREIGN KEY ("product_id") REFERENCES "public"."products"("id")
+	ON DELETE cascade ON UPDATE no action;
+
+CREATE INDEX IF NOT EXISTS "product_variants_product_id_idx"
+	ON "product_variants" USING btree ("product_id");
+
+ALTER TABLE "cards" ADD COLUMN IF NOT EXISTS "variant_id" uuid;
+ALTER TABLE "cards"
+	ADD CONSTRAINT "cards_variant_id_product_variants_id_fk"
+	FOREIGN KEY ("variant_id") REFERENCES "public"."product_variants"("id")
+	ON DELETE cascade ON UPDATE no action;
+CREATE INDEX IF NOT EXISTS "cards_variant_id_idx" ON "cards" USING btree ("variant_id");
+
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "variant_id" uuid;
+ALTER TABLE "orders"
+	ADD CONSTRAINT "orders_variant_id_product_variants_id_fk"
+	FOREIGN KEY ("variant_id") REFERENCES "public"."product_variants"("id")
+	ON DELETE set null ON UPDATE no action;
+
+ALTER TABLE "order_items" ADD COLUMN IF NOT EXISTS "variant_id" uuid;
+ALTER TABLE "order_items"
+	ADD CONSTRAINT "order_items_variant_id_product_variants_id_fk"
+	FOREIGN KEY ("variant_id") REFERENCES "public"."product_variants"("id")
+	ON DELETE set null ON UPDATE no action;
+
+-- 购物车按「用户 + 商品 + 规格」唯一；variant_id 可为空，拆成两个部分唯一索引
+ALTER TABLE "cart_items" ADD COLUMN IF NOT EXISTS "variant_id" uuid;
+ALTER TABLE "cart_items"
+	ADD CONSTRAINT "cart_items_variant_id_product_variants_id_fk"
+	FOREIGN KEY ("variant_id") REFERENCES "public"."product_variants"("id")
+	ON DELETE cascade ON UPDATE no action;
+
+DROP INDEX IF EXISTS "cart_items_user_product_idx";
+CREATE UNIQUE INDEX IF NOT EXISTS "cart_items_user_product_idx"
+	ON "cart_items" USING btree ("user_id", "product_id")
+	WHERE "variant_id" IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS "cart_items_user_variant_idx"
+	ON "cart_items" USING btree ("user_id", "product_id", "variant_id")
+	WHERE "variant_id" IS NOT NULL;
@@ -0,0 +1,42 @@
+-- 支付回调日志：持久化每一次回调（含验签结果、金额校验、订单状态变化），供后台排查与重放
+-- 只追加：通过触发器禁止 UPDATE / DELETE，重放会写入新记录并以 replay_of_id 关联原始回调
+
+CREATE TABLE IF NOT EXISTS "payment_notify_logs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"payment_method" "payment_method" NOT NULL,
+	"route" text NOT NULL,
+	"request_id" text,
+	"params" jsonb NOT NULL,
+	"verified" boolean NOT NULL,
+	"order_no" text,
+	"trade_no" text,
+	"money" text,
+	"trade_paid" boolean,
+	"amount_check" text,
+	"order_status_before" text,
+	"order_status_after" text,
+	"outcome" text NOT NULL,
+	"http_status" integer NOT NULL,
+	"message" text NOT NULL,
+	"replay_of_id" uuid,
+	"replayed_by" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "payment_notify_logs_order_no_idx"
+	ON "payment_notify_logs" USING btree ("order_no");
+CREATE INDEX IF NOT EXISTS "payment_notify_logs_created_at_idx"
+	ON "payment_notify_logs" USING btree ("created_at");
+CREATE INDEX IF NOT EXISTS "payment_notify_logs_replay_of_id_idx"
+	ON "payment_notify_logs" USING btree ("replay_of_id");
+
+CREATE OR REPLACE FUNCTION "payment_notify_logs_immutable"() RETURNS trigger AS $$
+BEGIN
+	RAISE EXCEPTION 'payment_notify_logs is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "payment_notify_logs_immutable" ON "payment_notify_logs";
+CREATE TRIGGER "payment_notify_logs_immutable"
+	BEFORE UPDATE OR DELETE ON "payment_notify_logs"
+	FOR EACH ROW EXECUTE FUNCTION "payment_notify_logs_immutable"();
@@ -0,0 +1,29 @@
+-- 部分退款：管理员可按卡密选择退款，按比例计算退款金额
+-- 新增订单状态 partially_refunded、订单累计退款金额，以及逐次退款记录 order_refunds
+
+ALTER TYPE "order_status" ADD VALUE IF NOT EXISTS 'partially_refunded';
+
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "refunded_amount" numeric(10, 2) DEFAULT '0' NOT NULL;
+
+-- 历史全额退款订单：累计退款金额即订单实付金额
+UPDATE "orders" SET "refunded_amount" = "total_amount" WHERE "status" = 'refunded';
+
+CREATE TABLE IF NOT EXISTS "order_refunds" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" uuid NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"card_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"card_count" integer NOT NULL,
+	"reason" text,
+	"remark" text,
+	"operator" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "order_refunds"
+	ADD CONSTRAINT "order_refunds_order_id_orders_id_fk"
+	FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id")
+	ON DELETE cascade ON UPDATE no action;
+
+CREATE INDEX IF NOT EXISTS "order_refunds_order_id_idx"
+	ON "order_refunds" USING btree ("order_id");
@@ -0,0 +1,13 @@
+-- 退款卡密处置：卡密内容已对买家可见，退款后不再无条件放回可用库存
+-- 新增卡密状态 void / quarantined，以及商品级的退款卡密处理策略（默认隔离）
+
+ALTER TYPE "card_status" ADD VALUE IF NOT EXISTS 'void';
+ALTER TYPE "card_status" ADD VALUE IF NOT EXISTS 'quarantined';
+
+DO $$ BEGIN
+	CREATE TYPE "public"."refund_card_policy" AS ENUM('recycle', 'void', 'quarantine');
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE "products" ADD COLUMN IF NOT EXISTS "refund_card_policy" "refund_card_policy" DEFAULT 'quarantine' NOT NULL;
@@ -0,0 +1,14 @@
+-- 卡密内容加密：加密后无法再按 content 去重，新增去重哈希列 content_hash
+-- 历史数据按 SHA-256 回填（与未配置 CARD_HASH_KEY 时的应用口径一致）；
+-- 启用加密后运行 pnpm db:rotate-card-key 加密历史卡密并改用 HMAC 重算哈希
+
+ALTER TABLE "cards" ADD COLUMN IF NOT EXISTS "content_hash" text;
+
+UPDATE "cards"
+SET "content_hash" = encode(sha256(convert_to("content", 'UTF8')), 'hex')
+WHERE "content_hash" IS NULL;
+
+ALTER TABLE "cards" ALTER COLUMN "content_hash" SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS "cards_product_content_hash_idx"
+	ON "cards" USING btree ("product_id", "content_hash");
@@ -0,0 +1,33 @@
+-- 卡密查看记录：每次向买家或管理员展示卡密明文时写入一条，用于处理“未收到卡密”类纠纷
+-- 只追加：通过触发器禁止 UPDATE / DELETE；不设外键，卡密或订单删除后记录仍保留
+
+CREATE TABLE IF NOT EXISTS "card_access_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"card_id" uuid NOT NULL,
+	"order_id" uuid,
+	"source" text NOT NULL,
+	"actor_type" text NOT NULL,
+	"actor_id" text,
+	"actor_name" text,
+	"ip_address" text,
+	"user_agent" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "card_access_events_order_id_idx"
+	ON "card_access_events" USING btree ("order_id");
+CREATE INDEX IF NOT EXISTS "card_access_events_card_id_idx"
+	ON "card_access_events" USING btree ("card_id");
+CREATE INDEX IF NOT EXISTS "card_access_events_created_at_idx"
+	ON "card_access_events" USING btree ("created_at");
+
+CREATE OR REPLACE FUNCTION "card_access_events_immutable"() RETURNS trigger AS $$
+BEGIN
+	RAISE EXCEPTION 'card_access_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "card_access_events_immutable" ON "card_access_events";
+CREATE TRIGGER "card_access_events_immutable"
+	BEFORE UPDATE OR DELETE ON "card_access_events"
+	FOR EACH ROW EXECUTE FUNCTION "card_access_events_immutable"();
@@ -0,0 +1,5 @@
+-- 结构化卡密导入：fields 保存加密后的字段 JSON（账号 / 密码 / 辅助邮箱等），content 仍为字段值拼接，用于去重与复制
+-- expires_at 为单张卡密的有效期，为空表示长期有效
+
+ALTER TABLE "cards" ADD COLUMN IF NOT EXISTS "fields" text;
+ALTER TABLE "cards" ADD COLUMN IF NOT EXISTS "expires_at" timestamp with time zone;
@@ -0,0 +1,6 @@
+-- 卡密有效期：超过 expires_at 的可用卡密由定时任务标记为 expired，不再参与出货与库存统计
+
+ALTER TYPE "card_status" ADD VALUE IF NOT EXISTS 'expired';
+
+CREATE INDEX IF NOT EXISTS "cards_expires_at_idx"
+	ON "cards" USING btree ("expires_at");
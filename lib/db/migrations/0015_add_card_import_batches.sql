@@ -0,0 +1,40 @@
+-- 卡密导入批次：记录每次导入的操作人、来源备注、供应商与进货单价
+-- cards 增加 batch_id；为空表示单条新增或历史数据
+
+CREATE TABLE IF NOT EXISTS "card_import_batches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" uuid NOT NULL,
+	"variant_id" uuid,
+	"format" text NOT NULL,
+	"supplier_name" text,
+	"source_note" text,
+	"unit_cost" numeric(10, 2),
+	"imported_count" integer NOT NULL,
+	"operator_id" text,
+	"operator_name" text,
+	"revoked_count" integer DEFAULT 0 NOT NULL,
+	"revoked_at" timestamp with time zone,
+	"revoked_by" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "card_import_batches"
+	ADD CONSTRAINT "card_import_batches_product_id_products_id_fk"
+	FOREIGN KEY ("product_id") REFERENCES "public"."products"("id")
+	ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "card_import_batches"
+	ADD CONSTRAINT "card_import_batches_variant_id_product_variants_id_fk"
+	FOREIGN KEY ("variant_id") REFERENCES "public"."product_variants"("id")
+	ON DELETE cascade ON UPDATE no action;
+
+CREATE INDEX IF NOT EXISTS "card_import_batches_product_id_idx"
+	ON "card_import_batches" USING btree ("product_id");
+CREATE INDEX IF NOT EXISTS "card_import_batches_created_at_idx"
+	ON "card_import_batches" USING btree ("created_at");
+
+ALTER TABLE "cards" ADD COLUMN IF NOT EXISTS "batch_id" uuid;
+ALTER TABLE "cards"
+	ADD CONSTRAINT "cards_batch_id_card_import_batches_id_fk"
+	FOREIGN KEY ("batch_id") REFERENCES "public"."card_import_batches"("id")
+	ON DELETE set null ON UPDATE no action;
+CREATE INDEX IF NOT EXISTS "cards_batch_id_idx" ON "cards" USING btree ("batch_id");
@@ -0,0 +1,4 @@
+-- 库存预警：商品级预警阈值（0 为关闭），以及已发出预警的时间（用于去重，库存恢复后清空）
+
+ALTER TABLE "products" ADD COLUMN IF NOT EXISTS "low_stock_threshold" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "products" ADD COLUMN IF NOT EXISTS "low_stock_alerted_at" timestamp with time zone;
@@ -0,0 +1,6 @@
+-- 到货通知：记录催补货请求的通知时间，已通知的请求视为归档
+
+ALTER TABLE "restock_requests" ADD COLUMN IF NOT EXISTS "notified_at" timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS "restock_requests_notified_at_idx"
+	ON "restock_requests" USING btree ("notified_at");
@@ -0,0 +1,21 @@
+-- 后台管理员账号：bcrypt 密码与角色（owner / operator / support / finance）
+-- ADMIN_PASSWORD 仅在没有启用中的 owner 账号时可用于初始化登录
+
+DO $$ BEGIN
+	CREATE TYPE "public"."admin_role" AS ENUM('owner', 'operator', 'support', 'finance');
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "admin_users" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"display_name" text,
+	"password_hash" text NOT NULL,
+	"role" "admin_role" DEFAULT 'support' NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"last_login_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "admin_users_username_unique" UNIQUE("username")
+);
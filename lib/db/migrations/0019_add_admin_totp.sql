@@ -0,0 +1,6 @@
+-- 管理员账号 TOTP 两步验证：密钥、启用时间、防重放时间步与恢复码哈希
+
+ALTER TABLE "admin_users" ADD COLUMN IF NOT EXISTS "totp_secret" text;
+ALTER TABLE "admin_users" ADD COLUMN IF NOT EXISTS "totp_enabled_at" timestamp with time zone;
+ALTER TABLE "admin_users" ADD COLUMN IF NOT EXISTS "totp_last_used_step" integer;
+ALTER TABLE "admin_users" ADD COLUMN IF NOT EXISTS "totp_recovery_codes" jsonb DEFAULT '[]'::jsonb NOT NULL;
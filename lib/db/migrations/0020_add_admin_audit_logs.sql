@@ -0,0 +1,35 @@
+-- 后台操作审计：记录管理员、操作、对象、变更前后字段与 requestId
+-- 只追加：触发器禁止修改或删除已有记录
+
+CREATE TABLE IF NOT EXISTS "admin_audit_logs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"actor_id" text NOT NULL,
+	"actor_name" text,
+	"actor_role" "admin_role",
+	"action" text NOT NULL,
+	"entity_type" text NOT NULL,
+	"entity_id" text,
+	"before" jsonb,
+	"after" jsonb,
+	"request_id" text,
+	"ip_address" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "admin_audit_logs_created_at_idx"
+	ON "admin_audit_logs" USING btree ("created_at");
+CREATE INDEX IF NOT EXISTS "admin_audit_logs_actor_id_idx"
+	ON "admin_audit_logs" USING btree ("actor_id");
+CREATE INDEX IF NOT EXISTS "admin_audit_logs_entity_idx"
+	ON "admin_audit_logs" USING btree ("entity_type", "entity_id");
+
+CREATE OR REPLACE FUNCTION "admin_audit_logs_append_only"() RETURNS trigger AS $$
+BEGIN
+	RAISE EXCEPTION 'admin_audit_logs is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "admin_audit_logs_append_only" ON "admin_audit_logs";
+CREATE TRIGGER "admin_audit_logs_append_only"
+	BEFORE UPDATE OR DELETE ON "admin_audit_logs"
+	FOR EACH ROW EXECUTE FUNCTION "admin_audit_logs_append_only"();
@@ -0,0 +1,28 @@
+-- 管理员登录会话：登录时创建，会话 ID 写入 JWT，撤销后立即失效
+-- 升级前签发的管理员 JWT 没有会话 ID，升级后需要重新登录
+
+CREATE TABLE IF NOT EXISTS "admin_sessions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"actor_id" text NOT NULL,
+	"admin_user_id" uuid,
+	"actor_name" text,
+	"provider" text NOT NULL,
+	"ip_address" text,
+	"user_agent" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"revoked_at" timestamp with time zone,
+	"revoked_by" text
+);
+
+DO $$ BEGIN
+	ALTER TABLE "admin_sessions" ADD CONSTRAINT "admin_sessions_admin_user_id_admin_users_id_fk"
+		FOREIGN KEY ("admin_user_id") REFERENCES "public"."admin_users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "admin_sessions_actor_id_idx"
+	ON "admin_sessions" USING btree ("actor_id");
+CREATE INDEX IF NOT EXISTS "admin_sessions_last_seen_at_idx"
+	ON "admin_sessions" USING btree ("last_seen_at");
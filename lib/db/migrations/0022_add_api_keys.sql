@@ -0,0 +1,20 @@
+-- 开放 API 密钥：SHA-256 哈希、权限范围、绑定的 Linux DO 用户与每分钟限流
+
+CREATE TABLE IF NOT EXISTS "api_keys" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"key_prefix" text NOT NULL,
+	"key_hash" text NOT NULL,
+	"scopes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"user_id" text NOT NULL,
+	"username" text,
+	"rate_limit_per_minute" integer DEFAULT 60 NOT NULL,
+	"last_used_at" timestamp with time zone,
+	"revoked_at" timestamp with time zone,
+	"created_by" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "api_keys_key_hash_unique" UNIQUE("key_hash")
+);
+
+CREATE INDEX IF NOT EXISTS "api_keys_user_id_idx"
+	ON "api_keys" USING btree ("user_id");
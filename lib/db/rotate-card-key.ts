@@ -0,0 +1,124 @@
+/**
+ * 卡密主密钥轮换脚本
+ *
+ * 用法：
+ * 1. 生成新主密钥（openssl rand -base64 32），设为 CARD_ENCRYPTION_KEY
+ * 2. 旧主密钥移入 CARD_ENCRYPTION_PREVIOUS_KEYS（逗号分隔），保证轮换期间线上仍可解密
+ * 3. 运行本脚本：逐行解密并用新主密钥重新加密，同时按 CARD_HASH_KEY 重算去重哈希
+ * 4. 确认输出无失败后，从 CARD_ENCRYPTION_PREVIOUS_KEYS 移除旧主密钥
+ *
+ * 首次启用加密时同样运行本脚本，把历史明文卡密加密入库。
+ * 默认跳过已使用当前主密钥加密的行；更换 CARD_HASH_KEY 后需加 --all 重算全部哈希。
+ *
+ * 运行: pnpm db:rotate-card-key [--all] [--dry-run]
+ */
+
+import postgres from "postgres";
+
+import {
+  decryptCardContent,
+  encryptCardContent,
+  isCardEncryptionEnabled,
+  isEncryptedWithCurrentKey,
+  sealCardContent,
+} from "../card-crypto";
+
+const BATCH_SIZE = 500;
+
+type CardRow = { id: string; content: string; fields: string | null };
+
+async function rotate() {
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    console.error("❌ DATABASE_URL 环境变量未设置");
+    process.exit(1);
+  }
+
+  if (!isCardEncryptionEnabled()) {
+    console.error("❌ CARD_ENCRYPTION_KEY 环境变量未设置");
+    process.exit(1);
+  }
+
+  const args = new Set(process.argv.slice(2));
+  const rotateAll = args.has("--all");
+  const dryRun = args.has("--dry-run");
+
+  const sql = postgres(connectionString, { max: 1 });
+  let lastId: string | null = null;
+  let rotated = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  console.log(`🔐 开始轮换卡密加密${rotateAll ? "（全部重算）" : ""}${dryRun ? "（dry-run）" : ""}...`);
+
+  try {
+    for (;;) {
+      const rows: CardRow[] = lastId
+        ? await sql<CardRow[]>`
+            SELECT id, content, fields FROM cards WHERE id > ${lastId} ORDER BY id LIMIT ${BATCH_SIZE}
+          `
+        : await sql<CardRow[]>`SELECT id, content, fields FROM cards ORDER BY id LIMIT ${BATCH_SIZE}`;
+
+      if (rows.length === 0) {
+        break;
+      }
+      lastId = rows[rows.length - 1].id;
+
+      const updates: {
+        id: string;
+        oldContent: string;
+        content: string;
+        contentHash: string;
+        fields: string | null;
+      }[] = [];
+      for (const row of rows) {
+        if (!rotateAll && isEncryptedWithCurrentKey(row.content)) {
+          skipped += 1;
+          continue;
+        }
+
+        try {
+          updates.push({
+            id: row.id,
+            oldContent: row.content,
+            ...sealCardContent(decryptCardContent(row.content)),
+            // 结构化字段与内容使用同一主密钥
+            fields: row.fields ? encryptCardContent(decryptCardContent(row.fields)) : null,
+          });
+        } catch (error) {
+          failed += 1;
+          console.error(`❌ 卡密 ${row.id} 解密失败:`, error instanceof Error ? error.message : error);
+        }
+      }
+
+      if (!dryRun && updates.length > 0) {
+        await sql.begin(async (tx) => {
+          for (const update of updates) {
+            // 仅在内容未被并发修改时覆盖，避免用旧内容回写
+            await tx`
+              UPDATE cards
+              SET content = ${update.content}, content_hash = ${update.contentHash}, fields = ${update.fields}
+              WHERE id = ${update.id} AND content = ${update.oldContent}
+            `;
+          }
+        });
+      }
+      rotated += updates.length;
+
+      console.log(`✅ 已处理 ${rotated + skipped + failed} 条（重新加密 ${rotated}）`);
+    }
+
+    console.log(`\n🎉 完成：重新加密 ${rotated} 条，跳过 ${skipped} 条，失败 ${failed} 条`);
+    if (failed > 0) {
+      console.log("📝 失败的卡密使用了未配置的主密钥，请把对应密钥加入 CARD_ENCRYPTION_PREVIOUS_KEYS 后重试");
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error("❌ 轮换失败:", error);
+    process.exitCode = 1;
+  } finally {
+    await sql.end();
+  }
+}
+
+rotate();
@@ -9,6 +9,7 @@ import {
   pgEnum,
   index,
   uniqueIndex,
+  jsonb,
 } from "drizzle-orm/pg-core";
 import { relations, sql } from "drizzle-orm";
 
@@ -20,6 +21,16 @@ export const cardStatusEnum = pgEnum("card_status", [
   "available", // 可用
   "locked",    // 已锁定（待支付）
   "sold",      // 已售出
+  "void",      // 已作废（退款后不再销售）
+  "quarantined", // 已隔离（退款后待人工复核）
+  "expired",     // 已过期（超过有效期，由定时任务标记）
+]);
+
+// 退款后卡密的处理策略：卡密内容已对买家可见，默认隔离待复核，避免直接重新销售
+export const refundCardPolicyEnum = pgEnum("refund_card_policy", [
+  "recycle",    // 放回可用库存
+  "void",       // 作废
+  "quarantine", // 隔离，待管理员复核后放回或作废
 ]);
 
 export const orderStatusEnum = pgEnum("order_status", [
@@ -30,6 +41,7 @@ export const orderStatusEnum = pgEnum("order_status", [
   "refund_pending",   // 退款审核中
   "refund_rejected",  // 退款已拒绝
   "refunded",         // 已退款
+  "partially_refunded", // 部分退款（部分卡密已退款，其余仍有效）
 ]);
 
 export const paymentMethodEnum = pgEnum("payment_method", [
@@ -39,6 +51,19 @@ export const paymentMethodEnum = pgEnum("payment_method", [
   "usdt",      // USDT（预留）
 ]);
 
+export const couponDiscountTypeEnum = pgEnum("coupon_discount_type", [
+  "percent",   // 按百分比折扣
+  "fixed",     // 固定金额立减
+]);
+
+// 后台角色，各角色的权限见 lib/admin-permissions.ts
+export const adminRoleEnum = pgEnum("admin_role", [
+  "owner",     // 所有者：全部权限，可管理管理员账号
+  "operator",  // 运营：商品、卡密、订单、营销
+  "support",   // 客服：查看订单与顾客，驳回退款
+  "finance",   // 财务：报表、退款审批、支付回调
+]);
+
 // ============================================
 // Categories Table (商品分类)
 // ============================================
@@ -78,7 +103,13 @@ export const products = pgTable("products", {
   sortOrder: integer("sort_order").default(0).notNull(),
   minQuantity: integer("min_quantity").default(1).notNull(),
   maxQuantity: integer("max_quantity").default(10).notNull(),
+  // 阶梯价：按 minQuantity 升序，购买数量达到某档起点即按该档单价计算；未达到第一档时使用 price
+  priceTiers: jsonb("price_tiers").$type<PriceTier[]>().default([]).notNull(),
   salesCount: integer("sales_count").default(0).notNull(), // 销量统计
+  refundCardPolicy: refundCardPolicyEnum("refund_card_policy").default("quarantine").notNull(),
+  // 库存预警：可售库存低于阈值时通知（0 为关闭）；lowStockAlertedAt 记录已发出的预警，库存恢复后清空
+  lowStockThreshold: integer("low_stock_threshold").default(0).notNull(),
+  lowStockAlertedAt: timestamp("low_stock_alerted_at", { withTimezone: true }),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
 }, (table) => [
@@ -88,6 +119,51 @@ export const products = pgTable("products", {
   index("products_sort_order_idx").on(table.sortOrder),
 ]);
 
+// ============================================
+// Product Variants Table (商品规格)
+// ============================================
+
+// 同一商品的不同规格（如月卡/年卡）各自定价、限购，并拥有独立的卡密库存
+export const productVariants = pgTable("product_variants", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  productId: uuid("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  minQuantity: integer("min_quantity").default(1).notNull(),
+  maxQuantity: integer("max_quantity").default(10).notNull(),
+  sortOrder: integer("sort_order").default(0).notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("product_variants_product_id_idx").on(table.productId),
+]);
+
+// ============================================
+// Card Import Batches Table (卡密导入批次)
+// ============================================
+
+// 每次 importCards 成功写入记录一个批次：来源、供应商与进货单价，可按批次撤回未售出的卡密
+export const cardImportBatches = pgTable("card_import_batches", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  productId: uuid("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  variantId: uuid("variant_id").references(() => productVariants.id, { onDelete: "cascade" }),
+  format: text("format").notNull(), // text / csv / json
+  supplierName: text("supplier_name"),
+  sourceNote: text("source_note"), // 来源备注（如供应商订单号、文件名）
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }), // 进货单价，为空表示未填写
+  importedCount: integer("imported_count").notNull(),
+  operatorId: text("operator_id"),
+  operatorName: text("operator_name"),
+  revokedCount: integer("revoked_count").default(0).notNull(), // 已撤回（删除）的未售出卡密数
+  revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  revokedBy: text("revoked_by"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("card_import_batches_product_id_idx").on(table.productId),
+  index("card_import_batches_created_at_idx").on(table.createdAt),
+]);
+
 // ============================================
 // Cards Table (卡密/库存)
 // ============================================
@@ -95,16 +171,25 @@ export const products = pgTable("products", {
 export const cards = pgTable("cards", {
   id: uuid("id").primaryKey().defaultRandom(),
   productId: uuid("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
-  content: text("content").notNull(), // 卡密内容
+  variantId: uuid("variant_id").references(() => productVariants.id, { onDelete: "cascade" }), // 为空表示商品未启用规格
+  content: text("content").notNull(), // 卡密内容（配置 CARD_ENCRYPTION_KEY 后为信封加密密文，见 lib/card-crypto.ts）
+  contentHash: text("content_hash").notNull(), // 卡密内容的去重哈希
+  fields: text("fields"), // 结构化字段（标签+值的 JSON，与 content 同样加密存储），为空表示纯文本卡密
+  expiresAt: timestamp("expires_at", { withTimezone: true }), // 卡密有效期，为空表示长期有效
   status: cardStatusEnum("status").default("available").notNull(),
   orderId: uuid("order_id").references(() => orders.id, { onDelete: "set null" }),
+  batchId: uuid("batch_id").references(() => cardImportBatches.id, { onDelete: "set null" }), // 导入批次，为空表示单条新增或历史数据
   lockedAt: timestamp("locked_at", { withTimezone: true }), // 锁定时间
   soldAt: timestamp("sold_at", { withTimezone: true }), // 售出时间
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
 }, (table) => [
   index("cards_product_id_idx").on(table.productId),
+  index("cards_variant_id_idx").on(table.variantId),
   index("cards_status_idx").on(table.status),
   index("cards_order_id_idx").on(table.orderId),
+  index("cards_product_content_hash_idx").on(table.productId, table.contentHash),
+  index("cards_expires_at_idx").on(table.expiresAt),
+  index("cards_batch_id_idx").on(table.batchId),
   // 用于快速查询可用库存
   index("cards_product_available_idx").on(table.productId, table.status),
 ]);
@@ -117,7 +202,8 @@ export const orders = pgTable("orders", {
   id: uuid("id").primaryKey().defaultRandom(),
   orderNo: text("order_no").notNull().unique(), // 订单号
   productId: uuid("product_id").references(() => products.id, { onDelete: "set null" }),
-  productName: text("product_name").notNull(), // 冗余存储商品名
+  variantId: uuid("variant_id").references(() => productVariants.id, { onDelete: "set null" }),
+  productName: text("product_name").notNull(), // 冗余存储商品名（含规格名）
   productPrice: decimal("product_price", { precision: 10, scale: 2 }).notNull(), // 冗余存储单价
   quantity: integer("quantity").notNull(),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
@@ -145,10 +231,16 @@ export const orders = pgTable("orders", {
   remark: text("remark"),
   adminRemark: text("admin_remark"), // 管理员备注
   
+  // 优惠码（金额均为下单时快照，totalAmount 已是优惠后实付金额）
+  couponId: uuid("coupon_id").references(() => coupons.id, { onDelete: "set null" }),
+  couponCode: text("coupon_code"), // 冗余存储优惠码
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).default("0").notNull(),
+
   // 退款相关
   refundReason: text("refund_reason"), // 退款原因
   refundRequestedAt: timestamp("refund_requested_at", { withTimezone: true }), // 申请退款时间
-  refundedAt: timestamp("refunded_at", { withTimezone: true }), // 退款完成时间
+  refundedAt: timestamp("refunded_at", { withTimezone: true }), // 最近一次退款完成时间
+  refundedAmount: decimal("refunded_amount", { precision: 10, scale: 2 }).default("0").notNull(), // 累计已退款金额
 }, (table) => [
   uniqueIndex("orders_order_no_idx").on(table.orderNo),
   index("orders_status_idx").on(table.status),
@@ -157,9 +249,108 @@ export const orders = pgTable("orders", {
   index("orders_created_at_idx").on(table.createdAt),
   index("orders_trade_no_idx").on(table.tradeNo),
   index("orders_user_id_idx").on(table.userId),
+  index("orders_coupon_id_idx").on(table.couponId),
   index("orders_refund_status_idx").on(table.status).where(sql`status IN ('refund_pending', 'refund_rejected', 'refunded')`),
 ]);
 
+// ============================================
+// Coupons Table (优惠码)
+// ============================================
+
+/**
+ * 优惠码
+ * - 适用范围：productId / categoryId 均为空表示全场通用，二者最多设置一个
+ * - 使用次数不单独计数，而是按关联订单统计（过期订单不计入），避免订单过期后需要回滚计数
+ */
+export const coupons = pgTable("coupons", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  code: text("code").notNull().unique(), // 统一大写存储
+  description: text("description"),
+  discountType: couponDiscountTypeEnum("discount_type").notNull(),
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull(), // 百分比（如 15 表示 85 折）或固定金额
+  productId: uuid("product_id").references(() => products.id, { onDelete: "cascade" }),
+  categoryId: uuid("category_id").references(() => categories.id, { onDelete: "cascade" }),
+  minAmount: decimal("min_amount", { precision: 10, scale: 2 }).default("0").notNull(), // 适用商品的最低消费
+  maxUses: integer("max_uses"), // 总使用次数上限，空表示不限
+  maxUsesPerUser: integer("max_uses_per_user"), // 每个用户使用次数上限，空表示不限
+  expiresAt: timestamp("expires_at", { withTimezone: true }),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("coupons_is_active_idx").on(table.isActive),
+]);
+
+// ============================================
+// Order Items Table (订单明细)
+// ============================================
+
+/**
+ * 订单明细：一笔订单可包含多个商品（购物车合并结算）
+ * - 单商品下单同样写入一行明细，便于统一处理销量/退款等逻辑
+ * - 卡密仍通过 cards.orderId 关联订单，按 productId 归属到对应明细行
+ */
+export const orderItems = pgTable("order_items", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orderId: uuid("order_id").references(() => orders.id, { onDelete: "cascade" }).notNull(),
+  productId: uuid("product_id").references(() => products.id, { onDelete: "set null" }),
+  variantId: uuid("variant_id").references(() => productVariants.id, { onDelete: "set null" }),
+  productName: text("product_name").notNull(), // 冗余存储商品名（含规格名）
+  productPrice: decimal("product_price", { precision: 10, scale: 2 }).notNull(), // 冗余存储单价
+  quantity: integer("quantity").notNull(),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("order_items_order_id_idx").on(table.orderId),
+  index("order_items_product_id_idx").on(table.productId),
+]);
+
+// ============================================
+// Order Refunds Table (退款记录)
+// ============================================
+
+/**
+ * 退款记录：每次退款（含部分退款）一条，保留退款金额与对应卡密
+ * 卡密退款后会与订单解除关联，这里的 cardIds 是唯一的追溯依据
+ */
+export const orderRefunds = pgTable("order_refunds", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orderId: uuid("order_id").references(() => orders.id, { onDelete: "cascade" }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  cardIds: jsonb("card_ids").$type<string[]>().default([]).notNull(),
+  cardCount: integer("card_count").notNull(),
+  reason: text("reason"), // 用户申请退款原因（快照）
+  remark: text("remark"), // 管理员备注
+  operator: text("operator"), // 审批管理员
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("order_refunds_order_id_idx").on(table.orderId),
+]);
+
+// ============================================
+// Cart Items Table (购物车)
+// ============================================
+
+export const cartItems = pgTable("cart_items", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: text("user_id").notNull(), // Linux DO 用户ID
+  productId: uuid("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  variantId: uuid("variant_id").references(() => productVariants.id, { onDelete: "cascade" }),
+  quantity: integer("quantity").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("cart_items_user_id_idx").on(table.userId),
+  // 同一用户同一商品（规格）只保留一行，重复加购时累加数量
+  // 为什么拆成两个部分索引：variant_id 可为空，普通唯一索引中 NULL 互不相等，无法作为 ON CONFLICT 目标
+  uniqueIndex("cart_items_user_product_idx")
+    .on(table.userId, table.productId)
+    .where(sql`${table.variantId} IS NULL`),
+  uniqueIndex("cart_items_user_variant_idx")
+    .on(table.userId, table.productId, table.variantId)
+    .where(sql`${table.variantId} IS NOT NULL`),
+]);
+
 // ============================================
 // System Settings Table (系统设置)
 // ============================================
@@ -200,15 +391,95 @@ export const restockRequests = pgTable("restock_requests", {
   userId: text("user_id").notNull(),
   username: text("username").notNull(),
   userImage: text("user_image"),
+  // 到货通知时间：已通知的请求视为归档，不再计入待补货人数；用户再次催补货时清空
+  notifiedAt: timestamp("notified_at", { withTimezone: true }),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
 }, (table) => [
   index("restock_requests_product_id_idx").on(table.productId),
   index("restock_requests_user_id_idx").on(table.userId),
   index("restock_requests_created_at_idx").on(table.createdAt),
+  index("restock_requests_notified_at_idx").on(table.notifiedAt),
   // 关键：同一用户对同一商品只记录一次，避免计数被刷
   uniqueIndex("restock_requests_product_user_idx").on(table.productId, table.userId),
 ]);
 
+// ============================================
+// Admin Users Table (后台管理员账号)
+// ============================================
+
+export const adminUsers = pgTable("admin_users", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  // 登录用户名（小写）
+  username: text("username").notNull().unique(),
+  displayName: text("display_name"),
+  passwordHash: text("password_hash").notNull(), // bcrypt
+  role: adminRoleEnum("role").default("support").notNull(),
+  // 停用后无法登录，已登录的会话在下一次操作时失效
+  isActive: boolean("is_active").default(true).notNull(),
+  lastLoginAt: timestamp("last_login_at", { withTimezone: true }),
+  // TOTP 两步验证：密钥在确认绑定前即写入，totpEnabledAt 非空才视为已启用
+  totpSecret: text("totp_secret"),
+  totpEnabledAt: timestamp("totp_enabled_at", { withTimezone: true }),
+  // 最近一次通过校验的时间步，防止同一验证码被重复使用
+  totpLastUsedStep: integer("totp_last_used_step"),
+  // 恢复码的 SHA-256 哈希，使用后移除
+  totpRecoveryCodes: jsonb("totp_recovery_codes").$type<string[]>().default([]).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
+// ============================================
+// Admin Sessions Table (管理员登录会话)
+// ============================================
+
+// 每次管理员登录创建一条记录，会话 ID 写入 JWT；撤销后 middleware 与 requireAdmin 立即拒绝该会话
+export const adminSessions = pgTable("admin_sessions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  // 会话中的管理员 ID（同 admin_audit_logs.actor_id）
+  actorId: text("actor_id").notNull(),
+  // 数据库管理员账号；ADMIN_PASSWORD 初始化登录与 Linux DO 白名单管理员为空
+  adminUserId: uuid("admin_user_id").references(() => adminUsers.id, { onDelete: "cascade" }),
+  actorName: text("actor_name"),
+  // credentials / linux-do
+  provider: text("provider").notNull(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at", { withTimezone: true }).defaultNow().notNull(),
+  revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  // 撤销人（管理员 ID），退出登录时为本人
+  revokedBy: text("revoked_by"),
+}, (table) => [
+  index("admin_sessions_actor_id_idx").on(table.actorId),
+  index("admin_sessions_last_seen_at_idx").on(table.lastSeenAt),
+]);
+
+// ============================================
+// API Keys Table (开放 API 密钥)
+// ============================================
+
+// 开放 API（/api/v1）的访问密钥：只保存 SHA-256 哈希，明文仅在创建时展示一次
+// 每个密钥绑定一个 Linux DO 用户，通过该密钥创建、查询的订单都归属于这个用户
+export const apiKeys = pgTable("api_keys", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  // 明文前缀（如 ldc_AbCd1234），用于在后台辨认密钥
+  keyPrefix: text("key_prefix").notNull(),
+  keyHash: text("key_hash").notNull().unique(),
+  // products:read / orders:create / orders:read / cards:read
+  scopes: jsonb("scopes").$type<string[]>().default([]).notNull(),
+  userId: text("user_id").notNull(),
+  username: text("username"),
+  // 每分钟最多请求次数
+  rateLimitPerMinute: integer("rate_limit_per_minute").default(60).notNull(),
+  lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+  revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("api_keys_user_id_idx").on(table.userId),
+]);
+
 // ============================================
 // Login Rate Limits Table (登录限流)
 // ============================================
@@ -221,6 +492,95 @@ export const loginRateLimits = pgTable("login_rate_limits", {
   blockedUntil: timestamp("blocked_until", { withTimezone: true }),
 });
 
+// ============================================
+// Payment Notify Logs Table (支付回调日志，只追加)
+// ============================================
+
+export const paymentNotifyLogs = pgTable("payment_notify_logs", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  paymentMethod: paymentMethodEnum("payment_method").notNull(),
+  route: text("route").notNull(),
+  requestId: text("request_id"),
+  // 原始回调参数（sign 已脱敏）
+  params: jsonb("params").$type<Record<string, string>>().notNull(),
+  verified: boolean("verified").notNull(),
+  // 验签通过后解析出的通知内容，供重放使用
+  orderNo: text("order_no"),
+  tradeNo: text("trade_no"),
+  money: text("money"),
+  tradePaid: boolean("trade_paid"),
+  // passed / mismatch；未执行到金额校验时为空
+  amountCheck: text("amount_check"),
+  orderStatusBefore: text("order_status_before"),
+  orderStatusAfter: text("order_status_after"),
+  // processed / duplicate / ignored / rejected / failed
+  outcome: text("outcome").notNull(),
+  httpStatus: integer("http_status").notNull(),
+  message: text("message").notNull(),
+  // 管理员重放时指向原始回调记录
+  replayOfId: uuid("replay_of_id"),
+  replayedBy: text("replayed_by"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("payment_notify_logs_order_no_idx").on(table.orderNo),
+  index("payment_notify_logs_created_at_idx").on(table.createdAt),
+  index("payment_notify_logs_replay_of_id_idx").on(table.replayOfId),
+]);
+
+// ============================================
+// Card Access Events Table (卡密查看记录)
+// ============================================
+
+// 每次展示卡密明文（买家订单页、后台订单详情/卡密列表/导出）记录一条，用于处理“未收到卡密”类纠纷
+// 只追加；不设外键，卡密或订单删除后记录仍保留
+export const cardAccessEvents = pgTable("card_access_events", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  cardId: uuid("card_id").notNull(),
+  orderId: uuid("order_id"),
+  // order_my / order_result / admin_order_detail / admin_refund / admin_cards / admin_export / api
+  source: text("source").notNull(),
+  // buyer / admin
+  actorType: text("actor_type").notNull(),
+  actorId: text("actor_id"),
+  actorName: text("actor_name"),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("card_access_events_order_id_idx").on(table.orderId),
+  index("card_access_events_card_id_idx").on(table.cardId),
+  index("card_access_events_created_at_idx").on(table.createdAt),
+]);
+
+// ============================================
+// Admin Audit Logs Table (后台操作审计)
+// ============================================
+
+// 管理员的敏感操作（删除订单/卡密、手动完成订单、退款、改价、系统配置、管理员账号）每个对象记录一条
+// 只追加：迁移中的触发器禁止 UPDATE / DELETE；不设外键，对象删除后记录仍保留
+export const adminAuditLogs = pgTable("admin_audit_logs", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  // 会话中的管理员 ID（数据库账号为 uuid，ADMIN_PASSWORD 登录为 admin，Linux DO 管理员为论坛用户 ID）
+  actorId: text("actor_id").notNull(),
+  actorName: text("actor_name"),
+  actorRole: adminRoleEnum("actor_role"),
+  // 如 order.delete / card.reset_locked / product.update
+  action: text("action").notNull(),
+  // order / card / product / product_variant / settings / admin_user / admin_session / api_key
+  entityType: text("entity_type").notNull(),
+  entityId: text("entity_id"),
+  // 变更前后的字段（只包含有变化的字段；删除操作只有 before）
+  before: jsonb("before").$type<Record<string, unknown>>(),
+  after: jsonb("after").$type<Record<string, unknown>>(),
+  requestId: text("request_id"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("admin_audit_logs_created_at_idx").on(table.createdAt),
+  index("admin_audit_logs_actor_id_idx").on(table.actorId),
+  index("admin_audit_logs_entity_idx").on(table.entityType, table.entityId),
+]);
+
 // ============================================
 // Relations
 // ============================================
@@ -235,7 +595,17 @@ export const productsRelations = relations(products, ({ one, many }) => ({
     references: [categories.id],
   }),
   cards: many(cards),
+  variants: many(productVariants),
   restockRequests: many(restockRequests),
+  cardImportBatches: many(cardImportBatches),
+}));
+
+export const productVariantsRelations = relations(productVariants, ({ one, many }) => ({
+  product: one(products, {
+    fields: [productVariants.productId],
+    references: [products.id],
+  }),
+  cards: many(cards),
 }));
 
 export const cardsRelations = relations(cards, ({ one }) => ({
@@ -243,10 +613,30 @@ export const cardsRelations = relations(cards, ({ one }) => ({
     fields: [cards.productId],
     references: [products.id],
   }),
+  variant: one(productVariants, {
+    fields: [cards.variantId],
+    references: [productVariants.id],
+  }),
   order: one(orders, {
     fields: [cards.orderId],
     references: [orders.id],
   }),
+  batch: one(cardImportBatches, {
+    fields: [cards.batchId],
+    references: [cardImportBatches.id],
+  }),
+}));
+
+export const cardImportBatchesRelations = relations(cardImportBatches, ({ one, many }) => ({
+  product: one(products, {
+    fields: [cardImportBatches.productId],
+    references: [products.id],
+  }),
+  variant: one(productVariants, {
+    fields: [cardImportBatches.variantId],
+    references: [productVariants.id],
+  }),
+  cards: many(cards),
 }));
 
 export const ordersRelations = relations(orders, ({ one, many }) => ({
@@ -255,6 +645,53 @@ export const ordersRelations = relations(orders, ({ one, many }) => ({
     references: [products.id],
   }),
   cards: many(cards),
+  items: many(orderItems),
+  refunds: many(orderRefunds),
+  coupon: one(coupons, {
+    fields: [orders.couponId],
+    references: [coupons.id],
+  }),
+}));
+
+export const couponsRelations = relations(coupons, ({ one, many }) => ({
+  product: one(products, {
+    fields: [coupons.productId],
+    references: [products.id],
+  }),
+  category: one(categories, {
+    fields: [coupons.categoryId],
+    references: [categories.id],
+  }),
+  orders: many(orders),
+}));
+
+export const orderItemsRelations = relations(orderItems, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderItems.orderId],
+    references: [orders.id],
+  }),
+  product: one(products, {
+    fields: [orderItems.productId],
+    references: [products.id],
+  }),
+}));
+
+export const orderRefundsRelations = relations(orderRefunds, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderRefunds.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export const cartItemsRelations = relations(cartItems, ({ one }) => ({
+  product: one(products, {
+    fields: [cartItems.productId],
+    references: [products.id],
+  }),
+  variant: one(productVariants, {
+    fields: [cartItems.variantId],
+    references: [productVariants.id],
+  }),
 }));
 
 export const restockRequestsRelations = relations(restockRequests, ({ one }) => ({
@@ -271,15 +708,38 @@ export const restockRequestsRelations = relations(restockRequests, ({ one }) =>
 export type Category = typeof categories.$inferSelect;
 export type NewCategory = typeof categories.$inferInsert;
 
+export interface PriceTier {
+  minQuantity: number;
+  price: string;
+}
+
 export type Product = typeof products.$inferSelect;
 export type NewProduct = typeof products.$inferInsert;
 
+export type ProductVariant = typeof productVariants.$inferSelect;
+export type NewProductVariant = typeof productVariants.$inferInsert;
+
 export type Card = typeof cards.$inferSelect;
 export type NewCard = typeof cards.$inferInsert;
 
+export type CardImportBatch = typeof cardImportBatches.$inferSelect;
+export type NewCardImportBatch = typeof cardImportBatches.$inferInsert;
+
 export type Order = typeof orders.$inferSelect;
 export type NewOrder = typeof orders.$inferInsert;
 
+export type Coupon = typeof coupons.$inferSelect;
+export type NewCoupon = typeof coupons.$inferInsert;
+
+export type OrderItem = typeof orderItems.$inferSelect;
+export type NewOrderItem = typeof orderItems.$inferInsert;
+
+export type OrderRefund = typeof orderRefunds.$inferSelect;
+export type NewOrderRefund = typeof orderRefunds.$inferInsert;
+
+export type CartItem = typeof cartItems.$inferSelect;
+export type NewCartItem = typeof cartItems.$inferInsert;
+
 export type Setting = typeof settings.$inferSelect;
 export type NewSetting = typeof settings.$inferInsert;
 
@@ -289,6 +749,27 @@ export type NewAnnouncement = typeof announcements.$inferInsert;
 export type RestockRequest = typeof restockRequests.$inferSelect;
 export type NewRestockRequest = typeof restockRequests.$inferInsert;
 
+export type PaymentNotifyLog = typeof paymentNotifyLogs.$inferSelect;
+export type NewPaymentNotifyLog = typeof paymentNotifyLogs.$inferInsert;
+
+export type CardAccessEvent = typeof cardAccessEvents.$inferSelect;
+export type NewCardAccessEvent = typeof cardAccessEvents.$inferInsert;
+
+export type AdminUser = typeof adminUsers.$inferSelect;
+export type NewAdminUser = typeof adminUsers.$inferInsert;
+
+export type AdminSession = typeof adminSessions.$inferSelect;
+export type NewAdminSession = typeof adminSessions.$inferInsert;
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type NewApiKey = typeof apiKeys.$inferInsert;
+
+export type AdminAuditLog = typeof adminAuditLogs.$inferSelect;
+export type NewAdminAuditLog = typeof adminAuditLogs.$inferInsert;
+
 export type CardStatus = (typeof cardStatusEnum.enumValues)[number];
 export type OrderStatus = (typeof orderStatusEnum.enumValues)[number];
 export type PaymentMethod = (typeof paymentMethodEnum.enumValues)[number];
+export type CouponDiscountType = (typeof couponDiscountTypeEnum.enumValues)[number];
+export type RefundCardPolicy = (typeof refundCardPolicyEnum.enumValues)[number];
+export type AdminRole = (typeof adminRoleEnum.enumValues)[number];
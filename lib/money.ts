@@ -31,3 +31,14 @@ export function parseWalletAmount(value: string): number | null {
   return amount;
 }
 
+
+/**
+ * 解析金额字符串为「分」，用于跨系统金额比对（避免浮点误差）
+ *
+ * @returns 解析失败返回 null
+ */
+export function parseAmountToCents(value: string): number | null {
+  const amount = parseWalletAmount(value);
+  if (amount === null) return null;
+  return Math.round(amount * 100);
+}
@@ -0,0 +1,115 @@
+/**
+ * 运营通知
+ * 渠道由环境变量启用，可同时启用多个：通用 Webhook、Telegram Bot、SMTP 邮件；均未配置时只记录日志
+ * 面向具体用户的通知（如到货通知）另走 Linux DO 论坛私信
+ */
+
+import { logger } from "@/lib/logger";
+import { DEFAULT_LINUXDO_FORUM_URL, type LinuxDoForumConfig } from "./linuxdo";
+import { createSmtpNotifier } from "./smtp";
+import { createTelegramNotifier } from "./telegram";
+import type { NotificationMessage, Notifier } from "./types";
+import { createWebhookNotifier } from "./webhook";
+
+export type { NotificationMessage, Notifier } from "./types";
+
+type NotifyEnv = Record<string, string | undefined>;
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export function getWebhookNotifier(env: NotifyEnv = process.env): Notifier | null {
+  if (!env.NOTIFY_WEBHOOK_URL) {
+    return null;
+  }
+  return createWebhookNotifier({
+    url: env.NOTIFY_WEBHOOK_URL,
+    secret: env.NOTIFY_WEBHOOK_SECRET || undefined,
+  });
+}
+
+/**
+ * Linux DO 论坛私信配置（需要 API Key 与发信账号）
+ */
+export function getLinuxDoForumConfig(env: NotifyEnv = process.env): LinuxDoForumConfig | null {
+  if (!env.LINUXDO_FORUM_API_KEY || !env.LINUXDO_FORUM_API_USERNAME) {
+    return null;
+  }
+  return {
+    baseUrl: env.LINUXDO_FORUM_URL || DEFAULT_LINUXDO_FORUM_URL,
+    apiKey: env.LINUXDO_FORUM_API_KEY,
+    apiUsername: env.LINUXDO_FORUM_API_USERNAME,
+  };
+}
+
+/**
+ * 读取已配置的通知渠道（含密钥，仅限服务端使用）
+ */
+export function getConfiguredNotifiers(env: NotifyEnv = process.env): Notifier[] {
+  const notifiers: Notifier[] = [];
+
+  const webhook = getWebhookNotifier(env);
+  if (webhook) {
+    notifiers.push(webhook);
+  }
+
+  if (env.NOTIFY_TELEGRAM_BOT_TOKEN && env.NOTIFY_TELEGRAM_CHAT_ID) {
+    notifiers.push(
+      createTelegramNotifier({
+        botToken: env.NOTIFY_TELEGRAM_BOT_TOKEN,
+        chatId: env.NOTIFY_TELEGRAM_CHAT_ID,
+      })
+    );
+  }
+
+  const smtpFrom = env.NOTIFY_SMTP_FROM || env.NOTIFY_SMTP_USER;
+  const smtpTo = splitList(env.NOTIFY_SMTP_TO);
+  if (env.NOTIFY_SMTP_HOST && smtpFrom && smtpTo.length > 0) {
+    const port = Number.parseInt(env.NOTIFY_SMTP_PORT ?? "", 10);
+    const secure = env.NOTIFY_SMTP_SECURE ? env.NOTIFY_SMTP_SECURE === "true" : port === 465;
+    notifiers.push(
+      createSmtpNotifier({
+        host: env.NOTIFY_SMTP_HOST,
+        port: Number.isFinite(port) ? port : secure ? 465 : 587,
+        secure,
+        user: env.NOTIFY_SMTP_USER || undefined,
+        pass: env.NOTIFY_SMTP_PASS || undefined,
+        from: smtpFrom,
+        to: smtpTo,
+      })
+    );
+  }
+
+  return notifiers;
+}
+
+/**
+ * 向所有已配置的渠道发送通知
+ * 单个渠道失败只记录日志，不抛出异常，避免影响调用方主流程
+ */
+export async function sendNotification(
+  message: NotificationMessage,
+  notifiers: Notifier[] = getConfiguredNotifiers()
+): Promise<{ sent: number; failed: number }> {
+  const log = logger.child({ action: "sendNotification", event: message.event });
+
+  if (notifiers.length === 0) {
+    log.info({ title: message.title }, "未配置通知渠道，跳过发送");
+    return { sent: 0, failed: 0 };
+  }
+
+  const results = await Promise.allSettled(notifiers.map((notifier) => notifier.send(message)));
+  let failed = 0;
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      failed += 1;
+      log.error({ err: result.reason, notifier: notifiers[index].name }, "发送通知失败");
+    }
+  });
+
+  return { sent: results.length - failed, failed };
+}
@@ -0,0 +1,48 @@
+/**
+ * Linux DO 论坛私信（Discourse API）
+ * 使用管理员生成的 API Key 以指定账号身份发送私信，用于通知具体用户（如到货通知）
+ */
+
+import { NOTIFY_TIMEOUT_MS } from "./types";
+
+export const DEFAULT_LINUXDO_FORUM_URL = "https://linux.do";
+
+export interface LinuxDoForumConfig {
+  baseUrl: string;
+  apiKey: string;
+  apiUsername: string;
+}
+
+export interface LinuxDoPrivateMessage {
+  /** 收件人的论坛用户名 */
+  username: string;
+  title: string;
+  /** 私信正文（Markdown） */
+  raw: string;
+}
+
+export async function sendLinuxDoPrivateMessage(
+  config: LinuxDoForumConfig,
+  message: LinuxDoPrivateMessage
+): Promise<void> {
+  const response = await fetch(`${config.baseUrl.replace(/\/+$/, "")}/posts.json`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Api-Key": config.apiKey,
+      "Api-Username": config.apiUsername,
+    },
+    body: JSON.stringify({
+      title: message.title,
+      raw: message.raw,
+      target_recipients: message.username,
+      archetype: "private_message",
+    }),
+    signal: AbortSignal.timeout(NOTIFY_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const result = (await response.json().catch(() => null)) as { errors?: string[] } | null;
+    throw new Error(`Linux DO 私信发送失败：${result?.errors?.join("；") || `HTTP ${response.status}`}`);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * SMTP 邮件通知（基于 nodemailer）
+ *
+ * - secure=true 时直接建立 TLS 连接（通常为 465 端口），否则在服务器支持时升级 STARTTLS
+ * - 配置了账号时强制 STARTTLS（requireTLS），服务器无法加密则发送失败，避免明文传输密码
+ */
+
+import nodemailer from "nodemailer";
+import type SMTPTransport from "nodemailer/lib/smtp-transport";
+
+import { NOTIFY_TIMEOUT_MS, type NotificationMessage, type Notifier } from "./types";
+
+export interface SmtpNotifierConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  /** 发件人，可为 `名称 <地址>` 格式 */
+  from: string;
+  to: string[];
+}
+
+export function buildSmtpTransportOptions(config: SmtpNotifierConfig): SMTPTransport.Options {
+  return {
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    requireTLS: !config.secure && Boolean(config.user),
+    auth: config.user ? { user: config.user, pass: config.pass ?? "" } : undefined,
+    connectionTimeout: NOTIFY_TIMEOUT_MS,
+    greetingTimeout: NOTIFY_TIMEOUT_MS,
+    socketTimeout: NOTIFY_TIMEOUT_MS,
+  };
+}
+
+export function createSmtpNotifier(config: SmtpNotifierConfig): Notifier {
+  const transporter = nodemailer.createTransport(buildSmtpTransportOptions(config));
+
+  return {
+    name: "smtp",
+    async send(message: NotificationMessage) {
+      await transporter.sendMail({
+        from: config.from,
+        to: config.to,
+        subject: message.title,
+        text: message.text,
+      });
+    },
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Telegram Bot 通知：通过 Bot API sendMessage 发送纯文本消息
+ */
+
+import { NOTIFY_TIMEOUT_MS, type NotificationMessage, type Notifier } from "./types";
+
+const TELEGRAM_API_BASE = "https://api.telegram.org";
+
+export interface TelegramNotifierConfig {
+  botToken: string;
+  chatId: string;
+}
+
+export function createTelegramNotifier(config: TelegramNotifierConfig): Notifier {
+  return {
+    name: "telegram",
+    async send(message: NotificationMessage) {
+      const response = await fetch(`${TELEGRAM_API_BASE}/bot${config.botToken}/sendMessage`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          chat_id: config.chatId,
+          text: `${message.title}\n\n${message.text}`,
+          disable_web_page_preview: true,
+        }),
+        signal: AbortSignal.timeout(NOTIFY_TIMEOUT_MS),
+      });
+
+      const result = (await response.json().catch(() => null)) as
+        | { ok?: boolean; description?: string }
+        | null;
+      if (!response.ok || !result?.ok) {
+        throw new Error(`Telegram 发送失败：${result?.description || `HTTP ${response.status}`}`);
+      }
+    },
+  };
+}
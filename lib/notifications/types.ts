@@ -0,0 +1,22 @@
+/**
+ * 运营通知渠道抽象
+ * 每个渠道（webhook/telegram/smtp）实现同一接口，由 lib/notifications 按环境变量组装
+ */
+
+// 单个渠道的发送超时，避免外部服务卡住下单、导入等主流程
+export const NOTIFY_TIMEOUT_MS = 10_000;
+
+export interface NotificationMessage {
+  /** 事件标识（如 stock.low），Webhook 原样透传，便于接收方分流 */
+  event: string;
+  title: string;
+  text: string;
+  /** 结构化数据，仅 Webhook 发送 */
+  data?: Record<string, unknown>;
+}
+
+export interface Notifier {
+  name: string;
+  /** 发送失败时抛出异常，由调用方统一记录日志 */
+  send(message: NotificationMessage): Promise<void>;
+}
@@ -0,0 +1,50 @@
+/**
+ * 通用 Webhook 通知：POST JSON，配置密钥时附带 HMAC-SHA256 签名
+ */
+
+import crypto from "crypto";
+import { NOTIFY_TIMEOUT_MS, type NotificationMessage, type Notifier } from "./types";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-LDC-Signature";
+
+export interface WebhookNotifierConfig {
+  url: string;
+  secret?: string;
+}
+
+/**
+ * 签名 = hex(HMAC-SHA256(secret, 原始请求体))，接收方应对原始请求体验签
+ */
+export function signWebhookBody(body: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(body).digest("hex");
+}
+
+export function createWebhookNotifier(config: WebhookNotifierConfig): Notifier {
+  return {
+    name: "webhook",
+    async send(message: NotificationMessage) {
+      const body = JSON.stringify({
+        event: message.event,
+        title: message.title,
+        text: message.text,
+        data: message.data ?? {},
+        sentAt: new Date().toISOString(),
+      });
+
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (config.secret) {
+        headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookBody(body, config.secret);
+      }
+
+      const response = await fetch(config.url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(NOTIFY_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook 返回 HTTP ${response.status}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,508 @@
+/**
+ * 下单与支付完成流程（商店 Server Actions、开放 API 与支付回调 / 对账共用）
+ *
+ * 不是 Server Action 模块：买家身份由调用方在完成鉴权后传入，支付结果由调用方验签或查单确认，不能直接暴露给客户端
+ */
+
+import { and, eq, inArray, isNull, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { headers } from "next/headers";
+import { revalidatePath } from "next/cache";
+
+import { db, orders, orderItems, cards, products } from "@/lib/db";
+import type { CreateOrderInput } from "@/lib/validations/order";
+import { getCheckoutPaymentProvider } from "@/lib/payment/registry";
+import type { PaymentFormData } from "@/lib/payment/types";
+import { getExpireTime } from "@/lib/time";
+import { getSystemSettings } from "@/lib/actions/system-settings";
+import { logger } from "@/lib/logger";
+import { sellableCardCondition, sellableCardOrder } from "@/lib/card-expiry";
+import { resolveCouponForOrder } from "@/lib/coupon-usage";
+import { resolveUnitPrice } from "@/lib/pricing";
+import { resolvePurchaseTarget } from "@/lib/product-variants";
+import { scheduleStockAlerts } from "@/lib/stock-alerts";
+
+/**
+ * 从请求头自动获取网站 URL
+ */
+export async function getSiteUrl(): Promise<string> {
+  const headersList = await headers();
+  const host = headersList.get("host") || "localhost:3000";
+  const protocol = headersList.get("x-forwarded-proto") || "http";
+  return `${protocol}://${host}`;
+}
+
+// 生成订单号: 时间戳 + 随机字符
+function generateOrderNo(): string {
+  const timestamp = Date.now().toString(36).toUpperCase();
+  const random = nanoid(6).toUpperCase();
+  return `LD${timestamp}${random}`;
+}
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface OrderLineInput {
+  productId: string;
+  variantId: string | null;
+  categoryId: string | null;
+  productName: string;
+  productPrice: string;
+  quantity: number;
+}
+
+/**
+ * 在事务内创建订单：逐个商品锁定可用卡密，写入订单与订单明细
+ *
+ * 为什么按明细逐行加锁：合并结算时任一商品库存不足都必须整单回滚，
+ * 放在同一事务里可以保证不会出现"部分商品已锁定、订单却失败"的脏状态。
+ */
+export async function insertOrderWithLockedCards(
+  tx: DbTransaction,
+  input: {
+    lines: OrderLineInput[];
+    paymentMethod: CreateOrderInput["paymentMethod"];
+    userId: string;
+    username?: string;
+    expiredAt: Date;
+    couponCode?: string;
+  }
+) {
+  const { lines } = input;
+  const isMultiLine = lines.length > 1;
+
+  // 3.1 查询可用库存（使用 FOR UPDATE 锁定行）
+  const cardIdsByLine: string[][] = [];
+  for (const line of lines) {
+    const availableCards = await tx
+      .select({ id: cards.id })
+      .from(cards)
+      .where(
+        and(
+          eq(cards.productId, line.productId),
+          // 规格商品只从该规格的卡密池出货
+          line.variantId ? eq(cards.variantId, line.variantId) : isNull(cards.variantId),
+          // 跳过已过期的卡密，优先出最早过期的
+          sellableCardCondition()
+        )
+      )
+      .orderBy(sellableCardOrder)
+      .limit(line.quantity)
+      .for("update");
+
+    if (availableCards.length < line.quantity) {
+      throw new Error(
+        isMultiLine
+          ? `「${line.productName}」库存不足，当前仅剩 ${availableCards.length} 件`
+          : `库存不足，当前仅剩 ${availableCards.length} 件`
+      );
+    }
+    cardIdsByLine.push(availableCards.map((c) => c.id));
+  }
+
+  // 金额按分计算，避免多行累加的浮点误差
+  const subtotalCents = lines.map(
+    (line) => Math.round(parseFloat(line.productPrice) * 100) * line.quantity
+  );
+  const grossCents = subtotalCents.reduce((sum, cents) => sum + cents, 0);
+
+  // 3.2 校验优惠码（在事务内锁定优惠码行，保证使用次数上限）
+  let coupon: { couponId: string; code: string; discountCents: number } | null = null;
+  if (input.couponCode) {
+    const resolution = await resolveCouponForOrder(
+      tx,
+      {
+        code: input.couponCode,
+        userId: input.userId,
+        lines: lines.map((line, index) => ({
+          productId: line.productId,
+          categoryId: line.categoryId,
+          subtotalCents: subtotalCents[index],
+        })),
+      },
+      { forUpdate: true }
+    );
+    if (!resolution.ok) {
+      throw new Error(resolution.message);
+    }
+    coupon = resolution;
+  }
+
+  const discountCents = coupon?.discountCents ?? 0;
+  const totalAmount = (grossCents - discountCents) / 100;
+  const totalQuantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+  const orderNo = generateOrderNo();
+
+  // 3.3 创建订单
+  // 合并订单不归属单一商品：productId 置空，productPrice 记录整单金额，明细见 order_items
+  const [newOrder] = await tx
+    .insert(orders)
+    .values({
+      orderNo,
+      productId: isMultiLine ? null : lines[0].productId,
+      variantId: isMultiLine ? null : lines[0].variantId,
+      productName: isMultiLine
+        ? `${lines[0].productName} 等 ${lines.length} 件商品`
+        : lines[0].productName,
+      productPrice: isMultiLine ? (grossCents / 100).toFixed(2) : lines[0].productPrice,
+      quantity: totalQuantity,
+      totalAmount: totalAmount.toFixed(2),
+      couponId: coupon?.couponId ?? null,
+      couponCode: coupon?.code ?? null,
+      discountAmount: (discountCents / 100).toFixed(2),
+      paymentMethod: input.paymentMethod,
+      userId: input.userId,
+      username: input.username,
+      expiredAt: input.expiredAt,
+    })
+    .returning();
+
+  await tx.insert(orderItems).values(
+    lines.map((line, index) => ({
+      orderId: newOrder.id,
+      productId: line.productId,
+      variantId: line.variantId,
+      productName: line.productName,
+      productPrice: line.productPrice,
+      quantity: line.quantity,
+      subtotal: (subtotalCents[index] / 100).toFixed(2),
+    }))
+  );
+
+  // 3.4 锁定卡密
+  for (const [index, line] of lines.entries()) {
+    await tx
+      .update(cards)
+      .set({
+        status: "locked",
+        orderId: newOrder.id,
+        lockedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(cards.productId, line.productId),
+          eq(cards.status, "available"),
+          inArray(cards.id, cardIdsByLine[index])
+        )
+      );
+  }
+
+  return { order: newOrder, totalAmount };
+}
+
+/**
+ * 按订单明细累加商品销量，返回涉及商品的 slug（用于刷新缓存）
+ * 兼容没有明细行的历史订单：回退到 orders.productId + quantity
+ */
+export async function incrementSalesForOrder(
+  tx: DbTransaction,
+  order: { id: string; productId: string | null; quantity: number }
+): Promise<Array<{ id: string; slug: string }>> {
+  let lines = await tx
+    .select({ productId: orderItems.productId, quantity: orderItems.quantity })
+    .from(orderItems)
+    .where(eq(orderItems.orderId, order.id));
+
+  if (lines.length === 0) {
+    lines = [{ productId: order.productId, quantity: order.quantity }];
+  }
+
+  const productIds: string[] = [];
+  for (const line of lines) {
+    if (!line.productId) continue;
+    await tx
+      .update(products)
+      .set({
+        salesCount: sql`${products.salesCount} + ${line.quantity}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(products.id, line.productId));
+    productIds.push(line.productId);
+  }
+
+  if (productIds.length === 0) {
+    return [];
+  }
+
+  return tx
+    .select({ id: products.id, slug: products.slug })
+    .from(products)
+    .where(inArray(products.id, productIds));
+}
+
+/**
+ * 处理支付成功回调
+ * 1. 更新订单状态
+ * 2. 更新卡密状态为已售出
+ * 3. 更新商品销量
+ * 查单补单时网关可能不返回流水号，此时 tradeNo 为 null（订单不能经通道退款）
+ */
+export async function handlePaymentSuccess(
+  orderNo: string,
+  tradeNo: string | null
+): Promise<boolean> {
+  try {
+    const log = logger.child({ action: "handlePaymentSuccess", orderNo, tradeNo });
+    let soldProducts: Array<{ id: string; slug: string }> = [];
+
+    await db.transaction(async (tx) => {
+      // 1. 获取并更新订单
+      const [order] = await tx
+        .update(orders)
+        .set({
+          status: "completed",
+          tradeNo,
+          paidAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(orders.orderNo, orderNo), eq(orders.status, "pending")))
+        .returning();
+
+      if (!order) {
+        throw new Error("订单不存在或已处理");
+      }
+
+      // 2. 更新卡密状态为已售出
+      await tx
+        .update(cards)
+        .set({
+          status: "sold",
+          soldAt: new Date(),
+        })
+        .where(eq(cards.orderId, order.id));
+
+      // 3. 按订单明细更新商品销量（合并订单会涉及多个商品）
+      soldProducts = await incrementSalesForOrder(tx, order);
+    });
+
+    // 刷新页面缓存
+    revalidatePath("/admin/orders");
+    revalidatePath("/admin");
+    revalidatePath("/");
+    for (const product of soldProducts) {
+      revalidatePath(`/product/${product.slug}`);
+    }
+    // 库存预警在响应后发送，避免通知渠道超时拖慢支付网关回调导致重试
+    scheduleStockAlerts(soldProducts.map((product) => product.id));
+    log.info("支付成功回调处理完成");
+    return true;
+  } catch (error) {
+    logger.error({ err: error, action: "handlePaymentSuccess", orderNo, tradeNo }, "处理支付成功回调失败");
+    return false;
+  }
+}
+
+/**
+ * 释放过期订单的锁定卡密
+ * 采用懒加载策略：在关键操作时自动调用
+ *
+ * 时区一致性说明：
+ * - 订单创建时 expiredAt 使用 JavaScript Date（UTC 时间戳）
+ * - PostgreSQL 存储为 timestamp with time zone（内部 UTC）
+ * - 过期检查使用数据库 NOW() 函数（与存储时区一致）
+ * - 这确保了无论服务器部署在哪个时区，过期判断都是准确的
+ */
+export async function releaseExpiredOrders(): Promise<number> {
+  try {
+    const result = await db.transaction(async (tx) => {
+      // 1. 找出所有过期的待支付订单
+      // 使用数据库 NOW() 确保与 expiredAt 时区一致
+      const expiredOrders = await tx
+        .update(orders)
+        .set({
+          status: "expired",
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(orders.status, "pending"),
+            sql`${orders.expiredAt} < NOW()`
+          )
+        )
+        .returning({ id: orders.id });
+
+      if (expiredOrders.length === 0) {
+        return 0;
+      }
+
+      // 2. 释放这些订单锁定的卡密
+      const orderIds = expiredOrders.map((o) => o.id);
+      await tx
+        .update(cards)
+        .set({
+          status: "available",
+          orderId: null,
+          lockedAt: null,
+        })
+        .where(
+          and(
+            eq(cards.status, "locked"),
+            inArray(cards.orderId, orderIds)
+          )
+        );
+
+      return expiredOrders.length;
+    });
+
+    // 刷新页面缓存
+    if (result > 0) {
+      revalidatePath("/admin/orders");
+      revalidatePath("/");
+      logger.info({ action: "releaseExpiredOrders", expiredOrders: result }, "释放过期订单完成");
+    }
+    return result;
+  } catch (error) {
+    logger.error({ err: error, action: "releaseExpiredOrders" }, "释放过期订单失败");
+    return 0;
+  }
+}
+
+export interface CreateOrderResult {
+  success: boolean;
+  message: string;
+  orderNo?: string;
+  paymentForm?: PaymentFormData;
+}
+
+type OrderLogger = Pick<typeof logger, "info" | "warn" | "error">;
+
+export interface OrderBuyer {
+  // Linux DO 用户 ID
+  id: string;
+  username?: string;
+}
+
+/**
+ * 下单购买单个商品（已确定买家身份与校验后的参数）
+ * 1. 检查支付通道与库存
+ * 2. 创建订单并锁定卡密（使用事务）
+ * 3. 调用支付接口获取支付链接
+ *
+ * 供商店下单（Linux DO 登录用户）与开放 API（API Key 绑定的用户）共用
+ */
+export async function placeProductOrder(
+  buyer: OrderBuyer,
+  input: CreateOrderInput,
+  log: OrderLogger
+): Promise<CreateOrderResult> {
+  const { productId, variantId, quantity, paymentMethod, couponCode } = input;
+
+  try {
+    log.info({ userId: buyer.id, productId, variantId, quantity, paymentMethod }, "开始创建订单");
+
+    // 2.0 先确认支付通道可用，避免创建出无法支付的订单并占用库存
+    const paymentProvider = await getCheckoutPaymentProvider(paymentMethod);
+    if (!paymentProvider) {
+      return { success: false, message: "该支付方式暂未开放" };
+    }
+
+    // 2.1 释放过期订单，确保库存准确（懒加载策略）
+    await releaseExpiredOrders();
+    
+    // 2.2 获取商品信息
+    const product = await db.query.products.findFirst({
+      where: and(eq(products.id, productId), eq(products.isActive, true)),
+      with: { variants: true },
+    });
+
+    if (!product) {
+      return { success: false, message: "商品不存在或已下架" };
+    }
+
+    // 启用规格的商品按所选规格定价与限购
+    const target = resolvePurchaseTarget(product, variantId);
+    if (!target.ok) {
+      return { success: false, message: target.message };
+    }
+
+    // 验证购买数量限制
+    if (quantity < target.minQuantity || quantity > target.maxQuantity) {
+      return {
+        success: false,
+        message: `购买数量需在 ${target.minQuantity} - ${target.maxQuantity} 之间`,
+      };
+    }
+
+    const { orderExpireMinutes } = await getSystemSettings();
+
+    // 3. 使用事务处理订单创建和卡密锁定
+    const result = await db.transaction((tx) =>
+      insertOrderWithLockedCards(tx, {
+        lines: [
+          {
+            productId,
+            variantId: target.variantId,
+            categoryId: product.categoryId,
+            productName: target.displayName,
+            // 按购买数量命中的阶梯单价下单，并冻结到订单快照中
+            productPrice: resolveUnitPrice(target.basePrice, target.priceTiers, quantity),
+            quantity,
+          },
+        ],
+        paymentMethod,
+        couponCode: couponCode || undefined,
+        userId: buyer.id,
+        username: buyer.username,
+        // 计算订单过期时间（UTC 时间戳，存入数据库时自动转换）
+        expiredAt: getExpireTime(orderExpireMinutes),
+      })
+    );
+
+    // 4. 刷新页面缓存，确保库存显示准确
+    revalidatePath("/");
+    revalidatePath(`/product/${product.slug}`);
+    scheduleStockAlerts([productId]);
+
+    // 5. 调用所选支付通道生成支付表单
+    let paymentForm: PaymentFormData;
+    try {
+      const siteUrl = await getSiteUrl();
+      paymentForm = paymentProvider.createPayment({
+        orderNo: result.order.orderNo,
+        amount: result.totalAmount,
+        productName: result.order.productName,
+        siteUrl,
+      });
+    } catch (error) {
+      // 支付接口调用失败，但订单已创建
+      log.error(
+        { err: error, orderNo: result.order.orderNo, userId: buyer.id },
+        "创建支付链接失败（订单已创建）"
+      );
+      return {
+        success: true,
+        message: "订单创建成功，但支付链接生成失败，请稍后重试支付",
+        orderNo: result.order.orderNo,
+      };
+    }
+
+    log.info(
+      {
+        orderNo: result.order.orderNo,
+        userId: buyer.id,
+        productId,
+        quantity,
+        totalAmount: result.totalAmount,
+        couponCode: result.order.couponCode,
+        paymentMethod,
+      },
+      "订单创建成功"
+    );
+
+    return {
+      success: true,
+      message: "订单创建成功",
+      orderNo: result.order.orderNo,
+      paymentForm,
+    };
+  } catch (error) {
+    log.error(
+      { err: error, userId: buyer.id, productId, quantity, paymentMethod },
+      "创建订单失败"
+    );
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : "创建订单失败，请稍后重试",
+    };
+  }
+}
+
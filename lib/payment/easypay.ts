@@ -0,0 +1,247 @@
+/**
+ * 通用 EasyPay（易支付）兼容协议
+ * 适配大多数「彩虹易支付」类网关：submit.php 页面跳转支付、api.php 查单/退款、MD5 签名回调
+ */
+
+import crypto from "crypto";
+import type { PaymentMethod } from "@/lib/db";
+import type {
+  PaymentFormData,
+  PaymentNotifyResult,
+  PaymentProvider,
+  PaymentQueryResult,
+  PaymentRefundResult,
+} from "./types";
+
+export interface EasyPayCredentials {
+  gateway: string;
+  pid: string;
+  key: string;
+}
+
+/**
+ * 生成签名
+ * 1. 取所有非空字段（排除 sign、sign_type）
+ * 2. 按 ASCII 升序排列
+ * 3. 拼接成 k1=v1&k2=v2 格式
+ * 4. 末尾追加密钥后 MD5
+ */
+export function generateSign(
+  params: Record<string, string | undefined>,
+  secret: string
+): string {
+  // 过滤空值，排除 sign 和 sign_type
+  const filteredParams = Object.entries(params)
+    .filter(
+      ([key, value]) =>
+        value !== undefined &&
+        value !== "" &&
+        key !== "sign" &&
+        key !== "sign_type"
+    )
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  // 拼接成 k1=v1&k2=v2 格式
+  const queryString = filteredParams
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+
+  // 追加密钥并 MD5
+  const signStr = queryString + secret;
+  return crypto.createHash("md5").update(signStr).digest("hex");
+}
+
+export function normalizeEasyPayGateway(gateway: string): string {
+  return gateway.trim().replace(/\/+$/, "");
+}
+
+/**
+ * 回调日志白名单字段（避免记录 sign 等敏感字段）
+ */
+export function toSafeNotifyLogFields(params: Record<string, string>): Record<string, string> {
+  return {
+    pid: params.pid ?? "",
+    tradeNo: params.trade_no ?? "",
+    orderNo: params.out_trade_no ?? "",
+    paymentType: params.type ?? "",
+    name: params.name ?? "",
+    money: params.money ?? "",
+    tradeStatus: params.trade_status ?? "",
+    signType: params.sign_type ?? "",
+  };
+}
+
+/**
+ * 校验 EasyPay 回调：必要参数、签名算法、商户号与签名
+ */
+export function verifyEasyPayNotify(
+  params: Record<string, string>,
+  credentials: Pick<EasyPayCredentials, "pid" | "key">
+): PaymentNotifyResult {
+  const logFields = toSafeNotifyLogFields(params);
+
+  if (!params.out_trade_no || !params.sign || !params.pid || !params.trade_no || !params.money) {
+    return { ok: false, status: 400, message: "支付回调缺少必要参数", logFields };
+  }
+
+  if (params.sign_type && params.sign_type.toUpperCase() !== "MD5") {
+    return { ok: false, status: 400, message: "支付回调 sign_type 不支持", logFields };
+  }
+
+  if (params.pid !== credentials.pid) {
+    return { ok: false, status: 400, message: "支付回调 pid 不匹配", logFields };
+  }
+
+  const expected = Buffer.from(generateSign(params, credentials.key));
+  const received = Buffer.from(params.sign);
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return { ok: false, status: 400, message: "支付回调签名验证失败", logFields };
+  }
+
+  return {
+    ok: true,
+    notification: {
+      orderNo: params.out_trade_no,
+      tradeNo: params.trade_no,
+      money: params.money,
+      paid: params.trade_status === "TRADE_SUCCESS",
+      logFields,
+    },
+  };
+}
+
+/**
+ * 构建跳转支付表单（由前端 POST 到 submit.php）
+ */
+export function buildEasyPayForm(
+  credentials: EasyPayCredentials,
+  input: {
+    payType: string;
+    orderNo: string;
+    amount: number;
+    productName: string;
+    notifyUrl: string;
+    returnUrl: string;
+  }
+): PaymentFormData {
+  const params: Record<string, string> = {
+    pid: credentials.pid,
+    type: input.payType,
+    out_trade_no: input.orderNo,
+    name: input.productName.slice(0, 64), // 最多 64 字符
+    money: input.amount.toFixed(2),
+    notify_url: input.notifyUrl,
+    return_url: input.returnUrl,
+  };
+
+  return {
+    actionUrl: `${normalizeEasyPayGateway(credentials.gateway)}/submit.php`,
+    params: {
+      ...params,
+      sign: generateSign(params, credentials.key),
+      sign_type: "MD5",
+    },
+  };
+}
+
+async function parseEasyPayResponse(response: Response): Promise<Record<string, unknown>> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    console.error("易支付接口响应解析失败:", text.substring(0, 200));
+    throw new Error("支付平台响应解析失败");
+  }
+}
+
+/**
+ * 查询订单（api.php?act=order，按商户订单号查询）
+ */
+export async function queryEasyPayOrder(
+  credentials: EasyPayCredentials,
+  orderNo: string
+): Promise<PaymentQueryResult> {
+  const query = new URLSearchParams({
+    act: "order",
+    pid: credentials.pid,
+    key: credentials.key,
+    out_trade_no: orderNo,
+  });
+
+  const response = await fetch(`${normalizeEasyPayGateway(credentials.gateway)}/api.php?${query}`, {
+    headers: { Accept: "application/json" },
+  });
+  const result = await parseEasyPayResponse(response);
+
+  if (Number(result.code) !== 1) {
+    throw new Error(String(result.msg || "查询订单失败"));
+  }
+
+  return {
+    orderNo: String(result.out_trade_no ?? orderNo),
+    tradeNo: String(result.trade_no ?? ""),
+    money: String(result.money ?? ""),
+    paid: Number(result.status) === 1,
+  };
+}
+
+/**
+ * 退款（api.php?act=refund）
+ */
+export async function refundEasyPayOrder(
+  credentials: EasyPayCredentials,
+  ref: { tradeNo: string; money: string }
+): Promise<PaymentRefundResult> {
+  const body = new URLSearchParams({
+    pid: credentials.pid,
+    key: credentials.key,
+    trade_no: ref.tradeNo,
+    money: ref.money,
+  });
+
+  const response = await fetch(`${normalizeEasyPayGateway(credentials.gateway)}/api.php?act=refund`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body: body.toString(),
+  });
+  const result = await parseEasyPayResponse(response);
+
+  if (Number(result.code) !== 1) {
+    return { success: false, message: String(result.msg || "支付平台返回错误") };
+  }
+  return { success: true, message: String(result.msg || "退款成功") };
+}
+
+/**
+ * 创建通用 EasyPay 通道
+ * @param method 本站支付方式
+ * @param payType 网关侧的支付类型（如 alipay / wxpay）
+ */
+export function createEasyPayProvider(
+  method: PaymentMethod,
+  payType: string,
+  credentials: EasyPayCredentials
+): PaymentProvider {
+  const notifyPath = `/api/payment/${method}/notify`;
+
+  return {
+    method,
+    notifyPath,
+    createPayment: ({ orderNo, amount, productName, siteUrl }) =>
+      buildEasyPayForm(credentials, {
+        payType,
+        orderNo,
+        amount,
+        productName,
+        notifyUrl: `${siteUrl}${notifyPath}`,
+        returnUrl: `${siteUrl}/order/result?out_trade_no=${orderNo}`,
+      }),
+    verifyNotify: (params) => verifyEasyPayNotify(params, credentials),
+    queryOrder: ({ orderNo }) => queryEasyPayOrder(credentials, orderNo),
+    isRefundEnabled: () => true,
+    refund: ({ tradeNo, money }) => refundEasyPayOrder(credentials, { tradeNo, money }),
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * LDC 支付通道适配
+ * 将 ldc.ts 中的 LDC 接口封装为统一的 PaymentProvider
+ */
+
+import { verifyEasyPayNotify, toSafeNotifyLogFields } from "./easypay";
+import {
+  createPayment,
+  isRefundEnabled,
+  queryPaymentOrder,
+  refundOrder,
+  type NotifyParams,
+} from "./ldc";
+import type { PaymentProvider } from "./types";
+
+/**
+ * 凭据沿用环境变量（LDC_CLIENT_ID / LDC_CLIENT_SECRET），回调地址保留旧的 /api/payment/notify
+ */
+export const ldcPaymentProvider: PaymentProvider = {
+  method: "ldc",
+  notifyPath: "/api/payment/notify",
+  createPayment: ({ orderNo, amount, productName, siteUrl }) =>
+    createPayment(orderNo, amount, productName, siteUrl),
+  verifyNotify: (params) => {
+    // 仅取 LDC 回调约定的字段参与验签
+    const notifyParams: NotifyParams = {
+      pid: params.pid || "",
+      trade_no: params.trade_no || "",
+      out_trade_no: params.out_trade_no || "",
+      type: params.type || "",
+      name: params.name || "",
+      money: params.money || "",
+      trade_status: params.trade_status || "",
+      sign_type: params.sign_type || "",
+      sign: params.sign || "",
+    };
+    const logFields = toSafeNotifyLogFields({ ...notifyParams });
+
+    const secret = process.env.LDC_CLIENT_SECRET;
+    if (!secret) {
+      return { ok: false, status: 500, message: "LDC_CLIENT_SECRET 未配置", logFields };
+    }
+    const pid = process.env.LDC_CLIENT_ID;
+    if (!pid) {
+      return { ok: false, status: 500, message: "LDC_CLIENT_ID 未配置", logFields };
+    }
+
+    return verifyEasyPayNotify({ ...notifyParams }, { pid, key: secret });
+  },
+  queryOrder: async ({ orderNo, tradeNo }) => {
+    const result = await queryPaymentOrder({ orderNo, tradeNo });
+    return {
+      orderNo: result.out_trade_no || orderNo,
+      tradeNo: result.trade_no || "",
+      money: String(result.money ?? ""),
+      paid: Number(result.status) === 1,
+    };
+  },
+  // 退款模式由 LDC_REFUND_MODE / LDC_PROXY_URL 决定
+  isRefundEnabled,
+  refund: async ({ tradeNo, money }) => {
+    const result = await refundOrder(tradeNo, money);
+    if (result.code !== 1) {
+      return { success: false, message: result.msg || "支付平台返回错误" };
+    }
+    return { success: true, message: result.msg || "退款成功" };
+  },
+};
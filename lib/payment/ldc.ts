@@ -4,6 +4,11 @@
  */
 
 import crypto from "crypto";
+import { generateSign } from "./easypay";
+import type { PaymentFormData } from "./types";
+
+export { generateSign };
+export type { PaymentFormData };
 
 /**
  * 退款模式
@@ -103,38 +108,6 @@ interface OrderQueryResult {
   status: number;
 }
 
-/**
- * 生成签名
- * 1. 取所有非空字段（排除 sign、sign_type）
- * 2. 按 ASCII 升序排列
- * 3. 拼接成 k1=v1&k2=v2 格式
- * 4. 末尾追加密钥后 MD5
- */
-export function generateSign(
-  params: Record<string, string | undefined>,
-  secret: string
-): string {
-  // 过滤空值，排除 sign 和 sign_type
-  const filteredParams = Object.entries(params)
-    .filter(
-      ([key, value]) =>
-        value !== undefined &&
-        value !== "" &&
-        key !== "sign" &&
-        key !== "sign_type"
-    )
-    .sort(([a], [b]) => a.localeCompare(b));
-
-  // 拼接成 k1=v1&k2=v2 格式
-  const queryString = filteredParams
-    .map(([key, value]) => `${key}=${value}`)
-    .join("&");
-
-  // 追加密钥并 MD5
-  const signStr = queryString + secret;
-  return crypto.createHash("md5").update(signStr).digest("hex");
-}
-
 /**
  * 验证回调签名
  */
@@ -160,11 +133,6 @@ export function verifySign(params: NotifyParams, secret: string): boolean {
   return sign === expectedSign;
 }
 
-export interface PaymentFormData {
-  actionUrl: string;
-  params: Record<string, string>;
-}
-
 /**
  * 创建支付订单
  * 返回表单数据，由前端创建表单并 POST 提交（绕过 Cloudflare）
@@ -226,11 +194,13 @@ export function createPayment(
 
 /**
  * 查询订单状态
+ * 优先按平台流水号查询，未支付订单尚无流水号时按商户订单号查询
  * 支持通过 LDC_PROXY_URL 代理请求
  */
-export async function queryPaymentOrder(
-  tradeNo: string
-): Promise<OrderQueryResult> {
+export async function queryPaymentOrder(ref: {
+  tradeNo?: string | null;
+  orderNo?: string;
+}): Promise<OrderQueryResult> {
   const pid = process.env.LDC_CLIENT_ID;
   const secret = process.env.LDC_CLIENT_SECRET;
 
@@ -243,7 +213,7 @@ export async function queryPaymentOrder(
     act: "order",
     pid,
     key: secret,
-    trade_no: tradeNo,
+    ...(ref.tradeNo ? { trade_no: ref.tradeNo } : { out_trade_no: ref.orderNo ?? "" }),
   });
 
   const url = `${apiUrl}?${params}`;
@@ -0,0 +1,370 @@
+/**
+ * 支付回调处理（各通道的 notify 路由共用）
+ * 验签交由对应通道完成，其余订单/金额/状态校验与幂等处理在此统一实现
+ * 每次处理结果都会写入 payment_notify_logs；验签通过但处理失败的回调可由管理员重放
+ */
+
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db, orders, paymentNotifyLogs, type PaymentMethod } from "@/lib/db";
+import { handlePaymentSuccess } from "@/lib/order-placement";
+import { logger } from "@/lib/logger";
+import { parseAmountToCents } from "@/lib/money";
+import { getPaymentProvider } from "./registry";
+import {
+  recordPaymentNotify,
+  redactNotifyParams,
+  type PaymentNotifyAmountCheck,
+  type PaymentNotifyOutcome,
+} from "./notify-log";
+import type { PaymentNotification } from "./types";
+
+type NotifyLogger = Pick<typeof logger, "info" | "warn" | "error">;
+
+interface NotifyApplyResult {
+  outcome: PaymentNotifyOutcome;
+  httpStatus: number;
+  message: string;
+  amountCheck?: PaymentNotifyAmountCheck;
+  orderStatusBefore?: string;
+  orderStatusAfter?: string;
+}
+
+function toResponse(result: { outcome: PaymentNotifyOutcome; httpStatus: number }): NextResponse {
+  if (result.outcome === "rejected" || result.outcome === "failed") {
+    return new NextResponse("fail", { status: result.httpStatus });
+  }
+  return new NextResponse("success");
+}
+
+/**
+ * 对已验签的回调执行订单校验与发货（实时回调与管理员重放共用，已处理的订单直接视为成功）
+ */
+async function applyPaymentNotification(
+  method: PaymentMethod,
+  notification: PaymentNotification,
+  log: NotifyLogger,
+  startTime: number
+): Promise<NotifyApplyResult> {
+  const logFields = notification.logFields;
+
+  // 验证订单与金额（防御式校验）
+  const order = await db.query.orders.findFirst({
+    where: eq(orders.orderNo, notification.orderNo),
+    columns: {
+      id: true,
+      status: true,
+      totalAmount: true,
+      paymentMethod: true,
+      tradeNo: true,
+    },
+  });
+
+  if (!order) {
+    log.warn({ durationMs: Date.now() - startTime, params: logFields }, "支付回调订单不存在");
+    return { outcome: "rejected", httpStatus: 400, message: "支付回调订单不存在" };
+  }
+
+  const orderStatusBefore = order.status;
+
+  if (order.paymentMethod !== method) {
+    log.warn(
+      {
+        durationMs: Date.now() - startTime,
+        paymentMethod: order.paymentMethod,
+        params: logFields,
+      },
+      "支付回调支付方式不匹配"
+    );
+    return {
+      outcome: "rejected",
+      httpStatus: 400,
+      message: "支付回调支付方式不匹配",
+      orderStatusBefore,
+      orderStatusAfter: orderStatusBefore,
+    };
+  }
+
+  const expectedCents = parseAmountToCents(order.totalAmount);
+  const receivedCents = parseAmountToCents(notification.money);
+  if (expectedCents === null || receivedCents === null || expectedCents !== receivedCents) {
+    log.warn(
+      {
+        durationMs: Date.now() - startTime,
+        expected: order.totalAmount,
+        received: notification.money,
+        params: logFields,
+      },
+      "支付回调金额不匹配"
+    );
+    return {
+      outcome: "rejected",
+      httpStatus: 400,
+      message: `支付回调金额不匹配（订单 ${order.totalAmount}，回调 ${notification.money}）`,
+      amountCheck: "mismatch",
+      orderStatusBefore,
+      orderStatusAfter: orderStatusBefore,
+    };
+  }
+
+  const unchanged = { amountCheck: "passed" as const, orderStatusBefore, orderStatusAfter: orderStatusBefore };
+
+  // 幂等：订单已处理则直接确认成功，避免支付平台重复通知
+  if (order.status === "completed" || order.status === "paid") {
+    log.info(
+      {
+        durationMs: Date.now() - startTime,
+        orderId: order.id,
+        orderStatus: order.status,
+        params: logFields,
+      },
+      "支付回调重复投递（已处理）"
+    );
+    return { outcome: "duplicate", httpStatus: 200, message: "支付回调重复投递（已处理）", ...unchanged };
+  }
+
+  // 验证交易状态
+  if (!notification.paid) {
+    log.info(
+      {
+        durationMs: Date.now() - startTime,
+        orderId: order.id,
+        orderStatus: order.status,
+        params: logFields,
+      },
+      "交易状态非成功"
+    );
+    return { outcome: "ignored", httpStatus: 200, message: "交易状态非成功", ...unchanged };
+  }
+
+  // 非待支付状态不再重复处理（例如 expired/refunded）
+  if (order.status !== "pending") {
+    log.warn(
+      {
+        durationMs: Date.now() - startTime,
+        orderId: order.id,
+        orderStatus: order.status,
+        params: logFields,
+      },
+      "支付回调订单状态不可处理"
+    );
+    return { outcome: "ignored", httpStatus: 200, message: "支付回调订单状态不可处理", ...unchanged };
+  }
+
+  // 处理支付成功
+  try {
+    const result = await handlePaymentSuccess(notification.orderNo, notification.tradeNo);
+
+    if (result) {
+      log.info(
+        { durationMs: Date.now() - startTime, orderId: order.id, params: logFields },
+        "订单支付成功处理完成"
+      );
+      return {
+        outcome: "processed",
+        httpStatus: 200,
+        message: "订单支付成功处理完成",
+        ...unchanged,
+        orderStatusAfter: "completed",
+      };
+    }
+
+    // 兜底再查一次，避免并发/重复回调导致的误判
+    const latest = await db.query.orders.findFirst({
+      where: eq(orders.orderNo, notification.orderNo),
+      columns: { status: true },
+    });
+    if (latest?.status === "completed" || latest?.status === "paid") {
+      log.info(
+        {
+          durationMs: Date.now() - startTime,
+          orderId: order.id,
+          latestStatus: latest.status,
+          params: logFields,
+        },
+        "订单状态已更新（兜底确认）"
+      );
+      return {
+        outcome: "duplicate",
+        httpStatus: 200,
+        message: "订单状态已更新（兜底确认）",
+        ...unchanged,
+        orderStatusAfter: latest.status,
+      };
+    }
+
+    log.error(
+      { durationMs: Date.now() - startTime, orderId: order.id, params: logFields },
+      "订单处理失败"
+    );
+    return {
+      outcome: "failed",
+      httpStatus: 500,
+      message: "订单处理失败",
+      ...unchanged,
+      orderStatusAfter: latest?.status ?? orderStatusBefore,
+    };
+  } catch (error) {
+    log.error(
+      { durationMs: Date.now() - startTime, orderId: order.id, err: error, params: logFields },
+      "处理支付回调异常"
+    );
+    return {
+      outcome: "failed",
+      httpStatus: 500,
+      message: `处理支付回调异常：${error instanceof Error ? error.message : "未知错误"}`,
+      ...unchanged,
+    };
+  }
+}
+
+export async function handlePaymentNotify(options: {
+  method: PaymentMethod;
+  params: Record<string, string>;
+  requestId: string;
+  route: string;
+}): Promise<NextResponse> {
+  const startTime = Date.now();
+  const { method, params } = options;
+  const log = logger.child({ requestId: options.requestId, route: options.route, paymentMethod: method });
+  const entryBase = {
+    paymentMethod: method,
+    route: options.route,
+    requestId: options.requestId,
+    params: redactNotifyParams(params),
+  };
+
+  const provider = await getPaymentProvider(method);
+  if (!provider) {
+    log.error({ durationMs: Date.now() - startTime }, "支付通道未配置");
+    await recordPaymentNotify({
+      ...entryBase,
+      verified: false,
+      outcome: "failed",
+      httpStatus: 500,
+      message: "支付通道未配置",
+    });
+    return new NextResponse("fail", { status: 500 });
+  }
+
+  const verified = provider.verifyNotify(params);
+  if (!verified.ok) {
+    const payload = { durationMs: Date.now() - startTime, params: verified.logFields };
+    if (verified.status === 500) {
+      log.error(payload, verified.message);
+    } else {
+      log.warn(payload, verified.message);
+    }
+    await recordPaymentNotify({
+      ...entryBase,
+      verified: false,
+      orderNo: params.out_trade_no || null,
+      outcome: verified.status === 500 ? "failed" : "rejected",
+      httpStatus: verified.status,
+      message: verified.message,
+    });
+    return new NextResponse("fail", { status: verified.status });
+  }
+
+  const notification = verified.notification;
+  let result: NotifyApplyResult;
+  try {
+    result = await applyPaymentNotification(method, notification, log, startTime);
+  } catch (error) {
+    log.error({ durationMs: Date.now() - startTime, err: error }, "处理支付回调异常");
+    result = {
+      outcome: "failed",
+      httpStatus: 500,
+      message: `处理支付回调异常：${error instanceof Error ? error.message : "未知错误"}`,
+    };
+  }
+
+  await recordPaymentNotify({
+    ...entryBase,
+    verified: true,
+    orderNo: notification.orderNo,
+    tradeNo: notification.tradeNo,
+    money: notification.money,
+    tradePaid: notification.paid,
+    ...result,
+  });
+
+  return toResponse(result);
+}
+
+/**
+ * 管理员重放已存储的回调：跳过验签（原始请求已验签，sign 已脱敏），按存储的通知内容重新执行订单处理
+ * 重放结果写入新记录并关联原始回调；订单已处理时返回 duplicate，不会重复发货
+ */
+export async function replayPaymentNotify(options: {
+  logId: string;
+  requestId?: string;
+  operator: string;
+}): Promise<{ success: boolean; message: string; outcome?: PaymentNotifyOutcome }> {
+  const startTime = Date.now();
+  const entry = await db.query.paymentNotifyLogs.findFirst({
+    where: eq(paymentNotifyLogs.id, options.logId),
+  });
+
+  if (!entry) {
+    return { success: false, message: "回调记录不存在" };
+  }
+
+  if (
+    !entry.verified ||
+    entry.outcome !== "failed" ||
+    !entry.orderNo ||
+    entry.money === null ||
+    entry.tradePaid === null
+  ) {
+    return { success: false, message: "仅可重放验签通过且处理失败的回调" };
+  }
+
+  const log = logger.child({
+    requestId: options.requestId,
+    route: "replay",
+    paymentMethod: entry.paymentMethod,
+    replayOfId: entry.id,
+  });
+
+  const notification: PaymentNotification = {
+    orderNo: entry.orderNo,
+    tradeNo: entry.tradeNo ?? "",
+    money: entry.money,
+    paid: entry.tradePaid,
+    logFields: entry.params,
+  };
+
+  let result: NotifyApplyResult;
+  try {
+    result = await applyPaymentNotification(entry.paymentMethod, notification, log, startTime);
+  } catch (error) {
+    log.error({ durationMs: Date.now() - startTime, err: error }, "重放支付回调异常");
+    result = {
+      outcome: "failed",
+      httpStatus: 500,
+      message: `重放支付回调异常：${error instanceof Error ? error.message : "未知错误"}`,
+    };
+  }
+
+  await recordPaymentNotify({
+    paymentMethod: entry.paymentMethod,
+    route: "replay",
+    requestId: options.requestId ?? null,
+    params: entry.params,
+    verified: true,
+    orderNo: entry.orderNo,
+    tradeNo: entry.tradeNo,
+    money: entry.money,
+    tradePaid: entry.tradePaid,
+    ...result,
+    replayOfId: entry.replayOfId ?? entry.id,
+    replayedBy: options.operator,
+  });
+
+  return {
+    success: result.outcome === "processed" || result.outcome === "duplicate",
+    message: result.message,
+    outcome: result.outcome,
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * 支付回调日志（只追加）
+ * 每次回调与管理员重放都会写入一条记录；写入失败只记 pino 日志，不影响回调本身的处理结果
+ */
+
+import { db, paymentNotifyLogs, type NewPaymentNotifyLog } from "@/lib/db";
+import { logger } from "@/lib/logger";
+
+export const PAYMENT_NOTIFY_OUTCOMES = [
+  "processed",
+  "duplicate",
+  "ignored",
+  "rejected",
+  "failed",
+] as const;
+
+export type PaymentNotifyOutcome = (typeof PAYMENT_NOTIFY_OUTCOMES)[number];
+
+export type PaymentNotifyAmountCheck = "passed" | "mismatch";
+
+const REDACTED_PARAM_KEYS = new Set(["sign", "key"]);
+
+/**
+ * 脱敏回调参数：签名等字段只保留占位，其余原样保存以便排查
+ */
+export function redactNotifyParams(params: Record<string, string>): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  for (const [key, value] of Object.entries(params)) {
+    redacted[key] = REDACTED_PARAM_KEYS.has(key.toLowerCase()) && value ? "[REDACTED]" : value;
+  }
+  return redacted;
+}
+
+export async function recordPaymentNotify(
+  entry: Omit<NewPaymentNotifyLog, "id" | "createdAt"> & { outcome: PaymentNotifyOutcome }
+): Promise<string | null> {
+  try {
+    const [row] = await db
+      .insert(paymentNotifyLogs)
+      .values(entry)
+      .returning({ id: paymentNotifyLogs.id });
+    return row?.id ?? null;
+  } catch (error) {
+    logger
+      .child({ requestId: entry.requestId, route: entry.route, paymentMethod: entry.paymentMethod })
+      .error({ err: error, orderNo: entry.orderNo, outcome: entry.outcome }, "写入支付回调日志失败");
+    return null;
+  }
+}
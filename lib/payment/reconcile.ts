@@ -0,0 +1,292 @@
+/**
+ * 支付对账
+ *
+ * 回调丢失时，已支付订单会停留在 pending 直到过期并释放卡密。这里主动向支付通道查单：
+ * - 待支付订单：网关已支付则走 handlePaymentSuccess 完成发货
+ * - 近期过期订单：网关已支付则重新锁定卡密后完成；库存已被售出时记入差异报告，交由人工处理
+ * - 金额不一致的订单不自动处理，仅记入差异报告
+ */
+
+import { and, asc, eq, gt, inArray, isNull, or, sql } from "drizzle-orm";
+import { db, orders, orderItems, cards, type Order, type PaymentMethod } from "@/lib/db";
+import { handlePaymentSuccess } from "@/lib/order-placement";
+import { sellableCardCondition, sellableCardOrder } from "@/lib/card-expiry";
+import { logger } from "@/lib/logger";
+import { parseAmountToCents } from "@/lib/money";
+import { getPaymentProvider } from "./registry";
+import type { PaymentProvider, PaymentQueryResult } from "./types";
+
+export const RECONCILE_DEFAULT_EXPIRED_WITHIN_HOURS = 24;
+// 每页查询的候选订单数：按创建时间从早到晚分页，直到没有剩余候选
+export const RECONCILE_PAGE_SIZE = 100;
+
+// 复活过期订单后给予的处理窗口，避免 releaseExpiredOrders 在完成前再次将其过期
+const REVIVE_GRACE_MS = 5 * 60 * 1000;
+
+export type ReconcileMismatchKind = "amount_mismatch" | "stock_unavailable" | "complete_failed";
+
+export interface ReconcileMismatch {
+  orderNo: string;
+  paymentMethod: PaymentMethod;
+  kind: ReconcileMismatchKind;
+  localStatus: string;
+  localAmount: string;
+  gatewayAmount: string;
+  gatewayTradeNo: string;
+  message: string;
+}
+
+export interface ReconcileReport {
+  checked: number;
+  /** 本次补单完成的订单号 */
+  completed: string[];
+  /** 网关确认未支付的订单数 */
+  unpaid: number;
+  queryFailed: { orderNo: string; message: string }[];
+  mismatches: ReconcileMismatch[];
+}
+
+export interface ReconcileOptions {
+  /** 过期多久以内的订单参与对账（小时） */
+  expiredWithinHours?: number;
+  /** 单次最多对账的订单数（默认不限制，处理完全部候选订单） */
+  limit?: number;
+}
+
+class ReviveStockError extends Error {}
+
+/**
+ * 将已过期的订单恢复为待支付并重新锁定卡密（同一事务内，任一商品库存不足则整单回滚）
+ */
+async function reviveExpiredOrder(order: Order): Promise<void> {
+  await db.transaction(async (tx) => {
+    const [revived] = await tx
+      .update(orders)
+      .set({
+        status: "pending",
+        expiredAt: new Date(Date.now() + REVIVE_GRACE_MS),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(orders.id, order.id), eq(orders.status, "expired")))
+      .returning({ id: orders.id });
+
+    if (!revived) {
+      throw new Error("订单状态已变化");
+    }
+
+    const items = await tx
+      .select({
+        productId: orderItems.productId,
+        variantId: orderItems.variantId,
+        quantity: orderItems.quantity,
+      })
+      .from(orderItems)
+      .where(eq(orderItems.orderId, order.id));
+
+    // 早期订单没有明细，按订单上的单商品字段恢复
+    const lines =
+      items.length > 0
+        ? items
+        : [{ productId: order.productId, variantId: order.variantId, quantity: order.quantity }];
+
+    for (const line of lines) {
+      if (!line.productId) {
+        throw new ReviveStockError("订单商品已删除");
+      }
+
+      const availableCards = await tx
+        .select({ id: cards.id })
+        .from(cards)
+        .where(
+          and(
+            eq(cards.productId, line.productId),
+            line.variantId ? eq(cards.variantId, line.variantId) : isNull(cards.variantId),
+            sellableCardCondition()
+          )
+        )
+        .orderBy(sellableCardOrder)
+        .limit(line.quantity)
+        .for("update");
+
+      if (availableCards.length < line.quantity) {
+        throw new ReviveStockError(`库存不足，当前仅剩 ${availableCards.length} 件`);
+      }
+
+      await tx
+        .update(cards)
+        .set({ status: "locked", orderId: order.id, lockedAt: new Date() })
+        .where(
+          inArray(
+            cards.id,
+            availableCards.map((card) => card.id)
+          )
+        );
+    }
+  });
+}
+
+export type SettleGatewayPaidResult =
+  | { ok: true; completed: boolean }
+  | { ok: false; kind: ReconcileMismatchKind; message: string };
+
+/**
+ * 网关已确认支付后的本地补单：校验金额 → 必要时恢复过期订单 → handlePaymentSuccess
+ * 对账任务与用户「我已支付」查单共用；completed=false 表示订单已被回调等并发流程处理
+ */
+export async function settleGatewayPaidOrder(
+  order: Order,
+  gateway: PaymentQueryResult
+): Promise<SettleGatewayPaidResult> {
+  const localCents = parseAmountToCents(order.totalAmount);
+  const gatewayCents = parseAmountToCents(gateway.money);
+  if (localCents === null || gatewayCents === null || localCents !== gatewayCents) {
+    return { ok: false, kind: "amount_mismatch", message: "网关支付金额与订单金额不一致" };
+  }
+
+  if (order.status === "expired") {
+    try {
+      await reviveExpiredOrder(order);
+    } catch (error) {
+      if (error instanceof ReviveStockError) {
+        return {
+          ok: false,
+          kind: "stock_unavailable",
+          message: `网关已支付，但订单已过期且${error.message}，需人工处理`,
+        };
+      }
+      return {
+        ok: false,
+        kind: "complete_failed",
+        message: error instanceof Error ? error.message : "恢复过期订单失败",
+      };
+    }
+  }
+
+  // 网关未返回流水号时留空，不能用本站订单号代替：退款会把它作为 trade_no 发给网关
+  const completed = await handlePaymentSuccess(order.orderNo, gateway.tradeNo || null);
+  if (completed) {
+    return { ok: true, completed: true };
+  }
+
+  // 可能与支付回调并发处理，回查一次
+  const latest = await db.query.orders.findFirst({
+    where: eq(orders.id, order.id),
+    columns: { status: true },
+  });
+  if (latest?.status === "completed" || latest?.status === "paid") {
+    return { ok: true, completed: false };
+  }
+  return { ok: false, kind: "complete_failed", message: "网关已支付，但本地补单失败" };
+}
+
+export async function reconcilePayments(options: ReconcileOptions = {}): Promise<ReconcileReport> {
+  const expiredWithinHours = options.expiredWithinHours ?? RECONCILE_DEFAULT_EXPIRED_WITHIN_HOURS;
+  const { limit } = options;
+  const log = logger.child({ action: "reconcilePayments" });
+
+  const report: ReconcileReport = {
+    checked: 0,
+    completed: [],
+    unpaid: 0,
+    queryFailed: [],
+    mismatches: [],
+  };
+
+  const candidateCondition = or(
+    eq(orders.status, "pending"),
+    and(
+      eq(orders.status, "expired"),
+      sql`${orders.expiredAt} > NOW() - make_interval(hours => ${expiredWithinHours})`
+    )
+  );
+
+  const providers = new Map<PaymentMethod, PaymentProvider | null>();
+  let cursor: { createdAt: Date; id: string } | null = null;
+
+  // 从最早的订单开始：它们最先离开过期窗口；按 (createdAt, id) 游标分页，未支付的订单不会被重复查询
+  while (limit === undefined || report.checked < limit) {
+    const pageSize =
+      limit === undefined ? RECONCILE_PAGE_SIZE : Math.min(RECONCILE_PAGE_SIZE, limit - report.checked);
+    const page: Order[] = await db.query.orders.findMany({
+      where: cursor
+        ? and(
+            candidateCondition,
+            or(
+              gt(orders.createdAt, cursor.createdAt),
+              and(eq(orders.createdAt, cursor.createdAt), gt(orders.id, cursor.id))
+            )
+          )
+        : candidateCondition,
+      orderBy: [asc(orders.createdAt), asc(orders.id)],
+      limit: pageSize,
+    });
+
+    for (const order of page) {
+      report.checked += 1;
+
+      if (!providers.has(order.paymentMethod)) {
+        providers.set(order.paymentMethod, await getPaymentProvider(order.paymentMethod));
+      }
+      const provider = providers.get(order.paymentMethod);
+      if (!provider) {
+        report.queryFailed.push({ orderNo: order.orderNo, message: "支付通道未配置" });
+        continue;
+      }
+
+      // 逐单顺序查询，避免并发请求触发支付平台限流
+      let gateway;
+      try {
+        gateway = await provider.queryOrder({ orderNo: order.orderNo, tradeNo: order.tradeNo });
+      } catch (error) {
+        report.queryFailed.push({
+          orderNo: order.orderNo,
+          message: error instanceof Error ? error.message : "查询失败",
+        });
+        continue;
+      }
+
+      if (!gateway.paid) {
+        report.unpaid += 1;
+        continue;
+      }
+
+      const settled = await settleGatewayPaidOrder(order, gateway);
+      if (settled.ok) {
+        if (settled.completed) {
+          report.completed.push(order.orderNo);
+        }
+        continue;
+      }
+
+      report.mismatches.push({
+        orderNo: order.orderNo,
+        paymentMethod: order.paymentMethod,
+        kind: settled.kind,
+        localStatus: order.status,
+        localAmount: order.totalAmount,
+        gatewayAmount: gateway.money,
+        gatewayTradeNo: gateway.tradeNo,
+        message: settled.message,
+      });
+    }
+
+    if (page.length < pageSize) {
+      break;
+    }
+    const last = page[page.length - 1];
+    cursor = { createdAt: last.createdAt, id: last.id };
+  }
+
+  log.info(
+    {
+      checked: report.checked,
+      completed: report.completed.length,
+      unpaid: report.unpaid,
+      queryFailed: report.queryFailed.length,
+      mismatches: report.mismatches.length,
+    },
+    "支付对账完成"
+  );
+
+  return report;
+}
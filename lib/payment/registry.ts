@@ -0,0 +1,118 @@
+/**
+ * 支付通道注册表
+ * LDC 凭据来自环境变量；EasyPay 类通道（支付宝/微信）的网关与商户凭据保存在系统配置（settings 表）中
+ */
+
+import { db, settings, type PaymentMethod } from "@/lib/db";
+import { inArray } from "drizzle-orm";
+import {
+  EASYPAY_METHODS,
+  EASYPAY_PAY_TYPES,
+  type EasyPayMethod,
+} from "@/lib/validations/payment-settings";
+import { createEasyPayProvider, type EasyPayCredentials } from "./easypay";
+import { ldcPaymentProvider } from "./ldc-provider";
+import type { PaymentProvider } from "./types";
+
+export interface EasyPayChannelConfig extends EasyPayCredentials {
+  enabled: boolean;
+}
+
+const CHANNEL_FIELDS = ["enabled", "gateway", "pid", "key"] as const;
+
+export function getPaymentSettingKey(
+  method: EasyPayMethod,
+  field: (typeof CHANNEL_FIELDS)[number]
+): string {
+  return `payment.${method}.${field}`;
+}
+
+function isEasyPayMethod(method: PaymentMethod): method is EasyPayMethod {
+  return (EASYPAY_METHODS as readonly string[]).includes(method);
+}
+
+/**
+ * 是否为已接入支付通道的支付方式（LDC 与 EasyPay 类通道）；预留的 usdt 等枚举值没有通道
+ */
+export function isRegisteredPaymentMethod(value: string): value is PaymentMethod {
+  return value === "ldc" || (EASYPAY_METHODS as readonly string[]).includes(value);
+}
+
+function isChannelUsable(config: EasyPayChannelConfig): boolean {
+  return Boolean(config.gateway && config.pid && config.key);
+}
+
+/**
+ * 读取全部 EasyPay 通道配置（含密钥，仅限服务端使用）
+ */
+export async function loadEasyPayChannelConfigs(): Promise<Record<EasyPayMethod, EasyPayChannelConfig>> {
+  const keys = EASYPAY_METHODS.flatMap((method) =>
+    CHANNEL_FIELDS.map((field) => getPaymentSettingKey(method, field))
+  );
+  const rows = await db
+    .select({ key: settings.key, value: settings.value })
+    .from(settings)
+    .where(inArray(settings.key, keys));
+
+  const map = new Map<string, string | null>(rows.map((row) => [row.key, row.value]));
+  const read = (method: EasyPayMethod, field: (typeof CHANNEL_FIELDS)[number]) =>
+    map.get(getPaymentSettingKey(method, field)) ?? "";
+
+  return Object.fromEntries(
+    EASYPAY_METHODS.map((method) => [
+      method,
+      {
+        enabled: read(method, "enabled") === "true",
+        gateway: read(method, "gateway"),
+        pid: read(method, "pid"),
+        key: read(method, "key"),
+      },
+    ])
+  ) as Record<EasyPayMethod, EasyPayChannelConfig>;
+}
+
+async function resolvePaymentProvider(
+  method: PaymentMethod,
+  requireEnabled: boolean
+): Promise<PaymentProvider | null> {
+  if (method === "ldc") {
+    return ldcPaymentProvider;
+  }
+  if (!isEasyPayMethod(method)) {
+    return null;
+  }
+
+  const config = (await loadEasyPayChannelConfigs())[method];
+  if ((requireEnabled && !config.enabled) || !isChannelUsable(config)) {
+    return null;
+  }
+  return createEasyPayProvider(method, EASYPAY_PAY_TYPES[method], config);
+}
+
+/**
+ * 获取支付通道（只要凭据齐全即返回）
+ * 回调、查单、退款使用：通道停用后，已创建的订单仍需要能完成结算与退款
+ */
+export async function getPaymentProvider(method: PaymentMethod): Promise<PaymentProvider | null> {
+  return resolvePaymentProvider(method, false);
+}
+
+/**
+ * 获取可用于下单的支付通道（需已启用）
+ */
+export async function getCheckoutPaymentProvider(
+  method: PaymentMethod
+): Promise<PaymentProvider | null> {
+  return resolvePaymentProvider(method, true);
+}
+
+/**
+ * 当前可下单的支付方式（LDC 始终在首位）
+ */
+export async function getEnabledPaymentMethods(): Promise<PaymentMethod[]> {
+  const configs = await loadEasyPayChannelConfigs();
+  return [
+    "ldc",
+    ...EASYPAY_METHODS.filter((method) => configs[method].enabled && isChannelUsable(configs[method])),
+  ];
+}
@@ -0,0 +1,23 @@
+import type { PaymentFormData } from "./types";
+
+/**
+ * 在浏览器中以隐藏表单 POST 的方式跳转到支付页
+ * 仅可在客户端调用（依赖 document）
+ */
+export function submitPaymentForm(paymentForm: PaymentFormData): void {
+  const form = document.createElement("form");
+  form.method = "POST";
+  form.action = paymentForm.actionUrl;
+  form.style.display = "none";
+
+  Object.entries(paymentForm.params).forEach(([key, value]) => {
+    const input = document.createElement("input");
+    input.type = "hidden";
+    input.name = key;
+    input.value = value;
+    form.appendChild(input);
+  });
+
+  document.body.appendChild(form);
+  form.submit();
+}
@@ -0,0 +1,65 @@
+/**
+ * 支付通道抽象
+ * 每个支付方式（ldc/alipay/wechat/...）实现同一接口，下单、回调、查单、退款统一经由该接口调用
+ */
+
+import type { PaymentMethod } from "@/lib/db";
+
+export interface PaymentFormData {
+  actionUrl: string;
+  params: Record<string, string>;
+}
+
+export interface CreatePaymentInput {
+  orderNo: string;
+  amount: number;
+  productName: string;
+  siteUrl: string;
+}
+
+/**
+ * 验签通过后的回调内容（已转换为与通道无关的字段）
+ */
+export interface PaymentNotification {
+  orderNo: string;
+  tradeNo: string;
+  money: string;
+  /** 通道是否报告交易成功 */
+  paid: boolean;
+  /** 仅用于日志排障的白名单字段（不含 sign 等敏感字段） */
+  logFields: Record<string, string>;
+}
+
+export type PaymentNotifyResult =
+  | { ok: true; notification: PaymentNotification }
+  | {
+      ok: false;
+      /** 400: 请求本身非法；500: 本站配置缺失 */
+      status: 400 | 500;
+      message: string;
+      logFields: Record<string, string>;
+    };
+
+export interface PaymentQueryResult {
+  orderNo: string;
+  tradeNo: string;
+  money: string;
+  paid: boolean;
+}
+
+export interface PaymentRefundResult {
+  success: boolean;
+  message: string;
+}
+
+export interface PaymentProvider {
+  method: PaymentMethod;
+  /** 通道的回调路径（相对站点根路径） */
+  notifyPath: string;
+  createPayment(input: CreatePaymentInput): PaymentFormData;
+  verifyNotify(params: Record<string, string>): PaymentNotifyResult;
+  queryOrder(ref: { orderNo: string; tradeNo?: string | null }): Promise<PaymentQueryResult>;
+  /** 通道当前是否支持由服务端发起退款 */
+  isRefundEnabled(): boolean;
+  refund(ref: { orderNo: string; tradeNo: string; money: string }): Promise<PaymentRefundResult>;
+}
@@ -0,0 +1,69 @@
+import type { PriceTier } from "@/lib/db";
+
+/**
+ * 阶梯价计算（纯函数，前台实时展示与下单事务共用，保证两边口径一致）
+ *
+ * 规则：选取 minQuantity <= 购买数量 的最高一档；数量未达到第一档时使用商品基础售价。
+ */
+
+export function normalizePriceTiers(
+  tiers: ReadonlyArray<{ minQuantity: number; price: number | string }> | null | undefined
+): PriceTier[] {
+  if (!tiers || tiers.length === 0) return [];
+
+  return [...tiers]
+    .map((tier) => ({
+      minQuantity: tier.minQuantity,
+      price: Number(tier.price).toFixed(2),
+    }))
+    .sort((a, b) => a.minQuantity - b.minQuantity);
+}
+
+export function resolveUnitPrice(
+  basePrice: string,
+  tiers: ReadonlyArray<PriceTier> | null | undefined,
+  quantity: number
+): string {
+  let unitPrice = basePrice;
+  let matchedMin = 0;
+
+  for (const tier of tiers ?? []) {
+    if (quantity >= tier.minQuantity && tier.minQuantity > matchedMin) {
+      unitPrice = tier.price;
+      matchedMin = tier.minQuantity;
+    }
+  }
+
+  return unitPrice;
+}
+
+export interface PriceTierRange {
+  minQuantity: number;
+  maxQuantity: number | null;
+  price: string;
+}
+
+/**
+ * 将基础售价与阶梯价展开为连续区间，用于前台展示「1-4 件 10 LDC」之类的价格表
+ */
+export function buildPriceTierRanges(
+  basePrice: string,
+  tiers: ReadonlyArray<PriceTier> | null | undefined
+): PriceTierRange[] {
+  const sorted = normalizePriceTiers(tiers).filter((tier) => tier.minQuantity > 1);
+  if (sorted.length === 0) return [];
+
+  const ranges: PriceTierRange[] = [];
+  const starts = [{ minQuantity: 1, price: basePrice }, ...sorted];
+
+  starts.forEach((tier, index) => {
+    const next = starts[index + 1];
+    ranges.push({
+      minQuantity: tier.minQuantity,
+      maxQuantity: next ? next.minQuantity - 1 : null,
+      price: tier.price,
+    });
+  });
+
+  return ranges;
+}
@@ -0,0 +1,83 @@
+import type { PriceTier } from "@/lib/db";
+
+/**
+ * 商品规格解析（纯函数，下单、加购、优惠码预览共用）
+ *
+ * 商品存在启用中的规格时必须选择规格，价格与限购以规格为准（规格不叠加商品阶梯价）；
+ * 未启用规格的商品沿用商品本身的价格、阶梯价与限购。
+ */
+
+export interface VariantOption {
+  id: string;
+  name: string;
+  price: string;
+  minQuantity: number;
+  maxQuantity: number;
+  isActive: boolean;
+}
+
+export interface VariantSource {
+  name: string;
+  price: string;
+  priceTiers?: PriceTier[] | null;
+  minQuantity: number;
+  maxQuantity: number;
+  variants?: VariantOption[] | null;
+}
+
+export type PurchaseTarget =
+  | {
+      ok: true;
+      variantId: string | null;
+      displayName: string;
+      basePrice: string;
+      priceTiers: PriceTier[];
+      minQuantity: number;
+      maxQuantity: number;
+    }
+  | { ok: false; message: string };
+
+export function formatVariantProductName(productName: string, variantName?: string | null): string {
+  return variantName ? `${productName}（${variantName}）` : productName;
+}
+
+export function resolvePurchaseTarget(
+  product: VariantSource,
+  variantId?: string | null
+): PurchaseTarget {
+  const activeVariants = (product.variants ?? []).filter((variant) => variant.isActive);
+
+  if (activeVariants.length === 0) {
+    if (variantId) {
+      return { ok: false, message: "所选规格不存在或已下架" };
+    }
+    return {
+      ok: true,
+      variantId: null,
+      displayName: product.name,
+      basePrice: product.price,
+      priceTiers: product.priceTiers ?? [],
+      minQuantity: product.minQuantity,
+      maxQuantity: product.maxQuantity,
+    };
+  }
+
+  if (!variantId) {
+    return { ok: false, message: "请选择商品规格" };
+  }
+
+  const variant = activeVariants.find((v) => v.id === variantId);
+  if (!variant) {
+    return { ok: false, message: "所选规格不存在或已下架" };
+  }
+
+  return {
+    ok: true,
+    variantId: variant.id,
+    displayName: formatVariantProductName(product.name, variant.name),
+    basePrice: variant.price,
+    priceTiers: [],
+    minQuantity: variant.minQuantity,
+    maxQuantity: variant.maxQuantity,
+  };
+}
@@ -1,6 +1,6 @@
 /**
  * 登录速率限制器（数据库存储）
- * 用于防止管理员密码暴力破解攻击
+ * 用于防止管理员密码暴力破解攻击，另提供通用的固定窗口限流供其他用户操作复用
  */
 
 import { db, loginRateLimits } from "@/lib/db";
@@ -210,6 +210,89 @@ export async function recordFailedAttempt(identifier: string): Promise<RateLimit
   });
 }
 
+/**
+ * 通用固定窗口限流（复用 login_rate_limits 表，标识符需带业务前缀以免与登录限流冲突）
+ * 每次调用计一次，窗口内达到上限后拒绝，窗口过期自动重置
+ * @param identifier 标识符（如 `payment-check:<userId>`）
+ */
+export async function consumeRateLimit(
+  identifier: string,
+  options: { windowMs: number; maxAttempts: number }
+): Promise<RateLimitResult> {
+  const nowMs = Date.now();
+  const now = new Date(nowMs);
+
+  return db.transaction(async (tx) => {
+    const firstAttempt: RateLimitResult = {
+      success: true,
+      remaining: options.maxAttempts - 1,
+      resetIn: secondsUntil(nowMs + options.windowMs, nowMs),
+      blocked: false,
+    };
+
+    // 先插入再加锁：并发的首次请求只有一方插入成功，另一方冲突后在下面的 FOR UPDATE 上排队，
+    // 不会因唯一约束报错（先 SELECT 再 INSERT 时两方都查不到记录）
+    const inserted = await tx
+      .insert(loginRateLimits)
+      .values({
+        identifier,
+        count: 1,
+        firstAttemptAt: now,
+        lastAttemptAt: now,
+        blockedUntil: null,
+      })
+      .onConflictDoNothing({ target: loginRateLimits.identifier })
+      .returning({ identifier: loginRateLimits.identifier });
+    if (inserted.length > 0) {
+      return firstAttempt;
+    }
+
+    const [record] = await tx
+      .select()
+      .from(loginRateLimits)
+      .where(eq(loginRateLimits.identifier, identifier))
+      .for("update");
+    // 冲突的记录已被并发清除，视为窗口内第一次
+    if (!record) {
+      return firstAttempt;
+    }
+
+    const windowEndsMs = record.firstAttemptAt.getTime() + options.windowMs;
+    if (nowMs > windowEndsMs) {
+      await tx
+        .update(loginRateLimits)
+        .set({ count: 1, firstAttemptAt: now, lastAttemptAt: now, blockedUntil: null })
+        .where(eq(loginRateLimits.identifier, identifier));
+
+      return firstAttempt;
+    }
+
+    if (record.count >= options.maxAttempts) {
+      const resetIn = secondsUntil(windowEndsMs, nowMs);
+      return {
+        success: false,
+        remaining: 0,
+        resetIn,
+        blocked: false,
+        message: `操作过于频繁，请 ${resetIn} 秒后再试`,
+      };
+    }
+
+    const newCount = record.count + 1;
+    await tx
+      .update(loginRateLimits)
+      .set({ count: newCount, lastAttemptAt: now })
+      .where(eq(loginRateLimits.identifier, identifier));
+
+    return {
+      success: true,
+      remaining: options.maxAttempts - newCount,
+      resetIn: secondsUntil(windowEndsMs, nowMs),
+      blocked: false,
+    };
+  });
+}
+
 /**
  * 登录成功后清除记录
  * @param identifier 标识符
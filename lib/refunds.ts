@@ -0,0 +1,130 @@
+/**
+ * 部分退款金额计算（纯函数，退款弹窗实时展示与退款事务共用，保证两边口径一致）
+ *
+ * 规则：
+ * - 每张卡密按所属明细的单价计权，再按「实付金额 / 原价合计」折算（优惠码折扣按比例分摊）
+ * - 退还订单上剩余的全部卡密时，退款金额为剩余未退金额，避免多次四舍五入产生尾差
+ * - 单次退款金额不超过剩余未退金额
+ *
+ * 退款卡密按商品的 refundCardPolicy 处理（管理员可在审批时覆盖），默认隔离待复核
+ */
+
+import type { RefundCardPolicy } from "@/lib/db";
+import { parseAmountToCents } from "@/lib/money";
+
+export interface RefundOrderLine {
+  productId: string | null;
+  variantId: string | null;
+  productPrice: string;
+  quantity: number;
+}
+
+export interface RefundCard {
+  id: string;
+  productId: string | null;
+  variantId: string | null;
+}
+
+export interface RefundAmountInput {
+  totalAmount: string;
+  refundedAmount: string;
+  lines: RefundOrderLine[];
+  /** 订单上仍处于已售出状态的卡密 */
+  soldCards: RefundCard[];
+  selectedCardIds: string[];
+}
+
+export interface RefundAmountResult {
+  amountCents: number;
+  /** 是否已退还订单上全部剩余卡密（退款后订单为 refunded） */
+  isFull: boolean;
+}
+
+function toCents(value: string): number {
+  return parseAmountToCents(value) ?? 0;
+}
+
+export function formatCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+export function computeRefundAmount(input: RefundAmountInput): RefundAmountResult {
+  const totalCents = toCents(input.totalAmount);
+  const remainingCents = Math.max(0, totalCents - toCents(input.refundedAmount));
+
+  const selected = new Set(input.selectedCardIds);
+  const selectedCards = input.soldCards.filter((card) => selected.has(card.id));
+  const isFull = selectedCards.length === input.soldCards.length;
+
+  if (isFull) {
+    return { amountCents: remainingCents, isFull };
+  }
+
+  const grossCents = input.lines.reduce(
+    (sum, line) => sum + toCents(line.productPrice) * line.quantity,
+    0
+  );
+  const totalQuantity = input.lines.reduce((sum, line) => sum + line.quantity, 0);
+  if (grossCents <= 0 || totalQuantity <= 0) {
+    return { amountCents: 0, isFull };
+  }
+
+  // 商品被删除等情况下无法匹配明细，按订单平均单价计
+  const averageCents = grossCents / totalQuantity;
+  const priceOf = (card: RefundCard): number => {
+    const line = input.lines.find(
+      (item) =>
+        item.productId !== null &&
+        item.productId === card.productId &&
+        (item.variantId ?? null) === (card.variantId ?? null)
+    );
+    return line ? toCents(line.productPrice) : averageCents;
+  };
+
+  const selectedGross = selectedCards.reduce((sum, card) => sum + priceOf(card), 0);
+  const amountCents = Math.round((totalCents * selectedGross) / grossCents);
+
+  return { amountCents: Math.min(amountCents, remainingCents), isFull };
+}
+
+export const refundCardPolicyLabels: Record<RefundCardPolicy, string> = {
+  recycle: "放回可用库存",
+  void: "作废",
+  quarantine: "隔离待复核",
+};
+
+export function isRefundCardPolicy(value: unknown): value is RefundCardPolicy {
+  return typeof value === "string" && value in refundCardPolicyLabels;
+}
+
+/** 退款后卡密的目标状态：仅 recycle 会让卡密重新进入可售库存 */
+export function cardStatusAfterRefund(policy: RefundCardPolicy): "available" | "void" | "quarantined" {
+  switch (policy) {
+    case "recycle":
+      return "available";
+    case "void":
+      return "void";
+    case "quarantine":
+      return "quarantined";
+  }
+}
+
+/**
+ * 按处理策略分组退款卡密：管理员指定了策略时统一使用，否则按卡密所属商品的策略
+ * 商品已删除等无法取得策略时按 quarantine 处理
+ */
+export function groupRefundCardsByPolicy(
+  cards: { id: string; productId: string | null }[],
+  productPolicies: Map<string, RefundCardPolicy>,
+  override?: RefundCardPolicy
+): Map<RefundCardPolicy, string[]> {
+  const groups = new Map<RefundCardPolicy, string[]>();
+  for (const card of cards) {
+    const policy =
+      override ?? (card.productId ? productPolicies.get(card.productId) : undefined) ?? "quarantine";
+    const ids = groups.get(policy) ?? [];
+    ids.push(card.id);
+    groups.set(policy, ids);
+  }
+  return groups;
+}
@@ -0,0 +1,194 @@
+/**
+ * 利润报表（纯函数）
+ *
+ * 报表周期按业务时区（STATS_TIMEZONE）的自然日 / 周（周一开始）/ 月划分，
+ * 页面与 CSV 导出共用同一套周期解析与毛利计算。
+ */
+
+import { addLocalDays, formatLocalDate, parseLocalDate } from "@/lib/time/stats";
+
+export const REPORT_PERIODS = ["day", "week", "month"] as const;
+export type ReportPeriod = (typeof REPORT_PERIODS)[number];
+
+export const REPORT_DIMENSIONS = ["product", "category", "batch"] as const;
+export type ReportDimension = (typeof REPORT_DIMENSIONS)[number];
+
+export const reportPeriodLabels: Record<ReportPeriod, string> = {
+  day: "日",
+  week: "周",
+  month: "月",
+};
+
+export const reportDimensionLabels: Record<ReportDimension, string> = {
+  product: "商品",
+  category: "分类",
+  batch: "导入批次",
+};
+
+export interface ReportWindow {
+  period: ReportPeriod;
+  startDate: string; // 周期首日（含）
+  endDate: string; // 下一周期首日（不含）
+  label: string;
+  prevDate: string;
+  nextDate: string;
+}
+
+export interface ProfitReportRow {
+  key: string;
+  name: string;
+  detail: string | null; // 附加说明（商品所属分类 / 批次所属商品与导入日期）
+  orders: number;
+  units: number;
+  revenue: number; // 实收金额（已扣除优惠）
+  refunds: number;
+  cost: number; // 已售卡密的进货成本
+  uncostedUnits: number; // 未填写进货单价的已售卡密数
+}
+
+export interface ProfitMetrics {
+  netRevenue: number;
+  grossProfit: number;
+  margin: number | null; // 毛利率，净收入为 0 时为空
+}
+
+function addMonths(date: Date, months: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function normalizeReportPeriod(value?: string | null): ReportPeriod {
+  return REPORT_PERIODS.includes(value as ReportPeriod) ? (value as ReportPeriod) : "day";
+}
+
+export function normalizeReportDimension(value?: string | null): ReportDimension {
+  return REPORT_DIMENSIONS.includes(value as ReportDimension) ? (value as ReportDimension) : "product";
+}
+
+/**
+ * 校验报表日期（YYYY-MM-DD），无效时回退到 fallback（通常为业务时区的今日）
+ */
+export function normalizeReportDate(value: string | null | undefined, fallback: string): string {
+  return value && parseLocalDate(value) ? value : fallback;
+}
+
+/**
+ * 计算包含指定日期的报表周期
+ */
+export function resolveReportWindow(period: ReportPeriod, date: string): ReportWindow {
+  const anchor = parseLocalDate(date);
+  if (!anchor) {
+    throw new Error(`无效的报表日期：${date}`);
+  }
+
+  if (period === "day") {
+    return {
+      period,
+      startDate: formatLocalDate(anchor),
+      endDate: formatLocalDate(addLocalDays(anchor, 1)),
+      label: formatLocalDate(anchor),
+      prevDate: formatLocalDate(addLocalDays(anchor, -1)),
+      nextDate: formatLocalDate(addLocalDays(anchor, 1)),
+    };
+  }
+
+  if (period === "week") {
+    // getUTCDay：周日为 0，周一为 1；周期从周一开始
+    const start = addLocalDays(anchor, -((anchor.getUTCDay() + 6) % 7));
+    const end = addLocalDays(start, 7);
+    return {
+      period,
+      startDate: formatLocalDate(start),
+      endDate: formatLocalDate(end),
+      label: `${formatLocalDate(start)} ~ ${formatLocalDate(addLocalDays(end, -1))}`,
+      prevDate: formatLocalDate(addLocalDays(start, -7)),
+      nextDate: formatLocalDate(end),
+    };
+  }
+
+  const start = addMonths(anchor, 0); // 当月 1 日
+  const end = addMonths(anchor, 1);
+  return {
+    period,
+    startDate: formatLocalDate(start),
+    endDate: formatLocalDate(end),
+    label: formatLocalDate(start).slice(0, 7),
+    prevDate: formatLocalDate(addMonths(anchor, -1)),
+    nextDate: formatLocalDate(end),
+  };
+}
+
+/**
+ * 毛利 = 实收 - 退款 - 成本；毛利率 = 毛利 / (实收 - 退款)
+ */
+export function getProfitMetrics(row: Pick<ProfitReportRow, "revenue" | "refunds" | "cost">): ProfitMetrics {
+  const netRevenue = roundCents(row.revenue - row.refunds);
+  const grossProfit = roundCents(netRevenue - row.cost);
+  return {
+    netRevenue,
+    grossProfit,
+    margin: netRevenue > 0 ? grossProfit / netRevenue : null,
+  };
+}
+
+export function formatMargin(margin: number | null): string {
+  return margin === null ? "-" : `${(margin * 100).toFixed(1)}%`;
+}
+
+function csvEscape(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+/**
+ * 生成利润报表 CSV（含合计行，带 UTF-8 BOM 便于 Excel 打开）
+ */
+export function buildProfitReportCsv(report: {
+  dimension: ReportDimension;
+  window: ReportWindow;
+  timeZone: string;
+  rows: ProfitReportRow[];
+  totals: ProfitReportRow;
+}): string {
+  const header = [
+    "周期",
+    reportDimensionLabels[report.dimension],
+    "说明",
+    "订单数",
+    "数量",
+    "实收",
+    "退款",
+    "净收入",
+    "成本",
+    "毛利",
+    "毛利率",
+    "未计成本数量",
+  ];
+
+  const toLine = (row: ProfitReportRow) => {
+    const metrics = getProfitMetrics(row);
+    return [
+      `${report.window.label} (${report.timeZone})`,
+      row.name,
+      row.detail,
+      row.orders,
+      row.units,
+      row.revenue.toFixed(2),
+      row.refunds.toFixed(2),
+      metrics.netRevenue.toFixed(2),
+      row.cost.toFixed(2),
+      metrics.grossProfit.toFixed(2),
+      formatMargin(metrics.margin),
+      row.uncostedUnits,
+    ]
+      .map(csvEscape)
+      .join(",");
+  };
+
+  const lines = [header.join(","), ...report.rows.map(toLine), toLine(report.totals)];
+  return `\ufeff${lines.join("\n")}`;
+}
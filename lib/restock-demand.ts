@@ -0,0 +1,81 @@
+/**
+ * 催补货需求看板
+ *
+ * - 按待通知人数排序，人数相同时优先请求速度更快、缺货更久的商品
+ * - 请求速度 = 统计窗口内新增（或重新登记）的催补货请求数 / 天数
+ * - 缺货时长按最后一张卡密售出 / 锁定 / 过期的时间估算，商品从未有过卡密时按上架时间计算
+ */
+
+import { addLocalDays, formatLocalDate, parseLocalDate } from "@/lib/time/stats";
+
+export const RESTOCK_DEMAND_WINDOWS = [7, 14, 30] as const;
+
+export type RestockDemandWindow = (typeof RESTOCK_DEMAND_WINDOWS)[number];
+
+export const DEFAULT_RESTOCK_DEMAND_WINDOW: RestockDemandWindow = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RestockDemandRow {
+  productId: string;
+  productName: string;
+  productSlug: string;
+  isActive: boolean;
+  stock: number;
+  pending: number;
+  notified: number;
+  lastRequestedAt: string | null;
+  /** 可售库存为 0 时的缺货起始时间（估算），有库存时为 null */
+  outOfStockSince: string | null;
+  /** 统计窗口内每天的请求数，与 labels 一一对应 */
+  daily: number[];
+}
+
+export function resolveRestockDemandWindow(value: string | undefined): RestockDemandWindow {
+  const days = Number(value);
+  return RESTOCK_DEMAND_WINDOWS.find((window) => window === days) ?? DEFAULT_RESTOCK_DEMAND_WINDOW;
+}
+
+/**
+ * 统计窗口：以 today 结尾的 days 个业务日期（YYYY-MM-DD），endDate 为半开区间的结束日期
+ */
+export function getRestockDemandRange(
+  today: string,
+  days: number
+): { dates: string[]; from: string; endDate: string } {
+  const end = parseLocalDate(today) ?? addLocalDays(new Date(), 0);
+  const dates = Array.from({ length: days }, (_, index) =>
+    formatLocalDate(addLocalDays(end, index - days + 1))
+  );
+  return { dates, from: dates[0], endDate: formatLocalDate(addLocalDays(end, 1)) };
+}
+
+/**
+ * 每天平均新增请求数（保留一位小数）
+ */
+export function getRestockVelocity(daily: number[]): number {
+  if (daily.length === 0) return 0;
+  const total = daily.reduce((sum, count) => sum + count, 0);
+  return Math.round((total / daily.length) * 10) / 10;
+}
+
+/**
+ * 缺货天数（不足一天记为 0），有库存时返回 null
+ */
+export function getDaysOutOfStock(since: string | null, now: Date = new Date()): number | null {
+  if (!since) return null;
+  const start = new Date(since).getTime();
+  if (Number.isNaN(start)) return null;
+  return Math.max(0, Math.floor((now.getTime() - start) / DAY_MS));
+}
+
+export function sortRestockDemand(rows: RestockDemandRow[], now: Date = new Date()): RestockDemandRow[] {
+  return [...rows].sort(
+    (a, b) =>
+      b.pending - a.pending ||
+      getRestockVelocity(b.daily) - getRestockVelocity(a.daily) ||
+      (getDaysOutOfStock(b.outOfStockSince, now) ?? -1) -
+        (getDaysOutOfStock(a.outOfStockSince, now) ?? -1) ||
+      a.productName.localeCompare(b.productName)
+  );
+}
@@ -0,0 +1,172 @@
+/**
+ * 到货通知
+ *
+ * 商品从缺货恢复可售后（导入 / 新增卡密），通知所有待通知的催补货用户一次：
+ * - Linux DO 论坛私信：配置 LINUXDO_FORUM_API_KEY 后发送，最多 RESTOCK_PM_CONCURRENCY 个并发
+ * - 通用 Webhook：配置 NOTIFY_WEBHOOK_URL 后发送一条 restock.available 事件，附带用户列表
+ *
+ * 发送前先写入 notifiedAt 抢占，并发补货时每个请求只会被通知一次；所有渠道都失败的请求会恢复为待通知。
+ * 已通知的请求视为归档，不再计入前台催补货人数，用户再次催补货时重新登记。
+ * 导入 / 新增卡密使用 scheduleRestockNotifications 在响应发出后发送，导入结果不依赖私信是否送达。
+ */
+
+import { and, eq, inArray, isNull, sql } from "drizzle-orm";
+import { headers } from "next/headers";
+
+import { db, cards, products, restockRequests } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { runAfterResponse } from "@/lib/background";
+import { sellableCardCondition } from "@/lib/card-expiry";
+import { getLinuxDoForumConfig, getWebhookNotifier } from "@/lib/notifications";
+import { sendLinuxDoPrivateMessage } from "@/lib/notifications/linuxdo";
+
+// 论坛私信的并发数：避免逐个发送过慢，也避免瞬间请求过多触发论坛限流
+const RESTOCK_PM_CONCURRENCY = 5;
+
+export interface RestockNotifyProduct {
+  id: string;
+  name: string;
+  url: string | null;
+  stock: number;
+}
+
+export function buildRestockPrivateMessage(product: RestockNotifyProduct, username: string) {
+  return {
+    username,
+    title: `你催补货的「${product.name}」已到货`,
+    raw: [
+      `你好，你在商店催补货的商品「${product.name}」已经补货，现在可以购买了。`,
+      product.url ? `商品链接：${product.url}` : null,
+      "库存有限，先到先得。本通知只发送一次，如再次缺货可重新催补货。",
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+  };
+}
+
+async function getProductUrl(slug: string): Promise<string | null> {
+  // 在请求上下文之外（如定时任务）取不到请求头，此时不附带链接
+  try {
+    const headersList = await headers();
+    const host = headersList.get("host");
+    if (!host) return null;
+    const protocol = headersList.get("x-forwarded-proto") || "http";
+    return `${protocol}://${host}/product/${slug}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 商品可售时通知待通知的催补货用户；内部吞掉异常，不影响调用方主流程
+ * @returns 本次成功通知的用户数
+ */
+export async function notifyRestockRequesters(productId: string): Promise<number> {
+  const log = logger.child({ action: "notifyRestockRequesters", productId });
+
+  const forum = getLinuxDoForumConfig();
+  const webhook = getWebhookNotifier();
+  if (!forum && !webhook) {
+    // 没有可用渠道时保留请求，配置后下次补货再通知
+    return 0;
+  }
+
+  try {
+    const [product] = await db
+      .select({
+        id: products.id,
+        name: products.name,
+        slug: products.slug,
+        isActive: products.isActive,
+        stock: sql<number>`count(${cards.id})::int`,
+      })
+      .from(products)
+      .leftJoin(cards, and(eq(cards.productId, products.id), sellableCardCondition()))
+      .where(eq(products.id, productId))
+      .groupBy(products.id);
+
+    if (!product || !product.isActive || product.stock === 0) {
+      return 0;
+    }
+
+    const claimed = await db
+      .update(restockRequests)
+      .set({ notifiedAt: new Date() })
+      .where(and(eq(restockRequests.productId, productId), isNull(restockRequests.notifiedAt)))
+      .returning({
+        id: restockRequests.id,
+        userId: restockRequests.userId,
+        username: restockRequests.username,
+      });
+
+    if (claimed.length === 0) {
+      return 0;
+    }
+
+    const target: RestockNotifyProduct = {
+      id: product.id,
+      name: product.name,
+      url: await getProductUrl(product.slug),
+      stock: product.stock,
+    };
+    const delivered = new Set<string>();
+
+    if (webhook) {
+      try {
+        await webhook.send({
+          event: "restock.available",
+          title: `到货通知：${product.name}`,
+          text: `「${product.name}」已补货，通知 ${claimed.length} 位催补货用户`,
+          data: {
+            productId: target.id,
+            productName: target.name,
+            productUrl: target.url,
+            stock: target.stock,
+            requesters: claimed.map((row) => ({ userId: row.userId, username: row.username })),
+          },
+        });
+        claimed.forEach((row) => delivered.add(row.id));
+      } catch (error) {
+        log.error({ err: error }, "到货通知 Webhook 发送失败");
+      }
+    }
+
+    if (forum) {
+      const queue = [...claimed];
+      const worker = async () => {
+        for (let row = queue.shift(); row; row = queue.shift()) {
+          try {
+            await sendLinuxDoPrivateMessage(forum, buildRestockPrivateMessage(target, row.username));
+            delivered.add(row.id);
+          } catch (error) {
+            log.warn({ err: error, userId: row.userId }, "到货私信发送失败");
+          }
+        }
+      };
+      await Promise.all(
+        Array.from({ length: Math.min(RESTOCK_PM_CONCURRENCY, queue.length) }, worker)
+      );
+    }
+
+    const failedIds = claimed.filter((row) => !delivered.has(row.id)).map((row) => row.id);
+    if (failedIds.length > 0) {
+      await db
+        .update(restockRequests)
+        .set({ notifiedAt: null })
+        .where(inArray(restockRequests.id, failedIds));
+    }
+
+    log.info({ notified: delivered.size, failed: failedIds.length }, "到货通知完成");
+    return delivered.size;
+  } catch (error) {
+    log.error({ err: error }, "到货通知失败");
+    return 0;
+  }
+}
+
+/**
+ * 在响应发出后执行 notifyRestockRequesters；调用方不等待私信与 Webhook 发送
+ */
+export function scheduleRestockNotifications(productId: string): void {
+  runAfterResponse("notifyRestockRequesters", () => notifyRestockRequesters(productId));
+}
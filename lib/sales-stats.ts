@@ -0,0 +1,74 @@
+/**
+ * 销售统计共用的 SQL 片段（利润报表、销售分析）
+ */
+
+import { sql, type SQL } from "drizzle-orm";
+
+// 已支付的订单状态（含之后申请或完成退款的订单）
+export const PAID_ORDER_STATUSES = [
+  "paid",
+  "completed",
+  "refund_pending",
+  "refund_rejected",
+  "refunded",
+  "partially_refunded",
+] as const;
+
+export function paidOrderStatusCondition(column: SQL): SQL {
+  return sql`${column} IN (${sql.join(
+    PAID_ORDER_STATUSES.map((status) => sql`${status}`),
+    sql`, `
+  )})`;
+}
+
+/**
+ * [start, end) 内已支付订单按「订单 + 商品」汇总的实收、退款与成本（WITH 子句中的 CTE 列表）
+ *
+ * - 按订单支付时间划分范围，之后发生的退款计入原订单所在范围
+ * - 优惠与退款按明细金额占比分摊到商品
+ * - 成本为仍关联订单的卡密（已售、退款后作废/隔离）的批次进货单价；退款回收的卡密回到库存，不计成本
+ */
+export function orderProductsCteSql(start: SQL, end: SQL): SQL {
+  return sql`
+    paid_orders AS (
+      SELECT o.id, o.product_id, o.quantity,
+        o.total_amount::numeric AS total,
+        o.refunded_amount::numeric AS refunded
+      FROM orders o
+      WHERE o.paid_at >= ${start} AND o.paid_at < ${end}
+        AND ${paidOrderStatusCondition(sql`o.status`)}
+    ),
+    lines AS (
+      SELECT oi.order_id, oi.product_id, oi.quantity, oi.subtotal::numeric AS gross
+      FROM order_items oi
+      JOIN paid_orders po ON po.id = oi.order_id
+      UNION ALL
+      -- 早期订单没有明细，按订单上的单商品字段构造
+      SELECT po.id, po.product_id, po.quantity, po.total
+      FROM paid_orders po
+      WHERE NOT EXISTS (SELECT 1 FROM order_items oi WHERE oi.order_id = po.id)
+    ),
+    order_gross AS (
+      SELECT order_id, SUM(gross) AS gross FROM lines GROUP BY order_id
+    ),
+    order_products AS (
+      SELECT l.order_id, l.product_id,
+        SUM(l.quantity)::int AS units,
+        SUM(CASE WHEN g.gross > 0 THEN po.total * l.gross / g.gross ELSE 0 END) AS revenue,
+        SUM(CASE WHEN g.gross > 0 THEN po.refunded * l.gross / g.gross ELSE 0 END) AS refunds
+      FROM lines l
+      JOIN order_gross g ON g.order_id = l.order_id
+      JOIN paid_orders po ON po.id = l.order_id
+      GROUP BY l.order_id, l.product_id
+    ),
+    order_product_costs AS (
+      SELECT c.order_id, c.product_id,
+        SUM(b.unit_cost) AS cost,
+        (COUNT(*) FILTER (WHERE b.unit_cost IS NULL))::int AS uncosted
+      FROM cards c
+      JOIN paid_orders po ON po.id = c.order_id
+      LEFT JOIN card_import_batches b ON b.id = c.batch_id
+      GROUP BY c.order_id, c.product_id
+    )
+  `;
+}
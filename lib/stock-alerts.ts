@@ -0,0 +1,144 @@
+/**
+ * 库存预警
+ *
+ * - 每个商品可设置预警阈值（lowStockThreshold，0 为关闭），可售库存低于阈值时发送通知
+ * - lowStockAlertedAt 记录已发出的预警：通过条件更新抢占，并发下同一轮缺货只通知一次
+ * - 库存回到阈值及以上时清空标记；由导入卡密补货时额外发送“已补货”通知
+ * - 下单、支付回调等请求路径使用 scheduleStockAlerts，在响应发出后再检查并发送，避免通知渠道拖慢响应
+ */
+
+import { and, eq, gt, inArray, isNotNull, isNull, sql } from "drizzle-orm";
+
+import { db, cards, products } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { runAfterResponse } from "@/lib/background";
+import { sellableCardCondition } from "@/lib/card-expiry";
+import { sendNotification, type NotificationMessage } from "@/lib/notifications";
+
+export type StockAlertTransition = "low" | "restocked" | null;
+
+export interface StockAlertProduct {
+  id: string;
+  name: string;
+  threshold: number;
+  stock: number;
+}
+
+/**
+ * 根据当前库存与预警标记判断是否需要切换状态
+ */
+export function getStockAlertTransition(input: {
+  stock: number;
+  threshold: number;
+  alerted: boolean;
+}): StockAlertTransition {
+  if (input.threshold <= 0) {
+    return null;
+  }
+  if (input.stock < input.threshold) {
+    return input.alerted ? null : "low";
+  }
+  return input.alerted ? "restocked" : null;
+}
+
+export function buildStockAlertMessage(
+  transition: Exclude<StockAlertTransition, null>,
+  product: StockAlertProduct
+): NotificationMessage {
+  const data = {
+    productId: product.id,
+    productName: product.name,
+    stock: product.stock,
+    threshold: product.threshold,
+  };
+
+  if (transition === "low") {
+    return {
+      event: "stock.low",
+      title: `库存预警：${product.name}`,
+      text:
+        product.stock === 0
+          ? `「${product.name}」已售罄（预警阈值 ${product.threshold}），请尽快补货。`
+          : `「${product.name}」可售库存剩余 ${product.stock}，低于预警阈值 ${product.threshold}，请及时补货。`,
+      data,
+    };
+  }
+
+  return {
+    event: "stock.restocked",
+    title: `已补货：${product.name}`,
+    text: `「${product.name}」已补货，当前可售库存 ${product.stock}（预警阈值 ${product.threshold}）。`,
+    data,
+  };
+}
+
+/**
+ * 检查商品库存并按需发送预警 / 补货通知
+ * 在库存变化后调用（下单锁卡、支付、删除卡密、导入卡密）；内部吞掉异常，不影响调用方主流程
+ */
+export async function checkStockAlerts(
+  productIds: string[],
+  options: { notifyRestock?: boolean } = {}
+): Promise<void> {
+  const ids = [...new Set(productIds.filter(Boolean))];
+  if (ids.length === 0) {
+    return;
+  }
+
+  try {
+    const rows = await db
+      .select({
+        id: products.id,
+        name: products.name,
+        threshold: products.lowStockThreshold,
+        alertedAt: products.lowStockAlertedAt,
+        stock: sql<number>`count(${cards.id})::int`,
+      })
+      .from(products)
+      .leftJoin(cards, and(eq(cards.productId, products.id), sellableCardCondition()))
+      .where(and(inArray(products.id, ids), gt(products.lowStockThreshold, 0)))
+      .groupBy(products.id);
+
+    for (const row of rows) {
+      const transition = getStockAlertTransition({
+        stock: row.stock,
+        threshold: row.threshold,
+        alerted: row.alertedAt !== null,
+      });
+      if (!transition) continue;
+
+      // 条件更新抢占状态切换，只有成功切换的一方发送通知
+      const [switched] = await db
+        .update(products)
+        .set({ lowStockAlertedAt: transition === "low" ? new Date() : null })
+        .where(
+          and(
+            eq(products.id, row.id),
+            transition === "low" ? isNull(products.lowStockAlertedAt) : isNotNull(products.lowStockAlertedAt)
+          )
+        )
+        .returning({ id: products.id });
+
+      if (!switched || (transition === "restocked" && !options.notifyRestock)) {
+        continue;
+      }
+
+      await sendNotification(buildStockAlertMessage(transition, row));
+    }
+  } catch (error) {
+    logger.error({ err: error, action: "checkStockAlerts", productIds: ids }, "库存预警检查失败");
+  }
+}
+
+/**
+ * 在响应发出后执行 checkStockAlerts；调用方不等待通知发送
+ */
+export function scheduleStockAlerts(
+  productIds: string[],
+  options: { notifyRestock?: boolean } = {}
+): void {
+  if (productIds.length === 0) {
+    return;
+  }
+  runAfterResponse("checkStockAlerts", () => checkStockAlerts(productIds, options));
+}
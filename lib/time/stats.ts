@@ -43,3 +43,82 @@ export function getTodayRangeSql(timeZone: string): { start: SQL; end: SQL } {
 
   return { start, end };
 }
+
+/**
+ * 获取业务时区下的日期（YYYY-MM-DD），用于报表默认周期
+ */
+export function getStatsLocalDate(timeZone: string, now: Date = new Date()): string {
+  const tz = isSafeTimeZoneValue(timeZone) ? timeZone : DEFAULT_STATS_TIMEZONE;
+  // en-CA 的日期格式即为 YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: tz,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(now);
+}
+
+/**
+ * 解析业务日期（YYYY-MM-DD）为 UTC 零点的 Date，仅用于日历计算；无效日期返回 null
+ */
+export function parseLocalDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+export function formatLocalDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addLocalDays(date: Date, days: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+}
+
+/**
+ * 把业务时区下的日期区间（YYYY-MM-DD，半开区间：[startDate, endDate)）转换为 timestamptz 范围
+ */
+export function getLocalDateRangeSql(
+  timeZone: string,
+  startDate: string,
+  endDate: string
+): { start: SQL; end: SQL } {
+  const tz = isSafeTimeZoneValue(timeZone) ? timeZone : DEFAULT_STATS_TIMEZONE;
+
+  // ::date::timestamp -> tz 本地日 00:00；AT TIME ZONE tz -> 对应的绝对时间戳
+  const start = sql`(${startDate}::date)::timestamp AT TIME ZONE ${tz}`;
+  const end = sql`(${endDate}::date)::timestamp AT TIME ZONE ${tz}`;
+
+  return { start, end };
+}
+
+export type StatsBucket = "hour" | "day";
+
+/**
+ * 按业务时区对时间列分桶：返回 tz 本地时间的桶起点（timestamp，无时区）
+ *
+ * 说明：bucket 仅允许 hour / day，直接拼入 SQL，保证 SELECT 与 GROUP BY 的表达式一致
+ */
+export function getLocalBucketSql(column: SQL, timeZone: string, bucket: StatsBucket): SQL {
+  const tz = isSafeTimeZoneValue(timeZone) ? timeZone : DEFAULT_STATS_TIMEZONE;
+  const unit = bucket === "hour" ? "hour" : "day";
+  return sql`date_trunc('${sql.raw(unit)}', ${column} AT TIME ZONE ${tz})`;
+}
+
+/**
+ * 生成业务时区日期区间（[startDate, endDate)）内的全部桶起点，用于补齐没有数据的时间段
+ */
+export function getLocalBucketSeriesSql(
+  startDate: string,
+  endDate: string,
+  bucket: StatsBucket
+): SQL {
+  const unit = bucket === "hour" ? "hour" : "day";
+  return sql`generate_series(
+    (${startDate}::date)::timestamp,
+    (${endDate}::date)::timestamp - interval '1 ${sql.raw(unit)}',
+    interval '1 ${sql.raw(unit)}'
+  )`;
+}
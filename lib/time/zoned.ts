@@ -117,3 +117,19 @@ export function addDaysInTimezone(date: Date, days: number, timeZone: string): D
   }
 }
 
+
+/**
+ * 将 datetime-local 字符串（YYYY-MM-DDTHH:mm，不含时区）按指定时区解释为绝对时间。
+ * 格式不合法时返回 null。
+ */
+export function parseDateTimeLocalInTimezone(value: string, timeZone: string): Date | null {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/);
+  if (!match) return null;
+
+  const [, y, m, d, hh, mm] = match.map(Number);
+  const date = zonedPartsToUtcDate(
+    { year: y, month: m, day: d, hour: hh, minute: mm, second: 0, millisecond: 0 },
+    timeZone
+  );
+  return Number.isNaN(date.getTime()) ? null : date;
+}
@@ -0,0 +1,141 @@
+/**
+ * TOTP 两步验证（RFC 6238，HMAC-SHA1 / 6 位 / 30 秒，与常见验证器 App 默认参数一致）
+ *
+ * - 纯函数模块，不访问数据库；账号上的密钥与恢复码由 lib/admin-users 读写
+ * - 恢复码只保存 SHA-256 哈希，明文仅在生成时展示一次
+ */
+
+import crypto from "node:crypto";
+
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+// 允许前后各 1 个时间步，容忍手机与服务器的时钟偏差
+export const TOTP_WINDOW = 1;
+export const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function encodeBase32(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function decodeBase32(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("无效的 Base32 字符");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * 生成 160 位随机密钥（Base32）
+ */
+export function generateTotpSecret(): string {
+  return encodeBase32(crypto.randomBytes(20));
+}
+
+export function getTotpStep(timeMs: number = Date.now()): number {
+  return Math.floor(timeMs / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+export function generateTotpCode(secret: string, step: number = getTotpStep()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac("sha1", decodeBase32(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+export function isTotpCodeFormat(code: string): boolean {
+  return new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code.replace(/\s/g, ""));
+}
+
+/**
+ * 校验验证码，返回匹配的时间步；afterStep 用于拒绝已经使用过的验证码（防重放）
+ */
+export function verifyTotpCode(
+  secret: string,
+  code: string,
+  options: { timeMs?: number; afterStep?: number | null } = {}
+): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!isTotpCodeFormat(normalized)) return null;
+
+  const currentStep = getTotpStep(options.timeMs);
+  for (let step = currentStep - TOTP_WINDOW; step <= currentStep + TOTP_WINDOW; step++) {
+    if (options.afterStep != null && step <= options.afterStep) continue;
+    const expected = generateTotpCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 验证器 App 扫码用的 otpauth:// 链接
+ */
+export function buildTotpUri(input: { issuer: string; account: string; secret: string }): string {
+  const label = encodeURIComponent(`${input.issuer}:${input.account}`);
+  const params = new URLSearchParams({
+    secret: input.secret,
+    issuer: input.issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+export function normalizeRecoveryCode(code: string): string {
+  return code.trim().toLowerCase().replace(/[\s-]/g, "");
+}
+
+export function hashRecoveryCode(code: string): string {
+  return crypto.createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+/**
+ * 生成一组恢复码（形如 `a1b2c-3d4e5`）
+ */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { ADMIN_ROLES } from "@/lib/admin-permissions";
+
+// bcrypt 只使用前 72 字节
+const passwordSchema = z
+  .string()
+  .min(8, "密码至少8个字符")
+  .refine((value) => new TextEncoder().encode(value).length <= 72, "密码最多72字节");
+
+export const createAdminUserSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .min(3, "用户名至少3个字符")
+    .max(32, "用户名最多32字符")
+    .regex(/^[a-z0-9_.-]+$/, "用户名只能包含字母、数字、下划线、点和连字符"),
+  displayName: z.string().trim().max(50, "显示名称最多50字符").optional(),
+  password: passwordSchema,
+  role: z.enum(ADMIN_ROLES),
+});
+
+export const updateAdminUserSchema = z.object({
+  displayName: z.string().trim().max(50, "显示名称最多50字符").optional(),
+  role: z.enum(ADMIN_ROLES).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const resetAdminPasswordSchema = z.object({
+  password: passwordSchema,
+});
+
+export type CreateAdminUserInput = z.input<typeof createAdminUserSchema>;
+export type UpdateAdminUserInput = z.input<typeof updateAdminUserSchema>;
@@ -0,0 +1,17 @@
+import { z } from "zod";
+import { API_KEY_SCOPES } from "@/lib/api/scopes";
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "请输入密钥名称").max(50, "密钥名称最多50字符"),
+  // 绑定的 Linux DO 用户：通过该密钥创建的订单归属于此用户
+  userId: z.string().trim().regex(/^\d{1,20}$/, "请输入 Linux DO 用户 ID（数字）"),
+  username: z.string().trim().max(50, "用户名最多50字符").optional(),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, "至少选择一个权限"),
+  rateLimitPerMinute: z
+    .number()
+    .int("限流必须为整数")
+    .min(1, "每分钟至少1次")
+    .max(600, "每分钟最多600次"),
+});
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
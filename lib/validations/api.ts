@@ -0,0 +1,13 @@
+import { z } from "zod";
+
+// 开放 API：商品列表查询参数（URL 查询字符串，数字需要转换）
+export const apiProductListQuerySchema = z.object({
+  categoryId: z.string().uuid("无效的分类ID").optional(),
+  limit: z.coerce.number().int().min(1, "limit 至少为1").max(100, "limit 最多为100").default(50),
+  offset: z.coerce.number().int().min(0, "offset 不能为负数").default(0),
+});
+
+// 开放 API：订单号路径参数
+export const apiOrderNoSchema = z.string().trim().min(1).max(64).regex(/^[A-Za-z0-9]+$/, "无效的订单号");
+
+export type ApiProductListQuery = z.infer<typeof apiProductListQuerySchema>;
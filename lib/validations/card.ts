@@ -1,17 +1,65 @@
 import { z } from "zod";
 
+import { parseCardExpiresAt } from "@/lib/card-import";
+
+// 卡密有效期（YYYY-MM-DD 或 ISO 时间），为空表示长期有效
+const cardExpiresAtSchema = z
+  .string()
+  .trim()
+  .max(40, "有效期格式无效")
+  .optional()
+  .transform((value, ctx) => {
+    if (!value) return null;
+    const date = parseCardExpiresAt(value);
+    if (!date) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "有效期格式无效" });
+      return z.NEVER;
+    }
+    if (date.getTime() <= Date.now()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "有效期不能早于当前时间" });
+      return z.NEVER;
+    }
+    return date;
+  });
+
 // 批量导入卡密验证
 export const importCardsSchema = z.object({
   productId: z.string().uuid("无效的商品ID"),
+  variantId: z.string().uuid("无效的规格ID").nullable().optional(), // 商品启用规格时必填
   content: z.string().min(1, "卡密内容不能为空"),
+  // text: 按分隔符拆分的纯文本；csv/json: 结构化卡密，按 columns 映射字段与有效期
+  format: z.enum(["text", "csv", "json"]).default("text"),
   delimiter: z.enum(["newline", "comma"]).default("newline"),
+  columns: z
+    .array(
+      z.object({
+        key: z.string().min(1, "列名不能为空"),
+        target: z.enum(["field", "expiresAt", "ignore"]),
+        label: z.string().trim().max(50, "字段名称过长"),
+      })
+    )
+    .max(50, "列数过多")
+    .optional(), // 为空时按表头自动映射
+  expiresAt: cardExpiresAtSchema, // 纯文本导入时整批卡密的有效期
   deduplicate: z.boolean().default(true),
+  dryRun: z.boolean().default(false), // 仅预览校验结果，不写入数据库
+  // 导入批次信息：记录卡密来源与进货成本，便于按批次追溯与撤回
+  supplierName: z.string().trim().max(100, "供应商名称最多100字符").optional(),
+  sourceNote: z.string().trim().max(500, "来源备注最多500字符").optional(),
+  unitCost: z
+    .number()
+    .min(0, "单价成本不能为负数")
+    .max(99999999.99, "单价成本过大")
+    .nullable()
+    .optional(),
 });
 
 // 新增单条卡密验证
 export const createCardSchema = z.object({
   productId: z.string().uuid("无效的商品ID"),
+  variantId: z.string().uuid("无效的规格ID").nullable().optional(), // 商品启用规格时必填
   content: z.string().trim().min(1, "卡密内容不能为空").max(1000, "卡密内容过长"),
+  expiresAt: cardExpiresAtSchema,
   deduplicate: z.boolean().default(true),
 });
 
@@ -32,8 +80,9 @@ export const batchCardOperationSchema = z.object({
   action: z.enum(["delete", "reset"]), // reset: 重置为可用状态
 });
 
-export type ImportCardsInput = z.infer<typeof importCardsSchema>;
-export type CreateCardInput = z.infer<typeof createCardSchema>;
+// 使用输入类型：format / dryRun 等带默认值的字段调用方可省略
+export type ImportCardsInput = z.input<typeof importCardsSchema>;
+export type CreateCardInput = z.input<typeof createCardSchema>;
 export type CardOperationInput = z.infer<typeof cardOperationSchema>;
 export type BatchCardOperationInput = z.infer<typeof batchCardOperationSchema>;
 export type UpdateCardInput = z.infer<typeof updateCardSchema>;
@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+// datetime-local 输入格式（不含时区），服务端按站点时区解释
+const dateTimeLocalSchema = z
+  .string()
+  .trim()
+  .refine(
+    (value) => value === "" || /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(value),
+    "无效的时间格式"
+  );
+
+// 创建优惠码验证
+export const couponSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .min(3, "优惠码至少3个字符")
+      .max(32, "优惠码最多32字符")
+      .regex(/^[A-Za-z0-9_-]+$/, "优惠码只能包含字母、数字、下划线和连字符")
+      .transform((value) => value.toUpperCase()),
+    description: z.string().max(200, "描述最多200字符").optional(),
+    discountType: z.enum(["percent", "fixed"]),
+    discountValue: z.number().positive("优惠额度必须大于0"),
+    productId: z.string().uuid("无效的商品ID").nullable().optional(),
+    categoryId: z.string().uuid("无效的分类ID").nullable().optional(),
+    minAmount: z.number().min(0, "最低消费不能为负数").default(0),
+    maxUses: z.number().int().min(1, "总次数至少为1").nullable().optional(),
+    maxUsesPerUser: z.number().int().min(1, "每人次数至少为1").nullable().optional(),
+    expiresAt: dateTimeLocalSchema.default(""),
+    isActive: z.boolean().default(true),
+  })
+  .superRefine((data, ctx) => {
+    if (data.discountType === "percent" && data.discountValue > 100) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["discountValue"],
+        message: "百分比折扣不能超过100",
+      });
+    }
+
+    if (data.productId && data.categoryId) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["categoryId"],
+        message: "适用商品与适用分类只能选择一个",
+      });
+    }
+  });
+
+export const createCouponSchema = couponSchema;
+
+export type CouponInput = z.input<typeof couponSchema>;
+export type CouponOutput = z.infer<typeof couponSchema>;
+export type CreateCouponInput = z.input<typeof createCouponSchema>;
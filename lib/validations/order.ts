@@ -3,8 +3,23 @@ import { z } from "zod";
 // 创建订单验证（仅登录用户可下单）
 export const createOrderSchema = z.object({
   productId: z.string().uuid("无效的商品ID"),
+  variantId: z.string().uuid("无效的规格ID").nullable().optional(),
   quantity: z.number().int().min(1, "数量至少为1").max(100, "数量不能超过100"),
   paymentMethod: z.enum(["ldc", "alipay", "wechat", "usdt"]).default("ldc"),
+  couponCode: z.string().trim().max(32, "优惠码最多32字符").optional(),
+});
+
+// 购物车加购/改数量验证
+export const cartItemSchema = z.object({
+  productId: z.string().uuid("无效的商品ID"),
+  variantId: z.string().uuid("无效的规格ID").nullable().optional(),
+  quantity: z.number().int().min(1, "数量至少为1").max(100, "数量不能超过100"),
+});
+
+// 购物车合并结算验证
+export const checkoutCartSchema = z.object({
+  paymentMethod: z.enum(["ldc", "alipay", "wechat", "usdt"]).default("ldc"),
+  couponCode: z.string().trim().max(32, "优惠码最多32字符").optional(),
 });
 
 // 管理员更新订单状态验证
@@ -15,5 +30,7 @@ export const updateOrderStatusSchema = z.object({
 });
 
 export type CreateOrderInput = z.infer<typeof createOrderSchema>;
+export type CartItemInput = z.infer<typeof cartItemSchema>;
+export type CheckoutCartInput = z.input<typeof checkoutCartSchema>;
 export type UpdateOrderStatusInput = z.infer<typeof updateOrderStatusSchema>;
 
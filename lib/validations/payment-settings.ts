@@ -0,0 +1,54 @@
+import { z } from "zod";
+
+/**
+ * 通过通用 EasyPay 网关接入的支付方式（LDC 沿用环境变量配置，不在此列）
+ */
+export const EASYPAY_METHODS = ["alipay", "wechat"] as const;
+
+export type EasyPayMethod = (typeof EASYPAY_METHODS)[number];
+
+// 网关侧的支付类型参数（type 字段）
+export const EASYPAY_PAY_TYPES: Record<EasyPayMethod, string> = {
+  alipay: "alipay",
+  wechat: "wxpay",
+};
+
+export const easyPayChannelSchema = z
+  .object({
+    enabled: z.boolean().default(false),
+    gateway: z
+      .string()
+      .trim()
+      .max(200, "网关地址最多 200 个字符")
+      .refine((value) => value === "" || /^https?:\/\/\S+$/.test(value), "请输入有效的网关地址")
+      .default(""),
+    pid: z.string().trim().max(64, "商户 ID 最多 64 个字符").default(""),
+    // 留空表示沿用已保存的密钥
+    key: z.string().trim().max(128, "商户密钥最多 128 个字符").default(""),
+  })
+  .superRefine((value, ctx) => {
+    if (!value.enabled) return;
+    if (!value.gateway) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "启用前请填写网关地址",
+        path: ["gateway"],
+      });
+    }
+    if (!value.pid) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "启用前请填写商户 ID",
+        path: ["pid"],
+      });
+    }
+  });
+
+export const paymentSettingsSchema = z.object({
+  alipay: easyPayChannelSchema,
+  wechat: easyPayChannelSchema,
+});
+
+export type EasyPayChannelInput = z.input<typeof easyPayChannelSchema>;
+export type PaymentSettingsInput = z.input<typeof paymentSettingsSchema>;
+export type PaymentSettings = z.output<typeof paymentSettingsSchema>;
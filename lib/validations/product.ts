@@ -1,5 +1,11 @@
 import { z } from "zod";
 
+// 阶梯价：起始数量需大于 1（数量 1 起按基础售价计算）
+export const priceTierSchema = z.object({
+  minQuantity: z.number().int("起始数量必须为整数").min(2, "阶梯起始数量至少为2"),
+  price: z.number().positive("阶梯单价必须大于0"),
+});
+
 // 创建/更新商品验证
 export const productSchema = z.object({
   name: z.string().min(1, "商品名称不能为空").max(100, "商品名称最多100字符"),
@@ -20,11 +26,50 @@ export const productSchema = z.object({
   sortOrder: z.number().int().default(0),
   minQuantity: z.number().int().min(1).default(1),
   maxQuantity: z.number().int().min(1).default(10),
+  // 退款后卡密处理：recycle 放回可用库存，void 作废，quarantine 隔离待复核
+  refundCardPolicy: z.enum(["recycle", "void", "quarantine"]).default("quarantine"),
+  // 库存预警阈值：可售库存低于该值时通知，0 为关闭
+  lowStockThreshold: z.number().int().min(0, "库存预警阈值不能为负数").max(100000, "库存预警阈值过大").default(0),
+  priceTiers: z
+    .array(priceTierSchema)
+    .max(10, "阶梯价最多设置10档")
+    .default([])
+    .superRefine((tiers, ctx) => {
+      const seen = new Set<number>();
+      tiers.forEach((tier, index) => {
+        if (seen.has(tier.minQuantity)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `阶梯起始数量 ${tier.minQuantity} 重复`,
+            path: [index, "minQuantity"],
+          });
+        }
+        seen.add(tier.minQuantity);
+      });
+    }),
 });
 
+// 商品规格验证
+export const productVariantSchema = z
+  .object({
+    name: z.string().trim().min(1, "规格名称不能为空").max(50, "规格名称最多50字符"),
+    price: z.number().positive("价格必须大于0"),
+    minQuantity: z.number().int().min(1).default(1),
+    maxQuantity: z.number().int().min(1).default(10),
+    sortOrder: z.number().int().default(0),
+    isActive: z.boolean().default(true),
+  })
+  .refine((data) => data.minQuantity <= data.maxQuantity, {
+    message: "最小购买数量不能大于最大购买数量",
+    path: ["maxQuantity"],
+  });
+
 export const createProductSchema = productSchema;
 export const updateProductSchema = productSchema.partial();
 
+export type PriceTierInput = z.infer<typeof priceTierSchema>;
+export type ProductVariantInput = z.input<typeof productVariantSchema>;
+export type ProductVariantOutput = z.infer<typeof productVariantSchema>;
 export type ProductInput = z.input<typeof productSchema>;
 export type ProductOutput = z.infer<typeof productSchema>;
 export type CreateProductInput = z.input<typeof createProductSchema>;
@@ -1,11 +1,19 @@
 import { auth } from "@/lib/auth";
 import { NextResponse } from "next/server";
+import {
+  getAdminRoutePermission,
+  getSessionAdminRole,
+  hasAdminPermission,
+} from "@/lib/admin-permissions";
+import { validateAdminSession } from "@/lib/admin-sessions";
 
-export default auth((req) => {
+export default auth(async (req) => {
   const startTime = Date.now();
   const { pathname } = req.nextUrl;
-  const user = req.auth?.user as { role?: string } | undefined;
-  const isAdmin = user?.role === "admin";
+  const user = req.auth?.user as
+    | { role?: string; adminRole?: string; adminSessionId?: string }
+    | undefined;
+  const adminRole = getSessionAdminRole(user);
 
   // 生成/透传 requestId，便于将 middleware / Route Handler / Server Actions 的日志关联起来
   const requestId = req.headers.get("x-request-id") || crypto.randomUUID();
@@ -13,7 +21,7 @@ export default auth((req) => {
   requestHeaders.set("x-request-id", requestId);
 
   const log = (level: "info" | "warn" | "error", message: string, extra?: Record<string, unknown>) => {
-    // Edge runtime 下不引入 pino，使用 JSON 结构化输出，便于后续接入日志平台
+    // middleware 中不引入 pino，使用 JSON 结构化输出，便于后续接入日志平台
     const payload = {
       level,
       msg: message,
@@ -28,6 +36,21 @@ export default auth((req) => {
     console[level](JSON.stringify(payload));
   };
 
+  // 管理员会话需在服务端会话表中有效（被撤销 / 过期 / 升级前签发的 JWT 视为未登录）
+  let isAdmin = false;
+  if (user?.role === "admin") {
+    try {
+      isAdmin = await validateAdminSession(user.adminSessionId);
+    } catch (error) {
+      log("error", "admin session check failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    if (!isAdmin) {
+      log("warn", "admin session inactive");
+    }
+  }
+
   // 保护 /admin 路由（登录页除外）
   if (pathname.startsWith("/admin") && pathname !== "/admin/login") {
     if (!req.auth || !isAdmin) {
@@ -38,6 +61,15 @@ export default auth((req) => {
       log("warn", "admin access denied");
       return response;
     }
+
+    // 角色没有该页面的权限时回到仪表盘（Server Actions 仍会按数据库中的角色再次校验）
+    const permission = getAdminRoutePermission(pathname);
+    if (permission && adminRole && !hasAdminPermission(adminRole, permission)) {
+      const response = NextResponse.redirect(new URL("/admin", req.nextUrl.origin));
+      response.headers.set("x-request-id", requestId);
+      log("warn", "admin permission denied", { adminRole, permission });
+      return response;
+    }
   }
 
   // 已登录的管理员访问登录页时重定向到后台首页
@@ -60,4 +92,6 @@ export default auth((req) => {
 
 export const config = {
   matcher: ["/admin/:path*"],
+  // 校验管理员会话需要访问数据库（postgres 驱动不支持 Edge）
+  runtime: "nodejs",
 };
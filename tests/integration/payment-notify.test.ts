@@ -5,6 +5,7 @@ import { withEnv } from "@/tests/utils";
 
 const dbMocks = vi.hoisted(() => ({
   findFirst: vi.fn(),
+  insertValues: vi.fn(),
 }));
 
 // 关键：route handler 会读取 lib/db，从而触发 DATABASE_URL 校验；测试必须 mock 掉
@@ -15,11 +16,19 @@ vi.mock("@/lib/db", () => ({
         findFirst: (...args: unknown[]) => dbMocks.findFirst(...args),
       },
     },
+    // 回调日志写入：记录 values 以便断言持久化内容
+    insert: () => ({
+      values: (values: unknown) => {
+        dbMocks.insertValues(values);
+        return { returning: async () => [{ id: "log-1" }] };
+      },
+    }),
   },
   orders: {
     // 仅用于构建 where 条件（本测试不关心真实 column 对象）
     orderNo: {},
   },
+  paymentNotifyLogs: { id: {} },
 }));
 
 // 关键：避免 drizzle-orm eq 依赖真实 schema column 结构
@@ -31,7 +40,7 @@ const actionMocks = vi.hoisted(() => ({
   handlePaymentSuccess: vi.fn(),
 }));
 
-vi.mock("@/lib/actions/orders", () => ({
+vi.mock("@/lib/order-placement", () => ({
   handlePaymentSuccess: (...args: unknown[]) => actionMocks.handlePaymentSuccess(...args),
 }));
 
@@ -52,6 +61,7 @@ vi.mock("@/lib/logger", () => ({
 }));
 
 import { GET } from "@/app/api/payment/notify/route";
+import { GET as providerGET } from "@/app/api/payment/[provider]/notify/route";
 
 type NotifyBase = {
   pid: string;
@@ -100,6 +110,7 @@ function makeSignedQuery(input: NotifyBase, secret: string): Record<string, stri
 
 beforeEach(() => {
   dbMocks.findFirst.mockReset();
+  dbMocks.insertValues.mockReset();
   actionMocks.handlePaymentSuccess.mockReset();
   loggerMocks.info.mockReset();
   loggerMocks.warn.mockReset();
@@ -174,6 +185,14 @@ describe("/api/payment/notify", () => {
         expect(response.status).toBe(400);
         expect(await response.text()).toBe("fail");
         expect(dbMocks.findFirst).not.toHaveBeenCalled();
+        expect(dbMocks.insertValues).toHaveBeenCalledWith(
+          expect.objectContaining({
+            verified: false,
+            outcome: "rejected",
+            httpStatus: 400,
+            params: expect.objectContaining({ sign: "[REDACTED]" }),
+          })
+        );
       }
     );
   });
@@ -205,6 +224,9 @@ describe("/api/payment/notify", () => {
         expect(response.status).toBe(400);
         expect(await response.text()).toBe("fail");
         expect(actionMocks.handlePaymentSuccess).not.toHaveBeenCalled();
+        expect(dbMocks.insertValues).toHaveBeenCalledWith(
+          expect.objectContaining({ verified: true, amountCheck: "mismatch", outcome: "rejected" })
+        );
       }
     );
   });
@@ -300,8 +322,29 @@ describe("/api/payment/notify", () => {
         expect(response.status).toBe(200);
         expect(await response.text()).toBe("success");
         expect(actionMocks.handlePaymentSuccess).toHaveBeenCalledWith("ORDER_1", "TRADE_1");
+        expect(dbMocks.insertValues).toHaveBeenCalledWith(
+          expect.objectContaining({
+            orderNo: "ORDER_1",
+            tradeNo: "TRADE_1",
+            amountCheck: "passed",
+            orderStatusBefore: "pending",
+            orderStatusAfter: "completed",
+            outcome: "processed",
+          })
+        );
       }
     );
   });
 });
 
+describe("/api/payment/[provider]/notify", () => {
+  it("未接入通道的支付方式返回 404，且不写入回调日志", async () => {
+    const response = await providerGET(makeRequest({ out_trade_no: "ORDER_1" }), {
+      params: Promise.resolve({ provider: "usdt" }),
+    });
+
+    expect(response.status).toBe(404);
+    expect(dbMocks.insertValues).not.toHaveBeenCalled();
+    expect(dbMocks.findFirst).not.toHaveBeenCalled();
+  });
+});
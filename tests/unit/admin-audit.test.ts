@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// 关键：避免在单元测试中初始化真实数据库连接（lib/db 会强依赖 DATABASE_URL）
+const valuesMock = vi.fn();
+const loggerErrorMock = vi.fn();
+
+vi.mock("@/lib/db", () => ({
+  db: {
+    insert: () => ({ values: (...args: unknown[]) => valuesMock(...args) }),
+  },
+  adminAuditLogs: {},
+}));
+
+vi.mock("@/lib/logger", () => ({
+  getRequestIdFromHeaders: async () => "req-1",
+  logger: { error: (...args: unknown[]) => loggerErrorMock(...args) },
+}));
+
+vi.mock("next/headers", () => ({
+  headers: async () => new Headers({ "x-forwarded-for": "203.0.113.9" }),
+}));
+
+import { diffAuditFields, pickAuditFields, recordAdminAudit } from "@/lib/admin-audit";
+
+describe("pickAuditFields", () => {
+  it("只取指定字段，Date 转为 ISO 字符串，缺失值为 null", () => {
+    const row = {
+      name: "商品",
+      price: "10.00",
+      paidAt: new Date("2026-01-02T03:04:05.000Z"),
+      note: undefined,
+      secret: "不应出现",
+    };
+
+    expect(pickAuditFields(row, ["name", "price", "paidAt", "note"])).toEqual({
+      name: "商品",
+      price: "10.00",
+      paidAt: "2026-01-02T03:04:05.000Z",
+      note: null,
+    });
+  });
+});
+
+describe("diffAuditFields", () => {
+  it("只保留有变化的字段", () => {
+    expect(
+      diffAuditFields(
+        { name: "A", price: "10.00", isActive: true },
+        { name: "A", price: "12.00", isActive: false }
+      )
+    ).toEqual({
+      before: { price: "10.00", isActive: true },
+      after: { price: "12.00", isActive: false },
+    });
+  });
+
+  it("按值比较对象与数组，并把 undefined 视为 null", () => {
+    expect(
+      diffAuditFields(
+        { priceTiers: [{ minQuantity: 5, price: "9.00" }], originalPrice: null },
+        { priceTiers: [{ minQuantity: 5, price: "9.00" }], originalPrice: undefined }
+      )
+    ).toBeNull();
+  });
+
+  it("新增或移除的字段也记为变化", () => {
+    expect(diffAuditFields({ a: 1 }, { b: 2 })).toEqual({
+      before: { a: 1, b: null },
+      after: { a: null, b: 2 },
+    });
+  });
+});
+
+describe("recordAdminAudit", () => {
+  beforeEach(() => {
+    valuesMock.mockReset();
+    loggerErrorMock.mockReset();
+  });
+
+  it("每个对象写入一行，附带操作人、requestId 与 IP", async () => {
+    valuesMock.mockResolvedValueOnce(undefined);
+
+    await recordAdminAudit({ id: "u1", name: "alice", adminRole: "operator" }, [
+      { action: "card.delete", entityType: "card", entityId: "c1", before: { status: "available" } },
+      { action: "card.delete", entityType: "card", entityId: "c2", before: { status: "sold" } },
+    ]);
+
+    expect(valuesMock).toHaveBeenCalledTimes(1);
+    const rows = valuesMock.mock.calls[0][0];
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toEqual({
+      actorId: "u1",
+      actorName: "alice",
+      actorRole: "operator",
+      action: "card.delete",
+      entityType: "card",
+      entityId: "c1",
+      before: { status: "available" },
+      after: null,
+      requestId: "req-1",
+      ipAddress: "203.0.113.9",
+    });
+  });
+
+  it("没有记录时不写库", async () => {
+    await recordAdminAudit({ id: "u1" }, []);
+    expect(valuesMock).not.toHaveBeenCalled();
+  });
+
+  it("写入失败只记日志，不抛出", async () => {
+    valuesMock.mockRejectedValueOnce(new Error("db down"));
+
+    await expect(
+      recordAdminAudit({ id: "u1" }, { action: "settings.update", entityType: "settings" })
+    ).resolves.toBeUndefined();
+    expect(loggerErrorMock).toHaveBeenCalledTimes(1);
+  });
+});
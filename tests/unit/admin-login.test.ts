@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const signInMock = vi.fn();
+// lib/auth 会初始化 NextAuth，这里只保留 adminLogin 用到的导出
+vi.mock("@/lib/auth", () => {
+  class TotpRequiredError extends Error {}
+  class TotpInvalidError extends Error {}
+  return {
+    signIn: (...args: unknown[]) => signInMock(...args),
+    TotpRequiredError,
+    TotpInvalidError,
+  };
+});
+
+vi.mock("next/headers", () => ({
+  headers: async () => new Headers({ "x-forwarded-for": "1.2.3.4" }),
+}));
+
+const checkRateLimitMock = vi.fn();
+const recordFailedAttemptMock = vi.fn();
+const clearRateLimitMock = vi.fn();
+vi.mock("@/lib/rate-limit", () => ({
+  checkRateLimit: (...args: unknown[]) => checkRateLimitMock(...args),
+  recordFailedAttempt: (...args: unknown[]) => recordFailedAttemptMock(...args),
+  clearRateLimit: (...args: unknown[]) => clearRateLimitMock(...args),
+  getClientIP: (headers: Headers) => headers.get("x-forwarded-for") ?? "unknown",
+}));
+
+import { TotpInvalidError, TotpRequiredError } from "@/lib/auth";
+import { adminLogin } from "@/lib/actions/auth";
+
+describe("adminLogin two-factor", () => {
+  beforeEach(() => {
+    signInMock.mockReset();
+    recordFailedAttemptMock.mockReset();
+    clearRateLimitMock.mockReset();
+    checkRateLimitMock.mockReset();
+    checkRateLimitMock.mockResolvedValue({ success: true, remaining: 5, resetIn: 900, blocked: false });
+  });
+
+  it("密码正确但未提交验证码时要求输入验证码，不计入失败次数", async () => {
+    signInMock.mockRejectedValueOnce(new TotpRequiredError());
+
+    const result = await adminLogin({ username: "alice", password: "correct-horse" });
+
+    expect(result).toMatchObject({ success: false, requiresTotp: true });
+    expect(recordFailedAttemptMock).not.toHaveBeenCalled();
+  });
+
+  it("验证码错误时走登录失败限流", async () => {
+    signInMock.mockRejectedValueOnce(new TotpInvalidError());
+    recordFailedAttemptMock.mockResolvedValueOnce({
+      success: true,
+      remaining: 1,
+      resetIn: 900,
+      blocked: false,
+    });
+
+    const result = await adminLogin({
+      username: "alice",
+      password: "correct-horse",
+      totpCode: "000000",
+    });
+
+    expect(recordFailedAttemptMock).toHaveBeenCalledWith("1.2.3.4");
+    expect(result).toMatchObject({
+      success: false,
+      requiresTotp: true,
+      message: "验证码错误，还剩 1 次尝试机会",
+    });
+  });
+
+  it("验证码错误次数过多时返回锁定提示", async () => {
+    signInMock.mockRejectedValueOnce(new TotpInvalidError());
+    recordFailedAttemptMock.mockResolvedValueOnce({
+      success: false,
+      remaining: 0,
+      resetIn: 1800,
+      blocked: true,
+      message: "登录尝试次数过多，账户已被临时锁定 30 分钟",
+    });
+
+    const result = await adminLogin({
+      username: "alice",
+      password: "correct-horse",
+      totpCode: "000000",
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      blocked: true,
+      message: "登录尝试次数过多，账户已被临时锁定 30 分钟",
+    });
+  });
+
+  it("验证通过后把验证码传给 signIn 并清除限流记录", async () => {
+    signInMock.mockResolvedValueOnce("/admin");
+
+    const result = await adminLogin({
+      username: "alice",
+      password: "correct-horse",
+      totpCode: "123456",
+    });
+
+    expect(result.success).toBe(true);
+    expect(signInMock).toHaveBeenCalledWith(
+      "credentials",
+      expect.objectContaining({ username: "alice", totpCode: "123456", redirect: false })
+    );
+    expect(clearRateLimitMock).toHaveBeenCalledWith("1.2.3.4");
+  });
+});
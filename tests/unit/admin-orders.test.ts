@@ -4,6 +4,7 @@ import { describe, expect, it, vi } from "vitest";
 const transactionMock = vi.fn();
 const revalidatePathMock = vi.fn();
 const requireAdminMock = vi.fn();
+const recordAdminAuditMock = vi.fn();
 
 // 为什么要 mock drizzle-orm：单元测试只关心“业务分支/调用次数”，不需要真实 SQL AST，
 // 同时避免因为 schema column 对象缺失导致 eq/inArray 等在运行时抛错。
@@ -36,6 +37,16 @@ vi.mock("next/cache", () => ({
   revalidatePath: (...args: unknown[]) => revalidatePathMock(...args),
 }));
 
+// 卡密查看记录依赖请求头与日志，这里不关心
+vi.mock("@/lib/card-access", () => ({
+  recordCardAccess: vi.fn(),
+}));
+
+vi.mock("@/lib/admin-audit", () => ({
+  pickAuditFields: (row: Record<string, unknown>) => row,
+  recordAdminAudit: (...args: unknown[]) => recordAdminAuditMock(...args),
+}));
+
 import { deleteAdminOrders } from "@/lib/actions/admin-orders";
 
 describe("deleteAdminOrders", () => {
@@ -95,6 +106,9 @@ describe("deleteAdminOrders", () => {
 
     expect(result.success).toBe(true);
     expect(result.deletedCount).toBe(1);
+    expect(recordAdminAuditMock).toHaveBeenLastCalledWith({ id: "a1", role: "admin" }, [
+      expect.objectContaining({ action: "order.delete", entityType: "order", entityId: "o1" }),
+    ]);
   });
 
   it("should report notFound ids when partially missing", async () => {
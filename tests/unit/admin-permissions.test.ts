@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  ADMIN_PERMISSIONS,
+  getAdminPermissions,
+  getAdminRoutePermission,
+  getSessionAdminRole,
+  hasAdminPermission,
+  parseAdminUsernames,
+} from "@/lib/admin-permissions";
+
+describe("hasAdminPermission", () => {
+  it("所有者拥有全部权限", () => {
+    expect(getAdminPermissions("owner")).toEqual(ADMIN_PERMISSIONS);
+  });
+
+  it("客服只能驳回退款，不能同意退款", () => {
+    expect(hasAdminPermission("support", "refunds.reject")).toBe(true);
+    expect(hasAdminPermission("support", "refunds.approve")).toBe(false);
+    expect(hasAdminPermission("support", "cards.view")).toBe(false);
+  });
+
+  it("财务可以审批退款，但不能管理商品和卡密", () => {
+    expect(hasAdminPermission("finance", "refunds.approve")).toBe(true);
+    expect(hasAdminPermission("finance", "cards.view")).toBe(true);
+    expect(hasAdminPermission("finance", "cards.manage")).toBe(false);
+    expect(hasAdminPermission("finance", "products.manage")).toBe(false);
+  });
+
+  it("只有所有者可以管理系统设置、管理员账号、API 密钥与查看审计日志", () => {
+    for (const role of ["operator", "support", "finance"] as const) {
+      expect(hasAdminPermission(role, "settings.manage")).toBe(false);
+      expect(hasAdminPermission(role, "admins.manage")).toBe(false);
+      expect(hasAdminPermission(role, "audit.view")).toBe(false);
+      expect(hasAdminPermission(role, "api_keys.manage")).toBe(false);
+    }
+  });
+});
+
+describe("getSessionAdminRole", () => {
+  it("非管理员会话返回 null", () => {
+    expect(getSessionAdminRole(undefined)).toBeNull();
+    expect(getSessionAdminRole({ role: "user", adminRole: "owner" })).toBeNull();
+  });
+
+  it("缺少或无效的角色按 owner 处理（兼容升级前的会话）", () => {
+    expect(getSessionAdminRole({ role: "admin" })).toBe("owner");
+    expect(getSessionAdminRole({ role: "admin", adminRole: "root" })).toBe("owner");
+    expect(getSessionAdminRole({ role: "admin", adminRole: "support" })).toBe("support");
+  });
+});
+
+describe("getAdminRoutePermission", () => {
+  it("按路径前缀匹配所需权限", () => {
+    expect(getAdminRoutePermission("/admin/products")).toBe("products.manage");
+    expect(getAdminRoutePermission("/admin/products/abc/edit")).toBe("products.manage");
+    expect(getAdminRoutePermission("/admin/refund")).toBe("refunds.approve");
+    expect(getAdminRoutePermission("/admin/admins")).toBe("admins.manage");
+  });
+
+  it("仪表盘等未列出的页面不需要额外权限", () => {
+    expect(getAdminRoutePermission("/admin")).toBeNull();
+    expect(getAdminRoutePermission("/admin/productsx")).toBeNull();
+  });
+});
+
+describe("parseAdminUsernames", () => {
+  it("未指定角色时为 owner，并忽略无效角色", () => {
+    const result = parseAdminUsernames(" kong , alice:operator,bob:root,,carol:finance ");
+
+    expect(Object.fromEntries(result)).toEqual({
+      kong: "owner",
+      alice: "operator",
+      carol: "finance",
+    });
+  });
+
+  it("未配置时返回空集合", () => {
+    expect(parseAdminUsernames(undefined).size).toBe(0);
+    expect(parseAdminUsernames("").size).toBe(0);
+  });
+});
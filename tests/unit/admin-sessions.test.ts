@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// 关键：避免在单元测试中初始化真实数据库连接（lib/db 会强依赖 DATABASE_URL）
+vi.mock("@/lib/db", () => ({
+  db: {},
+  adminSessions: {},
+}));
+
+const authMock = vi.fn();
+vi.mock("@/lib/auth", () => ({
+  auth: () => authMock(),
+}));
+
+vi.mock("@/lib/admin-users", () => ({
+  getAdminUserAccess: async () => ({ role: "owner", isActive: true }),
+}));
+
+const validateAdminSessionMock = vi.fn();
+const revokeAdminSessionsMock = vi.fn();
+vi.mock("@/lib/admin-sessions", () => ({
+  activeAdminSessionCondition: () => ({}),
+  validateAdminSession: (...args: unknown[]) => validateAdminSessionMock(...args),
+  revokeAdminSessions: (...args: unknown[]) => revokeAdminSessionsMock(...args),
+}));
+
+const recordAdminAuditMock = vi.fn();
+vi.mock("@/lib/admin-audit", () => ({
+  recordAdminAudit: (...args: unknown[]) => recordAdminAuditMock(...args),
+}));
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}));
+
+import { requireAdmin } from "@/lib/auth-utils";
+import { revokeAdminSession, revokeOtherAdminSessions } from "@/lib/actions/admin-sessions";
+
+describe("requireAdmin 会话校验", () => {
+  beforeEach(() => {
+    validateAdminSessionMock.mockReset();
+  });
+
+  it("会话已撤销或 JWT 中没有会话 ID 时拒绝", async () => {
+    authMock.mockResolvedValueOnce({ user: { id: "admin", role: "admin", adminRole: "owner" } });
+    validateAdminSessionMock.mockResolvedValueOnce(false);
+
+    await expect(requireAdmin()).rejects.toThrow("登录会话已失效");
+    expect(validateAdminSessionMock).toHaveBeenCalledWith(undefined);
+  });
+
+  it("会话有效时返回会话 ID", async () => {
+    authMock.mockResolvedValueOnce({
+      user: { id: "admin", role: "admin", adminRole: "owner", adminSessionId: "s1" },
+    });
+    validateAdminSessionMock.mockResolvedValueOnce(true);
+
+    const admin = await requireAdmin();
+    expect(admin.user.adminSessionId).toBe("s1");
+  });
+});
+
+describe("revokeAdminSession", () => {
+  beforeEach(() => {
+    validateAdminSessionMock.mockReset().mockResolvedValue(true);
+    revokeAdminSessionsMock.mockReset();
+    recordAdminAuditMock.mockReset();
+  });
+
+  it("不能下线当前会话", async () => {
+    authMock.mockResolvedValueOnce({
+      user: { id: "u1", role: "admin", adminRole: "support", adminSessionId: "s1" },
+    });
+
+    const result = await revokeAdminSession("s1");
+
+    expect(result.success).toBe(false);
+    expect(revokeAdminSessionsMock).not.toHaveBeenCalled();
+  });
+
+  it("非所有者只能下线自己的会话", async () => {
+    authMock.mockResolvedValueOnce({
+      user: { id: "u1", role: "admin", adminRole: "support", adminSessionId: "s1" },
+    });
+    revokeAdminSessionsMock.mockResolvedValueOnce([]);
+
+    const result = await revokeAdminSession("s2");
+
+    expect(result.success).toBe(false);
+    expect(revokeAdminSessionsMock).toHaveBeenCalledWith({ sessionId: "s2", actorId: "u1" }, "u1");
+    expect(recordAdminAuditMock).not.toHaveBeenCalled();
+  });
+
+  it("所有者下线其他管理员的会话并记录审计日志", async () => {
+    authMock.mockResolvedValueOnce({
+      user: { id: "admin", role: "admin", adminRole: "owner", adminSessionId: "s1" },
+    });
+    revokeAdminSessionsMock.mockResolvedValueOnce([
+      { id: "s2", actorId: "u2", actorName: "alice" },
+    ]);
+
+    const result = await revokeAdminSession("s2");
+
+    expect(result.success).toBe(true);
+    expect(revokeAdminSessionsMock).toHaveBeenCalledWith(
+      { sessionId: "s2", actorId: undefined },
+      "admin"
+    );
+    expect(recordAdminAuditMock).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "admin" }),
+      expect.objectContaining({ action: "admin_session.revoke", entityId: "s2" })
+    );
+  });
+});
+
+describe("revokeOtherAdminSessions", () => {
+  it("保留当前会话", async () => {
+    validateAdminSessionMock.mockResolvedValue(true);
+    authMock.mockResolvedValueOnce({
+      user: { id: "admin", role: "admin", adminRole: "owner", adminSessionId: "s1" },
+    });
+    revokeAdminSessionsMock.mockResolvedValueOnce([
+      { id: "s2", actorId: "u2", actorName: "alice" },
+      { id: "s3", actorId: "admin", actorName: "管理员" },
+    ]);
+
+    const result = await revokeOtherAdminSessions();
+
+    expect(result.success).toBe(true);
+    expect(result.revokedCount).toBe(2);
+    expect(revokeAdminSessionsMock).toHaveBeenLastCalledWith(
+      { actorId: undefined, exceptSessionId: "s1" },
+      "admin"
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  formatRate,
+  getAnalyticsMetrics,
+  resolveAnalyticsRange,
+  summarizeAnalyticsSeries,
+  type AnalyticsSeriesRow,
+} from "@/lib/analytics";
+
+function row(overrides: Partial<AnalyticsSeriesRow>): AnalyticsSeriesRow {
+  return {
+    bucket: "2026-03-01",
+    createdOrders: 0,
+    convertedOrders: 0,
+    expiredOrders: 0,
+    paidOrders: 0,
+    revenue: 0,
+    refundedAmount: 0,
+    refundedOrders: 0,
+    ...overrides,
+  };
+}
+
+describe("resolveAnalyticsRange", () => {
+  it("默认近 7 天并按天分桶", () => {
+    expect(resolveAnalyticsRange({}, "2026-03-01")).toEqual({
+      from: "2026-02-23",
+      to: "2026-03-01",
+      endDate: "2026-03-02",
+      days: 7,
+      bucket: "day",
+      preset: "7d",
+    });
+  });
+
+  it("今日默认按小时分桶", () => {
+    const range = resolveAnalyticsRange({ preset: "today" }, "2026-03-01");
+    expect(range).toMatchObject({ from: "2026-03-01", to: "2026-03-01", days: 1, bucket: "hour" });
+  });
+
+  it("自定义范围优先于预设，起止颠倒时自动交换", () => {
+    const range = resolveAnalyticsRange(
+      { preset: "30d", from: "2026-02-10", to: "2026-02-01", bucket: "hour" },
+      "2026-03-01"
+    );
+    expect(range).toMatchObject({
+      from: "2026-02-01",
+      to: "2026-02-10",
+      days: 10,
+      // 超过 7 天不允许按小时
+      bucket: "day",
+      preset: null,
+    });
+  });
+
+  it("自定义范围最多 366 天", () => {
+    const range = resolveAnalyticsRange({ from: "2020-01-01", to: "2026-03-01" }, "2026-03-01");
+    expect(range.from).toBe("2025-03-01");
+    expect(range.days).toBe(366);
+  });
+
+  it("无效日期回退到预设", () => {
+    const range = resolveAnalyticsRange({ from: "2026-02-30", to: "2026-03-01" }, "2026-03-01");
+    expect(range.preset).toBe("7d");
+  });
+});
+
+describe("getAnalyticsMetrics", () => {
+  it("计算转化率、过期率、客单价与退款率", () => {
+    const metrics = getAnalyticsMetrics(
+      row({ createdOrders: 10, convertedOrders: 6, expiredOrders: 3, paidOrders: 4, revenue: 100, refundedAmount: 25 })
+    );
+    expect(metrics).toEqual({
+      conversionRate: 0.6,
+      expireRate: 0.3,
+      averageOrderValue: 25,
+      refundRate: 0.25,
+    });
+  });
+
+  it("分母为 0 时为空", () => {
+    const metrics = getAnalyticsMetrics(row({}));
+    expect(metrics.conversionRate).toBeNull();
+    expect(metrics.averageOrderValue).toBeNull();
+    expect(formatRate(metrics.refundRate)).toBe("-");
+  });
+});
+
+describe("summarizeAnalyticsSeries", () => {
+  it("汇总各时段并避免浮点误差", () => {
+    const totals = summarizeAnalyticsSeries([
+      row({ createdOrders: 2, paidOrders: 1, revenue: 0.1 }),
+      row({ bucket: "2026-03-02", createdOrders: 3, paidOrders: 2, revenue: 0.2 }),
+    ]);
+    expect(totals).toMatchObject({ createdOrders: 5, paidOrders: 3, revenue: 0.3 });
+  });
+});
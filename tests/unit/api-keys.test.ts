@@ -0,0 +1,180 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// 关键：避免在单元测试中初始化真实数据库连接（lib/db 会强依赖 DATABASE_URL）
+const findFirstMock = vi.fn();
+const updateWhereMock = vi.fn();
+vi.mock("@/lib/db", () => ({
+  db: {
+    query: { apiKeys: { findFirst: (...args: unknown[]) => findFirstMock(...args) } },
+    update: () => ({ set: () => ({ where: (...args: unknown[]) => updateWhereMock(...args) }) }),
+  },
+  apiKeys: {},
+}));
+
+const consumeRateLimitMock = vi.fn();
+vi.mock("@/lib/rate-limit", () => ({
+  consumeRateLimit: (...args: unknown[]) => consumeRateLimitMock(...args),
+}));
+
+import {
+  authorizeApiRequest,
+  generateApiKey,
+  hashApiKey,
+  readApiKeyFromHeaders,
+} from "@/lib/api/keys";
+import { buildOpenApiDocument } from "@/lib/api/openapi";
+
+const activeKey = {
+  id: "key-1",
+  name: "bot",
+  keyPrefix: "ldc_abcdefgh",
+  keyHash: "hash",
+  scopes: ["products:read", "orders:read"],
+  userId: "10086",
+  username: "alice",
+  rateLimitPerMinute: 30,
+  lastUsedAt: new Date(),
+  revokedAt: null,
+  createdBy: "admin",
+  createdAt: new Date(),
+};
+
+function requestWith(headers: Record<string, string>) {
+  return new Request("http://localhost/api/v1/products", { headers });
+}
+
+describe("generateApiKey", () => {
+  it("生成 ldc_ 前缀的密钥，只保存哈希与展示前缀", () => {
+    const { key, prefix, hash } = generateApiKey();
+
+    expect(key).toMatch(/^ldc_[A-Za-z0-9_-]{32}$/);
+    expect(prefix).toBe(key.slice(0, 12));
+    expect(hash).toBe(hashApiKey(key));
+    expect(hash).not.toContain(key);
+    expect(generateApiKey().key).not.toBe(key);
+  });
+});
+
+describe("readApiKeyFromHeaders", () => {
+  it("支持 Bearer 与 X-API-Key 两种请求头", () => {
+    expect(readApiKeyFromHeaders(new Headers({ authorization: "Bearer ldc_a" }))).toBe("ldc_a");
+    expect(readApiKeyFromHeaders(new Headers({ "x-api-key": " ldc_b " }))).toBe("ldc_b");
+    expect(readApiKeyFromHeaders(new Headers({ authorization: "Basic xxx" }))).toBeNull();
+  });
+});
+
+describe("authorizeApiRequest", () => {
+  beforeEach(() => {
+    findFirstMock.mockReset();
+    updateWhereMock.mockReset();
+    consumeRateLimitMock
+      .mockReset()
+      .mockResolvedValue({ success: true, remaining: 29, resetIn: 60, blocked: false });
+  });
+
+  it("缺少密钥时返回 401", async () => {
+    const result = await authorizeApiRequest(requestWith({}), "products:read");
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.response.status).toBe(401);
+    expect(findFirstMock).not.toHaveBeenCalled();
+  });
+
+  it("密钥不存在或已撤销时返回 401", async () => {
+    findFirstMock.mockResolvedValueOnce(undefined);
+
+    const result = await authorizeApiRequest(
+      requestWith({ authorization: "Bearer ldc_unknown" }),
+      "products:read"
+    );
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.response.status).toBe(401);
+  });
+
+  it("缺少权限范围时返回 403，且不消耗限流次数", async () => {
+    findFirstMock.mockResolvedValueOnce(activeKey);
+
+    const result = await authorizeApiRequest(
+      requestWith({ authorization: "Bearer ldc_valid" }),
+      "orders:create"
+    );
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.response.status).toBe(403);
+    expect(consumeRateLimitMock).not.toHaveBeenCalled();
+  });
+
+  it("超出每分钟上限时返回 429 与 Retry-After", async () => {
+    findFirstMock.mockResolvedValueOnce(activeKey);
+    consumeRateLimitMock.mockResolvedValueOnce({
+      success: false,
+      remaining: 0,
+      resetIn: 42,
+      blocked: true,
+      message: "请求过于频繁",
+    });
+
+    const result = await authorizeApiRequest(
+      requestWith({ "x-api-key": "ldc_valid" }),
+      "products:read"
+    );
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.response.status).toBe(429);
+      expect(result.response.headers.get("Retry-After")).toBe("42");
+    }
+    expect(consumeRateLimitMock).toHaveBeenCalledWith("api-key:key-1", {
+      windowMs: 60000,
+      maxAttempts: 30,
+    });
+  });
+
+  it("校验通过时返回密钥与限流响应头，最近使用时间未过期则不写库", async () => {
+    findFirstMock.mockResolvedValueOnce(activeKey);
+
+    const result = await authorizeApiRequest(
+      requestWith({ authorization: "Bearer ldc_valid" }),
+      "orders:read"
+    );
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.apiKey.userId).toBe("10086");
+      expect(result.headers).toEqual({
+        "X-RateLimit-Limit": "30",
+        "X-RateLimit-Remaining": "29",
+        "X-RateLimit-Reset": "60",
+      });
+    }
+    expect(updateWhereMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("buildOpenApiDocument", () => {
+  it("由 zod schema 生成请求参数，并标注每个接口需要的权限范围", () => {
+    const document = buildOpenApiDocument("https://shop.example.com");
+
+    expect(document.servers[0].url).toBe("https://shop.example.com/api/v1");
+    expect(Object.keys(document.paths)).toEqual([
+      "/products",
+      "/orders",
+      "/orders/{orderNo}",
+      "/orders/{orderNo}/cards",
+    ]);
+    expect(document.paths["/orders"].post.security).toEqual([{ apiKey: ["orders:create"] }]);
+
+    const body = document.paths["/orders"].post.requestBody.content["application/json"].schema as {
+      properties: Record<string, unknown>;
+      required: string[];
+    };
+    expect(Object.keys(body.properties)).toEqual(
+      expect.arrayContaining(["productId", "variantId", "quantity", "paymentMethod", "couponCode"])
+    );
+    expect(body.required).toEqual(expect.arrayContaining(["productId", "quantity"]));
+
+    const parameters = document.paths["/products"].get.parameters;
+    expect(parameters.map((parameter) => parameter.name)).toEqual(["categoryId", "limit", "offset"]);
+  });
+});
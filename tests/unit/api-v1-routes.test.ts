@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+
+// 关键：避免在单元测试中初始化真实数据库连接（lib/db 会强依赖 DATABASE_URL）
+vi.mock("@/lib/db", () => ({
+  db: {},
+  apiKeys: {},
+}));
+
+const authorizeMock = vi.fn();
+vi.mock("@/lib/api/keys", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/api/keys")>()),
+  authorizeApiRequest: (...args: unknown[]) => authorizeMock(...args),
+}));
+
+const placeProductOrderMock = vi.fn();
+vi.mock("@/lib/order-placement", () => ({
+  placeProductOrder: (...args: unknown[]) => placeProductOrderMock(...args),
+}));
+
+const getApiOrderCardsMock = vi.fn();
+vi.mock("@/lib/api/resources", () => ({
+  listApiProducts: vi.fn(),
+  getApiOrderCards: (...args: unknown[]) => getApiOrderCardsMock(...args),
+}));
+
+const logError = vi.fn();
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    child: () => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: logError,
+      child: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+    }),
+  },
+}));
+
+import { POST as createOrderRoute } from "@/app/api/v1/orders/route";
+import { GET as getOrderCardsRoute } from "@/app/api/v1/orders/[orderNo]/cards/route";
+import { GET as listProductsRoute } from "@/app/api/v1/products/route";
+
+const authorized = {
+  ok: true,
+  apiKey: { id: "key-1", userId: "10086", username: "alice" },
+  headers: { "X-RateLimit-Limit": "60", "X-RateLimit-Remaining": "59", "X-RateLimit-Reset": "60" },
+};
+
+function orderRequest() {
+  return new NextRequest("http://localhost/api/v1/orders", {
+    method: "POST",
+    headers: { authorization: "Bearer ldc_valid", "content-type": "application/json" },
+    body: JSON.stringify({ productId: "00000000-0000-4000-8000-000000000001", quantity: 1 }),
+  });
+}
+
+beforeEach(() => {
+  authorizeMock.mockReset().mockResolvedValue(authorized);
+  placeProductOrderMock.mockReset();
+  getApiOrderCardsMock.mockReset();
+  logError.mockReset();
+});
+
+describe("POST /api/v1/orders", () => {
+  it("订单已创建但支付表单生成失败时返回 202 与订单号", async () => {
+    placeProductOrderMock.mockResolvedValueOnce({
+      success: true,
+      message: "订单创建成功，但支付链接生成失败，请稍后重试支付",
+      orderNo: "LD123",
+    });
+
+    const response = await createOrderRoute(orderRequest());
+
+    expect(response.status).toBe(202);
+    expect(response.headers.get("X-RateLimit-Remaining")).toBe("59");
+    await expect(response.json()).resolves.toMatchObject({
+      success: true,
+      data: { orderNo: "LD123", payment: null },
+    });
+  });
+
+  it("下单失败（如库存不足）时返回 400", async () => {
+    placeProductOrderMock.mockResolvedValueOnce({ success: false, message: "库存不足" });
+
+    const response = await createOrderRoute(orderRequest());
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toEqual({ success: false, message: "库存不足" });
+  });
+
+  it("下单成功时返回 201 与支付表单", async () => {
+    placeProductOrderMock.mockResolvedValueOnce({
+      success: true,
+      message: "订单创建成功",
+      orderNo: "LD123",
+      paymentForm: { actionUrl: "https://pay.example.com/submit", params: { sign: "x" } },
+    });
+
+    const response = await createOrderRoute(orderRequest());
+
+    expect(response.status).toBe(201);
+    await expect(response.json()).resolves.toEqual({
+      success: true,
+      data: {
+        orderNo: "LD123",
+        payment: { url: "https://pay.example.com/submit", method: "POST", params: { sign: "x" } },
+      },
+    });
+  });
+});
+
+describe("数据库异常", () => {
+  it("获取卡密失败时返回统一的错误格式并记录日志", async () => {
+    getApiOrderCardsMock.mockRejectedValueOnce(new Error("connection refused"));
+
+    const response = await getOrderCardsRoute(
+      new NextRequest("http://localhost/api/v1/orders/LD123/cards"),
+      { params: Promise.resolve({ orderNo: "LD123" }) }
+    );
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toEqual({ success: false, message: "获取卡密失败" });
+    expect(logError).toHaveBeenCalledTimes(1);
+  });
+
+  it("密钥校验查询失败时同样返回统一的错误格式", async () => {
+    authorizeMock.mockReset().mockRejectedValueOnce(new Error("connection refused"));
+
+    const response = await listProductsRoute(new NextRequest("http://localhost/api/v1/products"));
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toEqual({ success: false, message: "获取商品列表失败" });
+    expect(logError).toHaveBeenCalledTimes(1);
+  });
+});
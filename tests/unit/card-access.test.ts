@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const insertValuesMock = vi.fn();
+const loggerErrorMock = vi.fn();
+
+// 关键：避免在单元测试中初始化真实数据库连接（lib/db 会强依赖 DATABASE_URL）
+vi.mock("@/lib/db", () => ({
+  db: {
+    insert: () => ({
+      values: async (values: unknown) => insertValuesMock(values),
+    }),
+  },
+  cardAccessEvents: {},
+}));
+
+vi.mock("next/headers", () => ({
+  headers: async () =>
+    new Headers({
+      "x-forwarded-for": "203.0.113.9",
+      "user-agent": "vitest",
+    }),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    error: (...args: unknown[]) => loggerErrorMock(...args),
+  },
+}));
+
+import { recordCardAccess } from "@/lib/card-access";
+
+describe("recordCardAccess", () => {
+  beforeEach(() => {
+    insertValuesMock.mockReset();
+    loggerErrorMock.mockReset();
+  });
+
+  it("每张展示的卡密写入一条记录，并带上请求 IP 与 UA", async () => {
+    await recordCardAccess(
+      [
+        { id: "c1", orderId: "o1" },
+        { id: "c2", orderId: "o1" },
+      ],
+      { type: "buyer", id: "u1", name: "alice" },
+      "order_my"
+    );
+
+    expect(insertValuesMock).toHaveBeenCalledTimes(1);
+    const rows = insertValuesMock.mock.calls[0][0] as Record<string, unknown>[];
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      cardId: "c1",
+      orderId: "o1",
+      source: "order_my",
+      actorType: "buyer",
+      actorId: "u1",
+      actorName: "alice",
+      ipAddress: "203.0.113.9",
+      userAgent: "vitest",
+    });
+  });
+
+  it("没有展示卡密时不写入；写入失败不向上抛错", async () => {
+    await recordCardAccess([], { type: "admin", id: "a1" }, "admin_cards");
+    expect(insertValuesMock).not.toHaveBeenCalled();
+
+    insertValuesMock.mockRejectedValueOnce(new Error("db down"));
+    await expect(
+      recordCardAccess([{ id: "c1", orderId: null }], { type: "admin", id: "a1" }, "admin_cards")
+    ).resolves.toBeUndefined();
+    expect(loggerErrorMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,87 @@
+import crypto from "node:crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  decryptCardContent,
+  decryptCardContentForDisplay,
+  hashCardContent,
+  isEncryptedWithCurrentKey,
+  sealCardContent,
+} from "@/lib/card-crypto";
+
+const ENV_KEYS = ["CARD_ENCRYPTION_KEY", "CARD_ENCRYPTION_PREVIOUS_KEYS", "CARD_HASH_KEY"] as const;
+const originalEnv = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+
+const newKey = () => crypto.randomBytes(32).toString("base64");
+
+// 为什么这样做：单元测试要避免污染全局 env，确保并行/顺序运行都稳定。
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = originalEnv[key];
+    }
+  }
+});
+
+describe("card content encryption", () => {
+  it("未配置主密钥时按明文存储，哈希为 SHA-256（与迁移回填一致）", () => {
+    for (const key of ENV_KEYS) delete process.env[key];
+
+    const sealed = sealCardContent("card-001");
+
+    expect(sealed.content).toBe("card-001");
+    expect(sealed.contentHash).toBe(crypto.createHash("sha256").update("card-001").digest("hex"));
+    expect(decryptCardContent(sealed.content)).toBe("card-001");
+  });
+
+  it("加密后密文不含明文，且可解密还原", () => {
+    process.env.CARD_ENCRYPTION_KEY = newKey();
+    process.env.CARD_HASH_KEY = newKey();
+
+    const sealed = sealCardContent("账号:alice 密码:secret");
+
+    expect(sealed.content).not.toContain("secret");
+    expect(isEncryptedWithCurrentKey(sealed.content)).toBe(true);
+    expect(decryptCardContent(sealed.content)).toBe("账号:alice 密码:secret");
+    // 同一内容每次加密结果不同，但去重哈希一致
+    expect(sealCardContent("账号:alice 密码:secret").content).not.toBe(sealed.content);
+    expect(hashCardContent("账号:alice 密码:secret")).toBe(sealed.contentHash);
+  });
+
+  it("轮换主密钥后旧密文仍可通过 CARD_ENCRYPTION_PREVIOUS_KEYS 解密", () => {
+    const oldKey = newKey();
+    process.env.CARD_ENCRYPTION_KEY = oldKey;
+    process.env.CARD_HASH_KEY = newKey();
+    const { content } = sealCardContent("card-001");
+
+    process.env.CARD_ENCRYPTION_KEY = newKey();
+    expect(() => decryptCardContent(content)).toThrow("缺少卡密主密钥");
+
+    process.env.CARD_ENCRYPTION_PREVIOUS_KEYS = oldKey;
+    expect(isEncryptedWithCurrentKey(content)).toBe(false);
+    expect(decryptCardContent(content)).toBe("card-001");
+  });
+
+  it("列表展示时缺少主密钥的卡密返回占位文本，不抛错", () => {
+    process.env.CARD_ENCRYPTION_KEY = newKey();
+    process.env.CARD_HASH_KEY = newKey();
+    const { content } = sealCardContent("card-001");
+    const keyId = content.split(":")[2];
+
+    process.env.CARD_ENCRYPTION_KEY = newKey();
+    const onError = vi.fn();
+
+    expect(decryptCardContentForDisplay(content, onError)).toBe(`无法解密（缺少主密钥 ${keyId}）`);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(decryptCardContentForDisplay("card-002", onError)).toBe("card-002");
+  });
+
+  it("启用加密但未配置去重哈希密钥时拒绝工作", () => {
+    process.env.CARD_ENCRYPTION_KEY = newKey();
+    delete process.env.CARD_HASH_KEY;
+
+    expect(() => sealCardContent("card-001")).toThrow("CARD_HASH_KEY");
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from "vitest";
+
+const updateSetMock = vi.fn();
+
+// 关键：避免在单元测试中初始化真实数据库连接（lib/db 会强依赖 DATABASE_URL）
+vi.mock("@/lib/db", () => ({
+  db: {
+    update: () => ({
+      set: (values: unknown) => {
+        updateSetMock(values);
+        return {
+          where: () => ({
+            returning: async () => [{ productId: "p1" }, { productId: "p1" }, { productId: "p2" }],
+          }),
+        };
+      },
+    }),
+  },
+  cards: {},
+}));
+
+import { expireStaleCards } from "@/lib/card-expiry";
+
+describe("expireStaleCards", () => {
+  it("把过期的可用卡密标记为 expired，并返回涉及的商品", async () => {
+    const result = await expireStaleCards();
+
+    expect(updateSetMock).toHaveBeenCalledWith({ status: "expired" });
+    expect(result).toEqual({ expired: 3, productIds: ["p1", "p2"] });
+  });
+});
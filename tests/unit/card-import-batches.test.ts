@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const selectBatchMock = vi.fn();
+const deleteReturningMock = vi.fn();
+const updateSetMock = vi.fn();
+const lockedCountMock = vi.fn();
+const revalidateCardCacheMock = vi.fn();
+const recordAdminAuditMock = vi.fn();
+
+// 关键：避免在单元测试中初始化真实数据库连接（lib/db 会强依赖 DATABASE_URL）
+vi.mock("@/lib/db", () => {
+  const tx = {
+    select: (fields: Record<string, unknown>) => ({
+      from: () => ({
+        where: () =>
+          "locked" in fields
+            ? lockedCountMock()
+            : { for: async () => selectBatchMock() },
+      }),
+    }),
+    delete: () => ({
+      where: () => ({
+        returning: async () => deleteReturningMock(),
+      }),
+    }),
+    update: () => ({
+      set: (values: unknown) => ({
+        where: async () => updateSetMock(values),
+      }),
+    }),
+  };
+
+  return {
+    db: {
+      transaction: async (fn: (tx: unknown) => unknown) => fn(tx),
+    },
+    cards: {},
+    cardImportBatches: {},
+  };
+});
+
+const authMock = vi.fn();
+vi.mock("@/lib/auth", () => ({
+  auth: () => authMock(),
+}));
+
+// 管理员会话记录由 lib/admin-sessions 校验，这里视为有效
+vi.mock("@/lib/admin-sessions", () => ({
+  validateAdminSession: async () => true,
+}));
+
+vi.mock("@/lib/admin-audit", () => ({
+  recordAdminAudit: (...args: unknown[]) => recordAdminAuditMock(...args),
+}));
+
+// 库存预警在响应后异步检查，这里不关心
+vi.mock("@/lib/stock-alerts", () => ({
+  scheduleStockAlerts: vi.fn(),
+}));
+
+vi.mock("@/lib/cache", () => ({
+  revalidateCardCache: () => revalidateCardCacheMock(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    child: () => ({ info: vi.fn(), error: vi.fn() }),
+  },
+}));
+
+import { revokeCardImportBatch } from "@/lib/actions/card-import-batches";
+
+describe("revokeCardImportBatch", () => {
+  beforeEach(() => {
+    selectBatchMock.mockReset();
+    deleteReturningMock.mockReset();
+    updateSetMock.mockReset();
+    lockedCountMock.mockReset();
+    revalidateCardCacheMock.mockReset();
+    recordAdminAuditMock.mockReset();
+    authMock.mockResolvedValue({ user: { id: "a1", role: "admin", name: "admin" } });
+  });
+
+  it("非管理员不能撤回", async () => {
+    authMock.mockResolvedValueOnce({ user: { id: "u1", role: "user" } });
+
+    const result = await revokeCardImportBatch("b1");
+
+    expect(result).toEqual({ success: false, message: "需要管理员权限" });
+    expect(selectBatchMock).not.toHaveBeenCalled();
+  });
+
+  it("删除未售出卡密并累计到批次，锁定中的卡密保留", async () => {
+    selectBatchMock.mockResolvedValueOnce([{ id: "b1", productId: "p1" }]);
+    deleteReturningMock.mockResolvedValueOnce([{ id: "c1" }, { id: "c2" }]);
+    lockedCountMock.mockResolvedValueOnce([{ locked: 1 }]);
+
+    const result = await revokeCardImportBatch("b1");
+
+    expect(result.success).toBe(true);
+    expect(result.revoked).toBe(2);
+    expect(result.message).toContain("1 个锁定中的卡密未处理");
+    expect(updateSetMock).toHaveBeenCalledWith(
+      expect.objectContaining({ revokedBy: "admin", revokedAt: expect.any(Date) })
+    );
+    expect(revalidateCardCacheMock).toHaveBeenCalledTimes(1);
+    expect(recordAdminAuditMock).toHaveBeenCalledWith(expect.objectContaining({ id: "a1" }), {
+      action: "card_batch.revoke",
+      entityType: "card_batch",
+      entityId: "b1",
+      before: { productId: "p1" },
+      after: { revokedCount: 2, lockedCount: 1 },
+    });
+  });
+
+  it("没有可撤回的卡密时不更新批次", async () => {
+    selectBatchMock.mockResolvedValueOnce([{ id: "b1" }]);
+    deleteReturningMock.mockResolvedValueOnce([]);
+    lockedCountMock.mockResolvedValueOnce([{ locked: 0 }]);
+
+    const result = await revokeCardImportBatch("b1");
+
+    expect(result).toEqual({ success: false, message: "该批次没有可撤回的卡密" });
+    expect(updateSetMock).not.toHaveBeenCalled();
+    expect(revalidateCardCacheMock).not.toHaveBeenCalled();
+    expect(recordAdminAuditMock).not.toHaveBeenCalled();
+  });
+
+  it("批次不存在", async () => {
+    selectBatchMock.mockResolvedValueOnce([]);
+
+    const result = await revokeCardImportBatch("missing");
+
+    expect(result).toEqual({ success: false, message: "导入批次不存在" });
+    expect(deleteReturningMock).not.toHaveBeenCalled();
+  });
+});
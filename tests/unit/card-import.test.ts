@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildCardImportRows,
+  defaultCardImportColumns,
+  parseCardExpiresAt,
+  parseCsv,
+  readCardImportTable,
+  validateCardImportColumns,
+} from "@/lib/card-import";
+
+describe("parseCsv", () => {
+  it("支持引号包裹、转义引号、字段内换行与 CRLF", () => {
+    const rows = parseCsv('账号,备注\r\nalice,"a, ""b""\nc"\r\n\r\nbob,x');
+
+    expect(rows).toEqual([
+      ["账号", "备注"],
+      ["alice", 'a, "b"\nc'],
+      ["bob", "x"],
+    ]);
+  });
+});
+
+describe("readCardImportTable", () => {
+  it("JSON 对象数组按首次出现顺序汇总列名", () => {
+    const table = readCardImportTable('[{"账号":"alice","密码":1},{"账号":"bob","邮箱":null}]', "json");
+
+    expect(table).toEqual({
+      ok: true,
+      columns: ["账号", "密码", "邮箱"],
+      records: [
+        { 账号: "alice", 密码: "1" },
+        { 账号: "bob", 邮箱: "" },
+      ],
+    });
+  });
+
+  it("拒绝非对象数组与重复表头", () => {
+    expect(readCardImportTable('{"a":1}', "json")).toEqual({ ok: false, message: "JSON 必须是对象数组" });
+    expect(readCardImportTable("a,a\n1,2", "csv")).toEqual({ ok: false, message: "CSV 表头存在重复列名" });
+  });
+});
+
+describe("buildCardImportRows", () => {
+  const now = new Date("2026-01-01T00:00:00.000Z");
+
+  it("按列映射生成字段，有效期列自动识别", () => {
+    const columns = defaultCardImportColumns(["账号", "密码", "有效期"]);
+    const [row] = buildCardImportRows([{ 账号: "alice", 密码: "p1", 有效期: "2026-06-30" }], columns, now);
+
+    expect(row.fields).toEqual([
+      { label: "账号", value: "alice" },
+      { label: "密码", value: "p1" },
+    ]);
+    expect(row.content).toBe("alice----p1");
+    expect(row.expiresAt?.toISOString()).toBe("2026-06-30T23:59:59.999Z");
+    expect(row.errors).toEqual([]);
+  });
+
+  it("逐行报告空字段与已过期", () => {
+    const columns = defaultCardImportColumns(["账号", "expires_at"]);
+    const [row] = buildCardImportRows([{ 账号: "", expires_at: "2025-12-31 08:00" }], columns, now);
+
+    expect(row.errors).toEqual(["账号 为空", "卡密已过期"]);
+  });
+
+  it("列映射至少包含一个字段且字段名不重复", () => {
+    expect(validateCardImportColumns([{ key: "a", target: "ignore", label: "a" }])).toBe(
+      "请至少映射一列卡密字段"
+    );
+    expect(
+      validateCardImportColumns([
+        { key: "a", target: "field", label: "账号" },
+        { key: "b", target: "field", label: "账号" },
+      ])
+    ).toBe("字段名称不能重复");
+  });
+});
+
+describe("parseCardExpiresAt", () => {
+  it("拒绝不存在的日期与无法解析的文本", () => {
+    expect(parseCardExpiresAt("2026-02-30")).toBeNull();
+    expect(parseCardExpiresAt("明年")).toBeNull();
+    expect(parseCardExpiresAt("2026-03-01T08:00:00+08:00")?.toISOString()).toBe("2026-03-01T00:00:00.000Z");
+  });
+});
@@ -1,10 +1,23 @@
 import { describe, expect, it, vi } from "vitest";
 
 // 关键：避免在单元测试中初始化真实数据库连接（lib/db 会强依赖 DATABASE_URL）
+const findProductMock = vi.fn();
+const findVariantsMock = vi.fn();
+
 vi.mock("@/lib/db", () => ({
-  db: {},
+  db: {
+    query: {
+      products: {
+        findFirst: (...args: unknown[]) => findProductMock(...args),
+      },
+      productVariants: {
+        findMany: (...args: unknown[]) => findVariantsMock(...args),
+      },
+    },
+  },
   cards: {},
   products: {},
+  productVariants: {},
 }));
 
 const authMock = vi.fn();
@@ -12,7 +25,26 @@ vi.mock("@/lib/auth", () => ({
   auth: () => authMock(),
 }));
 
-import { createCard } from "@/lib/actions/cards";
+// 管理员会话记录由 lib/admin-sessions 校验，这里视为有效
+vi.mock("@/lib/admin-sessions", () => ({
+  validateAdminSession: async () => true,
+}));
+
+// 卡密查看记录依赖请求头与日志，这里不关心
+vi.mock("@/lib/card-access", () => ({
+  recordCardAccess: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    child: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import { createCard, getCardsByProduct, getCardStats, importCards } from "@/lib/actions/cards";
 
 describe("createCard", () => {
   it("should reject when user is not admin", async () => {
@@ -33,6 +65,26 @@ describe("createCard", () => {
     expect(result.message).toContain("需要管理员权限");
   });
 
+  it("should reject admins whose role lacks cards.manage", async () => {
+    authMock.mockResolvedValueOnce({
+      user: {
+        id: "u1",
+        role: "admin",
+        adminRole: "support",
+      },
+    });
+
+    const result = await createCard({
+      productId: "00000000-0000-0000-0000-000000000000",
+      content: "card-001",
+      deduplicate: true,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("需要管理员权限");
+    expect(findProductMock).not.toHaveBeenCalled();
+  });
+
   it("should validate input before touching database", async () => {
     authMock.mockResolvedValueOnce({
       user: {
@@ -69,3 +121,64 @@ describe("createCard", () => {
     expect(result.message).toBe("卡密内容不能为空");
   });
 });
+
+describe("importCards", () => {
+  it("should require a variant when the product has variants", async () => {
+    authMock.mockResolvedValueOnce({
+      user: {
+        id: "u1",
+        role: "admin",
+      },
+    });
+    findProductMock.mockResolvedValueOnce({ id: "00000000-0000-0000-0000-000000000000" });
+    findVariantsMock.mockResolvedValueOnce([{ id: "11111111-1111-1111-1111-111111111111" }]);
+
+    const result = await importCards({
+      productId: "00000000-0000-0000-0000-000000000000",
+      content: "card-001\ncard-002",
+      delimiter: "newline",
+      deduplicate: true,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe("请选择卡密所属规格");
+  });
+});
+
+describe("importCards (structured)", () => {
+  it("should return per-row validation errors without importing", async () => {
+    authMock.mockResolvedValueOnce({
+      user: {
+        id: "u1",
+        role: "admin",
+      },
+    });
+    findProductMock.mockResolvedValueOnce({ id: "00000000-0000-0000-0000-000000000000" });
+    findVariantsMock.mockResolvedValueOnce([]);
+
+    const result = await importCards({
+      productId: "00000000-0000-0000-0000-000000000000",
+      content: "账号,密码,有效期\nalice,p1,2999-12-31\nbob,,not-a-date",
+      format: "csv",
+      deduplicate: false,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe("1 行校验未通过，请修正后再导入");
+    expect("preview" in result && result.preview?.map((row) => row.errors)).toEqual([
+      [],
+      ["密码 为空", "有效期格式无效：not-a-date"],
+    ]);
+  });
+});
+
+describe("getCardsByProduct / getCardStats", () => {
+  it("should reject when user is not admin", async () => {
+    authMock.mockResolvedValue({ user: { id: "u1", role: "user" } });
+
+    await expect(getCardsByProduct("00000000-0000-0000-0000-000000000000")).rejects.toThrow("需要管理员权限");
+    await expect(getCardStats("00000000-0000-0000-0000-000000000000")).rejects.toThrow("需要管理员权限");
+
+    authMock.mockReset();
+  });
+});
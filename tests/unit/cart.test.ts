@@ -0,0 +1,211 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const authMock = vi.fn();
+const findManyCartMock = vi.fn();
+const transactionMock = vi.fn();
+const createPaymentMock = vi.fn();
+
+// 关键：避免在单元测试中初始化真实数据库连接（lib/db 会强依赖 DATABASE_URL）
+vi.mock("@/lib/db", () => ({
+  db: {
+    query: {
+      cartItems: {
+        findMany: (...args: unknown[]) => findManyCartMock(...args),
+      },
+    },
+    transaction: (...args: unknown[]) => transactionMock(...args),
+  },
+  orders: {},
+  orderItems: {},
+  cartItems: {},
+  cards: {},
+  products: {},
+}));
+
+vi.mock("@/lib/auth", () => ({
+  auth: () => authMock(),
+}));
+
+vi.mock("next/headers", () => ({
+  headers: async () => new Headers({ host: "shop.example.com", "x-forwarded-proto": "https" }),
+}));
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}));
+
+vi.mock("@/lib/actions/system-settings", () => ({
+  getSystemSettings: async () => ({ orderExpireMinutes: 5 }),
+}));
+
+vi.mock("@/lib/payment/ldc", () => ({
+  createPayment: (...args: unknown[]) => createPaymentMock(...args),
+  refundOrder: vi.fn(),
+  isRefundEnabled: () => false,
+  getRefundMode: () => "disabled",
+  getClientRefundParams: vi.fn(),
+}));
+
+// 避免测试输出被日志污染（这里不关心日志行为）
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    child: () => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+  getRequestIdFromHeaders: async () => undefined,
+}));
+
+import { addToCart } from "@/lib/actions/cart";
+import { checkoutCart } from "@/lib/actions/orders";
+
+const loggedInSession = {
+  user: { id: "u1", provider: "linux-do", username: "tester" },
+};
+
+function product(id: string, name: string, price: string) {
+  return { id, name, slug: id, price, isActive: true, minQuantity: 1, maxQuantity: 10 };
+}
+
+/**
+ * 构造一个最小可用的事务 mock：
+ * - select(...).for("update") 按调用顺序返回每个商品的可用卡密
+ * - insert(...).values(...) 记录写入内容
+ */
+function createTxMock(availableCardsPerLine: Array<Array<{ id: string }>>) {
+  const inserted: unknown[] = [];
+  const updates: unknown[] = [];
+  let selectCall = 0;
+
+  const tx = {
+    select: () => ({
+      from: () => ({
+        where: () => ({
+          orderBy: () => ({
+            limit: () => ({
+              for: async () => availableCardsPerLine[selectCall++] ?? [],
+            }),
+          }),
+        }),
+      }),
+    }),
+    insert: () => ({
+      values: (values: unknown) => {
+        inserted.push(values);
+        return {
+          returning: async () => [{ id: "order-1", ...(values as object) }],
+        };
+      },
+    }),
+    update: () => ({
+      set: (values: unknown) => ({
+        where: async () => {
+          updates.push(values);
+        },
+      }),
+    }),
+    delete: () => ({
+      where: async () => undefined,
+    }),
+  };
+
+  return { tx, inserted, updates };
+}
+
+describe("cart actions", () => {
+  beforeEach(() => {
+    authMock.mockReset();
+    findManyCartMock.mockReset();
+    transactionMock.mockReset();
+    createPaymentMock.mockReset();
+  });
+
+  it("addToCart should reject when user is not logged in", async () => {
+    authMock.mockResolvedValueOnce(null);
+
+    const result = await addToCart({
+      productId: "00000000-0000-0000-0000-000000000000",
+      quantity: 1,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("请先登录");
+  });
+
+  it("addToCart should validate input before touching database", async () => {
+    authMock.mockResolvedValueOnce(loggedInSession);
+
+    const result = await addToCart({ productId: "not-a-uuid", quantity: 1 });
+
+    expect(result).toEqual({ success: false, message: "无效的商品ID" });
+  });
+
+  it("checkoutCart should reject empty cart", async () => {
+    authMock.mockResolvedValueOnce(loggedInSession);
+    // releaseExpiredOrders 内部失败会被吞掉并返回 0，不影响结算流程
+    transactionMock.mockRejectedValueOnce(new Error("skip"));
+    findManyCartMock.mockResolvedValueOnce([]);
+
+    const result = await checkoutCart();
+
+    expect(result).toEqual({ success: false, message: "购物车为空" });
+  });
+
+  it("checkoutCart should create one order with items and a single payment", async () => {
+    authMock.mockResolvedValueOnce(loggedInSession);
+    findManyCartMock.mockResolvedValueOnce([
+      { id: "c1", productId: "p1", quantity: 2, product: product("p1", "商品A", "1.10") },
+      { id: "c2", productId: "p2", quantity: 1, product: product("p2", "商品B", "2.25") },
+    ]);
+    createPaymentMock.mockReturnValueOnce({ actionUrl: "https://pay", params: {} });
+
+    const { tx, inserted } = createTxMock([
+      [{ id: "card-a1" }, { id: "card-a2" }],
+      [{ id: "card-b1" }],
+    ]);
+    transactionMock
+      .mockRejectedValueOnce(new Error("skip"))
+      .mockImplementationOnce(async (fn: (t: typeof tx) => unknown) => fn(tx));
+
+    const result = await checkoutCart({ paymentMethod: "ldc" });
+
+    expect(result.success).toBe(true);
+    expect(inserted[0]).toMatchObject({
+      productId: null,
+      productName: "商品A 等 2 件商品",
+      quantity: 3,
+      totalAmount: "4.45",
+    });
+    expect(inserted[1]).toEqual([
+      expect.objectContaining({ productId: "p1", quantity: 2, subtotal: "2.20" }),
+      expect.objectContaining({ productId: "p2", quantity: 1, subtotal: "2.25" }),
+    ]);
+    expect(createPaymentMock).toHaveBeenCalledTimes(1);
+    expect(createPaymentMock.mock.calls[0][1]).toBe(4.45);
+  });
+
+  it("checkoutCart should roll back when any line is out of stock", async () => {
+    authMock.mockResolvedValueOnce(loggedInSession);
+    findManyCartMock.mockResolvedValueOnce([
+      { id: "c1", productId: "p1", quantity: 1, product: product("p1", "商品A", "1.00") },
+      { id: "c2", productId: "p2", quantity: 2, product: product("p2", "商品B", "1.00") },
+    ]);
+
+    const { tx, inserted } = createTxMock([[{ id: "card-a1" }], [{ id: "card-b1" }]]);
+    transactionMock
+      .mockRejectedValueOnce(new Error("skip"))
+      .mockImplementationOnce(async (fn: (t: typeof tx) => unknown) => fn(tx));
+
+    const result = await checkoutCart();
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe("「商品B」库存不足，当前仅剩 1 件");
+    expect(inserted).toHaveLength(0);
+    expect(createPaymentMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const authMock = vi.fn();
+const findFirstOrderMock = vi.fn();
+const consumeRateLimitMock = vi.fn();
+const queryOrderMock = vi.fn();
+const settleMock = vi.fn();
+
+vi.mock("drizzle-orm", () => ({
+  and: (...args: unknown[]) => ({ op: "and", args }),
+  eq: (...args: unknown[]) => ({ op: "eq", args }),
+}));
+
+// 关键：避免在单元测试中初始化真实数据库连接（lib/db 会强依赖 DATABASE_URL）
+vi.mock("@/lib/db", () => ({
+  db: {
+    query: {
+      orders: {
+        findFirst: (...args: unknown[]) => findFirstOrderMock(...args),
+      },
+    },
+  },
+  orders: {},
+}));
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}));
+
+vi.mock("@/lib/auth", () => ({
+  auth: () => authMock(),
+}));
+
+vi.mock("@/lib/auth-utils", () => ({
+  requireAdmin: vi.fn(),
+}));
+
+vi.mock("@/lib/rate-limit", () => ({
+  consumeRateLimit: (...args: unknown[]) => consumeRateLimitMock(...args),
+}));
+
+vi.mock("@/lib/payment/registry", () => ({
+  getPaymentProvider: async (method: string) =>
+    method === "ldc" ? { method, queryOrder: queryOrderMock } : null,
+}));
+
+vi.mock("@/lib/payment/reconcile", () => ({
+  reconcilePayments: vi.fn(),
+  settleGatewayPaidOrder: (...args: unknown[]) => settleMock(...args),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    child: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  },
+  getRequestIdFromHeaders: async () => undefined,
+}));
+
+import { checkOrderPayment } from "@/lib/actions/reconciliation";
+
+function order(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "o1",
+    orderNo: "ORDER_1",
+    status: "pending",
+    totalAmount: "10.00",
+    paymentMethod: "ldc",
+    tradeNo: null,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  authMock.mockReset();
+  findFirstOrderMock.mockReset();
+  consumeRateLimitMock.mockReset();
+  queryOrderMock.mockReset();
+  settleMock.mockReset();
+
+  authMock.mockResolvedValue({ user: { id: "u1", provider: "linux-do" } });
+  consumeRateLimitMock.mockResolvedValue({ success: true });
+});
+
+describe("checkOrderPayment", () => {
+  it("rejects users that are not logged in", async () => {
+    authMock.mockResolvedValueOnce(null);
+
+    const result = await checkOrderPayment("ORDER_1");
+
+    expect(result).toEqual({ success: false, message: "请先登录" });
+    expect(findFirstOrderMock).not.toHaveBeenCalled();
+  });
+
+  it("completes the order when the gateway reports it as paid", async () => {
+    findFirstOrderMock.mockResolvedValueOnce(order());
+    const gateway = { orderNo: "ORDER_1", tradeNo: "T1", money: "10.00", paid: true };
+    queryOrderMock.mockResolvedValueOnce(gateway);
+    settleMock.mockResolvedValueOnce({ ok: true, completed: true });
+
+    const result = await checkOrderPayment("ORDER_1");
+
+    expect(consumeRateLimitMock).toHaveBeenCalledWith("payment-check:u1", expect.any(Object));
+    expect(settleMock).toHaveBeenCalledWith(expect.objectContaining({ orderNo: "ORDER_1" }), gateway);
+    expect(result).toMatchObject({ success: true, paid: true });
+  });
+
+  it("does not settle when the gateway has not received the payment", async () => {
+    findFirstOrderMock.mockResolvedValueOnce(order());
+    queryOrderMock.mockResolvedValueOnce({ orderNo: "ORDER_1", tradeNo: "", money: "10.00", paid: false });
+
+    const result = await checkOrderPayment("ORDER_1");
+
+    expect(settleMock).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ success: true, paid: false });
+  });
+
+  it("stops before querying the gateway when rate limited", async () => {
+    findFirstOrderMock.mockResolvedValueOnce(order());
+    consumeRateLimitMock.mockResolvedValueOnce({ success: false, message: "操作过于频繁，请 30 秒后再试" });
+
+    const result = await checkOrderPayment("ORDER_1");
+
+    expect(queryOrderMock).not.toHaveBeenCalled();
+    expect(result).toEqual({ success: false, message: "操作过于频繁，请 30 秒后再试" });
+  });
+
+  it("skips the gateway for orders that are already completed", async () => {
+    findFirstOrderMock.mockResolvedValueOnce(order({ status: "completed" }));
+
+    const result = await checkOrderPayment("ORDER_1");
+
+    expect(consumeRateLimitMock).not.toHaveBeenCalled();
+    expect(queryOrderMock).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ success: true, paid: true });
+  });
+});
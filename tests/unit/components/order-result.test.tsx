@@ -11,12 +11,17 @@ vi.mock("next-auth/react", () => ({
 
 const actionMocks = vi.hoisted(() => ({
   getOrderByNo: vi.fn(),
+  checkOrderPayment: vi.fn(),
 }));
 
 vi.mock("@/lib/actions/orders", () => ({
   getOrderByNo: (...args: unknown[]) => actionMocks.getOrderByNo(...args),
 }));
 
+vi.mock("@/lib/actions/reconciliation", () => ({
+  checkOrderPayment: (...args: unknown[]) => actionMocks.checkOrderPayment(...args),
+}));
+
 const sonnerMock = vi.hoisted(() => ({
   toast: {
     success: vi.fn(),
@@ -39,7 +44,7 @@ function makeOrder(status: OrderStatus, cards: string[] = []) {
     status,
     createdAt: new Date("2026-01-01T00:00:00.000Z"),
     paidAt: status === "paid" || status === "completed" ? new Date("2026-01-01T00:01:00.000Z") : null,
-    cards,
+    cards: cards.map((content) => ({ content, fields: null, expiresAt: null })),
   };
 }
 
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+
+import { evaluateCoupon, normalizeCouponCode, type CouponRule } from "@/lib/coupon";
+
+function rule(overrides: Partial<CouponRule> = {}): CouponRule {
+  return {
+    discountType: "percent",
+    discountValue: "10",
+    productId: null,
+    categoryId: null,
+    minAmount: "0",
+    maxUses: null,
+    maxUsesPerUser: null,
+    expiresAt: null,
+    isActive: true,
+    ...overrides,
+  };
+}
+
+const noUsage = { totalUses: 0, userUses: 0 };
+
+describe("coupon", () => {
+  it("应统一将优惠码规范为大写并去除空格", () => {
+    expect(normalizeCouponCode("  welcome10 ")).toBe("WELCOME10");
+  });
+
+  it("百分比折扣应向下取整到分", () => {
+    const result = evaluateCoupon(
+      rule({ discountValue: "15" }),
+      [{ productId: "p1", categoryId: null, subtotalCents: 333 }],
+      noUsage
+    );
+    // 333 * 15% = 49.95 分 -> 49 分
+    expect(result).toEqual({ ok: true, discountCents: 49 });
+  });
+
+  it("固定金额折扣不应超过适用商品小计，且整单至少保留 0.01", () => {
+    const result = evaluateCoupon(
+      rule({ discountType: "fixed", discountValue: "50" }),
+      [{ productId: "p1", categoryId: null, subtotalCents: 1000 }],
+      noUsage
+    );
+    expect(result).toEqual({ ok: true, discountCents: 999 });
+  });
+
+  it("商品范围的优惠码只对对应商品生效", () => {
+    const lines = [
+      { productId: "p1", categoryId: "c1", subtotalCents: 1000 },
+      { productId: "p2", categoryId: "c2", subtotalCents: 2000 },
+    ];
+
+    expect(evaluateCoupon(rule({ productId: "p2" }), lines, noUsage)).toEqual({
+      ok: true,
+      discountCents: 200,
+    });
+    expect(evaluateCoupon(rule({ categoryId: "c1" }), lines, noUsage)).toEqual({
+      ok: true,
+      discountCents: 100,
+    });
+    expect(evaluateCoupon(rule({ productId: "p3" }), lines, noUsage)).toEqual({
+      ok: false,
+      message: "优惠码不适用于所选商品",
+    });
+  });
+
+  it("最低消费按适用商品小计判断", () => {
+    const result = evaluateCoupon(
+      rule({ productId: "p1", minAmount: "20" }),
+      [
+        { productId: "p1", categoryId: null, subtotalCents: 1000 },
+        { productId: "p2", categoryId: null, subtotalCents: 5000 },
+      ],
+      noUsage
+    );
+    expect(result).toEqual({ ok: false, message: "未达到优惠码最低消费 20 LDC" });
+  });
+
+  it("应拒绝停用、过期与超出次数上限的优惠码", () => {
+    const lines = [{ productId: "p1", categoryId: null, subtotalCents: 1000 }];
+    const now = new Date("2026-01-02T00:00:00.000Z");
+
+    expect(evaluateCoupon(rule({ isActive: false }), lines, noUsage, now)).toMatchObject({
+      ok: false,
+      message: "优惠码已停用",
+    });
+    expect(
+      evaluateCoupon(rule({ expiresAt: new Date("2026-01-01T00:00:00.000Z") }), lines, noUsage, now)
+    ).toMatchObject({ ok: false, message: "优惠码已过期" });
+    expect(
+      evaluateCoupon(rule({ maxUses: 5 }), lines, { totalUses: 5, userUses: 0 }, now)
+    ).toMatchObject({ ok: false, message: "优惠码已被领完" });
+    expect(
+      evaluateCoupon(rule({ maxUsesPerUser: 1 }), lines, { totalUses: 3, userUses: 1 }, now)
+    ).toMatchObject({ ok: false, message: "您已达到该优惠码的使用次数上限" });
+  });
+});
@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const logError = vi.fn();
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    child: () => ({ info: vi.fn(), warn: vi.fn(), error: logError }),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const sendMailMock = vi.fn();
+const createTransportMock = vi.fn();
+vi.mock("nodemailer", () => ({
+  default: {
+    createTransport: (...args: unknown[]) => {
+      createTransportMock(...args);
+      return { sendMail: (...mailArgs: unknown[]) => sendMailMock(...mailArgs) };
+    },
+  },
+}));
+
+import { getConfiguredNotifiers, sendNotification, type Notifier } from "@/lib/notifications";
+import { buildSmtpTransportOptions, createSmtpNotifier } from "@/lib/notifications/smtp";
+import { createTelegramNotifier } from "@/lib/notifications/telegram";
+import {
+  createWebhookNotifier,
+  signWebhookBody,
+  WEBHOOK_SIGNATURE_HEADER,
+} from "@/lib/notifications/webhook";
+
+const message = { event: "stock.low", title: "库存预警：月卡", text: "剩余 3", data: { stock: 3 } };
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+  logError.mockReset();
+});
+
+describe("getConfiguredNotifiers", () => {
+  it("未配置时为空", () => {
+    expect(getConfiguredNotifiers({})).toEqual([]);
+  });
+
+  it("按环境变量启用渠道，SMTP 需要发件人与收件人", () => {
+    const notifiers = getConfiguredNotifiers({
+      NOTIFY_WEBHOOK_URL: "https://hooks.example.com/stock",
+      NOTIFY_TELEGRAM_BOT_TOKEN: "token",
+      NOTIFY_SMTP_HOST: "smtp.example.com",
+      NOTIFY_SMTP_USER: "bot@example.com",
+      NOTIFY_SMTP_TO: "a@example.com, b@example.com",
+    });
+
+    // Telegram 缺少 chat id，不启用
+    expect(notifiers.map((notifier) => notifier.name)).toEqual(["webhook", "smtp"]);
+  });
+});
+
+describe("webhook notifier", () => {
+  it("POST JSON 并附带签名", async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(new Response("ok", { status: 200 }));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    await createWebhookNotifier({ url: "https://hooks.example.com/stock", secret: "s3cret" }).send(message);
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    const body = init.body as string;
+    expect(url).toBe("https://hooks.example.com/stock");
+    expect(JSON.parse(body)).toMatchObject({ event: "stock.low", data: { stock: 3 } });
+    expect(headers[WEBHOOK_SIGNATURE_HEADER]).toBe(signWebhookBody(body, "s3cret"));
+  });
+
+  it("非 2xx 响应视为失败", async () => {
+    globalThis.fetch = vi.fn().mockResolvedValueOnce(new Response("", { status: 500 })) as unknown as typeof fetch;
+
+    await expect(
+      createWebhookNotifier({ url: "https://hooks.example.com/stock" }).send(message)
+    ).rejects.toThrow("HTTP 500");
+  });
+});
+
+describe("telegram notifier", () => {
+  it("Bot API 返回 ok=false 时抛出描述", async () => {
+    globalThis.fetch = vi.fn().mockResolvedValueOnce(
+      new Response(JSON.stringify({ ok: false, description: "chat not found" }), { status: 400 })
+    ) as unknown as typeof fetch;
+
+    await expect(
+      createTelegramNotifier({ botToken: "token", chatId: "1" }).send(message)
+    ).rejects.toThrow("chat not found");
+  });
+});
+
+describe("sendNotification", () => {
+  it("单个渠道失败不影响其他渠道", async () => {
+    const ok: Notifier = { name: "ok", send: vi.fn().mockResolvedValue(undefined) };
+    const broken: Notifier = { name: "broken", send: vi.fn().mockRejectedValue(new Error("down")) };
+
+    await expect(sendNotification(message, [broken, ok])).resolves.toEqual({ sent: 1, failed: 1 });
+    expect(ok.send).toHaveBeenCalledWith(message);
+    expect(logError).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("smtp notifier", () => {
+  const config = {
+    host: "smtp.example.com",
+    port: 587,
+    secure: false,
+    user: "bot@example.com",
+    pass: "secret",
+    from: "LDC Store <bot@example.com>",
+    to: ["ops@example.com", "boss@example.com"],
+  };
+
+  it("配置了账号时强制 STARTTLS，并设置超时", () => {
+    expect(buildSmtpTransportOptions(config)).toMatchObject({
+      host: "smtp.example.com",
+      port: 587,
+      secure: false,
+      requireTLS: true,
+      auth: { user: "bot@example.com", pass: "secret" },
+      connectionTimeout: 10_000,
+      socketTimeout: 10_000,
+    });
+    expect(buildSmtpTransportOptions({ ...config, user: undefined })).toMatchObject({
+      requireTLS: false,
+      auth: undefined,
+    });
+    expect(buildSmtpTransportOptions({ ...config, port: 465, secure: true }).requireTLS).toBe(false);
+  });
+
+  it("通过 nodemailer 发送纯文本邮件", async () => {
+    sendMailMock.mockResolvedValueOnce({ messageId: "1" });
+
+    await createSmtpNotifier(config).send(message);
+
+    expect(createTransportMock).toHaveBeenCalledWith(expect.objectContaining({ host: "smtp.example.com" }));
+    expect(sendMailMock).toHaveBeenCalledWith({
+      from: "LDC Store <bot@example.com>",
+      to: ["ops@example.com", "boss@example.com"],
+      subject: "库存预警：月卡",
+      text: "剩余 3",
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const findFirstOrderMock = vi.fn();
+const findFirstLogMock = vi.fn();
+const insertValuesMock = vi.fn();
+const handlePaymentSuccessMock = vi.fn();
+
+vi.mock("drizzle-orm", () => ({
+  eq: (...args: unknown[]) => ({ type: "eq", args }),
+}));
+
+// 关键：避免在单元测试中初始化真实数据库连接（lib/db 会强依赖 DATABASE_URL）
+vi.mock("@/lib/db", () => ({
+  db: {
+    query: {
+      orders: {
+        findFirst: (...args: unknown[]) => findFirstOrderMock(...args),
+      },
+      paymentNotifyLogs: {
+        findFirst: (...args: unknown[]) => findFirstLogMock(...args),
+      },
+    },
+    insert: () => ({
+      values: (values: unknown) => {
+        insertValuesMock(values);
+        return { returning: async () => [{ id: "log-2" }] };
+      },
+    }),
+  },
+  orders: { orderNo: {} },
+  paymentNotifyLogs: { id: {} },
+}));
+
+vi.mock("@/lib/order-placement", () => ({
+  handlePaymentSuccess: (...args: unknown[]) => handlePaymentSuccessMock(...args),
+}));
+
+vi.mock("@/lib/payment/registry", () => ({
+  getPaymentProvider: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    child: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  },
+}));
+
+import { replayPaymentNotify } from "@/lib/payment/notify-handler";
+
+function storedLog(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "log-1",
+    paymentMethod: "ldc",
+    route: "/api/payment/notify",
+    requestId: "req-1",
+    params: { out_trade_no: "ORDER_1", sign: "[REDACTED]" },
+    verified: true,
+    orderNo: "ORDER_1",
+    tradeNo: "TRADE_1",
+    money: "10.00",
+    tradePaid: true,
+    outcome: "failed",
+    replayOfId: null,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  findFirstOrderMock.mockReset();
+  findFirstLogMock.mockReset();
+  insertValuesMock.mockReset();
+  handlePaymentSuccessMock.mockReset();
+});
+
+describe("replayPaymentNotify", () => {
+  it("re-runs a failed verified callback and records the replay", async () => {
+    findFirstLogMock.mockResolvedValueOnce(storedLog());
+    findFirstOrderMock.mockResolvedValueOnce({
+      id: "o1",
+      status: "pending",
+      totalAmount: "10.00",
+      paymentMethod: "ldc",
+      tradeNo: null,
+    });
+    handlePaymentSuccessMock.mockResolvedValueOnce(true);
+
+    const result = await replayPaymentNotify({ logId: "log-1", operator: "admin" });
+
+    expect(result).toMatchObject({ success: true, outcome: "processed" });
+    expect(handlePaymentSuccessMock).toHaveBeenCalledWith("ORDER_1", "TRADE_1");
+    expect(insertValuesMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        route: "replay",
+        outcome: "processed",
+        replayOfId: "log-1",
+        replayedBy: "admin",
+      })
+    );
+  });
+
+  it("is idempotent when the order has already been completed", async () => {
+    findFirstLogMock.mockResolvedValueOnce(storedLog());
+    findFirstOrderMock.mockResolvedValueOnce({
+      id: "o1",
+      status: "completed",
+      totalAmount: "10.00",
+      paymentMethod: "ldc",
+      tradeNo: "TRADE_1",
+    });
+
+    const result = await replayPaymentNotify({ logId: "log-1", operator: "admin" });
+
+    expect(result).toMatchObject({ success: true, outcome: "duplicate" });
+    expect(handlePaymentSuccessMock).not.toHaveBeenCalled();
+  });
+
+  it("refuses callbacks that failed verification", async () => {
+    findFirstLogMock.mockResolvedValueOnce(storedLog({ verified: false, outcome: "rejected" }));
+
+    const result = await replayPaymentNotify({ logId: "log-1", operator: "admin" });
+
+    expect(result.success).toBe(false);
+    expect(findFirstOrderMock).not.toHaveBeenCalled();
+    expect(insertValuesMock).not.toHaveBeenCalled();
+  });
+});
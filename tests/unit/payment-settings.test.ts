@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const loadConfigsMock = vi.fn();
+const upsertMock = vi.fn();
+const recordAdminAuditMock = vi.fn();
+
+// 关键：避免在单元测试中初始化真实数据库连接（lib/db 会强依赖 DATABASE_URL）
+vi.mock("@/lib/db", () => ({
+  db: {
+    insert: () => ({
+      values: (rows: unknown) => ({
+        onConflictDoUpdate: async () => upsertMock(rows),
+      }),
+    }),
+  },
+  settings: {},
+}));
+
+const authMock = vi.fn();
+vi.mock("@/lib/auth", () => ({
+  auth: () => authMock(),
+}));
+
+// 管理员会话记录由 lib/admin-sessions 校验，这里视为有效
+vi.mock("@/lib/admin-sessions", () => ({
+  validateAdminSession: async () => true,
+}));
+
+vi.mock("@/lib/admin-audit", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/admin-audit")>()),
+  recordAdminAudit: (...args: unknown[]) => recordAdminAuditMock(...args),
+}));
+
+vi.mock("@/lib/payment/registry", () => ({
+  getEnabledPaymentMethods: vi.fn(),
+  getPaymentSettingKey: (method: string, field: string) => `payment_${method}_${field}`,
+  loadEasyPayChannelConfigs: () => loadConfigsMock(),
+}));
+
+vi.mock("@/lib/cache", () => ({
+  revalidateAllStoreCache: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  getRequestIdFromHeaders: vi.fn(),
+  logger: {
+    child: () => ({ info: vi.fn(), error: vi.fn() }),
+    error: vi.fn(),
+  },
+}));
+
+import { updatePaymentSettings } from "@/lib/actions/payment-settings";
+
+const disabled = { enabled: false, gateway: "", pid: "", key: "" };
+
+describe("updatePaymentSettings", () => {
+  beforeEach(() => {
+    loadConfigsMock.mockReset();
+    upsertMock.mockReset();
+    recordAdminAuditMock.mockReset();
+    authMock.mockResolvedValue({ user: { id: "a1", role: "admin", name: "admin" } });
+  });
+
+  it("记录网关变更与密钥更换，但不写入密钥明文", async () => {
+    loadConfigsMock.mockResolvedValueOnce({
+      alipay: { enabled: true, gateway: "https://old.example.com", pid: "1001", key: "old-secret" },
+      wechat: disabled,
+    });
+
+    const result = await updatePaymentSettings({
+      alipay: { enabled: true, gateway: "https://new.example.com", pid: "1001", key: "new-secret" },
+      wechat: disabled,
+    });
+
+    expect(result.success).toBe(true);
+    expect(upsertMock).toHaveBeenCalledTimes(1);
+    expect(recordAdminAuditMock).toHaveBeenCalledWith(expect.objectContaining({ id: "a1" }), {
+      action: "payment_settings.update",
+      entityType: "settings",
+      entityId: "payment",
+      before: { "alipay.gateway": "https://old.example.com", "alipay.key": "[REDACTED]" },
+      after: { "alipay.gateway": "https://new.example.com", "alipay.key": "[REDACTED:changed]" },
+    });
+    expect(JSON.stringify(recordAdminAuditMock.mock.calls)).not.toContain("secret");
+  });
+
+  it("密钥留空沿用原值且其余配置未变时不写审计日志", async () => {
+    loadConfigsMock.mockResolvedValueOnce({
+      alipay: { enabled: true, gateway: "https://pay.example.com", pid: "1001", key: "secret" },
+      wechat: disabled,
+    });
+
+    const result = await updatePaymentSettings({
+      alipay: { enabled: true, gateway: "https://pay.example.com", pid: "1001", key: "" },
+      wechat: disabled,
+    });
+
+    expect(result.success).toBe(true);
+    expect(recordAdminAuditMock).not.toHaveBeenCalled();
+  });
+});
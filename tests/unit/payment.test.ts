@@ -7,6 +7,10 @@ import {
   verifySign,
   type NotifyParams,
 } from "@/lib/payment/ldc";
+import {
+  createEasyPayProvider,
+  verifyEasyPayNotify,
+} from "@/lib/payment/easypay";
 import { withEnv } from "@/tests/utils";
 
 function md5(value: string): string {
@@ -161,3 +165,77 @@ describe("createPayment", () => {
     );
   });
 });
+
+describe("EasyPay provider", () => {
+  const credentials = {
+    gateway: "https://pay.example.com/",
+    pid: "2001",
+    key: "easy-secret",
+  };
+
+  it("createPayment should post to submit.php with provider notify url", () => {
+    const provider = createEasyPayProvider("wechat", "wxpay", credentials);
+    const result = provider.createPayment({
+      orderNo: "ORDER_2",
+      amount: 5,
+      productName: "Test Product",
+      siteUrl: "https://store.example.com",
+    });
+
+    expect(result.actionUrl).toBe("https://pay.example.com/submit.php");
+    expect(result.params.type).toBe("wxpay");
+    expect(result.params.money).toBe("5.00");
+    expect(result.params.notify_url).toBe("https://store.example.com/api/payment/wechat/notify");
+    expect(result.params.sign).toBe(generateSign(result.params, credentials.key));
+  });
+
+  it("verifyNotify should accept a correctly signed callback", () => {
+    const payload: Record<string, string> = {
+      pid: "2001",
+      trade_no: "T2",
+      out_trade_no: "ORDER_2",
+      type: "wxpay",
+      name: "Test Product",
+      money: "5.00",
+      trade_status: "TRADE_SUCCESS",
+      param: "extra",
+    };
+    payload.sign = generateSign(payload, credentials.key);
+    payload.sign_type = "MD5";
+
+    const result = verifyEasyPayNotify(payload, credentials);
+
+    expect(result).toMatchObject({
+      ok: true,
+      notification: { orderNo: "ORDER_2", tradeNo: "T2", money: "5.00", paid: true },
+    });
+  });
+
+  it("verifyNotify should reject pid mismatch and tampered payload", () => {
+    const payload: Record<string, string> = {
+      pid: "2001",
+      trade_no: "T2",
+      out_trade_no: "ORDER_2",
+      money: "5.00",
+      trade_status: "TRADE_SUCCESS",
+    };
+    payload.sign = generateSign(payload, credentials.key);
+
+    expect(verifyEasyPayNotify({ ...payload, pid: "9999" }, credentials)).toMatchObject({
+      ok: false,
+      status: 400,
+      message: "支付回调 pid 不匹配",
+    });
+    expect(verifyEasyPayNotify({ ...payload, money: "0.01" }, credentials)).toMatchObject({
+      ok: false,
+      status: 400,
+      message: "支付回调签名验证失败",
+    });
+    // 长度不一致的签名直接拒绝，不会因 timingSafeEqual 抛错
+    expect(verifyEasyPayNotify({ ...payload, sign: payload.sign.slice(1) }, credentials)).toMatchObject({
+      ok: false,
+      status: 400,
+      message: "支付回调签名验证失败",
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+
+import { buildPriceTierRanges, normalizePriceTiers, resolveUnitPrice } from "@/lib/pricing";
+
+const tiers = [
+  { minQuantity: 5, price: "9.00" },
+  { minQuantity: 10, price: "8.00" },
+];
+
+describe("resolveUnitPrice", () => {
+  it("未设置阶梯价时使用基础售价", () => {
+    expect(resolveUnitPrice("10.00", [], 20)).toBe("10.00");
+    expect(resolveUnitPrice("10.00", null, 20)).toBe("10.00");
+  });
+
+  it("按购买数量命中对应档位（含边界）", () => {
+    expect(resolveUnitPrice("10.00", tiers, 1)).toBe("10.00");
+    expect(resolveUnitPrice("10.00", tiers, 4)).toBe("10.00");
+    expect(resolveUnitPrice("10.00", tiers, 5)).toBe("9.00");
+    expect(resolveUnitPrice("10.00", tiers, 9)).toBe("9.00");
+    expect(resolveUnitPrice("10.00", tiers, 10)).toBe("8.00");
+    expect(resolveUnitPrice("10.00", tiers, 100)).toBe("8.00");
+  });
+
+  it("档位乱序存储时仍取最高命中档", () => {
+    expect(resolveUnitPrice("10.00", [...tiers].reverse(), 12)).toBe("8.00");
+  });
+});
+
+describe("normalizePriceTiers", () => {
+  it("应按起始数量升序并将单价格式化为两位小数", () => {
+    expect(
+      normalizePriceTiers([
+        { minQuantity: 10, price: 8 },
+        { minQuantity: 5, price: 9.5 },
+      ])
+    ).toEqual([
+      { minQuantity: 5, price: "9.50" },
+      { minQuantity: 10, price: "8.00" },
+    ]);
+  });
+});
+
+describe("buildPriceTierRanges", () => {
+  it("应展开为连续区间，最后一档不设上限", () => {
+    expect(buildPriceTierRanges("10.00", tiers)).toEqual([
+      { minQuantity: 1, maxQuantity: 4, price: "10.00" },
+      { minQuantity: 5, maxQuantity: 9, price: "9.00" },
+      { minQuantity: 10, maxQuantity: null, price: "8.00" },
+    ]);
+  });
+
+  it("没有阶梯价时返回空数组", () => {
+    expect(buildPriceTierRanges("10.00", [])).toEqual([]);
+  });
+});
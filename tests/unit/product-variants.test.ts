@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+
+import { formatVariantProductName, resolvePurchaseTarget } from "@/lib/product-variants";
+
+const baseProduct = {
+  name: "会员",
+  price: "10.00",
+  priceTiers: [{ minQuantity: 5, price: "9.00" }],
+  minQuantity: 1,
+  maxQuantity: 10,
+};
+
+const monthly = {
+  id: "v-month",
+  name: "月卡",
+  price: "12.00",
+  minQuantity: 1,
+  maxQuantity: 5,
+  isActive: true,
+};
+
+const yearly = {
+  id: "v-year",
+  name: "年卡",
+  price: "100.00",
+  minQuantity: 1,
+  maxQuantity: 2,
+  isActive: false,
+};
+
+describe("resolvePurchaseTarget", () => {
+  it("未启用规格时沿用商品价格、阶梯价与限购", () => {
+    const target = resolvePurchaseTarget({ ...baseProduct, variants: [] });
+    expect(target).toEqual({
+      ok: true,
+      variantId: null,
+      displayName: "会员",
+      basePrice: "10.00",
+      priceTiers: baseProduct.priceTiers,
+      minQuantity: 1,
+      maxQuantity: 10,
+    });
+  });
+
+  it("未启用规格时传入规格 ID 应报错", () => {
+    const target = resolvePurchaseTarget({ ...baseProduct, variants: [yearly] }, "v-year");
+    expect(target).toEqual({ ok: false, message: "所选规格不存在或已下架" });
+  });
+
+  it("启用规格后必须选择规格", () => {
+    const target = resolvePurchaseTarget({ ...baseProduct, variants: [monthly, yearly] });
+    expect(target).toEqual({ ok: false, message: "请选择商品规格" });
+  });
+
+  it("应使用规格的价格与限购，且不叠加商品阶梯价", () => {
+    const target = resolvePurchaseTarget({ ...baseProduct, variants: [monthly, yearly] }, "v-month");
+    expect(target).toEqual({
+      ok: true,
+      variantId: "v-month",
+      displayName: "会员（月卡）",
+      basePrice: "12.00",
+      priceTiers: [],
+      minQuantity: 1,
+      maxQuantity: 5,
+    });
+  });
+
+  it("已停用的规格不可购买", () => {
+    const target = resolvePurchaseTarget({ ...baseProduct, variants: [monthly, yearly] }, "v-year");
+    expect(target.ok).toBe(false);
+  });
+});
+
+describe("formatVariantProductName", () => {
+  it("无规格名时返回商品名", () => {
+    expect(formatVariantProductName("会员")).toBe("会员");
+    expect(formatVariantProductName("会员", null)).toBe("会员");
+  });
+});
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const insertReturningMock = vi.fn();
+const onConflictMock = vi.fn();
+const selectForMock = vi.fn();
+const updateSetMock = vi.fn();
+
+const tx = {
+  insert: () => ({
+    values: () => ({
+      onConflictDoNothing: (...args: unknown[]) => {
+        onConflictMock(...args);
+        return { returning: () => insertReturningMock() };
+      },
+    }),
+  }),
+  select: () => ({
+    from: () => ({
+      where: () => ({
+        for: (...args: unknown[]) => selectForMock(...args),
+      }),
+    }),
+  }),
+  update: () => ({
+    set: (values: unknown) => {
+      updateSetMock(values);
+      return { where: async () => undefined };
+    },
+  }),
+};
+
+// 关键：避免在单元测试中初始化真实数据库连接（lib/db 会强依赖 DATABASE_URL）
+vi.mock("@/lib/db", () => ({
+  db: {
+    transaction: async (fn: (t: typeof tx) => unknown) => fn(tx),
+  },
+  loginRateLimits: { identifier: "identifier" },
+}));
+
+import { consumeRateLimit } from "@/lib/rate-limit";
+
+const options = { windowMs: 60_000, maxAttempts: 3 };
+
+describe("consumeRateLimit", () => {
+  beforeEach(() => {
+    insertReturningMock.mockReset();
+    onConflictMock.mockReset();
+    selectForMock.mockReset();
+    updateSetMock.mockReset();
+  });
+
+  it("首次请求插入新记录，不再查询", async () => {
+    insertReturningMock.mockResolvedValueOnce([{ identifier: "api-key:k1" }]);
+
+    const result = await consumeRateLimit("api-key:k1", options);
+
+    expect(result).toMatchObject({ success: true, remaining: 2, resetIn: 60 });
+    expect(onConflictMock).toHaveBeenCalledWith({ target: "identifier" });
+    expect(selectForMock).not.toHaveBeenCalled();
+  });
+
+  it("并发的首次请求插入冲突时，锁定已有记录并累加计数", async () => {
+    insertReturningMock.mockResolvedValueOnce([]);
+    selectForMock.mockResolvedValueOnce([
+      { identifier: "api-key:k1", count: 1, firstAttemptAt: new Date(), blockedUntil: null },
+    ]);
+
+    const result = await consumeRateLimit("api-key:k1", options);
+
+    expect(result).toMatchObject({ success: true, remaining: 1 });
+    expect(selectForMock).toHaveBeenCalledWith("update");
+    expect(updateSetMock).toHaveBeenCalledWith(expect.objectContaining({ count: 2 }));
+  });
+
+  it("窗口内达到上限后拒绝", async () => {
+    insertReturningMock.mockResolvedValueOnce([]);
+    selectForMock.mockResolvedValueOnce([
+      { identifier: "api-key:k1", count: 3, firstAttemptAt: new Date(), blockedUntil: null },
+    ]);
+
+    const result = await consumeRateLimit("api-key:k1", options);
+
+    expect(result.success).toBe(false);
+    expect(updateSetMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,228 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const findManyOrdersMock = vi.fn();
+const findFirstOrderMock = vi.fn();
+const transactionMock = vi.fn();
+const handlePaymentSuccessMock = vi.fn();
+const queryOrderMock = vi.fn();
+
+// 关键：避免在单元测试中初始化真实数据库连接（lib/db 会强依赖 DATABASE_URL）
+vi.mock("@/lib/db", () => ({
+  db: {
+    query: {
+      orders: {
+        findMany: (...args: unknown[]) => findManyOrdersMock(...args),
+        findFirst: (...args: unknown[]) => findFirstOrderMock(...args),
+      },
+    },
+    transaction: (...args: unknown[]) => transactionMock(...args),
+  },
+  orders: {},
+  orderItems: {},
+  cards: {},
+}));
+
+vi.mock("@/lib/order-placement", () => ({
+  handlePaymentSuccess: (...args: unknown[]) => handlePaymentSuccessMock(...args),
+}));
+
+vi.mock("@/lib/payment/registry", () => ({
+  getPaymentProvider: async (method: string) =>
+    method === "ldc" ? { method, queryOrder: queryOrderMock } : null,
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    child: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  },
+}));
+
+import { RECONCILE_PAGE_SIZE, reconcilePayments } from "@/lib/payment/reconcile";
+
+function order(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "o1",
+    orderNo: "ORDER_1",
+    status: "pending",
+    totalAmount: "10.00",
+    paymentMethod: "ldc",
+    tradeNo: null,
+    productId: "p1",
+    variantId: null,
+    quantity: 1,
+    ...overrides,
+  };
+}
+
+/**
+ * 构造恢复过期订单所用的事务：依次返回「订单更新结果」「订单明细」「可用卡密」
+ */
+function createReviveTx(availableCards: { id: string }[]) {
+  const chain = (result: unknown) => {
+    const node: Record<string, unknown> = {};
+    for (const key of ["set", "from", "where", "orderBy", "limit"]) {
+      node[key] = () => node;
+    }
+    node.returning = async () => result;
+    node.for = async () => result;
+    node.then = (resolve: (value: unknown) => unknown) => resolve(result);
+    return node;
+  };
+
+  const selects = [
+    [{ productId: "p1", variantId: null, quantity: 2 }],
+    availableCards,
+  ];
+  return {
+    update: vi.fn(() => chain([{ id: "o1" }])),
+    select: vi.fn(() => chain(selects.shift())),
+  };
+}
+
+beforeEach(() => {
+  findManyOrdersMock.mockReset();
+  findFirstOrderMock.mockReset();
+  transactionMock.mockReset();
+  handlePaymentSuccessMock.mockReset();
+  queryOrderMock.mockReset();
+});
+
+describe("reconcilePayments", () => {
+  it("completes pending orders that the gateway reports as paid", async () => {
+    findManyOrdersMock.mockResolvedValueOnce([order()]);
+    queryOrderMock.mockResolvedValueOnce({
+      orderNo: "ORDER_1",
+      tradeNo: "T1",
+      money: "10.00",
+      paid: true,
+    });
+    handlePaymentSuccessMock.mockResolvedValueOnce(true);
+
+    const report = await reconcilePayments();
+
+    expect(handlePaymentSuccessMock).toHaveBeenCalledWith("ORDER_1", "T1");
+    expect(report).toMatchObject({ checked: 1, completed: ["ORDER_1"], mismatches: [] });
+  });
+
+  it("leaves tradeNo empty when the gateway does not return one", async () => {
+    findManyOrdersMock.mockResolvedValueOnce([order()]);
+    queryOrderMock.mockResolvedValueOnce({
+      orderNo: "ORDER_1",
+      tradeNo: "",
+      money: "10.00",
+      paid: true,
+    });
+    handlePaymentSuccessMock.mockResolvedValueOnce(true);
+
+    await reconcilePayments();
+
+    expect(handlePaymentSuccessMock).toHaveBeenCalledWith("ORDER_1", null);
+  });
+
+  it("reports amount mismatches without completing the order", async () => {
+    findManyOrdersMock.mockResolvedValueOnce([order()]);
+    queryOrderMock.mockResolvedValueOnce({
+      orderNo: "ORDER_1",
+      tradeNo: "T1",
+      money: "1.00",
+      paid: true,
+    });
+
+    const report = await reconcilePayments();
+
+    expect(handlePaymentSuccessMock).not.toHaveBeenCalled();
+    expect(report.mismatches).toEqual([
+      expect.objectContaining({
+        orderNo: "ORDER_1",
+        kind: "amount_mismatch",
+        localAmount: "10.00",
+        gatewayAmount: "1.00",
+      }),
+    ]);
+  });
+
+  it("counts unpaid orders and query failures separately", async () => {
+    findManyOrdersMock.mockResolvedValueOnce([
+      order(),
+      order({ id: "o2", orderNo: "ORDER_2" }),
+      order({ id: "o3", orderNo: "ORDER_3", paymentMethod: "alipay" }),
+    ]);
+    queryOrderMock
+      .mockResolvedValueOnce({ orderNo: "ORDER_1", tradeNo: "", money: "10.00", paid: false })
+      .mockRejectedValueOnce(new Error("订单不存在"));
+
+    const report = await reconcilePayments();
+
+    expect(report.unpaid).toBe(1);
+    expect(report.queryFailed).toEqual([
+      { orderNo: "ORDER_2", message: "订单不存在" },
+      { orderNo: "ORDER_3", message: "支付通道未配置" },
+    ]);
+    expect(handlePaymentSuccessMock).not.toHaveBeenCalled();
+  });
+
+  it("revives paid expired orders when cards are still available", async () => {
+    findManyOrdersMock.mockResolvedValueOnce([order({ status: "expired", quantity: 2 })]);
+    queryOrderMock.mockResolvedValueOnce({
+      orderNo: "ORDER_1",
+      tradeNo: "T1",
+      money: "10.00",
+      paid: true,
+    });
+    const tx = createReviveTx([{ id: "c1" }, { id: "c2" }]);
+    transactionMock.mockImplementationOnce(async (fn: (t: typeof tx) => unknown) => fn(tx));
+    handlePaymentSuccessMock.mockResolvedValueOnce(true);
+
+    const report = await reconcilePayments();
+
+    expect(tx.update).toHaveBeenCalledTimes(2);
+    expect(report.completed).toEqual(["ORDER_1"]);
+  });
+
+  it("reports paid expired orders whose cards were already sold", async () => {
+    findManyOrdersMock.mockResolvedValueOnce([order({ status: "expired", quantity: 2 })]);
+    queryOrderMock.mockResolvedValueOnce({
+      orderNo: "ORDER_1",
+      tradeNo: "T1",
+      money: "10.00",
+      paid: true,
+    });
+    const tx = createReviveTx([{ id: "c1" }]);
+    transactionMock.mockImplementationOnce(async (fn: (t: typeof tx) => unknown) => fn(tx));
+
+    const report = await reconcilePayments();
+
+    expect(handlePaymentSuccessMock).not.toHaveBeenCalled();
+    expect(report.mismatches).toEqual([
+      expect.objectContaining({ kind: "stock_unavailable", localStatus: "expired" }),
+    ]);
+  });
+
+  it("pages through candidates oldest first until none remain", async () => {
+    const createdAt = new Date("2026-01-01T00:00:00Z");
+    const firstPage = Array.from({ length: RECONCILE_PAGE_SIZE }, (_, index) =>
+      order({ id: `o${index}`, orderNo: `ORDER_${index}`, createdAt })
+    );
+    findManyOrdersMock
+      .mockResolvedValueOnce(firstPage)
+      .mockResolvedValueOnce([order({ id: "last", orderNo: "ORDER_LAST", createdAt })]);
+    queryOrderMock.mockResolvedValue({ orderNo: "", tradeNo: "", money: "10.00", paid: false });
+
+    const report = await reconcilePayments();
+
+    expect(findManyOrdersMock).toHaveBeenCalledTimes(2);
+    expect(findManyOrdersMock.mock.calls[0][0]).toMatchObject({ limit: RECONCILE_PAGE_SIZE });
+    expect(report).toMatchObject({ checked: RECONCILE_PAGE_SIZE + 1, unpaid: RECONCILE_PAGE_SIZE + 1 });
+  });
+
+  it("stops at the requested limit", async () => {
+    findManyOrdersMock.mockResolvedValueOnce([order(), order({ id: "o2", orderNo: "ORDER_2" })]);
+    queryOrderMock.mockResolvedValue({ orderNo: "", tradeNo: "", money: "10.00", paid: false });
+
+    const report = await reconcilePayments({ limit: 2 });
+
+    expect(findManyOrdersMock).toHaveBeenCalledTimes(1);
+    expect(findManyOrdersMock.mock.calls[0][0]).toMatchObject({ limit: 2 });
+    expect(report.checked).toBe(2);
+  });
+});
@@ -0,0 +1,265 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const findOrderMock = vi.fn();
+const getPaymentProviderMock = vi.fn();
+const requireAdminMock = vi.fn();
+const refundMock = vi.fn();
+const updateSetMock = vi.fn();
+const lockOrderMock = vi.fn();
+const insertRefundMock = vi.fn();
+const recordAdminAuditMock = vi.fn();
+const authMock = vi.fn();
+
+// 关键：避免在单元测试中初始化真实数据库连接（lib/db 会强依赖 DATABASE_URL）
+// loadRefundContext 的两次查询：已售卡密 c1、无订单明细（回退到订单上的单商品字段）
+vi.mock("@/lib/db", () => {
+  const selectResults = () => [[{ id: "c1", productId: "p1", variantId: null }], []];
+  let pending: unknown[][] = [];
+  return {
+    db: {
+      query: {
+        orders: {
+          findFirst: (...args: unknown[]) => findOrderMock(...args),
+        },
+      },
+      select: () => ({
+        from: () => ({
+          where: async () => {
+            if (pending.length === 0) pending = selectResults();
+            return pending.shift();
+          },
+        }),
+      }),
+      update: () => ({
+        set: (values: unknown) => {
+          updateSetMock(values);
+          return { where: async () => undefined };
+        },
+      }),
+      // applyRefund 在事务内以 FOR UPDATE 锁定订单行（返回锁定时的订单状态），再写入退款记录、订单与卡密
+      transaction: async (fn: (tx: unknown) => unknown) =>
+        fn({
+          select: () => ({
+            from: () => ({
+              where: () => ({
+                for: async () => lockOrderMock(),
+                then: (resolve: (value: unknown) => unknown) => resolve([]),
+              }),
+            }),
+          }),
+          insert: () => ({
+            values: async (values: unknown) => insertRefundMock(values),
+          }),
+          update: () => ({
+            set: () => ({ where: async () => undefined }),
+          }),
+        }),
+    },
+    orders: {},
+    orderItems: {},
+    orderRefunds: {},
+    cards: {},
+    products: {},
+  };
+});
+
+vi.mock("@/lib/auth", () => ({
+  auth: () => authMock(),
+}));
+
+vi.mock("@/lib/auth-utils", () => ({
+  requireAdmin: () => requireAdminMock(),
+}));
+
+vi.mock("@/lib/admin-audit", () => ({
+  recordAdminAudit: (...args: unknown[]) => recordAdminAuditMock(...args),
+}));
+
+vi.mock("@/lib/payment/registry", () => ({
+  getPaymentProvider: (...args: unknown[]) => getPaymentProviderMock(...args),
+  getCheckoutPaymentProvider: vi.fn(),
+  getEnabledPaymentMethods: vi.fn(),
+}));
+
+// LDC 退款模式为 disabled
+vi.mock("@/lib/payment/ldc", () => ({
+  createPayment: vi.fn(),
+  refundOrder: vi.fn(),
+  isRefundEnabled: () => false,
+  getRefundMode: () => "disabled",
+  getClientRefundParams: vi.fn(),
+}));
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    child: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+  getRequestIdFromHeaders: async () => undefined,
+}));
+
+import { adminCompleteOrder, approveRefund, rejectRefund, requestRefund } from "@/lib/actions/orders";
+
+function pendingOrder(paymentMethod: string) {
+  return {
+    id: "o1",
+    orderNo: "LD1",
+    status: "refund_pending",
+    tradeNo: "T1",
+    paymentMethod,
+    totalAmount: "10.00",
+    refundedAmount: "0",
+    productId: "p1",
+    variantId: null,
+    productName: "月卡",
+    productPrice: "10.00",
+    quantity: 1,
+  };
+}
+
+describe("approveRefund 按订单所属支付通道判断是否可退款", () => {
+  beforeEach(() => {
+    findOrderMock.mockReset();
+    getPaymentProviderMock.mockReset();
+    requireAdminMock.mockReset().mockResolvedValue({ user: { id: "a1", name: "admin" } });
+    refundMock.mockReset().mockResolvedValue({ success: false, message: "网关拒绝" });
+    lockOrderMock.mockReset().mockResolvedValue([{ status: "refund_pending", refundedAmount: "0" }]);
+    insertRefundMock.mockReset();
+  });
+
+  it("LDC 退款关闭时，EasyPay 订单仍调用通道退款接口", async () => {
+    findOrderMock.mockResolvedValueOnce(pendingOrder("alipay"));
+    getPaymentProviderMock.mockResolvedValueOnce({ isRefundEnabled: () => true, refund: refundMock });
+
+    const result = await approveRefund("o1");
+
+    expect(getPaymentProviderMock).toHaveBeenCalledWith("alipay");
+    expect(refundMock).toHaveBeenCalledWith({ orderNo: "LD1", tradeNo: "T1", money: "10.00" });
+    expect(result).toEqual({ success: false, message: "退款失败: 网关拒绝" });
+  });
+
+  it("锁定订单时发现已被其他管理员处理，不调用退款接口", async () => {
+    findOrderMock.mockResolvedValueOnce(pendingOrder("alipay"));
+    getPaymentProviderMock.mockResolvedValueOnce({ isRefundEnabled: () => true, refund: refundMock });
+    lockOrderMock.mockResolvedValueOnce([{ status: "refunded", refundedAmount: "10.00" }]);
+
+    const result = await approveRefund("o1");
+
+    expect(result).toEqual({ success: false, message: "退款状态已变更" });
+    expect(refundMock).not.toHaveBeenCalled();
+  });
+
+  it("退款记录写入失败时不调用退款接口", async () => {
+    findOrderMock.mockResolvedValueOnce(pendingOrder("alipay"));
+    getPaymentProviderMock.mockResolvedValueOnce({ isRefundEnabled: () => true, refund: refundMock });
+    insertRefundMock.mockRejectedValueOnce(new Error("写入失败"));
+
+    const result = await approveRefund("o1");
+
+    expect(result).toEqual({ success: false, message: "写入失败" });
+    expect(refundMock).not.toHaveBeenCalled();
+  });
+
+  it("通道未启用退款时直接拒绝，不调用退款接口", async () => {
+    findOrderMock.mockResolvedValueOnce(pendingOrder("ldc"));
+    getPaymentProviderMock.mockResolvedValueOnce({ isRefundEnabled: () => false, refund: refundMock });
+
+    const result = await approveRefund("o1");
+
+    expect(result).toEqual({ success: false, message: "订单所属支付通道未启用退款功能" });
+    expect(refundMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("rejectRefund", () => {
+  beforeEach(() => {
+    findOrderMock.mockReset();
+    updateSetMock.mockReset();
+    recordAdminAuditMock.mockReset();
+    requireAdminMock.mockReset().mockResolvedValue({ user: { id: "a1", name: "admin" } });
+  });
+
+  it("首次申请被拒时标记为 refund_rejected", async () => {
+    findOrderMock.mockResolvedValueOnce({ ...pendingOrder("ldc"), refunds: [] });
+
+    const result = await rejectRefund("o1", "不符合退款条件");
+
+    expect(result.success).toBe(true);
+    expect(updateSetMock).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "refund_rejected", adminRemark: "不符合退款条件" })
+    );
+  });
+
+  it("已部分退款的订单再次申请被拒时恢复为 partially_refunded", async () => {
+    findOrderMock.mockResolvedValueOnce({
+      ...pendingOrder("ldc"),
+      quantity: 2,
+      refundedAmount: "5.00",
+      refunds: [{ id: "r1" }],
+    });
+
+    const result = await rejectRefund("o1");
+
+    expect(result.success).toBe(true);
+    expect(updateSetMock).toHaveBeenCalledWith(expect.objectContaining({ status: "partially_refunded" }));
+    expect(recordAdminAuditMock).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        action: "order.refund_reject",
+        after: expect.objectContaining({ status: "partially_refunded" }),
+      })
+    );
+  });
+});
+
+describe("requestRefund 按订单所属支付通道判断是否可申请", () => {
+  beforeEach(() => {
+    findOrderMock.mockReset();
+    getPaymentProviderMock.mockReset();
+    updateSetMock.mockReset();
+    authMock.mockReset().mockResolvedValue({ user: { id: "u1", provider: "linux-do" } });
+  });
+
+  it("LDC 退款关闭时，EasyPay 订单仍可申请退款", async () => {
+    findOrderMock.mockResolvedValueOnce({ ...pendingOrder("wechat"), status: "completed" });
+    getPaymentProviderMock.mockResolvedValueOnce({ isRefundEnabled: () => true });
+
+    const result = await requestRefund("LD1", "卡密无法使用");
+
+    expect(getPaymentProviderMock).toHaveBeenCalledWith("wechat");
+    expect(result.success).toBe(true);
+    expect(updateSetMock).toHaveBeenCalledWith(expect.objectContaining({ status: "refund_pending" }));
+  });
+
+  it("通道未启用退款时拒绝申请", async () => {
+    findOrderMock.mockResolvedValueOnce({ ...pendingOrder("ldc"), status: "completed" });
+    getPaymentProviderMock.mockResolvedValueOnce({ isRefundEnabled: () => false });
+
+    const result = await requestRefund("LD1", "卡密无法使用");
+
+    expect(result).toEqual({ success: false, message: "退款功能未启用" });
+    expect(updateSetMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("adminCompleteOrder", () => {
+  beforeEach(() => {
+    recordAdminAuditMock.mockReset();
+    requireAdminMock.mockReset().mockResolvedValue({ user: { id: "a1", name: "admin" } });
+  });
+
+  it("已退款的订单不能手动完成，避免作废/隔离的卡密被改回已售出", async () => {
+    lockOrderMock.mockResolvedValueOnce([{ status: "partially_refunded", paidAt: null, adminRemark: null }]);
+
+    const result = await adminCompleteOrder("o1");
+
+    expect(result).toEqual({ success: false, message: "该订单状态不允许手动完成" });
+    expect(recordAdminAuditMock).not.toHaveBeenCalled();
+  });
+});
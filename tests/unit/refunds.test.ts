@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  cardStatusAfterRefund,
+  computeRefundAmount,
+  formatCents,
+  groupRefundCardsByPolicy,
+} from "@/lib/refunds";
+
+const card = (id: string, productId = "p1") => ({ id, productId, variantId: null });
+
+describe("computeRefundAmount", () => {
+  it("单商品订单按卡密数量等比例退款", () => {
+    const result = computeRefundAmount({
+      totalAmount: "30.00",
+      refundedAmount: "0",
+      lines: [{ productId: "p1", variantId: null, productPrice: "10.00", quantity: 3 }],
+      soldCards: [card("c1"), card("c2"), card("c3")],
+      selectedCardIds: ["c2"],
+    });
+
+    expect(result).toEqual({ amountCents: 1000, isFull: false });
+  });
+
+  it("优惠码折扣按比例分摊到每张卡密", () => {
+    const result = computeRefundAmount({
+      totalAmount: "27.00",
+      refundedAmount: "0",
+      lines: [{ productId: "p1", variantId: null, productPrice: "10.00", quantity: 3 }],
+      soldCards: [card("c1"), card("c2"), card("c3")],
+      selectedCardIds: ["c1"],
+    });
+
+    expect(formatCents(result.amountCents)).toBe("9.00");
+  });
+
+  it("合并结算订单按卡密所属商品单价计权", () => {
+    const result = computeRefundAmount({
+      totalAmount: "25.00",
+      refundedAmount: "0",
+      lines: [
+        { productId: "p1", variantId: null, productPrice: "5.00", quantity: 1 },
+        { productId: "p2", variantId: null, productPrice: "20.00", quantity: 1 },
+      ],
+      soldCards: [card("c1", "p1"), card("c2", "p2")],
+      selectedCardIds: ["c2"],
+    });
+
+    expect(result.amountCents).toBe(2000);
+  });
+
+  it("退还剩余全部卡密时退款剩余未退金额，避免尾差", () => {
+    const result = computeRefundAmount({
+      totalAmount: "10.00",
+      refundedAmount: "3.33",
+      lines: [{ productId: "p1", variantId: null, productPrice: "3.34", quantity: 3 }],
+      soldCards: [card("c2"), card("c3")],
+      selectedCardIds: ["c2", "c3"],
+    });
+
+    expect(result).toEqual({ amountCents: 667, isFull: true });
+  });
+});
+
+describe("groupRefundCardsByPolicy", () => {
+  const policies = new Map([
+    ["p1", "recycle" as const],
+    ["p2", "void" as const],
+  ]);
+
+  it("按卡密所属商品的策略分组，缺少策略时隔离", () => {
+    const groups = groupRefundCardsByPolicy(
+      [card("c1", "p1"), card("c2", "p2"), card("c3", "p3")],
+      policies
+    );
+
+    expect(Object.fromEntries(groups)).toEqual({
+      recycle: ["c1"],
+      void: ["c2"],
+      quarantine: ["c3"],
+    });
+  });
+
+  it("管理员指定的策略覆盖商品策略", () => {
+    const groups = groupRefundCardsByPolicy([card("c1", "p1"), card("c2", "p2")], policies, "void");
+
+    expect(Object.fromEntries(groups)).toEqual({ void: ["c1", "c2"] });
+    expect(cardStatusAfterRefund("quarantine")).toBe("quarantined");
+    expect(cardStatusAfterRefund("recycle")).toBe("available");
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildProfitReportCsv,
+  getProfitMetrics,
+  normalizeReportDate,
+  resolveReportWindow,
+  type ProfitReportRow,
+} from "@/lib/reports";
+import { getStatsLocalDate } from "@/lib/time/stats";
+
+function row(overrides: Partial<ProfitReportRow>): ProfitReportRow {
+  return {
+    key: "p1",
+    name: "商品A",
+    detail: null,
+    orders: 1,
+    units: 1,
+    revenue: 0,
+    refunds: 0,
+    cost: 0,
+    uncostedUnits: 0,
+    ...overrides,
+  };
+}
+
+describe("resolveReportWindow", () => {
+  it("日报表为当天，前后翻一天", () => {
+    const window = resolveReportWindow("day", "2026-03-01");
+    expect(window).toMatchObject({
+      startDate: "2026-03-01",
+      endDate: "2026-03-02",
+      prevDate: "2026-02-28",
+      nextDate: "2026-03-02",
+    });
+  });
+
+  it("周报表从周一开始（周日归入上周）", () => {
+    // 2026-10-18 为周日
+    const window = resolveReportWindow("week", "2026-10-18");
+    expect(window).toMatchObject({
+      startDate: "2026-10-12",
+      endDate: "2026-10-19",
+      label: "2026-10-12 ~ 2026-10-18",
+      prevDate: "2026-10-05",
+    });
+  });
+
+  it("月报表覆盖整月并正确跨年", () => {
+    const window = resolveReportWindow("month", "2026-12-31");
+    expect(window).toMatchObject({
+      startDate: "2026-12-01",
+      endDate: "2027-01-01",
+      label: "2026-12",
+      prevDate: "2026-11-01",
+    });
+  });
+});
+
+describe("normalizeReportDate", () => {
+  it("无效日期回退到默认值", () => {
+    expect(normalizeReportDate("2026-02-30", "2026-01-01")).toBe("2026-01-01");
+    expect(normalizeReportDate("abc", "2026-01-01")).toBe("2026-01-01");
+    expect(normalizeReportDate("2026-02-28", "2026-01-01")).toBe("2026-02-28");
+  });
+
+  it("业务时区的今日与 UTC 日期可能不同", () => {
+    const now = new Date("2026-01-01T17:00:00.000Z");
+    expect(getStatsLocalDate("UTC", now)).toBe("2026-01-01");
+    expect(getStatsLocalDate("Asia/Shanghai", now)).toBe("2026-01-02");
+  });
+});
+
+describe("getProfitMetrics", () => {
+  it("毛利扣除退款与成本，毛利率以净收入为分母", () => {
+    const metrics = getProfitMetrics({ revenue: 100, refunds: 20, cost: 50 });
+    expect(metrics).toEqual({ netRevenue: 80, grossProfit: 30, margin: 0.375 });
+  });
+
+  it("净收入为 0 时毛利率为空", () => {
+    expect(getProfitMetrics({ revenue: 10, refunds: 10, cost: 3 }).margin).toBeNull();
+  });
+});
+
+describe("buildProfitReportCsv", () => {
+  it("含表头、明细与合计行，并转义逗号", () => {
+    const csv = buildProfitReportCsv({
+      dimension: "product",
+      window: resolveReportWindow("day", "2026-03-01"),
+      timeZone: "Asia/Shanghai",
+      rows: [row({ name: "商品A, 月卡", revenue: 10, cost: 4 })],
+      totals: row({ key: "total", name: "合计", revenue: 10, cost: 4 }),
+    });
+
+    const lines = csv.replace(/^\uFEFF/, "").split("\n");
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toContain("毛利率");
+    expect(lines[1]).toContain('"商品A, 月卡"');
+    expect(lines[2]).toBe("2026-03-01 (Asia/Shanghai),合计,,1,1,10.00,0.00,10.00,4.00,6.00,60.0%,0");
+  });
+});
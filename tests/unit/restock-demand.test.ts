@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  getDaysOutOfStock,
+  getRestockDemandRange,
+  getRestockVelocity,
+  resolveRestockDemandWindow,
+  sortRestockDemand,
+  type RestockDemandRow,
+} from "@/lib/restock-demand";
+
+function row(overrides: Partial<RestockDemandRow>): RestockDemandRow {
+  return {
+    productId: "p",
+    productName: "商品",
+    productSlug: "p",
+    isActive: true,
+    stock: 0,
+    pending: 0,
+    notified: 0,
+    lastRequestedAt: null,
+    outOfStockSince: null,
+    daily: [0, 0, 0],
+    ...overrides,
+  };
+}
+
+describe("resolveRestockDemandWindow", () => {
+  it("只接受预设天数，其余回退到默认值", () => {
+    expect(resolveRestockDemandWindow("30")).toBe(30);
+    expect(resolveRestockDemandWindow("9")).toBe(14);
+    expect(resolveRestockDemandWindow(undefined)).toBe(14);
+  });
+});
+
+describe("getRestockDemandRange", () => {
+  it("以今天结尾并跨月", () => {
+    expect(getRestockDemandRange("2026-03-02", 3)).toEqual({
+      dates: ["2026-02-28", "2026-03-01", "2026-03-02"],
+      from: "2026-02-28",
+      endDate: "2026-03-03",
+    });
+  });
+});
+
+describe("getRestockVelocity / getDaysOutOfStock", () => {
+  it("按天平均，保留一位小数", () => {
+    expect(getRestockVelocity([1, 0, 0])).toBe(0.3);
+    expect(getRestockVelocity([])).toBe(0);
+  });
+
+  it("有库存时为 null，不足一天记为 0", () => {
+    const now = new Date("2026-01-10T12:00:00.000Z");
+    expect(getDaysOutOfStock(null, now)).toBeNull();
+    expect(getDaysOutOfStock("2026-01-10T01:00:00.000Z", now)).toBe(0);
+    expect(getDaysOutOfStock("2026-01-07T12:00:00.000Z", now)).toBe(3);
+  });
+});
+
+describe("sortRestockDemand", () => {
+  it("待通知人数优先，其次请求速度与缺货时长", () => {
+    const now = new Date("2026-01-10T00:00:00.000Z");
+    const sorted = sortRestockDemand(
+      [
+        row({ productId: "slow", pending: 2, daily: [0, 0, 1] }),
+        row({ productId: "old", pending: 2, daily: [0, 1, 2], outOfStockSince: "2026-01-01T00:00:00.000Z" }),
+        row({ productId: "top", pending: 5 }),
+        row({ productId: "fast", pending: 2, daily: [0, 1, 2], outOfStockSince: "2026-01-09T00:00:00.000Z" }),
+      ],
+      now
+    );
+
+    expect(sorted.map((item) => item.productId)).toEqual(["top", "old", "fast", "slow"]);
+  });
+});
@@ -0,0 +1,167 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const updateMock = vi.fn();
+vi.mock("@/lib/db", () => ({
+  db: {
+    select: vi.fn(),
+    update: (...args: unknown[]) => updateMock(...args),
+  },
+  cards: {},
+  products: {},
+  restockRequests: {},
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    child: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock("next/headers", () => ({
+  headers: vi.fn(),
+}));
+
+import { db } from "@/lib/db";
+import { getLinuxDoForumConfig } from "@/lib/notifications";
+import { sendLinuxDoPrivateMessage } from "@/lib/notifications/linuxdo";
+import {
+  buildRestockPrivateMessage,
+  notifyRestockRequesters,
+  scheduleRestockNotifications,
+} from "@/lib/restock-notifications";
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+  vi.unstubAllEnvs();
+  updateMock.mockReset();
+});
+
+describe("getLinuxDoForumConfig", () => {
+  it("需要 API Key 与发信账号，论坛地址默认 linux.do", () => {
+    expect(getLinuxDoForumConfig({ LINUXDO_FORUM_API_KEY: "key" })).toBeNull();
+    expect(
+      getLinuxDoForumConfig({ LINUXDO_FORUM_API_KEY: "key", LINUXDO_FORUM_API_USERNAME: "store-bot" })
+    ).toEqual({ baseUrl: "https://linux.do", apiKey: "key", apiUsername: "store-bot" });
+  });
+});
+
+describe("sendLinuxDoPrivateMessage", () => {
+  const config = { baseUrl: "https://forum.example.com/", apiKey: "key", apiUsername: "store-bot" };
+  const message = { username: "alice", title: "到货", raw: "正文" };
+
+  it("以私信形式发给指定用户", async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(new Response("{}", { status: 200 }));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    await sendLinuxDoPrivateMessage(config, message);
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("https://forum.example.com/posts.json");
+    expect(init.headers).toMatchObject({ "Api-Key": "key", "Api-Username": "store-bot" });
+    expect(JSON.parse(init.body as string)).toEqual({
+      title: "到货",
+      raw: "正文",
+      target_recipients: "alice",
+      archetype: "private_message",
+    });
+  });
+
+  it("失败时抛出论坛返回的错误", async () => {
+    globalThis.fetch = vi.fn().mockResolvedValueOnce(
+      new Response(JSON.stringify({ errors: ["用户不存在"] }), { status: 422 })
+    ) as unknown as typeof fetch;
+
+    await expect(sendLinuxDoPrivateMessage(config, message)).rejects.toThrow("用户不存在");
+  });
+});
+
+describe("buildRestockPrivateMessage", () => {
+  it("有链接时附带商品链接", () => {
+    const pm = buildRestockPrivateMessage(
+      { id: "p1", name: "月卡", url: "https://store.example.com/product/month", stock: 5 },
+      "alice"
+    );
+
+    expect(pm.username).toBe("alice");
+    expect(pm.title).toBe("你催补货的「月卡」已到货");
+    expect(pm.raw).toContain("商品链接：https://store.example.com/product/month");
+  });
+
+  it("没有链接时省略链接段落", () => {
+    const pm = buildRestockPrivateMessage({ id: "p1", name: "月卡", url: null, stock: 5 }, "alice");
+
+    expect(pm.raw).not.toContain("商品链接");
+    expect(pm.raw.split("\n\n")).toHaveLength(2);
+  });
+});
+
+describe("notifyRestockRequesters", () => {
+  it("未配置任何渠道时不归档请求", async () => {
+    vi.stubEnv("NOTIFY_WEBHOOK_URL", "");
+    vi.stubEnv("LINUXDO_FORUM_API_KEY", "");
+
+    await expect(notifyRestockRequesters("p1")).resolves.toBe(0);
+    expect(updateMock).not.toHaveBeenCalled();
+  });
+
+  it("并发发送私信，同时进行的请求不超过 5 个", async () => {
+    mockRestockQueries(7);
+    let inFlight = 0;
+    let maxInFlight = 0;
+    globalThis.fetch = vi.fn(async () => {
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight -= 1;
+      return new Response("{}", { status: 200 });
+    }) as unknown as typeof fetch;
+
+    await expect(notifyRestockRequesters("p1")).resolves.toBe(7);
+    expect(globalThis.fetch).toHaveBeenCalledTimes(7);
+    expect(maxInFlight).toBe(5);
+  });
+});
+
+describe("scheduleRestockNotifications", () => {
+  it("不等待私信送达即返回", async () => {
+    mockRestockQueries(2);
+    const fetchMock = vi.fn(() => new Promise<Response>(() => {}));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    expect(scheduleRestockNotifications("p1")).toBeUndefined();
+    // 私信在后台发出，且一直没有返回
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+  });
+});
+
+/**
+ * 配置论坛私信渠道，并模拟商品有库存、有 count 个待通知的催补货请求
+ */
+function mockRestockQueries(count: number) {
+  vi.stubEnv("NOTIFY_WEBHOOK_URL", "");
+  vi.stubEnv("LINUXDO_FORUM_API_KEY", "key");
+  vi.stubEnv("LINUXDO_FORUM_API_USERNAME", "store-bot");
+
+  vi.mocked(db.select).mockReturnValue({
+    from: () => ({
+      leftJoin: () => ({
+        where: () => ({
+          groupBy: async () => [{ id: "p1", name: "月卡", slug: "month", isActive: true, stock: 5 }],
+        }),
+      }),
+    }),
+  } as never);
+  updateMock.mockReturnValue({
+    set: () => ({
+      where: () => ({
+        returning: async () =>
+          Array.from({ length: count }, (_, i) => ({ id: `r${i}`, userId: `${i}`, username: `user${i}` })),
+      }),
+    }),
+  });
+}
@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const authMock = vi.fn();
+const findManyCartMock = vi.fn();
+const transactionMock = vi.fn();
+const createPaymentMock = vi.fn();
+const sendNotificationMock = vi.fn();
+
+// checkStockAlerts 的查询：商品 p1 库存 0、阈值 10、尚未预警，会触发一次预警通知
+const lowStockRow = { id: "p1", name: "月卡", threshold: 10, alertedAt: null, stock: 0 };
+
+// 关键：避免在单元测试中初始化真实数据库连接（lib/db 会强依赖 DATABASE_URL）
+vi.mock("@/lib/db", () => ({
+  db: {
+    query: {
+      cartItems: {
+        findMany: (...args: unknown[]) => findManyCartMock(...args),
+      },
+    },
+    transaction: (...args: unknown[]) => transactionMock(...args),
+    select: () => ({
+      from: () => ({
+        leftJoin: () => ({
+          where: () => ({
+            groupBy: async () => [lowStockRow],
+          }),
+        }),
+      }),
+    }),
+    update: () => ({
+      set: () => ({
+        where: () => ({
+          returning: async () => [{ id: "p1" }],
+        }),
+      }),
+    }),
+  },
+  orders: {},
+  orderItems: {},
+  cartItems: {},
+  cards: {},
+  products: {},
+}));
+
+vi.mock("@/lib/auth", () => ({
+  auth: () => authMock(),
+}));
+
+vi.mock("next/headers", () => ({
+  headers: async () => new Headers({ host: "shop.example.com", "x-forwarded-proto": "https" }),
+}));
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}));
+
+vi.mock("@/lib/actions/system-settings", () => ({
+  getSystemSettings: async () => ({ orderExpireMinutes: 5 }),
+}));
+
+vi.mock("@/lib/payment/ldc", () => ({
+  createPayment: (...args: unknown[]) => createPaymentMock(...args),
+  refundOrder: vi.fn(),
+  isRefundEnabled: () => false,
+  getRefundMode: () => "disabled",
+  getClientRefundParams: vi.fn(),
+}));
+
+// 模拟一个一直不返回的通知渠道（如 SMTP 服务器无响应）
+vi.mock("@/lib/notifications", () => ({
+  sendNotification: (...args: unknown[]) => {
+    sendNotificationMock(...args);
+    return new Promise(() => {});
+  },
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    child: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+  getRequestIdFromHeaders: async () => undefined,
+}));
+
+import { checkoutCart } from "@/lib/actions/orders";
+import { handlePaymentSuccess } from "@/lib/order-placement";
+
+function checkoutTxMock() {
+  return {
+    select: () => ({
+      from: () => ({
+        where: () => ({
+          orderBy: () => ({
+            limit: () => ({
+              for: async () => [{ id: "card-1" }],
+            }),
+          }),
+        }),
+      }),
+    }),
+    insert: () => ({
+      values: (values: unknown) => ({
+        returning: async () => [{ id: "order-1", ...(values as object) }],
+      }),
+    }),
+    update: () => ({
+      set: () => ({
+        where: async () => undefined,
+      }),
+    }),
+    delete: () => ({
+      where: async () => undefined,
+    }),
+  };
+}
+
+function paymentTxMock() {
+  const order = { id: "order-1", productId: "p1", quantity: 1 };
+  const selectResults = [[{ productId: "p1", quantity: 1 }], [{ id: "p1", slug: "p1" }]];
+
+  return {
+    update: () => ({
+      set: () => ({
+        where: () => ({
+          returning: async () => [order],
+          then: (resolve: (value: unknown) => void) => resolve(undefined),
+        }),
+      }),
+    }),
+    select: () => ({
+      from: () => ({
+        where: async () => selectResults.shift() ?? [],
+      }),
+    }),
+  };
+}
+
+describe("库存预警不阻塞主流程", () => {
+  beforeEach(() => {
+    authMock.mockReset();
+    findManyCartMock.mockReset();
+    transactionMock.mockReset();
+    createPaymentMock.mockReset();
+    sendNotificationMock.mockReset();
+  });
+
+  it("购物车结算在通知发送完成前返回支付表单", async () => {
+    authMock.mockResolvedValueOnce({ user: { id: "u1", provider: "linux-do", username: "tester" } });
+    findManyCartMock.mockResolvedValueOnce([
+      {
+        id: "c1",
+        productId: "p1",
+        quantity: 1,
+        product: { id: "p1", name: "月卡", slug: "p1", price: "1.00", isActive: true, minQuantity: 1, maxQuantity: 10 },
+      },
+    ]);
+    createPaymentMock.mockReturnValueOnce({ actionUrl: "https://pay", params: {} });
+    const tx = checkoutTxMock();
+    transactionMock
+      .mockRejectedValueOnce(new Error("skip"))
+      .mockImplementationOnce(async (fn: (t: typeof tx) => unknown) => fn(tx));
+
+    const result = await checkoutCart({ paymentMethod: "ldc" });
+
+    expect(result.success).toBe(true);
+    expect(result.paymentForm).toEqual({ actionUrl: "https://pay", params: {} });
+    // 通知在后台发出，且一直没有返回
+    await vi.waitFor(() => expect(sendNotificationMock).toHaveBeenCalledTimes(1));
+  });
+
+  it("支付回调在通知发送完成前返回", async () => {
+    const tx = paymentTxMock();
+    transactionMock.mockImplementationOnce(async (fn: (t: typeof tx) => unknown) => fn(tx));
+
+    await expect(handlePaymentSuccess("ORDER_1", "TRADE_1")).resolves.toBe(true);
+    await vi.waitFor(() =>
+      expect(sendNotificationMock).toHaveBeenCalledWith(expect.objectContaining({ event: "stock.low" }))
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from "vitest";
+
+// 关键：避免在单元测试中初始化真实数据库连接（lib/db 会强依赖 DATABASE_URL）
+vi.mock("@/lib/db", () => ({
+  db: {},
+  cards: {},
+  products: {},
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    child: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import { buildStockAlertMessage, checkStockAlerts, getStockAlertTransition } from "@/lib/stock-alerts";
+
+describe("getStockAlertTransition", () => {
+  it("低于阈值且未预警时触发预警", () => {
+    expect(getStockAlertTransition({ stock: 9, threshold: 10, alerted: false })).toBe("low");
+    expect(getStockAlertTransition({ stock: 0, threshold: 1, alerted: false })).toBe("low");
+  });
+
+  it("已预警时不重复通知", () => {
+    expect(getStockAlertTransition({ stock: 3, threshold: 10, alerted: true })).toBeNull();
+  });
+
+  it("库存回到阈值及以上时恢复", () => {
+    expect(getStockAlertTransition({ stock: 10, threshold: 10, alerted: true })).toBe("restocked");
+    expect(getStockAlertTransition({ stock: 10, threshold: 10, alerted: false })).toBeNull();
+  });
+
+  it("阈值为 0 时关闭预警", () => {
+    expect(getStockAlertTransition({ stock: 0, threshold: 0, alerted: false })).toBeNull();
+  });
+});
+
+describe("buildStockAlertMessage", () => {
+  const product = { id: "p1", name: "月卡", threshold: 10, stock: 3 };
+
+  it("预警消息包含库存与阈值", () => {
+    const message = buildStockAlertMessage("low", product);
+    expect(message.event).toBe("stock.low");
+    expect(message.text).toContain("剩余 3");
+    expect(message.data).toEqual({ productId: "p1", productName: "月卡", stock: 3, threshold: 10 });
+  });
+
+  it("售罄时提示尽快补货", () => {
+    expect(buildStockAlertMessage("low", { ...product, stock: 0 }).text).toContain("已售罄");
+  });
+
+  it("补货消息", () => {
+    const message = buildStockAlertMessage("restocked", { ...product, stock: 50 });
+    expect(message.event).toBe("stock.restocked");
+    expect(message.text).toContain("当前可售库存 50");
+  });
+});
+
+describe("checkStockAlerts", () => {
+  it("没有商品时不查询数据库", async () => {
+    // db mock 为空对象，若发起查询会在内部报错并被记录日志
+    await expect(checkStockAlerts(["", ""])).resolves.toBeUndefined();
+  });
+});
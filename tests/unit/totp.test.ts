@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildTotpUri,
+  decodeBase32,
+  encodeBase32,
+  generateRecoveryCodes,
+  generateTotpCode,
+  generateTotpSecret,
+  getTotpStep,
+  hashRecoveryCode,
+  verifyTotpCode,
+} from "@/lib/totp";
+
+// RFC 6238 附录 B 的 SHA-1 测试密钥 "12345678901234567890"
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("base32", () => {
+  it("编码与解码互逆", () => {
+    expect(encodeBase32(Buffer.from("12345678901234567890"))).toBe(RFC_SECRET);
+    expect(decodeBase32(RFC_SECRET).toString()).toBe("12345678901234567890");
+    expect(decodeBase32("gezd gnbv").toString("hex")).toBe(
+      decodeBase32("GEZDGNBV").toString("hex")
+    );
+  });
+
+  it("生成的密钥为 32 位 Base32（160 位）", () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(decodeBase32(secret)).toHaveLength(20);
+  });
+});
+
+describe("generateTotpCode", () => {
+  it.each([
+    [59, "287082"],
+    [1111111109, "081804"],
+    [1111111111, "050471"],
+    [1234567890, "005924"],
+    [2000000000, "279037"],
+  ])("时间 %i 秒生成 RFC 6238 对应的验证码", (seconds, expected) => {
+    expect(generateTotpCode(RFC_SECRET, getTotpStep(seconds * 1000))).toBe(expected);
+  });
+});
+
+describe("verifyTotpCode", () => {
+  const timeMs = 1111111111 * 1000;
+  const step = getTotpStep(timeMs);
+
+  it("接受当前及前后一个时间步的验证码", () => {
+    expect(verifyTotpCode(RFC_SECRET, "050471", { timeMs })).toBe(step);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 1), { timeMs })).toBe(
+      step - 1
+    );
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step + 2), { timeMs })).toBeNull();
+  });
+
+  it("拒绝已使用过的时间步（防重放）", () => {
+    expect(verifyTotpCode(RFC_SECRET, "050471", { timeMs, afterStep: step })).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, "050471", { timeMs, afterStep: step - 1 })).toBe(step);
+  });
+
+  it("拒绝格式不正确的验证码", () => {
+    expect(verifyTotpCode(RFC_SECRET, "05047", { timeMs })).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, "abcdef", { timeMs })).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, "050 471", { timeMs })).toBe(step);
+  });
+});
+
+describe("recovery codes", () => {
+  it("生成不重复的恢复码，哈希忽略大小写与分隔符", () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    expect(codes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+
+    const [code] = codes;
+    expect(hashRecoveryCode(code.toUpperCase().replace("-", " "))).toBe(hashRecoveryCode(code));
+  });
+});
+
+describe("buildTotpUri", () => {
+  it("生成验证器 App 可识别的 otpauth 链接", () => {
+    const uri = buildTotpUri({ issuer: "LDC Store", account: "alice", secret: RFC_SECRET });
+    expect(uri.startsWith("otpauth://totp/LDC%20Store%3Aalice?")).toBe(true);
+
+    const params = new URL(uri).searchParams;
+    expect(params.get("secret")).toBe(RFC_SECRET);
+    expect(params.get("issuer")).toBe("LDC Store");
+    expect(params.get("digits")).toBe("6");
+    expect(params.get("period")).toBe("30");
+  });
+});
@@ -22,6 +22,12 @@ describe("utils/card-url", () => {
     expect(href).toBe("/admin/cards?product=p1&q=abc&status=available&orderNo=ORDER_1&page=2");
   });
 
+  it("应在商品参数后拼接规格参数", () => {
+    expect(buildAdminCardsHref({ productId: "p1", variantId: "v1", status: "sold" })).toBe(
+      "/admin/cards?product=p1&variant=v1&status=sold"
+    );
+  });
+
   it("page<=1 时应省略 page 参数", () => {
     expect(buildAdminCardsHref({ page: 1 })).toBe("/admin/cards");
     expect(buildAdminCardsHref({ page: 0 })).toBe("/admin/cards");
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+
+import { createAdminUserSchema, resetAdminPasswordSchema } from "@/lib/validations/admin-user";
+
+describe("validations/admin-user", () => {
+  it("应通过合法参数，并将用户名转为小写", () => {
+    const result = createAdminUserSchema.safeParse({
+      username: " Alice.Ops ",
+      password: "correct-horse",
+      role: "operator",
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.data.username).toBe("alice.ops");
+  });
+
+  it("应拒绝包含非法字符的用户名", () => {
+    const result = createAdminUserSchema.safeParse({
+      username: "alice bob",
+      password: "correct-horse",
+      role: "support",
+    });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+
+    expect(result.error.issues[0]?.message).toBe("用户名只能包含字母、数字、下划线、点和连字符");
+  });
+
+  it("应拒绝未知角色", () => {
+    const result = createAdminUserSchema.safeParse({
+      username: "alice",
+      password: "correct-horse",
+      role: "root",
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it("应拒绝过短或超过 72 字节的密码", () => {
+    expect(resetAdminPasswordSchema.safeParse({ password: "short" }).success).toBe(false);
+    expect(resetAdminPasswordSchema.safeParse({ password: "密".repeat(25) }).success).toBe(false);
+    expect(resetAdminPasswordSchema.safeParse({ password: "密".repeat(24) }).success).toBe(true);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+
+import { couponSchema } from "@/lib/validations/coupon";
+
+describe("validations/coupon", () => {
+  it("应通过合法参数，并将优惠码转为大写", () => {
+    const result = couponSchema.safeParse({
+      code: "welcome-10",
+      discountType: "percent",
+      discountValue: 10,
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.data.code).toBe("WELCOME-10");
+    expect(result.data.minAmount).toBe(0);
+    expect(result.data.expiresAt).toBe("");
+  });
+
+  it("应拒绝超过 100 的百分比折扣", () => {
+    const result = couponSchema.safeParse({
+      code: "TOO_MUCH",
+      discountType: "percent",
+      discountValue: 120,
+    });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+
+    expect(result.error.issues[0]?.message).toBe("百分比折扣不能超过100");
+  });
+
+  it("应拒绝同时指定商品与分类", () => {
+    const result = couponSchema.safeParse({
+      code: "BOTH",
+      discountType: "fixed",
+      discountValue: 1,
+      productId: "00000000-0000-0000-0000-000000000000",
+      categoryId: "00000000-0000-0000-0000-000000000001",
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
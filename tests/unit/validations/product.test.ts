@@ -77,6 +77,30 @@ describe("validations/product", () => {
     ).toBe(false);
   });
 
+  it("priceTiers 默认为空数组，并拒绝重复或过小的起始数量", () => {
+    const defaults = productSchema.safeParse(makeValidProductInput());
+    expect(defaults.success).toBe(true);
+    if (!defaults.success) return;
+    expect(defaults.data.priceTiers).toEqual([]);
+
+    const duplicated = productSchema.safeParse({
+      ...makeValidProductInput(),
+      priceTiers: [
+        { minQuantity: 5, price: 9 },
+        { minQuantity: 5, price: 8 },
+      ],
+    });
+    expect(duplicated.success).toBe(false);
+    if (duplicated.success) return;
+    expect(duplicated.error.issues[0].message).toContain("重复");
+
+    const tooSmall = productSchema.safeParse({
+      ...makeValidProductInput(),
+      priceTiers: [{ minQuantity: 1, price: 9 }],
+    });
+    expect(tooSmall.success).toBe(false);
+  });
+
   it("updateProductSchema 应允许 partial update", () => {
     const result = updateProductSchema.safeParse({
       name: "Only Name Updated",